@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "public"."market_datasets" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "timeframe" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "format" TEXT NOT NULL,
+    "bar_count" INTEGER NOT NULL,
+    "start_time" TIMESTAMP(3) NOT NULL,
+    "end_time" TIMESTAMP(3) NOT NULL,
+    "bars" JSONB NOT NULL,
+    "report" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "market_datasets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "market_datasets_user_id_idx" ON "public"."market_datasets"("user_id");
+
+-- CreateIndex
+CREATE INDEX "market_datasets_user_id_symbol_timeframe_idx" ON "public"."market_datasets"("user_id", "symbol", "timeframe");
+
+-- AddForeignKey
+ALTER TABLE "public"."market_datasets" ADD CONSTRAINT "market_datasets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Backfill the per-strategy version retention limit into plans seeded before it existed.
+-- Plans that already set strategyVersions keep their value.
+UPDATE "public"."subscription_plans"
+SET "limits" = jsonb_set("limits"::jsonb, '{strategyVersions}',
+    CASE "name"
+        WHEN 'free' THEN '5'::jsonb
+        WHEN 'pro' THEN '50'::jsonb
+        ELSE '"unlimited"'::jsonb
+    END)
+WHERE "name" IN ('free', 'pro', 'premium')
+  AND NOT ("limits"::jsonb ? 'strategyVersions');
@@ -89,7 +89,7 @@ async function main() {
     },
     {
       name: 'ollama-mistral',
-      provider: 'mistral',
+      provider: 'ollama',
       modelId: 'mistral',
       displayName: 'Mistral',
       description: 'High-performance Mistral model for advanced reasoning',
@@ -98,6 +98,17 @@ async function main() {
       maxTokens: 8192,
       costPer1kTokens: 0.0,
     },
+    {
+      name: 'local-llm',
+      provider: 'local',
+      modelId: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+      displayName: 'Local Model',
+      description: 'Self-hosted model on LOCAL_LLM_URL - prompts never leave your network',
+      isActive: true,
+      isDefault: false,
+      maxTokens: 8192,
+      costPer1kTokens: 0.0,
+    },
   ];
 
   for (const modelData of defaultModels) {
@@ -347,6 +358,7 @@ async function main() {
         aiGenerations: 10,
         aiChatAccess: false,
         scriptStorage: 5,
+        strategyVersions: 5,
         exportFormats: ['pine'],
         supportLevel: 'basic',
         customSignatures: false,
@@ -393,6 +405,7 @@ async function main() {
         aiGenerations: 500,
         aiChatAccess: true,
         scriptStorage: 'unlimited',
+        strategyVersions: 50,
         exportFormats: ['pine', 'json', 'txt'],
         supportLevel: 'priority',
         customSignatures: true,
@@ -445,6 +458,7 @@ async function main() {
         aiGenerations: 1000,
         aiChatAccess: true,
         scriptStorage: 'unlimited',
+        strategyVersions: 'unlimited',
         exportFormats: ['pine', 'json', 'txt', 'csv'],
         supportLevel: 'premium',
         customSignatures: true,
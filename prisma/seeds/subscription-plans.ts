@@ -64,6 +64,7 @@ export const subscriptionPlansData = [
       aiGenerations: 0,
       aiChatAccess: false,
       scriptStorage: 1,
+      strategyVersions: 5,
       exportFormats: ['pine'],
       supportLevel: 'community',
       customSignatures: false,
@@ -153,6 +154,7 @@ export const subscriptionPlansData = [
       aiGenerations: 'unlimited',
       aiChatAccess: true,
       scriptStorage: 'unlimited',
+      strategyVersions: 50,
       exportFormats: ['pine', 'json', 'txt'],
       supportLevel: 'priority',
       customSignatures: true,
@@ -218,6 +220,7 @@ export const subscriptionPlansData = [
       aiGenerations: 'unlimited',
       aiChatAccess: true,
       scriptStorage: 'unlimited',
+      strategyVersions: 'unlimited',
       exportFormats: ['pine', 'json', 'txt', 'xml'],
       supportLevel: 'dedicated',
       customSignatures: true,
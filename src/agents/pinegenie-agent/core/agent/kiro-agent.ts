@@ -3,7 +3,8 @@
  * Spec-driven development flow with multi-step conversation management and context retention
  */
 
-import { llmConnectionManager, LLMMessage, LLMResponse } from '../llm/llm-connection';
+import { llmGateway } from '@/lib/llm';
+import type { LLMMessage } from '@/lib/llm';
 import { pineScriptValidator } from '../pine-generator/code-validator';
 import { strategyTemplates } from '../pine-generator/templates';
 
@@ -349,7 +350,7 @@ Provide detailed feedback and suggestions for improvements.
       { role: 'user', content: userMessage }
     ];
 
-    const response = await llmConnectionManager.sendMessage(messages, 'openai');
+    const response = await llmGateway.complete({ messages });
 
     // Determine if step is completed based on response and current step
     const stepCompleted = this.isStepCompleted(context, userMessage, response.content);
@@ -0,0 +1,101 @@
+/**
+ * Code Validator Tests
+ * Parser and semantic checker results surfaced as ranged validation errors
+ */
+
+import { PineScriptValidator } from '../code-validator';
+
+describe('PineScriptValidator', () => {
+  let validator: PineScriptValidator;
+
+  beforeEach(() => {
+    validator = new PineScriptValidator();
+  });
+
+  test('should accept a valid multi-line strategy', () => {
+    const result = validator.validate([
+      '//@version=6',
+      'strategy("Crossover", overlay=true)',
+      'fast = ta.sma(close, 9)',
+      'slow = ta.sma(close,',
+      '     21)',
+      'if ta.crossover(fast, slow)',
+      '    strategy.entry("Long", strategy.long)',
+      'plot(fast / 0.5)'
+    ].join('\n'));
+
+    expect(result.errors).toEqual([]);
+    expect(result.isValid).toBe(true);
+    expect(result.pineScriptVersion).toBe('v6');
+  });
+
+  test('should report syntax and semantic errors with their exact range', () => {
+    const result = validator.validate([
+      '//@version=6',
+      'indicator("Test")',
+      'length = 14',
+      'value = ta.rsi(close, lenght)',
+      'plot(value, title="RSI", 2)'
+    ].join('\n'));
+
+    expect(result.errors.map(error => [error.code, error.line, error.column, error.endLine, error.endColumn])).toEqual([
+      ['undeclared_identifier', 4, 23, 4, 29],
+      ['syntax_error', 5, 26, 5, 27]
+    ]);
+    expect(result.errors[0].quickFix).toMatchObject({
+      replacement: 'length',
+      range: { startLine: 4, startColumn: 23, endLine: 4, endColumn: 29 }
+    });
+  });
+
+  test('should report lookahead misuse as a warning', () => {
+    const result = validator.validate([
+      '//@version=6',
+      'indicator("Daily")',
+      'daily = request.security(syminfo.tickerid, "D", close, lookahead=barmerge.lookahead_on)'
+    ].join('\n'));
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.map(warning => warning.code)).toContain('lookahead_bias');
+  });
+
+  test('should apply quick fixes by error code', () => {
+    const code = [
+      'indicator("Fix me")',
+      'total = 0',
+      'total = total + 1',
+      'daily = request.security(syminfo.tickerid, "D", close + open, lookahead=barmerge.lookahead_on)'
+    ].join('\n');
+
+    expect(validator.autoFix(code, ['version_required', 'redeclared_variable', 'lookahead_bias'])).toBe([
+      '//@version=6',
+      'indicator("Fix me")',
+      'total = 0',
+      'total := total + 1',
+      'daily = request.security(syminfo.tickerid, "D", (close + open)[1], lookahead=barmerge.lookahead_on)'
+    ].join('\n'));
+  });
+
+  test('should offer a migration for older versions', () => {
+    const code = [
+      '//@version=4',
+      'study("Legacy")',
+      'plot(sma(close, 20), color=color.blue, transp=40)'
+    ].join('\n');
+    const migrated = [
+      '//@version=6',
+      'indicator("Legacy")',
+      'plot(ta.sma(close, 20), color=color.new(color.blue, 40))'
+    ].join('\n');
+
+    const result = validator.validate(code);
+    expect(result.errors.map(error => [error.code, error.line, error.column, error.endColumn])).toEqual([
+      ['version_outdated', 1, 1, 13]
+    ]);
+    expect(result.errors[0].quickFix).toMatchObject({
+      replacement: migrated,
+      range: { startLine: 1, startColumn: 1, endLine: 3, endColumn: 50 }
+    });
+    expect(validator.autoFix(code, ['version_outdated'])).toBe(migrated);
+  });
+});
@@ -3,9 +3,15 @@
  * Real-time Pine Script v6 syntax checker with error highlighting and suggestions
  */
 
+import { TARGET_PINE_VERSION, checkPine, migratePine, parsePine } from '@/lib/pinescript';
+import type { PineDiagnostic, SemanticFix } from '@/lib/pinescript';
+
+// Positions are 1-based; endColumn is exclusive, so a range can be underlined as is
 export interface ValidationError {
   line: number;
   column: number;
+  endLine: number;
+  endColumn: number;
   message: string;
   severity: 'error' | 'warning' | 'info';
   code: string;
@@ -17,6 +23,7 @@ export interface QuickFix {
   title: string;
   description: string;
   replacement: string;
+  // Same coordinates as ValidationError
   range: {
     startLine: number;
     startColumn: number;
@@ -52,15 +59,9 @@ export interface ValidationRule {
  */
 export class PineScriptValidator {
   private rules: ValidationRule[];
-  private keywords: Set<string>;
-  private functions: Set<string>;
-  private variables: Set<string>;
 
   constructor() {
     this.rules = this.initializeRules();
-    this.keywords = this.initializeKeywords();
-    this.functions = this.initializeFunctions();
-    this.variables = new Set();
   }
 
   /**
@@ -68,76 +69,6 @@ export class PineScriptValidator {
    */
   private initializeRules(): ValidationRule[] {
     return [
-      // Version validation
-      {
-        id: 'version_required',
-        name: 'Version Declaration Required',
-        description: 'Pine Script must start with version declaration',
-        category: 'syntax',
-        severity: 'error',
-        pattern: /^(?!\/\/@version=)/m,
-        message: 'Pine Script must start with //@version=6',
-        suggestion: 'Add //@version=6 at the beginning of your script',
-        quickFix: (match, line) => ({
-          title: 'Add version declaration',
-          description: 'Insert //@version=6 at the beginning',
-          replacement: '//@version=6\n',
-          range: { startLine: 0, startColumn: 0, endLine: 0, endColumn: 0 }
-        })
-      },
-
-      // Syntax errors
-      {
-        id: 'missing_parentheses',
-        name: 'Missing Parentheses',
-        description: 'Function calls must have parentheses',
-        category: 'syntax',
-        severity: 'error',
-        pattern: /\b(ta\.\w+|math\.\w+|str\.\w+)\s*(?!\()/g,
-        message: 'Function calls must include parentheses',
-        suggestion: 'Add () after function name',
-        quickFix: (match, line) => ({
-          title: 'Add parentheses',
-          description: 'Add () to complete function call',
-          replacement: `${match[1]}()`,
-          range: { startLine: line, startColumn: match.index!, endLine: line, endColumn: match.index! + match[0].length }
-        })
-      },
-
-      {
-        id: 'invalid_variable_name',
-        name: 'Invalid Variable Name',
-        description: 'Variable names must follow Pine Script naming rules',
-        category: 'syntax',
-        severity: 'error',
-        pattern: /\b(\d+\w+|\w*-\w*)\s*=/g,
-        message: 'Variable names cannot start with numbers or contain hyphens',
-        suggestion: 'Use valid variable names (letters, numbers, underscores)'
-      },
-
-      // Logic errors
-      {
-        id: 'undefined_variable',
-        name: 'Undefined Variable',
-        description: 'Variable used before declaration',
-        category: 'logic',
-        severity: 'error',
-        pattern: /\b([a-zA-Z_]\w*)\b/g,
-        message: 'Variable used before declaration',
-        suggestion: 'Declare variable before use or check spelling'
-      },
-
-      {
-        id: 'recursive_reference',
-        name: 'Recursive Reference',
-        description: 'Variable references itself in calculation',
-        category: 'logic',
-        severity: 'error',
-        pattern: /(\w+)\s*=.*\b\1\b/g,
-        message: 'Variable cannot reference itself directly',
-        suggestion: 'Use previous value with [1] or different logic'
-      },
-
       // Performance issues
       {
         id: 'inefficient_loop',
@@ -198,51 +129,6 @@ export class PineScriptValidator {
     ];
   }
 
-  /**
-   * Initialize Pine Script keywords
-   */
-  private initializeKeywords(): Set<string> {
-    return new Set([
-      'strategy', 'indicator', 'library', 'import', 'export',
-      'var', 'varip', 'if', 'else', 'for', 'while', 'switch',
-      'true', 'false', 'na', 'open', 'high', 'low', 'close', 'volume',
-      'time', 'bar_index', 'last_bar_index', 'barstate',
-      'input', 'plot', 'plotshape', 'plotchar', 'bgcolor', 'hline',
-      'fill', 'table', 'label', 'line', 'box', 'polyline'
-    ]);
-  }
-
-  /**
-   * Initialize Pine Script built-in functions
-   */
-  private initializeFunctions(): Set<string> {
-    return new Set([
-      // Technical analysis
-      'ta.sma', 'ta.ema', 'ta.rsi', 'ta.macd', 'ta.bb', 'ta.atr',
-      'ta.stoch', 'ta.cci', 'ta.mfi', 'ta.adx', 'ta.obv',
-      'ta.crossover', 'ta.crossunder', 'ta.highest', 'ta.lowest',
-      'ta.valuewhen', 'ta.barssince', 'ta.change', 'ta.mom',
-      
-      // Math functions
-      'math.abs', 'math.max', 'math.min', 'math.round', 'math.floor',
-      'math.ceil', 'math.pow', 'math.sqrt', 'math.log', 'math.exp',
-      'math.sin', 'math.cos', 'math.tan', 'math.avg', 'math.sum',
-      
-      // String functions
-      'str.tostring', 'str.tonumber', 'str.length', 'str.substring',
-      'str.contains', 'str.startswith', 'str.endswith', 'str.replace',
-      
-      // Array functions
-      'array.new', 'array.push', 'array.pop', 'array.get', 'array.set',
-      'array.size', 'array.clear', 'array.slice', 'array.sort',
-      
-      // Strategy functions
-      'strategy.entry', 'strategy.exit', 'strategy.close', 'strategy.cancel',
-      'strategy.position_size', 'strategy.position_avg_price',
-      'strategy.equity', 'strategy.netprofit', 'strategy.grossprofit'
-    ]);
-  }
-
   /**
    * Validate Pine Script code
    */
@@ -253,9 +139,60 @@ export class PineScriptValidator {
     const suggestions: ValidationError[] = [];
     const securityIssues: ValidationError[] = [];
 
-    // Track variables for undefined reference checking
-    this.variables.clear();
-    this.extractVariables(code);
+    // Syntax and semantics come from the parser and checker, with exact ranges
+    const { program, errors: syntaxErrors } = parsePine(code);
+    if (program.version === null) {
+      errors.push({
+        line: 1,
+        column: 1,
+        endLine: 1,
+        endColumn: (lines[0]?.length ?? 0) + 1,
+        message: 'Pine Script must start with //@version=6',
+        severity: 'error',
+        code: 'version_required',
+        suggestion: 'Add //@version=6 at the beginning of your script',
+        quickFix: {
+          title: 'Add version declaration',
+          description: 'Insert //@version=6 at the beginning',
+          replacement: '//@version=6\n',
+          range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 }
+        }
+      });
+    }
+    syntaxErrors.forEach(error => errors.push(this.fromDiagnostic(error, 'error', 'syntax_error')));
+
+    // Older versions are offered an automatic migration that replaces the whole script
+    if (program.version !== null && program.version < TARGET_PINE_VERSION) {
+      const annotation = program.comments.find(comment => comment.annotation?.name === 'version')!;
+      const migration = migratePine(code);
+      const manual = migration.unsupported.length;
+      errors.push({
+        line: annotation.range.start.line,
+        column: annotation.range.start.column,
+        endLine: annotation.range.end.line,
+        endColumn: annotation.range.end.column,
+        message: `Pine Script v${program.version} is outdated; scripts must use //@version=${TARGET_PINE_VERSION}`,
+        severity: 'error',
+        code: 'version_outdated',
+        suggestion: manual > 0
+          ? `Migrate to v${TARGET_PINE_VERSION}; ${manual} construct${manual > 1 ? 's' : ''} will still need a manual fix`
+          : `Migrate to v${TARGET_PINE_VERSION}`,
+        quickFix: migration.changed ? {
+          title: `Migrate to Pine Script v${TARGET_PINE_VERSION}`,
+          description: migration.changes.map(change => `Line ${change.line}: ${change.message}`).join('\n'),
+          replacement: migration.code,
+          range: { startLine: 1, startColumn: 1, endLine: lines.length, endColumn: lines[lines.length - 1].length + 1 }
+        } : undefined
+      });
+    }
+
+    // Signatures and type rules are v5/v6; older scripts have to be migrated first
+    if (program.version === null || program.version >= 5) {
+      checkPine(program, code).forEach(diagnostic => {
+        const error = this.fromDiagnostic(diagnostic, diagnostic.severity, diagnostic.code, diagnostic.fix);
+        (diagnostic.severity === 'error' ? errors : warnings).push(error);
+      });
+    }
 
     // Apply validation rules
     lines.forEach((line, lineIndex) => {
@@ -265,22 +202,15 @@ export class PineScriptValidator {
           const error: ValidationError = {
             line: lineIndex + 1,
             column: match.index! + 1,
+            endLine: lineIndex + 1,
+            endColumn: match.index! + match[0].length + 1,
             message: rule.message,
             severity: rule.severity,
             code: rule.id,
             suggestion: rule.suggestion,
-            quickFix: rule.quickFix ? rule.quickFix(match, lineIndex) : undefined
+            quickFix: rule.quickFix ? rule.quickFix(match, lineIndex + 1) : undefined
           };
 
-          // Special handling for undefined variables
-          if (rule.id === 'undefined_variable') {
-            const variable = match[1];
-            if (!this.isValidReference(variable, line)) {
-              errors.push(error);
-            }
-            return;
-          }
-
           switch (rule.severity) {
             case 'error':
               errors.push(error);
@@ -301,9 +231,12 @@ export class PineScriptValidator {
     });
 
     // Additional validations
-    this.validateSyntax(code, errors);
     this.validateLogic(code, errors, warnings);
     
+    const byPosition = (a: ValidationError, b: ValidationError) => a.line - b.line || a.column - b.column;
+    errors.sort(byPosition);
+    warnings.sort(byPosition);
+
     const performanceScore = this.calculatePerformanceScore(code, warnings);
     const pineScriptVersion = this.extractVersion(code);
 
@@ -319,85 +252,40 @@ export class PineScriptValidator {
   }
 
   /**
-   * Extract variables from code
-   */
-  private extractVariables(code: string): void {
-    // Extract variable declarations
-    const varPattern = /(?:var\s+|varip\s+)?([a-zA-Z_]\w*)\s*=/g;
-    let match;
-    while ((match = varPattern.exec(code)) !== null) {
-      this.variables.add(match[1]);
-    }
-
-    // Add built-in variables
-    ['open', 'high', 'low', 'close', 'volume', 'time', 'bar_index'].forEach(v => {
-      this.variables.add(v);
-    });
-  }
-
-  /**
-   * Check if variable reference is valid
+   * Convert a parser or checker diagnostic to a validation error
    */
-  private isValidReference(variable: string, line: string): boolean {
-    // Skip if it's a keyword or function
-    if (this.keywords.has(variable) || this.functions.has(variable)) {
-      return true;
-    }
-
-    // Skip if it's being declared in this line
-    if (line.includes(`${variable} =`) || line.includes(`var ${variable}`) || line.includes(`varip ${variable}`)) {
-      return true;
-    }
+  private fromDiagnostic(
+    diagnostic: PineDiagnostic,
+    severity: ValidationError['severity'],
+    code: string,
+    fix?: SemanticFix
+  ): ValidationError {
+    const { start, end } = diagnostic.range;
+    const error: ValidationError = {
+      line: start.line,
+      column: start.column,
+      endLine: end.line,
+      endColumn: end.column,
+      message: diagnostic.message,
+      severity,
+      code
+    };
 
-    // Skip if it's a property access
-    if (line.includes(`${variable}.`)) {
-      return true;
+    if (fix) {
+      error.suggestion = fix.title;
+      error.quickFix = {
+        title: fix.title,
+        description: `Replace with ${JSON.stringify(fix.replacement.trim())}`,
+        replacement: fix.replacement,
+        range: {
+          startLine: fix.range.start.line,
+          startColumn: fix.range.start.column,
+          endLine: fix.range.end.line,
+          endColumn: fix.range.end.column
+        }
+      };
     }
-
-    // Check if variable is declared
-    return this.variables.has(variable);
-  }
-
-  /**
-   * Validate syntax
-   */
-  private validateSyntax(code: string, errors: ValidationError[]): void {
-    // Check for balanced parentheses
-    const lines = code.split('\n');
-    lines.forEach((line, index) => {
-      let parenCount = 0;
-      let bracketCount = 0;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '(') parenCount++;
-        else if (char === ')') parenCount--;
-        else if (char === '[') bracketCount++;
-        else if (char === ']') bracketCount--;
-      }
-
-      if (parenCount !== 0) {
-        errors.push({
-          line: index + 1,
-          column: line.length,
-          message: 'Unbalanced parentheses',
-          severity: 'error',
-          code: 'unbalanced_parentheses',
-          suggestion: 'Check for missing or extra parentheses'
-        });
-      }
-
-      if (bracketCount !== 0) {
-        errors.push({
-          line: index + 1,
-          column: line.length,
-          message: 'Unbalanced brackets',
-          severity: 'error',
-          code: 'unbalanced_brackets',
-          suggestion: 'Check for missing or extra brackets'
-        });
-      }
-    });
+    return error;
   }
 
   /**
@@ -408,11 +296,15 @@ export class PineScriptValidator {
     
     // Check for common logic errors
     lines.forEach((line, index) => {
-      // Division by zero check
-      if (line.includes('/ 0') || line.includes('/0')) {
+      // Division by zero check, ignoring comments and divisors such as 0.5
+      const division = line.match(/(^|[^/])(\/\s*0)(?![.\w])/);
+      if (division) {
+        const column = division.index! + division[1].length + 1;
         errors.push({
           line: index + 1,
-          column: line.indexOf('/') + 1,
+          column,
+          endLine: index + 1,
+          endColumn: column + division[2].length,
           message: 'Division by zero',
           severity: 'error',
           code: 'division_by_zero',
@@ -427,6 +319,8 @@ export class PineScriptValidator {
           warnings.push({
             line: index + 2,
             column: 1,
+            endLine: index + 2,
+            endColumn: lines[index + 1].length + 1,
             message: 'Unreachable code after return',
             severity: 'warning',
             code: 'unreachable_code',
@@ -508,18 +402,48 @@ export class PineScriptValidator {
           }
           break;
           
-        case 'missing_parentheses':
-          fixedCode = fixedCode.replace(/\b(ta\.\w+|math\.\w+|str\.\w+)\s*(?!\()/g, '$1()');
+        case 'version_outdated':
+          fixedCode = migratePine(fixedCode).code;
           break;
-          
+
         case 'inconsistent_indentation':
           fixedCode = fixedCode.replace(/^\t+/gm, match => '    '.repeat(match.length));
           break;
+
+        default:
+          fixedCode = this.applyQuickFixes(fixedCode, errorCode);
       }
     });
     
     return fixedCode;
   }
+
+  /**
+   * Apply the quick fixes the validator offers for one error code
+   */
+  private applyQuickFixes(code: string, errorCode: string): string {
+    const { errors, warnings, securityIssues } = this.validate(code);
+    const lineStarts = [0];
+    code.split('\n').forEach(line => lineStarts.push(lineStarts[lineStarts.length - 1] + line.length + 1));
+    const offset = (line: number, column: number) => lineStarts[line - 1] + column - 1;
+
+    // Later fixes first, so earlier offsets stay valid; overlapping fixes are skipped
+    const fixes = [...errors, ...warnings, ...securityIssues]
+      .filter(error => error.code === errorCode && error.quickFix)
+      .map(error => error.quickFix!)
+      .sort((a, b) => offset(b.range.startLine, b.range.startColumn) - offset(a.range.startLine, a.range.startColumn));
+
+    let fixedCode = code;
+    let limit = Infinity;
+    fixes.forEach(fix => {
+      const start = offset(fix.range.startLine, fix.range.startColumn);
+      const end = offset(fix.range.endLine, fix.range.endColumn);
+      if (end > limit) return;
+      fixedCode = fixedCode.slice(0, start) + fix.replacement + fixedCode.slice(end);
+      limit = start;
+    });
+    return fixedCode;
+  }
 }
 
 // Export singleton instance
@@ -223,6 +223,43 @@ describe('ConversationRepository', () => {
     });
   });
   
+  describe('saveGeneratedCode', () => {
+    it('should save formatted code as the next version', async () => {
+      // Arrange
+      prisma.generatedPineCode.findFirst = jest.fn().mockResolvedValue({ version: 2 });
+      prisma.generatedPineCode.create = jest.fn().mockImplementation(({ data }: { data: object }) => Promise.resolve({ id: 'code-1', ...data }));
+
+      // Act
+      const result = await repository.saveGeneratedCode({
+        conversationId: 'conv-1',
+        userId: 'user-1',
+        code: '//@version=6\nindicator("RSI")\nr=ta.rsi(close,14)\nplot(r)'
+      });
+
+      // Assert
+      expect(result).toMatchObject({
+        version: 3,
+        code: '//@version=6\nindicator("RSI")\nr = ta.rsi(close, 14)\nplot(r)\n'
+      });
+    });
+
+    it('should save code with syntax errors unchanged', async () => {
+      // Arrange
+      prisma.generatedPineCode.findFirst = jest.fn().mockResolvedValue(null);
+      prisma.generatedPineCode.create = jest.fn().mockImplementation(({ data }: { data: object }) => Promise.resolve({ id: 'code-1', ...data }));
+
+      // Act
+      const result = await repository.saveGeneratedCode({
+        conversationId: 'conv-1',
+        userId: 'user-1',
+        code: 'indicator("RSI"\nplot(close'
+      });
+
+      // Assert
+      expect(result).toMatchObject({ version: 1, code: 'indicator("RSI"\nplot(close' });
+    });
+  });
+
   describe('deleteOldConversations', () => {
     it('should delete conversations older than the retention period', async () => {
       // Arrange
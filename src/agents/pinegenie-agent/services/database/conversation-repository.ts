@@ -5,6 +5,7 @@
  */
 import { PrismaClient } from '@prisma/client';
 import type { ConversationContext, Message as AgentMessage } from '../../types/agent';
+import { formatPine } from '@/lib/pinescript';
 
 // Initialize Prisma client
 const prisma = new PrismaClient();
@@ -396,11 +397,14 @@ export class ConversationRepository {
 
         const version = options.version || (latestVersion ? latestVersion.version + 1 : 1);
 
+        // Formatted so that diffs between versions only show real changes; unparseable code is kept as is
+        const code = formatPine(options.code).code;
+
         const generatedCode = await prisma.generatedPineCode.create({
           data: {
             conversationId: options.conversationId,
             userId: options.userId,
-            code: options.code,
+            code,
             version: version,
             validationStatus: options.validationStatus || 'pending',
             metadata: options.metadata || {}
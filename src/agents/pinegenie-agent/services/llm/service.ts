@@ -4,6 +4,8 @@
  * Provides integration with LLM services like OpenAI and Mistral.
  */
 
+import { llmGateway } from '@/lib/llm';
+
 /**
  * LLM completion options interface
  */
@@ -68,166 +70,42 @@ interface CompletionResponse {
  * LLM service class that provides integration with LLM services
  */
 export class LLMService {
-  private apiKey: string;
-  private baseUrl: string;
-  private defaultModel: string;
-  private fallbackModel: string;
-  private requestQueue: Array<() => Promise<any>>;
-  private isProcessingQueue: boolean;
-  private rateLimitDelay: number;
-  
-  /**
-   * Creates a new instance of the LLMService
-   */
-  constructor() {
-    this.apiKey = process.env.OPENAI_API_KEY || '';
-    this.baseUrl = 'https://api.openai.com/v1';
-    this.defaultModel = 'gpt-4o';
-    this.fallbackModel = 'gpt-4o';
-    this.requestQueue = [];
-    this.isProcessingQueue = false;
-    this.rateLimitDelay = 1000; // 1 second delay between requests
-  }
+  private defaultModel?: string;
 
   /**
    * Generates a completion for a prompt
    * 
+   * Requests go through the shared LLM gateway, which handles model
+   * selection, retries and rate limiting.
+   * 
    * @param options - The completion options
    * @returns A promise that resolves to the completion response
    */
   public async generateCompletion(options: CompletionOptions): Promise<CompletionResponse> {
-    return new Promise((resolve, reject) => {
-      // Add the request to the queue
-      this.requestQueue.push(async () => {
-        try {
-          const response = await this.makeCompletionRequest(options);
-          resolve(response);
-        } catch (error) {
-          // Try fallback model if primary fails
-          if (options.model === this.defaultModel) {
-            try {
-              const fallbackOptions = { ...options, model: this.fallbackModel };
-              const fallbackResponse = await this.makeCompletionRequest(fallbackOptions);
-              resolve(fallbackResponse);
-            } catch (fallbackError) {
-              reject(fallbackError);
-            }
-          } else {
-            reject(error);
-          }
-        }
-      });
-      
-      // Process the queue if not already processing
-      if (!this.isProcessingQueue) {
-        this.processQueue();
-      }
+    const response = await llmGateway.complete({
+      model: options.model || this.defaultModel,
+      messages: [{ role: 'user', content: options.prompt }],
+      temperature: options.temperature,
+      maxTokens: options.maxTokens
     });
-  }
 
-  /**
-   * Processes the request queue
-   */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessingQueue || this.requestQueue.length === 0) {
-      return;
-    }
-    
-    this.isProcessingQueue = true;
-    
-    while (this.requestQueue.length > 0) {
-      const request = this.requestQueue.shift();
-      if (request) {
-        try {
-          await request();
-        } catch (error) {
-          console.error('Error processing request:', error);
-        }
-        
-        // Add delay between requests to avoid rate limiting
-        if (this.requestQueue.length > 0) {
-          await new Promise(resolve => setTimeout(resolve, this.rateLimitDelay));
-        }
+    return {
+      text: response.content,
+      model: response.model,
+      usage: {
+        promptTokens: response.usage.promptTokens,
+        completionTokens: response.usage.completionTokens,
+        totalTokens: response.usage.totalTokens
       }
-    }
-    
-    this.isProcessingQueue = false;
-  }
-
-  /**
-   * Makes a completion request to the LLM service
-   * 
-   * @param options - The completion options
-   * @returns A promise that resolves to the completion response
-   */
-  private async makeCompletionRequest(options: CompletionOptions): Promise<CompletionResponse> {
-    try {
-      // Implementation will depend on the specific LLM service
-      // This is a placeholder implementation
-      
-      // In a real implementation, this would make an API request to the LLM service
-      // and return the response
-      
-      console.log('Making completion request with options:', options);
-      
-      // Simulate a successful response
-      return {
-        text: `This is a simulated response for the prompt: "${options.prompt.substring(0, 50)}..."`,
-        model: options.model || this.defaultModel,
-        usage: {
-          promptTokens: options.prompt.length / 4,
-          completionTokens: 100,
-          totalTokens: options.prompt.length / 4 + 100
-        }
-      };
-    } catch (error) {
-      console.error('Error making completion request:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Sets the API key for the LLM service
-   * 
-   * @param apiKey - The API key
-   */
-  public setApiKey(apiKey: string): void {
-    this.apiKey = apiKey;
-  }
-
-  /**
-   * Sets the base URL for the LLM service
-   * 
-   * @param baseUrl - The base URL
-   */
-  public setBaseUrl(baseUrl: string): void {
-    this.baseUrl = baseUrl;
+    };
   }
 
   /**
    * Sets the default model for the LLM service
    * 
-   * @param model - The default model
+   * @param model - The LLMModel id or name; the gateway default when unset
    */
   public setDefaultModel(model: string): void {
     this.defaultModel = model;
   }
-
-  /**
-   * Sets the fallback model for the LLM service
-   * 
-   * @param model - The fallback model
-   */
-  public setFallbackModel(model: string): void {
-    this.fallbackModel = model;
-  }
-
-  /**
-   * Sets the rate limit delay for the LLM service
-   * 
-   * @param delay - The rate limit delay in milliseconds
-   */
-  public setRateLimitDelay(delay: number): void {
-    this.rateLimitDelay = delay;
-  }
-}
\ No newline at end of file
+}
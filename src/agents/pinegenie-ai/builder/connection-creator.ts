@@ -90,7 +90,12 @@ export const DEFAULT_AI_CONNECTION_CONFIG: AIConnectionConfig = {
       maxConnections: 3
     },
     'condition': {
-      allowedTargets: ['action', 'condition'],
+      allowedTargets: ['action', 'condition', 'logic'],
+      priority: 3,
+      maxConnections: 2
+    },
+    'logic': {
+      allowedTargets: ['action', 'logic'],
       priority: 3,
       maxConnections: 2
     },
@@ -530,7 +535,7 @@ export class AIConnectionCreator {
    */
   private generateDefaultFlow(componentsByType: Record<string, StrategyComponent[]>): Array<{ from: string; to: string }> {
     const flow: Array<{ from: string; to: string }> = [];
-    const typeOrder = ['data-source', 'indicator', 'condition', 'action', 'risk', 'timing'];
+    const typeOrder = ['data-source', 'indicator', 'condition', 'logic', 'action', 'risk', 'timing'];
     
     for (let i = 0; i < typeOrder.length - 1; i++) {
       const fromType = typeOrder[i];
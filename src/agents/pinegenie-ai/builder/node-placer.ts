@@ -497,7 +497,7 @@ export class AINodePlacer {
     const levels: StrategyComponent[][] = [];
     
     // Define hierarchy order
-    const hierarchyOrder = ['data-source', 'indicator', 'condition', 'action', 'risk', 'timing'];
+    const hierarchyOrder = ['data-source', 'indicator', 'condition', 'logic', 'action', 'risk', 'timing'];
     
     hierarchyOrder.forEach(type => {
       const componentsOfType = components.filter(comp => comp.type === type);
@@ -688,6 +688,7 @@ export class AINodePlacer {
       'data-source': { width: 200, height: 80 },
       'indicator': { width: 180, height: 100 },
       'condition': { width: 160, height: 90 },
+      'logic': { width: 140, height: 80 },
       'action': { width: 140, height: 85 },
       'risk': { width: 160, height: 95 },
       'timing': { width: 150, height: 80 }
@@ -618,6 +618,7 @@ export class BlueprintGenerator {
     const mapping: Record<string, string> = {
       'buy': 'buy_order',
       'sell': 'sell_order',
+      'short': 'sell_short',
       'close': 'close_position'
     };
     
@@ -325,8 +325,20 @@ export class NodeMapper {
         break;
 
       case ComponentType.ACTION:
+        Object.assign(config, this.mapActionKind(component.subtype));
         config.orderType = this.mapActionOrderType(component.subtype);
-        config.quantity = component.parameters.quantity as string || '25%';
+        if (config.actionKind !== 'exit') {
+          config.quantity = component.parameters.quantity as string || '25%';
+        }
+        if (component.parameters.quantityMode) {
+          config.quantityMode = component.parameters.quantityMode as string;
+        }
+        if (component.parameters.pyramiding !== undefined) {
+          config.pyramiding = component.parameters.pyramiding as number;
+        }
+        if (component.parameters.entryId) {
+          config.entryId = component.parameters.entryId as string;
+        }
         break;
 
       case ComponentType.RISK_MANAGEMENT:
@@ -334,6 +346,12 @@ export class NodeMapper {
           config.stopLoss = component.parameters.stopLoss as number || 2;
         } else if (component.subtype === 'take_profit') {
           config.takeProfit = component.parameters.takeProfit as number || 5;
+        } else if (component.subtype === 'trailing_stop') {
+          config.trailingStop = component.parameters.trailingStop as number || 1.5;
+        }
+        if (component.parameters.riskUnit === 'atr') {
+          config.riskUnit = 'atr';
+          config.atrPeriod = component.parameters.atrPeriod as number || 14;
         }
         config.maxRisk = component.parameters.maxRisk as number || 1;
         break;
@@ -342,12 +360,27 @@ export class NodeMapper {
         config.startTime = component.parameters.startTime as string || '09:00';
         config.endTime = component.parameters.endTime as string || '16:00';
         config.timezone = component.parameters.timezone as string || 'UTC';
+        if (Array.isArray(component.parameters.daysOfWeek)) {
+          config.daysOfWeek = component.parameters.daysOfWeek as string[];
+        }
+        if (component.parameters.startDate) config.startDate = component.parameters.startDate as string;
+        if (component.parameters.endDate) config.endDate = component.parameters.endDate as string;
         break;
 
       case ComponentType.MATH:
         config.operation = this.mapMathOperation(component.subtype);
         config.value = component.parameters.value as number || 0;
         break;
+
+      case ComponentType.LOGIC:
+        config.logicOperator = this.mapLogicOperator(component.subtype);
+        if (component.parameters.requiredCount !== undefined) {
+          config.requiredCount = Number(component.parameters.requiredCount);
+        }
+        if (component.parameters.bars !== undefined) {
+          config.bars = Number(component.parameters.bars);
+        }
+        break;
     }
 
     // Add common properties
@@ -609,7 +642,7 @@ export class NodeMapper {
       [ComponentType.RISK_MANAGEMENT]: 'risk',
       [ComponentType.TIMING]: 'timing',
       [ComponentType.MATH]: 'math',
-      [ComponentType.LOGIC]: 'condition' // Logic maps to condition
+      [ComponentType.LOGIC]: 'logic'
     };
 
     return mapping[componentType] || 'indicator';
@@ -625,8 +658,9 @@ export class NodeMapper {
       'data-source': ['market_data', 'custom_data'],
       'indicator': ['rsi', 'sma', 'macd', 'bb', 'stoch'],
       'condition': ['greater_than', 'less_than', 'crosses_above', 'crosses_below'],
-      'action': ['buy_order', 'sell_order', 'close_position'],
-      'risk': ['stop_loss', 'take_profit'],
+      'logic': ['and', 'or', 'not', 'n_of_m', 'consecutive', 'within'],
+      'action': ['buy_order', 'sell_short', 'sell_order', 'close_position'],
+      'risk': ['stop_loss', 'take_profit', 'trailing_stop'],
       'timing': ['time_filter'],
       'math': ['add', 'subtract', 'multiply', 'divide'],
       'input': [],
@@ -683,9 +717,10 @@ export class NodeMapper {
       'data-source': ['symbol', 'timeframe', 'source'],
       'indicator': ['indicatorId', 'parameters'],
       'condition': ['operator', 'threshold'],
-      'action': ['orderType', 'quantity'],
-      'risk': ['stopLoss', 'takeProfit', 'maxRisk'],
-      'timing': ['startTime', 'endTime', 'timezone'],
+      'logic': ['logicOperator', 'requiredCount', 'bars'],
+      'action': ['actionKind', 'direction', 'orderType', 'quantity', 'quantityMode', 'pyramiding', 'entryId'],
+      'risk': ['stopLoss', 'takeProfit', 'trailingStop', 'riskUnit', 'atrPeriod', 'maxRisk'],
+      'timing': ['startTime', 'endTime', 'timezone', 'daysOfWeek', 'startDate', 'endDate'],
       'math': ['operation', 'value'],
       'input': [],
       'output': []
@@ -709,6 +744,7 @@ export class NodeMapper {
   private mapActionOrderType(subtype: string): 'market' | 'limit' | 'stop' {
     const mapping: Record<string, any> = {
       'buy_order': 'market',
+      'sell_short': 'market',
       'sell_order': 'market',
       'close_position': 'market'
     };
@@ -716,6 +752,18 @@ export class NodeMapper {
     return mapping[subtype] || 'market';
   }
 
+  // Stored on the node so what an action does never depends on its label
+  private mapActionKind(subtype: string): { actionKind: string; direction?: string } {
+    const mapping: Record<string, { actionKind: string; direction?: string }> = {
+      'buy_order': { actionKind: 'entry', direction: 'long' },
+      'sell_short': { actionKind: 'entry', direction: 'short' },
+      'sell_order': { actionKind: 'exit', direction: 'long' },
+      'close_position': { actionKind: 'exit' }
+    };
+
+    return mapping[subtype] || { actionKind: 'entry', direction: 'long' };
+  }
+
   private mapMathOperation(subtype: string): 'add' | 'subtract' | 'multiply' | 'divide' | 'abs' | 'max' | 'min' {
     const mapping: Record<string, any> = {
       'add': 'add',
@@ -730,6 +778,24 @@ export class NodeMapper {
     return mapping[subtype] || 'add';
   }
 
+  private mapLogicOperator(subtype: string): 'and' | 'or' | 'not' | 'n_of_m' | 'consecutive' | 'within' {
+    const mapping: Record<string, any> = {
+      'and': 'and',
+      'all': 'and',
+      'or': 'or',
+      'any': 'or',
+      'not': 'not',
+      'n_of_m': 'n_of_m',
+      'at_least': 'n_of_m',
+      'consecutive': 'consecutive',
+      'for_bars': 'consecutive',
+      'within': 'within',
+      'within_bars': 'within'
+    };
+
+    return mapping[subtype] || 'and';
+  }
+
   private generateNodeDescription(component: StrategyComponent): string {
     const baseDescription = component.label;
     
@@ -812,7 +878,7 @@ export class NodeMapper {
     this.componentToNodeTypeMap.set(ComponentType.RISK_MANAGEMENT, ['risk']);
     this.componentToNodeTypeMap.set(ComponentType.TIMING, ['timing']);
     this.componentToNodeTypeMap.set(ComponentType.MATH, ['math']);
-    this.componentToNodeTypeMap.set(ComponentType.LOGIC, ['condition', 'math']);
+    this.componentToNodeTypeMap.set(ComponentType.LOGIC, ['logic', 'condition']);
   }
 
   private initializeParameterMappings(): void {
@@ -0,0 +1,64 @@
+/**
+ * Improvement Suggester Tests
+ * Robustness reports turn into suggestions that cite their measurements
+ */
+
+import { ImprovementSuggester } from '../improvement-suggester';
+import type { RobustnessReport } from '../parameter-optimizer';
+import type { BuilderNode } from '@/app/builder/builder-state';
+
+const nodes = [
+  { id: 'rsi', type: 'indicator', position: { x: 0, y: 0 }, data: { id: 'rsi', label: 'RSI', type: 'indicator', config: { indicatorId: 'rsi', parameters: { length: 14 } } } }
+] as BuilderNode[];
+
+function cell(jitterPercent: number, value: number, scoreChange: number) {
+  return { jitterPercent, value, valid: true, score: 0.5 * (1 + scoreChange), scoreChange, totalReturn: 0, maxDrawdown: 0, totalTrades: 10 };
+}
+
+const report = {
+  success: true,
+  baseScore: 0.5,
+  baseResults: {} as RobustnessReport['baseResults'],
+  monteCarlo: {
+    method: 'reshuffle',
+    iterations: 1000,
+    tradeCount: 40,
+    confidence: 0.95,
+    totalReturn: { lower: 0.1, median: 0.1, upper: 0.1, mean: 0.1 },
+    maxDrawdown: { lower: 0.05, median: 0.12, upper: 0.24, mean: 0.13 },
+    original: { totalReturn: 0.1, maxDrawdown: 0.08 },
+    probabilityOfLoss: 0,
+    probabilityOfWorseDrawdown: 0.7
+  },
+  sensitivity: {
+    jitterLevels: [-20, -10, 0, 10, 20],
+    rows: [{
+      nodeId: 'rsi',
+      parameter: 'length',
+      baseValue: 14,
+      cells: [cell(-20, 11, -0.6), cell(-10, 13, -0.1), cell(0, 14, 0), cell(10, 15, 0.02), cell(20, 17, 0.01)],
+      scoreDrop: 0.6,
+      fragile: true
+    }],
+    fragileParameters: ['rsi.length']
+  },
+  robustnessScore: 0.75
+} as RobustnessReport;
+
+describe('ImprovementSuggester with a robustness report', () => {
+  test('cites fragile parameters and proposes the most stable value', () => {
+    const suggestions = new ImprovementSuggester().generateImprovements(nodes, [], report);
+    const fragile = suggestions.find(s => s.id === 'stabilize-rsi-length');
+
+    expect(fragile?.description).toContain('falls 60% within ±20%');
+    expect(fragile?.implementation.steps[0].parameterChanges?.[0]).toMatchObject({ oldValue: 14, newValue: 15 });
+  });
+
+  test('cites the Monte Carlo drawdown bound', () => {
+    const suggestions = new ImprovementSuggester().generateImprovements(nodes, [], report);
+    const drawdown = suggestions.find(s => s.id === 'size-for-monte-carlo-drawdown');
+
+    expect(drawdown?.description).toContain('95% upper bound is 24.0%');
+    expect(drawdown?.description).toContain('1000 reshuffled');
+  });
+});
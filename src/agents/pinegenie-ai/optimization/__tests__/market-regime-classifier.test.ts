@@ -0,0 +1,92 @@
+/**
+ * Market Regime Classifier Tests
+ * Spans and per-regime trade attribution on a trend-then-range dataset
+ */
+
+import { MarketRegimeClassifier } from '../market-regime-classifier';
+import { MarketCondition } from '../../types/optimization-types';
+import type { BacktestTrade, OHLCVBar } from '@/lib/backtesting';
+
+const HOUR = 60 * 60 * 1000;
+
+// A steady climb for the first half, then a flat chop around the final price
+function makeBars(trendBars: number, rangeBars: number): OHLCVBar[] {
+  return Array.from({ length: trendBars + rangeBars }, (_, i) => {
+    const close = i < trendBars
+      ? 100 + i * 0.5 + Math.sin(i) * 0.3
+      : 100 + trendBars * 0.5 + 2 * Math.sin(i / 1.7);
+    const open = close - Math.cos(i) * 0.4;
+    return {
+      time: Date.UTC(2024, 0, 1) + i * HOUR,
+      open,
+      high: Math.max(open, close) + 0.5,
+      low: Math.min(open, close) - 0.5,
+      close,
+      volume: 1000
+    };
+  });
+}
+
+function trade(entryBar: number, pnl: number): BacktestTrade {
+  return { entryBar, pnl, returnPct: pnl / 1000 } as BacktestTrade;
+}
+
+function spanAt(spans: Array<{ condition: MarketCondition; startIndex: number; endIndex: number }>, condition: MarketCondition, index: number) {
+  return spans.find(span => span.condition === condition && span.startIndex <= index && span.endIndex >= index);
+}
+
+describe('MarketRegimeClassifier', () => {
+  const bars = makeBars(200, 200);
+  const classifier = new MarketRegimeClassifier();
+  const classification = classifier.classify(bars);
+
+  test('labels the climb as a trending bull market and the chop as ranging', () => {
+    const { spans } = classification;
+
+    expect(spanAt(spans, MarketCondition.TRENDING, 150)).toBeDefined();
+    expect(spanAt(spans, MarketCondition.BULL_MARKET, 150)).toBeDefined();
+    expect(spanAt(spans, MarketCondition.RANGING, 350)).toBeDefined();
+    expect(spanAt(spans, MarketCondition.BULL_MARKET, 350)).toBeUndefined();
+    expect(classification.labels[350]).not.toContain(MarketCondition.TRENDING);
+  });
+
+  test('spans are ordered, inclusive and no shorter than the minimum', () => {
+    const { spans } = classification;
+
+    for (let i = 1; i < spans.length; i++) {
+      expect(spans[i].startIndex).toBeGreaterThanOrEqual(spans[i - 1].startIndex);
+    }
+    for (const span of spans) {
+      expect(span.bars).toBe(span.endIndex - span.startIndex + 1);
+      expect(span.startTime).toBe(bars[span.startIndex].time);
+      expect(span.bars).toBeGreaterThanOrEqual(10);
+    }
+  });
+
+  test('coverage matches the per-bar labels and the mask', () => {
+    for (const condition of Object.values(MarketCondition)) {
+      const mask = classifier.mask(classification, condition);
+      const share = mask.filter(Boolean).length / bars.length;
+      expect(classification.coverage[condition] || 0).toBeCloseTo(share, 10);
+    }
+  });
+
+  test('attributes trades to the regimes active on their entry bar', () => {
+    const trades = [trade(150, 50), trade(160, -20), trade(350, -30)];
+    const [trending, ranging] = classifier.summarizePerformance(
+      trades,
+      classification,
+      [MarketCondition.TRENDING, MarketCondition.RANGING]
+    );
+
+    expect(trending).toMatchObject({ condition: MarketCondition.TRENDING, trades: 2, winRate: 0.5, netProfit: 30 });
+    expect(trending.profitFactor).toBeCloseTo(2.5);
+    expect(trending.averageReturn).toBeCloseTo(0.015);
+    expect(ranging).toMatchObject({ trades: 1, winRate: 0, netProfit: -30, profitFactor: 0 });
+  });
+
+  test('leaves warm-up bars unlabelled', () => {
+    expect(classification.labels[0]).toEqual([]);
+    expect(new MarketRegimeClassifier().classify(bars.slice(0, 5)).spans).toEqual([]);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Parameter Optimizer Tests
+ * Candidates are scored by backtesting the graph on a synthetic dataset
+ */
+
+import {
+  ParameterOptimizer,
+  OptimizationAlgorithm,
+  MarketCondition,
+  ParameterConstraint
+} from '../parameter-optimizer';
+import type { BuilderEdge, BuilderNode } from '@/app/builder/builder-state';
+import type { OHLCVBar } from '@/lib/backtesting';
+
+const HOUR = 60 * 60 * 1000;
+
+// Oscillating trend so RSI thresholds and lengths change the trade list
+function makeBars(count: number): OHLCVBar[] {
+  return Array.from({ length: count }, (_, i) => {
+    const close = 100 + i * 0.05 + 8 * Math.sin(i / 6) + 3 * Math.sin(i / 2.3);
+    const open = close - Math.sin(i) * 0.8;
+    return {
+      time: Date.UTC(2024, 0, 1) + i * HOUR,
+      open,
+      high: Math.max(open, close) + 0.6,
+      low: Math.min(open, close) - 0.6,
+      close,
+      volume: 1000
+    };
+  });
+}
+
+function node(id: string, type: string, config: Record<string, unknown> = {}): BuilderNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { id, label: id, type, config } } as BuilderNode;
+}
+
+function edge(source: string, target: string): BuilderEdge {
+  return { id: `${source}_${target}`, source, target } as BuilderEdge;
+}
+
+function rsiStrategy() {
+  const nodes = [
+    node('data', 'data-source'),
+    node('rsi', 'indicator', { indicatorId: 'rsi', parameters: { length: 14, source: 'close' } }),
+    node('oversold', 'condition', { operator: 'crosses_below', threshold: 30 }),
+    node('overbought', 'condition', { operator: 'crosses_above', threshold: 70 }),
+    node('buy', 'action', { orderType: 'market', quantity: '10%' }),
+    node('sell', 'action', { orderType: 'market', quantity: '100%' }),
+    node('risk', 'risk', { stopLoss: 2, takeProfit: 4 })
+  ];
+  const edges = [
+    edge('data', 'rsi'),
+    edge('rsi', 'oversold'),
+    edge('rsi', 'overbought'),
+    edge('oversold', 'buy'),
+    edge('overbought', 'sell')
+  ];
+  return { nodes, edges };
+}
+
+function onLattice(value: number, constraint: { minValue: number; maxValue: number; stepSize?: number }) {
+  const steps = (value - constraint.minValue) / (constraint.stepSize || 1);
+  return value >= constraint.minValue && value <= constraint.maxValue && Math.abs(steps - Math.round(steps)) < 1e-9;
+}
+
+describe('ParameterOptimizer', () => {
+  const bars = makeBars(600);
+
+  test('suggests values inside each constraint range and on its step lattice', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const result = await new ParameterOptimizer().optimizeParameters(nodes, edges, bars, {
+      algorithm: OptimizationAlgorithm.RANDOM_SEARCH,
+      maxIterations: 40,
+      seed: 7
+    });
+
+    expect(result.success).toBe(true);
+    const ranges: Record<string, ParameterConstraint> = {
+      'rsi.length': { nodeId: 'rsi', parameter: 'length', minValue: 2, maxValue: 50, stepSize: 1 },
+      'oversold.threshold': { nodeId: 'oversold', parameter: 'threshold', minValue: 10, maxValue: 90, stepSize: 5 },
+      'risk.stopLoss': { nodeId: 'risk', parameter: 'stopLoss', minValue: 0.5, maxValue: 10, stepSize: 0.5 }
+    };
+
+    const suggested = result.optimizedParameters[0].parameters;
+    for (const [key, constraint] of Object.entries(ranges)) {
+      expect(onLattice(suggested[key].suggestedValue as number, constraint)).toBe(true);
+    }
+    expect(suggested['rsi.length'].currentValue).toBe(14);
+    expect(result.metadata.totalEvaluations).toBeGreaterThan(1);
+  });
+
+  test('honors user constraints with fractional steps in grid search', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const constraint = { nodeId: 'risk', parameter: 'takeProfit', minValue: 1.5, maxValue: 3, stepSize: 0.75 };
+    const result = await new ParameterOptimizer().optimizeParameters(nodes, edges, bars, {
+      algorithm: OptimizationAlgorithm.GRID_SEARCH,
+      maxIterations: 30,
+      constraints: [constraint]
+    });
+
+    const value = result.optimizedParameters[0].parameters['risk.takeProfit'].suggestedValue as number;
+    expect([1.5, 2.25, 3, 4]).toContain(value);
+  });
+
+  test('samples huge grid ranges without building every point', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const constraint = { nodeId: 'risk', parameter: 'takeProfit', minValue: 1, maxValue: 1e9, stepSize: 1e-6 };
+    const result = await new ParameterOptimizer().optimizeParameters(nodes, edges, bars, {
+      algorithm: OptimizationAlgorithm.GRID_SEARCH,
+      maxIterations: 5,
+      constraints: [constraint]
+    });
+
+    expect(result.success).toBe(true);
+    const value = result.optimizedParameters[0].parameters['risk.takeProfit'].suggestedValue as number;
+    expect(value).toBeGreaterThanOrEqual(1);
+    expect(value).toBeLessThanOrEqual(1e9);
+  });
+
+  test('rejects constraints outside the strategy or without a usable range', () => {
+    const { nodes, edges } = rsiStrategy();
+    const errors = new ParameterOptimizer().validateConstraints(nodes, edges, [
+      { nodeId: 'rsi', parameter: 'length', minValue: 2, maxValue: 30, stepSize: 1 },
+      { nodeId: 'buy', parameter: 'quantity', minValue: 1, maxValue: 10, stepSize: 1 },
+      { nodeId: 'rsi', parameter: 'length', minValue: 30, maxValue: 2, stepSize: 1 },
+      { nodeId: 'risk', parameter: 'stopLoss', minValue: 1, maxValue: 5, stepSize: -1 },
+      { nodeId: 'risk', parameter: 'takeProfit' } as ParameterConstraint
+    ]);
+
+    expect(errors).toEqual([
+      expect.stringContaining('constraints[1]: buy.quantity is not an optimizable parameter'),
+      expect.stringContaining('constraints[2]: minValue and maxValue'),
+      expect.stringContaining('constraints[3]: stepSize'),
+      expect.stringContaining('constraints[4]: minValue and maxValue')
+    ]);
+  });
+
+  test('fails instead of searching an invalid constraint', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const result = await new ParameterOptimizer().optimizeParameters(nodes, edges, bars, {
+      constraints: [{ nodeId: 'rsi', parameter: 'length', minValue: 2, maxValue: 30, stepSize: 0 }]
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch('stepSize');
+  });
+
+  test('records the best real score per iteration', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const { convergenceData, backtestResults, recommendations } = await new ParameterOptimizer().optimizeParameters(
+      nodes, edges, bars, { algorithm: OptimizationAlgorithm.GENETIC_ALGORITHM, maxIterations: 60, seed: 3 }
+    );
+    const history = convergenceData.convergenceHistory;
+
+    expect(history.length).toBe(convergenceData.iterations);
+    expect(history.length).toBeGreaterThan(0);
+    for (let i = 1; i < history.length; i++) {
+      expect(history[i]).toBeGreaterThanOrEqual(history[i - 1]);
+    }
+    expect(convergenceData.bestScore).toBe(history[history.length - 1]);
+    expect(backtestResults.original.totalTrades).toBeGreaterThan(0);
+
+    // Recommendations are only made when the optimized run beats the original
+    if (recommendations.length > 0) {
+      expect(convergenceData.bestScore).toBeGreaterThan(0);
+      expect(backtestResults.optimized).not.toEqual(backtestResults.original);
+    }
+  });
+
+  test('is reproducible with a seed', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const config = { algorithm: OptimizationAlgorithm.PARTICLE_SWARM, maxIterations: 40, seed: 11 };
+    const first = await new ParameterOptimizer().optimizeParameters(nodes, edges, bars, config);
+    const second = await new ParameterOptimizer().optimizeParameters(nodes, edges, bars, config);
+
+    expect(second.optimizedParameters).toEqual(first.optimizedParameters);
+    expect(second.convergenceData.convergenceHistory).toEqual(first.convergenceData.convergenceHistory);
+  });
+
+  test('fails without a dataset', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const result = await new ParameterOptimizer().optimizeParameters(nodes, edges, []);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch('OHLCV dataset');
+  });
+});
+
+describe('ParameterOptimizer market regimes', () => {
+  const bars = makeBars(600);
+
+  test('reports per-regime trades and tunes a set for each covered regime', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const conditions = [MarketCondition.TRENDING, MarketCondition.RANGING];
+    const result = await new ParameterOptimizer().optimizeParameters(nodes, edges, bars, {
+      algorithm: OptimizationAlgorithm.RANDOM_SEARCH,
+      maxIterations: 15,
+      seed: 3,
+      marketConditions: conditions,
+      tuneByRegime: true
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.regimePerformance!.original.map(r => r.condition)).toEqual(conditions);
+    expect(result.regimePerformance!.original.reduce((sum, r) => sum + r.trades, 0))
+      .toBeLessThanOrEqual(result.backtestResults.original.totalTrades);
+
+    const [overall, ...perRegime] = result.optimizedParameters;
+    const covered = conditions.filter(c => (result.regimePerformance!.coverage[c] || 0) >= 0.1);
+    expect(overall.marketCondition).toBeUndefined();
+    expect(perRegime.map(set => set.marketCondition)).toEqual(covered);
+    expect(covered.length).toBeGreaterThan(0);
+    expect(Object.values(perRegime[0].parameters)[0].reasoning).toMatch(/entered in \w+ bars/);
+  });
+});
+
+describe('ParameterOptimizer walk-forward', () => {
+  const bars = makeBars(600);
+  const config = { algorithm: OptimizationAlgorithm.RANDOM_SEARCH, maxIterations: 15, seed: 5 };
+
+  test('fits each rolling window in-sample and reports the following test window', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const result = await new ParameterOptimizer().walkForwardOptimize(nodes, edges, bars, {
+      ...config,
+      walkForward: { mode: 'rolling', trainBars: 200, testBars: 100 }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.windows).toHaveLength(4);
+    result.windows.forEach((window, i) => {
+      expect(window.trainBars).toBe(200);
+      expect(window.trainStart).toBe(bars[i * 100].time);
+      expect(window.testStart).toBe(bars[200 + i * 100].time);
+      expect(window.testEnd).toBe(bars[299 + i * 100].time);
+      expect(window.inSample.totalTrades).toBeGreaterThan(0);
+      expect(isFinite(window.efficiency)).toBe(true);
+    });
+
+    const compounded = result.windows.reduce((equity, w) => equity * (1 + w.outOfSample.totalReturn), 1) - 1;
+    expect(result.outOfSampleReturn).toBeCloseTo(compounded);
+    expect(result.profitableWindows).toBeGreaterThanOrEqual(0);
+    expect(result.profitableWindows).toBeLessThanOrEqual(1);
+  });
+
+  test('anchored windows keep the first bar as the training start', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const result = await new ParameterOptimizer().walkForwardOptimize(nodes, edges, bars, {
+      ...config,
+      walkForward: { mode: 'anchored', trainBars: 300, testBars: 150 }
+    });
+
+    expect(result.windows.map(w => w.trainBars)).toEqual([300, 450]);
+    expect(result.windows.every(w => w.trainStart === bars[0].time)).toBe(true);
+  });
+
+  test('rejects datasets shorter than one train and test window', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const result = await new ParameterOptimizer().walkForwardOptimize(nodes, edges, bars.slice(0, 250), {
+      ...config,
+      walkForward: { mode: 'rolling', trainBars: 200, testBars: 100 }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch('at least 300');
+  });
+});
+
+describe('ParameterOptimizer robustness', () => {
+  const bars = makeBars(600);
+
+  test('builds a jitter heatmap per parameter and a Monte Carlo report', async () => {
+    const { nodes, edges } = rsiStrategy();
+    const report = await new ParameterOptimizer().analyzeRobustness(nodes, edges, bars, { seed: 4 }, {
+      jitterPercent: 20,
+      jitterSteps: 2,
+      monteCarlo: { iterations: 200 }
+    });
+
+    expect(report.success).toBe(true);
+    expect(report.sensitivity.jitterLevels).toEqual([-20, -10, 0, 10, 20]);
+    expect(report.sensitivity.rows.map(r => `${r.nodeId}.${r.parameter}`)).toEqual(
+      expect.arrayContaining(['rsi.length', 'oversold.threshold', 'risk.stopLoss', 'risk.takeProfit'])
+    );
+
+    const length = report.sensitivity.rows.find(r => r.parameter === 'length')!;
+    expect(length.cells.map(c => c.value)).toEqual([11, 13, 14, 15, 17]);
+    expect(length.cells[2].scoreChange).toBe(0);
+    expect(length.fragile).toBe(length.scoreDrop > 0.25);
+
+    expect(report.monteCarlo?.iterations).toBe(200);
+    expect(report.monteCarlo?.tradeCount).toBe(report.baseResults.totalTrades);
+    expect(report.robustnessScore).toBeGreaterThanOrEqual(0);
+    expect(report.robustnessScore).toBeLessThanOrEqual(1);
+  });
+});
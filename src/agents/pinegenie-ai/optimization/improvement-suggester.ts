@@ -6,7 +6,8 @@
  */
 
 import type { BuilderNode, BuilderEdge } from '../../../app/builder/builder-state';
-import type { ImpactLevel } from '../types/optimization-types';
+import { ImpactLevel } from '../types/optimization-types';
+import type { ParameterSensitivity, RobustnessReport } from './parameter-optimizer';
 
 export interface ImprovementSuggestion {
   id: string;
@@ -78,9 +79,14 @@ export enum EffortLevel {
 
 export class ImprovementSuggester {
   /**
-   * Generate comprehensive improvement suggestions for a strategy
+   * Generate comprehensive improvement suggestions for a strategy. With a
+   * robustness report, fragile parameters and Monte Carlo ranges are cited.
    */
-  generateImprovements(nodes: BuilderNode[], edges: BuilderEdge[]): ImprovementSuggestion[] {
+  generateImprovements(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    robustness?: RobustnessReport
+  ): ImprovementSuggestion[] {
     const suggestions: ImprovementSuggestion[] = [];
 
     // Analyze different aspects of the strategy
@@ -90,6 +96,9 @@ export class ImprovementSuggester {
     suggestions.push(...this.analyzeParameters(nodes, edges));
     suggestions.push(...this.analyzePerformance(nodes, edges));
     suggestions.push(...this.analyzeRobustness(nodes, edges));
+    if (robustness?.success) {
+      suggestions.push(...this.analyzeRobustnessReport(nodes, robustness));
+    }
 
     // Sort by priority and impact
     return suggestions.sort((a, b) => {
@@ -710,8 +719,148 @@ export class ImprovementSuggester {
     return suggestions;
   }
 
+  /**
+   * Turn a measured robustness report into suggestions that cite its numbers
+   */
+  private analyzeRobustnessReport(nodes: BuilderNode[], report: RobustnessReport): ImprovementSuggestion[] {
+    const suggestions: ImprovementSuggestion[] = [];
+    const maxJitter = Math.max(...report.sensitivity.jitterLevels);
+
+    for (const row of report.sensitivity.rows.filter(r => r.fragile)) {
+      const node = nodes.find(n => n.id === row.nodeId);
+      const label = node?.data.label || row.nodeId;
+      const worst = row.cells.reduce((a, b) => (a.score <= b.score ? a : b));
+      const stableValue = this.mostStableValue(row);
+
+      suggestions.push({
+        id: `stabilize-${row.nodeId}-${row.parameter}`,
+        title: `Stabilize Fragile Parameter: ${label} ${row.parameter}`,
+        description: `${label} ${row.parameter} = ${row.baseValue} is fragile: the score falls ` +
+          `${(row.scoreDrop * 100).toFixed(0)}% within ±${maxJitter}% (worst at ${worst.value}, ` +
+          `${worst.jitterPercent > 0 ? '+' : ''}${worst.jitterPercent}%)`,
+        category: ImprovementCategory.ROBUSTNESS,
+        priority: row.scoreDrop > 0.5 ? ImprovementPriority.HIGH : ImprovementPriority.MEDIUM,
+        impact: row.scoreDrop > 0.5 ? ImpactLevel.HIGH : ImpactLevel.MEDIUM,
+        effort: EffortLevel.LOW,
+        implementation: {
+          steps: [
+            {
+              stepNumber: 1,
+              action: 'Move to a Stable Region',
+              description: stableValue !== row.baseValue
+                ? `Use ${stableValue}, where neighbouring values in the sensitivity heatmap score most consistently`
+                : 'Keep the value but confirm it out of sample before trading it live',
+              parameterChanges: stableValue !== row.baseValue ? [{
+                nodeId: row.nodeId,
+                parameter: row.parameter,
+                oldValue: row.baseValue,
+                newValue: stableValue,
+                reasoning: `Centre of the flattest region of the ±${maxJitter}% sensitivity heatmap`
+              }] : undefined
+            },
+            {
+              stepNumber: 2,
+              action: 'Re-run Robustness Analysis',
+              description: 'Check that no neighbouring value loses more than a quarter of the score'
+            }
+          ],
+          estimatedTime: 10,
+          difficulty: 'easy',
+          requiredKnowledge: ['parameter-sensitivity']
+        },
+        expectedBenefit: 'Live results that depend less on an exact parameter value',
+        riskFactors: ['The stable value may score lower on the historical data'],
+        prerequisites: [],
+        confidence: Math.min(0.9, 0.5 + row.scoreDrop / 2)
+      });
+    }
+
+    const monteCarlo = report.monteCarlo;
+    if (monteCarlo && monteCarlo.maxDrawdown.upper > Math.max(0.1, monteCarlo.original.maxDrawdown * 1.5)) {
+      const confidence = Math.round(monteCarlo.confidence * 100);
+      suggestions.push({
+        id: 'size-for-monte-carlo-drawdown',
+        title: 'Size Positions for Monte Carlo Drawdown',
+        description: `The backtest drew down ${(monteCarlo.original.maxDrawdown * 100).toFixed(1)}%, but across ` +
+          `${monteCarlo.iterations} ${monteCarlo.method}d trade sequences the ${confidence}% upper bound is ` +
+          `${(monteCarlo.maxDrawdown.upper * 100).toFixed(1)}%`,
+        category: ImprovementCategory.RISK_MANAGEMENT,
+        priority: monteCarlo.maxDrawdown.upper > 0.3 ? ImprovementPriority.HIGH : ImprovementPriority.MEDIUM,
+        impact: ImpactLevel.MEDIUM,
+        effort: EffortLevel.LOW,
+        implementation: {
+          steps: [
+            {
+              stepNumber: 1,
+              action: 'Reduce Position Size',
+              description: 'Scale position size so the upper drawdown bound fits your risk budget'
+            }
+          ],
+          estimatedTime: 5,
+          difficulty: 'easy',
+          requiredKnowledge: ['position-sizing']
+        },
+        expectedBenefit: 'Drawdowns that stay within budget when trades arrive in a less favourable order',
+        riskFactors: ['Lower absolute returns'],
+        prerequisites: [],
+        confidence: 0.7
+      });
+    }
+
+    if (monteCarlo && monteCarlo.totalReturn.lower < 0 && monteCarlo.method === 'resample') {
+      suggestions.push({
+        id: 'improve-trade-edge',
+        title: 'Strengthen the Trade Edge',
+        description: `${(monteCarlo.probabilityOfLoss * 100).toFixed(0)}% of resampled trade sequences lose money; ` +
+          `the ${Math.round(monteCarlo.confidence * 100)}% return range is ` +
+          `${(monteCarlo.totalReturn.lower * 100).toFixed(1)}% to ${(monteCarlo.totalReturn.upper * 100).toFixed(1)}%`,
+        category: ImprovementCategory.PERFORMANCE,
+        priority: monteCarlo.probabilityOfLoss > 0.25 ? ImprovementPriority.HIGH : ImprovementPriority.MEDIUM,
+        impact: ImpactLevel.HIGH,
+        effort: EffortLevel.MEDIUM,
+        implementation: {
+          steps: [
+            {
+              stepNumber: 1,
+              action: 'Filter Low-Quality Entries',
+              description: 'Add a trend or volatility filter so fewer marginal trades are taken'
+            }
+          ],
+          estimatedTime: 20,
+          difficulty: 'medium',
+          requiredKnowledge: ['signal-filtering']
+        },
+        expectedBenefit: 'A return that does not depend on a few lucky trades',
+        riskFactors: ['Fewer trades'],
+        prerequisites: [],
+        confidence: 0.6
+      });
+    }
+
+    return suggestions;
+  }
+
   // Helper methods
 
+  // Interior value whose heatmap neighbourhood has the best worst-case score;
+  // edge cells are skipped because their outer neighbour was never measured
+  private mostStableValue(row: ParameterSensitivity): number {
+    let best = row.baseValue;
+    let bestFloor = -Infinity;
+
+    row.cells.forEach((cell, i) => {
+      if (!cell.valid || i === 0 || i === row.cells.length - 1) return;
+      const neighbourhood = row.cells.slice(Math.max(0, i - 1), i + 2);
+      const floor = Math.min(...neighbourhood.map(n => (n.valid ? n.score : -Infinity)));
+      if (floor > bestFloor) {
+        bestFloor = floor;
+        best = cell.value;
+      }
+    });
+
+    return best;
+  }
+
   private findExtremeParameters(nodes: BuilderNode[]): Array<{nodeId: string, parameter: string, value: unknown}> {
     const extremeParams: Array<{nodeId: string, parameter: string, value: unknown}> = [];
 
@@ -0,0 +1,241 @@
+/**
+ * Market Regime Classifier
+ *
+ * Labels every bar of an OHLCV dataset with MarketCondition values on three
+ * independent axes: trend strength (ADX), volatility (percentile of ATR as a
+ * fraction of price) and direction (slope of a long moving average). Short
+ * runs are folded into their neighbours, so spans are hindsight labels for
+ * analysis and tuning rather than live trading signals.
+ */
+
+import { indicators } from '../../../lib/backtesting';
+import type { BacktestTrade, OHLCVBar } from '../../../lib/backtesting';
+import { MarketCondition } from '../types/optimization-types';
+
+export interface RegimeClassifierOptions {
+  adxLength: number;
+  trendThreshold: number; // ADX at or above this is trending
+  rangeThreshold: number; // ADX at or below this is ranging; in between keeps the last label
+  atrLength: number;
+  volatilityLookback: number; // Bars used to rank the current ATR%
+  highVolatilityPercentile: number;
+  lowVolatilityPercentile: number;
+  slopeLength: number; // Moving average whose slope sets the direction
+  slopeLookback: number;
+  slopeThreshold: number; // Minimum fractional change over slopeLookback
+  minSpanBars: number; // Shorter runs are merged into a neighbour
+}
+
+export interface RegimeSpan {
+  condition: MarketCondition;
+  startIndex: number;
+  endIndex: number; // Inclusive
+  startTime: number;
+  endTime: number;
+  bars: number;
+}
+
+export interface RegimeClassification {
+  labels: MarketCondition[][]; // Per bar, at most one condition per axis
+  spans: RegimeSpan[]; // Ordered by start; spans of different axes overlap
+  coverage: Partial<Record<MarketCondition, number>>; // Fraction of bars with each label
+}
+
+export interface RegimePerformance {
+  condition: MarketCondition;
+  barShare: number;
+  trades: number;
+  winRate: number;
+  netProfit: number;
+  averageReturn: number; // Mean trade return, as a fraction
+  profitFactor: number;
+}
+
+type Axis = Array<MarketCondition | null>;
+
+// JSON cannot carry Infinity, matching the optimizer's cap
+const MAX_PROFIT_FACTOR = 100;
+
+const DEFAULT_OPTIONS: RegimeClassifierOptions = {
+  adxLength: 14,
+  trendThreshold: 25,
+  rangeThreshold: 20,
+  atrLength: 14,
+  volatilityLookback: 100,
+  highVolatilityPercentile: 0.8,
+  lowVolatilityPercentile: 0.2,
+  slopeLength: 50,
+  slopeLookback: 10,
+  slopeThreshold: 0.005,
+  minSpanBars: 10
+};
+
+export class MarketRegimeClassifier {
+  private readonly options: RegimeClassifierOptions;
+
+  constructor(options: Partial<RegimeClassifierOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Label each bar and group the labels into spans
+   */
+  classify(bars: OHLCVBar[]): RegimeClassification {
+    const axes = [
+      this.smooth(this.trendAxis(bars)),
+      this.smooth(this.volatilityAxis(bars)),
+      this.smooth(this.directionAxis(bars))
+    ];
+
+    const labels = bars.map((_, i) =>
+      axes.map(axis => axis[i]).filter((label): label is MarketCondition => label !== null)
+    );
+
+    const spans = axes
+      .flatMap(axis => this.toSpans(axis, bars))
+      .sort((a, b) => a.startIndex - b.startIndex);
+
+    const coverage: Partial<Record<MarketCondition, number>> = {};
+    for (const span of spans) {
+      coverage[span.condition] = (coverage[span.condition] || 0) + span.bars / bars.length;
+    }
+
+    return { labels, spans, coverage };
+  }
+
+  /**
+   * True on bars labelled with the condition, for use as an engine entry mask
+   */
+  mask(classification: RegimeClassification, condition: MarketCondition): boolean[] {
+    return classification.labels.map(labels => labels.includes(condition));
+  }
+
+  /**
+   * Attribute each closed trade to the regimes active on its entry bar
+   */
+  summarizePerformance(
+    trades: BacktestTrade[],
+    classification: RegimeClassification,
+    conditions: MarketCondition[] = Object.values(MarketCondition)
+  ): RegimePerformance[] {
+    return conditions.map(condition => {
+      const regimeTrades = trades.filter(trade =>
+        classification.labels[trade.entryBar]?.includes(condition)
+      );
+      const grossProfit = regimeTrades.filter(t => t.pnl > 0).reduce((sum, t) => sum + t.pnl, 0);
+      const grossLoss = -regimeTrades.filter(t => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0);
+
+      return {
+        condition,
+        barShare: classification.coverage[condition] || 0,
+        trades: regimeTrades.length,
+        winRate: regimeTrades.length > 0
+          ? regimeTrades.filter(t => t.pnl > 0).length / regimeTrades.length
+          : 0,
+        netProfit: grossProfit - grossLoss,
+        averageReturn: regimeTrades.length > 0
+          ? regimeTrades.reduce((sum, t) => sum + t.returnPct, 0) / regimeTrades.length
+          : 0,
+        profitFactor: grossLoss > 0
+          ? Math.min(grossProfit / grossLoss, MAX_PROFIT_FACTOR)
+          : (grossProfit > 0 ? MAX_PROFIT_FACTOR : 0)
+      };
+    });
+  }
+
+  private trendAxis(bars: OHLCVBar[]): Axis {
+    const { adxLength, trendThreshold, rangeThreshold } = this.options;
+    const { adx } = indicators.dmi(bars, adxLength, adxLength);
+    let last: MarketCondition | null = null;
+
+    return adx.map(value => {
+      if (isNaN(value)) return null;
+      if (value >= trendThreshold) last = MarketCondition.TRENDING;
+      else if (value <= rangeThreshold) last = MarketCondition.RANGING;
+      return last;
+    });
+  }
+
+  private volatilityAxis(bars: OHLCVBar[]): Axis {
+    const { atrLength, volatilityLookback, highVolatilityPercentile, lowVolatilityPercentile } = this.options;
+    const atr = indicators.atr(bars, atrLength);
+    const atrPercent = atr.map((value, i) => value / bars[i].close);
+
+    return atrPercent.map((value, i) => {
+      if (isNaN(value) || i < volatilityLookback - 1) return null;
+
+      // Percentile rank of today's ATR% within the trailing window
+      let below = 0;
+      for (let j = i - volatilityLookback + 1; j <= i; j++) {
+        if (atrPercent[j] < value) below++;
+      }
+      const rank = below / (volatilityLookback - 1);
+
+      if (rank >= highVolatilityPercentile) return MarketCondition.VOLATILE;
+      if (rank <= lowVolatilityPercentile) return MarketCondition.LOW_VOLATILITY;
+      return null;
+    });
+  }
+
+  private directionAxis(bars: OHLCVBar[]): Axis {
+    const { slopeLength, slopeLookback, slopeThreshold } = this.options;
+    const average = indicators.sma(indicators.priceSeries(bars, 'close'), slopeLength);
+
+    return average.map((value, i) => {
+      const previous = average[i - slopeLookback];
+      if (isNaN(value) || previous === undefined || isNaN(previous) || previous === 0) return null;
+
+      const slope = value / previous - 1;
+      if (slope > slopeThreshold && bars[i].close > value) return MarketCondition.BULL_MARKET;
+      if (slope < -slopeThreshold && bars[i].close < value) return MarketCondition.BEAR_MARKET;
+      return null;
+    });
+  }
+
+  // Fold runs shorter than minSpanBars into the preceding run (or the next one at the start)
+  private smooth(axis: Axis): Axis {
+    const runs = this.toRuns(axis);
+    const { minSpanBars } = this.options;
+    const smoothed = [...axis];
+
+    for (let r = 0; r < runs.length; r++) {
+      const run = runs[r];
+      if (run.end - run.start + 1 >= minSpanBars || runs.length === 1) continue;
+
+      const replacement = r > 0 ? smoothed[runs[r - 1].end] : runs[r + 1].label;
+      for (let i = run.start; i <= run.end; i++) {
+        smoothed[i] = replacement;
+      }
+    }
+
+    return smoothed;
+  }
+
+  private toRuns(axis: Axis): Array<{ label: MarketCondition | null; start: number; end: number }> {
+    const runs: Array<{ label: MarketCondition | null; start: number; end: number }> = [];
+
+    axis.forEach((label, i) => {
+      const current = runs[runs.length - 1];
+      if (current && current.label === label) {
+        current.end = i;
+      } else {
+        runs.push({ label, start: i, end: i });
+      }
+    });
+
+    return runs;
+  }
+
+  private toSpans(axis: Axis, bars: OHLCVBar[]): RegimeSpan[] {
+    return this.toRuns(axis)
+      .filter(run => run.label !== null)
+      .map(run => ({
+        condition: run.label as MarketCondition,
+        startIndex: run.start,
+        endIndex: run.end,
+        startTime: bars[run.start].time,
+        endTime: bars[run.end].time,
+        bars: run.end - run.start + 1
+      }));
+  }
+}
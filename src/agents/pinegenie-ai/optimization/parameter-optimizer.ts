@@ -1,18 +1,32 @@
 /**
  * Parameter Optimization Engine
- * 
- * Optimizes strategy parameters for different market conditions using
- * various optimization algorithms and backtesting integration.
+ *
+ * Optimizes strategy parameters using various search algorithms. Every
+ * candidate is scored by backtesting the strategy graph on a real OHLCV
+ * dataset, so suggested values are only as good as the data supplied.
  */
 
-import type { BuilderNode } from '../../../app/builder/builder-state';
-import type { 
-  OptimizationResult, 
-  Optimization, 
-  OptimizationType, 
-  ImpactLevel,
-  OptimizationParameter 
-} from '../types/optimization-types';
+import type { BuilderEdge, BuilderNode } from '../../../app/builder/builder-state';
+import type { CustomEdge, CustomNode } from '../../../app/builder/canvas-config';
+import { runBacktest, runMonteCarlo, createSeededRandom, DEFAULT_BACKTEST_CONFIG } from '../../../lib/backtesting';
+import type {
+  BacktestConfig,
+  BacktestMetrics,
+  BacktestTrade,
+  MonteCarloOptions,
+  MonteCarloReport,
+  OHLCVBar
+} from '../../../lib/backtesting';
+import { MarketRegimeClassifier } from './market-regime-classifier';
+import type {
+  RegimeClassification,
+  RegimeClassifierOptions,
+  RegimePerformance
+} from './market-regime-classifier';
+import { ImpactLevel, MarketCondition } from '../types/optimization-types';
+import type { OptimizationParameter } from '../types/optimization-types';
+
+export { MarketCondition };
 
 export interface ParameterOptimizationConfig {
   algorithm: OptimizationAlgorithm;
@@ -21,6 +35,20 @@ export interface ParameterOptimizationConfig {
   marketConditions: MarketCondition[];
   objectives: OptimizationObjective[];
   constraints: ParameterConstraint[];
+  backtestConfig?: Partial<BacktestConfig>;
+  seed?: number; // Makes stochastic searches reproducible
+  walkForward?: WalkForwardConfig;
+  tuneByRegime?: boolean; // Also search each of marketConditions on its own bars
+  regimeOptions?: Partial<RegimeClassifierOptions>;
+}
+
+export type WalkForwardMode = 'anchored' | 'rolling';
+
+export interface WalkForwardConfig {
+  mode: WalkForwardMode;
+  trainBars: number; // In-sample length; anchored windows grow from here
+  testBars: number; // Out-of-sample length of each window
+  stepBars?: number; // Defaults to testBars so test windows do not overlap
 }
 
 export enum OptimizationAlgorithm {
@@ -31,15 +59,6 @@ export enum OptimizationAlgorithm {
   PARTICLE_SWARM = 'particle-swarm'
 }
 
-export enum MarketCondition {
-  TRENDING = 'trending',
-  RANGING = 'ranging',
-  VOLATILE = 'volatile',
-  LOW_VOLATILITY = 'low-volatility',
-  BULL_MARKET = 'bull-market',
-  BEAR_MARKET = 'bear-market'
-}
-
 export interface OptimizationObjective {
   metric: PerformanceMetric;
   weight: number;
@@ -73,14 +92,22 @@ export interface OptimizationResult {
   backtestResults: BacktestComparison;
   convergenceData: ConvergenceData;
   recommendations: ParameterRecommendation[];
+  regimePerformance?: RegimePerformanceComparison;
   metadata: OptimizationMetadata;
+  error?: string;
+}
+
+export interface RegimePerformanceComparison {
+  coverage: RegimeClassification['coverage'];
+  original: RegimePerformance[];
+  optimized: RegimePerformance[];
 }
 
 export interface OptimizedParameterSet {
   nodeId: string;
   parameters: Record<string, OptimizationParameter>;
   confidence: number;
-  marketCondition: MarketCondition;
+  marketCondition?: MarketCondition; // Unset when scored on the whole dataset
   expectedImprovement: number;
 }
 
@@ -93,6 +120,8 @@ export interface BacktestComparison {
 export interface BacktestResults {
   totalReturn: number;
   sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
   maxDrawdown: number;
   winRate: number;
   profitFactor: number;
@@ -116,9 +145,9 @@ export interface PerformanceImprovement {
 export interface ConvergenceData {
   iterations: number;
   bestScore: number;
-  convergenceHistory: number[];
-  timeToConvergence: number;
-  finalError: number;
+  convergenceHistory: number[]; // Best score so far after each iteration
+  timeToConvergence: number; // Iteration at which the final best score was reached
+  finalError: number; // Size of the last improvement
 }
 
 export interface ParameterRecommendation {
@@ -140,12 +169,164 @@ export interface OptimizationMetadata {
   successRate: number;
 }
 
+export interface WalkForwardWindow {
+  index: number;
+  trainStart: number; // Bar times, epoch milliseconds
+  trainEnd: number;
+  testStart: number;
+  testEnd: number;
+  trainBars: number;
+  testBars: number;
+  parameters: Record<string, Record<string, unknown>>;
+  inSample: BacktestResults;
+  outOfSample: BacktestResults;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  efficiency: number; // Out-of-sample return per bar over in-sample return per bar
+}
+
+export interface WalkForwardResult {
+  success: boolean;
+  mode: WalkForwardMode;
+  windows: WalkForwardWindow[];
+  efficiency: number; // Walk-forward efficiency across all windows
+  inSampleReturn: number; // Mean in-sample return per window
+  outOfSampleReturn: number; // Compounded over the test windows
+  profitableWindows: number; // Fraction of test windows with a positive return
+  metadata: OptimizationMetadata;
+  error?: string;
+}
+
+export interface RobustnessOptions {
+  jitterPercent?: number; // Largest offset applied to each parameter, e.g. 20 for ±20%
+  jitterSteps?: number; // Offsets per side, evenly spaced up to jitterPercent
+  fragilityThreshold?: number; // Relative score drop that marks a parameter fragile
+  monteCarlo?: MonteCarloOptions;
+}
+
+export interface SensitivityCell {
+  jitterPercent: number;
+  value: number;
+  valid: boolean; // False when the jittered graph could not be backtested
+  score: number;
+  scoreChange: number; // Relative to the unjittered score
+  totalReturn: number;
+  maxDrawdown: number;
+  totalTrades: number;
+}
+
+export interface ParameterSensitivity {
+  nodeId: string;
+  parameter: string;
+  baseValue: number;
+  cells: SensitivityCell[];
+  scoreDrop: number; // Worst relative score loss across the jitter range
+  fragile: boolean;
+}
+
+export interface SensitivityHeatmap {
+  jitterLevels: number[]; // Heatmap columns, in percent
+  rows: ParameterSensitivity[];
+  fragileParameters: string[]; // nodeId.parameter keys
+}
+
+export interface RobustnessReport {
+  success: boolean;
+  baseScore: number;
+  baseResults: BacktestResults;
+  monteCarlo: MonteCarloReport | null;
+  sensitivity: SensitivityHeatmap;
+  robustnessScore: number; // Share of jittered runs that stay within the fragility threshold
+  error?: string;
+}
+
+type ParameterValues = Record<string, Record<string, unknown>>;
+
+interface RangeSpec {
+  names: string[]; // Accepted spellings, first match on the node wins
+  min: number;
+  max: number;
+  step: number;
+}
+
+interface EvaluationContext {
+  nodes: BuilderNode[];
+  edges: BuilderEdge[];
+  bars: OHLCVBar[];
+  objectives: OptimizationObjective[];
+  backtestConfig: Partial<BacktestConfig>;
+  cache: Map<string, { score: number; results: BacktestResults | null }>;
+  history: number[];
+  bestScore: number;
+  evaluations: number;
+  failedEvaluations: number;
+}
+
+// One parameter of a grid search; values are computed by index rather than stored
+interface GridAxis {
+  key: string;
+  size: number;
+  valueAt: (index: number) => unknown;
+}
+
+const LENGTH_NAMES = ['length', 'period'];
+
+// Search ranges per indicator; names mirror the engine's parameter aliases
+const INDICATOR_PARAMETER_RANGES: Record<string, RangeSpec[]> = {
+  rsi: [{ names: LENGTH_NAMES, min: 2, max: 50, step: 1 }],
+  sma: [{ names: LENGTH_NAMES, min: 5, max: 200, step: 5 }],
+  ema: [{ names: LENGTH_NAMES, min: 5, max: 200, step: 5 }],
+  wma: [{ names: LENGTH_NAMES, min: 5, max: 200, step: 5 }],
+  atr: [{ names: LENGTH_NAMES, min: 5, max: 50, step: 1 }],
+  stoch: [{ names: LENGTH_NAMES, min: 5, max: 30, step: 1 }],
+  macd: [
+    { names: ['fastlen', 'fastPeriod', 'fastLength'], min: 5, max: 20, step: 1 },
+    { names: ['slowlen', 'slowPeriod', 'slowLength'], min: 15, max: 50, step: 1 },
+    { names: ['siglen', 'signalPeriod', 'signalLength'], min: 5, max: 15, step: 1 }
+  ],
+  bb: [
+    { names: LENGTH_NAMES, min: 10, max: 50, step: 1 },
+    { names: ['mult', 'stddev', 'multiplier'], min: 1, max: 3, step: 0.25 }
+  ]
+};
+
+// Condition thresholds are only searched when they compare a bounded oscillator
+const BOUNDED_INDICATORS = ['rsi', 'stoch'];
+const THRESHOLD_RANGE = { min: 10, max: 90, step: 5 };
+
+const RISK_PARAMETER_RANGES: Record<string, { min: number; max: number; step: number }> = {
+  stopLoss: { min: 0.5, max: 10, step: 0.5 },
+  takeProfit: { min: 1, max: 20, step: 0.5 }
+};
+
+// Grid points per parameter; finer steps are sampled evenly across the range
+export const MAX_GRID_POINTS_PER_AXIS = 1000;
+
+// JSON cannot carry Infinity, so runs without losing trades report this instead
+const MAX_PROFIT_FACTOR = 100;
+
+// Below this many trades a score says little about the parameters
+const MIN_TRADES_FOR_FULL_CONFIDENCE = 30;
+
+// Regimes covering less of the dataset than this are not tuned separately
+const MIN_REGIME_COVERAGE = 0.1;
+
+export const DEFAULT_MARKET_CONDITIONS: MarketCondition[] = [MarketCondition.TRENDING, MarketCondition.RANGING];
+
+const ALGORITHM_CONFIDENCE: Record<OptimizationAlgorithm, number> = {
+  [OptimizationAlgorithm.GRID_SEARCH]: 0.8,
+  [OptimizationAlgorithm.RANDOM_SEARCH]: 0.7,
+  [OptimizationAlgorithm.GENETIC_ALGORITHM]: 0.85,
+  [OptimizationAlgorithm.BAYESIAN_OPTIMIZATION]: 0.9,
+  [OptimizationAlgorithm.PARTICLE_SWARM]: 0.8
+};
+
 export class ParameterOptimizer {
   private readonly DEFAULT_CONFIG: ParameterOptimizationConfig = {
     algorithm: OptimizationAlgorithm.BAYESIAN_OPTIMIZATION,
     maxIterations: 100,
     convergenceThreshold: 0.001,
-    marketConditions: [MarketCondition.TRENDING, MarketCondition.RANGING],
+    marketConditions: DEFAULT_MARKET_CONDITIONS,
     objectives: [
       {
         metric: PerformanceMetric.SHARPE_RATIO,
@@ -169,87 +350,117 @@ export class ParameterOptimizer {
     constraints: []
   };
 
+  private random: () => number = Math.random;
+
   /**
-   * Optimize parameters for the given strategy nodes
+   * Optimize parameters for the given strategy graph on an OHLCV dataset
    */
   async optimizeParameters(
     nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    bars: OHLCVBar[],
     config: Partial<ParameterOptimizationConfig> = {}
   ): Promise<OptimizationResult> {
     const startTime = new Date();
     const optimizationConfig = { ...this.DEFAULT_CONFIG, ...config };
+    this.random = optimizationConfig.seed !== undefined ? createSeededRandom(optimizationConfig.seed) : Math.random;
+
+    const context = this.createContext(nodes, edges, bars, optimizationConfig);
 
     try {
-      // Extract optimizable parameters
-      const optimizableNodes = this.extractOptimizableNodes(nodes);
-      if (optimizableNodes.length === 0) {
-        throw new Error('No optimizable parameters found in the strategy');
+      if (bars.length === 0) {
+        throw new Error('An OHLCV dataset is required to optimize parameters');
       }
 
-      // Generate parameter constraints
-      const constraints = this.generateParameterConstraints(optimizableNodes);
-      optimizationConfig.constraints = [...optimizationConfig.constraints, ...constraints];
-
-      // Run optimization for each market condition
-      const optimizationResults: OptimizedParameterSet[] = [];
-      let totalEvaluations = 0;
-      let successfulOptimizations = 0;
-
-      for (const marketCondition of optimizationConfig.marketConditions) {
-        try {
-          const result = await this.optimizeForMarketCondition(
-            optimizableNodes,
-            marketCondition,
-            optimizationConfig
-          );
-          optimizationResults.push(result);
-          totalEvaluations += optimizationConfig.maxIterations;
-          successfulOptimizations++;
-        } catch (error) {
-          console.warn(`Optimization failed for market condition ${marketCondition}:`, error);
-        }
+      optimizationConfig.constraints = this.resolveConstraints(nodes, edges, optimizationConfig.constraints);
+
+      // Score the strategy as it stands so suggestions can be compared against it
+      const originalParameters = this.getCurrentParameters(nodes, optimizationConfig.constraints);
+      const original = await this.evaluateParameters(originalParameters, context);
+      if (!original.results) {
+        throw new Error('The strategy could not be backtested with its current parameters');
       }
+      context.history = [];
+      context.bestScore = -Infinity;
+
+      const search = await this.runSearch(nodes, optimizationConfig, context);
+      const optimized = await this.evaluateParameters(search.bestParameters, context);
 
-      if (optimizationResults.length === 0) {
-        throw new Error('All optimization attempts failed');
+      if (!optimized.results) {
+        throw new Error('No parameter combination produced a valid backtest');
       }
 
-      // Generate backtesting comparison
-      const backtestResults = await this.generateBacktestComparison(
+      const improved = optimized.score > original.score + optimizationConfig.convergenceThreshold;
+      const chosenParameters = improved ? search.bestParameters : originalParameters;
+      const parameterSet = this.buildParameterSet(
         nodes,
-        optimizationResults[0] // Use best result for comparison
+        chosenParameters,
+        optimizationConfig.algorithm,
+        improved ? optimized.results : original.results,
+        improved ? (optimized.score - original.score) * 100 : 0
+      );
+
+      const classifier = new MarketRegimeClassifier(optimizationConfig.regimeOptions);
+      const classification = classifier.classify(bars);
+      const regimePerformance: RegimePerformanceComparison = {
+        coverage: classification.coverage,
+        original: classifier.summarizePerformance(
+          this.backtestTrades(originalParameters, context),
+          classification,
+          optimizationConfig.marketConditions
+        ),
+        optimized: classifier.summarizePerformance(
+          this.backtestTrades(chosenParameters, context),
+          classification,
+          optimizationConfig.marketConditions
+        )
+      };
+
+      const regimeSearch = optimizationConfig.tuneByRegime
+        ? await this.optimizeRegimes(nodes, edges, bars, optimizationConfig, classifier, classification, originalParameters)
+        : { parameterSets: [], evaluations: 0, failedEvaluations: 0 };
+
+      const backtestResults = this.generateBacktestComparison(
+        original.results,
+        improved ? optimized.results : original.results
       );
 
       // Calculate convergence data
-      const convergenceData = this.calculateConvergenceData(optimizationConfig);
+      const convergenceData = this.calculateConvergenceData(context, optimizationConfig.convergenceThreshold);
 
-      // Generate recommendations
-      const recommendations = this.generateRecommendations(optimizationResults);
+      // Only recommend changes that beat the current parameters on this dataset
+      const recommendations = improved ? this.generateRecommendations([parameterSet]) : [];
 
       const endTime = new Date();
       const duration = endTime.getTime() - startTime.getTime();
 
+      const totalEvaluations = context.evaluations + regimeSearch.evaluations;
+      const failedEvaluations = context.failedEvaluations + regimeSearch.failedEvaluations;
+
       return {
         success: true,
-        optimizedParameters: optimizationResults,
+        optimizedParameters: [parameterSet, ...regimeSearch.parameterSets],
         performanceImprovement: backtestResults.improvement.overallScore,
         backtestResults,
         convergenceData,
         recommendations,
+        regimePerformance,
         metadata: {
           startTime,
           endTime,
           duration,
           algorithm: optimizationConfig.algorithm,
           totalEvaluations,
-          successRate: successfulOptimizations / optimizationConfig.marketConditions.length
+          successRate: totalEvaluations > 0
+            ? (totalEvaluations - failedEvaluations) / totalEvaluations
+            : 0
         }
       };
 
     } catch (error) {
       console.error('Parameter optimization failed:', error);
       const endTime = new Date();
-      
+
       return {
         success: false,
         optimizedParameters: [],
@@ -262,266 +473,493 @@ export class ParameterOptimizer {
           endTime,
           duration: endTime.getTime() - startTime.getTime(),
           algorithm: optimizationConfig.algorithm,
-          totalEvaluations: 0,
+          totalEvaluations: context.evaluations,
           successRate: 0
+        },
+        error: error instanceof Error ? error.message : 'Unknown optimization error'
+      };
+    }
+  }
+
+  /**
+   * Walk-forward optimization: parameters are fitted on each training window
+   * and then backtested, unchanged, on the test window that follows it.
+   * Anchored windows keep the training start fixed; rolling windows slide it.
+   */
+  async walkForwardOptimize(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    bars: OHLCVBar[],
+    config: Partial<ParameterOptimizationConfig> = {}
+  ): Promise<WalkForwardResult> {
+    const startTime = new Date();
+    const optimizationConfig = { ...this.DEFAULT_CONFIG, ...config };
+    this.random = optimizationConfig.seed !== undefined ? createSeededRandom(optimizationConfig.seed) : Math.random;
+
+    const walkForward = optimizationConfig.walkForward;
+    const windows: WalkForwardWindow[] = [];
+    let totalEvaluations = 0;
+    let failedEvaluations = 0;
+
+    try {
+      if (!walkForward) {
+        throw new Error('Walk-forward settings are required');
+      }
+      if (bars.length === 0) {
+        throw new Error('An OHLCV dataset is required to optimize parameters');
+      }
+
+      optimizationConfig.constraints = this.resolveConstraints(nodes, edges, optimizationConfig.constraints);
+      const currentParameters = this.getCurrentParameters(nodes, optimizationConfig.constraints);
+
+      for (const plan of this.planWalkForwardWindows(bars.length, walkForward)) {
+        const trainContext = this.createContext(
+          nodes, edges, bars.slice(plan.trainStart, plan.testStart), optimizationConfig
+        );
+
+        // Keep the current parameters when the search cannot beat them in-sample
+        const search = await this.runSearch(nodes, optimizationConfig, trainContext);
+        const searched = await this.evaluateParameters(search.bestParameters, trainContext);
+        const current = await this.evaluateParameters(currentParameters, trainContext);
+        const useSearched = searched.score > current.score;
+        const parameters = useSearched ? search.bestParameters : currentParameters;
+        const inSample = useSearched ? searched : current;
+
+        // The training bars prime indicators so the test window trades from its first bar
+        const testContext = this.createContext(
+          nodes, edges, bars.slice(plan.trainStart, plan.testEnd), {
+            ...optimizationConfig,
+            backtestConfig: { ...optimizationConfig.backtestConfig, warmupBars: plan.testStart - plan.trainStart }
+          }
+        );
+        const outOfSample = await this.evaluateParameters(parameters, testContext);
+
+        totalEvaluations += trainContext.evaluations + testContext.evaluations;
+        failedEvaluations += trainContext.failedEvaluations + testContext.failedEvaluations;
+
+        if (!inSample.results || !outOfSample.results) {
+          throw new Error(`Window ${windows.length + 1} could not be backtested`);
+        }
+
+        const trainLength = plan.testStart - plan.trainStart;
+        const testLength = plan.testEnd - plan.testStart;
+
+        windows.push({
+          index: windows.length,
+          trainStart: bars[plan.trainStart].time,
+          trainEnd: bars[plan.testStart - 1].time,
+          testStart: bars[plan.testStart].time,
+          testEnd: bars[plan.testEnd - 1].time,
+          trainBars: trainLength,
+          testBars: testLength,
+          parameters: this.cloneParameters(parameters),
+          inSample: inSample.results,
+          outOfSample: outOfSample.results,
+          inSampleScore: inSample.score,
+          outOfSampleScore: outOfSample.score,
+          efficiency: this.walkForwardEfficiency(
+            [inSample.results.totalReturn / trainLength],
+            [outOfSample.results.totalReturn / testLength]
+          )
+        });
+      }
+
+      const endTime = new Date();
+
+      return {
+        success: true,
+        mode: walkForward.mode,
+        windows,
+        efficiency: this.walkForwardEfficiency(
+          windows.map(w => w.inSample.totalReturn / w.trainBars),
+          windows.map(w => w.outOfSample.totalReturn / w.testBars)
+        ),
+        inSampleReturn: windows.reduce((sum, w) => sum + w.inSample.totalReturn, 0) / windows.length,
+        outOfSampleReturn: windows.reduce((equity, w) => equity * (1 + w.outOfSample.totalReturn), 1) - 1,
+        profitableWindows: windows.filter(w => w.outOfSample.totalReturn > 0).length / windows.length,
+        metadata: {
+          startTime,
+          endTime,
+          duration: endTime.getTime() - startTime.getTime(),
+          algorithm: optimizationConfig.algorithm,
+          totalEvaluations,
+          successRate: totalEvaluations > 0 ? (totalEvaluations - failedEvaluations) / totalEvaluations : 0
         }
       };
+
+    } catch (error) {
+      console.error('Walk-forward optimization failed:', error);
+      const endTime = new Date();
+
+      return {
+        success: false,
+        mode: walkForward?.mode || 'rolling',
+        windows,
+        efficiency: 0,
+        inSampleReturn: 0,
+        outOfSampleReturn: 0,
+        profitableWindows: 0,
+        metadata: {
+          startTime,
+          endTime,
+          duration: endTime.getTime() - startTime.getTime(),
+          algorithm: optimizationConfig.algorithm,
+          totalEvaluations,
+          successRate: 0
+        },
+        error: error instanceof Error ? error.message : 'Unknown optimization error'
+      };
     }
   }
 
   /**
-   * Optimize parameters for a specific market condition
+   * Problems with caller-supplied constraints. Each must name a parameter the
+   * strategy exposes for optimization and describe a finite, stepped range
+   * or a non-empty list of values.
    */
-  private async optimizeForMarketCondition(
+  validateConstraints(nodes: BuilderNode[], edges: BuilderEdge[], constraints: ParameterConstraint[]): string[] {
+    const optimizable = this.generateParameterConstraints(this.extractOptimizableNodes(nodes, edges), nodes, edges);
+    const errors: string[] = [];
+
+    constraints.forEach((constraint, index) => {
+      const label = `constraints[${index}]`;
+      if (!optimizable.some(c => c.nodeId === constraint?.nodeId && c.parameter === constraint?.parameter)) {
+        errors.push(`${label}: ${constraint?.nodeId}.${constraint?.parameter} is not an optimizable parameter of this strategy`);
+        return;
+      }
+
+      if (constraint.validValues !== undefined) {
+        if (!Array.isArray(constraint.validValues) || constraint.validValues.length === 0 ||
+          constraint.validValues.length > MAX_GRID_POINTS_PER_AXIS) {
+          errors.push(`${label}: validValues must be an array of 1 to ${MAX_GRID_POINTS_PER_AXIS} values`);
+        }
+        return;
+      }
+
+      const { minValue, maxValue, stepSize } = constraint;
+      if (typeof minValue !== 'number' || typeof maxValue !== 'number' ||
+        !Number.isFinite(minValue) || !Number.isFinite(maxValue) || !(minValue < maxValue)) {
+        errors.push(`${label}: minValue and maxValue must be finite numbers with minValue < maxValue`);
+      } else if (typeof stepSize !== 'number' || !Number.isFinite(stepSize) || !(stepSize > 0)) {
+        errors.push(`${label}: stepSize must be a positive number`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Robustness of the strategy as configured: Monte Carlo over its trade
+   * list, and a one-at-a-time ±N% jitter of every optimizable parameter.
+   * Parameters whose score falls sharply under small changes are fragile.
+   */
+  async analyzeRobustness(
     nodes: BuilderNode[],
-    marketCondition: MarketCondition,
-    config: ParameterOptimizationConfig
-  ): Promise<OptimizedParameterSet> {
-    
+    edges: BuilderEdge[],
+    bars: OHLCVBar[],
+    config: Partial<ParameterOptimizationConfig> = {},
+    options: RobustnessOptions = {}
+  ): Promise<RobustnessReport> {
+    const optimizationConfig = { ...this.DEFAULT_CONFIG, ...config };
+    const jitterPercent = options.jitterPercent ?? 20;
+    const jitterSteps = Math.max(1, Math.floor(options.jitterSteps ?? 2));
+    const fragilityThreshold = options.fragilityThreshold ?? 0.25;
+    const jitterLevels = Array.from({ length: jitterSteps * 2 + 1 }, (_, i) =>
+      Number((((i - jitterSteps) / jitterSteps) * jitterPercent).toFixed(4))
+    );
+
+    try {
+      if (bars.length === 0) {
+        throw new Error('An OHLCV dataset is required to analyze robustness');
+      }
+      if (!(jitterPercent > 0 && jitterPercent < 100)) {
+        throw new Error('Jitter must be between 0 and 100 percent');
+      }
+
+      const constraints = this.resolveConstraints(nodes, edges, optimizationConfig.constraints)
+        .filter(constraint => !constraint.validValues);
+      const baseParameters = this.getCurrentParameters(nodes, constraints);
+      const context = this.createContext(nodes, edges, bars, optimizationConfig);
+
+      const base = await this.evaluateParameters(baseParameters, context);
+      if (!base.results) {
+        throw new Error('The strategy could not be backtested with its current parameters');
+      }
+
+      const run = runBacktest(
+        nodes as unknown as CustomNode[],
+        edges as unknown as CustomEdge[],
+        bars,
+        context.backtestConfig
+      );
+      const monteCarlo = run.trades.length > 0
+        ? runMonteCarlo(run.trades, {
+            initialCapital: context.backtestConfig.initialCapital ?? DEFAULT_BACKTEST_CONFIG.initialCapital,
+            seed: optimizationConfig.seed,
+            ...options.monteCarlo
+          })
+        : null;
+
+      const rows: ParameterSensitivity[] = [];
+      for (const constraint of constraints) {
+        const baseValue = baseParameters[constraint.nodeId]?.[constraint.parameter];
+        if (typeof baseValue !== 'number') continue;
+
+        const cells: SensitivityCell[] = [];
+        for (const level of jitterLevels) {
+          const value = level === 0
+            ? baseValue
+            : this.snapToConstraint(baseValue * (1 + level / 100), constraint);
+          const parameters = this.cloneParameters(baseParameters);
+          parameters[constraint.nodeId][constraint.parameter] = value;
+
+          const evaluation = await this.evaluateParameters(parameters, context);
+          const valid = evaluation.results !== null;
+          const score = valid ? evaluation.score : 0;
+
+          cells.push({
+            jitterPercent: level,
+            value,
+            valid,
+            score,
+            scoreChange: this.relativeChange(base.score, score) / 100,
+            totalReturn: evaluation.results?.totalReturn ?? 0,
+            maxDrawdown: evaluation.results?.maxDrawdown ?? 0,
+            totalTrades: evaluation.results?.totalTrades ?? 0
+          });
+        }
+
+        const scoreDrop = Math.max(0, ...cells.map(cell => (cell.valid ? -cell.scoreChange : 1)));
+        rows.push({
+          nodeId: constraint.nodeId,
+          parameter: constraint.parameter,
+          baseValue,
+          cells,
+          scoreDrop,
+          fragile: scoreDrop > fragilityThreshold
+        });
+      }
+
+      const jittered = rows.flatMap(row => row.cells.filter(cell => cell.jitterPercent !== 0));
+      const stable = jittered.filter(cell => cell.valid && -cell.scoreChange <= fragilityThreshold);
+
+      return {
+        success: true,
+        baseScore: base.score,
+        baseResults: base.results,
+        monteCarlo,
+        sensitivity: {
+          jitterLevels,
+          rows,
+          fragileParameters: rows.filter(row => row.fragile).map(row => `${row.nodeId}.${row.parameter}`)
+        },
+        robustnessScore: jittered.length > 0 && base.results.totalTrades > 0 ? stable.length / jittered.length : 0
+      };
+
+    } catch (error) {
+      console.error('Robustness analysis failed:', error);
+
+      return {
+        success: false,
+        baseScore: 0,
+        baseResults: this.createEmptyBacktestComparison().original,
+        monteCarlo: null,
+        sensitivity: { jitterLevels, rows: [], fragileParameters: [] },
+        robustnessScore: 0,
+        error: error instanceof Error ? error.message : 'Unknown robustness error'
+      };
+    }
+  }
+
+  /**
+   * Dispatch to the configured search algorithm
+   */
+  private async runSearch(
+    nodes: BuilderNode[],
+    config: ParameterOptimizationConfig,
+    context: EvaluationContext
+  ): Promise<{ bestParameters: ParameterValues; bestScore: number }> {
+
     switch (config.algorithm) {
       case OptimizationAlgorithm.GRID_SEARCH:
-        return this.gridSearchOptimization(nodes, marketCondition, config);
-      
+        return this.gridSearchOptimization(config, context);
+
       case OptimizationAlgorithm.RANDOM_SEARCH:
-        return this.randomSearchOptimization(nodes, marketCondition, config);
-      
+        return this.randomSearchOptimization(config, context);
+
       case OptimizationAlgorithm.GENETIC_ALGORITHM:
-        return this.geneticAlgorithmOptimization(nodes, marketCondition, config);
-      
+        return this.geneticAlgorithmOptimization(config, context);
+
       case OptimizationAlgorithm.BAYESIAN_OPTIMIZATION:
-        return this.bayesianOptimization(nodes, marketCondition, config);
-      
+        return this.bayesianOptimization(config, context);
+
       case OptimizationAlgorithm.PARTICLE_SWARM:
-        return this.particleSwarmOptimization(nodes, marketCondition, config);
-      
+        return this.particleSwarmOptimization(nodes, config, context);
+
       default:
         throw new Error(`Unsupported optimization algorithm: ${config.algorithm}`);
     }
   }
 
   /**
-   * Grid search optimization implementation
+   * Grid search optimization implementation. When the grid is larger than
+   * the iteration budget, points are sampled at an even stride across it.
    */
   private async gridSearchOptimization(
-    nodes: BuilderNode[],
-    marketCondition: MarketCondition,
-    config: ParameterOptimizationConfig
-  ): Promise<OptimizedParameterSet> {
-    
-    const optimizedParameters: Record<string, OptimizationParameter> = {};
+    config: ParameterOptimizationConfig,
+    context: EvaluationContext
+  ): Promise<{ bestParameters: ParameterValues; bestScore: number }> {
+
     let bestScore = -Infinity;
-    let bestParameters: Record<string, unknown> = {};
+    let bestParameters: ParameterValues = {};
 
     // Generate parameter grid
-    const parameterGrid = this.generateParameterGrid(nodes, config.constraints);
-    const totalCombinations = this.calculateGridSize(parameterGrid);
+    const axes = this.generateParameterGrid(config.constraints);
+    const totalCombinations = this.calculateGridSize(axes);
     const maxEvaluations = Math.min(config.maxIterations, totalCombinations);
+    const stride = totalCombinations / maxEvaluations;
 
     // Evaluate parameter combinations
     for (let i = 0; i < maxEvaluations; i++) {
-      const parameters = this.getGridPoint(parameterGrid, i);
-      const score = await this.evaluateParameters(parameters, marketCondition, config.objectives);
-      
+      const parameters = this.getGridPoint(axes, Math.floor(i * stride));
+      const { score } = await this.evaluateParameters(parameters, context);
+
       if (score > bestScore) {
         bestScore = score;
-        bestParameters = { ...parameters };
+        bestParameters = this.cloneParameters(parameters);
       }
+      this.recordIteration(context);
     }
 
-    // Convert best parameters to optimization format
-    for (const [nodeId, nodeParams] of Object.entries(bestParameters)) {
-      for (const [paramName, value] of Object.entries(nodeParams as Record<string, unknown>)) {
-        const originalNode = nodes.find(n => n.id === nodeId);
-        const originalValue = originalNode?.data.config?.parameters?.[paramName];
-        
-        optimizedParameters[`${nodeId}.${paramName}`] = {
-          currentValue: originalValue,
-          suggestedValue: value,
-          confidence: 0.8, // Grid search has high confidence
-          reasoning: `Optimized through grid search for ${marketCondition} market conditions`
-        };
-      }
-    }
-
-    return {
-      nodeId: 'strategy', // Represents the entire strategy
-      parameters: optimizedParameters,
-      confidence: 0.8,
-      marketCondition,
-      expectedImprovement: this.calculateExpectedImprovement(bestScore)
-    };
+    return { bestParameters, bestScore };
   }
 
   /**
    * Random search optimization implementation
    */
   private async randomSearchOptimization(
-    nodes: BuilderNode[],
-    marketCondition: MarketCondition,
-    config: ParameterOptimizationConfig
-  ): Promise<OptimizedParameterSet> {
-    
-    const optimizedParameters: Record<string, OptimizationParameter> = {};
+    config: ParameterOptimizationConfig,
+    context: EvaluationContext
+  ): Promise<{ bestParameters: ParameterValues; bestScore: number }> {
+
     let bestScore = -Infinity;
-    let bestParameters: Record<string, unknown> = {};
+    let bestParameters: ParameterValues = {};
 
     // Random search iterations
     for (let i = 0; i < config.maxIterations; i++) {
-      const parameters = this.generateRandomParameters(nodes, config.constraints);
-      const score = await this.evaluateParameters(parameters, marketCondition, config.objectives);
-      
+      const parameters = this.generateRandomParameters(config.constraints);
+      const { score } = await this.evaluateParameters(parameters, context);
+
       if (score > bestScore) {
         bestScore = score;
-        bestParameters = { ...parameters };
+        bestParameters = this.cloneParameters(parameters);
       }
+      this.recordIteration(context);
     }
 
-    // Convert best parameters to optimization format
-    for (const [nodeId, nodeParams] of Object.entries(bestParameters)) {
-      for (const [paramName, value] of Object.entries(nodeParams as Record<string, unknown>)) {
-        const originalNode = nodes.find(n => n.id === nodeId);
-        const originalValue = originalNode?.data.config?.parameters?.[paramName];
-        
-        optimizedParameters[`${nodeId}.${paramName}`] = {
-          currentValue: originalValue,
-          suggestedValue: value,
-          confidence: 0.7, // Random search has moderate confidence
-          reasoning: `Optimized through random search for ${marketCondition} market conditions`
-        };
-      }
-    }
-
-    return {
-      nodeId: 'strategy',
-      parameters: optimizedParameters,
-      confidence: 0.7,
-      marketCondition,
-      expectedImprovement: this.calculateExpectedImprovement(bestScore)
-    };
+    return { bestParameters, bestScore };
   }
 
   /**
    * Genetic algorithm optimization implementation
    */
   private async geneticAlgorithmOptimization(
-    nodes: BuilderNode[],
-    marketCondition: MarketCondition,
-    config: ParameterOptimizationConfig
-  ): Promise<OptimizedParameterSet> {
-    
-    const populationSize = 50;
+    config: ParameterOptimizationConfig,
+    context: EvaluationContext
+  ): Promise<{ bestParameters: ParameterValues; bestScore: number }> {
+
+    const populationSize = Math.max(4, Math.min(50, config.maxIterations));
     const mutationRate = 0.1;
     const crossoverRate = 0.8;
-    const eliteSize = 5;
+    const eliteSize = Math.max(1, Math.floor(populationSize / 10));
 
     // Initialize population
-    let population = Array.from({ length: populationSize }, () => 
-      this.generateRandomParameters(nodes, config.constraints)
+    let population = Array.from({ length: populationSize }, () =>
+      this.generateRandomParameters(config.constraints)
     );
 
     let bestScore = -Infinity;
-    let bestParameters: Record<string, unknown> = {};
+    let bestParameters: ParameterValues = {};
 
     // Evolution loop
-    const generations = Math.floor(config.maxIterations / populationSize);
+    const generations = Math.max(1, Math.floor(config.maxIterations / populationSize));
     for (let gen = 0; gen < generations; gen++) {
       // Evaluate population
-      const scores = await Promise.all(
-        population.map(params => this.evaluateParameters(params, marketCondition, config.objectives))
-      );
+      const scores: number[] = [];
+      for (const params of population) {
+        scores.push((await this.evaluateParameters(params, context)).score);
+      }
 
       // Find best individual
       const bestIndex = scores.indexOf(Math.max(...scores));
       if (scores[bestIndex] > bestScore) {
         bestScore = scores[bestIndex];
-        bestParameters = { ...population[bestIndex] };
+        bestParameters = this.cloneParameters(population[bestIndex]);
       }
+      this.recordIteration(context);
 
       // Selection and reproduction
-      const newPopulation = [];
-      
+      const newPopulation: ParameterValues[] = [];
+
       // Keep elite individuals
       const sortedIndices = scores
         .map((score, index) => ({ score, index }))
         .sort((a, b) => b.score - a.score)
         .slice(0, eliteSize)
         .map(item => item.index);
-      
+
       for (const index of sortedIndices) {
-        newPopulation.push({ ...population[index] });
+        newPopulation.push(this.cloneParameters(population[index]));
       }
 
       // Generate offspring
       while (newPopulation.length < populationSize) {
         const parent1 = this.tournamentSelection(population, scores);
         const parent2 = this.tournamentSelection(population, scores);
-        
-        let offspring = Math.random() < crossoverRate 
+
+        let offspring = this.random() < crossoverRate
           ? this.crossover(parent1, parent2)
-          : { ...parent1 };
-        
-        if (Math.random() < mutationRate) {
+          : this.cloneParameters(parent1);
+
+        if (this.random() < mutationRate) {
           offspring = this.mutate(offspring, config.constraints);
         }
-        
+
         newPopulation.push(offspring);
       }
 
       population = newPopulation;
     }
 
-    // Convert best parameters to optimization format
-    const optimizedParameters: Record<string, OptimizationParameter> = {};
-    for (const [nodeId, nodeParams] of Object.entries(bestParameters)) {
-      for (const [paramName, value] of Object.entries(nodeParams as Record<string, unknown>)) {
-        const originalNode = nodes.find(n => n.id === nodeId);
-        const originalValue = originalNode?.data.config?.parameters?.[paramName];
-        
-        optimizedParameters[`${nodeId}.${paramName}`] = {
-          currentValue: originalValue,
-          suggestedValue: value,
-          confidence: 0.85, // Genetic algorithm has high confidence
-          reasoning: `Optimized through genetic algorithm for ${marketCondition} market conditions`
-        };
-      }
-    }
-
-    return {
-      nodeId: 'strategy',
-      parameters: optimizedParameters,
-      confidence: 0.85,
-      marketCondition,
-      expectedImprovement: this.calculateExpectedImprovement(bestScore)
-    };
+    return { bestParameters, bestScore };
   }
 
   /**
    * Bayesian optimization implementation (simplified)
    */
   private async bayesianOptimization(
-    nodes: BuilderNode[],
-    marketCondition: MarketCondition,
-    config: ParameterOptimizationConfig
-  ): Promise<OptimizedParameterSet> {
-    
+    config: ParameterOptimizationConfig,
+    context: EvaluationContext
+  ): Promise<{ bestParameters: ParameterValues; bestScore: number }> {
+
     // Simplified Bayesian optimization using random sampling with exploitation/exploration
-    const optimizedParameters: Record<string, OptimizationParameter> = {};
     let bestScore = -Infinity;
-    let bestParameters: Record<string, unknown> = {};
-    const evaluationHistory: Array<{ params: Record<string, unknown>; score: number }> = [];
+    let bestParameters: ParameterValues = {};
+    const evaluationHistory: Array<{ params: ParameterValues; score: number }> = [];
 
     // Initial random exploration
-    const explorationPhase = Math.floor(config.maxIterations * 0.3);
+    const explorationPhase = Math.max(1, Math.floor(config.maxIterations * 0.3));
     for (let i = 0; i < explorationPhase; i++) {
-      const parameters = this.generateRandomParameters(nodes, config.constraints);
-      const score = await this.evaluateParameters(parameters, marketCondition, config.objectives);
-      
+      const parameters = this.generateRandomParameters(config.constraints);
+      const { score } = await this.evaluateParameters(parameters, context);
+
       evaluationHistory.push({ params: parameters, score });
-      
+
       if (score > bestScore) {
         bestScore = score;
-        bestParameters = { ...parameters };
+        bestParameters = this.cloneParameters(parameters);
       }
+      this.recordIteration(context);
     }
 
     // Exploitation phase with guided search
@@ -529,38 +967,18 @@ export class ParameterOptimizer {
     for (let i = 0; i < exploitationPhase; i++) {
       // Generate parameters based on best performers
       const parameters = this.generateGuidedParameters(evaluationHistory, config.constraints);
-      const score = await this.evaluateParameters(parameters, marketCondition, config.objectives);
-      
+      const { score } = await this.evaluateParameters(parameters, context);
+
       evaluationHistory.push({ params: parameters, score });
-      
+
       if (score > bestScore) {
         bestScore = score;
-        bestParameters = { ...parameters };
+        bestParameters = this.cloneParameters(parameters);
       }
+      this.recordIteration(context);
     }
 
-    // Convert best parameters to optimization format
-    for (const [nodeId, nodeParams] of Object.entries(bestParameters)) {
-      for (const [paramName, value] of Object.entries(nodeParams as Record<string, unknown>)) {
-        const originalNode = nodes.find(n => n.id === nodeId);
-        const originalValue = originalNode?.data.config?.parameters?.[paramName];
-        
-        optimizedParameters[`${nodeId}.${paramName}`] = {
-          currentValue: originalValue,
-          suggestedValue: value,
-          confidence: 0.9, // Bayesian optimization has very high confidence
-          reasoning: `Optimized through Bayesian optimization for ${marketCondition} market conditions`
-        };
-      }
-    }
-
-    return {
-      nodeId: 'strategy',
-      parameters: optimizedParameters,
-      confidence: 0.9,
-      marketCondition,
-      expectedImprovement: this.calculateExpectedImprovement(bestScore)
-    };
+    return { bestParameters, bestScore };
   }
 
   /**
@@ -568,49 +986,49 @@ export class ParameterOptimizer {
    */
   private async particleSwarmOptimization(
     nodes: BuilderNode[],
-    marketCondition: MarketCondition,
-    config: ParameterOptimizationConfig
-  ): Promise<OptimizedParameterSet> {
-    
-    const swarmSize = 30;
+    config: ParameterOptimizationConfig,
+    context: EvaluationContext
+  ): Promise<{ bestParameters: ParameterValues; bestScore: number }> {
+
+    const swarmSize = Math.max(4, Math.min(30, config.maxIterations));
     const w = 0.7; // Inertia weight
     const c1 = 1.5; // Cognitive parameter
     const c2 = 1.5; // Social parameter
 
     // Initialize swarm
-    const particles = Array.from({ length: swarmSize }, () => ({
-      position: this.generateRandomParameters(nodes, config.constraints),
-      velocity: this.generateZeroVelocity(nodes),
-      bestPosition: {} as Record<string, unknown>,
-      bestScore: -Infinity
-    }));
-
-    let globalBestPosition: Record<string, unknown> = {};
+    const particles = Array.from({ length: swarmSize }, () => {
+      const position = this.generateRandomParameters(config.constraints);
+      return {
+        position,
+        velocity: this.generateZeroVelocity(config.constraints),
+        bestPosition: this.cloneParameters(position),
+        bestScore: -Infinity
+      };
+    });
+
+    let globalBestPosition: ParameterValues = this.cloneParameters(particles[0].position);
     let globalBestScore = -Infinity;
 
     // PSO iterations
-    const iterations = Math.floor(config.maxIterations / swarmSize);
+    const iterations = Math.max(1, Math.floor(config.maxIterations / swarmSize));
     for (let iter = 0; iter < iterations; iter++) {
       // Evaluate particles
       for (const particle of particles) {
-        const score = await this.evaluateParameters(
-          particle.position, 
-          marketCondition, 
-          config.objectives
-        );
-        
+        const { score } = await this.evaluateParameters(particle.position, context);
+
         // Update personal best
         if (score > particle.bestScore) {
           particle.bestScore = score;
-          particle.bestPosition = { ...particle.position };
+          particle.bestPosition = this.cloneParameters(particle.position);
         }
-        
+
         // Update global best
         if (score > globalBestScore) {
           globalBestScore = score;
-          globalBestPosition = { ...particle.position };
+          globalBestPosition = this.cloneParameters(particle.position);
         }
       }
+      this.recordIteration(context);
 
       // Update velocities and positions
       for (const particle of particles) {
@@ -619,114 +1037,200 @@ export class ParameterOptimizer {
       }
     }
 
-    // Convert best parameters to optimization format
-    const optimizedParameters: Record<string, OptimizationParameter> = {};
-    for (const [nodeId, nodeParams] of Object.entries(globalBestPosition)) {
-      for (const [paramName, value] of Object.entries(nodeParams as Record<string, unknown>)) {
-        const originalNode = nodes.find(n => n.id === nodeId);
-        const originalValue = originalNode?.data.config?.parameters?.[paramName];
-        
-        optimizedParameters[`${nodeId}.${paramName}`] = {
-          currentValue: originalValue,
-          suggestedValue: value,
-          confidence: 0.8, // PSO has high confidence
-          reasoning: `Optimized through particle swarm optimization for ${marketCondition} market conditions`
-        };
-      }
-    }
+    return { bestParameters: globalBestPosition, bestScore: globalBestScore };
+  }
+
+  // Helper methods
 
+  private createContext(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    bars: OHLCVBar[],
+    config: ParameterOptimizationConfig
+  ): EvaluationContext {
     return {
-      nodeId: 'strategy',
-      parameters: optimizedParameters,
-      confidence: 0.8,
-      marketCondition,
-      expectedImprovement: this.calculateExpectedImprovement(globalBestScore)
+      nodes,
+      edges,
+      bars,
+      objectives: config.objectives,
+      backtestConfig: config.backtestConfig || {},
+      cache: new Map(),
+      history: [],
+      bestScore: -Infinity,
+      evaluations: 0,
+      failedEvaluations: 0
     };
   }
 
-  // Helper methods
+  /**
+   * Search each requested regime separately. Entries are masked to the
+   * regime's bars, while exits still run wherever the trade is held.
+   */
+  private async optimizeRegimes(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    bars: OHLCVBar[],
+    config: ParameterOptimizationConfig,
+    classifier: MarketRegimeClassifier,
+    classification: RegimeClassification,
+    originalParameters: ParameterValues
+  ): Promise<{ parameterSets: OptimizedParameterSet[]; evaluations: number; failedEvaluations: number }> {
+    const parameterSets: OptimizedParameterSet[] = [];
+    let evaluations = 0;
+    let failedEvaluations = 0;
+
+    for (const condition of config.marketConditions) {
+      if ((classification.coverage[condition] || 0) < MIN_REGIME_COVERAGE) continue;
+
+      const context = this.createContext(nodes, edges, bars, {
+        ...config,
+        backtestConfig: { ...config.backtestConfig, entryMask: classifier.mask(classification, condition) }
+      });
+
+      const original = await this.evaluateParameters(originalParameters, context);
+      context.history = [];
+      context.bestScore = -Infinity;
+
+      const search = await this.runSearch(nodes, config, context);
+      const optimized = await this.evaluateParameters(search.bestParameters, context);
+      evaluations += context.evaluations;
+      failedEvaluations += context.failedEvaluations;
+
+      if (!original.results || !optimized.results) continue;
+
+      const improved = optimized.score > original.score + config.convergenceThreshold;
+      parameterSets.push(this.buildParameterSet(
+        nodes,
+        improved ? search.bestParameters : originalParameters,
+        config.algorithm,
+        improved ? optimized.results : original.results,
+        improved ? (optimized.score - original.score) * 100 : 0,
+        condition
+      ));
+    }
+
+    return { parameterSets, evaluations, failedEvaluations };
+  }
+
+  // Caller-supplied constraints take precedence over the generated defaults
+  private resolveConstraints(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    userConstraints: ParameterConstraint[]
+  ): ParameterConstraint[] {
+    const optimizableNodes = this.extractOptimizableNodes(nodes, edges);
+    if (optimizableNodes.length === 0) {
+      throw new Error('No optimizable parameters found in the strategy');
+    }
+
+    const errors = this.validateConstraints(nodes, edges, userConstraints);
+    if (errors.length > 0) {
+      throw new Error(`Invalid constraints: ${errors.join('; ')}`);
+    }
+
+    const generated = this.generateParameterConstraints(optimizableNodes, nodes, edges).filter(constraint =>
+      !userConstraints.some(c => c.nodeId === constraint.nodeId && c.parameter === constraint.parameter)
+    );
+    return [...userConstraints, ...generated];
+  }
 
-  private extractOptimizableNodes(nodes: BuilderNode[]): BuilderNode[] {
+  private planWalkForwardWindows(
+    barCount: number,
+    config: WalkForwardConfig
+  ): Array<{ trainStart: number; testStart: number; testEnd: number }> {
+    const trainBars = Math.floor(config.trainBars);
+    const testBars = Math.floor(config.testBars);
+    const stepBars = Math.floor(config.stepBars ?? testBars);
+
+    if (!(trainBars > 0) || !(testBars > 0) || !(stepBars > 0)) {
+      throw new Error('Walk-forward train, test and step lengths must be positive');
+    }
+
+    const windows: Array<{ trainStart: number; testStart: number; testEnd: number }> = [];
+    for (let testStart = trainBars; testStart + testBars <= barCount; testStart += stepBars) {
+      windows.push({
+        trainStart: config.mode === 'anchored' ? 0 : testStart - trainBars,
+        testStart,
+        testEnd: testStart + testBars
+      });
+    }
+
+    if (windows.length === 0) {
+      throw new Error(`Dataset has ${barCount} bars; walk-forward needs at least ${trainBars + testBars}`);
+    }
+    return windows;
+  }
+
+  // Ratio of out-of-sample to in-sample return per bar; 0 when in-sample did not profit
+  private walkForwardEfficiency(inSampleRates: number[], outOfSampleRates: number[]): number {
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const inSample = mean(inSampleRates);
+    return inSample > 0 ? mean(outOfSampleRates) / inSample : 0;
+  }
+
+  private extractOptimizableNodes(nodes: BuilderNode[], edges: BuilderEdge[]): BuilderNode[] {
     return nodes.filter(node => {
-      const config = node.data.config;
-      return config && 
-             config.parameters && 
-             Object.keys(config.parameters).length > 0 &&
-             (node.data.type === 'indicator' || 
-              node.data.type === 'condition' || 
-              node.data.type === 'risk');
+      const config = node.data.config as Record<string, any> | undefined;
+      if (!config) return false;
+
+      switch (node.data.type) {
+        case 'indicator':
+          return !!config.parameters && Object.keys(config.parameters).length > 0;
+        case 'condition':
+          return typeof config.threshold === 'number' && this.isBoundedCondition(node, nodes, edges);
+        case 'risk':
+          return Object.keys(RISK_PARAMETER_RANGES).some(key => typeof config[key] === 'number');
+        default:
+          return false;
+      }
     });
   }
 
-  private generateParameterConstraints(nodes: BuilderNode[]): ParameterConstraint[] {
+  private generateParameterConstraints(
+    optimizableNodes: BuilderNode[],
+    nodes: BuilderNode[],
+    edges: BuilderEdge[]
+  ): ParameterConstraint[] {
     const constraints: ParameterConstraint[] = [];
 
-    for (const node of nodes) {
-      if (node.data.config?.parameters) {
-        const params = node.data.config.parameters as Record<string, unknown>;
-        
-        // RSI constraints
-        if (node.data.config.indicatorId === 'rsi') {
-          if ('period' in params) {
-            constraints.push({
-              nodeId: node.id,
-              parameter: 'period',
-              minValue: 2,
-              maxValue: 50,
-              stepSize: 1
-            });
-          }
-          if ('overbought' in params) {
-            constraints.push({
-              nodeId: node.id,
-              parameter: 'overbought',
-              minValue: 60,
-              maxValue: 90,
-              stepSize: 5
-            });
-          }
-          if ('oversold' in params) {
-            constraints.push({
-              nodeId: node.id,
-              parameter: 'oversold',
-              minValue: 10,
-              maxValue: 40,
-              stepSize: 5
-            });
-          }
-        }
+    for (const node of optimizableNodes) {
+      const config = node.data.config as Record<string, any>;
 
-        // SMA constraints
-        if (node.data.config.indicatorId === 'sma') {
-          if ('period' in params) {
+      if (node.data.type === 'indicator') {
+        const params = config.parameters as Record<string, unknown>;
+        for (const range of INDICATOR_PARAMETER_RANGES[config.indicatorId as string] || []) {
+          const parameter = range.names.find(name => name in params);
+          if (parameter) {
             constraints.push({
               nodeId: node.id,
-              parameter: 'period',
-              minValue: 5,
-              maxValue: 200,
-              stepSize: 5
+              parameter,
+              minValue: range.min,
+              maxValue: range.max,
+              stepSize: range.step
             });
           }
         }
+      }
 
-        // MACD constraints
-        if (node.data.config.indicatorId === 'macd') {
-          if ('fastPeriod' in params) {
-            constraints.push({
-              nodeId: node.id,
-              parameter: 'fastPeriod',
-              minValue: 5,
-              maxValue: 20,
-              stepSize: 1
-            });
-          }
-          if ('slowPeriod' in params) {
+      if (node.data.type === 'condition' && this.isBoundedCondition(node, nodes, edges)) {
+        constraints.push({
+          nodeId: node.id,
+          parameter: 'threshold',
+          minValue: THRESHOLD_RANGE.min,
+          maxValue: THRESHOLD_RANGE.max,
+          stepSize: THRESHOLD_RANGE.step
+        });
+      }
+
+      if (node.data.type === 'risk') {
+        for (const [parameter, range] of Object.entries(RISK_PARAMETER_RANGES)) {
+          if (typeof config[parameter] === 'number') {
             constraints.push({
               nodeId: node.id,
-              parameter: 'slowPeriod',
-              minValue: 15,
-              maxValue: 50,
-              stepSize: 1
+              parameter,
+              minValue: range.min,
+              maxValue: range.max,
+              stepSize: range.step
             });
           }
         }
@@ -736,23 +1240,72 @@ export class ParameterOptimizer {
     return constraints;
   }
 
+  private isBoundedCondition(node: BuilderNode, nodes: BuilderNode[], edges: BuilderEdge[]): boolean {
+    return edges
+      .filter(edge => edge.target === node.id)
+      .some(edge => {
+        const source = nodes.find(n => n.id === edge.source);
+        const indicatorId = (source?.data.config as Record<string, unknown> | undefined)?.indicatorId;
+        return source?.data.type === 'indicator' && BOUNDED_INDICATORS.includes(indicatorId as string);
+      });
+  }
+
+  /**
+   * Backtest a candidate and turn its metrics into a weighted objective score
+   */
   private async evaluateParameters(
-    parameters: Record<string, unknown>,
-    marketCondition: MarketCondition,
-    objectives: OptimizationObjective[]
-  ): Promise<number> {
-    // Simulate backtesting with the given parameters
-    const backtestResults = await this.simulateBacktest(parameters, marketCondition);
-    
+    parameters: ParameterValues,
+    context: EvaluationContext
+  ): Promise<{ score: number; results: BacktestResults | null }> {
+    const key = JSON.stringify(parameters);
+    const cached = context.cache.get(key);
+    if (cached) {
+      context.bestScore = Math.max(context.bestScore, cached.score);
+      return cached;
+    }
+
+    let evaluation: { score: number; results: BacktestResults | null };
+    context.evaluations++;
+
+    if (!this.isValidCandidate(context.nodes, parameters)) {
+      evaluation = { score: -Infinity, results: null };
+    } else {
+      try {
+        const nodes = this.applyParameters(context.nodes, parameters);
+        const run = runBacktest(
+          nodes as unknown as CustomNode[],
+          context.edges as unknown as CustomEdge[],
+          context.bars,
+          context.backtestConfig
+        );
+        const results = this.toBacktestResults(run.metrics);
+        evaluation = { score: this.scoreResults(results, context.objectives), results };
+      } catch (error) {
+        context.failedEvaluations++;
+        evaluation = { score: -Infinity, results: null };
+      }
+    }
+
+    context.cache.set(key, evaluation);
+    context.bestScore = Math.max(context.bestScore, evaluation.score);
+    return evaluation;
+  }
+
+  private scoreResults(results: BacktestResults, objectives: OptimizationObjective[]): number {
+    // A run that never trades carries no information about its parameters
+    if (results.totalTrades === 0) {
+      return 0;
+    }
+
     // Calculate weighted score based on objectives
     let totalScore = 0;
     let totalWeight = 0;
 
     for (const objective of objectives) {
-      const metricValue = this.getMetricValue(backtestResults, objective.metric);
+      const metricValue = this.getMetricValue(results, objective.metric);
       const normalizedValue = this.normalizeMetric(metricValue, objective.metric);
       const score = objective.target === 'maximize' ? normalizedValue : (1 - normalizedValue);
-      
+
       totalScore += score * objective.weight;
       totalWeight += objective.weight;
     }
@@ -760,148 +1313,91 @@ export class ParameterOptimizer {
     return totalWeight > 0 ? totalScore / totalWeight : 0;
   }
 
-  private async simulateBacktest(
-    parameters: Record<string, unknown>,
-    marketCondition: MarketCondition
-  ): Promise<BacktestResults> {
-    // Simplified backtesting simulation
-    // In a real implementation, this would run actual backtests
-    
-    const baseResults = this.getBaselineResults(marketCondition);
-    const parameterQuality = this.assessParameterQuality(parameters);
-    
-    // Adjust results based on parameter quality
-    const improvement = (parameterQuality - 0.5) * 0.4; // -0.2 to +0.2 improvement
-    
-    return {
-      totalReturn: baseResults.totalReturn * (1 + improvement),
-      sharpeRatio: baseResults.sharpeRatio * (1 + improvement * 0.5),
-      maxDrawdown: baseResults.maxDrawdown * (1 - improvement * 0.3),
-      winRate: Math.min(0.95, baseResults.winRate * (1 + improvement * 0.2)),
-      profitFactor: baseResults.profitFactor * (1 + improvement),
-      totalTrades: baseResults.totalTrades,
-      averageWin: baseResults.averageWin * (1 + improvement),
-      averageLoss: baseResults.averageLoss * (1 - improvement * 0.5),
-      largestWin: baseResults.largestWin * (1 + improvement),
-      largestLoss: baseResults.largestLoss * (1 - improvement * 0.3),
-      consecutiveWins: Math.round(baseResults.consecutiveWins * (1 + improvement * 0.1)),
-      consecutiveLosses: Math.round(baseResults.consecutiveLosses * (1 - improvement * 0.1))
-    };
+  // MACD needs its fast length below its slow length to mean anything
+  private isValidCandidate(nodes: BuilderNode[], parameters: ParameterValues): boolean {
+    for (const node of nodes) {
+      const config = node.data.config as Record<string, any> | undefined;
+      if (config?.indicatorId !== 'macd') continue;
+
+      const params = { ...(config.parameters || {}), ...(parameters[node.id] || {}) };
+      const fast = Number(params.fastlen ?? params.fastPeriod ?? params.fastLength ?? 12);
+      const slow = Number(params.slowlen ?? params.slowPeriod ?? params.slowLength ?? 26);
+      if (fast >= slow) return false;
+    }
+    return true;
   }
 
-  private getBaselineResults(marketCondition: MarketCondition): BacktestResults {
-    // Baseline results vary by market condition
-    const baselines: Record<MarketCondition, BacktestResults> = {
-      [MarketCondition.TRENDING]: {
-        totalReturn: 0.15,
-        sharpeRatio: 1.2,
-        maxDrawdown: 0.08,
-        winRate: 0.55,
-        profitFactor: 1.8,
-        totalTrades: 120,
-        averageWin: 0.025,
-        averageLoss: -0.015,
-        largestWin: 0.08,
-        largestLoss: -0.05,
-        consecutiveWins: 5,
-        consecutiveLosses: 3
-      },
-      [MarketCondition.RANGING]: {
-        totalReturn: 0.08,
-        sharpeRatio: 0.9,
-        maxDrawdown: 0.12,
-        winRate: 0.48,
-        profitFactor: 1.3,
-        totalTrades: 200,
-        averageWin: 0.015,
-        averageLoss: -0.018,
-        largestWin: 0.04,
-        largestLoss: -0.06,
-        consecutiveWins: 3,
-        consecutiveLosses: 4
-      },
-      [MarketCondition.VOLATILE]: {
-        totalReturn: 0.12,
-        sharpeRatio: 0.8,
-        maxDrawdown: 0.18,
-        winRate: 0.52,
-        profitFactor: 1.5,
-        totalTrades: 150,
-        averageWin: 0.035,
-        averageLoss: -0.025,
-        largestWin: 0.12,
-        largestLoss: -0.08,
-        consecutiveWins: 4,
-        consecutiveLosses: 5
-      },
-      [MarketCondition.LOW_VOLATILITY]: {
-        totalReturn: 0.06,
-        sharpeRatio: 1.1,
-        maxDrawdown: 0.05,
-        winRate: 0.58,
-        profitFactor: 1.4,
-        totalTrades: 80,
-        averageWin: 0.018,
-        averageLoss: -0.012,
-        largestWin: 0.03,
-        largestLoss: -0.025,
-        consecutiveWins: 6,
-        consecutiveLosses: 2
-      },
-      [MarketCondition.BULL_MARKET]: {
-        totalReturn: 0.25,
-        sharpeRatio: 1.5,
-        maxDrawdown: 0.06,
-        winRate: 0.62,
-        profitFactor: 2.2,
-        totalTrades: 100,
-        averageWin: 0.04,
-        averageLoss: -0.018,
-        largestWin: 0.15,
-        largestLoss: -0.04,
-        consecutiveWins: 7,
-        consecutiveLosses: 2
-      },
-      [MarketCondition.BEAR_MARKET]: {
-        totalReturn: -0.05,
-        sharpeRatio: 0.3,
-        maxDrawdown: 0.25,
-        winRate: 0.42,
-        profitFactor: 0.8,
-        totalTrades: 90,
-        averageWin: 0.02,
-        averageLoss: -0.03,
-        largestWin: 0.06,
-        largestLoss: -0.12,
-        consecutiveWins: 2,
-        consecutiveLosses: 6
+  /**
+   * Copy the graph with candidate values written into node configs. Indicator
+   * values live under config.parameters, thresholds and risk levels on config.
+   */
+  private applyParameters(nodes: BuilderNode[], parameters: ParameterValues): BuilderNode[] {
+    return nodes.map(node => {
+      const values = parameters[node.id];
+      if (!values) return node;
+
+      const config = { ...(node.data.config || {}) } as Record<string, any>;
+      if (node.data.type === 'indicator') {
+        config.parameters = { ...(config.parameters || {}), ...values };
+      } else {
+        Object.assign(config, values);
       }
-    };
 
-    return baselines[marketCondition];
+      return { ...node, data: { ...node.data, config } };
+    });
   }
 
-  private assessParameterQuality(parameters: Record<string, unknown>): number {
-    // Simplified parameter quality assessment
-    // Returns a value between 0 and 1
-    let qualityScore = 0.5; // Start with neutral
-    let parameterCount = 0;
-
-    for (const [nodeId, nodeParams] of Object.entries(parameters)) {
-      for (const [paramName, value] of Object.entries(nodeParams as Record<string, unknown>)) {
-        parameterCount++;
-        
-        // Simple heuristics for parameter quality
-        if (typeof value === 'number') {
-          // Prefer moderate values over extremes
-          const normalizedValue = Math.abs(value) / 100; // Rough normalization
-          const extremeness = Math.abs(normalizedValue - 0.5) * 2; // 0 = moderate, 1 = extreme
-          qualityScore += (1 - extremeness) * 0.1;
-        }
-      }
+  // Trades are not cached with evaluations, so report runs backtest again
+  private backtestTrades(parameters: ParameterValues, context: EvaluationContext): BacktestTrade[] {
+    try {
+      return runBacktest(
+        this.applyParameters(context.nodes, parameters) as unknown as CustomNode[],
+        context.edges as unknown as CustomEdge[],
+        context.bars,
+        context.backtestConfig
+      ).trades;
+    } catch (error) {
+      return [];
     }
+  }
+
+  private getCurrentParameters(nodes: BuilderNode[], constraints: ParameterConstraint[]): ParameterValues {
+    const parameters: ParameterValues = {};
+
+    for (const constraint of constraints) {
+      const value = this.readCurrentValue(nodes, constraint.nodeId, constraint.parameter);
+      if (value === undefined) continue;
+      parameters[constraint.nodeId] = parameters[constraint.nodeId] || {};
+      parameters[constraint.nodeId][constraint.parameter] = value;
+    }
+
+    return parameters;
+  }
+
+  private readCurrentValue(nodes: BuilderNode[], nodeId: string, parameter: string): unknown {
+    const node = nodes.find(n => n.id === nodeId);
+    const config = node?.data.config as Record<string, any> | undefined;
+    if (!config) return undefined;
+    return node?.data.type === 'indicator' ? config.parameters?.[parameter] : config[parameter];
+  }
 
-    return Math.max(0, Math.min(1, qualityScore));
+  private toBacktestResults(metrics: BacktestMetrics): BacktestResults {
+    return {
+      totalReturn: metrics.totalReturn,
+      sharpeRatio: metrics.sharpeRatio,
+      sortinoRatio: metrics.sortinoRatio,
+      calmarRatio: metrics.calmarRatio,
+      maxDrawdown: metrics.maxDrawdown,
+      winRate: metrics.winRate,
+      profitFactor: Math.min(metrics.profitFactor, MAX_PROFIT_FACTOR),
+      totalTrades: metrics.totalTrades,
+      averageWin: metrics.averageWin,
+      averageLoss: metrics.averageLoss,
+      largestWin: metrics.largestWin,
+      largestLoss: metrics.largestLoss,
+      consecutiveWins: metrics.consecutiveWins,
+      consecutiveLosses: metrics.consecutiveLosses
+    };
   }
 
   private getMetricValue(results: BacktestResults, metric: PerformanceMetric): number {
@@ -917,9 +1413,9 @@ export class ParameterOptimizer {
       case PerformanceMetric.PROFIT_FACTOR:
         return results.profitFactor;
       case PerformanceMetric.CALMAR_RATIO:
-        return results.totalReturn / Math.abs(results.maxDrawdown);
+        return results.calmarRatio;
       case PerformanceMetric.SORTINO_RATIO:
-        return results.sharpeRatio * 1.2; // Simplified approximation
+        return results.sortinoRatio;
       default:
         return 0;
     }
@@ -931,9 +1427,12 @@ export class ParameterOptimizer {
       case PerformanceMetric.TOTAL_RETURN:
         return Math.max(0, Math.min(1, (value + 0.5) / 1.0)); // -0.5 to 0.5 range
       case PerformanceMetric.SHARPE_RATIO:
+      case PerformanceMetric.SORTINO_RATIO:
+      case PerformanceMetric.CALMAR_RATIO:
         return Math.max(0, Math.min(1, value / 3.0)); // 0 to 3 range
       case PerformanceMetric.MAX_DRAWDOWN:
-        return Math.max(0, Math.min(1, 1 - (value / 0.5))); // 0 to 0.5 range (inverted)
+        // Drawdown is minimized, so report its raw share of the 0 to 0.5 range
+        return Math.max(0, Math.min(1, value / 0.5));
       case PerformanceMetric.WIN_RATE:
         return value; // Already 0-1
       case PerformanceMetric.PROFIT_FACTOR:
@@ -943,98 +1442,83 @@ export class ParameterOptimizer {
     }
   }
 
-  private generateParameterGrid(
-    nodes: BuilderNode[], 
-    constraints: ParameterConstraint[]
-  ): Record<string, unknown[]> {
-    const grid: Record<string, unknown[]> = {};
-
-    for (const constraint of constraints) {
+  private generateParameterGrid(constraints: ParameterConstraint[]): GridAxis[] {
+    return constraints.map(constraint => {
       const key = `${constraint.nodeId}.${constraint.parameter}`;
-      const values: unknown[] = [];
 
       if (constraint.validValues) {
-        values.push(...constraint.validValues);
-      } else {
-        const stepSize = constraint.stepSize || 1;
-        for (let val = constraint.minValue; val <= constraint.maxValue; val += stepSize) {
-          values.push(val);
-        }
+        const values = constraint.validValues;
+        return { key, size: values.length, valueAt: (index: number) => values[index] };
       }
 
-      grid[key] = values;
-    }
+      // Index-based so float steps do not accumulate rounding error
+      const stepSize = constraint.stepSize && constraint.stepSize > 0 ? constraint.stepSize : 1;
+      const points = Math.floor((constraint.maxValue - constraint.minValue) / stepSize + 1e-9) + 1;
+      const size = Math.max(1, Math.min(points, MAX_GRID_POINTS_PER_AXIS));
+      // Beyond the cap, every stride-th lattice point is used so the axis still spans the range
+      const stride = size > 1 ? (points - 1) / (size - 1) : 0;
 
-    return grid;
+      return {
+        key,
+        size,
+        valueAt: (index: number) =>
+          this.snapToConstraint(constraint.minValue + Math.round(index * stride) * stepSize, constraint)
+      };
+    });
   }
 
-  private calculateGridSize(grid: Record<string, unknown[]>): number {
-    return Object.values(grid).reduce((size, values) => size * values.length, 1);
+  private calculateGridSize(axes: GridAxis[]): number {
+    return axes.reduce((size, axis) => size * axis.size, 1);
   }
 
-  private getGridPoint(grid: Record<string, unknown[]>, index: number): Record<string, unknown> {
-    const parameters: Record<string, unknown> = {};
-    const keys = Object.keys(grid);
+  private getGridPoint(axes: GridAxis[], index: number): ParameterValues {
+    const parameters: ParameterValues = {};
     let currentIndex = index;
 
-    for (let i = keys.length - 1; i >= 0; i--) {
-      const key = keys[i];
-      const values = grid[key];
-      const valueIndex = currentIndex % values.length;
-      
-      const [nodeId, paramName] = key.split('.');
+    for (let i = axes.length - 1; i >= 0; i--) {
+      const axis = axes[i];
+      const valueIndex = currentIndex % axis.size;
+
+      const [nodeId, paramName] = this.splitKey(axis.key);
       if (!parameters[nodeId]) {
         parameters[nodeId] = {};
       }
-      (parameters[nodeId] as Record<string, unknown>)[paramName] = values[valueIndex];
-      
-      currentIndex = Math.floor(currentIndex / values.length);
+      parameters[nodeId][paramName] = axis.valueAt(valueIndex);
+
+      currentIndex = Math.floor(currentIndex / axis.size);
     }
 
     return parameters;
   }
 
-  private generateRandomParameters(
-    nodes: BuilderNode[], 
-    constraints: ParameterConstraint[]
-  ): Record<string, unknown> {
-    const parameters: Record<string, unknown> = {};
+  private generateRandomParameters(constraints: ParameterConstraint[]): ParameterValues {
+    const parameters: ParameterValues = {};
 
     for (const constraint of constraints) {
       if (!parameters[constraint.nodeId]) {
         parameters[constraint.nodeId] = {};
       }
-
-      let value: unknown;
-      if (constraint.validValues) {
-        value = constraint.validValues[Math.floor(Math.random() * constraint.validValues.length)];
-      } else {
-        value = constraint.minValue + Math.random() * (constraint.maxValue - constraint.minValue);
-        if (constraint.stepSize) {
-          value = Math.round(value / constraint.stepSize) * constraint.stepSize;
-        }
-      }
-
-      (parameters[constraint.nodeId] as Record<string, unknown>)[constraint.parameter] = value;
+      parameters[constraint.nodeId][constraint.parameter] = this.randomValue(constraint);
     }
 
     return parameters;
   }
 
   private generateGuidedParameters(
-    history: Array<{ params: Record<string, unknown>; score: number }>,
+    history: Array<{ params: ParameterValues; score: number }>,
     constraints: ParameterConstraint[]
-  ): Record<string, unknown> {
+  ): ParameterValues {
     // Generate parameters based on best performers in history
-    const topPerformers = history
+    const topPerformers = [...history]
+      .filter(entry => isFinite(entry.score))
       .sort((a, b) => b.score - a.score)
-      .slice(0, Math.min(5, Math.floor(history.length * 0.2)));
+      .slice(0, Math.max(1, Math.min(5, Math.floor(history.length * 0.2))));
 
     if (topPerformers.length === 0) {
-      return this.generateRandomParameters([], constraints);
+      return this.generateRandomParameters(constraints);
     }
 
-    const parameters: Record<string, unknown> = {};
+    const parameters: ParameterValues = {};
 
     for (const constraint of constraints) {
       if (!parameters[constraint.nodeId]) {
@@ -1043,108 +1527,81 @@ export class ParameterOptimizer {
 
       // Get values from top performers
       const values = topPerformers
-        .map(p => (p.params[constraint.nodeId] as Record<string, unknown>)?.[constraint.parameter])
-        .filter(v => v !== undefined) as number[];
+        .map(p => p.params[constraint.nodeId]?.[constraint.parameter])
+        .filter((v): v is number => typeof v === 'number');
 
       let value: unknown;
-      if (values.length > 0) {
-        // Use weighted average of top performers with some noise
-        const avgValue = values.reduce((sum, v) => sum + v, 0) / values.length;
-        const noise = (Math.random() - 0.5) * (constraint.maxValue - constraint.minValue) * 0.1;
-        value = Math.max(constraint.minValue, Math.min(constraint.maxValue, avgValue + noise));
-        
-        if (constraint.stepSize) {
-          value = Math.round(value / constraint.stepSize) * constraint.stepSize;
-        }
+      if (constraint.validValues || values.length === 0) {
+        value = this.randomValue(constraint);
       } else {
-        // Fallback to random
-        value = constraint.minValue + Math.random() * (constraint.maxValue - constraint.minValue);
-        if (constraint.stepSize) {
-          value = Math.round(value / constraint.stepSize) * constraint.stepSize;
-        }
+        // Average of top performers with some noise
+        const avgValue = values.reduce((sum, v) => sum + v, 0) / values.length;
+        const noise = (this.random() - 0.5) * (constraint.maxValue - constraint.minValue) * 0.1;
+        value = this.snapToConstraint(avgValue + noise, constraint);
       }
 
-      (parameters[constraint.nodeId] as Record<string, unknown>)[constraint.parameter] = value;
+      parameters[constraint.nodeId][constraint.parameter] = value;
     }
 
     return parameters;
   }
 
-  private generateZeroVelocity(nodes: BuilderNode[]): Record<string, unknown> {
-    const velocity: Record<string, unknown> = {};
-    
-    for (const node of nodes) {
-      if (node.data.config?.parameters) {
-        velocity[node.id] = {};
-        for (const paramName of Object.keys(node.data.config.parameters)) {
-          (velocity[node.id] as Record<string, unknown>)[paramName] = 0;
-        }
-      }
+  private generateZeroVelocity(constraints: ParameterConstraint[]): ParameterValues {
+    const velocity: ParameterValues = {};
+
+    for (const constraint of constraints) {
+      if (constraint.validValues) continue;
+      velocity[constraint.nodeId] = velocity[constraint.nodeId] || {};
+      velocity[constraint.nodeId][constraint.parameter] = 0;
     }
 
     return velocity;
   }
 
   private tournamentSelection(
-    population: Record<string, unknown>[], 
-    scores: number[], 
+    population: ParameterValues[],
+    scores: number[],
     tournamentSize: number = 3
-  ): Record<string, unknown> {
-    let bestIndex = Math.floor(Math.random() * population.length);
+  ): ParameterValues {
+    let bestIndex = Math.floor(this.random() * population.length);
     let bestScore = scores[bestIndex];
 
     for (let i = 1; i < tournamentSize; i++) {
-      const index = Math.floor(Math.random() * population.length);
+      const index = Math.floor(this.random() * population.length);
       if (scores[index] > bestScore) {
         bestIndex = index;
         bestScore = scores[index];
       }
     }
 
-    return { ...population[bestIndex] };
+    return this.cloneParameters(population[bestIndex]);
   }
 
-  private crossover(
-    parent1: Record<string, unknown>, 
-    parent2: Record<string, unknown>
-  ): Record<string, unknown> {
-    const offspring: Record<string, unknown> = {};
+  private crossover(parent1: ParameterValues, parent2: ParameterValues): ParameterValues {
+    const offspring: ParameterValues = {};
 
     for (const nodeId of Object.keys(parent1)) {
       offspring[nodeId] = {};
-      const params1 = parent1[nodeId] as Record<string, unknown>;
-      const params2 = parent2[nodeId] as Record<string, unknown>;
+      const params1 = parent1[nodeId];
+      const params2 = parent2[nodeId] || params1;
 
       for (const paramName of Object.keys(params1)) {
         // Random crossover
-        (offspring[nodeId] as Record<string, unknown>)[paramName] = 
-          Math.random() < 0.5 ? params1[paramName] : params2[paramName];
+        offspring[nodeId][paramName] = this.random() < 0.5 ? params1[paramName] : params2[paramName];
       }
     }
 
     return offspring;
   }
 
-  private mutate(
-    individual: Record<string, unknown>, 
-    constraints: ParameterConstraint[]
-  ): Record<string, unknown> {
-    const mutated = JSON.parse(JSON.stringify(individual));
+  private mutate(individual: ParameterValues, constraints: ParameterConstraint[]): ParameterValues {
+    const mutated = this.cloneParameters(individual);
 
     for (const constraint of constraints) {
-      if (Math.random() < 0.1) { // 10% mutation rate per parameter
-        const nodeParams = mutated[constraint.nodeId] as Record<string, unknown>;
+      if (this.random() < 0.1) { // 10% mutation rate per parameter
+        const nodeParams = mutated[constraint.nodeId];
         if (nodeParams) {
-          let newValue: unknown;
-          if (constraint.validValues) {
-            newValue = constraint.validValues[Math.floor(Math.random() * constraint.validValues.length)];
-          } else {
-            newValue = constraint.minValue + Math.random() * (constraint.maxValue - constraint.minValue);
-            if (constraint.stepSize) {
-              newValue = Math.round(newValue / constraint.stepSize) * constraint.stepSize;
-            }
-          }
-          nodeParams[constraint.parameter] = newValue;
+          nodeParams[constraint.parameter] = this.randomValue(constraint);
         }
       }
     }
@@ -1153,97 +1610,118 @@ export class ParameterOptimizer {
   }
 
   private updateParticleVelocity(
-    particle: any,
-    globalBest: Record<string, unknown>,
+    particle: { position: ParameterValues; velocity: ParameterValues; bestPosition: ParameterValues },
+    globalBest: ParameterValues,
     w: number,
     c1: number,
     c2: number
   ): void {
     for (const nodeId of Object.keys(particle.velocity)) {
-      const nodeVelocity = particle.velocity[nodeId] as Record<string, unknown>;
-      const nodePosition = particle.position[nodeId] as Record<string, unknown>;
-      const nodeBestPosition = particle.bestPosition[nodeId] as Record<string, unknown>;
-      const nodeGlobalBest = globalBest[nodeId] as Record<string, unknown>;
+      const nodeVelocity = particle.velocity[nodeId];
 
       for (const paramName of Object.keys(nodeVelocity)) {
         const currentVel = nodeVelocity[paramName] as number;
-        const currentPos = nodePosition[paramName] as number;
-        const personalBest = nodeBestPosition[paramName] as number;
-        const globalBestVal = nodeGlobalBest[paramName] as number;
-
-        const r1 = Math.random();
-        const r2 = Math.random();
+        const currentPos = particle.position[nodeId][paramName] as number;
+        const personalBest = (particle.bestPosition[nodeId]?.[paramName] ?? currentPos) as number;
+        const globalBestVal = (globalBest[nodeId]?.[paramName] ?? currentPos) as number;
 
-        const newVel = w * currentVel + 
-                      c1 * r1 * (personalBest - currentPos) + 
-                      c2 * r2 * (globalBestVal - currentPos);
+        const r1 = this.random();
+        const r2 = this.random();
 
-        nodeVelocity[paramName] = newVel;
+        nodeVelocity[paramName] = w * currentVel +
+                                  c1 * r1 * (personalBest - currentPos) +
+                                  c2 * r2 * (globalBestVal - currentPos);
       }
     }
   }
 
   private updateParticlePosition(
-    particle: any,
+    particle: { position: ParameterValues; velocity: ParameterValues },
     constraints: ParameterConstraint[]
   ): void {
-    for (const nodeId of Object.keys(particle.position)) {
-      const nodePosition = particle.position[nodeId] as Record<string, unknown>;
-      const nodeVelocity = particle.velocity[nodeId] as Record<string, unknown>;
-
-      for (const paramName of Object.keys(nodePosition)) {
-        const currentPos = nodePosition[paramName] as number;
-        const velocity = nodeVelocity[paramName] as number;
-        
-        let newPos = currentPos + velocity;
-
-        // Apply constraints
-        const constraint = constraints.find(c => 
-          c.nodeId === nodeId && c.parameter === paramName
-        );
-        
-        if (constraint) {
-          newPos = Math.max(constraint.minValue, Math.min(constraint.maxValue, newPos));
-          if (constraint.stepSize) {
-            newPos = Math.round(newPos / constraint.stepSize) * constraint.stepSize;
-          }
-        }
+    for (const constraint of constraints) {
+      const velocity = particle.velocity[constraint.nodeId]?.[constraint.parameter];
+      if (typeof velocity !== 'number') continue;
 
-        nodePosition[paramName] = newPos;
-      }
+      const nodePosition = particle.position[constraint.nodeId];
+      nodePosition[constraint.parameter] = this.snapToConstraint(
+        (nodePosition[constraint.parameter] as number) + velocity,
+        constraint
+      );
     }
   }
 
-  private calculateExpectedImprovement(score: number): number {
-    // Convert optimization score to expected improvement percentage
-    return Math.max(0, Math.min(100, score * 100));
+  private randomValue(constraint: ParameterConstraint): unknown {
+    if (constraint.validValues) {
+      return constraint.validValues[Math.floor(this.random() * constraint.validValues.length)];
+    }
+    return this.snapToConstraint(
+      constraint.minValue + this.random() * (constraint.maxValue - constraint.minValue),
+      constraint
+    );
   }
 
-  private async generateBacktestComparison(
-    originalNodes: BuilderNode[],
-    optimizedParams: OptimizedParameterSet
-  ): Promise<BacktestComparison> {
-    // Simulate original strategy performance
-    const originalResults = await this.simulateBacktest({}, MarketCondition.TRENDING);
-    
-    // Simulate optimized strategy performance
-    const optimizedParameters: Record<string, unknown> = {};
-    for (const [key, param] of Object.entries(optimizedParams.parameters)) {
-      const [nodeId, paramName] = key.split('.');
-      if (!optimizedParameters[nodeId]) {
-        optimizedParameters[nodeId] = {};
+  /**
+   * Clamp to [min, max] and round onto the min + k * step lattice
+   */
+  private snapToConstraint(value: number, constraint: ParameterConstraint): number {
+    const { minValue, maxValue, stepSize } = constraint;
+    let snapped = Math.max(minValue, Math.min(maxValue, value));
+
+    if (stepSize) {
+      snapped = minValue + Math.round((snapped - minValue) / stepSize) * stepSize;
+      if (snapped > maxValue) snapped -= stepSize;
+      // Trim float noise such as 1.7500000000000002
+      const decimals = (String(stepSize).split('.')[1] || '').length + (String(minValue).split('.')[1] || '').length;
+      snapped = Number(snapped.toFixed(decimals));
+    }
+
+    return snapped;
+  }
+
+  private buildParameterSet(
+    nodes: BuilderNode[],
+    bestParameters: ParameterValues,
+    algorithm: OptimizationAlgorithm,
+    results: BacktestResults,
+    expectedImprovement: number,
+    marketCondition?: MarketCondition
+  ): OptimizedParameterSet {
+    const confidence = ALGORITHM_CONFIDENCE[algorithm] *
+      Math.min(1, results.totalTrades / MIN_TRADES_FOR_FULL_CONFIDENCE);
+    const optimizedParameters: Record<string, OptimizationParameter> = {};
+
+    for (const [nodeId, nodeParams] of Object.entries(bestParameters)) {
+      for (const [paramName, value] of Object.entries(nodeParams)) {
+        optimizedParameters[`${nodeId}.${paramName}`] = {
+          currentValue: this.readCurrentValue(nodes, nodeId, paramName),
+          suggestedValue: value,
+          confidence,
+          reasoning: `Optimized through ${algorithm.replace(/-/g, ' ')} over ${results.totalTrades} backtested trades` +
+            (marketCondition ? ` entered in ${marketCondition.replace(/-/g, ' ')} bars` : '')
+        };
       }
-      (optimizedParameters[nodeId] as Record<string, unknown>)[paramName] = param.suggestedValue;
     }
-    
-    const optimizedResults = await this.simulateBacktest(optimizedParameters, optimizedParams.marketCondition);
 
+    return {
+      nodeId: 'strategy', // Represents the entire strategy
+      parameters: optimizedParameters,
+      confidence,
+      ...(marketCondition && { marketCondition }),
+      expectedImprovement: Math.max(0, Math.min(100, expectedImprovement))
+    };
+  }
+
+  private generateBacktestComparison(
+    originalResults: BacktestResults,
+    optimizedResults: BacktestResults
+  ): BacktestComparison {
     // Calculate improvements
     const improvement: PerformanceImprovement = {
-      totalReturnImprovement: ((optimizedResults.totalReturn - originalResults.totalReturn) / Math.abs(originalResults.totalReturn)) * 100,
-      sharpeRatioImprovement: ((optimizedResults.sharpeRatio - originalResults.sharpeRatio) / originalResults.sharpeRatio) * 100,
-      drawdownReduction: ((originalResults.maxDrawdown - optimizedResults.maxDrawdown) / originalResults.maxDrawdown) * 100,
-      winRateImprovement: ((optimizedResults.winRate - originalResults.winRate) / originalResults.winRate) * 100,
+      totalReturnImprovement: this.relativeChange(originalResults.totalReturn, optimizedResults.totalReturn),
+      sharpeRatioImprovement: this.relativeChange(originalResults.sharpeRatio, optimizedResults.sharpeRatio),
+      drawdownReduction: this.relativeChange(optimizedResults.maxDrawdown, originalResults.maxDrawdown, originalResults.maxDrawdown),
+      winRateImprovement: this.relativeChange(originalResults.winRate, optimizedResults.winRate),
       overallScore: 0
     };
 
@@ -1262,13 +1740,23 @@ export class ParameterOptimizer {
     };
   }
 
+  // Percent change from a to b; from a zero base it falls back to percentage points
+  private relativeChange(a: number, b: number, base: number = a): number {
+    if (Math.abs(base) < 1e-9) {
+      return (b - a) * 100;
+    }
+    return ((b - a) / Math.abs(base)) * 100;
+  }
+
   private generateRecommendations(optimizedParams: OptimizedParameterSet[]): ParameterRecommendation[] {
     const recommendations: ParameterRecommendation[] = [];
 
     for (const paramSet of optimizedParams) {
       for (const [key, param] of Object.entries(paramSet.parameters)) {
-        const [nodeId, paramName] = key.split('.');
-        
+        if (param.currentValue === param.suggestedValue) continue;
+
+        const [nodeId, paramName] = this.splitKey(key);
+
         recommendations.push({
           nodeId,
           parameter: paramName,
@@ -1290,21 +1778,50 @@ export class ParameterOptimizer {
     return ImpactLevel.LOW;
   }
 
-  private calculateConvergenceData(config: ParameterOptimizationConfig): ConvergenceData {
-    // Simplified convergence data
+  private recordIteration(context: EvaluationContext): void {
+    context.history.push(context.bestScore);
+  }
+
+  private calculateConvergenceData(context: EvaluationContext, threshold: number): ConvergenceData {
+    const history = context.history.filter(score => isFinite(score));
+    if (history.length === 0) {
+      return this.createEmptyConvergenceData();
+    }
+
+    const bestScore = history[history.length - 1];
+    const convergedAt = history.findIndex(score => bestScore - score <= threshold);
+    const improvements = history.filter((score, i) => i > 0 && score > history[i - 1]);
+    const lastImprovementIndex = history.lastIndexOf(improvements[improvements.length - 1]);
+
     return {
-      iterations: config.maxIterations,
-      bestScore: 0.85,
-      convergenceHistory: Array.from({ length: 10 }, (_, i) => 0.5 + (i * 0.035)),
-      timeToConvergence: config.maxIterations * 0.7,
-      finalError: 0.001
+      iterations: context.history.length,
+      bestScore,
+      convergenceHistory: history,
+      timeToConvergence: convergedAt + 1,
+      finalError: lastImprovementIndex > 0 ? bestScore - history[lastImprovementIndex - 1] : 0
     };
   }
 
+  private cloneParameters(parameters: ParameterValues): ParameterValues {
+    const clone: ParameterValues = {};
+    for (const [nodeId, values] of Object.entries(parameters)) {
+      clone[nodeId] = { ...values };
+    }
+    return clone;
+  }
+
+  // Node ids may contain dots, parameter names never do
+  private splitKey(key: string): [string, string] {
+    const index = key.lastIndexOf('.');
+    return [key.slice(0, index), key.slice(index + 1)];
+  }
+
   private createEmptyBacktestComparison(): BacktestComparison {
     const emptyResults: BacktestResults = {
       totalReturn: 0,
       sharpeRatio: 0,
+      sortinoRatio: 0,
+      calmarRatio: 0,
       maxDrawdown: 0,
       winRate: 0,
       profitFactor: 0,
@@ -1339,4 +1856,4 @@ export class ParameterOptimizer {
       finalError: 1
     };
   }
-}
\ No newline at end of file
+}
@@ -6,15 +6,19 @@
  */
 
 import type { BuilderNode, BuilderEdge } from '../../../app/builder/builder-state';
+import type { CustomEdge, CustomNode } from '../../../app/builder/canvas-config';
+import { runBacktest } from '../../../lib/backtesting';
+import type { BacktestConfig, OHLCVBar } from '../../../lib/backtesting';
+import { MarketRegimeClassifier } from './market-regime-classifier';
+import type { RegimePerformance } from './market-regime-classifier';
+import { RiskLevel, RiskFactorType, ImpactLevel } from '../types/optimization-types';
 import type { 
   RiskAssessment, 
-  RiskLevel, 
   RiskFactor, 
-  RiskFactorType, 
-  RiskRecommendation,
-  ImpactLevel 
+  RiskRecommendation
 } from '../types/optimization-types';
-import type { StrategyBlueprint, ComponentType } from '../types/strategy-types';
+import { ComponentType } from '../types/strategy-types';
+import type { StrategyBlueprint } from '../types/strategy-types';
 
 export interface StrategyAnalysis {
   completeness: CompletenessAnalysis;
@@ -23,6 +27,7 @@ export interface StrategyAnalysis {
   compatibility: CompatibilityAnalysis;
   riskAssessment: RiskAssessment;
   performance: PerformanceAnalysis;
+  regimePerformance?: RegimePerformance[]; // Only when bars are supplied and the graph backtests
   metadata: AnalysisMetadata;
 }
 
@@ -120,7 +125,12 @@ export class StrategyAnalyzer {
   /**
    * Analyze the current canvas state for completeness and improvements
    */
-  async analyzeStrategy(nodes: BuilderNode[], edges: BuilderEdge[]): Promise<StrategyAnalysis> {
+  async analyzeStrategy(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    bars?: OHLCVBar[],
+    backtestConfig: Partial<BacktestConfig> = {}
+  ): Promise<StrategyAnalysis> {
     const startTime = performance.now();
 
     try {
@@ -130,7 +140,10 @@ export class StrategyAnalyzer {
       const improvements = this.suggestImprovements(nodes, edges);
       const compatibility = this.analyzeCompatibility(nodes, edges);
       const riskAssessment = this.assessRisk(nodes, edges);
-      const performance = this.analyzePerformance(nodes, edges);
+      const performanceAnalysis = this.analyzePerformance(nodes, edges);
+      const regimePerformance = bars && bars.length > 0
+        ? this.analyzeRegimePerformance(nodes, edges, bars, backtestConfig)
+        : undefined;
 
       const processingTime = performance.now() - startTime;
 
@@ -140,7 +153,8 @@ export class StrategyAnalyzer {
         improvements,
         compatibility,
         riskAssessment,
-        performance,
+        performance: performanceAnalysis,
+        ...(regimePerformance && { regimePerformance }),
         metadata: {
           analyzedAt: new Date(),
           processingTime,
@@ -154,6 +168,30 @@ export class StrategyAnalyzer {
     }
   }
 
+  /**
+   * Backtest the graph and split its trades by the regime they were entered in
+   */
+  private analyzeRegimePerformance(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    bars: OHLCVBar[],
+    backtestConfig: Partial<BacktestConfig>
+  ): RegimePerformance[] | undefined {
+    try {
+      const run = runBacktest(
+        nodes as unknown as CustomNode[],
+        edges as unknown as CustomEdge[],
+        bars,
+        backtestConfig
+      );
+      const classifier = new MarketRegimeClassifier();
+      return classifier.summarizePerformance(run.trades, classifier.classify(bars));
+    } catch (error) {
+      // Incomplete graphs are reported through gaps rather than failing the analysis
+      return undefined;
+    }
+  }
+
   /**
    * Analyze strategy completeness
    */
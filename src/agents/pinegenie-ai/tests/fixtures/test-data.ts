@@ -3,6 +3,9 @@
  * Contains realistic test data for various trading scenarios
  */
 
+import { createSeededRandom } from '@/lib/backtesting';
+import type { OHLCVBar } from '@/lib/backtesting';
+
 export const sampleTradingRequests = {
   // Simple requests
   simple: {
@@ -393,6 +396,33 @@ export const performanceBenchmarks = {
   }
 };
 
+// Hourly bars from a seeded random walk whose drift flips every few days, so
+// trend and mean-reversion signals both fire. Starts Monday 2024-01-01 00:00 UTC
+// so session, weekday and date-range filters all see matching bars.
+export const createSampleOHLCVBars = (count: number = 600, seed: number = 42): OHLCVBar[] => {
+  const random = createSeededRandom(seed);
+  const bars: OHLCVBar[] = [];
+  let previous = 100;
+  let drift = 0.002;
+
+  for (let i = 0; i < count; i++) {
+    if (i % 60 === 0) drift = (random() - 0.5) * 0.006;
+    const close = previous * (1 + drift + (random() - 0.5) * 0.02);
+    bars.push({
+      time: Date.UTC(2024, 0, 1) + i * 60 * 60 * 1000,
+      open: previous,
+      high: Math.max(previous, close) * (1 + random() * 0.004),
+      low: Math.min(previous, close) * (1 - random() * 0.004),
+      close,
+      volume: 1000 + Math.round(random() * 500)
+    });
+    previous = close;
+  }
+  return bars;
+};
+
+export const sampleOHLCVBars = createSampleOHLCVBars();
+
 const testData = {
   sampleTradingRequests,
   sampleStrategyBlueprints,
@@ -400,7 +430,8 @@ const testData = {
   sampleConnections,
   sampleAnimationSequences,
   sampleErrorScenarios,
-  performanceBenchmarks
+  performanceBenchmarks,
+  sampleOHLCVBars
 };
 
 export default testData;
\ No newline at end of file
@@ -12,6 +12,11 @@ import type {
   AIBuilderEdge
 } from '../../types';
 import { StrategyType, TokenType, EntityType } from '../../types';
+import { NODE_TEMPLATES, STRATEGY_TEMPLATES, resolveActionSettings } from '@/app/builder/canvas-config';
+import type { CustomEdge, CustomNode, NodeConfig, NodeType } from '@/app/builder/canvas-config';
+import { getIndicatorById } from '@/app/builder/data/indicator-defs';
+import { INDICATOR_PINE_SPECS, resolveIndicatorOutput, resolveIndicatorParameters } from '@/app/builder/data/indicator-registry';
+import { createSeededRandom } from '@/lib/backtesting';
 
 // Mock data generators
 export const createMockParsedRequest = (overrides: Partial<ParsedRequest> = {}): ParsedRequest => ({
@@ -348,6 +353,228 @@ export const commonTestScenarios = {
   }
 };
 
+// Builder graph generators
+export interface StrategyGraph {
+  nodes: CustomNode[];
+  edges: CustomEdge[];
+}
+
+interface GraphTemplate {
+  type: NodeType | string;
+  label: string;
+  description?: string;
+  config?: Record<string, unknown>;
+}
+
+const createGraphBuilder = () => {
+  const graph: StrategyGraph = { nodes: [], edges: [] };
+  const add = (template: GraphTemplate, config: NodeConfig = {}): CustomNode => {
+    const id = `${template.type}_${graph.nodes.length + 1}`;
+    const node: CustomNode = {
+      id,
+      type: template.type as NodeType,
+      position: { x: 0, y: 0 },
+      data: { id, label: template.label, type: template.type as NodeType, description: template.description, config: { ...template.config, ...config } }
+    };
+    graph.nodes.push(node);
+    return node;
+  };
+  const connect = (source: CustomNode, target: CustomNode, handles: Pick<CustomEdge, 'sourceHandle' | 'targetHandle'> = {}) => {
+    graph.edges.push({ id: `edge_${graph.edges.length + 1}`, source: source.id, target: target.id, ...handles });
+  };
+  return { graph, add, connect };
+};
+
+/**
+ * A valid builder graph assembled from NODE_TEMPLATES, the same for the same
+ * seed: 1-2 indicators with conditions on sensible operands, optional logic
+ * nodes, entry and exit actions on random signals, and optional risk and
+ * timing nodes
+ */
+export const createRandomStrategyGraph = (seed: number): StrategyGraph => {
+  const random = createSeededRandom(seed);
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const pickSome = <T>(items: readonly T[], count: number): T[] => {
+    const pool = [...items];
+    return Array.from({ length: Math.min(count, pool.length) }, () => pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  };
+  const { graph, add, connect } = createGraphBuilder();
+
+  const data = add(NODE_TEMPLATES['Data Sources'][0]);
+  const signals: CustomNode[] = [];
+
+  const indicatorCount = 1 + Math.floor(random() * 2);
+  for (let i = 0; i < indicatorCount; i++) {
+    const indicator = add(pick(NODE_TEMPLATES['Technical Indicators']));
+    connect(data, indicator);
+
+    const conditionCount = 1 + Math.floor(random() * 2);
+    for (let j = 0; j < conditionCount; j++) {
+      const template = pick(NODE_TEMPLATES['Conditions']);
+      const operator = template.config.operator;
+
+      // Oscillators compare against levels, price overlays against the close
+      let condition: CustomNode;
+      switch (indicator.data.config!.indicatorId) {
+        case 'rsi':
+          condition = add(template, { operator, threshold: pick([30, 40, 50, 60, 70]) });
+          connect(indicator, condition);
+          break;
+        case 'macd':
+          condition = add(template, { operator, threshold: undefined, compareTo: 'series' });
+          connect(indicator, condition, { sourceHandle: 'macd', targetHandle: 'left' });
+          connect(indicator, condition, { sourceHandle: 'signal', targetHandle: 'right' });
+          break;
+        default:
+          condition = add(template, { operator, threshold: undefined, compareTo: 'series' });
+          connect(data, condition, { sourceHandle: 'close', targetHandle: 'left' });
+          connect(indicator, condition, {
+            sourceHandle: indicator.data.config!.indicatorId === 'bb' ? pick(['upper', 'basis', 'lower']) : undefined,
+            targetHandle: 'right'
+          });
+      }
+      signals.push(condition);
+    }
+  }
+
+  const logicCount = Math.floor(random() * 3);
+  for (let i = 0; i < logicCount; i++) {
+    const template = pick(NODE_TEMPLATES['Math & Logic'].filter(item => item.type === 'logic'));
+    const unary = ['not', 'consecutive', 'within'].includes(template.config.logicOperator || '');
+    const inputs = pickSome(signals, unary ? 1 : 2 + Math.floor(random() * 2));
+    if (inputs.length < 2 && !unary) continue;
+
+    const logic = add(template);
+    inputs.forEach(input => connect(input, logic));
+    signals.push(logic);
+  }
+
+  const actionTemplates = NODE_TEMPLATES['Actions'].filter(() => random() < 0.6);
+  if (!actionTemplates.some(template => template.config.actionKind === 'entry')) {
+    actionTemplates.unshift(NODE_TEMPLATES['Actions'][0]);
+  }
+  const actions = actionTemplates.map(template => {
+    const action = add(template);
+    pickSome(signals, 1 + Math.floor(random() * 2)).forEach(signal => connect(signal, action));
+    return action;
+  });
+
+  if (random() < 0.5) {
+    add(pick(NODE_TEMPLATES['Risk Management']));
+  }
+  if (random() < 0.4) {
+    const timing = add(pick(NODE_TEMPLATES['Timing']));
+    pickSome(actions, 1 + Math.floor(random() * actions.length)).forEach(action => connect(timing, action));
+  }
+
+  return graph;
+};
+
+/**
+ * A STRATEGY_TEMPLATES entry wired the way the builder's quick start does:
+ * price into every indicator, indicators into conditions (two indicators
+ * into a condition without a threshold), and the nth condition into the nth
+ * action
+ */
+export const createStrategyTemplateGraph = (name: keyof typeof STRATEGY_TEMPLATES): StrategyGraph => {
+  const { graph, add, connect } = createGraphBuilder();
+  const nodes = STRATEGY_TEMPLATES[name].nodes.map(template => add(template));
+  const ofType = (type: NodeType) => nodes.filter(node => node.type === type);
+  const [data] = ofType('data-source');
+  const indicators = ofType('indicator');
+  const conditions = ofType('condition');
+
+  indicators.forEach(indicator => connect(data, indicator));
+  conditions.forEach(condition => {
+    if (indicators.length > 1 && condition.data.config?.threshold === undefined) {
+      connect(indicators[0], condition, { targetHandle: 'left' });
+      connect(indicators[1], condition, { targetHandle: 'right' });
+    } else {
+      connect(indicators[0], condition);
+    }
+  });
+  ofType('action').forEach((action, index) => connect(conditions[Math.min(index, conditions.length - 1)], action));
+
+  return graph;
+};
+
+// What each node does, without ids, labels or the spelling of its settings
+const normalizeNodeConfig = (node: CustomNode, inputs: CustomEdge[]): Record<string, unknown> => {
+  const config = node.data.config || {};
+  switch (node.type) {
+    case 'indicator': {
+      const definition = getIndicatorById(config.indicatorId!);
+      const unused = INDICATOR_PINE_SPECS[config.indicatorId!]?.unused || [];
+      const parameters = definition ? resolveIndicatorParameters(definition, config.parameters) : config.parameters;
+      return {
+        indicatorId: config.indicatorId,
+        parameters: Object.fromEntries(Object.entries(parameters || {}).filter(([name]) => !unused.includes(name)))
+      };
+    }
+    case 'condition':
+      return { operator: config.operator, threshold: inputs.length > 1 ? undefined : config.threshold };
+    case 'logic':
+      return { logicOperator: config.logicOperator, requiredCount: config.requiredCount, bars: config.bars };
+    case 'action': {
+      const settings = resolveActionSettings(node);
+      if (!settings) return config;
+      const { inferred, ...resolved } = settings;
+      void inferred;
+      // Exits close whole positions, so only what they close matters
+      return resolved.kind === 'exit' ? { kind: resolved.kind, direction: resolved.direction, orderId: resolved.orderId } : resolved;
+    }
+    case 'risk':
+      return {
+        riskUnit: config.riskUnit || 'percent',
+        atrPeriod: config.riskUnit === 'atr' ? config.atrPeriod ?? 14 : undefined,
+        stopLoss: config.stopLoss,
+        takeProfit: config.takeProfit,
+        trailingStop: config.trailingStop
+      };
+    case 'data-source':
+      return {};
+    default:
+      return config;
+  }
+};
+
+/**
+ * Sorted signatures of every node and, recursively, everything that feeds it.
+ * Two graphs with equal signatures compute the same signals and place the
+ * same orders. Edges into risk nodes are ignored, since risk nodes apply to
+ * every entry.
+ */
+export const canonicalizeStrategyGraph = (nodes: CustomNode[], edges: CustomEdge[]): string[] => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const signatures = new Map<string, string>();
+
+  const handleOf = (source: CustomNode, handle?: string | null): string => {
+    if (source.type === 'data-source') return `:${handle || 'close'}`;
+    if (source.type === 'indicator') {
+      const definition = getIndicatorById(source.data.config?.indicatorId || '');
+      return `:${definition ? resolveIndicatorOutput(definition, handle || undefined) : handle}`;
+    }
+    return '';
+  };
+  const signature = (node: CustomNode): string => {
+    const known = signatures.get(node.id);
+    if (known) return known;
+
+    const inputs = node.type === 'risk' ? [] : edges.filter(edge => edge.target === node.id && byId.has(edge.source));
+    const operands = inputs
+      .map(edge => {
+        const source = byId.get(edge.source)!;
+        return `${edge.targetHandle || ''}<-${signature(source)}${handleOf(source, edge.sourceHandle)}`;
+      })
+      .sort();
+    const result = `${node.type}${JSON.stringify(normalizeNodeConfig(node, inputs))}[${operands.join(',')}]`;
+    signatures.set(node.id, result);
+    return result;
+  };
+
+  return nodes.map(signature).sort();
+};
+
 const testUtils = {
   createMockParsedRequest,
   createMockTradingIntent,
@@ -364,7 +591,10 @@ const testUtils = {
   createMockNLPProcessor,
   createMockStrategyInterpreter,
   createMockStrategyBuilder,
-  commonTestScenarios
+  commonTestScenarios,
+  createRandomStrategyGraph,
+  createStrategyTemplateGraph,
+  canonicalizeStrategyGraph
 };
 
 export default testUtils;
@@ -0,0 +1,59 @@
+/**
+ * Builder Round-Trip Tests
+ *
+ * Graphs built from the builder templates are generated to Pine Script and
+ * imported back. The imported graph must be structurally the same and trade
+ * the same on the fixture dataset.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { STRATEGY_TEMPLATES } from '@/app/builder/canvas-config';
+import { generateEnhancedPineScript } from '@/app/builder/enhanced-pinescript-generator';
+import { importPineScript } from '@/app/builder/pinescript-importer';
+import { runBacktest } from '@/lib/backtesting';
+import {
+  canonicalizeStrategyGraph,
+  createRandomStrategyGraph,
+  createStrategyTemplateGraph
+} from '../helpers/test-utils';
+import type { StrategyGraph } from '../helpers/test-utils';
+import { sampleOHLCVBars } from '../fixtures/test-data';
+
+const RANDOM_GRAPH_SEEDS = Array.from({ length: 40 }, (_, index) => index + 1);
+
+// Generates, re-imports and backtests both graphs; returns the trade count
+const expectRoundTrip = (name: string, graph: StrategyGraph): number => {
+  const { code, errors } = generateEnhancedPineScript(graph.nodes, graph.edges);
+  expect({ name, errors }).toEqual({ name, errors: [] });
+
+  const imported = importPineScript(code);
+  expect({ name, errors: imported.errors, raw: imported.nodes.filter(node => node.type === 'raw-pine').length })
+    .toEqual({ name, errors: [], raw: 0 });
+  expect({ name, graph: canonicalizeStrategyGraph(imported.nodes, imported.edges) })
+    .toEqual({ name, graph: canonicalizeStrategyGraph(graph.nodes, graph.edges) });
+
+  const original = runBacktest(graph.nodes, graph.edges, sampleOHLCVBars);
+  const reimported = runBacktest(imported.nodes, imported.edges, sampleOHLCVBars);
+  expect({ name, trades: reimported.trades, openTrades: reimported.openTrades })
+    .toEqual({ name, trades: original.trades, openTrades: original.openTrades });
+
+  return original.trades.length + original.openTrades.length;
+};
+
+describe('Builder graph round trip', () => {
+  test('strategy templates survive generate and import', () => {
+    (Object.keys(STRATEGY_TEMPLATES) as Array<keyof typeof STRATEGY_TEMPLATES>).forEach(name => {
+      expectRoundTrip(name, createStrategyTemplateGraph(name));
+    });
+  });
+
+  test('random template graphs survive generate and import with identical trades', () => {
+    const trades = RANDOM_GRAPH_SEEDS.reduce(
+      (total, seed) => total + expectRoundTrip(`seed ${seed}`, createRandomStrategyGraph(seed)),
+      0
+    );
+
+    // The comparison means little if nothing ever trades
+    expect(trades).toBeGreaterThan(0);
+  });
+});
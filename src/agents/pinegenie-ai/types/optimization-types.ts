@@ -29,6 +29,15 @@ export enum ImpactLevel {
   CRITICAL = 'critical',
 }
 
+export enum MarketCondition {
+  TRENDING = 'trending',
+  RANGING = 'ranging',
+  VOLATILE = 'volatile',
+  LOW_VOLATILITY = 'low-volatility',
+  BULL_MARKET = 'bull-market',
+  BEAR_MARKET = 'bear-market'
+}
+
 export interface OptimizationParameters {
   [key: string]: OptimizationParameter;
 }
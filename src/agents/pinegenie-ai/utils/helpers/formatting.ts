@@ -211,6 +211,7 @@ export function formatComponentType(type: string): string {
     'data-source': 'Data Source',
     'indicator': 'Indicator',
     'condition': 'Condition',
+    'logic': 'Logic',
     'action': 'Action',
     'risk': 'Risk Management',
     'timing': 'Timing'
@@ -8,6 +8,7 @@ import CodePanel from './CodePanel';
 import ModelSelector, { availableModels } from './ModelSelector';
 import { Conversation } from './ChatHistoryList';
 import { UserProfile, UserSettings } from './UserProfileSection';
+import { CHAT_STREAM_CONTENT_TYPE, isPineCodeBlock, readChatStream } from '@/lib/llm/chat-events';
 // Using API route instead of direct client-side service
 interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
@@ -155,6 +156,7 @@ export default function ClaudeStyleInterface({
   // State for AI model selection - Default to ChatGPT-4
   const [selectedModel, setSelectedModel] = useState<string>('gpt-4');
   const [isGenerating, setIsGenerating] = useState(false);
+  const generationRef = React.useRef<AbortController | null>(null);
 
   // Handle conversation deletion
   const handleDeleteConversation = async (conversationId: string) => {
@@ -346,7 +348,7 @@ export default function ClaudeStyleInterface({
     console.log('Signing out');
   };
 
-  // Handle sending messages with AI service
+  // Handle sending messages with AI service, streaming the answer in as it arrives
   const handleSendMessage = async (messageContent?: string) => {
     const content = messageContent || inputValue.trim();
     if (!content || isGenerating) return;
@@ -357,12 +359,25 @@ export default function ClaudeStyleInterface({
       role: 'user',
       timestamp: new Date()
     };
+    const aiMessageId = (Date.now() + 1).toString();
 
     setMessages(prev => [...prev, userMessage]);
     setInputValue('');
     setIsAILoading(true);
     setIsGenerating(true);
 
+    const controller = new AbortController();
+    generationRef.current = controller;
+    let answer = '';
+    let codeStreamed = false;
+
+    const showAnswer = (text: string) => {
+      setIsAILoading(false);
+      setMessages(prev => prev.some(message => message.id === aiMessageId)
+        ? prev.map(message => message.id === aiMessageId ? { ...message, content: text } : message)
+        : [...prev, { id: aiMessageId, content: text, role: 'assistant', timestamp: new Date() }]);
+    };
+
     try {
       // Convert messages to ChatMessage format for our AI service
       const chatMessages: ChatMessage[] = [
@@ -376,81 +391,80 @@ export default function ClaudeStyleInterface({
         }
       ];
 
-      // Map model names to our working models
-      let modelToUse = selectedModel;
-      if (selectedModel === 'pine-genie') {
-        modelToUse = 'pine-genie'; // Use local fallback
-      } else if (selectedModel === 'gpt-4o') {
-        modelToUse = 'gpt-4'; // Map to our working GPT-4
-      } else if (selectedModel === 'claude-3-5-sonnet') {
-        modelToUse = 'gpt-3.5-turbo'; // Fallback to GPT-3.5 if Claude not available
-      } else {
-        modelToUse = 'gpt-4'; // Default to GPT-4
-      }
-
-      // Send to our API route (server-side) instead of client-side service
-      console.log(`🚀 Sending request to /api/ai-generate with model: ${modelToUse}`);
-      
-      const response = await fetch('/api/ai-generate', {
+      const response = await fetch('/api/ai-chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: CHAT_STREAM_CONTENT_TYPE
         },
         body: JSON.stringify({
           messages: chatMessages,
-          modelId: modelToUse
-        })
+          modelId: selectedModel
+        }),
+        signal: controller.signal
       });
 
-      console.log(`📡 API Response status: ${response.status}`);
+      if (response.status === 402) {
+        const { remaining, topUpUrl } = await response.json();
+        showAnswer(`You're out of AI tokens (${remaining} left). Buy extra credits at ${topUpUrl} to keep chatting.`);
+        return;
+      }
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorText = await response.text();
-        console.error(`❌ API Error: ${response.status} - ${errorText}`);
         throw new Error(`API request failed: ${response.status} - ${errorText}`);
       }
 
-      const aiResponse = await response.json();
-      console.log(`✅ AI Response received:`, { model: aiResponse.model, contentLength: aiResponse.content?.length });
-
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: aiResponse.content,
-        role: 'assistant',
-        timestamp: new Date()
-      };
-
-      setMessages(prev => [...prev, aiMessage]);
+      for await (const event of readChatStream(response.body)) {
+        if (event.type === 'delta') {
+          answer += event.text;
+          showAnswer(answer);
+        } else if (event.type === 'code' && isPineCodeBlock(event)) {
+          // Show the script as soon as its block closes, while the explanation streams on
+          setGeneratedCode(addPineGenieSignature(event.code.trim()));
+          codeStreamed = true;
+          if (!codePanelOpen && settings.autoOpenCodePanel) {
+            toggleCodePanel();
+          }
+        } else if (event.type === 'result') {
+          // The server's validated, and where needed repaired, version of the script
+          const { code } = event.data as { code: string | null };
+          if (code) {
+            setGeneratedCode(addPineGenieSignature(code.trim()));
+            codeStreamed = true;
+          }
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+      }
 
-      // Extract and populate code in the right panel
-      const extractedCode = extractPineScriptCode(aiResponse.content);
+      // Code in an untagged fence without a version line is picked up once the answer is complete
+      const extractedCode = codeStreamed ? '' : extractPineScriptCode(answer);
       if (extractedCode) {
         setGeneratedCode(extractedCode);
       }
 
-      // Auto-open code panel if AI response contains code
-      if (shouldOpenCodePanel(aiResponse.content) && !codePanelOpen && settings.autoOpenCodePanel) {
-        setTimeout(() => toggleCodePanel(), 500);
-      }
-
     } catch (error) {
+      if (controller.signal.aborted) {
+        showAnswer(answer ? `${answer}\n\n_Generation stopped._` : '_Generation stopped._');
+        return;
+      }
       console.error('Error sending message:', error);
 
       // Fallback error message
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: 'Sorry, I encountered an error. Please try again or check your API configuration.',
-        role: 'assistant',
-        timestamp: new Date()
-      };
-
-      setMessages(prev => [...prev, errorMessage]);
+      showAnswer('Sorry, I encountered an error. Please try again or check your API configuration.');
     } finally {
+      generationRef.current = null;
       setIsAILoading(false);
       setIsGenerating(false);
     }
   };
 
+  // Stop the answer being streamed; the server aborts the model request too
+  const handleStopGeneration = () => {
+    generationRef.current?.abort();
+  };
+
   // Handle suggested prompt clicks
   const handleSuggestedPrompt = (prompt: string) => {
     handleSendMessage(prompt);
@@ -688,17 +702,30 @@ export default function ClaudeStyleInterface({
                   <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48" />
                 </svg>
               </button>
-              <button
-                className="send-btn"
-                title="Send message"
-                disabled={!inputValue.trim()}
-                onClick={() => handleSendMessage()}
-              >
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="m22 2-7 20-4-9-9-4Z" />
-                  <path d="M22 2 11 13" />
-                </svg>
-              </button>
+              {isGenerating ? (
+                <button
+                  className="send-btn"
+                  title="Stop generating"
+                  onClick={handleStopGeneration}
+                  data-testid="stop-generation-btn"
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor" stroke="none">
+                    <rect x="6" y="6" width="12" height="12" rx="2" />
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  className="send-btn"
+                  title="Send message"
+                  disabled={!inputValue.trim()}
+                  onClick={() => handleSendMessage()}
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="m22 2-7 20-4-9-9-4Z" />
+                    <path d="M22 2 11 13" />
+                  </svg>
+                </button>
+              )}
             </div>
 
             {/* Hidden File Input */}
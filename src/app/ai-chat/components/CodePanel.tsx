@@ -1,6 +1,7 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { pineScriptValidator } from '@/agents/pinegenie-agent/core/pine-generator/code-validator';
 
 interface CodePanelProps {
   code: string;
@@ -12,6 +13,9 @@ interface CodePanelProps {
 export default function CodePanel({ code, isOpen, onClose, onClear }: CodePanelProps) {
   const [copySuccess, setCopySuccess] = useState(false);
 
+  // Validated as soon as a finished code block lands in the panel
+  const validation = useMemo(() => (code ? pineScriptValidator.validate(code) : null), [code]);
+
   // Copy code to clipboard
   const handleCopyCode = async () => {
     try {
@@ -175,6 +179,17 @@ export default function CodePanel({ code, isOpen, onClose, onClear }: CodePanelP
         <div className="code-content">
           {code ? (
             <div className="code-editor">
+              {validation && (
+                <div
+                  className={`code-validation ${validation.errors.length > 0 ? 'has-errors' : 'valid'}`}
+                  data-testid="code-validation"
+                  title={validation.errors.map(error => `Line ${error.line}: ${error.message}`).join('\n')}
+                >
+                  {validation.errors.length > 0
+                    ? `${validation.errors.length} issue${validation.errors.length === 1 ? '' : 's'} to fix before TradingView`
+                    : 'Ready for TradingView'}
+                </div>
+              )}
               <pre className="code-block">
                 <code>{code}</code>
               </pre>
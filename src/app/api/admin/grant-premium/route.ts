@@ -72,6 +72,7 @@ export async function POST(request: NextRequest) {
             aiChatAccess: true,
             templatesAccess: 'all',
             scriptStorage: 'unlimited',
+            strategyVersions: 'unlimited',
             aiGenerations: 'unlimited',
             advancedIndicators: true,
             backtesting: true,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { aiService } from '@/lib/ai-service';
+import { createChatStreamResponse, InsufficientTokensError, outOfTokensResponse, wantsChatStream } from '@/lib/llm';
 import { subscriptionPlanManager } from '@/services/subscription';
 
 
@@ -34,17 +35,39 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Messages array is required' }, { status: 400 });
     }
 
+    const account = { userId: session.user.id, requestType: 'chat' };
+
+    // Stream token deltas when the client accepts server-sent events
+    if (wantsChatStream(request)) {
+      return createChatStreamResponse(
+        signal => aiService.streamResponse(messages, modelId, { signal, account }),
+        {
+          signal: request.signal,
+          fallback: () => aiService.generateFallbackResponse(messages).content,
+          // The streamed script is checked once complete; the result carries the repaired code
+          buildResult: async (content, signal) => {
+            const repair = await aiService.repairAnswer(content, messages, modelId, { signal, account });
+            return { code: repair.code, validation: repair.report };
+          }
+        }
+      );
+    }
+
     // Generate response using our AI service
-    const response = await aiService.generateResponse(messages, modelId);
+    const response = await aiService.generateResponse(messages, modelId, { account });
 
     return NextResponse.json({
       success: true,
       content: response.content,
       model: response.model,
-      usage: response.usage
+      usage: response.usage,
+      validation: response.validation
     });
 
   } catch (error) {
+    if (error instanceof InsufficientTokensError) {
+      return outOfTokensResponse(error);
+    }
     console.error('AI Chat API Error:', error);
     return NextResponse.json(
       { 
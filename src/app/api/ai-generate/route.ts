@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { aiService } from '@/lib/ai-service';
+import { InsufficientTokensError, outOfTokensResponse } from '@/lib/llm';
 import { subscriptionPlanManager } from '@/services/subscription';
 
 
@@ -38,7 +39,9 @@ export async function POST(request: NextRequest) {
     console.log(`🤖 AI Generate API: Using model ${modelId} for ${messages.length} messages`);
 
     // Generate response using our AI service
-    const response = await aiService.generateResponse(messages, modelId);
+    const response = await aiService.generateResponse(messages, modelId, {
+      account: { userId: session.user.id, requestType: 'generation' }
+    });
 
     console.log(`✅ AI Generate API: Response generated with model ${response.model}`);
 
@@ -46,10 +49,14 @@ export async function POST(request: NextRequest) {
       success: true,
       content: response.content,
       model: response.model,
-      usage: response.usage
+      usage: response.usage,
+      validation: response.validation
     });
 
   } catch (error) {
+    if (error instanceof InsufficientTokensError) {
+      return outOfTokensResponse(error);
+    }
     console.error('❌ AI Generate API Error:', error);
     return NextResponse.json(
       { 
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { aiService } from '@/lib/ai-service';
+import { InsufficientTokensError, outOfTokensResponse } from '@/lib/llm';
 import { subscriptionPlanManager } from '@/services/subscription';
 
 
@@ -116,9 +117,12 @@ export async function POST(request: NextRequest) {
 
     // Generate AI response
     const aiResponse = await aiService.generateResponse(
-      conversation.model.id,
       messages,
-      conversation.model.maxTokens || undefined
+      conversation.model.id,
+      {
+        maxTokens: conversation.model.maxTokens || undefined,
+        account: { userId: user.id, requestType: 'chat' }
+      }
     );
 
     // Save AI response
@@ -134,9 +138,13 @@ export async function POST(request: NextRequest) {
       response: aiResponse.content,
       conversationId: conversation.id,
       usage: aiResponse.usage,
+      validation: aiResponse.validation,
     });
 
   } catch (error) {
+    if (error instanceof InsufficientTokensError) {
+      return outOfTokensResponse(error);
+    }
     console.error('AI Chat Error:', error);
     return NextResponse.json(
       { error: 'Failed to generate response' },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { aiService } from '@/lib/ai-service';
+import { createChatStreamResponse, InsufficientTokensError, outOfTokensResponse, wantsChatStream } from '@/lib/llm';
 import { availableModels } from '@/lib/ai-models';
 import { subscriptionPlanManager } from '@/services/subscription';
 
@@ -152,39 +153,39 @@ Be conversational for general chat, strategic for trading requests.`
 
     // Combine system prompt with user messages
     const enhancedMessages = [builderSystemPrompt, ...messages];
+    const account = { userId: session.user.id, requestType: 'generation' };
 
-    // Generate AI response using the selected model
-    const aiResponse = await aiService.generateResponse(enhancedMessages, modelId);
-
-    // Try to parse the response as JSON for structured data
-    let structuredResponse;
-    try {
-      // Look for JSON in the response
-      const jsonMatch = aiResponse.content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        structuredResponse = JSON.parse(jsonMatch[0]);
-      }
-    } catch (e) {
-      // If JSON parsing fails, create a structured response from the text
-      structuredResponse = {
-        message: aiResponse.content,
-        strategy: null,
-        suggestions: []
-      };
+    // Stream token deltas, then the parsed strategy once the JSON is complete
+    if (wantsChatStream(request)) {
+      return createChatStreamResponse(
+        signal => aiService.streamResponse(enhancedMessages, modelId, { signal, account }),
+        {
+          signal: request.signal,
+          fallback: () => aiService.generateFallbackResponse(enhancedMessages).content,
+          // The finished answer is validated and repaired before its strategy is parsed
+          buildResult: async (content, signal) => {
+            const repair = await aiService.repairAnswer(content, enhancedMessages, modelId, { signal, account });
+            return { response: parseStructuredResponse(repair.content), validation: repair.report };
+          }
+        }
+      );
     }
 
+    // Generate AI response using the selected model
+    const aiResponse = await aiService.generateResponse(enhancedMessages, modelId, { account });
+
     return NextResponse.json({
       success: true,
-      response: structuredResponse || {
-        message: aiResponse.content,
-        strategy: null,
-        suggestions: []
-      },
+      response: parseStructuredResponse(aiResponse.content),
       model: aiResponse.model,
-      usage: aiResponse.usage
+      usage: aiResponse.usage,
+      validation: aiResponse.validation
     });
 
   } catch (error) {
+    if (error instanceof InsufficientTokensError) {
+      return outOfTokensResponse(error);
+    }
     console.error('Builder AI Assistant Error:', error);
     
     return NextResponse.json({
@@ -203,6 +204,25 @@ Be conversational for general chat, strategic for trading requests.`
   }
 }
 
+// Pull the JSON the system prompt asks for out of the answer, or wrap plain text
+function parseStructuredResponse(content: string) {
+  try {
+    // Look for JSON in the response
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0]);
+    }
+  } catch (e) {
+    // If JSON parsing fails, fall through to a structured response from the text
+  }
+
+  return {
+    message: content,
+    strategy: null,
+    suggestions: []
+  };
+}
+
 // GET endpoint to retrieve available models for the builder
 export async function GET() {
   try {
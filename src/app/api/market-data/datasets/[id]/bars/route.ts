@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { MarketDataService } from '@/services/market-data-service';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dataset = await MarketDataService.loadBars(session.user.id, {
+      datasetId: params.id,
+      timeframe: searchParams.get('timeframe') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: dataset,
+    });
+  } catch (error) {
+    console.error('Error loading dataset bars:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Dataset not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.startsWith('Unknown timeframe') || error.message.startsWith('Cannot resample') ||
+        error.message.includes('not a multiple')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { MarketDataService } from '@/services/market-data-service';
+import { MarketRegimeClassifier } from '@/agents/pinegenie-ai/optimization/market-regime-classifier';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dataset = await MarketDataService.loadBars(session.user.id, {
+      datasetId: params.id,
+      timeframe: searchParams.get('timeframe') || undefined,
+    });
+
+    // Per-bar labels are left out; spans carry the same information compactly
+    const { spans, coverage } = new MarketRegimeClassifier().classify(dataset.bars);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        datasetId: dataset.datasetId,
+        symbol: dataset.symbol,
+        timeframe: dataset.timeframe,
+        resampledFrom: dataset.resampledFrom,
+        barCount: dataset.bars.length,
+        spans,
+        coverage,
+      },
+    });
+  } catch (error) {
+    console.error('Error classifying dataset regimes:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Dataset not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.startsWith('Unknown timeframe') || error.message.startsWith('Cannot resample') ||
+        error.message.includes('not a multiple')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
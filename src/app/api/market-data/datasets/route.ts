@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { MarketDataService } from '@/services/market-data-service';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const datasets = await MarketDataService.listDatasets(session.user.id, {
+      symbol: searchParams.get('symbol') || undefined,
+      timeframe: searchParams.get('timeframe') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: datasets,
+    });
+  } catch (error) {
+    console.error('Error fetching datasets:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Accept either a multipart file upload or a JSON body with the file content inline
+    let fields: Record<string, string | undefined>;
+    const contentType = request.headers.get('content-type') || '';
+
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: 'A file field is required' },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json(
+          { error: 'File is too large (max 20 MB)' },
+          { status: 413 }
+        );
+      }
+      fields = {
+        name: (form.get('name') as string) || file.name.replace(/\.[^.]+$/, ''),
+        symbol: form.get('symbol') as string,
+        timeframe: (form.get('timeframe') as string) || undefined,
+        timezone: (form.get('timezone') as string) || undefined,
+        format: (form.get('format') as string) || (file.name.toLowerCase().endsWith('.json') ? 'json' : undefined),
+        content: await file.text(),
+      };
+    } else {
+      fields = await request.json();
+    }
+
+    if (!fields.symbol || !fields.content) {
+      return NextResponse.json(
+        { error: 'Symbol and content are required' },
+        { status: 400 }
+      );
+    }
+    if (fields.content.length > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: 'File is too large (max 20 MB)' },
+        { status: 413 }
+      );
+    }
+    if (fields.format && !['csv', 'json'].includes(fields.format)) {
+      return NextResponse.json(
+        { error: 'Format must be csv or json' },
+        { status: 400 }
+      );
+    }
+
+    const { dataset, report } = await MarketDataService.importDataset(session.user.id, {
+      name: fields.name,
+      symbol: fields.symbol,
+      timeframe: fields.timeframe,
+      timezone: fields.timezone,
+      format: fields.format as 'csv' | 'json' | undefined,
+      content: fields.content,
+    });
+
+    if (!dataset) {
+      return NextResponse.json(
+        { error: 'Dataset failed validation', details: report.errors, report },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: dataset,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error importing dataset:', error);
+    
+    if (error instanceof Error && error.message.startsWith('Unknown timeframe')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,36 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { subscriptionPlanManager } from '@/services/subscription';
+import { createChatStreamResponse, InsufficientTokensError, llmGateway, outOfTokensResponse, wantsChatStream } from '@/lib/llm';
+import type { LLMAccount, LLMMessage } from '@/lib/llm';
+import { validateAndRepair } from '@/lib/pine-repair';
+import type { PineRepairResult, PineValidationReport } from '@/lib/pine-repair';
 
-// Mock LLM response for now - replace with actual LLM integration
+type ChatMode = 'vibe' | 'spec' | 'general';
+
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+const MODE_PROMPTS: Record<ChatMode, string> = {
+  vibe: 'Work fast and iteratively: prototype the idea in code right away and refine it with the user.',
+  spec: 'Work spec-first: help the user define the hypothesis, entry and exit rules, risk management and parameters before writing code.',
+  general: 'Answer questions, explain concepts and write code when asked.'
+};
+
+function buildPineGeniePrompt(mode: ChatMode): string {
+  return `You are Pine Genie, an expert assistant for TradingView Pine Script v6 strategies and indicators.
+${MODE_PROMPTS[mode] || MODE_PROMPTS.general}
+Always write Pine Script v6 (//@version=6) in \`\`\`pinescript code blocks.`;
+}
+
+// Repair rounds continue the Pine Genie conversation, so they keep its system prompt
+function repairAnswer(content: string, messages: LLMMessage[], account: LLMAccount, signal?: AbortSignal): Promise<PineRepairResult> {
+  return validateAndRepair(content, messages, {
+    repair: history => llmGateway.complete({ messages: history, account: { ...account, requestType: 'repair' }, signal })
+  });
+}
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -36,11 +64,48 @@ export async function POST(request: NextRequest) {
     const lastMessage = messages[messages.length - 1];
     const userInput = lastMessage?.content || '';
 
-    // Generate contextual response based on Pine Script expertise
-    const response = generatePineScriptResponse(userInput, mode);
+    const conversation: ChatTurn[] = messages.map((message: ChatTurn) => ({
+      role: message.role,
+      content: message.content
+    }));
+    const llmMessages: LLMMessage[] = [{ role: 'system', content: buildPineGeniePrompt(mode) }, ...conversation];
+    const account: LLMAccount = { userId: session.user.id, requestType: 'chat' };
+
+    // Stream token deltas when the client accepts server-sent events
+    if (wantsChatStream(request)) {
+      return createChatStreamResponse(
+        signal => llmGateway.stream({ messages: llmMessages, account, signal }),
+        {
+          signal: request.signal,
+          fallback: () => generatePineScriptResponse(userInput, mode),
+          // The streamed script is checked once complete; the result carries the repaired code
+          buildResult: async (content, signal) => {
+            const repair = await repairAnswer(content, llmMessages, account, signal);
+            return { code: repair.code, validation: repair.report };
+          }
+        }
+      );
+    }
+
+    let response: string;
+    let validation: PineValidationReport | null = null;
+    try {
+      response = (await llmGateway.complete({ messages: llmMessages, account, signal: request.signal })).content;
+      const repair = await repairAnswer(response, llmMessages, account, request.signal);
+      response = repair.content;
+      validation = repair.report;
+    } catch (error) {
+      if (error instanceof InsufficientTokensError) {
+        return outOfTokensResponse(error);
+      }
+      console.error('Pine Genie model error, using built-in answer:', error);
+      // Generate contextual response based on Pine Script expertise
+      response = generatePineScriptResponse(userInput, mode);
+    }
 
     return NextResponse.json({
       content: response,
+      validation,
       timestamp: new Date().toISOString()
     });
 
@@ -53,7 +118,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function generatePineScriptResponse(userInput: string, mode: 'vibe' | 'spec' | 'general' = 'general'): string {
+function generatePineScriptResponse(userInput: string, mode: ChatMode = 'general'): string {
   const input = userInput.toLowerCase();
 
   // Strategy template suggestions
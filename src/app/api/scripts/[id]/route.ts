@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { prisma } from '@/lib/prisma';
+import { migratePine } from '@/lib/pinescript';
 
 
 // Force dynamic rendering
@@ -80,12 +81,15 @@ export async function PUT(
       );
     }
 
+    // Code pasted from Pine Script v4 or v5 is stored migrated to v6
+    const migration = code ? migratePine(code) : null;
+
     const script = await prisma.script.update({
       where: { id: params.id },
       data: {
         ...(title && { title }),
         ...(description !== undefined && { description }),
-        ...(code && { code }),
+        ...(migration && { code: migration.code }),
         ...(type && { type }),
         ...(status && { status }),
         ...(isPublic !== undefined && { isPublic }),
@@ -96,6 +100,13 @@ export async function PUT(
     return NextResponse.json({
       success: true,
       data: script,
+      ...(migration?.changed && {
+        migration: {
+          fromVersion: migration.fromVersion,
+          changes: migration.changes,
+          unsupported: migration.unsupported,
+        },
+      }),
     });
   } catch (error) {
     console.error('Error updating script:', error);
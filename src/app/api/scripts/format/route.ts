@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { formatPine } from '@/lib/pinescript';
+import type { PineFormatOptions } from '@/lib/pinescript';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+// Style options a request may override, with the type each must have
+const OPTION_TYPES: Record<keyof PineFormatOptions, 'number' | 'boolean'> = {
+  maxLineLength: 'number',
+  continuationIndent: 'number',
+  indentWithTabs: 'boolean',
+  maxBlankLines: 'number',
+  groupInputs: 'boolean'
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { code, options = {} } = body;
+
+    if (typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Code is required' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = Object.keys(options).find(key =>
+      !(key in OPTION_TYPES) || typeof options[key] !== OPTION_TYPES[key as keyof PineFormatOptions]
+    );
+    if (invalid) {
+      return NextResponse.json(
+        { error: `Invalid format option: ${invalid}` },
+        { status: 400 }
+      );
+    }
+
+    const result = formatPine(code, options);
+    if (result.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid Pine Script',
+          details: result.errors.map(error => `Line ${error.range.start.line}: ${error.message}`)
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        code: result.code,
+        changed: result.changed
+      }
+    });
+  } catch (error) {
+    console.error('Error formatting script:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
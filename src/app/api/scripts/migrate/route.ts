@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { migratePine } from '@/lib/pinescript';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { code } = body;
+
+    if (typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Code is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = migratePine(code);
+    if (result.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid Pine Script',
+          details: result.errors.map(error => `Line ${error.range.start.line}: ${error.message}`)
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        code: result.code,
+        changed: result.changed,
+        fromVersion: result.fromVersion,
+        changes: result.changes,
+        unsupported: result.unsupported
+      }
+    });
+  } catch (error) {
+    console.error('Error migrating script:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
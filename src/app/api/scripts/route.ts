@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { prisma } from '@/lib/prisma';
+import { migratePine } from '@/lib/pinescript';
 
 
 // Force dynamic rendering
@@ -112,8 +113,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Code pasted from Pine Script v4 or v5 is stored migrated to v6
+    const migration = code ? migratePine(code) : null;
+
     // Default Pine Script v6 template if no code provided
-    const defaultCode = code || `//@version=6
+    const defaultCode = migration?.code || `//@version=6
 indicator("${title}", overlay=true)
 
 // Your Pine Script v6 code will be generated here
@@ -134,6 +138,13 @@ plot(close, "Close", color=color.blue)`;
     return NextResponse.json({
       success: true,
       data: script,
+      ...(migration?.changed && {
+        migration: {
+          fromVersion: migration.fromVersion,
+          changes: migration.changes,
+          unsupported: migration.unsupported,
+        },
+      }),
     });
   } catch (error) {
     console.error('Error creating script:', error);
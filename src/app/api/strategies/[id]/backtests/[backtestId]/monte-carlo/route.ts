@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { prisma } from '@/lib/prisma';
+import { StrategyService } from '@/services/strategy-service';
+import { BacktestService } from '@/services/backtest-service';
+import { runMonteCarlo } from '@/lib/backtesting';
+import type { MonteCarloMethod } from '@/lib/backtesting';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const MONTE_CARLO_METHODS = ['reshuffle', 'resample'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; backtestId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const strategy = await StrategyService.checkStrategyAccess(params.id, session.user.id, 'READ');
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: 'Strategy not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const method = searchParams.get('method') || 'reshuffle';
+
+    if (!MONTE_CARLO_METHODS.includes(method)) {
+      return NextResponse.json(
+        { error: `Invalid method. Must be one of: ${MONTE_CARLO_METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const backtest = await prisma.backtestResult.findFirst({
+      where: {
+        id: params.backtestId,
+        strategyId: params.id,
+      },
+    });
+
+    if (!backtest) {
+      return NextResponse.json(
+        { error: 'Backtest not found' },
+        { status: 404 }
+      );
+    }
+
+    if (backtest.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Backtest has not completed yet', status: backtest.status },
+        { status: 409 }
+      );
+    }
+
+    const parsed = BacktestService.parseBacktestResult(backtest);
+    const trades = parsed.results.trades || [];
+
+    if (trades.length === 0) {
+      return NextResponse.json(
+        { error: 'Backtest has no closed trades to simulate' },
+        { status: 422 }
+      );
+    }
+
+    let report;
+    try {
+      report = runMonteCarlo(trades, {
+        method: method as MonteCarloMethod,
+        iterations: searchParams.has('iterations') ? Number(searchParams.get('iterations')) : undefined,
+        confidence: searchParams.has('confidence') ? Number(searchParams.get('confidence')) : undefined,
+        seed: searchParams.has('seed') ? Number(searchParams.get('seed')) : undefined,
+        initialCapital: parsed.config.initialCapital,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid Monte Carlo settings' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error running Monte Carlo analysis:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
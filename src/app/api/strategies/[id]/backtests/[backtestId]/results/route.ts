@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { prisma } from '@/lib/prisma';
+import { StrategyService } from '@/services/strategy-service';
+import { BacktestService } from '@/services/backtest-service';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; backtestId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const strategy = await StrategyService.checkStrategyAccess(params.id, session.user.id, 'READ');
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: 'Strategy not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const backtest = await prisma.backtestResult.findFirst({
+      where: {
+        id: params.backtestId,
+        strategyId: params.id,
+      },
+    });
+
+    if (!backtest) {
+      return NextResponse.json(
+        { error: 'Backtest not found' },
+        { status: 404 }
+      );
+    }
+
+    if (backtest.status !== 'completed') {
+      return NextResponse.json(
+        {
+          error: backtest.status === 'failed'
+            ? `Backtest failed: ${backtest.errorMessage || 'Unknown error'}`
+            : 'Backtest has not completed yet',
+          status: backtest.status,
+        },
+        { status: 409 }
+      );
+    }
+
+    const parsed = BacktestService.parseBacktestResult(backtest);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: parsed.id,
+        status: parsed.status,
+        config: parsed.config,
+        performanceMetrics: parsed.performanceMetrics,
+        trades: parsed.results.trades,
+        openTrade: parsed.results.openTrade,
+        openTrades: parsed.results.openTrades ?? (parsed.results.openTrade ? [parsed.results.openTrade] : []),
+        equityCurve: parsed.results.equityCurve,
+        drawdownSeries: parsed.results.drawdownSeries,
+        warnings: parsed.results.warnings,
+        completedAt: parsed.completedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching backtest results:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { prisma } from '@/lib/prisma';
+import { StrategyService } from '@/services/strategy-service';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; backtestId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const strategy = await StrategyService.checkStrategyAccess(params.id, session.user.id, 'READ');
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: 'Strategy not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const backtest = await prisma.backtestResult.findFirst({
+      where: {
+        id: params.backtestId,
+        strategyId: params.id,
+      },
+      select: {
+        id: true,
+        strategyId: true,
+        config: true,
+        performanceMetrics: true,
+        status: true,
+        errorMessage: true,
+        startedAt: true,
+        completedAt: true,
+      },
+    });
+
+    if (!backtest) {
+      return NextResponse.json(
+        { error: 'Backtest not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...backtest,
+        config: JSON.parse(backtest.config as string),
+        performanceMetrics: JSON.parse(backtest.performanceMetrics as string),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching backtest:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
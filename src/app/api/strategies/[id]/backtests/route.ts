@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { prisma } from '@/lib/prisma';
+import { StrategyService } from '@/services/strategy-service';
+import { BacktestService } from '@/services/backtest-service';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const BACKTEST_STATUSES = ['pending', 'running', 'completed', 'failed'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const strategy = await StrategyService.checkStrategyAccess(params.id, session.user.id, 'READ');
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: 'Strategy not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+
+    if (status && !BACKTEST_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${BACKTEST_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Trade lists and equity curves are served by the results endpoint
+    const backtests = await prisma.backtestResult.findMany({
+      where: {
+        strategyId: params.id,
+        ...(status && { status }),
+      },
+      select: {
+        id: true,
+        strategyId: true,
+        config: true,
+        performanceMetrics: true,
+        status: true,
+        errorMessage: true,
+        startedAt: true,
+        completedAt: true,
+      },
+      orderBy: {
+        startedAt: 'desc',
+      },
+      take: limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: backtests.map(backtest => ({
+        ...backtest,
+        config: JSON.parse(backtest.config as string),
+        performanceMetrics: JSON.parse(backtest.performanceMetrics as string),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching backtests:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const strategy = await StrategyService.checkStrategyAccess(params.id, session.user.id, 'WRITE');
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: 'Strategy not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { request: runRequest, errors } = await BacktestService.resolveRunRequest(body, session.user.id);
+
+    if (!runRequest) {
+      return NextResponse.json(
+        { error: 'Invalid backtest request', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const graph = BacktestService.parseStrategyGraph(strategy);
+
+    if (!graph) {
+      return NextResponse.json(
+        { error: 'Strategy graph is malformed and cannot be backtested' },
+        { status: 422 }
+      );
+    }
+
+    const backtest = await BacktestService.queueRun(strategy, graph, runRequest);
+
+    return NextResponse.json({
+      success: true,
+      data: backtest,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error queueing backtest:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
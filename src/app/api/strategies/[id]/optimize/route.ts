@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { StrategyService } from '@/services/strategy-service';
+import { BacktestService } from '@/services/backtest-service';
+import { OptimizationService } from '@/services/optimization-service';
+import {
+  ParameterOptimizer,
+  OptimizationAlgorithm,
+  DEFAULT_MARKET_CONDITIONS,
+} from '@/agents/pinegenie-ai/optimization/parameter-optimizer';
+import { MarketCondition } from '@/agents/pinegenie-ai/types/optimization-types';
+import type { BuilderEdge, BuilderNode } from '@/app/builder/builder-state';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+// Each iteration is a full backtest, so keep requests bounded
+const MAX_ITERATIONS = 500;
+const MAX_WALK_FORWARD_EVALUATIONS = 5000;
+const MAX_REGIME_EVALUATIONS = 1000;
+const WALK_FORWARD_MODES = ['anchored', 'rolling'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const strategy = await StrategyService.checkStrategyAccess(params.id, session.user.id, 'READ');
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: 'Strategy not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const algorithms = Object.values(OptimizationAlgorithm) as string[];
+
+    if (body.algorithm && !algorithms.includes(body.algorithm)) {
+      return NextResponse.json(
+        { error: `Invalid algorithm. Must be one of: ${algorithms.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const conditions = Object.values(MarketCondition) as string[];
+
+    if (body.marketConditions !== undefined && (
+      !Array.isArray(body.marketConditions) ||
+      body.marketConditions.some((condition: string) => !conditions.includes(condition))
+    )) {
+      return NextResponse.json(
+        { error: `marketConditions must be an array of: ${conditions.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { request: runRequest, errors } = await BacktestService.resolveRunRequest(body, session.user.id);
+
+    if (!runRequest) {
+      return NextResponse.json(
+        { error: 'Invalid optimization request', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const graph = BacktestService.parseStrategyGraph(strategy);
+
+    if (!graph) {
+      return NextResponse.json(
+        { error: 'Strategy graph is malformed and cannot be backtested' },
+        { status: 422 }
+      );
+    }
+
+    const { config, bars } = runRequest;
+    const nodes = graph.nodes as unknown as BuilderNode[];
+    const edges = graph.connections as unknown as BuilderEdge[];
+    const maxIterations = Math.min(Math.max(parseInt(body.maxIterations) || 100, 1), MAX_ITERATIONS);
+    const optimizer = new ParameterOptimizer();
+
+    if (body.constraints !== undefined) {
+      const constraintErrors = Array.isArray(body.constraints)
+        ? optimizer.validateConstraints(nodes, edges, body.constraints)
+        : ['constraints must be an array'];
+
+      if (constraintErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid constraints', details: constraintErrors },
+          { status: 400 }
+        );
+      }
+    }
+
+    const walkForward = body.walkForward;
+    if (walkForward) {
+      const trainBars = parseInt(walkForward.trainBars);
+      const testBars = parseInt(walkForward.testBars);
+      const stepBars = walkForward.stepBars === undefined ? testBars : parseInt(walkForward.stepBars);
+
+      if (!WALK_FORWARD_MODES.includes(walkForward.mode) || !(trainBars > 0) || !(testBars > 0) || !(stepBars > 0)) {
+        return NextResponse.json(
+          { error: `walkForward needs a mode (${WALK_FORWARD_MODES.join(' or ')}) and positive trainBars, testBars and stepBars` },
+          { status: 400 }
+        );
+      }
+
+      const windowCount = Math.max(0, Math.floor((bars.length - trainBars - testBars) / stepBars) + 1);
+      if (windowCount * maxIterations > MAX_WALK_FORWARD_EVALUATIONS) {
+        return NextResponse.json(
+          { error: `Walk-forward would run ${windowCount} windows of ${maxIterations} iterations; reduce them to at most ${MAX_WALK_FORWARD_EVALUATIONS} evaluations` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const marketConditions: MarketCondition[] | undefined = body.marketConditions && [...new Set<MarketCondition>(body.marketConditions)];
+    const tuneByRegime = body.tuneByRegime === true;
+
+    // Regime tuning repeats the whole search once per market condition
+    const regimeCount = tuneByRegime && !walkForward ? (marketConditions ?? DEFAULT_MARKET_CONDITIONS).length : 0;
+    if (regimeCount * maxIterations > MAX_REGIME_EVALUATIONS) {
+      return NextResponse.json(
+        { error: `Regime tuning would run ${regimeCount} searches of ${maxIterations} iterations; reduce them to at most ${MAX_REGIME_EVALUATIONS} evaluations` },
+        { status: 400 }
+      );
+    }
+
+    const optimizationConfig = {
+      ...(body.algorithm && { algorithm: body.algorithm }),
+      ...(Array.isArray(body.objectives) && { objectives: body.objectives }),
+      ...(body.constraints && { constraints: body.constraints }),
+      ...(typeof body.seed === 'number' && { seed: body.seed }),
+      ...(walkForward && { walkForward }),
+      ...(marketConditions && { marketConditions }),
+      tuneByRegime,
+      maxIterations,
+      backtestConfig: {
+        initialCapital: config.initialCapital,
+        commissionPercent: config.commission,
+        slippageTicks: config.slippageTicks,
+        tickSize: config.tickSize,
+        qtyPercentOfEquity: config.qtyPercentOfEquity,
+      },
+    };
+
+    const result = walkForward
+      ? await OptimizationService.walkForward(nodes, edges, bars, optimizationConfig)
+      : await OptimizationService.optimize(nodes, edges, bars, optimizationConfig);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Optimization failed' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        dataset: {
+          datasetId: config.datasetId,
+          symbol: config.symbol,
+          timeframe: config.timeframe,
+          resampledFrom: config.resampledFrom,
+          barCount: bars.length,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error optimizing strategy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
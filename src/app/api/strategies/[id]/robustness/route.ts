@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { StrategyService } from '@/services/strategy-service';
+import { BacktestService } from '@/services/backtest-service';
+import { OptimizationService } from '@/services/optimization-service';
+import { ParameterOptimizer } from '@/agents/pinegenie-ai/optimization/parameter-optimizer';
+import { ImprovementSuggester } from '@/agents/pinegenie-ai/optimization/improvement-suggester';
+import type { BuilderEdge, BuilderNode } from '@/app/builder/builder-state';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const strategy = await StrategyService.checkStrategyAccess(params.id, session.user.id, 'READ');
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: 'Strategy not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { request: runRequest, errors } = await BacktestService.resolveRunRequest(body, session.user.id);
+
+    if (!runRequest) {
+      return NextResponse.json(
+        { error: 'Invalid robustness request', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const graph = BacktestService.parseStrategyGraph(strategy);
+
+    if (!graph) {
+      return NextResponse.json(
+        { error: 'Strategy graph is malformed and cannot be backtested' },
+        { status: 422 }
+      );
+    }
+
+    const { config, bars } = runRequest;
+    const nodes = graph.nodes as unknown as BuilderNode[];
+    const edges = graph.connections as unknown as BuilderEdge[];
+
+    const optimizer = new ParameterOptimizer();
+
+    if (body.constraints !== undefined) {
+      const constraintErrors = Array.isArray(body.constraints)
+        ? optimizer.validateConstraints(nodes, edges, body.constraints)
+        : ['constraints must be an array'];
+
+      if (constraintErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid constraints', details: constraintErrors },
+          { status: 400 }
+        );
+      }
+    }
+
+    const report = await OptimizationService.analyzeRobustness(nodes, edges, bars, {
+      ...(body.constraints && { constraints: body.constraints }),
+      ...(typeof body.seed === 'number' && { seed: body.seed }),
+      backtestConfig: {
+        initialCapital: config.initialCapital,
+        commissionPercent: config.commission,
+        slippageTicks: config.slippageTicks,
+        tickSize: config.tickSize,
+        qtyPercentOfEquity: config.qtyPercentOfEquity,
+      },
+    }, {
+      jitterPercent: body.jitterPercent,
+      jitterSteps: body.jitterSteps,
+      fragilityThreshold: body.fragilityThreshold,
+      monteCarlo: body.monteCarlo,
+    });
+
+    if (!report.success) {
+      return NextResponse.json(
+        { error: report.error || 'Robustness analysis failed' },
+        { status: 422 }
+      );
+    }
+
+    const suggestions = new ImprovementSuggester().generateImprovements(nodes, edges, report);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...report,
+        suggestions,
+      },
+    });
+  } catch (error) {
+    console.error('Error analyzing strategy robustness:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
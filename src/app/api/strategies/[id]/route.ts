@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { prisma } from '@/lib/prisma';
+import { StrategyService } from '@/services/strategy-service';
 
 
 // Force dynamic rendering
@@ -205,18 +206,6 @@ export async function PUT(
       }
     }
 
-    // Check if this is a significant change that warrants a new version
-    const shouldCreateVersion = 
-      (nodes && JSON.stringify(nodes) !== existingStrategy.nodes) ||
-      (connections && JSON.stringify(connections) !== existingStrategy.connections) ||
-      (pineScriptCode && pineScriptCode !== existingStrategy.pineScriptCode);
-
-    let newVersion = existingStrategy.version;
-    
-    if (shouldCreateVersion) {
-      newVersion = existingStrategy.version + 1;
-    }
-
     // Update the strategy
     const strategy = await prisma.strategy.update({
       where: { id: params.id },
@@ -230,7 +219,6 @@ export async function PUT(
         ...(isPublic !== undefined && { isPublic }),
         ...(tags && { tags: JSON.stringify(tags) }),
         ...(folderId !== undefined && { folderId }),
-        ...(shouldCreateVersion && { version: newVersion }),
       },
       include: {
         folder: {
@@ -250,20 +238,13 @@ export async function PUT(
       },
     });
 
-    // Create new version if significant changes were made
-    if (shouldCreateVersion) {
-      await prisma.strategyVersion.create({
-        data: {
-          strategyId: strategy.id,
-          version: newVersion,
-          name: name || strategy.name,
-          description: description !== undefined ? description : strategy.description,
-          nodes: nodes ? JSON.stringify(nodes) : strategy.nodes,
-          connections: connections ? JSON.stringify(connections) : strategy.connections,
-          pineScriptCode: pineScriptCode !== undefined ? pineScriptCode : strategy.pineScriptCode,
-          changeLog: changeLog || `Version ${newVersion} - Updated strategy`,
-        },
-      });
+    // Snapshot a version once enough has changed since the last one. The save
+    // is already committed, so a failed snapshot must not turn it into an error
+    let snapshot: Awaited<ReturnType<typeof StrategyService.snapshotOnSave>> = null;
+    try {
+      snapshot = await StrategyService.snapshotOnSave(strategy, changeLog);
+    } catch (error) {
+      console.error(`Error snapshotting a version of strategy ${strategy.id}:`, error);
     }
 
     // Parse the response data
@@ -276,7 +257,11 @@ export async function PUT(
 
     return NextResponse.json({
       success: true,
-      data: responseStrategy,
+      data: {
+        ...responseStrategy,
+        version: snapshot?.version ?? strategy.version,
+      },
+      snapshot: snapshot ? { id: snapshot.id, version: snapshot.version, changeLog: snapshot.changeLog } : null,
     });
   } catch (error) {
     console.error('Error updating strategy:', error);
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { prisma } from '@/lib/prisma';
+import { StrategyService } from '@/services/strategy-service';
+import { diffLines, diffStrategyGraphs } from '@/app/builder/strategy-diff';
+
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+// The strategy's unsaved working state, as opposed to a saved version id
+const CURRENT = 'current';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to') || CURRENT;
+
+    if (!from) {
+      return NextResponse.json(
+        { error: 'The from version is required' },
+        { status: 400 }
+      );
+    }
+
+    const strategy = await StrategyService.checkStrategyAccess(params.id, session.user.id, 'READ');
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: 'Strategy not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const resolve = async (versionId: string) => {
+      if (versionId === CURRENT) {
+        return { ...strategy, id: CURRENT, changeLog: null, createdAt: strategy.updatedAt };
+      }
+      return prisma.strategyVersion.findFirst({
+        where: {
+          id: versionId,
+          strategyId: params.id,
+        },
+      });
+    };
+
+    const [before, after] = await Promise.all([resolve(from), resolve(to)]);
+
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    const graph = diffStrategyGraphs(
+      { nodes: JSON.parse(before.nodes as string), edges: JSON.parse(before.connections as string) },
+      { nodes: JSON.parse(after.nodes as string), edges: JSON.parse(after.connections as string) }
+    );
+    const pine = diffLines(before.pineScriptCode || '', after.pineScriptCode || '');
+
+    const describe = (side: typeof before) => ({
+      id: side.id,
+      version: side.version,
+      name: side.name,
+      changeLog: side.changeLog,
+      createdAt: side.createdAt,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from: describe(before),
+        to: describe(after),
+        graph,
+        pine,
+      },
+    });
+  } catch (error) {
+    console.error('Error comparing strategy versions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
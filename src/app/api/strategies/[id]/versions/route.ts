@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { prisma } from '@/lib/prisma';
+import { StrategyService } from '@/services/strategy-service';
 
 
 // Force dynamic rendering
@@ -117,37 +118,18 @@ export async function POST(
       );
     }
 
-    // Get the latest version number
-    const latestVersion = await prisma.strategyVersion.findFirst({
-      where: {
-        strategyId: params.id,
-      },
-      orderBy: {
-        version: 'desc',
-      },
+    // Numbered under the strategy's version lock, like versions snapshotted on save
+    const { version: newVersion } = await StrategyService.createVersion(params.id, {
+      name: name || strategy.name,
+      description: description || strategy.description,
+      nodes: strategy.nodes,
+      connections: strategy.connections,
+      pineScriptCode: strategy.pineScriptCode,
+      changeLog,
     });
 
-    const newVersionNumber = (latestVersion?.version || 0) + 1;
-
-    // Create new version from current strategy state
-    const newVersion = await prisma.strategyVersion.create({
-      data: {
-        strategyId: params.id,
-        version: newVersionNumber,
-        name: name || strategy.name,
-        description: description || strategy.description,
-        nodes: strategy.nodes,
-        connections: strategy.connections,
-        pineScriptCode: strategy.pineScriptCode,
-        changeLog: changeLog || `Version ${newVersionNumber}`,
-      },
-    });
-
-    // Update strategy version number
-    await prisma.strategy.update({
-      where: { id: params.id },
-      data: { version: newVersionNumber },
-    });
+    // Keep only as many versions as the owner's plan allows
+    await StrategyService.pruneVersions(params.id, strategy.userId);
 
     // Parse the response data
     const responseVersion = {
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { prisma } from '@/lib/prisma';
 import { StrategyImportData } from '@/types/strategy';
+import { importPineScript } from '@/app/builder/pinescript-importer';
 
 
 // Force dynamic rendering
@@ -22,27 +23,46 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { 
       importData, 
+      pineScript,
+      name,
       folderId, 
       preserveVersions = false,
       overwriteExisting = false 
     } = body;
 
-    if (!importData) {
+    if (!importData && !pineScript) {
       return NextResponse.json(
-        { error: 'Import data is required' },
+        { error: 'Import data or Pine Script is required' },
+        { status: 400 }
+      );
+    }
+
+    // Pine Script is rebuilt into builder nodes; what cannot be mapped stays in raw Pine nodes
+    const pineImport = pineScript ? importPineScript(String(pineScript)) : null;
+    if (pineImport && !pineImport.success) {
+      return NextResponse.json(
+        { error: 'Invalid Pine Script', details: pineImport.errors },
         { status: 400 }
       );
     }
 
     // Validate import data structure
-    if (!importData.strategy || !importData.strategy.name) {
+    if (!pineImport && (!importData.strategy || !importData.strategy.name)) {
       return NextResponse.json(
         { error: 'Invalid import data: strategy name is required' },
         { status: 400 }
       );
     }
 
-    const strategyData = importData.strategy;
+    const strategyData = pineImport
+      ? {
+          name: name || pineImport.title || 'Imported Pine Script',
+          description: 'Imported from Pine Script',
+          nodes: pineImport.nodes,
+          connections: pineImport.edges,
+          pineScriptCode: String(pineScript)
+        }
+      : importData.strategy;
 
     // Validate required fields
     if (!strategyData.nodes || !Array.isArray(strategyData.nodes)) {
@@ -153,7 +173,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Import versions if requested and available
-    if (preserveVersions && importData.versions && Array.isArray(importData.versions)) {
+    if (preserveVersions && importData?.versions && Array.isArray(importData.versions)) {
       for (const versionData of importData.versions) {
         if (versionData.version > 1) { // Skip version 1 as it's already created
           await prisma.strategyVersion.create({
@@ -203,7 +223,8 @@ export async function POST(request: NextRequest) {
       success: true,
       data: responseStrategy,
       message: `Strategy "${finalName}" imported successfully`,
-      versionsImported: preserveVersions && importData.versions ? importData.versions.length : 1,
+      versionsImported: preserveVersions && importData?.versions ? importData.versions.length : 1,
+      ...(pineImport && { warnings: pineImport.warnings }),
     });
   } catch (error) {
     console.error('Error importing strategy:', error);
@@ -0,0 +1,338 @@
+/**
+ * Enhanced Pine Script Generator Tests
+ * Logic nodes combine condition signals into parenthesized Pine expressions
+ */
+
+import { generateEnhancedPineScript } from '../enhanced-pinescript-generator';
+import type { CustomEdge, CustomNode, NodeConfig, NodeType } from '../canvas-config';
+
+function node(id: string, type: NodeType, label: string, config: NodeConfig = {}): CustomNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { id, label, type, config } };
+}
+
+function edge(source: string, target: string): CustomEdge {
+  return { id: `${source}_${target}`, source, target };
+}
+
+// RSI, SMA and MACD conditions that logic nodes can combine
+function confirmationStrategy(logic: CustomNode[], logicEdges: CustomEdge[]) {
+  const nodes = [
+    node('data', 'data-source', 'Price Data'),
+    node('rsi', 'indicator', 'RSI', { indicatorId: 'rsi' }),
+    node('sma', 'indicator', 'SMA', { indicatorId: 'sma' }),
+    node('macd', 'indicator', 'MACD', { indicatorId: 'macd' }),
+    node('oversold', 'condition', 'Oversold', { operator: 'less_than', threshold: 30 }),
+    node('uptrend', 'condition', 'Uptrend', { operator: 'greater_than', threshold: 100 }),
+    node('momentum', 'condition', 'Momentum', { operator: 'crosses_above', threshold: 0 }),
+    node('buy', 'action', 'Buy Order', { orderType: 'market', quantity: '10%' }),
+    ...logic
+  ];
+  const edges = [
+    edge('data', 'rsi'),
+    edge('data', 'sma'),
+    edge('data', 'macd'),
+    edge('rsi', 'oversold'),
+    edge('sma', 'uptrend'),
+    edge('macd', 'momentum'),
+    ...logicEdges
+  ];
+  return generateEnhancedPineScript(nodes, edges);
+}
+
+describe('EnhancedPineScriptGenerator logic nodes', () => {
+  test('nests OR inside AND with parentheses and enters on the combined signal', () => {
+    const result = confirmationStrategy(
+      [
+        node('either', 'logic', 'OR', { logicOperator: 'or' }),
+        node('entry', 'logic', 'Entry Signal', { logicOperator: 'and' })
+      ],
+      [
+        edge('uptrend', 'either'),
+        edge('momentum', 'either'),
+        edge('oversold', 'entry'),
+        edge('either', 'entry'),
+        edge('entry', 'buy')
+      ]
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('entry_signal = oversold and (uptrend or momentum)');
+    expect(result.code).not.toMatch(/^or = /m);
+    expect(result.code).toContain('buy_order = entry_signal');
+  });
+
+  test('negates a compound signal and votes N of M', () => {
+    const result = confirmationStrategy(
+      [
+        node('both', 'logic', 'AND', { logicOperator: 'and' }),
+        node('not', 'logic', 'Not Both', { logicOperator: 'not' }),
+        node('vote', 'logic', 'Two Of Three', { logicOperator: 'n_of_m', requiredCount: 2 })
+      ],
+      [
+        edge('oversold', 'both'),
+        edge('uptrend', 'both'),
+        edge('both', 'not'),
+        edge('not', 'buy'),
+        edge('oversold', 'vote'),
+        edge('uptrend', 'vote'),
+        edge('momentum', 'vote'),
+        edge('vote', 'buy')
+      ]
+    );
+
+    expect(result.code).toContain('not_both = not (oversold and uptrend)');
+    expect(result.code).toContain('two_of_three = (oversold ? 1 : 0) + (uptrend ? 1 : 0) + (momentum ? 1 : 0) >= 2');
+    expect(result.code).toContain('buy_order = not_both and two_of_three');
+  });
+
+  test('counts consecutive and recent bars with math.sum', () => {
+    const result = confirmationStrategy(
+      [
+        node('held', 'logic', 'Held', { logicOperator: 'consecutive', bars: 3 }),
+        node('recent', 'logic', 'Recent', { logicOperator: 'within', bars: 5 }),
+        node('both', 'logic', 'AND', { logicOperator: 'and' })
+      ],
+      [
+        edge('uptrend', 'held'),
+        edge('momentum', 'recent'),
+        edge('held', 'both'),
+        edge('recent', 'both'),
+        edge('both', 'buy')
+      ]
+    );
+
+    expect(result.code).toContain('and_logic = math.sum(uptrend ? 1 : 0, 3) == 3 and math.sum(momentum ? 1 : 0, 5) > 0');
+  });
+
+  test('rejects logic nodes with missing, excess or non-signal inputs', () => {
+    const result = confirmationStrategy(
+      [
+        node('empty', 'logic', 'Empty', { logicOperator: 'and' }),
+        node('not', 'logic', 'Not', { logicOperator: 'not' }),
+        node('vote', 'logic', 'Vote', { logicOperator: 'n_of_m', requiredCount: 3 }),
+        node('held', 'logic', 'Held', { logicOperator: 'consecutive', bars: 0 })
+      ],
+      [
+        edge('oversold', 'not'),
+        edge('uptrend', 'not'),
+        edge('rsi', 'vote'),
+        edge('oversold', 'vote'),
+        edge('uptrend', 'vote'),
+        edge('momentum', 'held')
+      ]
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Logic node "Empty" has no connected signals',
+      'Logic node "Not" (not) takes exactly one signal but has 2',
+      'Logic node "Vote" only combines conditions and logic nodes, not "RSI"',
+      'Logic node "Vote" requires 3 of 2 signals',
+      'Logic node "Held" bars must be a positive integer'
+    ]));
+  });
+});
+
+// RSI entries and exits that risk and timing nodes attach to
+function protectedStrategy(extra: CustomNode[], extraEdges: CustomEdge[] = []) {
+  const nodes = [
+    node('data', 'data-source', 'Price Data'),
+    node('rsi', 'indicator', 'RSI', { indicatorId: 'rsi' }),
+    node('oversold', 'condition', 'Oversold', { operator: 'less_than', threshold: 30 }),
+    node('overbought', 'condition', 'Overbought', { operator: 'greater_than', threshold: 70 }),
+    node('falling', 'condition', 'Falling', { operator: 'crosses_below', threshold: 50 }),
+    node('buy', 'action', 'Buy Order', { orderType: 'market', quantity: '10%' }),
+    node('sell', 'action', 'Sell Order', { orderType: 'market', quantity: '100%' }),
+    ...extra
+  ];
+  const edges = [
+    edge('data', 'rsi'),
+    edge('rsi', 'oversold'),
+    edge('rsi', 'overbought'),
+    edge('rsi', 'falling'),
+    edge('oversold', 'buy'),
+    edge('overbought', 'sell'),
+    edge('falling', 'sell'),
+    ...extraEdges
+  ];
+  return generateEnhancedPineScript(nodes, edges);
+}
+
+describe('EnhancedPineScriptGenerator risk and timing nodes', () => {
+  test('compiles percent, ATR and trailing risk nodes to one strategy.exit each', () => {
+    const result = protectedStrategy([
+      node('sl', 'risk', 'Stop Loss', { stopLoss: 2, maxRisk: 1 }),
+      node('atr', 'risk', 'ATR Stop', { riskUnit: 'atr', atrPeriod: 10, stopLoss: 2, takeProfit: 4 }),
+      node('trail', 'risk', 'Trailing Stop', { trailingStop: 1.5 })
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('stop_loss_stop = strategy.position_avg_price - strategy.position_avg_price * 0.02');
+    expect(result.code).toContain('strategy.exit("stop_loss", "Long", stop=stop_loss_stop)');
+    expect(result.code).toContain('atr_stop_atr = ta.atr(10)');
+    expect(result.code).toContain('if buy_order and strategy.position_size == 0\n    atr_stop_entry_atr := atr_stop_atr');
+    expect(result.code).toContain('atr_stop_limit = strategy.position_avg_price + atr_stop_entry_atr * 4');
+    expect(result.code).toContain('strategy.exit("atr_stop", "Long", stop=atr_stop_stop, limit=atr_stop_limit)');
+    expect(result.code).toContain(
+      'trailing_stop_trail = math.max(1, math.round(strategy.position_avg_price * 0.015 / syminfo.mintick))'
+    );
+    expect(result.code).toContain('strategy.exit("trailing_stop", "Long", trail_points=0, trail_offset=trailing_stop_trail)');
+  });
+
+  test('guards entries with unwired timing nodes and exits with the ones wired to them', () => {
+    const result = protectedStrategy(
+      [
+        node('session', 'timing', 'Session', {
+          startTime: '09:30',
+          endTime: '16:00',
+          timezone: 'America/New_York',
+          daysOfWeek: ['mon', 'tue', 'wed', 'thu', 'fri']
+        }),
+        node('year', 'timing', 'Year', { startDate: '2024-01-01', endDate: '2024-12-31' })
+      ],
+      [edge('year', 'sell')]
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('session = not na(time(timeframe.period, "0930-1600:23456", "America/New_York"))');
+    expect(result.code).toContain(
+      'year = time >= timestamp("UTC", 2024, 1, 1, 0, 0) and time < timestamp("UTC", 2025, 1, 1, 0, 0)'
+    );
+    expect(result.code).toContain('buy_order = oversold and session');
+    expect(result.code).toContain('sell_order = (overbought or falling) and year');
+  });
+
+  test('rejects invalid risk distances and timing settings', () => {
+    const result = protectedStrategy([
+      node('sl', 'risk', 'Wide Stop', { stopLoss: 120 }),
+      node('atr', 'risk', 'ATR Stop', { riskUnit: 'atr', atrPeriod: 0, takeProfit: -1 }),
+      node('size', 'risk', 'Position Size', { maxRisk: 1 }),
+      node('hours', 'timing', 'Hours', { startTime: '9am', timezone: 'Mars/Olympus' }),
+      node('dates', 'timing', 'Dates', { startDate: '2024-06-01', endDate: '2024-02-30', daysOfWeek: [] })
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Risk node "Wide Stop" stopLoss must be below 100%',
+      'Risk node "ATR Stop" takeProfit must be a positive number',
+      'Risk node "ATR Stop" atrPeriod must be a positive integer',
+      'Timing node "Hours" needs both a start and an end time',
+      'Timing node "Hours" startTime "9am" must be HH:MM',
+      'Unknown timezone "Mars/Olympus" in timing node "Hours"',
+      'Timing node "Dates" has no trading days',
+      'Timing node "Dates" endDate "2024-02-30" must be a YYYY-MM-DD date'
+    ]));
+    expect(result.warnings).toContain('Risk node "Position Size" sets no stop loss, take profit or trailing stop');
+  });
+});
+
+describe('EnhancedPineScriptGenerator action nodes', () => {
+  // RSI signals wired into typed actions; the labels are deliberately misleading
+  function orderStrategy(actions: CustomNode[], extra: CustomNode[] = []) {
+    const nodes = [
+      node('data', 'data-source', 'Price Data'),
+      node('rsi', 'indicator', 'RSI', { indicatorId: 'rsi' }),
+      node('oversold', 'condition', 'Oversold', { operator: 'less_than', threshold: 30 }),
+      node('overbought', 'condition', 'Overbought', { operator: 'greater_than', threshold: 70 }),
+      ...actions,
+      ...extra
+    ];
+    const edges = [
+      edge('data', 'rsi'),
+      edge('rsi', 'oversold'),
+      edge('rsi', 'overbought'),
+      ...actions.map(action => edge(action.data.config?.direction === 'short' ? 'overbought' : 'oversold', action.id))
+    ];
+    return generateEnhancedPineScript(nodes, edges);
+  }
+
+  test('emits short entries, priced orders and sized quantities from the action config', () => {
+    const result = orderStrategy(
+      [
+        node('short', 'action', 'Buy The Dip', {
+          actionKind: 'entry', direction: 'short', orderType: 'limit', orderOffset: 0.5, quantity: '20%', entryId: 'Fade'
+        }),
+        node('add', 'action', 'Add', {
+          actionKind: 'order', direction: 'long', orderType: 'stop', orderOffset: 1, quantity: 3, quantityMode: 'fixed'
+        }),
+        node('cover', 'action', 'Sell Order', { actionKind: 'exit', entryId: 'Fade' }),
+        node('risked', 'action', 'Risked', { actionKind: 'entry', quantity: 1, quantityMode: 'risk', pyramiding: 3 })
+      ],
+      [node('sl', 'risk', 'Stop Loss', { stopLoss: 2 })]
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('pyramiding=3,');
+    expect(result.code).toContain('strategy.entry("Fade", strategy.short, qty=strategy.equity * 0.2 / close, limit=close * 1.005)');
+    expect(result.code).toContain('strategy.order("Buy", strategy.long, qty=3, stop=close * 1.01)');
+    expect(result.code).toContain('if sell_order\n    strategy.close("Fade")');
+    expect(result.code).toContain('strategy.entry("Long", strategy.long, qty=strategy.equity * 0.01 / (close * 0.02))');
+    expect(result.code).toContain('stop_loss_short_stop = strategy.position_avg_price + strategy.position_avg_price * 0.02');
+    expect(result.code).toContain('strategy.exit("stop_loss Fade", "Fade", stop=stop_loss_short_stop)');
+    expect(result.code).toContain('plotshape(buy_the_dip, title="Buy The Dip", location=location.abovebar, color=color.red');
+  });
+
+  test('keeps what an action does when it is renamed', () => {
+    const entry = { actionKind: 'entry' as const, direction: 'long' as const };
+    const before = orderStrategy([node('a', 'action', 'Buy Order', entry)]);
+    const after = orderStrategy([node('a', 'action', 'Sell Order', entry)]);
+    const orders = (code: string) => code.split('\n').filter(line => line.includes('strategy.'));
+
+    expect(orders(after.code)).toEqual(orders(before.code));
+    expect(after.warnings.join('\n')).not.toContain('treating it as');
+  });
+
+  test('rejects invalid order settings and warns about untyped legacy actions', () => {
+    const result = orderStrategy([
+      node('bad', 'action', 'Bad', { actionKind: 'entry', direction: 'sideways' as 'long', quantity: -1, pyramiding: 1.5 }),
+      node('sized', 'action', 'Sized', { actionKind: 'entry', quantity: 1, quantityMode: 'risk' }),
+      node('legacy', 'action', 'Buy Order', { quantity: '10%' })
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('Action node "Bad"'),
+      'Action node "Sized" sizes by risk but no risk node sets a stop loss'
+    ]));
+    expect(result.warnings.join('\n')).toContain('Action node "Buy Order" has no action type; treating it as a long entry');
+  });
+});
+
+describe('EnhancedPineScriptGenerator raw Pine nodes', () => {
+  test('renames connected inputs and emits code that reads signals after the strategy logic', () => {
+    const result = generateEnhancedPineScript(
+      [
+        node('data', 'data-source', 'Price Data'),
+        node('rsi', 'indicator', 'RSI', { indicatorId: 'rsi' }),
+        node('smooth', 'raw-pine', 'Smoothing', { pineCode: 'smooth = ta.sma(src, 3)', pineInputs: ['src'], pineOutputs: ['smooth'] }),
+        node('low', 'condition', 'Smooth Low', { operator: 'less_than', threshold: 30 }),
+        node('buy', 'action', 'Buy', { actionKind: 'entry', direction: 'long' }),
+        node('notify', 'raw-pine', 'Notify', { pineCode: 'if signal\r\n    alert("Smoothed RSI is low")', pineInputs: ['signal'] })
+      ],
+      [
+        edge('data', 'rsi'),
+        { ...edge('rsi', 'smooth'), targetHandle: 'src' },
+        { ...edge('smooth', 'low'), sourceHandle: 'smooth' },
+        edge('low', 'buy'),
+        { ...edge('low', 'notify'), targetHandle: 'signal' }
+      ]
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.code).toContain('// Smoothing\nsmooth = ta.sma(rsi, 3)');
+    expect(result.code).toContain('smooth_low = smooth < 30');
+    expect(result.code).toContain('// Notify\nif smooth_low\n    alert("Smoothed RSI is low")');
+    expect(result.code.indexOf('smooth = ta.sma')).toBeLessThan(result.code.indexOf('smooth_low = '));
+    expect(result.code.indexOf('strategy.entry(')).toBeLessThan(result.code.indexOf('if smooth_low\n    alert'));
+  });
+
+  test('rejects raw Pine that does not parse', () => {
+    const result = generateEnhancedPineScript(
+      [node('data', 'data-source', 'Price Data'), node('bad', 'raw-pine', 'Bad', { pineCode: 'x = (close +' })],
+      []
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([expect.stringMatching(/^Raw Pine node "Bad" line 1: /)]);
+  });
+});
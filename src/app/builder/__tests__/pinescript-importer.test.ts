@@ -0,0 +1,185 @@
+/**
+ * Pine Script Importer Tests
+ * Generated strategies re-import to the same graph; hand-written code keeps what it cannot map in raw Pine nodes
+ */
+
+import { importPineScript } from '../pinescript-importer';
+import { generateEnhancedPineScript } from '../enhanced-pinescript-generator';
+import { INDICATOR_PINE_SPECS } from '../data/indicator-registry';
+import { getIndicatorById } from '../data/indicator-defs';
+import type { CustomEdge, CustomNode, NodeConfig, NodeType } from '../canvas-config';
+
+function node(id: string, type: NodeType, label: string, config: NodeConfig = {}): CustomNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { id, label, type, config } };
+}
+
+function edge(source: string, target: string, targetHandle?: string): CustomEdge {
+  return { id: `${source}_${target}`, source, target, targetHandle };
+}
+
+function summarize(nodes: CustomNode[]): Array<[string, NodeConfig | undefined]> {
+  return nodes.map(item => [item.type!, item.data.config]);
+}
+
+// Edges as label:handle -> label:handle
+function wiring(nodes: CustomNode[], edges: CustomEdge[]): string[] {
+  const label = (id: string) => nodes.find(item => item.id === id)!.data.label;
+  return edges.map(item => `${label(item.source)}${item.sourceHandle ? `:${item.sourceHandle}` : ''} -> ${label(item.target)}${item.targetHandle ? `:${item.targetHandle}` : ''}`);
+}
+
+describe('importPineScript', () => {
+  test('re-imports a generated strategy to the same nodes and code', () => {
+    const { code } = generateEnhancedPineScript(
+      [
+        node('data', 'data-source', 'Price Data'),
+        node('rsi', 'indicator', 'RSI', { indicatorId: 'rsi' }),
+        node('macd', 'indicator', 'MACD', { indicatorId: 'macd' }),
+        node('oversold', 'condition', 'Oversold', { operator: 'less_than', threshold: 30 }),
+        node('momentum', 'condition', 'Momentum', { operator: 'crosses_above', threshold: 0 }),
+        node('vote', 'logic', 'Vote', { logicOperator: 'n_of_m', requiredCount: 1 }),
+        node('session', 'timing', 'Session', { startTime: '09:30', endTime: '16:00', daysOfWeek: ['mon', 'tue'], timezone: 'America/New_York' }),
+        node('buy', 'action', 'Buy', { actionKind: 'entry', direction: 'long', quantityMode: 'risk', quantity: 1, pyramiding: 2 }),
+        node('sell', 'action', 'Sell', { actionKind: 'exit' }),
+        node('stop', 'risk', 'Stop', { riskUnit: 'atr', atrPeriod: 10, stopLoss: 2, takeProfit: 4 })
+      ],
+      [
+        edge('data', 'rsi'),
+        edge('data', 'macd'),
+        edge('rsi', 'oversold'),
+        edge('macd', 'momentum'),
+        edge('oversold', 'vote'),
+        edge('momentum', 'vote'),
+        edge('vote', 'buy'),
+        edge('session', 'buy'),
+        edge('momentum', 'sell')
+      ]
+    );
+
+    const result = importPineScript(code);
+
+    expect(result).toMatchObject({ success: true, title: 'PineGenie Strategy', errors: [], warnings: [] });
+    expect(summarize(result.nodes)).toEqual([
+      ['data-source', {}],
+      ['indicator', { indicatorId: 'rsi', parameters: { source: 'close', period: 14, overboughtLevel: 70, oversoldLevel: 30 } }],
+      ['indicator', { indicatorId: 'macd', parameters: { source: 'close', fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 } }],
+      ['condition', { operator: 'less_than', threshold: 30 }],
+      ['condition', { operator: 'crosses_above', threshold: 0 }],
+      ['logic', { logicOperator: 'n_of_m', requiredCount: 1 }],
+      ['timing', { startTime: '09:30', endTime: '16:00', daysOfWeek: ['mon', 'tue'], timezone: 'America/New_York' }],
+      ['action', { actionKind: 'entry', direction: 'long', quantityMode: 'risk', quantity: 1, pyramiding: 2 }],
+      ['action', { actionKind: 'exit' }],
+      ['risk', { riskUnit: 'atr', atrPeriod: 10, stopLoss: 2, takeProfit: 4 }]
+    ]);
+    expect(wiring(result.nodes, result.edges)).toEqual(expect.arrayContaining([
+      'macd:macd -> momentum',
+      'session -> buy',
+      'momentum -> sell',
+      'buy -> stop'
+    ]));
+    expect(new Set(result.nodes.map(item => `${item.position.x},${item.position.y}`)).size).toBe(result.nodes.length);
+
+    // Labels come back lowercased from the variable names, which is all that differs
+    expect(generateEnhancedPineScript(result.nodes, result.edges).code.toLowerCase()).toBe(code.toLowerCase());
+  });
+
+  test('recognizes every registry indicator with non-default settings', () => {
+    Object.keys(INDICATOR_PINE_SPECS).forEach(indicatorId => {
+      // Parameters the emitted code never reads cannot be recovered from it
+      const parameters = Object.fromEntries(getIndicatorById(indicatorId)!.parameters
+        .filter(param => !INDICATOR_PINE_SPECS[indicatorId].unused?.includes(param.name))
+        .map(param => [
+          param.name,
+          param.options ? param.options[param.options.length - 1] : typeof param.default === 'number' ? param.default + (param.step || 1) : param.default
+        ]));
+      const { code } = generateEnhancedPineScript(
+        [
+          node('data', 'data-source', 'Price Data'),
+          node('indicator', 'indicator', indicatorId, { indicatorId, parameters }),
+          node('condition', 'condition', 'Above', { operator: 'greater_than', threshold: 0 }),
+          node('sell', 'action', 'Sell', { actionKind: 'entry', direction: 'short', orderType: 'limit', orderOffset: 0.5, quantityMode: 'percent_equity', quantity: 5 }),
+          node('stop', 'risk', 'Stop', { stopLoss: 2, takeProfit: 4, trailingStop: 1 }),
+          node('dates', 'timing', 'Dates', { startDate: '2024-01-01', endDate: '2024-06-30', timezone: 'UTC' })
+        ],
+        [edge('data', 'indicator'), edge('indicator', 'condition'), edge('condition', 'sell')]
+      );
+
+      const result = importPineScript(code);
+
+      expect({ indicatorId, config: result.nodes.find(item => item.type === 'indicator')?.data.config, raw: result.nodes.filter(item => item.type === 'raw-pine').length })
+        .toEqual({ indicatorId, config: { indicatorId, parameters }, raw: 0 });
+      expect(generateEnhancedPineScript(result.nodes, result.edges).code.toLowerCase()).toBe(code.toLowerCase());
+    });
+  });
+
+  test('maps hand-written code and keeps the rest in wired raw Pine nodes', () => {
+    const result = importPineScript([
+      '//@version=5',
+      'strategy("EMA Cross", overlay=true)',
+      'fastLen = input.int(9, "Fast")',
+      'fast = ta.ema(close, fastLen)',
+      'slow = ta.ema(close, length=21)',
+      'var int bars = 0',
+      'bars := bars + 1',
+      'trend = close > ta.sma(close, 200) and bars > 50',
+      'longCondition = ta.crossover(fast, slow) and trend and close[1] >= open',
+      'if (longCondition)',
+      '    strategy.entry("Long", strategy.long)',
+      'if ta.crossunder(fast, slow)',
+      '    strategy.close("Long")',
+      'bgcolor(trend ? color.new(color.green, 90) : na)',
+      'plot(fast)'
+    ].join('\n'));
+
+    expect(result.title).toBe('EMA Cross');
+    expect(summarize(result.nodes.filter(item => item.type === 'raw-pine'))).toEqual([
+      ['raw-pine', { pineCode: 'var int bars = 0\nbars := bars + 1', pineInputs: [], pineOutputs: ['bars'] }],
+      ['raw-pine', { pineCode: 'pine_expr_1 = close[1] >= open', pineInputs: [], pineOutputs: ['pine_expr_1'] }],
+      ['raw-pine', { pineCode: 'bgcolor(trend ? color.new(color.green, 90) : na)', pineInputs: ['trend'], pineOutputs: [] }]
+    ]);
+    expect(result.nodes.find(item => item.data.label === 'fast')!.data.config).toEqual({ indicatorId: 'ema', parameters: { source: 'close', period: 9 } });
+    expect(result.nodes.find(item => item.type === 'action' && item.data.config!.entryId === 'Long')!.data.config).toEqual({ actionKind: 'exit', entryId: 'Long' });
+    expect(wiring(result.nodes, result.edges)).toEqual(expect.arrayContaining([
+      'Price Data:close -> Greater Than:left',
+      'SMA -> Greater Than:right',
+      'Raw Pine (lines 6-7):bars -> Greater Than',
+      'Raw Pine (line 9):pine_expr_1 -> longCondition',
+      'trend -> Raw Pine (line 14):trend'
+    ]));
+    expect(result.warnings).toEqual(['3 raw Pine nodes kept code the builder cannot express; the backtest engine skips them']);
+
+    // Raw Pine that reads a signal is emitted after the strategy logic
+    const { code, errors } = generateEnhancedPineScript(result.nodes, result.edges);
+    expect(errors).toEqual([]);
+    expect(code.indexOf('var int bars = 0')).toBeLessThan(code.indexOf('greater_than_2 = bars > 50'));
+    expect(code.indexOf('longcondition = ')).toBeLessThan(code.indexOf('bgcolor(trend ? '));
+  });
+
+  test('keeps statements that other code reassigns or reads as variables raw', () => {
+    const result = importPineScript([
+      '//@version=6',
+      'strategy("Raw")',
+      'threshold = input.float(30.0, "Threshold")',
+      'rsi = ta.rsi(close, 14)',
+      'oversold = rsi < threshold',
+      'plot(threshold)',
+      'if oversold',
+      '    strategy.entry("Long", strategy.long)',
+      '    alert("Long")'
+    ].join('\n'));
+
+    expect(summarize(result.nodes.filter(item => item.type === 'raw-pine'))).toEqual([
+      ['raw-pine', { pineCode: 'threshold = input.float(30.0, "Threshold")', pineInputs: [], pineOutputs: ['threshold'] }],
+      ['raw-pine', { pineCode: 'plot(threshold)', pineInputs: ['threshold'], pineOutputs: [] }],
+      ['raw-pine', { pineCode: 'if oversold\n    strategy.entry("Long", strategy.long)\n    alert("Long")', pineInputs: ['oversold'], pineOutputs: [] }]
+    ]);
+    expect(result.nodes.find(item => item.type === 'condition')!.data.config).toEqual({ operator: 'less_than', compareTo: 'series' });
+  });
+
+  test('rejects scripts with syntax errors', () => {
+    expect(importPineScript('//@version=6\nstrategy("Broken"\nplot(close)')).toMatchObject({
+      success: false,
+      nodes: [],
+      errors: [expect.stringMatching(/^Line \d+: /)]
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Strategy Diff Tests
+ * Graph changes between versions, their changelog and the line diff of their generated Pine
+ */
+
+import { countGraphChanges, describeGraphDiff, diffLines, diffStrategyGraphs, getNodeDiffStatuses } from '../strategy-diff';
+import type { DiffableEdge, DiffableNode } from '../strategy-diff';
+
+function node(id: string, type: string, label: string, config: Record<string, unknown> = {}): DiffableNode {
+  return { id, type, data: { label, config } };
+}
+
+function edge(source: string, target: string, targetHandle?: string): DiffableEdge {
+  return { id: `${source}_${target}`, source, target, targetHandle };
+}
+
+describe('diffStrategyGraphs', () => {
+  const before = {
+    nodes: [
+      node('data', 'data-source', 'Price Data', { symbol: 'BTCUSDT', timeframe: '1h' }),
+      node('fast', 'indicator', 'Fast SMA', { indicatorId: 'sma', parameters: { length: 9 } }),
+      node('slow', 'indicator', 'Slow SMA', { indicatorId: 'sma', parameters: { length: 21 } }),
+      node('cross', 'condition', 'Cross', { operator: 'crosses_above' }),
+      node('sell', 'action', 'Sell', { orderType: 'market' })
+    ],
+    edges: [
+      edge('data', 'fast'),
+      edge('data', 'slow'),
+      edge('fast', 'cross', 'a'),
+      edge('slow', 'cross', 'b'),
+      edge('cross', 'sell')
+    ]
+  };
+
+  test('reports nodes added, removed and changed with each parameter', () => {
+    const diff = diffStrategyGraphs(before, {
+      nodes: [
+        node('data', 'data-source', 'Price Data', { symbol: 'BTCUSDT', timeframe: '4h' }),
+        node('fast', 'indicator', 'Fast EMA', { indicatorId: 'ema', parameters: { length: 9, source: 'hl2' } }),
+        node('slow', 'indicator', 'Slow SMA', { indicatorId: 'sma', parameters: { length: 21 } }),
+        node('cross', 'condition', 'Cross', { operator: 'crosses_above' }),
+        node('buy', 'action', 'Buy', { orderType: 'market' })
+      ],
+      edges: [
+        edge('data', 'fast'),
+        edge('data', 'slow'),
+        edge('fast', 'cross', 'a'),
+        edge('slow', 'cross', 'b'),
+        edge('cross', 'buy')
+      ]
+    });
+
+    expect(diff.nodes.added).toEqual([{ id: 'buy', type: 'action', label: 'Buy' }]);
+    expect(diff.nodes.removed).toEqual([{ id: 'sell', type: 'action', label: 'Sell' }]);
+    expect(diff.nodes.changed).toEqual([
+      {
+        id: 'data', type: 'data-source', label: 'Price Data',
+        changes: [{ key: 'timeframe', from: '1h', to: '4h' }]
+      },
+      {
+        id: 'fast', type: 'indicator', label: 'Fast EMA',
+        changes: [
+          { key: 'label', from: 'Fast SMA', to: 'Fast EMA' },
+          { key: 'indicatorId', from: 'sma', to: 'ema' },
+          { key: 'parameters.source', from: undefined, to: 'hl2' }
+        ]
+      }
+    ]);
+    expect(diff.edges.added).toEqual([{ source: 'cross', sourceHandle: null, target: 'buy', targetHandle: null }]);
+    expect(diff.edges.removed).toEqual([{ source: 'cross', sourceHandle: null, target: 'sell', targetHandle: null }]);
+    expect(diff.edges.rewired).toEqual([]);
+  });
+
+  test('reports an input fed from another output as rewired', () => {
+    const diff = diffStrategyGraphs(before, {
+      nodes: [...before.nodes, node('rsi', 'indicator', 'RSI', { indicatorId: 'rsi' })],
+      edges: [
+        edge('data', 'fast'),
+        edge('data', 'slow'),
+        edge('data', 'rsi'),
+        edge('fast', 'cross', 'a'),
+        edge('rsi', 'cross', 'b'),
+        edge('cross', 'sell')
+      ]
+    });
+
+    expect(diff.edges.rewired).toEqual([{
+      target: 'cross',
+      targetHandle: 'b',
+      from: { source: 'slow', sourceHandle: null, target: 'cross', targetHandle: 'b' },
+      to: { source: 'rsi', sourceHandle: null, target: 'cross', targetHandle: 'b' }
+    }]);
+    expect(diff.edges.added).toEqual([{ source: 'data', sourceHandle: null, target: 'rsi', targetHandle: null }]);
+    expect(diff.edges.removed).toEqual([]);
+    expect(getNodeDiffStatuses(diff)).toEqual({ rsi: 'added', cross: 'rewired' });
+  });
+
+  test('ignores node positions and reads config saved at the top level', () => {
+    const canvasNode = (x: number, period: number): DiffableNode & { position: { x: number; y: number } } => ({
+      id: 'rsi', type: 'indicator', label: 'RSI', config: { period }, position: { x, y: 0 }
+    });
+
+    expect(diffStrategyGraphs(
+      { nodes: [canvasNode(0, 14)], edges: [] },
+      { nodes: [canvasNode(300, 14)], edges: [] }
+    ).nodes.changed).toEqual([]);
+    expect(diffStrategyGraphs(
+      { nodes: [canvasNode(0, 14)], edges: [] },
+      { nodes: [canvasNode(0, 21)], edges: [] }
+    ).nodes.changed[0].changes).toEqual([{ key: 'period', from: 14, to: 21 }]);
+  });
+});
+
+describe('describeGraphDiff', () => {
+  const rsi = (length: number) => node('rsi', 'indicator', 'RSI', { indicatorId: 'rsi', parameters: { length } });
+  const stop = node('stop', 'risk', 'ATR Trailing Stop', { multiplier: 2 });
+  const entry = node('entry', 'action', 'Buy');
+
+  test('writes a readable changelog', () => {
+    const before = { nodes: [rsi(14), entry], edges: [edge('rsi', 'entry')] };
+    const after = { nodes: [rsi(21), entry, stop], edges: [edge('rsi', 'entry'), edge('entry', 'stop')] };
+    const diff = diffStrategyGraphs(before, after);
+
+    expect(describeGraphDiff(diff, [...before.nodes, ...after.nodes])).toBe('RSI length 14→21; added ATR Trailing Stop');
+    expect(countGraphChanges(diff)).toBe(3);
+  });
+
+  test('names rewired and reconnected nodes and caps long changelogs', () => {
+    const sma = node('sma', 'indicator', 'SMA', { indicatorId: 'sma' });
+    const nodes = [rsi(14), sma, entry];
+    const rewired = diffStrategyGraphs(
+      { nodes, edges: [edge('rsi', 'entry', 'signal'), edge('sma', 'rsi')] },
+      { nodes, edges: [edge('sma', 'entry', 'signal')] }
+    );
+    expect(describeGraphDiff(rewired, nodes)).toBe('Buy now fed by SMA instead of RSI; disconnected SMA from RSI');
+
+    const many = diffStrategyGraphs(
+      { nodes: [], edges: [] },
+      { nodes: ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(id => node(id, 'indicator', id.toUpperCase())), edges: [] }
+    );
+    expect(describeGraphDiff(many)).toBe('added A; added B; added C; added D; added E; 2 more changes');
+    expect(describeGraphDiff(diffStrategyGraphs({ nodes, edges: [] }, { nodes, edges: [] }))).toBe('');
+  });
+});
+
+describe('diffLines', () => {
+  test('groups changed lines into hunks with context', () => {
+    const before = ['//@version=6', 'strategy("Cross")', 'a = 1', 'b = 2', 'c = 3', 'd = 4', 'e = 5', 'f = 6', 'g = 7', 'plot(close)'];
+    const after = ['//@version=6', 'strategy("Cross", overlay=true)', 'a = 1', 'b = 2', 'c = 3', 'd = 4', 'e = 5', 'f = 6', 'g = 7', 'plot(close)', 'plot(open)'];
+
+    const diff = diffLines(before.join('\n'), after.join('\n'), 1);
+
+    expect(diff.added).toBe(2);
+    expect(diff.removed).toBe(1);
+    expect(diff.hunks).toEqual([
+      {
+        oldStart: 1,
+        newStart: 1,
+        lines: [
+          { kind: 'context', text: '//@version=6', oldLine: 1, newLine: 1 },
+          { kind: 'removed', text: 'strategy("Cross")', oldLine: 2, newLine: null },
+          { kind: 'added', text: 'strategy("Cross", overlay=true)', oldLine: null, newLine: 2 },
+          { kind: 'context', text: 'a = 1', oldLine: 3, newLine: 3 }
+        ]
+      },
+      {
+        oldStart: 10,
+        newStart: 10,
+        lines: [
+          { kind: 'context', text: 'plot(close)', oldLine: 10, newLine: 10 },
+          { kind: 'added', text: 'plot(open)', oldLine: null, newLine: 11 }
+        ]
+      }
+    ]);
+  });
+
+  test('reports identical and empty texts', () => {
+    expect(diffLines('plot(close)', 'plot(close)')).toEqual({ added: 0, removed: 0, hunks: [] });
+    expect(diffLines('', 'a\nb')).toEqual({
+      added: 2,
+      removed: 0,
+      hunks: [{
+        oldStart: 1,
+        newStart: 1,
+        lines: [
+          { kind: 'added', text: 'a', oldLine: null, newLine: 1 },
+          { kind: 'added', text: 'b', oldLine: null, newLine: 2 }
+        ]
+      }]
+    });
+  });
+
+  test('reports a changed block too large to match line by line as replaced', () => {
+    const before = ['//@version=6', ...Array.from({ length: 2500 }, (_, i) => `a${i} = ${i}`), 'plot(close)'];
+    const after = ['//@version=6', ...Array.from({ length: 2500 }, (_, i) => `b${i} = ${i}`), 'plot(close)'];
+
+    const diff = diffLines(before.join('\n'), after.join('\n'), 1);
+
+    expect(diff.added).toBe(2500);
+    expect(diff.removed).toBe(2500);
+    expect(diff.hunks).toHaveLength(1);
+    const lines = diff.hunks[0].lines;
+    expect(lines[0]).toEqual({ kind: 'context', text: '//@version=6', oldLine: 1, newLine: 1 });
+    expect(lines[1]).toEqual({ kind: 'removed', text: 'a0 = 0', oldLine: 2, newLine: null });
+    expect(lines[2501]).toEqual({ kind: 'added', text: 'b0 = 0', oldLine: null, newLine: 2 });
+    expect(lines[lines.length - 1]).toEqual({ kind: 'context', text: 'plot(close)', oldLine: 2502, newLine: 2502 });
+  });
+});
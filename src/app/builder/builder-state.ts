@@ -12,6 +12,7 @@
 
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
+import { inferLegacyActionConfig } from './canvas-config';
 
 // Custom types without ReactFlow dependency
 export interface NodeData {
@@ -82,6 +83,7 @@ export interface BuilderState {
  isSaving: boolean;
  isLoading: boolean;
  lastSaved: Date | null;
+ strategyId: string | null; // Saved strategy the canvas was loaded from or last saved to
  
  // Node Operations
  addNode: (nodeTemplate: Partial<BuilderNode>) => void;
@@ -133,6 +135,14 @@ export interface BuilderState {
  checkCircularDependency: (sourceId: string, targetId: string) => boolean;
 }
 
+// Actions saved before actionKind existed were classified by label; store that
+// classification on load so renaming the node later does not change what it does
+const pinActionKind = (node: BuilderNode): BuilderNode => {
+ if (node.type !== 'action' || node.data?.config?.actionKind) return node;
+ const inferred = inferLegacyActionConfig(String(node.data?.label || ''));
+ return inferred ? { ...node, data: { ...node.data, config: { ...node.data.config, ...inferred } } } : node;
+};
+
 // Initial state
 const initialState = {
  nodes: [],
@@ -147,6 +157,7 @@ const initialState = {
  isSaving: false,
  isLoading: false,
  lastSaved: null,
+ strategyId: null,
 };
 
 const useBuilderStore = create<BuilderState>()(
@@ -480,15 +491,42 @@ const useBuilderStore = create<BuilderState>()(
            // Save to localStorage as backup
            localStorage.setItem('pinegenie_strategy_backup', JSON.stringify(strategyData));
            
-           // In real implementation, save to backend
-           await new Promise(resolve => setTimeout(resolve, 1000));
+           // Create the strategy on first save; later saves update it and the
+           // server snapshots a version once enough has changed
+           const send = (strategyId: string | null) => fetch(strategyId ? `/api/strategies/${strategyId}` : '/api/strategies', {
+             method: strategyId ? 'PUT' : 'POST',
+             credentials: 'include',
+             headers: {
+               'Content-Type': 'application/json',
+             },
+             body: JSON.stringify({
+               ...((name || !strategyId) && { name: strategyData.name }),
+               nodes: state.nodes,
+               connections: state.edges
+             }),
+           });
+
+           let response = await send(state.strategyId);
+
+           // The canvas was bound to a strategy that was deleted or is not the user's; save it as a new one
+           if (state.strategyId && (response.status === 404 || response.status === 403)) {
+             console.warn(`Strategy ${state.strategyId} can no longer be saved (${response.status}), saving the canvas as a new strategy`);
+             set({ strategyId: null });
+             response = await send(null);
+           }
+           
+           const result = await response.json();
+           if (!response.ok) {
+             throw new Error(result.error || 'Failed to save strategy');
+           }
            
            set({ 
+             strategyId: result.data.id,
              lastSaved: new Date(),
              isSaving: false 
            });
            
-           console.log('Strategy saved successfully');
+           console.log('Strategy saved successfully', result.snapshot ? `(version ${result.snapshot.version}: ${result.snapshot.changeLog})` : '');
          } catch (error) {
            console.error('Failed to save strategy:', error);
            set({ isSaving: false });
@@ -496,9 +534,10 @@ const useBuilderStore = create<BuilderState>()(
          }
        },
        
-       loadStrategy: (strategyData: { nodes?: BuilderNode[]; edges?: BuilderEdge[]; metadata?: { zoom?: number; canvasOffset?: { x: number; y: number } } }) => {
+       loadStrategy: (strategyData: { id?: string; nodes?: BuilderNode[]; edges?: BuilderEdge[]; metadata?: { zoom?: number; canvasOffset?: { x: number; y: number } } }) => {
          set({
-           nodes: Array.isArray(strategyData?.nodes) ? strategyData.nodes : [],
+           strategyId: typeof strategyData?.id === 'string' ? strategyData.id : null,
+           nodes: Array.isArray(strategyData?.nodes) ? strategyData.nodes.map(pinActionKind) : [],
            edges: Array.isArray(strategyData?.edges) ? strategyData.edges : [],
            selectedNode: null,
            zoom: typeof strategyData?.metadata?.zoom === 'number' ? strategyData.metadata.zoom : 1,
@@ -641,7 +680,8 @@ const useBuilderStore = create<BuilderState>()(
          isDarkMode: state.isDarkMode,
          backgroundType: state.backgroundType,
          zoom: state.zoom,
-         canvasOffset: state.canvasOffset
+         canvasOffset: state.canvasOffset,
+         strategyId: state.strategyId
        })
      }
    ),
@@ -13,7 +13,7 @@
 import { getIndicatorById } from './data/indicator-defs';
 
 // Custom node types without ReactFlow dependency
-export type NodeType = 'input' | 'output' | 'indicator' | 'condition' | 'action' | 'data-source' | 'math' | 'risk' | 'timing';
+export type NodeType = 'input' | 'output' | 'indicator' | 'condition' | 'logic' | 'action' | 'data-source' | 'math' | 'risk' | 'timing' | 'raw-pine';
 
 // Node configuration interface
 export interface NodeConfig {
@@ -22,12 +22,24 @@ export interface NodeConfig {
  parameters?: Record<string, unknown>;
  
  // Condition-specific config
- operator?: 'greater_than' | 'less_than' | 'equal_to' | 'crosses_above' | 'crosses_below';
+ operator?: 'greater_than' | 'less_than' | 'equal_to' | 'not_equal_to' | 'crosses_above' | 'crosses_below';
  threshold?: number;
+ compareTo?: 'threshold' | 'series'; // Second connected series instead of the threshold
+ 
+ // Logic-specific config
+ logicOperator?: 'and' | 'or' | 'not' | 'n_of_m' | 'consecutive' | 'within';
+ requiredCount?: number; // N for an N-of-M vote
+ bars?: number; // Lookback for the consecutive and within variants
  
  // Action-specific config
+ actionKind?: 'entry' | 'exit' | 'order'; // strategy.entry, strategy.close or strategy.order
+ direction?: 'long' | 'short';
  orderType?: 'market' | 'limit' | 'stop';
+ orderOffset?: number; // Limit/stop price distance from the signal close, in percent
  quantity?: string | number;
+ quantityMode?: 'fixed' | 'percent_equity' | 'risk';
+ pyramiding?: number; // Entries allowed in one direction
+ entryId?: string; // Order ID of an entry or order, or the entry an exit closes
  
  // Data source config
  symbol?: string;
@@ -41,12 +53,23 @@ export interface NodeConfig {
  // Risk management config
  stopLoss?: number;
  takeProfit?: number;
+ trailingStop?: number; // Distance the stop trails below the highest price since entry
+ riskUnit?: 'percent' | 'atr'; // Unit of stopLoss, takeProfit and trailingStop
+ atrPeriod?: number; // ATR length when riskUnit is 'atr'
  maxRisk?: number;
  
  // Timing config
- startTime?: string;
- endTime?: string;
+ startTime?: string; // Session start, HH:MM
+ endTime?: string; // Session end, HH:MM (exclusive)
  timezone?: string;
+ daysOfWeek?: Array<'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat'>;
+ startDate?: string; // First trading day, YYYY-MM-DD
+ endDate?: string; // Last trading day, YYYY-MM-DD
+ 
+ // Raw Pine config, for imported statements no other node can express
+ pineCode?: string; // Emitted verbatim
+ pineInputs?: string[]; // Names the code reads from connected nodes, one input handle each
+ pineOutputs?: string[]; // Variables the code declares for other nodes, one output handle each
  
  // Common properties
  enabled?: boolean;
@@ -101,6 +124,77 @@ export interface CustomEdge {
  label?: string;
 }
 
+export type ActionKind = NonNullable<NodeConfig['actionKind']>;
+export type ActionDirection = NonNullable<NodeConfig['direction']>;
+export type QuantityMode = NonNullable<NodeConfig['quantityMode']>;
+
+// Resolved action node settings shared by the Pine generator and the backtest engine
+export interface ActionSettings {
+ kind: ActionKind;
+ direction?: ActionDirection; // Unset on exits that close whatever is open
+ orderType: 'market' | 'limit' | 'stop';
+ orderOffset: number;
+ quantityMode?: QuantityMode; // Unset falls back to the strategy's default size
+ quantity?: number; // Contracts when fixed, percent of equity otherwise
+ pyramiding: number;
+ orderId?: string;
+ inferred: boolean; // Kind and direction came from a legacy label
+}
+
+// Labels that graphs saved before actions had a kind relied on
+const LEGACY_ENTRY_KEYWORDS = ['buy', 'entry'];
+const LEGACY_EXIT_KEYWORDS = ['sell', 'exit', 'close'];
+
+export const DEFAULT_ENTRY_IDS: Record<ActionDirection, string> = { long: 'Long', short: 'Short' };
+export const DEFAULT_ORDER_IDS: Record<ActionDirection, string> = { long: 'Buy', short: 'Sell' };
+
+/**
+ * Kind and direction for an action node saved without them, read from its
+ * label the way the generator used to. New nodes carry both explicitly.
+ */
+export function inferLegacyActionConfig(label: string): Pick<NodeConfig, 'actionKind' | 'direction'> | null {
+ const text = label.toLowerCase();
+ if (LEGACY_ENTRY_KEYWORDS.some(keyword => text.includes(keyword))) {
+   return { actionKind: 'entry', direction: 'long' };
+ }
+ if (LEGACY_EXIT_KEYWORDS.some(keyword => text.includes(keyword))) {
+   return { actionKind: 'exit' };
+ }
+ return null;
+}
+
+/**
+ * Typed settings for an action node. Only the config decides what an action
+ * does; the label is read solely for legacy nodes that have no actionKind.
+ */
+export function resolveActionSettings(node: CustomNode): ActionSettings | null {
+ if (node.type !== 'action') return null;
+
+ const config = node.data.config || {};
+ const legacy = config.actionKind ? null : inferLegacyActionConfig(node.data.label);
+ const kind = config.actionKind || legacy?.actionKind;
+ if (!kind) return null;
+
+ const direction = config.direction || legacy?.direction || (kind === 'exit' ? undefined : 'long');
+ const rawQuantity = config.quantity;
+ const isPercent = typeof rawQuantity === 'string' && rawQuantity.trim().endsWith('%');
+ const amount = rawQuantity === undefined || rawQuantity === '' ? NaN : parseFloat(String(rawQuantity));
+ const quantityMode = config.quantityMode || (isNaN(amount) ? undefined : isPercent ? 'percent_equity' : 'fixed');
+ const defaultIds = kind === 'order' ? DEFAULT_ORDER_IDS : DEFAULT_ENTRY_IDS;
+
+ return {
+   kind,
+   direction,
+   orderType: config.orderType || 'market',
+   orderOffset: Number(config.orderOffset ?? 0),
+   quantityMode,
+   quantity: isNaN(amount) ? undefined : amount,
+   pyramiding: Math.max(1, Math.floor(Number(config.pyramiding ?? 1))),
+   orderId: config.entryId || (kind === 'exit' || !direction ? undefined : defaultIds[direction]),
+   inferred: !!legacy
+ };
+}
+
 // Node templates for different categories
 export const NODE_TEMPLATES = {
  'Data Sources': [
@@ -198,6 +292,19 @@ export const NODE_TEMPLATES = {
      label: 'Buy Order',
      description: 'Execute buy order',
      config: {
+       actionKind: 'entry' as const,
+       direction: 'long' as const,
+       orderType: 'market' as const,
+       quantity: '25%'
+     }
+   },
+   {
+     type: 'action' as NodeType,
+     label: 'Sell Short',
+     description: 'Open a short position',
+     config: {
+       actionKind: 'entry' as const,
+       direction: 'short' as const,
        orderType: 'market' as const,
        quantity: '25%'
      }
@@ -207,6 +314,8 @@ export const NODE_TEMPLATES = {
      label: 'Sell Order',
      description: 'Execute sell order',
      config: {
+       actionKind: 'exit' as const,
+       direction: 'long' as const,
        orderType: 'market' as const,
        quantity: '100%'
      }
@@ -216,6 +325,7 @@ export const NODE_TEMPLATES = {
      label: 'Close Position',
      description: 'Close current position',
      config: {
+       actionKind: 'exit' as const,
        orderType: 'market' as const,
        quantity: '100%'
      }
@@ -239,6 +349,57 @@ export const NODE_TEMPLATES = {
        operation: 'subtract' as const,
        value: 0
      }
+   },
+   {
+     type: 'logic' as NodeType,
+     label: 'AND',
+     description: 'True when every connected signal is true',
+     config: {
+       logicOperator: 'and' as const
+     }
+   },
+   {
+     type: 'logic' as NodeType,
+     label: 'OR',
+     description: 'True when at least one connected signal is true',
+     config: {
+       logicOperator: 'or' as const
+     }
+   },
+   {
+     type: 'logic' as NodeType,
+     label: 'NOT',
+     description: 'Inverts a signal',
+     config: {
+       logicOperator: 'not' as const
+     }
+   },
+   {
+     type: 'logic' as NodeType,
+     label: 'N of M',
+     description: 'True when at least N connected signals are true',
+     config: {
+       logicOperator: 'n_of_m' as const,
+       requiredCount: 2
+     }
+   },
+   {
+     type: 'logic' as NodeType,
+     label: 'Consecutive Bars',
+     description: 'Signal true for N bars in a row',
+     config: {
+       logicOperator: 'consecutive' as const,
+       bars: 3
+     }
+   },
+   {
+     type: 'logic' as NodeType,
+     label: 'Within Bars',
+     description: 'Signal true at least once in the last N bars',
+     config: {
+       logicOperator: 'within' as const,
+       bars: 5
+     }
    }
  ],
  'Risk Management': [
@@ -259,6 +420,25 @@ export const NODE_TEMPLATES = {
        takeProfit: 5,
        maxRisk: 1
      }
+   },
+   {
+     type: 'risk' as NodeType,
+     label: 'ATR Stop',
+     description: 'Stop and target at ATR multiples',
+     config: {
+       riskUnit: 'atr' as const,
+       atrPeriod: 14,
+       stopLoss: 2,
+       takeProfit: 4
+     }
+   },
+   {
+     type: 'risk' as NodeType,
+     label: 'Trailing Stop',
+     description: 'Stop that follows the highest price',
+     config: {
+       trailingStop: 1.5
+     }
    }
  ],
  'Timing': [
@@ -271,6 +451,25 @@ export const NODE_TEMPLATES = {
        endTime: '16:00',
        timezone: 'UTC'
      }
+   },
+   {
+     type: 'timing' as NodeType,
+     label: 'Weekdays',
+     description: 'Trade Monday to Friday only',
+     config: {
+       daysOfWeek: ['mon', 'tue', 'wed', 'thu', 'fri'] as NonNullable<NodeConfig['daysOfWeek']>,
+       timezone: 'UTC'
+     }
+   },
+   {
+     type: 'timing' as NodeType,
+     label: 'Date Range',
+     description: 'Trade between two dates',
+     config: {
+       startDate: '2024-01-01',
+       endDate: '2024-12-31',
+       timezone: 'UTC'
+     }
    }
  ]
 };
@@ -399,13 +598,13 @@ export const STRATEGY_TEMPLATES = {
        type: 'action',
        label: 'Buy',
        position: { x: 700, y: 50 },
-       config: { orderType: 'market', quantity: '25%' }
+       config: { actionKind: 'entry', direction: 'long', orderType: 'market', quantity: '25%' }
      },
      {
        type: 'action',
        label: 'Sell',
        position: { x: 700, y: 150 },
-       config: { orderType: 'market', quantity: '100%' }
+       config: { actionKind: 'exit', direction: 'long', orderType: 'market', quantity: '100%' }
      }
    ]
  },
@@ -440,7 +639,7 @@ export const STRATEGY_TEMPLATES = {
        type: 'action',
        label: 'Buy',
        position: { x: 700, y: 100 },
-       config: { orderType: 'market', quantity: '50%' }
+       config: { actionKind: 'entry', direction: 'long', orderType: 'market', quantity: '50%' }
      }
    ]
  }
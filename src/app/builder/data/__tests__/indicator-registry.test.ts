@@ -0,0 +1,241 @@
+/**
+ * Indicator Registry Tests
+ * Every sidebar indicator validates, declares inputs, emits its outputs and plots
+ */
+
+import { indicatorDefinitions, getIndicatorById } from '../indicator-defs';
+import {
+  INDICATOR_PINE_SPECS,
+  resolveIndicatorParameters,
+  validateIndicatorConfig,
+  getIndicatorOutputVariables,
+  generateIndicatorInputs,
+  generateIndicatorCode,
+  generateIndicatorPlots,
+  getIndicatorOutputHandles,
+  resolveIndicatorOutput
+} from '../indicator-registry';
+import { generateEnhancedPineScript } from '../../enhanced-pinescript-generator';
+import type { CustomEdge, CustomNode, NodeConfig, NodeType } from '../../canvas-config';
+
+function contextFor(indicatorId: string, parameters: Record<string, unknown> = {}) {
+  const definition = getIndicatorById(indicatorId)!;
+  const values = resolveIndicatorParameters(definition, parameters);
+  const inputs = generateIndicatorInputs(definition, 'ind', 'Ind', values);
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    params[key] = typeof value === 'string' ? `"${value}"` : String(value);
+  }
+  inputs.forEach(input => {
+    params[input.parameter] = input.variable;
+  });
+
+  return {
+    definition,
+    inputs,
+    ctx: { name: 'ind', params, values, outputs: getIndicatorOutputVariables(definition, 'ind'), label: 'Ind' }
+  };
+}
+
+function node(id: string, type: NodeType, label: string, config: NodeConfig = {}): CustomNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { id, label, type, config } };
+}
+
+function edge(source: string, target: string, handles: Pick<CustomEdge, 'sourceHandle' | 'targetHandle'> = {}): CustomEdge {
+  return { id: `${source}_${target}_${handles.sourceHandle || ''}`, source, target, ...handles };
+}
+
+describe('indicator registry', () => {
+  test('covers every indicator definition in the sidebar', () => {
+    const missing = indicatorDefinitions.filter(definition => !INDICATOR_PINE_SPECS[definition.id]);
+    expect(missing.map(definition => definition.id)).toEqual([]);
+  });
+
+  test.each(indicatorDefinitions.map(definition => definition.id))(
+    '%s validates its defaults and assigns every output',
+    indicatorId => {
+      const { definition, ctx, inputs } = contextFor(indicatorId, getIndicatorById(indicatorId)!.defaultParams);
+      const code = generateIndicatorCode(definition, ctx).join('\n');
+
+      expect(validateIndicatorConfig(indicatorId, definition.defaultParams)).toEqual({ errors: [], warnings: [] });
+      for (const variable of Object.values(ctx.outputs)) {
+        expect(code).toMatch(new RegExp(`(^|\\[|, |var float )${variable}( =|,|\\])`, 'm'));
+      }
+      for (const input of inputs) {
+        expect(code + generateIndicatorPlots(definition, ctx).join('\n')).toContain(input.variable);
+      }
+      expect(generateIndicatorPlots(definition, ctx).length).toBeGreaterThan(0);
+    }
+  );
+
+  test('multi-output indicators destructure tuples into one variable per output', () => {
+    const { definition, ctx } = contextFor('supertrend');
+    expect(generateIndicatorCode(definition, ctx)).toEqual([
+      '[ind_supertrend, ind_direction] = ta.supertrend(ind_multiplier, ind_period)'
+    ]);
+  });
+
+  test('accepts legacy Pine-style parameter names', () => {
+    const definition = getIndicatorById('macd')!;
+    expect(resolveIndicatorParameters(definition, { fastlen: 8, slowlen: 21, siglen: 5 })).toEqual({
+      fastPeriod: 8,
+      slowPeriod: 21,
+      signalPeriod: 5,
+      source: 'close'
+    });
+  });
+
+  test('reports out-of-range, non-integer and cross-parameter errors', () => {
+    expect(validateIndicatorConfig('rsi', { period: 1 }).errors).toEqual(['Parameter rsi.period must be >= 2']);
+    expect(validateIndicatorConfig('sma', { period: 10.5 }).errors).toEqual(['Parameter sma.period must be an integer']);
+    expect(validateIndicatorConfig('vwap', { anchor: 'year' }).errors[0]).toMatch('must be one of');
+    expect(validateIndicatorConfig('macd', { fastPeriod: 30, slowPeriod: 26 }).errors).toEqual([
+      'MACD fastPeriod must be less than slowPeriod'
+    ]);
+    expect(validateIndicatorConfig('nope').errors).toEqual(['Unknown indicator: nope']);
+  });
+
+  test('resolves output handles, accepting engine names and generic handles', () => {
+    const macd = getIndicatorById('macd')!;
+    const bb = getIndicatorById('bb')!;
+
+    expect(getIndicatorOutputHandles('macd')).toEqual(['macd', 'signal', 'histogram']);
+    expect(getIndicatorOutputHandles('rsi')).toEqual([]);
+    expect(resolveIndicatorOutput(macd, 'line')).toBe('macd');
+    expect(resolveIndicatorOutput(macd, 'signal')).toBe('signal');
+    expect(resolveIndicatorOutput(bb, 'middle')).toBe('basis');
+    expect(resolveIndicatorOutput(bb, 'output')).toBe('basis');
+    expect(resolveIndicatorOutput(bb, undefined)).toBe('basis');
+    expect(resolveIndicatorOutput(bb, 'band')).toBeUndefined();
+  });
+
+  test('declares float inputs for fractional parameters and skips literal ones', () => {
+    const keltner = contextFor('keltner');
+    const pivot = contextFor('pivot', { type: 'camarilla', timeframe: 'weekly' });
+
+    expect(keltner.inputs.find(input => input.parameter === 'multiplier')!.code)
+      .toBe('ind_multiplier = input.float(2.0, title="Ind Multiplier", minval=0.1, maxval=10, step=0.1)');
+    expect(pivot.inputs).toEqual([]);
+    expect(generateIndicatorCode(pivot.definition, pivot.ctx)[0]).toContain('"W"');
+    expect(generateIndicatorCode(pivot.definition, pivot.ctx).join('\n')).toContain('* 1.1 / 12');
+  });
+});
+
+describe('EnhancedPineScriptGenerator with registry indicators', () => {
+  test('emits a Supertrend strategy whose condition reads the primary output', () => {
+    const nodes = [
+      node('data', 'data-source', 'Price Data'),
+      node('st', 'indicator', 'SuperTrend', { indicatorId: 'supertrend', parameters: { period: 10, multiplier: 3 } }),
+      node('kc', 'indicator', 'Keltner', { indicatorId: 'keltner', parameters: { period: 20, atrPeriod: 10, multiplier: 2 } }),
+      node('above', 'condition', 'Above Trend', { operator: 'greater_than', threshold: 100 }),
+      node('buy', 'action', 'Buy Order', { orderType: 'market', quantity: '10%' })
+    ];
+    const edges = [edge('data', 'st'), edge('data', 'kc'), edge('st', 'above'), edge('above', 'buy')];
+
+    const result = generateEnhancedPineScript(nodes, edges);
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('supertrend_period = input.int(10, title="SuperTrend Period", minval=1, maxval=100)');
+    expect(result.code).toContain('[supertrend_supertrend, supertrend_direction] = ta.supertrend(supertrend_multiplier, supertrend_period)');
+    expect(result.code).toContain('keltner_range = ta.atr(keltner_atrPeriod)');
+    expect(result.code).toContain('above_trend = supertrend_supertrend > 100');
+    expect(result.code).toContain('color=supertrend_direction < 0 ? color.green : color.red');
+    expect(result.code).toContain('plot(keltner_upper, title="Keltner UPPER"');
+  });
+
+  test('gives nodes with the same label distinct variables and inputs', () => {
+    const nodes = [
+      node('data', 'data-source', 'Price Data'),
+      node('fast', 'indicator', 'EMA', { indicatorId: 'ema', parameters: { period: 12 } }),
+      node('slow', 'indicator', 'EMA', { indicatorId: 'ema', parameters: { period: 26 } })
+    ];
+
+    const { code } = generateEnhancedPineScript(nodes, [edge('data', 'fast'), edge('data', 'slow')]);
+
+    expect(code).toContain('ema = ta.ema(ema_source, ema_period)');
+    expect(code).toContain('ema_2 = ta.ema(ema_2_source, ema_2_period)');
+    expect(code).toContain('ema_2_period = input.int(26');
+  });
+
+  test('compares the MACD line with its signal line through named handles', () => {
+    const nodes = [
+      node('data', 'data-source', 'Price Data'),
+      node('macd', 'indicator', 'MACD', { indicatorId: 'macd' }),
+      node('cross', 'condition', 'Bullish Cross', { operator: 'crosses_above' }),
+      node('buy', 'action', 'Buy Order', { orderType: 'market', quantity: '10%' })
+    ];
+    const edges = [
+      edge('data', 'macd'),
+      edge('macd', 'cross', { sourceHandle: 'macd' }),
+      edge('macd', 'cross', { sourceHandle: 'signal' }),
+      edge('cross', 'buy')
+    ];
+
+    const result = generateEnhancedPineScript(nodes, edges);
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('bullish_cross = ta.crossover(macd_macd, macd_signal)');
+    expect(result.warnings).not.toContain('Condition node "Bullish Cross" has no threshold value');
+  });
+
+  test('compares price with a band when the price is pinned to the left input', () => {
+    const nodes = [
+      node('data', 'data-source', 'Price Data'),
+      node('bb', 'indicator', 'BB', { indicatorId: 'bb' }),
+      node('breakout', 'condition', 'Breakout', { operator: 'greater_than' }),
+      node('buy', 'action', 'Buy Order', { orderType: 'market', quantity: '10%' })
+    ];
+    const edges = [
+      edge('data', 'bb'),
+      edge('bb', 'breakout', { sourceHandle: 'upper' }),
+      edge('data', 'breakout', { sourceHandle: 'close', targetHandle: 'left' }),
+      edge('breakout', 'buy')
+    ];
+
+    expect(generateEnhancedPineScript(nodes, edges).code).toContain('breakout = close > bb_upper');
+    expect(generateEnhancedPineScript(nodes, edges.slice(0, 2).concat(edges[3])).code)
+      .toContain('breakout = bb_upper > 0');
+  });
+
+  test('keeps the threshold when one is set unless the condition asks for a series', () => {
+    const build = (config: NodeConfig) => generateEnhancedPineScript(
+      [
+        node('data', 'data-source', 'Price Data'),
+        node('st', 'indicator', 'ST', { indicatorId: 'stoch' }),
+        node('cond', 'condition', 'Cond', { operator: 'less_than', threshold: 20, ...config })
+      ],
+      [edge('data', 'st'), edge('st', 'cond', { sourceHandle: 'k' }), edge('st', 'cond', { sourceHandle: 'd' })]
+    );
+
+    expect(build({}).code).toContain('cond = st_k < 20');
+    expect(build({ compareTo: 'series' }).code).toContain('cond = st_k < st_d');
+  });
+
+  test('rejects unknown output handles and series comparisons without a second series', () => {
+    const nodes = [
+      node('data', 'data-source', 'Price Data'),
+      node('kc', 'indicator', 'Keltner', { indicatorId: 'keltner' }),
+      node('cond', 'condition', 'Cond', { operator: 'greater_than', compareTo: 'series' })
+    ];
+
+    const result = generateEnhancedPineScript(nodes, [edge('data', 'kc'), edge('kc', 'cond', { sourceHandle: 'top' })]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toContain(
+      'Condition node "Cond" reads unknown output "top" of "Keltner" (expected one of: basis, upper, lower)'
+    );
+    expect(result.errors).toContain('Condition node "Cond" compares two series but has 1 connected');
+  });
+
+  test('rejects invalid indicator parameters before emitting code', () => {
+    const nodes = [
+      node('data', 'data-source', 'Price Data'),
+      node('st', 'indicator', 'SuperTrend', { indicatorId: 'supertrend', parameters: { period: 0 } })
+    ];
+
+    const result = generateEnhancedPineScript(nodes, [edge('data', 'st')]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toContain('Parameter supertrend.period must be >= 1');
+  });
+});
@@ -0,0 +1,517 @@
+/**
+* Indicator Registry - Pine Script Emission for Every Indicator Definition
+*
+* This file contains:
+* - One Pine Script v6 emitter per entry in indicatorDefinitions
+* - Parameter resolution with defaults and legacy parameter names
+* - Parameter validation against the definition's ranges and options
+* - Input declarations, multi-output (tuple) variables and plots
+* - Output handles that let connections read one tuple component
+*
+* The definitions own names, parameters and outputs; the registry only adds
+* what is needed to turn a configured node into Pine code.
+*/
+
+import { getIndicatorById, type IndicatorDefinition, type IndicatorParameter } from './indicator-defs';
+
+export type IndicatorParameterValue = string | number | boolean;
+
+export interface IndicatorEmitContext {
+  name: string; // Base variable name of the node, for helper series
+  params: Record<string, string>; // Pine expression per parameter: an input variable or a literal
+  values: Record<string, IndicatorParameterValue>; // Resolved raw values
+  outputs: Record<string, string>; // Pine variable per definition output
+  label: string;
+}
+
+export interface IndicatorPineSpec {
+  emit: (ctx: IndicatorEmitContext) => string[];
+  plots?: (ctx: IndicatorEmitContext) => string[]; // Defaults to one line per output
+  literals?: string[]; // Parameters baked into the code instead of declared as inputs
+  unused?: string[]; // Parameters the Pine code does not depend on
+  validate?: (values: Record<string, IndicatorParameterValue>) => string[];
+}
+
+export interface IndicatorInputDeclaration {
+  parameter: string;
+  variable: string;
+  code: string;
+}
+
+// Builder templates, the AI mapper and older saved strategies use Pine-style
+// parameter names; each definition parameter also accepts these spellings.
+const PARAMETER_ALIASES: Record<string, string[]> = {
+  period: ['length'],
+  kPeriod: ['length', 'period'],
+  fastPeriod: ['fastlen', 'fastLength'],
+  slowPeriod: ['slowlen', 'slowLength'],
+  signalPeriod: ['siglen', 'signalLength'],
+  stddev: ['mult', 'multiplier'],
+  multiplier: ['mult', 'factor'],
+  overboughtLevel: ['overbought'],
+  oversoldLevel: ['oversold']
+};
+
+// Handles that stand for the whole node (builder default, AI connection logic)
+const GENERIC_OUTPUT_HANDLES = ['output', 'value', 'value_output'];
+
+// Output names used by the backtest engine and common spellings of them
+const OUTPUT_ALIASES: Record<string, string[]> = {
+  macd: ['line', 'macd_line'],
+  histogram: ['hist'],
+  basis: ['middle', 'mid'],
+  k: ['%k'],
+  d: ['%d'],
+  di_plus: ['plus', '+di'],
+  di_minus: ['minus', '-di']
+};
+
+const PLOT_COLORS = ['color.blue', 'color.orange', 'color.purple', 'color.teal', 'color.red', 'color.green', 'color.gray'];
+
+const PIVOT_TIMEFRAMES: Record<string, string> = { daily: 'D', weekly: 'W', monthly: 'M' };
+const VWAP_ANCHORS: Record<string, string> = { week: 'W', month: 'M' };
+
+const plotLine = (series: string, title: string, color: string, extra: string = '') =>
+  `plot(${series}, title="${title}", color=${color}${extra})`;
+
+const hline = (level: string | number, title: string, color: string) =>
+  `hline(${level}, "${title}", color=${color}, linestyle=hline.style_dashed)`;
+
+const lessThan = (lower: string, upper: string, label: string) =>
+  (values: Record<string, IndicatorParameterValue>) =>
+    Number(values[lower]) >= Number(values[upper]) ? [`${label} ${lower} must be less than ${upper}`] : [];
+
+const movingAverage = (fn: string): IndicatorPineSpec => ({
+  emit: ({ params, outputs }) => [`${Object.values(outputs)[0]} = ${fn}(${params.source}, ${params.period})`]
+});
+
+const channel = (withBasis: boolean): IndicatorPineSpec => ({
+  emit: ({ params, outputs }) => [
+    `${outputs.upper} = ta.highest(high, ${params.period})`,
+    `${outputs.lower} = ta.lowest(low, ${params.period})`,
+    ...(withBasis ? [`${outputs.basis} = math.avg(${outputs.upper}, ${outputs.lower})`] : [])
+  ]
+});
+
+export const INDICATOR_PINE_SPECS: Record<string, IndicatorPineSpec> = {
+  sma: movingAverage('ta.sma'),
+  ema: movingAverage('ta.ema'),
+  wma: movingAverage('ta.wma'),
+  vwma: movingAverage('ta.vwma'),
+  hma: movingAverage('ta.hma'),
+
+  rsi: {
+    emit: ({ params, outputs }) => [`${outputs.rsi} = ta.rsi(${params.source}, ${params.period})`],
+    plots: ({ params, outputs, label }) => [
+      plotLine(outputs.rsi, label, 'color.purple'),
+      hline(params.overboughtLevel, 'Overbought', 'color.red'),
+      hline(params.oversoldLevel, 'Oversold', 'color.green')
+    ],
+    validate: lessThan('oversoldLevel', 'overboughtLevel', 'RSI')
+  },
+
+  macd: {
+    emit: ({ params, outputs }) => [
+      `[${outputs.macd}, ${outputs.signal}, ${outputs.histogram}] = ta.macd(${params.source}, ${params.fastPeriod}, ${params.slowPeriod}, ${params.signalPeriod})`
+    ],
+    plots: ({ outputs, label }) => [
+      plotLine(outputs.macd, `${label} Line`, 'color.blue'),
+      plotLine(outputs.signal, `${label} Signal`, 'color.orange'),
+      plotLine(outputs.histogram, `${label} Histogram`, 'color.gray', ', style=plot.style_histogram')
+    ],
+    validate: lessThan('fastPeriod', 'slowPeriod', 'MACD')
+  },
+
+  stoch: {
+    emit: ({ params, outputs }) => [
+      `${outputs.k} = ta.sma(ta.stoch(close, high, low, ${params.kPeriod}), ${params.smooth})`,
+      `${outputs.d} = ta.sma(${outputs.k}, ${params.dPeriod})`
+    ],
+    plots: ({ outputs, label }) => [
+      plotLine(outputs.k, `${label} %K`, 'color.blue'),
+      plotLine(outputs.d, `${label} %D`, 'color.orange'),
+      hline(80, 'Overbought', 'color.red'),
+      hline(20, 'Oversold', 'color.green')
+    ]
+  },
+
+  bb: {
+    emit: ({ params, outputs }) => [
+      `[${outputs.basis}, ${outputs.upper}, ${outputs.lower}] = ta.bb(${params.source}, ${params.period}, ${params.stddev})`
+    ],
+    plots: ({ outputs, label }) => [
+      plotLine(outputs.upper, `${label} Upper`, 'color.red'),
+      plotLine(outputs.basis, `${label} Basis`, 'color.orange'),
+      plotLine(outputs.lower, `${label} Lower`, 'color.green')
+    ]
+  },
+
+  atr: {
+    emit: ({ params, outputs }) => [`${outputs.atr} = ta.atr(${params.period})`]
+  },
+
+  obv: {
+    emit: ({ outputs }) => [`${outputs.obv} = ta.obv`],
+    unused: ['source']
+  },
+
+  mfi: {
+    emit: ({ params, outputs }) => [`${outputs.mfi} = ta.mfi(hlc3, ${params.period})`],
+    plots: ({ outputs, label }) => [
+      plotLine(outputs.mfi, label, 'color.purple'),
+      hline(80, 'Overbought', 'color.red'),
+      hline(20, 'Oversold', 'color.green')
+    ]
+  },
+
+  adx: {
+    emit: ({ params, outputs }) => [
+      `[${outputs.di_plus}, ${outputs.di_minus}, ${outputs.adx}] = ta.dmi(${params.period}, ${params.adxPeriod})`
+    ],
+    plots: ({ outputs, label }) => [
+      plotLine(outputs.adx, label, 'color.purple'),
+      plotLine(outputs.di_plus, `${label} +DI`, 'color.green'),
+      plotLine(outputs.di_minus, `${label} -DI`, 'color.red'),
+      hline(25, 'Trend Threshold', 'color.gray')
+    ]
+  },
+
+  cci: {
+    emit: ({ params, outputs }) => [`${outputs.cci} = ta.cci(${params.source}, ${params.period})`],
+    plots: ({ outputs, label }) => [
+      plotLine(outputs.cci, label, 'color.teal'),
+      hline(100, 'Upper', 'color.red'),
+      hline(-100, 'Lower', 'color.green')
+    ]
+  },
+
+  williams_r: {
+    emit: ({ params, outputs }) => [`${outputs.williams_r} = ta.wpr(${params.period})`],
+    plots: ({ outputs, label }) => [
+      plotLine(outputs.williams_r, label, 'color.purple'),
+      hline(-20, 'Overbought', 'color.red'),
+      hline(-80, 'Oversold', 'color.green')
+    ]
+  },
+
+  // ta.kc derives its range from the basis length, so the ATR is built by hand
+  // to honour atrPeriod
+  keltner: {
+    emit: ({ name, params, outputs }) => [
+      `${outputs.basis} = ta.ema(close, ${params.period})`,
+      `${name}_range = ta.atr(${params.atrPeriod})`,
+      `${outputs.upper} = ${outputs.basis} + ${params.multiplier} * ${name}_range`,
+      `${outputs.lower} = ${outputs.basis} - ${params.multiplier} * ${name}_range`
+    ]
+  },
+
+  donchian: channel(true),
+  dch: channel(false),
+
+  roc: {
+    emit: ({ params, outputs }) => [`${outputs.roc} = ta.roc(${params.source}, ${params.period})`],
+    plots: ({ outputs, label }) => [plotLine(outputs.roc, label, 'color.blue'), hline(0, 'Zero', 'color.gray')]
+  },
+
+  // ta.tsi returns -1..1; the conventional scale is -100..100
+  tsi: {
+    emit: ({ params, outputs }) => [
+      `${outputs.tsi} = 100 * ta.tsi(close, ${params.shortPeriod}, ${params.longPeriod})`,
+      `${outputs.signal} = ta.ema(${outputs.tsi}, ${params.signalPeriod})`
+    ],
+    validate: lessThan('shortPeriod', 'longPeriod', 'TSI')
+  },
+
+  awesome: {
+    emit: ({ params, outputs }) => [`${outputs.ao} = ta.sma(hl2, ${params.fastPeriod}) - ta.sma(hl2, ${params.slowPeriod})`],
+    plots: ({ outputs, label }) => [
+      plotLine(outputs.ao, label, `${outputs.ao} >= ${outputs.ao}[1] ? color.green : color.red`, ', style=plot.style_histogram')
+    ],
+    validate: lessThan('fastPeriod', 'slowPeriod', 'Awesome Oscillator')
+  },
+
+  ad: {
+    emit: ({ outputs }) => [`${outputs.ad} = ta.accdist`],
+    unused: ['source']
+  },
+
+  cmf: {
+    emit: ({ name, params, outputs }) => [
+      `${name}_mfv = high == low ? 0.0 : ((close - low) - (high - close)) / (high - low) * volume`,
+      `${outputs.cmf} = math.sum(${name}_mfv, ${params.period}) / math.sum(volume, ${params.period})`
+    ],
+    plots: ({ outputs, label }) => [plotLine(outputs.cmf, label, 'color.teal'), hline(0, 'Zero', 'color.gray')]
+  },
+
+  vwap: {
+    emit: ({ params, values, outputs }) => {
+      const anchor = VWAP_ANCHORS[String(values.anchor)];
+      return [`${outputs.vwap} = ta.vwap(${params.source}${anchor ? `, timeframe.change("${anchor}")` : ''})`];
+    },
+    literals: ['anchor']
+  },
+
+  stddev: {
+    emit: ({ params, outputs }) => [`${outputs.stddev} = ta.stdev(${params.source}, ${params.period})`]
+  },
+
+  // Levels come from the previous completed higher-timeframe bar, so
+  // lookahead with a [1] offset does not repaint
+  pivot: {
+    emit: ({ name, values, outputs: o }) => {
+      const timeframe = PIVOT_TIMEFRAMES[String(values.timeframe)] || 'D';
+      const [h, l, c] = [`${name}_high`, `${name}_low`, `${name}_close`];
+      const lines = [
+        `[${h}, ${l}, ${c}] = request.security(syminfo.tickerid, "${timeframe}", [high[1], low[1], close[1]], lookahead=barmerge.lookahead_on)`,
+        `${name}_range = ${h} - ${l}`
+      ];
+      const range = `${name}_range`;
+
+      switch (values.type) {
+        case 'fibonacci':
+          return [...lines,
+            `${o.pp} = (${h} + ${l} + ${c}) / 3`,
+            `${o.r1} = ${o.pp} + 0.382 * ${range}`, `${o.r2} = ${o.pp} + 0.618 * ${range}`, `${o.r3} = ${o.pp} + ${range}`,
+            `${o.s1} = ${o.pp} - 0.382 * ${range}`, `${o.s2} = ${o.pp} - 0.618 * ${range}`, `${o.s3} = ${o.pp} - ${range}`];
+        case 'camarilla':
+          return [...lines,
+            `${o.pp} = (${h} + ${l} + ${c}) / 3`,
+            `${o.r1} = ${c} + ${range} * 1.1 / 12`, `${o.r2} = ${c} + ${range} * 1.1 / 6`, `${o.r3} = ${c} + ${range} * 1.1 / 4`,
+            `${o.s1} = ${c} - ${range} * 1.1 / 12`, `${o.s2} = ${c} - ${range} * 1.1 / 6`, `${o.s3} = ${c} - ${range} * 1.1 / 4`];
+        default: {
+          const pp = values.type === 'woodie' ? `(${h} + ${l} + 2 * ${c}) / 4` : `(${h} + ${l} + ${c}) / 3`;
+          return [...lines,
+            `${o.pp} = ${pp}`,
+            `${o.r1} = 2 * ${o.pp} - ${l}`, `${o.r2} = ${o.pp} + ${range}`, `${o.r3} = ${h} + 2 * (${o.pp} - ${l})`,
+            `${o.s1} = 2 * ${o.pp} - ${h}`, `${o.s2} = ${o.pp} - ${range}`, `${o.s3} = ${l} - 2 * (${h} - ${o.pp})`];
+        }
+      }
+    },
+    plots: ({ outputs, label }) => Object.entries(outputs).map(([key, series]) =>
+      plotLine(series, `${label} ${key.toUpperCase()}`, key === 'pp' ? 'color.orange' : key.startsWith('r') ? 'color.red' : 'color.green', ', style=plot.style_stepline')
+    ),
+    literals: ['type', 'timeframe']
+  },
+
+  sar: {
+    emit: ({ params, outputs }) => [`${outputs.sar} = ta.sar(${params.start}, ${params.increment}, ${params.maximum})`],
+    plots: ({ outputs, label }) => [plotLine(outputs.sar, label, 'color.blue', ', style=plot.style_cross')]
+  },
+
+  // Holds the last confirmed pivot that moved at least `deviation` percent;
+  // pivots confirm `depth` bars after they form
+  zigzag: {
+    emit: ({ name, params, outputs }) => [
+      `${name}_pivot_high = ta.pivothigh(high, ${params.depth}, ${params.depth})`,
+      `${name}_pivot_low = ta.pivotlow(low, ${params.depth}, ${params.depth})`,
+      `${name}_candidate = not na(${name}_pivot_high) ? ${name}_pivot_high : ${name}_pivot_low`,
+      `var float ${outputs.zigzag} = na`,
+      `if not na(${name}_candidate) and (na(${outputs.zigzag}) or math.abs(${name}_candidate - ${outputs.zigzag}) / ${outputs.zigzag} * 100 >= ${params.deviation})`,
+      `    ${outputs.zigzag} := ${name}_candidate`
+    ],
+    plots: ({ outputs, label }) => [plotLine(outputs.zigzag, label, 'color.orange', ', style=plot.style_stepline')]
+  },
+
+  supertrend: {
+    emit: ({ params, outputs }) => [
+      `[${outputs.supertrend}, ${outputs.direction}] = ta.supertrend(${params.multiplier}, ${params.period})`
+    ],
+    plots: ({ outputs, label }) => [
+      plotLine(outputs.supertrend, label, `${outputs.direction} < 0 ? color.green : color.red`)
+    ]
+  }
+};
+
+export const getIndicatorPineSpec = (indicatorId: string): IndicatorPineSpec | undefined => {
+  return INDICATOR_PINE_SPECS[indicatorId];
+};
+
+/**
+ * Read each definition parameter from a node's parameters, accepting legacy
+ * names and falling back to the definition default
+ */
+export const resolveIndicatorParameters = (
+  definition: IndicatorDefinition,
+  parameters: Record<string, unknown> = {}
+): Record<string, IndicatorParameterValue> => {
+  const resolved: Record<string, IndicatorParameterValue> = {};
+
+  definition.parameters.forEach(param => {
+    const key = [param.name, ...(PARAMETER_ALIASES[param.name] || [])]
+      .find(candidate => parameters[candidate] !== undefined && parameters[candidate] !== null && parameters[candidate] !== '');
+    resolved[param.name] = key !== undefined ? parameters[key] as IndicatorParameterValue : param.default;
+  });
+
+  return resolved;
+};
+
+// Lengths are integers in Pine; a fractional step or bound marks a float
+const isIntegerParameter = (param: IndicatorParameter): boolean => {
+  return [param.default, param.min, param.step].every(value => value === undefined || Number.isInteger(value));
+};
+
+/**
+ * Check a node's parameters against its definition and the indicator's own rules
+ */
+export const validateIndicatorConfig = (
+  indicatorId: string,
+  parameters: Record<string, unknown> = {}
+): { errors: string[]; warnings: string[] } => {
+  const definition = getIndicatorById(indicatorId);
+  const spec = getIndicatorPineSpec(indicatorId);
+  if (!definition || !spec) {
+    return { errors: [`Unknown indicator: ${indicatorId}`], warnings: [] };
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const values = resolveIndicatorParameters(definition, parameters);
+
+  definition.parameters.forEach(param => {
+    const value = values[param.name];
+    const path = `${indicatorId}.${param.name}`;
+
+    if (param.type === 'number') {
+      const numeric = Number(value);
+      if (typeof value === 'boolean' || isNaN(numeric)) {
+        errors.push(`Parameter ${path} must be a number`);
+        return;
+      }
+      if (isIntegerParameter(param) && !Number.isInteger(numeric)) {
+        errors.push(`Parameter ${path} must be an integer`);
+      }
+      if (param.min !== undefined && numeric < param.min) {
+        errors.push(`Parameter ${path} must be >= ${param.min}`);
+      }
+      if (param.max !== undefined && numeric > param.max) {
+        errors.push(`Parameter ${path} must be <= ${param.max}`);
+      }
+    } else if (param.type === 'select' && param.options && !param.options.includes(String(value))) {
+      errors.push(`Parameter ${path} must be one of: ${param.options.join(', ')}`);
+    } else if (param.type === 'boolean' && typeof value !== 'boolean') {
+      errors.push(`Parameter ${path} must be a boolean`);
+    }
+  });
+
+  if (errors.length === 0 && spec.validate) {
+    errors.push(...spec.validate(values));
+  }
+
+  const known = new Set(definition.parameters.flatMap(param => [param.name, ...(PARAMETER_ALIASES[param.name] || [])]));
+  const unknown = Object.keys(parameters).filter(key => !known.has(key));
+  if (unknown.length > 0) {
+    warnings.push(`Ignoring unknown ${indicatorId} parameters: ${unknown.join(', ')}`);
+  }
+
+  return { errors, warnings };
+};
+
+/**
+ * Pine variable for each definition output. Single-output indicators use the
+ * node's variable name directly; tuples get one suffixed variable per output.
+ */
+export const getIndicatorOutputVariables = (
+  definition: IndicatorDefinition,
+  name: string
+): Record<string, string> => {
+  if (definition.outputs.length === 1) {
+    return { [definition.outputs[0]]: name };
+  }
+  return Object.fromEntries(definition.outputs.map(output => [output, `${name}_${output}`]));
+};
+
+/**
+ * Named output handles an indicator node exposes: one per tuple component,
+ * none for single-output indicators, which keep the generic output handle
+ */
+export const getIndicatorOutputHandles = (indicatorId?: string): string[] => {
+  const definition = getIndicatorById(indicatorId || '');
+  return definition && definition.outputs.length > 1 ? [...definition.outputs] : [];
+};
+
+/**
+ * Definition output read through a connection handle. Generic handles select
+ * the first (primary) output; unknown handles return undefined.
+ */
+export const resolveIndicatorOutput = (
+  definition: IndicatorDefinition,
+  handle?: string
+): string | undefined => {
+  if (!handle || GENERIC_OUTPUT_HANDLES.includes(handle)) {
+    return definition.outputs[0];
+  }
+
+  const key = handle.toLowerCase();
+  return definition.outputs.find(output => output === key || (OUTPUT_ALIASES[output] || []).includes(key));
+};
+
+/**
+ * input.*() declarations for the parameters the emitted code reads
+ */
+export const generateIndicatorInputs = (
+  definition: IndicatorDefinition,
+  name: string,
+  label: string,
+  values: Record<string, IndicatorParameterValue>
+): IndicatorInputDeclaration[] => {
+  const spec = getIndicatorPineSpec(definition.id);
+  const skipped = new Set([...(spec?.literals || []), ...(spec?.unused || [])]);
+
+  return definition.parameters
+    .filter(param => !skipped.has(param.name))
+    .map(param => {
+      const variable = `${name}_${param.name}`;
+      const title = `${label} ${param.name.charAt(0).toUpperCase()}${param.name.slice(1)}`;
+      const value = values[param.name];
+      let code: string;
+
+      if (param.name === 'source') {
+        code = `${variable} = input.source(${value}, title="${title}")`;
+      } else if (param.type === 'number') {
+        const bounds = [
+          param.min !== undefined ? `minval=${param.min}` : '',
+          param.max !== undefined ? `maxval=${param.max}` : '',
+          param.step !== undefined ? `step=${param.step}` : ''
+        ].filter(Boolean).join(', ');
+        const fn = isIntegerParameter(param) ? 'input.int' : 'input.float';
+        const numeric = Number(value);
+        // Pine infers input.float from the literal, so whole numbers keep a decimal point
+        const literal = isIntegerParameter(param) || !Number.isInteger(numeric) ? String(numeric) : numeric.toFixed(1);
+        code = `${variable} = ${fn}(${literal}, title="${title}"${bounds ? `, ${bounds}` : ''})`;
+      } else if (param.type === 'boolean') {
+        code = `${variable} = input.bool(${value}, title="${title}")`;
+      } else {
+        const options = param.options ? `, options=[${param.options.map(option => `"${option}"`).join(', ')}]` : '';
+        code = `${variable} = input.string("${value}", title="${title}"${options})`;
+      }
+
+      return { parameter: param.name, variable, code };
+    });
+};
+
+/**
+ * Calculation lines for a node; parameters refer to the declared inputs
+ */
+export const generateIndicatorCode = (
+  definition: IndicatorDefinition,
+  ctx: IndicatorEmitContext
+): string[] => {
+  const spec = getIndicatorPineSpec(definition.id);
+  return spec ? spec.emit(ctx) : [];
+};
+
+export const generateIndicatorPlots = (
+  definition: IndicatorDefinition,
+  ctx: IndicatorEmitContext
+): string[] => {
+  const spec = getIndicatorPineSpec(definition.id);
+  if (spec?.plots) {
+    return spec.plots(ctx);
+  }
+
+  return definition.outputs.map((output, index) => plotLine(
+    ctx.outputs[output],
+    definition.outputs.length === 1 ? ctx.label : `${ctx.label} ${output.toUpperCase()}`,
+    PLOT_COLORS[index % PLOT_COLORS.length]
+  ));
+};
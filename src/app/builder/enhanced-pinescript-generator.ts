@@ -10,147 +10,109 @@
  * - Variable naming conventions and best practices
  */
 
-import { CustomNode, CustomEdge, NodeConfig } from './canvas-config';
+import { CustomNode, CustomEdge, NodeConfig, resolveActionSettings } from './canvas-config';
+import type { ActionSettings } from './canvas-config';
+import { getIndicatorById } from './data/indicator-defs';
+import type { IndicatorDefinition } from './data/indicator-defs';
+import {
+  resolveIndicatorParameters,
+  validateIndicatorConfig,
+  getIndicatorOutputVariables,
+  generateIndicatorInputs,
+  generateIndicatorCode,
+  generateIndicatorPlots,
+  resolveIndicatorOutput
+} from './data/indicator-registry';
+import type { IndicatorEmitContext, IndicatorInputDeclaration } from './data/indicator-registry';
+import { isValidTimezone } from '@/lib/backtesting/datasets';
+import { isBacktestableIndicator } from '@/lib/backtesting/indicator-series';
+import { findReferences, parsePine } from '@/lib/pinescript';
 
 // Pine Script v6 Constants and Configuration
 const PINE_SCRIPT_VERSION = '6';
 const DEFAULT_STRATEGY_TITLE = 'PineGenie Strategy';
 
-// Enhanced Pine Script v6 Function Library
-interface PineScriptFunction {
-  name: string;
-  syntax: string;
-  parameters: Record<string, PineScriptParameter>;
-  returnType: 'float' | 'int' | 'bool' | 'string' | 'color' | 'array' | 'matrix' | 'tuple';
-  category: 'indicator' | 'math' | 'strategy' | 'plot' | 'input' | 'security';
-  validation?: (params: Record<string, unknown>) => string[];
+// Price fields a data source connection can select through its handle
+const PRICE_HANDLES = ['open', 'high', 'low', 'close', 'volume', 'hl2', 'hlc3', 'ohlc4'];
+
+// Condition input handles that pin an operand to one side of the comparison
+const CONDITION_LEFT_HANDLE = 'left';
+const CONDITION_RIGHT_HANDLE = 'right';
+
+// Keywords and built-in series a node label must not turn into
+const PINE_RESERVED_WORDS = new Set([
+  'and', 'or', 'not', 'if', 'else', 'for', 'while', 'switch', 'var', 'varip', 'true', 'false', 'na',
+  'open', 'high', 'low', 'close', 'volume', 'time', 'hl2', 'hlc3', 'ohlc4'
+]);
+
+// Nodes that produce a boolean series and can feed logic nodes and actions
+const SIGNAL_NODE_TYPES = ['condition', 'logic'];
+
+// Raw Pine reading one of these is emitted after the strategy logic that declares them
+const LATE_RAW_PINE_SOURCES = ['condition', 'logic', 'timing', 'action'];
+
+const LOGIC_OPERATORS = ['and', 'or', 'not', 'n_of_m', 'consecutive', 'within'];
+const SINGLE_INPUT_LOGIC_OPERATORS = ['not', 'consecutive', 'within'];
+
+// Lookback used by the consecutive and within variants when none is set
+export const DEFAULT_LOGIC_BARS = 3;
+
+// Pine operator precedence, loosest first, for parenthesizing nested logic
+enum Precedence {
+  Or = 1,
+  And = 2,
+  Not = 3,
+  Comparison = 4,
+  Atom = 5
 }
 
-interface PineScriptParameter {
-  type: 'int' | 'float' | 'bool' | 'string' | 'color' | 'source';
-  required: boolean;
-  default?: unknown;
-  min?: number;
-  max?: number;
-  options?: string[];
-  description: string;
+interface LogicExpression {
+  code: string;
+  precedence: Precedence;
 }
 
-// Comprehensive Pine Script v6 Function Library
-const PINE_SCRIPT_FUNCTIONS: Record<string, PineScriptFunction> = {
-  // Technical Analysis Functions
-  'ta.rsi': {
-    name: 'ta.rsi',
-    syntax: 'ta.rsi(source, length)',
-    parameters: {
-      source: { type: 'source', required: true, default: 'close', description: 'Source data for RSI calculation' },
-      length: { type: 'int', required: true, default: 14, min: 1, max: 5000, description: 'Number of bars for RSI calculation' }
-    },
-    returnType: 'float',
-    category: 'indicator',
-    validation: (params: Record<string, unknown>) => {
-      const errors: string[] = [];
-      const length = params.length as number;
-      if (length !== undefined && (length < 1 || length > 5000)) {
-        errors.push('RSI length must be between 1 and 5000');
-      }
-      return errors;
-    }
-  },
-  'ta.sma': {
-    name: 'ta.sma',
-    syntax: 'ta.sma(source, length)',
-    parameters: {
-      source: { type: 'source', required: true, default: 'close', description: 'Source data for SMA calculation' },
-      length: { type: 'int', required: true, default: 20, min: 1, max: 5000, description: 'Number of bars for SMA calculation' }
-    },
-    returnType: 'float',
-    category: 'indicator'
-  },
-  'ta.ema': {
-    name: 'ta.ema',
-    syntax: 'ta.ema(source, length)',
-    parameters: {
-      source: { type: 'source', required: true, default: 'close', description: 'Source data for EMA calculation' },
-      length: { type: 'int', required: true, default: 20, min: 1, max: 5000, description: 'Number of bars for EMA calculation' }
-    },
-    returnType: 'float',
-    category: 'indicator'
-  },
-  'ta.macd': {
-    name: 'ta.macd',
-    syntax: 'ta.macd(source, fastlen, slowlen, siglen)',
-    parameters: {
-      source: { type: 'source', required: true, default: 'close', description: 'Source data for MACD calculation' },
-      fastlen: { type: 'int', required: true, default: 12, min: 1, max: 5000, description: 'Fast EMA length' },
-      slowlen: { type: 'int', required: true, default: 26, min: 1, max: 5000, description: 'Slow EMA length' },
-      siglen: { type: 'int', required: true, default: 9, min: 1, max: 5000, description: 'Signal line EMA length' }
-    },
-    returnType: 'tuple',
-    category: 'indicator',
-    validation: (params: Record<string, unknown>) => {
-      const errors: string[] = [];
-      const fastlen = params.fastlen as number;
-      const slowlen = params.slowlen as number;
-      if (fastlen !== undefined && slowlen !== undefined && fastlen >= slowlen) {
-        errors.push('MACD fast length must be less than slow length');
-      }
-      return errors;
-    }
-  },
-  'ta.bb': {
-    name: 'ta.bb',
-    syntax: 'ta.bb(source, length, mult)',
-    parameters: {
-      source: { type: 'source', required: true, default: 'close', description: 'Source data for Bollinger Bands' },
-      length: { type: 'int', required: true, default: 20, min: 1, max: 5000, description: 'Moving average length' },
-      mult: { type: 'float', required: true, default: 2.0, min: 0.1, max: 10.0, description: 'Standard deviation multiplier' }
-    },
-    returnType: 'tuple',
-    category: 'indicator'
-  },
-  'ta.stoch': {
-    name: 'ta.stoch',
-    syntax: 'ta.stoch(source, high, low, length)',
-    parameters: {
-      source: { type: 'source', required: true, default: 'close', description: 'Source for stochastic calculation' },
-      high: { type: 'source', required: true, default: 'high', description: 'High price source' },
-      low: { type: 'source', required: true, default: 'low', description: 'Low price source' },
-      length: { type: 'int', required: true, default: 14, min: 1, max: 5000, description: 'Stochastic length' }
-    },
-    returnType: 'tuple',
-    category: 'indicator'
-  },
-  'ta.atr': {
-    name: 'ta.atr',
-    syntax: 'ta.atr(length)',
-    parameters: {
-      length: { type: 'int', required: true, default: 14, min: 1, max: 5000, description: 'ATR calculation length' }
-    },
-    returnType: 'float',
-    category: 'indicator'
-  },
-  'ta.crossover': {
-    name: 'ta.crossover',
-    syntax: 'ta.crossover(source1, source2)',
-    parameters: {
-      source1: { type: 'source', required: true, description: 'First series' },
-      source2: { type: 'source', required: true, description: 'Second series' }
-    },
-    returnType: 'bool',
-    category: 'indicator'
-  },
-  'ta.crossunder': {
-    name: 'ta.crossunder',
-    syntax: 'ta.crossunder(source1, source2)',
-    parameters: {
-      source1: { type: 'source', required: true, description: 'First series' },
-      source2: { type: 'source', required: true, description: 'Second series' }
-    },
-    returnType: 'bool',
-    category: 'indicator'
-  }
-};
+// Risk distances are a percentage of the entry price unless a node asks for ATR multiples
+const RISK_UNITS = ['percent', 'atr'];
+export const DEFAULT_ATR_PERIOD = 14;
+
+// Day names in Date.getUTCDay() order; Pine session day digits are index + 1
+export const SESSION_DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const SESSION_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const TRADING_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const ACTION_KINDS = ['entry', 'exit', 'order'];
+const ACTION_DIRECTIONS = ['long', 'short'];
+const QUANTITY_MODES = ['fixed', 'percent_equity', 'risk'];
+
+/**
+ * Minutes after midnight for a HH:MM session time, or null when malformed
+ */
+export function parseSessionTime(value: string): number | null {
+  const match = SESSION_TIME_PATTERN.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function parseTradingDate(value: string): { year: number; month: number; day: number } | null {
+  const match = TRADING_DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? { year, month, day } : null;
+}
+
+// Broker emulator settings written into the strategy() declaration.
+// The backtest engine fills orders with the same values so that its
+// results line up with what TradingView reports for the exported script.
+export const STRATEGY_DEFAULTS = {
+  initialCapital: 10000,
+  defaultQtyPercent: 10,
+  commissionPercent: 0.1,
+  slippageTicks: 2,
+  marginLong: 100,
+  marginShort: 100
+} as const;
 
 // Enhanced Code Generation Class
 export class EnhancedPineScriptGenerator {
@@ -187,7 +149,9 @@ export class EnhancedPineScriptGenerator {
       let code = this.generateHeader();
       code += this.generateInputsSection();
       code += this.generateIndicatorsSection();
+      code += this.generateRawPineSection(false);
       code += this.generateStrategyLogic();
+      code += this.generateRawPineSection(true);
       code += this.generatePlotsSection();
       code += this.generateFooter();
 
@@ -280,11 +244,35 @@ export class EnhancedPineScriptGenerator {
         warnings.push(...conditionValidation.warnings);
         break;
         
+      case 'logic':
+        const logicValidation = this.validateLogicNode(node, config);
+        errors.push(...logicValidation.errors);
+        warnings.push(...logicValidation.warnings);
+        break;
+        
       case 'action':
         const actionValidation = this.validateActionNode(node, config);
         errors.push(...actionValidation.errors);
         warnings.push(...actionValidation.warnings);
         break;
+        
+      case 'risk':
+        const riskValidation = this.validateRiskNode(node, config);
+        errors.push(...riskValidation.errors);
+        warnings.push(...riskValidation.warnings);
+        break;
+        
+      case 'timing':
+        const timingValidation = this.validateTimingNode(node, config);
+        errors.push(...timingValidation.errors);
+        warnings.push(...timingValidation.warnings);
+        break;
+
+      case 'raw-pine':
+        const rawValidation = this.validateRawPineNode(node, config);
+        errors.push(...rawValidation.errors);
+        warnings.push(...rawValidation.warnings);
+        break;
     }
 
     return { errors, warnings };
@@ -300,30 +288,12 @@ export class EnhancedPineScriptGenerator {
       return { errors, warnings };
     }
 
-    const pineFunction = PINE_SCRIPT_FUNCTIONS[`ta.${indicatorId}`];
-    if (!pineFunction) {
-      errors.push(`Unknown indicator: ${indicatorId}`);
-      return { errors, warnings };
-    }
+    const validation = validateIndicatorConfig(indicatorId, config.parameters || {});
+    errors.push(...validation.errors);
+    warnings.push(...validation.warnings.map(warning => `${warning} in node "${node.data.label}"`));
 
-    // Validate parameters
-    const params = config.parameters || {};
-    Object.entries(pineFunction.parameters).forEach(([paramName, paramDef]) => {
-      if (paramDef.required && !(paramName in params)) {
-        errors.push(`Missing required parameter "${paramName}" for ${indicatorId}`);
-      }
-      
-      if (paramName in params) {
-        const value = params[paramName];
-        const paramErrors = this.validateParameter(value, paramDef, `${indicatorId}.${paramName}`);
-        errors.push(...paramErrors);
-      }
-    });
-
-    // Run custom validation if available
-    if (pineFunction.validation) {
-      const customErrors = pineFunction.validation(params);
-      errors.push(...customErrors);
+    if (getIndicatorById(indicatorId) && !isBacktestableIndicator(indicatorId)) {
+      warnings.push(`Indicator ${indicatorId} in node "${node.data.label}" cannot be backtested yet`);
     }
 
     return { errors, warnings };
@@ -342,70 +312,243 @@ export class EnhancedPineScriptGenerator {
       errors.push(`Invalid operator "${config.operator}" in condition node "${node.data.label}"`);
     }
 
-    if (config.threshold === undefined || config.threshold === null) {
+    const operands = this.getConditionSources(node);
+    operands.forEach(({ edge, source }) => {
+      const definition = getIndicatorById(source.data.config?.indicatorId || '');
+      if (definition && definition.outputs.length > 1 && !resolveIndicatorOutput(definition, edge.sourceHandle)) {
+        errors.push(
+          `Condition node "${node.data.label}" reads unknown output "${edge.sourceHandle}" of "${source.data.label}" ` +
+          `(expected one of: ${definition.outputs.join(', ')})`
+        );
+      }
+    });
+
+    if (config.compareTo === 'series' && operands.length < 2) {
+      errors.push(`Condition node "${node.data.label}" compares two series but has ${operands.length} connected`);
+    } else if (!this.comparesSeries(config, operands.length) &&
+      (config.threshold === undefined || config.threshold === null)) {
       warnings.push(`Condition node "${node.data.label}" has no threshold value`);
     }
 
     return { errors, warnings };
   }
 
+  private validateLogicNode(node: CustomNode, config: NodeConfig): { errors: string[], warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const label = node.data.label;
+    const operator = config.logicOperator || 'and';
+
+    if (!LOGIC_OPERATORS.includes(operator)) {
+      errors.push(`Invalid logic operator "${operator}" in logic node "${label}"`);
+      return { errors, warnings };
+    }
+
+    const incoming = this.edges
+      .filter(edge => edge.target === node.id)
+      .map(edge => this.nodes.find(candidate => candidate.id === edge.source))
+      .filter((source): source is CustomNode => !!source);
+    const nonSignals = incoming.filter(source => !SIGNAL_NODE_TYPES.includes(source.type));
+    if (nonSignals.length > 0) {
+      errors.push(
+        `Logic node "${label}" only combines conditions and logic nodes, not ${nonSignals.map(source => `"${source.data.label}"`).join(', ')}`
+      );
+    }
+
+    const inputCount = incoming.length - nonSignals.length;
+    if (inputCount === 0) {
+      errors.push(`Logic node "${label}" has no connected signals`);
+    } else if (SINGLE_INPUT_LOGIC_OPERATORS.includes(operator) && inputCount > 1) {
+      errors.push(`Logic node "${label}" (${operator}) takes exactly one signal but has ${inputCount}`);
+    } else if ((operator === 'and' || operator === 'or') && inputCount === 1) {
+      warnings.push(`Logic node "${label}" combines a single signal`);
+    }
+
+    if (operator === 'n_of_m' && config.requiredCount !== undefined) {
+      const required = Number(config.requiredCount);
+      if (!Number.isInteger(required) || required < 1 || (inputCount > 0 && required > inputCount)) {
+        errors.push(`Logic node "${label}" requires ${config.requiredCount} of ${inputCount} signals`);
+      }
+    }
+
+    if ((operator === 'consecutive' || operator === 'within') && config.bars !== undefined) {
+      const bars = Number(config.bars);
+      if (!Number.isInteger(bars) || bars < 1) {
+        errors.push(`Logic node "${label}" bars must be a positive integer`);
+      }
+    }
+
+    return { errors, warnings };
+  }
+
   private validateActionNode(node: CustomNode, config: NodeConfig): { errors: string[], warnings: string[] } {
     const errors: string[] = [];
     const warnings: string[] = [];
+    const label = node.data.label;
     
     if (!config.orderType) {
-      warnings.push(`Action node "${node.data.label}" using default order type`);
+      warnings.push(`Action node "${label}" using default order type`);
     }
 
     const validOrderTypes = ['market', 'limit', 'stop'];
     if (config.orderType && !validOrderTypes.includes(config.orderType)) {
-      errors.push(`Invalid order type "${config.orderType}" in action node "${node.data.label}"`);
+      errors.push(`Invalid order type "${config.orderType}" in action node "${label}"`);
+    }
+
+    if (config.actionKind !== undefined && !ACTION_KINDS.includes(config.actionKind)) {
+      errors.push(`Invalid action type "${config.actionKind}" in action node "${label}"`);
+      return { errors, warnings };
+    }
+    if (config.direction !== undefined && !ACTION_DIRECTIONS.includes(config.direction)) {
+      errors.push(`Invalid direction "${config.direction}" in action node "${label}"`);
+    }
+    if (config.quantityMode !== undefined && !QUANTITY_MODES.includes(config.quantityMode)) {
+      errors.push(`Invalid quantity mode "${config.quantityMode}" in action node "${label}"`);
+    }
+
+    const settings = resolveActionSettings(node);
+    if (!settings) {
+      warnings.push(`Action node "${label}" has no action type and places no orders`);
+      return { errors, warnings };
+    }
+    if (settings.inferred) {
+      warnings.push(`Action node "${label}" has no action type; treating it as ${settings.kind === 'entry' ? 'a long entry' : 'an exit'} from its label`);
+    }
+
+    if (settings.kind === 'exit') {
+      const opened = this.getActions().filter(action => action.settings.kind === 'entry').map(action => action.settings.orderId);
+      if (config.entryId && !opened.includes(config.entryId)) {
+        warnings.push(`Action node "${label}" closes entry "${config.entryId}" that no action opens`);
+      }
+      return { errors, warnings };
     }
 
     if (!config.quantity) {
-      warnings.push(`Action node "${node.data.label}" has no quantity specified`);
+      warnings.push(`Action node "${label}" has no quantity specified`);
+    } else if (!(Number(settings.quantity) > 0)) {
+      errors.push(`Action node "${label}" quantity must be a positive number`);
+    }
+    if (settings.quantityMode === 'risk' && this.getStopDistances().length === 0) {
+      errors.push(`Action node "${label}" sizes by risk but no risk node sets a stop loss`);
+    }
+
+    if (config.orderOffset !== undefined && !(Number(config.orderOffset) >= 0)) {
+      errors.push(`Action node "${label}" orderOffset must be zero or more`);
+    }
+    if (config.pyramiding !== undefined && !(Number.isInteger(Number(config.pyramiding)) && Number(config.pyramiding) >= 1)) {
+      errors.push(`Action node "${label}" pyramiding must be a positive integer`);
     }
 
     return { errors, warnings };
   }
 
-  private validateParameter(value: unknown, paramDef: PineScriptParameter, paramPath: string): string[] {
+  private validateRiskNode(node: CustomNode, config: NodeConfig): { errors: string[], warnings: string[] } {
     const errors: string[] = [];
-    
-    // Type validation
-    switch (paramDef.type) {
-      case 'int':
-        if (!Number.isInteger(Number(value))) {
-          errors.push(`Parameter ${paramPath} must be an integer`);
-        }
-        break;
-      case 'float':
-        if (isNaN(Number(value))) {
-          errors.push(`Parameter ${paramPath} must be a number`);
-        }
-        break;
-      case 'bool':
-        if (typeof value !== 'boolean') {
-          errors.push(`Parameter ${paramPath} must be a boolean`);
-        }
-        break;
+    const warnings: string[] = [];
+    const label = node.data.label;
+    const unit = config.riskUnit || 'percent';
+
+    if (!RISK_UNITS.includes(unit)) {
+      errors.push(`Invalid risk unit "${unit}" in risk node "${label}"`);
     }
 
-    // Range validation
-    if (paramDef.min !== undefined && Number(value) < paramDef.min) {
-      errors.push(`Parameter ${paramPath} must be >= ${paramDef.min}`);
+    const distances = { stopLoss: config.stopLoss, takeProfit: config.takeProfit, trailingStop: config.trailingStop };
+    let hasDistance = false;
+    for (const [key, raw] of Object.entries(distances)) {
+      if (raw === undefined || raw === null) continue;
+      const value = Number(raw);
+      if (!isFinite(value) || value <= 0) {
+        errors.push(`Risk node "${label}" ${key} must be a positive number`);
+      } else if (unit === 'percent' && key !== 'takeProfit' && value >= 100) {
+        errors.push(`Risk node "${label}" ${key} must be below 100%`);
+      } else {
+        hasDistance = true;
+      }
     }
-    
-    if (paramDef.max !== undefined && Number(value) > paramDef.max) {
-      errors.push(`Parameter ${paramPath} must be <= ${paramDef.max}`);
+
+    if (unit === 'atr' && config.atrPeriod !== undefined) {
+      const period = Number(config.atrPeriod);
+      if (!Number.isInteger(period) || period < 1) {
+        errors.push(`Risk node "${label}" atrPeriod must be a positive integer`);
+      }
+    }
+
+    if (config.maxRisk !== undefined && !(Number(config.maxRisk) > 0 && Number(config.maxRisk) <= 100)) {
+      errors.push(`Risk node "${label}" maxRisk must be between 0 and 100`);
     }
 
-    // Options validation
-    if (paramDef.options && !paramDef.options.includes(String(value))) {
-      errors.push(`Parameter ${paramPath} must be one of: ${paramDef.options.join(', ')}`);
+    if (!hasDistance && errors.length === 0) {
+      warnings.push(`Risk node "${label}" sets no stop loss, take profit or trailing stop`);
+    } else if (hasDistance && !this.getActions().some(({ settings }) => settings.kind === 'entry')) {
+      warnings.push(`Risk node "${label}" has no entry action to protect`);
     }
 
-    return errors;
+    return { errors, warnings };
+  }
+
+  private validateTimingNode(node: CustomNode, config: NodeConfig): { errors: string[], warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const label = node.data.label;
+
+    if ((config.startTime === undefined) !== (config.endTime === undefined)) {
+      errors.push(`Timing node "${label}" needs both a start and an end time`);
+    }
+    (['startTime', 'endTime'] as const).forEach(key => {
+      const value = config[key];
+      if (value !== undefined && parseSessionTime(String(value)) === null) {
+        errors.push(`Timing node "${label}" ${key} "${value}" must be HH:MM`);
+      }
+    });
+
+    if (config.timezone !== undefined && !isValidTimezone(String(config.timezone))) {
+      errors.push(`Unknown timezone "${config.timezone}" in timing node "${label}"`);
+    }
+
+    if (config.daysOfWeek !== undefined) {
+      const days: string[] = Array.isArray(config.daysOfWeek) ? config.daysOfWeek : [];
+      const unknown = days.filter(day => !(SESSION_DAYS as readonly string[]).includes(day));
+      if (days.length === 0) {
+        errors.push(`Timing node "${label}" has no trading days`);
+      } else if (unknown.length > 0) {
+        errors.push(`Timing node "${label}" has unknown days: ${unknown.join(', ')}`);
+      }
+    }
+
+    (['startDate', 'endDate'] as const).forEach(key => {
+      const value = config[key];
+      if (value !== undefined && !parseTradingDate(String(value))) {
+        errors.push(`Timing node "${label}" ${key} "${value}" must be a YYYY-MM-DD date`);
+      }
+    });
+    if (config.startDate && config.endDate && config.startDate > config.endDate) {
+      errors.push(`Timing node "${label}" ends before it starts`);
+    }
+
+    const restricts = ['startTime', 'daysOfWeek', 'startDate', 'endDate'].some(key => config[key] !== undefined);
+    if (!restricts) {
+      warnings.push(`Timing node "${label}" does not restrict trading`);
+    }
+
+    return { errors, warnings };
+  }
+
+  // Raw Pine is emitted as written, so it only has to parse
+  private validateRawPineNode(node: CustomNode, config: NodeConfig): { errors: string[], warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config.pineCode || !config.pineCode.trim()) {
+      errors.push(`Raw Pine node "${node.data.label}" has no code`);
+      return { errors, warnings };
+    }
+
+    const { errors: syntaxErrors } = parsePine(config.pineCode);
+    syntaxErrors.forEach(error => {
+      errors.push(`Raw Pine node "${node.data.label}" line ${error.range.start.line}: ${error.message}`);
+    });
+
+    return { errors, warnings };
   }
 
   private validateConnections(): void {
@@ -485,8 +628,18 @@ export class EnhancedPineScriptGenerator {
   }
 
   private generateVariableDeclarations(): void {
+    const usedNames = new Set<string>();
+
     this.nodes.forEach(node => {
-      const varName = this.sanitizeVariableName(node.data.label);
+      // Two nodes with the same label must not declare the same Pine variable
+      const sanitized = this.sanitizeVariableName(node.data.label) || node.type.replace(/-/g, '_');
+      const baseName = PINE_RESERVED_WORDS.has(sanitized) ? `${sanitized}_${node.type.replace(/-/g, '_')}` : sanitized;
+      let varName = baseName;
+      for (let suffix = 2; usedNames.has(varName); suffix++) {
+        varName = `${baseName}_${suffix}`;
+      }
+      usedNames.add(varName);
+
       const varInfo: VariableInfo = {
         name: varName,
         type: this.getVariableType(node),
@@ -501,10 +654,12 @@ export class EnhancedPineScriptGenerator {
   private getVariableType(node: CustomNode): string {
     switch (node.type) {
       case 'indicator':
-        const indicatorId = node.data.config?.indicatorId;
-        const pineFunction = PINE_SCRIPT_FUNCTIONS[`ta.${indicatorId}`];
-        return pineFunction?.returnType || 'float';
+        const definition = getIndicatorById(node.data.config?.indicatorId || '');
+        return definition && definition.outputs.length > 1 ? 'tuple' : 'float';
       case 'condition':
+      case 'logic':
+      case 'timing':
+      case 'action':
         return 'bool';
       case 'data-source':
         return 'float';
@@ -514,6 +669,10 @@ export class EnhancedPineScriptGenerator {
   }
 
   private generateHeader(): string {
+    // Pine caps pyramiding for the whole strategy, so the most permissive entry sets it
+    const pyramiding = Math.max(1, ...this.getActions().map(({ settings }) => settings.kind === 'entry' ? settings.pyramiding : 1));
+    const pyramidingLine = pyramiding > 1 ? `\n         pyramiding=${pyramiding},` : '';
+
     return `//@version=${PINE_SCRIPT_VERSION}
 // =============================================================================
 // ${DEFAULT_STRATEGY_TITLE}
@@ -522,14 +681,14 @@ export class EnhancedPineScriptGenerator {
 
 strategy("${DEFAULT_STRATEGY_TITLE}", 
          overlay=true, 
-         margin_long=100, 
-         margin_short=100,
+         margin_long=${STRATEGY_DEFAULTS.marginLong}, 
+         margin_short=${STRATEGY_DEFAULTS.marginShort},${pyramidingLine}
          default_qty_type=strategy.percent_of_equity,
-         default_qty_value=10,
-         initial_capital=10000,
+         default_qty_value=${STRATEGY_DEFAULTS.defaultQtyPercent},
+         initial_capital=${STRATEGY_DEFAULTS.initialCapital},
          commission_type=strategy.commission.percent,
-         commission_value=0.1,
-         slippage=2)
+         commission_value=${STRATEGY_DEFAULTS.commissionPercent},
+         slippage=${STRATEGY_DEFAULTS.slippageTicks})
 
 `;
   }
@@ -540,27 +699,12 @@ strategy("${DEFAULT_STRATEGY_TITLE}",
     inputs += '// =============================================================================\n\n';
     
     this.nodes.forEach(node => {
-      if (node.type === 'indicator' && node.data.config?.parameters) {
-        const params = node.data.config.parameters;
-        const indicatorId = node.data.config.indicatorId || 'unknown';
-        
-        Object.entries(params).forEach(([key, value]) => {
-          const inputName = `${indicatorId}_${key}`;
-          const inputTitle = `${node.data.label} ${this.capitalizeFirst(key)}`;
-          
-          if (typeof value === 'number') {
-            if (Number.isInteger(value)) {
-              inputs += `${inputName} = input.int(${value}, title="${inputTitle}")\n`;
-            } else {
-              inputs += `${inputName} = input.float(${value}, title="${inputTitle}")\n`;
-            }
-          } else if (typeof value === 'boolean') {
-            inputs += `${inputName} = input.bool(${value}, title="${inputTitle}")\n`;
-          } else if (typeof value === 'string') {
-            inputs += `${inputName} = input.string("${value}", title="${inputTitle}")\n`;
-          }
-        });
-      }
+      const indicator = this.getIndicatorContext(node);
+      if (!indicator) return;
+
+      indicator.inputs.forEach(input => {
+        inputs += `${input.code}\n`;
+      });
     });
     
     return inputs + '\n';
@@ -584,55 +728,97 @@ strategy("${DEFAULT_STRATEGY_TITLE}",
   }
 
   private generateIndicatorCode(node: CustomNode): string {
+    const indicator = this.getIndicatorContext(node);
+    if (!indicator) return '';
+
+    const lines = generateIndicatorCode(indicator.definition, indicator.ctx);
+    return `// ${node.data.label}\n${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Registry context for an indicator node: its definition, resolved
+   * parameters, input variables and one Pine variable per output
+   */
+  private getIndicatorContext(node: CustomNode): {
+    definition: IndicatorDefinition;
+    ctx: IndicatorEmitContext;
+    inputs: IndicatorInputDeclaration[];
+  } | null {
+    if (node.type !== 'indicator') return null;
+
     const varInfo = this.variables.get(node.id);
-    if (!varInfo) return '';
-    
-    const indicatorId = node.data.config?.indicatorId;
-    if (!indicatorId) return '';
-    
-    const pineFunction = PINE_SCRIPT_FUNCTIONS[`ta.${indicatorId}`];
-    if (!pineFunction) return '';
-    
-    let code = `// ${node.data.label}\n`;
-    
-    const params = node.data.config?.parameters || {};
-    const paramStrings: string[] = [];
-    
-    // Build parameter list in correct order
-    Object.entries(pineFunction.parameters).forEach(([paramName, paramDef]) => {
-      let paramValue = params[paramName];
-      
-      if (paramValue === undefined) {
-        paramValue = paramDef.default;
-      }
-      
-      // Use input variable if it exists
-      const inputVarName = `${indicatorId}_${paramName}`;
-      if (typeof paramValue === 'number' || typeof paramValue === 'boolean') {
-        paramStrings.push(inputVarName);
-      } else {
-        paramStrings.push(String(paramValue));
-      }
+    const definition = getIndicatorById(node.data.config?.indicatorId || '');
+    if (!varInfo || !definition) return null;
+
+    const values = resolveIndicatorParameters(definition, node.data.config?.parameters || {});
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(values)) {
+      // Parameters without an input declaration are written inline
+      params[key] = typeof value === 'string' ? `"${value}"` : String(value);
+    }
+    const inputs = generateIndicatorInputs(definition, varInfo.name, node.data.label, values);
+    inputs.forEach(input => {
+      params[input.parameter] = input.variable;
     });
-    
-    const functionCall = `${pineFunction.name}(${paramStrings.join(', ')})`;
-    
-    // Handle multi-output indicators
-    if (pineFunction.returnType === 'tuple') {
-      if (indicatorId === 'macd') {
-        code += `[${varInfo.name}_line, ${varInfo.name}_signal, ${varInfo.name}_histogram] = ${functionCall}\n`;
-      } else if (indicatorId === 'bb') {
-        code += `[${varInfo.name}_middle, ${varInfo.name}_upper, ${varInfo.name}_lower] = ${functionCall}\n`;
-      } else if (indicatorId === 'stoch') {
-        code += `[${varInfo.name}_k, ${varInfo.name}_d] = ${functionCall}\n`;
-      } else {
-        code += `${varInfo.name} = ${functionCall}\n`;
+
+    return {
+      definition,
+      inputs,
+      ctx: {
+        name: varInfo.name,
+        params,
+        values,
+        outputs: getIndicatorOutputVariables(definition, varInfo.name),
+        label: node.data.label
       }
-    } else {
-      code += `${varInfo.name} = ${functionCall}\n`;
+    };
+  }
+
+  /**
+   * Pine series a connection reads: the indicator output named by the
+   * handle (the first output by default), the selected price field or the
+   * raw Pine variable
+   */
+  private getConnectionSeries(source: CustomNode, handle?: string): string | null {
+    if (source.type === 'raw-pine') {
+      return handle || null;
     }
-    
-    return code;
+    if (source.type === 'data-source') {
+      const field = handle && PRICE_HANDLES.includes(handle) ? handle : source.data.config?.source;
+      return field && PRICE_HANDLES.includes(field) ? field : 'close';
+    }
+
+    const indicator = this.getIndicatorContext(source);
+    if (!indicator) return this.variables.get(source.id)?.name || null;
+
+    const output = resolveIndicatorOutput(indicator.definition, handle) || indicator.definition.outputs[0];
+    return indicator.ctx.outputs[output];
+  }
+
+  /**
+   * Indicator, price and raw Pine connections into a condition, left operand
+   * first. Pinned handles win; otherwise indicators come before raw price.
+   */
+  private getConditionSources(node: CustomNode): Array<{ edge: CustomEdge; source: CustomNode }> {
+    const rank = (edge: CustomEdge, source: CustomNode) => {
+      if (edge.targetHandle === CONDITION_LEFT_HANDLE) return 0;
+      if (edge.targetHandle === CONDITION_RIGHT_HANDLE) return 3;
+      return source.type === 'data-source' ? 2 : 1;
+    };
+
+    return this.edges
+      .filter(edge => edge.target === node.id)
+      .map(edge => ({ edge, source: this.nodes.find(candidate => candidate.id === edge.source) }))
+      .filter((operand): operand is { edge: CustomEdge; source: CustomNode } =>
+        !!operand.source && ['indicator', 'data-source', 'raw-pine'].includes(operand.source.type)
+      )
+      .sort((a, b) => rank(a.edge, a.source) - rank(b.edge, b.source));
+  }
+
+  // Two connected series are compared with each other unless a threshold is set
+  private comparesSeries(config: NodeConfig, operandCount: number): boolean {
+    if (operandCount < 2 || config.compareTo === 'threshold') return false;
+    return config.compareTo === 'series' || config.threshold === undefined || config.threshold === null;
   }
 
   private generateStrategyLogic(): string {
@@ -660,119 +846,415 @@ strategy("${DEFAULT_STRATEGY_TITLE}",
     });
     
     strategy += '\n';
+
+    // Logic nodes after the conditions they read, nested ones inlined
+    const logicNodes = this.topologicalSort().filter(node => node.type === 'logic' && !this.isInlinedLogic(node));
+    if (logicNodes.length > 0) {
+      strategy += '// Signal Logic\n';
+      logicNodes.forEach(node => {
+        const varInfo = this.variables.get(node.id);
+        if (varInfo) {
+          strategy += `${varInfo.name} = ${this.generateLogicExpression(node).code}\n`;
+        }
+      });
+      strategy += '\n';
+    }
     
-    // Generate entry/exit logic
-    const entryActions = actionNodes.filter(node => 
-      node.data.label.toLowerCase().includes('buy') || 
-      node.data.label.toLowerCase().includes('entry')
-    );
-    
-    const exitActions = actionNodes.filter(node => 
-      node.data.label.toLowerCase().includes('sell') || 
-      node.data.label.toLowerCase().includes('exit') ||
-      node.data.label.toLowerCase().includes('close')
-    );
-    
-    if (entryActions.length > 0) {
-      strategy += '// Entry Logic\n';
-      const entryConditions = this.findConnectedConditions(entryActions);
-      if (entryConditions.length > 0) {
-        const conditionNames = entryConditions.map(c => this.variables.get(c.id)?.name).filter(Boolean);
-        strategy += `longCondition = ${conditionNames.join(' and ')}\n`;
-        strategy += `if longCondition\n`;
-        strategy += `    strategy.entry("Long", strategy.long)\n\n`;
-      }
+    // Session, weekday and date-range guards
+    const actions = this.getActions();
+    const guards = new Map(actions.map(action => [action.node.id, this.findTimingGuards(action)]));
+    const timingNodes = this.nodes.filter(node => actions.some(action => guards.get(action.node.id)!.includes(node)));
+    if (timingNodes.length > 0) {
+      strategy += '// Trading Sessions\n';
+      timingNodes.forEach(node => {
+        const varInfo = this.variables.get(node.id);
+        if (varInfo) {
+          strategy += `${varInfo.name} = ${this.generateTimingCode(node)}\n`;
+        }
+      });
+      strategy += '\n';
+    }
+
+    // ATR distances are read by risk-based sizing and captured for protective exits
+    const atrRiskNodes = this.getRiskNodes().filter(node => node.data.config?.riskUnit === 'atr');
+    if (atrRiskNodes.length > 0) {
+      strategy += '// Risk Distances\n';
+      atrRiskNodes.forEach(node => {
+        const period = Math.floor(Number(node.data.config?.atrPeriod ?? DEFAULT_ATR_PERIOD));
+        strategy += `${this.variables.get(node.id)?.name}_atr = ta.atr(${period})\n`;
+      });
+      strategy += '\n';
     }
     
-    if (exitActions.length > 0) {
-      strategy += '// Exit Logic\n';
-      const exitConditions = this.findConnectedConditions(exitActions);
-      if (exitConditions.length > 0) {
-        const conditionNames = exitConditions.map(c => this.variables.get(c.id)?.name).filter(Boolean);
-        strategy += `exitCondition = ${conditionNames.join(' or ')}\n`;
-        strategy += `if exitCondition\n`;
-        strategy += `    strategy.close_all()\n\n`;
+    // One trigger and order call per action node, grouped by what the action does
+    const sections: Array<{ kind: ActionSettings['kind']; title: string }> = [
+      { kind: 'entry', title: 'Entry Logic' },
+      { kind: 'exit', title: 'Exit Logic' },
+      { kind: 'order', title: 'Order Logic' }
+    ];
+    const triggeredEntries: Array<{ name: string; settings: ActionSettings }> = [];
+
+    sections.forEach(({ kind, title }) => {
+      const blocks = actions
+        .filter(action => action.settings.kind === kind)
+        .map(action => {
+          const name = this.variables.get(action.node.id)?.name;
+          const signals = this.findConnectedSignals(action.node);
+          if (!name || signals.length === 0) return '';
+
+          const guardNames = guards.get(action.node.id)!
+            .map(node => this.variables.get(node.id)?.name)
+            .filter((guard): guard is string => !!guard);
+          // Entries and orders need every signal, exits any one of them
+          const trigger = kind === 'exit'
+            ? [signals.length > 1 && guardNames.length > 0 ? `(${signals.join(' or ')})` : signals.join(' or '), ...guardNames].join(' and ')
+            : [...signals, ...guardNames].join(' and ');
+          if (kind === 'entry') triggeredEntries.push({ name, settings: action.settings });
+
+          return `${name} = ${trigger}\n${this.generateOrderCall(name, action.settings)}\n`;
+        })
+        .filter(Boolean);
+
+      if (blocks.length > 0) {
+        strategy += `// ${title}\n${blocks.join('\n')}\n`;
       }
+    });
+
+    // Protective exits attach to the entries that were emitted above
+    const riskCode = this.getRiskNodes()
+      .map(node => this.generateRiskCode(node, triggeredEntries))
+      .filter(Boolean);
+    if (riskCode.length > 0) {
+      strategy += '// Risk Management\n';
+      strategy += riskCode.join('\n') + '\n';
     }
     
     return strategy;
   }
 
+  /**
+   * Pine order call for an action whose trigger variable is `name`:
+   * strategy.entry and strategy.order for entries and raw orders,
+   * strategy.close or strategy.close_all for exits
+   */
+  private generateOrderCall(name: string, settings: ActionSettings): string {
+    if (settings.kind === 'exit') {
+      if (settings.orderId) {
+        return `if ${name}\n    strategy.close("${settings.orderId}")`;
+      }
+      if (settings.direction) {
+        return `if ${name} and strategy.position_size ${settings.direction === 'long' ? '>' : '<'} 0\n    strategy.close_all()`;
+      }
+      return `if ${name}\n    strategy.close_all()`;
+    }
+
+    const direction = settings.direction || 'long';
+    const args = [`"${settings.orderId}"`, `strategy.${direction}`];
+    const quantity = this.generateQuantity(settings);
+    if (quantity) {
+      args.push(`qty=${quantity}`);
+    }
+
+    // Limit orders wait for a better price, stop orders for a breakout
+    if (settings.orderType !== 'market') {
+      const favorable = (direction === 'long') === (settings.orderType === 'limit') ? -1 : 1;
+      const factor = Number((1 + favorable * settings.orderOffset / 100).toPrecision(12));
+      args.push(`${settings.orderType}=${factor === 1 ? 'close' : `close * ${factor}`}`);
+    }
+
+    return `if ${name}\n    strategy.${settings.kind === 'order' ? 'order' : 'entry'}(${args.join(', ')})`;
+  }
+
+  // Order size expression; omitted when the strategy default applies
+  private generateQuantity(settings: ActionSettings): string | null {
+    const amount = settings.quantity;
+    if (amount === undefined || !settings.quantityMode) return null;
+
+    const share = Number((amount / 100).toPrecision(12));
+    switch (settings.quantityMode) {
+      case 'fixed':
+        return String(amount);
+      case 'percent_equity':
+        return `strategy.equity * ${share} / close`;
+      case 'risk': {
+        // Equity at risk divided by the tightest stop distance from the signal close
+        const distances = this.getStopDistances();
+        const distance = distances.length > 1 ? `math.min(${distances.join(', ')})` : `(${distances[0]})`;
+        return `strategy.equity * ${share} / ${distance}`;
+      }
+      default:
+        return null;
+    }
+  }
+
   private generateConditionCode(node: CustomNode): string {
     const config = node.data.config || {};
     const operator = (config.operator || 'greater_than') as 'greater_than' | 'less_than' | 'equal_to' | 'not_equal_to' | 'crosses_above' | 'crosses_below';
-    const threshold = config.threshold || 0;
-    
-    // Find connected indicator
-    const connectedIndicators = this.findConnectedNodes(node.id, 'indicator');
-    if (connectedIndicators.length === 0) {
+
+    const operands = this.getConditionSources(node)
+      .map(({ edge, source }) => this.getConnectionSeries(source, edge.sourceHandle))
+      .filter((series): series is string => !!series);
+    if (operands.length === 0) {
       return 'true';
     }
-    
-    const indicator = connectedIndicators[0];
-    const varInfo = this.variables.get(indicator.id);
-    if (!varInfo) return 'true';
+
+    const series = operands[0];
+    const other = this.comparesSeries(config, operands.length) ? operands[1] : config.threshold || 0;
     
     switch (operator) {
       case 'greater_than':
-        return `${varInfo.name} > ${threshold}`;
+        return `${series} > ${other}`;
       case 'less_than':
-        return `${varInfo.name} < ${threshold}`;
+        return `${series} < ${other}`;
       case 'equal_to':
-        return `${varInfo.name} == ${threshold}`;
+        return `${series} == ${other}`;
       case 'not_equal_to':
-        return `${varInfo.name} != ${threshold}`;
+        return `${series} != ${other}`;
       case 'crosses_above':
-        return `ta.crossover(${varInfo.name}, ${threshold})`;
+        return `ta.crossover(${series}, ${other})`;
       case 'crosses_below':
-        return `ta.crossunder(${varInfo.name}, ${threshold})`;
+        return `ta.crossunder(${series}, ${other})`;
       default:
         return 'true';
     }
   }
 
+  /**
+   * Boolean expression for a logic node over its connected signals. Nested
+   * logic nodes that feed only this node are inlined and parenthesized by
+   * Pine precedence (not > and > or); everything else is read by variable.
+   */
+  private generateLogicExpression(node: CustomNode): LogicExpression {
+    const config = node.data.config || {};
+    const operands = this.edges
+      .filter(edge => edge.target === node.id)
+      .map(edge => ({ edge, source: this.nodes.find(candidate => candidate.id === edge.source) }))
+      .filter((operand): operand is { edge: CustomEdge; source: CustomNode } =>
+        !!operand.source && this.getSignalName(operand.edge, operand.source) !== null
+      )
+      .map(({ edge, source }) => this.isInlinedLogic(source)
+        ? this.generateLogicExpression(source)
+        : { code: this.getSignalName(edge, source)!, precedence: Precedence.Atom });
+
+    if (operands.length === 0) {
+      return { code: 'false', precedence: Precedence.Atom };
+    }
+
+    const wrap = (operand: LogicExpression, minimum: Precedence) =>
+      operand.precedence < minimum ? `(${operand.code})` : operand.code;
+    const asCount = (operand: LogicExpression) => `${wrap(operand, Precedence.Atom)} ? 1 : 0`;
+    const bars = Math.floor(Number(config.bars ?? DEFAULT_LOGIC_BARS));
+
+    switch (config.logicOperator || 'and') {
+      case 'or':
+        return { code: operands.map(operand => wrap(operand, Precedence.Or)).join(' or '), precedence: Precedence.Or };
+      case 'not':
+        return { code: `not ${wrap(operands[0], Precedence.Not)}`, precedence: Precedence.Not };
+      case 'n_of_m': {
+        const required = Number(config.requiredCount ?? operands.length);
+        const votes = operands.map(operand => `(${asCount(operand)})`).join(' + ');
+        return { code: `${votes} >= ${required}`, precedence: Precedence.Comparison };
+      }
+      case 'consecutive':
+        return { code: `math.sum(${asCount(operands[0])}, ${bars}) == ${bars}`, precedence: Precedence.Comparison };
+      case 'within':
+        return { code: `math.sum(${asCount(operands[0])}, ${bars}) > 0`, precedence: Precedence.Comparison };
+      default:
+        return { code: operands.map(operand => wrap(operand, Precedence.And)).join(' and '), precedence: Precedence.And };
+    }
+  }
+
+  /**
+   * Session guard for a timing node: a Pine session string carries the
+   * hours and weekdays, timestamps in the node's timezone bound the dates
+   */
+  private generateTimingCode(node: CustomNode): string {
+    const config = node.data.config || {};
+    const timezone = config.timezone || 'UTC';
+    const parts: string[] = [];
+
+    if (config.startTime !== undefined || config.daysOfWeek !== undefined) {
+      const hours = config.startTime && config.endTime
+        ? `${config.startTime.replace(':', '')}-${config.endTime.replace(':', '')}`
+        : '0000-0000';
+      const days = config.daysOfWeek
+        ? ':' + SESSION_DAYS.map((day, index) => config.daysOfWeek!.includes(day) ? index + 1 : '').join('')
+        : '';
+      parts.push(`not na(time(timeframe.period, "${hours}${days}", "${timezone}"))`);
+    }
+
+    const start = config.startDate ? parseTradingDate(config.startDate) : null;
+    if (start) {
+      parts.push(`time >= timestamp("${timezone}", ${start.year}, ${start.month}, ${start.day}, 0, 0)`);
+    }
+    const end = config.endDate ? parseTradingDate(config.endDate) : null;
+    if (end) {
+      // The end date is inclusive, so bars are cut off at the next midnight
+      const next = new Date(Date.UTC(end.year, end.month - 1, end.day + 1));
+      parts.push(
+        `time < timestamp("${timezone}", ${next.getUTCFullYear()}, ${next.getUTCMonth() + 1}, ${next.getUTCDate()}, 0, 0)`
+      );
+    }
+
+    return parts.length > 0 ? parts.join(' and ') : 'true';
+  }
+
+  /**
+   * strategy.exit calls for a risk node, one per entry ID. Percent distances
+   * are taken from the average entry price; ATR multiples use the ATR on the
+   * entry signal bar, so the levels stay fixed for the life of the position.
+   */
+  private generateRiskCode(node: CustomNode, entries: Array<{ name: string; settings: ActionSettings }>): string {
+    const config = node.data.config || {};
+    const name = this.variables.get(node.id)?.name;
+    const stopLoss = this.riskDistance(config.stopLoss);
+    const takeProfit = this.riskDistance(config.takeProfit);
+    const trailingStop = this.riskDistance(config.trailingStop);
+    if (!name || entries.length === 0) return '';
+
+    const lines = [`// ${node.data.label}`];
+    let offset: (amount: number) => string;
+    if (config.riskUnit === 'atr') {
+      const triggers = Array.from(new Set(entries.map(entry => entry.name)));
+      const trigger = triggers.length > 1 ? `(${triggers.join(' or ')})` : triggers[0];
+      lines.push(`var float ${name}_entry_atr = na`);
+      lines.push(`if ${trigger} and strategy.position_size == 0`);
+      lines.push(`    ${name}_entry_atr := ${name}_atr`);
+      offset = multiple => `${name}_entry_atr * ${multiple}`;
+    } else {
+      offset = percent => `strategy.position_avg_price * ${Number((percent / 100).toPrecision(12))}`;
+    }
+
+    // Long levels keep the plain names; short levels sit on the other side of the entry
+    const directions = Array.from(new Set(entries.map(entry => entry.settings.direction || 'long')));
+    const level = (direction: string, kind: string) => direction === 'long' ? `${name}_${kind}` : `${name}_${direction}_${kind}`;
+    directions.forEach(direction => {
+      const sign = direction === 'long' ? 1 : -1;
+      if (stopLoss !== undefined) {
+        lines.push(`${level(direction, 'stop')} = strategy.position_avg_price ${sign > 0 ? '-' : '+'} ${offset(stopLoss)}`);
+      }
+      if (takeProfit !== undefined) {
+        lines.push(`${level(direction, 'limit')} = strategy.position_avg_price ${sign > 0 ? '+' : '-'} ${offset(takeProfit)}`);
+      }
+    });
+    if (trailingStop !== undefined) {
+      // Trailing offsets are in ticks and activate as soon as the trade opens
+      lines.push(`${name}_trail = math.max(1, math.round(${offset(trailingStop)} / syminfo.mintick))`);
+    }
+
+    const entryIds = new Map(entries.map(entry => [entry.settings.orderId!, entry.settings.direction || 'long']));
+    entryIds.forEach((direction, entryId) => {
+      const args: string[] = [];
+      if (stopLoss !== undefined) args.push(`stop=${level(direction, 'stop')}`);
+      if (takeProfit !== undefined) args.push(`limit=${level(direction, 'limit')}`);
+      if (trailingStop !== undefined) args.push('trail_points=0', `trail_offset=${name}_trail`);
+      const exitId = entryIds.size > 1 ? `${name} ${entryId}` : name;
+      lines.push(`strategy.exit("${exitId}", "${entryId}", ${args.join(', ')})`);
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Raw Pine nodes, verbatim. Nodes that read signals or actions go after
+   * the strategy logic that declares them; the rest go before it, so
+   * conditions and actions can read what they declare.
+   */
+  private generateRawPineSection(late: boolean): string {
+    const rawNodes = this.nodes.filter(node => node.type === 'raw-pine' && this.isLateRawPine(node) === late);
+    if (rawNodes.length === 0) return '';
+
+    let section = '// =============================================================================\n';
+    section += late ? '// Imported Pine (after strategy logic)\n' : '// Imported Pine\n';
+    section += '// =============================================================================\n\n';
+
+    rawNodes.forEach(node => {
+      section += `// ${node.data.label}\n${this.rewriteRawPine(node)}\n\n`;
+    });
+
+    return section;
+  }
+
+  private isLateRawPine(node: CustomNode, visited: Set<string> = new Set()): boolean {
+    visited.add(node.id);
+    return this.edges
+      .filter(edge => edge.target === node.id)
+      .map(edge => this.nodes.find(candidate => candidate.id === edge.source))
+      .some(source => !!source && (
+        LATE_RAW_PINE_SOURCES.includes(source.type) ||
+        (source.type === 'raw-pine' && !visited.has(source.id) && this.isLateRawPine(source, visited))
+      ));
+  }
+
+  /**
+   * Raw Pine code with every name it reads through an input handle replaced
+   * by the series or variable the connected node is emitted as
+   */
+  private rewriteRawPine(node: CustomNode): string {
+    const code = (node.data.config?.pineCode || '').replace(/\r\n?/g, '\n').trim();
+    const replacements = new Map<string, string>();
+    this.edges
+      .filter(edge => edge.target === node.id && edge.targetHandle)
+      .forEach(edge => {
+        const source = this.nodes.find(candidate => candidate.id === edge.source);
+        const series = source && (['indicator', 'data-source', 'raw-pine'].includes(source.type)
+          ? this.getConnectionSeries(source, edge.sourceHandle)
+          : this.variables.get(source.id)?.name);
+        if (series && series !== edge.targetHandle) {
+          replacements.set(edge.targetHandle!, series);
+        }
+      });
+    if (replacements.size === 0) return code;
+
+    const { program } = parsePine(code);
+    return findReferences(program)
+      .filter(identifier => replacements.has(identifier.name))
+      .reverse()
+      .reduce((rewritten, identifier) =>
+        rewritten.slice(0, identifier.range.start.offset) +
+        replacements.get(identifier.name) +
+        rewritten.slice(identifier.range.end.offset), code);
+  }
+
+  // A logic node read by exactly one other logic node and nothing else
+  private isInlinedLogic(node: CustomNode): boolean {
+    if (node.type !== 'logic') return false;
+    const consumers = this.edges
+      .filter(edge => edge.source === node.id)
+      .map(edge => this.nodes.find(candidate => candidate.id === edge.target));
+    return consumers.length === 1 && consumers[0]?.type === 'logic';
+  }
+
   private generatePlotsSection(): string {
     let plots = '// =============================================================================\n';
     plots += '// Plots and Visual Elements\n';
     plots += '// =============================================================================\n\n';
     
     this.nodes.forEach(node => {
-      if (node.type === 'indicator') {
-        const varInfo = this.variables.get(node.id);
-        const indicatorId = node.data.config?.indicatorId;
-        
-        if (!varInfo || !indicatorId) return;
-        
-        switch (indicatorId) {
-          case 'rsi':
-            plots += `plot(${varInfo.name}, title="RSI", color=color.purple)\n`;
-            plots += `hline(70, "Overbought", color=color.red, linestyle=hline.style_dashed)\n`;
-            plots += `hline(30, "Oversold", color=color.green, linestyle=hline.style_dashed)\n`;
-            break;
-          case 'sma':
-          case 'ema':
-            plots += `plot(${varInfo.name}, title="${node.data.label}", color=color.blue)\n`;
-            break;
-          case 'bb':
-            plots += `plot(${varInfo.name}_upper, title="BB Upper", color=color.red)\n`;
-            plots += `plot(${varInfo.name}_middle, title="BB Middle", color=color.orange)\n`;
-            plots += `plot(${varInfo.name}_lower, title="BB Lower", color=color.green)\n`;
-            break;
-          case 'macd':
-            plots += `plot(${varInfo.name}_line, title="MACD Line", color=color.blue)\n`;
-            plots += `plot(${varInfo.name}_signal, title="Signal Line", color=color.red)\n`;
-            plots += `plot(${varInfo.name}_histogram, title="Histogram", color=color.gray, style=plot.style_histogram)\n`;
-            break;
-        }
-      }
+      const indicator = this.getIndicatorContext(node);
+      if (!indicator) return;
+
+      generateIndicatorPlots(indicator.definition, indicator.ctx).forEach(line => {
+        plots += `${line}\n`;
+      });
     });
     
-    // Add entry/exit markers if conditions exist
-    const hasConditions = this.nodes.some(node => node.type === 'condition');
-    if (hasConditions) {
+    // One marker per action that has a trigger: buys below the bar, sells and exits above
+    const markers = this.getActions()
+      .filter(({ node }) => this.findConnectedSignals(node).length > 0)
+      .map(({ node, settings }) => {
+        const name = this.variables.get(node.id)?.name;
+        const title = node.data.label.replace(/"/g, "'");
+        if (settings.kind === 'exit') {
+          return `plotshape(${name}, title="${title}", location=location.abovebar, color=color.orange, style=shape.xcross, text="EXIT")`;
+        }
+        return settings.direction === 'short'
+          ? `plotshape(${name}, title="${title}", location=location.abovebar, color=color.red, style=shape.labeldown, text="SELL")`
+          : `plotshape(${name}, title="${title}", location=location.belowbar, color=color.green, style=shape.labelup, text="BUY")`;
+      });
+    if (markers.length > 0) {
       plots += '\n// Entry/Exit Markers\n';
-      plots += `plotshape(longCondition, title="Long Entry", location=location.belowbar, color=color.green, style=shape.labelup, text="BUY")\n`;
-      plots += `plotshape(exitCondition, title="Exit", location=location.abovebar, color=color.red, style=shape.labeldown, text="SELL")\n`;
+      plots += markers.join('\n') + '\n';
     }
     
     return plots;
@@ -808,34 +1290,68 @@ strategy("${DEFAULT_STRATEGY_TITLE}",
     return result;
   }
 
-  private findConnectedNodes(nodeId: string, nodeType?: string): CustomNode[] {
-    const connectedIds = new Set<string>();
-    
-    this.edges.forEach(edge => {
-      if (edge.target === nodeId) {
-        connectedIds.add(edge.source);
-      }
+  // Action nodes with their typed settings; actions that place no orders are left out
+  private getActions(): Array<{ node: CustomNode; settings: ActionSettings }> {
+    return this.nodes
+      .map(node => ({ node, settings: resolveActionSettings(node) }))
+      .filter((action): action is { node: CustomNode; settings: ActionSettings } => !!action.settings);
+  }
+
+  // Timing nodes wired into the action; ones wired to no action gate every entry and order
+  private findTimingGuards(action: { node: CustomNode; settings: ActionSettings }): CustomNode[] {
+    return this.nodes.filter(node => {
+      if (node.type !== 'timing') return false;
+      const targets = this.edges
+        .filter(edge => edge.source === node.id)
+        .map(edge => this.nodes.find(candidate => candidate.id === edge.target))
+        .filter((target): target is CustomNode => target?.type === 'action');
+      return targets.some(target => target.id === action.node.id) ||
+        (targets.length === 0 && action.settings.kind !== 'exit');
     });
-    
-    return this.nodes.filter(node => 
-      connectedIds.has(node.id) && 
-      (!nodeType || node.type === nodeType)
-    );
   }
 
-  private findConnectedConditions(actionNodes: CustomNode[]): CustomNode[] {
-    const actionIds = new Set(actionNodes.map(a => a.id));
-    const conditionIds = new Set<string>();
-    
-    this.edges.forEach(edge => {
-      if (actionIds.has(edge.target)) {
-        conditionIds.add(edge.source);
-      }
+  // Risk nodes that set at least one valid distance
+  private getRiskNodes(): CustomNode[] {
+    return this.nodes.filter(node => {
+      if (node.type !== 'risk') return false;
+      const config = node.data.config || {};
+      return [config.stopLoss, config.takeProfit, config.trailingStop].some(value => this.riskDistance(value) !== undefined);
     });
-    
-    return this.nodes.filter(node => 
-      conditionIds.has(node.id) && node.type === 'condition'
+  }
+
+  // Stop-loss distances from the signal close, for risk-based position sizing
+  private getStopDistances(): string[] {
+    return this.getRiskNodes()
+      .filter(node => this.riskDistance(node.data.config?.stopLoss) !== undefined)
+      .map(node => {
+        const config = node.data.config || {};
+        const stopLoss = this.riskDistance(config.stopLoss)!;
+        return config.riskUnit === 'atr'
+          ? `${this.variables.get(node.id)?.name}_atr * ${stopLoss}`
+          : `close * ${Number((stopLoss / 100).toPrecision(12))}`;
+      });
+  }
+
+  private riskDistance(value: unknown): number | undefined {
+    return value !== undefined && value !== null && Number(value) > 0 ? Number(value) : undefined;
+  }
+
+  // Signal variables of the conditions, logic nodes and raw Pine wired straight into an action
+  private findConnectedSignals(action: CustomNode): string[] {
+    const signals = this.nodes.flatMap(node => this.edges
+      .filter(edge => edge.source === node.id && edge.target === action.id)
+      .map(edge => this.getSignalName(edge, node))
+      .filter((signal): signal is string => !!signal)
     );
+    return Array.from(new Set(signals));
+  }
+
+  // Boolean variable a connection reads: a signal node's own or a raw Pine output
+  private getSignalName(edge: CustomEdge, source: CustomNode): string | null {
+    if (source.type === 'raw-pine') {
+      return edge.sourceHandle || null;
+    }
+    return SIGNAL_NODE_TYPES.includes(source.type) ? this.variables.get(source.id)?.name || null : null;
   }
 
   private validateGeneratedCode(code: string): { isValid: boolean, errors: string[] } {
@@ -923,10 +1439,6 @@ bgcolor(color.new(color.red, 90), title="Error Background")
       .replace(/_+/g, '_')
       .replace(/^_|_$/g, '');
   }
-
-  private capitalizeFirst(str: string): string {
-    return str.charAt(0).toUpperCase() + str.slice(1);
-  }
 }
 
 // Supporting interfaces
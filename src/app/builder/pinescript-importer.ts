@@ -0,0 +1,1685 @@
+/**
+ * Pine Script Importer - Pine Script to Node Graph
+ *
+ * Rebuilds a builder graph from an existing Pine Script strategy:
+ * - input.* declarations and constants fold into node parameters and thresholds
+ * - ta.* indicator calls are matched against the registry's own emitters, so
+ *   every indicator the builder can generate is recognized, by hand or not
+ * - comparisons and crossovers become conditions; and/or/not, N-of-M and
+ *   bar-window expressions become logic nodes
+ * - session and date-range filters become timing nodes
+ * - strategy.entry/order/close calls become actions and strategy.exit
+ *   brackets risk nodes
+ *
+ * Statements that fit none of these are kept verbatim in raw Pine nodes,
+ * wired to the nodes whose values they read, so nothing is dropped. The
+ * graph is laid out with the LayoutOptimizer.
+ */
+
+import { findReferences, getBuiltinFunction, parsePine, walk } from '@/lib/pinescript';
+import type {
+  BinaryOperator,
+  CallExpression,
+  Expression,
+  IfStatement,
+  PineNode,
+  Program,
+  Statement
+} from '@/lib/pinescript';
+import { LayoutOptimizer } from '@/agents/pinegenie-ai/utils/performance/layout-optimizer';
+import { DEFAULT_ENTRY_IDS, DEFAULT_ORDER_IDS, defaultEdgeOptions } from './canvas-config';
+import type { CustomEdge, CustomNode, NodeConfig, NodeType } from './canvas-config';
+import { getIndicatorById } from './data/indicator-defs';
+import { INDICATOR_PINE_SPECS, getIndicatorOutputVariables, validateIndicatorConfig } from './data/indicator-registry';
+import type { IndicatorParameterValue } from './data/indicator-registry';
+import { SESSION_DAYS } from './enhanced-pinescript-generator';
+import { DEFAULT_NODE_DIMENSIONS } from './utils/coordinate-system';
+
+export interface PineImportResult {
+  success: boolean;
+  title: string | null; // From strategy() or indicator()
+  nodes: CustomNode[];
+  edges: CustomEdge[];
+  errors: string[];
+  warnings: string[];
+}
+
+type ConditionOperator = NonNullable<NodeConfig['operator']>;
+type LogicOperator = NonNullable<NodeConfig['logicOperator']>;
+
+const PRICE_FIELDS = ['open', 'high', 'low', 'close', 'volume', 'hl2', 'hlc3', 'ohlc4'];
+
+// Plots the builder draws itself for indicators and actions
+const PLOT_FUNCTIONS = ['plot', 'plotshape', 'plotchar', 'plotarrow', 'hline', 'bgcolor', 'barcolor'];
+
+const DECLARATION_FUNCTIONS = ['strategy', 'indicator', 'library'];
+
+const COMPARISON_OPERATORS: Partial<Record<BinaryOperator, ConditionOperator>> = {
+  '>': 'greater_than',
+  '<': 'less_than',
+  '==': 'equal_to',
+  '!=': 'not_equal_to'
+};
+
+const CROSS_FUNCTIONS: Record<string, ConditionOperator> = {
+  'ta.crossover': 'crosses_above',
+  'ta.crossunder': 'crosses_below'
+};
+
+// The same comparison with its operands swapped
+const FLIPPED_OPERATORS: Record<ConditionOperator, ConditionOperator> = {
+  greater_than: 'less_than',
+  less_than: 'greater_than',
+  equal_to: 'equal_to',
+  not_equal_to: 'not_equal_to',
+  crosses_above: 'crosses_below',
+  crosses_below: 'crosses_above'
+};
+
+const CONDITION_LABELS: Record<ConditionOperator, string> = {
+  greater_than: 'Greater Than',
+  less_than: 'Less Than',
+  equal_to: 'Equal To',
+  not_equal_to: 'Not Equal To',
+  crosses_above: 'Crosses Above',
+  crosses_below: 'Crosses Below'
+};
+
+const LOGIC_LABELS: Record<LogicOperator, string> = {
+  and: 'AND',
+  or: 'OR',
+  not: 'NOT',
+  n_of_m: 'N of M',
+  consecutive: 'Consecutive Bars',
+  within: 'Within Bars'
+};
+
+const ORDER_FUNCTIONS = ['strategy.entry', 'strategy.order', 'strategy.close', 'strategy.close_all'];
+
+// Registry emitters are run with these names, which then match any script expression
+const PARAM_PREFIX = '__param_';
+const NAME_PREFIX = '__name';
+
+const SESSION_PATTERN = /^([01]\d|2[0-3])([0-5]\d)-([01]\d|2[0-3])([0-5]\d)(?::([1-7]+))?$/;
+
+interface IndicatorTemplate {
+  indicatorId: string;
+  statements: Statement[];
+  literals: Record<string, IndicatorParameterValue>; // Values baked into this variant of the code
+}
+
+interface IndicatorMatch {
+  indicatorId: string;
+  parameters: Record<string, IndicatorParameterValue>;
+  outputs: Record<string, string>; // Definition output to script variable; empty for inline calls
+  label: string;
+}
+
+// A series a condition compares
+type SeriesOperand =
+  | { kind: 'price'; field: string }
+  | { kind: 'value'; name: string } // Input or constant, folded into the node unless kept as raw Pine
+  | { kind: 'named'; name: string } // Indicator output or raw Pine variable
+  | { kind: 'inline'; indicator: IndicatorMatch };
+
+type SignalSpec =
+  | { kind: 'condition'; operator: ConditionOperator; series: SeriesOperand | number; other: SeriesOperand | number }
+  | { kind: 'logic'; operator: LogicOperator; operands: SignalSpec[]; requiredCount?: number; bars?: number }
+  | { kind: 'timing'; config: NodeConfig }
+  | { kind: 'named'; name: string }
+  | { kind: 'raw'; unit: Unit }; // Boolean expression only raw Pine can hold
+
+interface OrderSpec {
+  label: string;
+  config: NodeConfig;
+}
+
+interface RiskLevel {
+  unit: 'percent' | 'atr';
+  amount: number; // Percent of the entry price or ATR multiple
+  sign: number; // Above (1) or below (-1) the entry price
+  atrVariable?: string;
+}
+
+type UnitPayload =
+  | { kind: 'header'; title: string | null; pyramiding?: number }
+  | { kind: 'value'; value: IndicatorParameterValue; isSource: boolean }
+  | { kind: 'indicator'; match: IndicatorMatch }
+  | { kind: 'signal'; spec: SignalSpec; label: string }
+  | { kind: 'action'; items: SignalSpec[]; anyOf?: SignalSpec[]; guards: SignalSpec[]; orders: OrderSpec[] }
+  | { kind: 'level' | 'trail'; level: RiskLevel }
+  | { kind: 'entry-atr'; source: string }
+  | { kind: 'exit'; exitId: string; entryId: string; stop?: RiskLevel; limit?: RiskLevel; trail?: RiskLevel }
+  | { kind: 'plot' }
+  | { kind: 'raw'; code?: string }; // Code is set for expressions lifted out of a mapped statement
+
+interface Unit {
+  payload: UnitPayload;
+  statements: Statement[];
+  start: number; // Source offset, for ordering
+  declares: string[];
+  references: Set<string>; // Every name the statements read
+  reads: Set<string>; // Names that must exist as variables when the unit runs
+  bakes: Set<string>; // Names whose values were folded into node settings
+  raw: boolean;
+  owner?: Unit; // Set on lifted expressions
+  group?: string; // Risk settings key of an exit
+}
+
+// What a unit being analyzed reads and lifts out, committed only if the analysis succeeds
+interface Analysis {
+  reads: Set<string>;
+  bakes: Set<string>;
+  lifted: Unit[];
+}
+
+// The node and handle that provide a name to other nodes
+interface Producer {
+  nodeId: string;
+  handle?: string;
+}
+
+interface RiskGroup {
+  config: NodeConfig;
+  label: string;
+  entries: Set<string>;
+}
+
+let templateCache: IndicatorTemplate[] | null = null;
+
+/**
+ * Every registry emitter run with placeholder names, one variant per
+ * combination of the values it bakes into the code. Longer templates come
+ * first, so Donchian wins over the channel without a basis.
+ */
+function getIndicatorTemplates(): IndicatorTemplate[] {
+  if (templateCache) return templateCache;
+
+  const templates: IndicatorTemplate[] = [];
+  Object.entries(INDICATOR_PINE_SPECS).forEach(([indicatorId, spec]) => {
+    const definition = getIndicatorById(indicatorId);
+    if (!definition) return;
+
+    let variants: Array<Record<string, IndicatorParameterValue>> = [{}];
+    definition.parameters
+      .filter(param => spec.literals?.includes(param.name))
+      .forEach(param => {
+        const options = param.options || [String(param.default)];
+        variants = variants.flatMap(variant => options.map(option => ({ ...variant, [param.name]: option })));
+      });
+
+    const seen = new Set<string>();
+    variants.forEach(literals => {
+      const values = { ...Object.fromEntries(definition.parameters.map(param => [param.name, param.default])), ...literals };
+      const params = Object.fromEntries(definition.parameters.map(param => [param.name, `${PARAM_PREFIX}${param.name}`]));
+      const outputs = getIndicatorOutputVariables(definition, NAME_PREFIX);
+      const code = spec.emit({ name: NAME_PREFIX, params, values, outputs, label: definition.name }).join('\n');
+      if (seen.has(code)) return;
+      seen.add(code);
+
+      const { program, errors } = parsePine(code);
+      if (errors.length === 0) {
+        templates.push({ indicatorId, statements: program.body, literals });
+      }
+    });
+  });
+
+  templateCache = templates.sort((a, b) => b.statements.length - a.statements.length);
+  return templateCache;
+}
+
+function isPineNode(value: unknown): value is PineNode {
+  return typeof value === 'object' && value !== null && typeof (value as PineNode).kind === 'string' && 'range' in value;
+}
+
+function unwrap(expression: Expression): Expression {
+  return expression.kind === 'Parenthesized' ? unwrap(expression.expression) : expression;
+}
+
+// Dotted name of an identifier or member chain: strategy.long, ta.sma
+function qualifiedName(expression: Expression): string | null {
+  if (expression.kind === 'Identifier') return expression.name;
+  if (expression.kind === 'Member') {
+    const object = qualifiedName(expression.object);
+    return object ? `${object}.${expression.property.name}` : null;
+  }
+  return null;
+}
+
+function calleeName(expression: Expression): string | null {
+  return expression.kind === 'Call' ? qualifiedName(expression.callee) : null;
+}
+
+function literalNumber(expression: Expression): number | null {
+  const inner = unwrap(expression);
+  if (inner.kind === 'Number') return inner.value;
+  if (inner.kind === 'Unary' && inner.operator === '-' && inner.operand.kind === 'Number') return -inner.operand.value;
+  return null;
+}
+
+function round(value: number): number {
+  return Number(value.toPrecision(12));
+}
+
+/**
+ * Arguments of a built-in call by parameter name, whether they were passed
+ * by position or by name; null for unknown functions and calls that fit
+ * none of the signatures
+ */
+function bindArguments(call: CallExpression): Map<string, Expression> | null {
+  const name = qualifiedName(call.callee);
+  const signatures = name ? getBuiltinFunction(name) : undefined;
+  if (!signatures) return null;
+
+  for (const signature of signatures) {
+    const bound = new Map<string, Expression>();
+    const fits = call.args.every((arg, index) => {
+      const last = signature.params[signature.params.length - 1];
+      const param = arg.name
+        ? signature.params.find(candidate => candidate.name === arg.name!.name)
+        : signature.params[index] || (last?.rest ? last : undefined);
+      if (!param) return false;
+      const key = param.rest ? `${param.name}${index}` : param.name;
+      if (bound.has(key)) return false;
+      bound.set(key, arg.value);
+      return true;
+    });
+    const required = signature.params.filter(param => !param.optional && !param.rest).every(param => bound.has(param.name));
+    if (fits && required) return bound;
+  }
+  return null;
+}
+
+// Arguments in signature order, so named and positional spellings compare equal
+function positionalArguments(call: CallExpression): Array<Expression | undefined> | null {
+  if (call.args.every(arg => !arg.name)) return call.args.map(arg => arg.value);
+
+  const name = qualifiedName(call.callee);
+  const bound = bindArguments(call);
+  const signature = name ? getBuiltinFunction(name)?.find(candidate =>
+    Array.from(bound?.keys() || []).every(key => candidate.params.some(param => param.name === key))
+  ) : undefined;
+  if (!bound || !signature) return null;
+
+  const args = signature.params.map(param => bound.get(param.name));
+  while (args.length > 0 && args[args.length - 1] === undefined) args.pop();
+  return args;
+}
+
+function declaredNames(statement: Statement): string[] {
+  switch (statement.kind) {
+    case 'VariableDeclaration':
+    case 'FunctionDeclaration':
+    case 'TypeDeclaration':
+    case 'EnumDeclaration':
+      return [statement.name.name];
+    case 'TupleDeclaration':
+      return statement.names.map(name => name.name);
+    default:
+      return [];
+  }
+}
+
+class PineImporter {
+  private source: string;
+  private program!: Program;
+  private units: Unit[] = [];
+  private declared = new Map<string, Unit>();
+  private assignedIn = new Map<string, Set<number>>();
+  private statementReferences: Set<string>[] = [];
+  private identifiers = new Set<string>();
+  private warnings: string[] = [];
+  private liftedCount = 0;
+
+  private nodes: CustomNode[] = [];
+  private edges: CustomEdge[] = [];
+  private producers = new Map<string, Producer>();
+  private rawNodes = new Map<Unit, string>();
+  private nodeCounts = new Map<string, number>();
+  private dataNodeId = '';
+
+  constructor(source: string) {
+    // Offsets must agree with the parser, which normalizes line endings
+    this.source = source.replace(/\r\n?/g, '\n');
+  }
+
+  public import(): PineImportResult {
+    const { program, errors } = parsePine(this.source);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        title: null,
+        nodes: [],
+        edges: [],
+        errors: errors.map(error => `Line ${error.range.start.line}: ${error.message}`),
+        warnings: []
+      };
+    }
+
+    this.program = program;
+    if (program.version !== null && program.version < 5) {
+      this.warnings.push(`Script targets Pine Script v${program.version}; it is imported with v6 semantics`);
+    }
+
+    this.scanStatements();
+    for (let index = 0; index < program.body.length;) {
+      index += this.classify(index);
+    }
+    this.settle();
+    this.build();
+
+    const header = this.units.find(unit => unit.payload.kind === 'header');
+    return {
+      success: true,
+      title: header?.payload.kind === 'header' ? header.payload.title : null,
+      nodes: this.layout(),
+      edges: this.edges,
+      errors: [],
+      warnings: this.warnings
+    };
+  }
+
+  // ===========================================================================
+  // Classification
+  // ===========================================================================
+
+  private scanStatements(): void {
+    this.program.body.forEach((statement, index) => {
+      this.statementReferences.push(new Set(findReferences(statement).map(identifier => identifier.name)));
+
+      walk(statement, node => {
+        if (node.kind === 'Identifier') this.identifiers.add(node.name);
+        if (node.kind === 'Assignment' && node.target.kind === 'Identifier') {
+          const indices = this.assignedIn.get(node.target.name) || new Set<number>();
+          indices.add(index);
+          this.assignedIn.set(node.target.name, indices);
+        }
+      });
+    });
+  }
+
+  /**
+   * Turns the statement at `index` (and any that belong with it) into a
+   * unit; returns how many statements it took
+   */
+  private classify(index: number): number {
+    const body = this.program.body;
+    const statement = body[index];
+
+    const header = this.analyzeHeader(statement);
+    if (header) {
+      this.addUnit(header, [statement], this.emptyAnalysis(), index);
+      return 1;
+    }
+
+    const indicator = this.matchIndicatorAt(index);
+    if (indicator) {
+      const statements = body.slice(index, index + indicator.length);
+      this.addUnit({ kind: 'indicator', match: indicator.match }, statements, indicator.analysis, index);
+      return indicator.length;
+    }
+
+    const entryAtr = this.analyzeEntryAtr(statement, body[index + 1]);
+    if (entryAtr) {
+      this.addUnit(entryAtr.payload, [statement, body[index + 1]], entryAtr.analysis, index);
+      return 2;
+    }
+
+    if (statement.kind === 'VariableDeclaration' && !statement.mode) {
+      const next = body[index + 1];
+      const test = next?.kind === 'If' ? unwrap(next.test) : undefined;
+      const isTrigger = (expression: Expression) => expression.kind === 'Identifier' && expression.name === statement.name.name;
+      // `if sell and strategy.position_size > 0` keeps the side check next to the inlined trigger
+      const trigger = test && isTrigger(test) ? statement.init
+        : test?.kind === 'Binary' && test.operator === 'and' && isTrigger(unwrap(test.left)) && this.positionDirection(test.right)
+          ? { ...test, left: statement.init }
+          : undefined;
+      if (next?.kind === 'If' && trigger && this.isOnlyTrigger(statement.name.name, [index, index + 1])) {
+        const action = this.analyzeAction(next, trigger);
+        if (action) {
+          this.addUnit(action.payload, [statement, next], action.analysis, index, statement.name.name);
+          return 2;
+        }
+      }
+
+      const analysis = this.emptyAnalysis();
+      const payload = this.analyzeValue(statement.init) ||
+        this.analyzeRiskDeclaration(statement.init, analysis) ||
+        this.analyzeSignalDeclaration(statement.init, statement.name.name, analysis);
+      if (payload) {
+        this.addUnit(payload, [statement], analysis, index);
+        return 1;
+      }
+    }
+
+    if (statement.kind === 'If') {
+      const action = this.analyzeAction(statement, statement.test);
+      if (action) {
+        this.addUnit(action.payload, [statement], action.analysis, index);
+        return 1;
+      }
+    }
+
+    if (statement.kind === 'ExpressionStatement') {
+      const analysis = this.emptyAnalysis();
+      const exit = this.analyzeExit(statement.expression, analysis);
+      if (exit) {
+        this.addUnit(exit, [statement], analysis, index);
+        return 1;
+      }
+      if (PLOT_FUNCTIONS.includes(calleeName(statement.expression) || '')) {
+        this.addUnit({ kind: 'plot' }, [statement], this.emptyAnalysis(), index);
+        return 1;
+      }
+    }
+
+    this.addUnit({ kind: 'raw' }, [statement], this.emptyAnalysis(), index);
+    return 1;
+  }
+
+  private emptyAnalysis(): Analysis {
+    return { reads: new Set(), bakes: new Set(), lifted: [] };
+  }
+
+  private addUnit(payload: UnitPayload, statements: Statement[], analysis: Analysis, index: number, trigger?: string): void {
+    const indices = statements.map((_, offset) => index + offset);
+    const declares = trigger ? [trigger] : statements.flatMap(declaredNames);
+    const references = new Set(indices.flatMap(i => Array.from(this.statementReferences[i])));
+
+    // A variable changed by statements outside the unit can only stay as written
+    const reassigned = declares.some(name =>
+      Array.from(this.assignedIn.get(name) || []).some(i => !indices.includes(i))
+    );
+    const isRaw = payload.kind === 'raw' || reassigned ||
+      (statements[0].kind === 'VariableDeclaration' && !!statements[0].mode && payload.kind !== 'indicator' && payload.kind !== 'entry-atr');
+
+    const unit: Unit = {
+      payload: isRaw ? { kind: 'raw' } : payload,
+      statements,
+      start: statements[0].range.start.offset,
+      declares,
+      references,
+      reads: isRaw ? new Set(references) : analysis.reads,
+      bakes: isRaw ? new Set() : analysis.bakes,
+      raw: isRaw
+    };
+    this.units.push(unit);
+    if (!isRaw) {
+      analysis.lifted.forEach(lifted => {
+        lifted.owner = unit;
+        this.units.push(lifted);
+      });
+    }
+    declares.forEach(name => this.declared.set(name, unit));
+  }
+
+  private analyzeHeader(statement: Statement): UnitPayload | null {
+    if (statement.kind !== 'ExpressionStatement' || statement.expression.kind !== 'Call') return null;
+    const name = calleeName(statement.expression);
+    if (!name || !DECLARATION_FUNCTIONS.includes(name)) return null;
+
+    const args = bindArguments(statement.expression);
+    const title = args?.get('title');
+    const pyramiding = args?.get('pyramiding');
+    return {
+      kind: 'header',
+      title: title?.kind === 'String' ? title.value : null,
+      pyramiding: pyramiding ? literalNumber(pyramiding) ?? undefined : undefined
+    };
+  }
+
+  // A trigger variable read only by its own if, by plots the builder redraws and by risk nodes capturing ATR at entry
+  private isOnlyTrigger(name: string, indices: number[]): boolean {
+    const body = this.program.body;
+    return body.every((statement, index) => {
+      if (indices.includes(index) || !this.statementReferences[index].has(name)) return true;
+      if (statement.kind === 'If') return index > 0 && !!this.analyzeEntryAtr(body[index - 1], statement);
+      return statement.kind === 'ExpressionStatement' && PLOT_FUNCTIONS.includes(calleeName(statement.expression) || '');
+    });
+  }
+
+  // input.*() declarations and plain literals
+  private analyzeValue(init: Expression): UnitPayload | null {
+    const name = calleeName(init);
+    if (init.kind === 'Call' && name && (name === 'input' || name.startsWith('input.'))) {
+      const args = bindArguments(init);
+      const defval = args?.get('defval');
+      if (!defval) return null;
+      if (defval.kind === 'Identifier' && PRICE_FIELDS.includes(defval.name) && !this.declared.has(defval.name)) {
+        return { kind: 'value', value: defval.name, isSource: true };
+      }
+      const value = this.literalValue(defval);
+      return value === null ? null : { kind: 'value', value, isSource: false };
+    }
+
+    const value = this.literalValue(init);
+    return value === null ? null : { kind: 'value', value, isSource: false };
+  }
+
+  private literalValue(expression: Expression): IndicatorParameterValue | null {
+    const inner = unwrap(expression);
+    if (inner.kind === 'String' || inner.kind === 'Bool') return inner.value;
+    return literalNumber(inner);
+  }
+
+  // ===========================================================================
+  // Indicators
+  // ===========================================================================
+
+  /**
+   * The registry template the statements at `index` were emitted from, if
+   * any, with parameter values read from literals and input declarations
+   */
+  private matchIndicatorAt(index: number): { match: IndicatorMatch; length: number; analysis: Analysis } | null {
+    const body = this.program.body;
+
+    for (const template of getIndicatorTemplates()) {
+      const length = template.statements.length;
+      if (index + length > body.length) continue;
+
+      const bindings = new Map<string, Expression>();
+      const fits = template.statements.every((pattern, offset) => this.unify(pattern, body[index + offset], bindings));
+      if (!fits) continue;
+
+      const result = this.resolveIndicator(template, bindings, true);
+      if (result) return { ...result, length };
+    }
+    return null;
+  }
+
+  // A single-output indicator call written inline, as in ta.crossover(ta.ema(close, 9), slow)
+  private matchInlineIndicator(call: CallExpression): { match: IndicatorMatch; analysis: Analysis } | null {
+    for (const template of getIndicatorTemplates()) {
+      const [statement] = template.statements;
+      if (template.statements.length !== 1 || statement.kind !== 'VariableDeclaration' ||
+        statement.name.name !== NAME_PREFIX || statement.mode || statement.type) continue;
+
+      const bindings = new Map<string, Expression>();
+      if (!this.unify(statement.init, call, bindings)) continue;
+
+      const result = this.resolveIndicator(template, bindings, false);
+      if (result) return result;
+    }
+    return null;
+  }
+
+  private resolveIndicator(
+    template: IndicatorTemplate,
+    bindings: Map<string, Expression>,
+    declared: boolean
+  ): { match: IndicatorMatch; analysis: Analysis } | null {
+    const definition = getIndicatorById(template.indicatorId)!;
+    const analysis = this.emptyAnalysis();
+    const parameters: Record<string, IndicatorParameterValue> = { ...template.literals };
+
+    for (const [placeholder, expression] of Array.from(bindings.entries())) {
+      if (!placeholder.startsWith(PARAM_PREFIX)) continue;
+      const value = this.parameterValue(expression, analysis);
+      if (value === null) return null;
+      parameters[placeholder.slice(PARAM_PREFIX.length)] = value;
+    }
+
+    const outputs: Record<string, string> = {};
+    let base: string | undefined;
+    if (declared) {
+      const placeholders = getIndicatorOutputVariables(definition, NAME_PREFIX);
+      definition.outputs.forEach(output => {
+        const variable = bindings.get(placeholders[output]);
+        if (variable?.kind === 'Identifier') outputs[output] = variable.name;
+      });
+
+      // Generator output names tuple variables <name>_<output>
+      const bases = definition.outputs.map(output => {
+        const variable = outputs[output] || '';
+        if (definition.outputs.length === 1) return variable;
+        return variable.endsWith(`_${output}`) ? variable.slice(0, -output.length - 1) : '';
+      });
+      base = bases.every(candidate => candidate && candidate === bases[0]) ? bases[0] : undefined;
+    }
+
+    // Inputs the generator declares for parameters the code does not read, such as RSI levels
+    if (base) {
+      definition.parameters
+        .filter(param => parameters[param.name] === undefined)
+        .forEach(param => {
+          const name = `${base}_${param.name}`;
+          const unit = this.declared.get(name);
+          if (unit?.payload.kind === 'value' && !unit.raw) {
+            parameters[param.name] = unit.payload.value;
+            analysis.bakes.add(name);
+          }
+        });
+    }
+
+    if (validateIndicatorConfig(template.indicatorId, parameters).errors.length > 0) return null;
+    return {
+      match: { indicatorId: template.indicatorId, parameters, outputs, label: base || definition.name },
+      analysis
+    };
+  }
+
+  // Literal, price field or input value passed as an indicator parameter
+  private parameterValue(expression: Expression, analysis: Analysis): IndicatorParameterValue | null {
+    if (expression.kind === 'Identifier') {
+      const unit = this.declared.get(expression.name);
+      if (!unit) return PRICE_FIELDS.includes(expression.name) ? expression.name : null;
+      if (unit.payload.kind !== 'value' || unit.raw) return null;
+      analysis.bakes.add(expression.name);
+      return unit.payload.value;
+    }
+    return this.literalValue(expression);
+  }
+
+  /**
+   * Structural match of a template node against script code. Placeholder
+   * names bind to identifiers, placeholder parameters to literals and names,
+   * each consistently; calls compare by parameter, not argument spelling.
+   */
+  private unify(pattern: unknown, actual: unknown, bindings: Map<string, Expression>): boolean {
+    if (Array.isArray(pattern)) {
+      return Array.isArray(actual) && pattern.length === actual.length &&
+        pattern.every((item, index) => this.unify(item, actual[index], bindings));
+    }
+    if (!isPineNode(pattern)) return pattern === actual;
+    if (!isPineNode(actual)) return false;
+
+    if (pattern.kind === 'Identifier' && pattern.name.startsWith('__')) {
+      const expression = actual as Expression;
+      const accepts = pattern.name.startsWith(PARAM_PREFIX)
+        ? ['Identifier', 'Number', 'String', 'Bool'].includes(expression.kind) || literalNumber(expression) !== null
+        : expression.kind === 'Identifier';
+      if (!accepts) return false;
+
+      const bound = bindings.get(pattern.name);
+      if (bound) return this.text(bound) === this.text(expression);
+      bindings.set(pattern.name, expression);
+      return true;
+    }
+
+    if (pattern.kind !== actual.kind) return false;
+    switch (pattern.kind) {
+      case 'Number':
+      case 'String':
+        return pattern.value === (actual as typeof pattern).value;
+      case 'Call': {
+        const call = actual as CallExpression;
+        if (!this.unify(pattern.callee, call.callee, bindings) || !this.unify(pattern.typeArguments, call.typeArguments, bindings)) {
+          return false;
+        }
+        const expected = positionalArguments(pattern);
+        const given = positionalArguments(call);
+        return !!expected && !!given && expected.length === given.length && expected.every((arg, index) =>
+          arg === undefined ? given[index] === undefined : given[index] !== undefined && this.unify(arg, given[index], bindings)
+        );
+      }
+    }
+
+    const fields = pattern as unknown as Record<string, unknown>;
+    const values = actual as unknown as Record<string, unknown>;
+    return Object.keys(fields)
+      .filter(key => key !== 'range')
+      .every(key => this.unify(fields[key], values[key], bindings));
+  }
+
+  // ===========================================================================
+  // Signals
+  // ===========================================================================
+
+  // A declaration is a signal when its value is a condition, logic or timing expression
+  private analyzeSignalDeclaration(init: Expression, name: string, analysis: Analysis): UnitPayload | null {
+    const spec = this.analyzeSignal(init, analysis);
+    return spec.kind === 'condition' || spec.kind === 'logic' || spec.kind === 'timing'
+      ? { kind: 'signal', spec, label: name }
+      : null;
+  }
+
+  private analyzeSignal(expression: Expression, analysis: Analysis): SignalSpec {
+    const timing = this.analyzeTiming(expression);
+    if (timing) return { kind: 'timing', config: timing };
+
+    const inner = unwrap(expression);
+    if (inner.kind === 'Binary' && (inner.operator === 'and' || inner.operator === 'or')) {
+      return {
+        kind: 'logic',
+        operator: inner.operator,
+        operands: this.splitChain(inner, inner.operator).map(operand => this.analyzeSignal(operand, analysis))
+      };
+    }
+    if (inner.kind === 'Unary' && inner.operator === 'not') {
+      return { kind: 'logic', operator: 'not', operands: [this.analyzeSignal(inner.operand, analysis)] };
+    }
+
+    const scratch = this.emptyAnalysis();
+    const spec = this.analyzeWindow(inner, scratch) || this.analyzeCondition(inner, scratch);
+    if (spec) {
+      this.merge(analysis, scratch);
+      return spec;
+    }
+
+    if (inner.kind === 'Identifier') {
+      const unit = this.declared.get(inner.name);
+      if (unit && (unit.raw || ['signal', 'value'].includes(unit.payload.kind))) {
+        analysis.reads.add(inner.name);
+        return { kind: 'named', name: inner.name };
+      }
+    }
+    return this.liftExpression(expression, analysis);
+  }
+
+  private merge(target: Analysis, source: Analysis): void {
+    source.reads.forEach(name => target.reads.add(name));
+    source.bakes.forEach(name => target.bakes.add(name));
+    target.lifted.push(...source.lifted);
+  }
+
+  // Operands of a chain of one operator; parentheses mark a nested node
+  private splitChain(expression: Expression, operator: 'and' | 'or'): Expression[] {
+    const inner = unwrap(expression);
+    const collect = (node: Expression): Expression[] => node.kind === 'Binary' && node.operator === operator
+      ? [...collect(node.left), ...collect(node.right)]
+      : [node];
+    return collect(inner);
+  }
+
+  /**
+   * Moves a boolean expression no node can express into its own raw Pine
+   * variable, so the statement around it can still be mapped
+   */
+  private liftExpression(expression: Expression, analysis: Analysis): SignalSpec {
+    let name: string;
+    do {
+      name = `pine_expr_${++this.liftedCount}`;
+    } while (this.identifiers.has(name));
+
+    const references = new Set(findReferences(expression).map(identifier => identifier.name));
+    const unit: Unit = {
+      payload: { kind: 'raw', code: `${name} = ${this.text(expression)}` },
+      statements: [],
+      start: expression.range.start.offset,
+      declares: [name],
+      references,
+      reads: new Set(references),
+      bakes: new Set(),
+      raw: true
+    };
+    analysis.lifted.push(unit);
+    analysis.reads.add(name);
+    this.declared.set(name, unit);
+    return { kind: 'raw', unit };
+  }
+
+  private analyzeCondition(expression: Expression, analysis: Analysis): SignalSpec | null {
+    let operator: ConditionOperator | undefined;
+    let left: Expression | undefined;
+    let right: Expression | undefined;
+
+    if (expression.kind === 'Binary' && COMPARISON_OPERATORS[expression.operator]) {
+      operator = COMPARISON_OPERATORS[expression.operator];
+      left = expression.left;
+      right = expression.right;
+    } else if (expression.kind === 'Call' && CROSS_FUNCTIONS[calleeName(expression) || '']) {
+      const args = bindArguments(expression);
+      operator = CROSS_FUNCTIONS[calleeName(expression)!];
+      left = args?.get('source1');
+      right = args?.get('source2');
+    }
+    if (!operator || !left || !right) return null;
+
+    const series = this.analyzeOperand(left, analysis);
+    const other = this.analyzeOperand(right, analysis);
+    const isSeries = (operand: SeriesOperand | number | null) => operand !== null && typeof operand !== 'number' && operand.kind !== 'value';
+    if (series === null || other === null || (!isSeries(series) && !isSeries(other))) return null;
+
+    return { kind: 'condition', operator, series, other };
+  }
+
+  private analyzeOperand(expression: Expression, analysis: Analysis): SeriesOperand | number | null {
+    const inner = unwrap(expression);
+    const numeric = literalNumber(inner);
+    if (numeric !== null) return numeric;
+
+    if (inner.kind === 'Identifier') {
+      const unit = this.declared.get(inner.name);
+      if (!unit) return PRICE_FIELDS.includes(inner.name) ? { kind: 'price', field: inner.name } : null;
+      if (unit.raw || unit.payload.kind === 'indicator') {
+        analysis.reads.add(inner.name);
+        return { kind: 'named', name: inner.name };
+      }
+      if (unit.payload.kind === 'value') {
+        if (typeof unit.payload.value !== 'number' && !unit.payload.isSource) return null;
+        analysis.bakes.add(inner.name);
+        return { kind: 'value', name: inner.name };
+      }
+      return null;
+    }
+
+    if (inner.kind === 'Call') {
+      const inline = this.matchInlineIndicator(inner);
+      if (inline) {
+        this.merge(analysis, inline.analysis);
+        return { kind: 'inline', indicator: inline.match };
+      }
+    }
+    return null;
+  }
+
+  // N-of-M votes and consecutive/within bar windows, as the generator writes them
+  private analyzeWindow(expression: Expression, analysis: Analysis): SignalSpec | null {
+    if (expression.kind !== 'Binary') return null;
+    const count = (term: Expression): Expression | null => {
+      const inner = unwrap(term);
+      return inner.kind === 'Conditional' && literalNumber(inner.consequent) === 1 && literalNumber(inner.alternate) === 0
+        ? inner.test
+        : null;
+    };
+    const threshold = literalNumber(expression.right);
+    if (threshold === null || !Number.isInteger(threshold)) return null;
+
+    if (expression.operator === '>=') {
+      const terms: Expression[] = [];
+      const collect = (node: Expression) => {
+        if (node.kind === 'Binary' && node.operator === '+') {
+          collect(node.left);
+          collect(node.right);
+        } else {
+          terms.push(node);
+        }
+      };
+      collect(expression.left);
+      const tests = terms.map(count);
+      if (terms.length < 2 || tests.some(test => !test)) return null;
+      return {
+        kind: 'logic',
+        operator: 'n_of_m',
+        operands: tests.map(test => this.analyzeSignal(test!, analysis)),
+        requiredCount: threshold
+      };
+    }
+
+    const sum = unwrap(expression.left);
+    if (sum.kind !== 'Call' || calleeName(sum) !== 'math.sum' || sum.args.length !== 2 || sum.args.some(arg => arg.name)) return null;
+    const test = count(sum.args[0].value);
+    const bars = literalNumber(sum.args[1].value);
+    if (!test || bars === null || !Number.isInteger(bars) || bars < 1) return null;
+
+    const operator = expression.operator === '==' && threshold === bars ? 'consecutive'
+      : expression.operator === '>' && threshold === 0 ? 'within'
+      : null;
+    return operator ? { kind: 'logic', operator, operands: [this.analyzeSignal(test, analysis)], bars } : null;
+  }
+
+  // ===========================================================================
+  // Timing
+  // ===========================================================================
+
+  /**
+   * Session, weekday and date-range filters joined with `and`, merged into
+   * one timing node config
+   */
+  private analyzeTiming(expression: Expression): NodeConfig | null {
+    const config: NodeConfig = {};
+    let timezone: string | undefined;
+
+    for (const part of this.splitChain(expression, 'and')) {
+      const piece = this.analyzeTimingPart(unwrap(part));
+      if (!piece) return null;
+      if (piece.timezone !== undefined) {
+        if (timezone !== undefined && timezone !== piece.timezone) return null;
+        timezone = piece.timezone;
+      }
+      for (const [key, value] of Object.entries(piece.config)) {
+        if (config[key] !== undefined) return null;
+        config[key] = value;
+      }
+    }
+
+    if (timezone !== undefined) {
+      config.timezone = timezone;
+    } else if (config.startTime !== undefined || config.daysOfWeek !== undefined) {
+      this.warnings.push('A session filter without a timezone was imported as UTC; Pine uses the exchange timezone');
+    }
+    return config;
+  }
+
+  private analyzeTimingPart(part: Expression): { config: NodeConfig; timezone?: string } | null {
+    // not na(time(timeframe.period, "0930-1600:23456", "America/New_York"))
+    if (part.kind === 'Unary' && part.operator === 'not') {
+      const na = unwrap(part.operand);
+      if (na.kind !== 'Call' || calleeName(na) !== 'na' || na.args.length !== 1) return null;
+      const time = unwrap(na.args[0].value);
+      if (time.kind !== 'Call' || calleeName(time) !== 'time') return null;
+
+      const args = bindArguments(time);
+      const session = args?.get('session');
+      const timezone = args?.get('timezone');
+      if (!args || qualifiedName(args.get('timeframe')!) !== 'timeframe.period' || args.has('bars_back') ||
+        session?.kind !== 'String' || (timezone && timezone.kind !== 'String')) return null;
+
+      const parts = session.value.match(SESSION_PATTERN);
+      if (!parts) return null;
+      const config: NodeConfig = {};
+      const [, startHour, startMinute, endHour, endMinute, days] = parts;
+      if (!days || `${startHour}${startMinute}-${endHour}${endMinute}` !== '0000-0000') {
+        config.startTime = `${startHour}:${startMinute}`;
+        config.endTime = `${endHour}:${endMinute}`;
+      }
+      if (days) {
+        config.daysOfWeek = SESSION_DAYS.filter((_, dayIndex) => days.includes(String(dayIndex + 1)));
+      }
+      return { config, timezone: timezone?.kind === 'String' ? timezone.value : undefined };
+    }
+
+    // time >= timestamp("UTC", 2024, 1, 1, 0, 0) and time < timestamp(...)
+    if (part.kind === 'Binary' && (part.operator === '>=' || part.operator === '<') &&
+      part.left.kind === 'Identifier' && part.left.name === 'time' && !this.declared.has('time')) {
+      const stamp = unwrap(part.right);
+      if (stamp.kind !== 'Call' || calleeName(stamp) !== 'timestamp' || stamp.args.some(arg => arg.name)) return null;
+
+      const args = stamp.args.map(arg => arg.value);
+      const timezone = args[0]?.kind === 'String' ? args.shift() : undefined;
+      const [year, month, day, ...clock] = args.map(literalNumber);
+      if (args.length < 3 || args.length > 5 || year === null || month === null || day === null ||
+        clock.some(value => value !== 0)) return null;
+
+      // The end bound is exclusive, so the last trading day is the one before it
+      const date = new Date(Date.UTC(year, month - 1, day - (part.operator === '<' ? 1 : 0)));
+      const text = date.toISOString().slice(0, 10);
+      return {
+        config: part.operator === '>=' ? { startDate: text } : { endDate: text },
+        timezone: timezone?.kind === 'String' ? timezone.value : undefined
+      };
+    }
+
+    return null;
+  }
+
+  // ===========================================================================
+  // Actions and risk
+  // ===========================================================================
+
+  /**
+   * An if whose body only places or closes orders. Entries need every `and`
+   * operand of the trigger, exits any one signal, so an exit's `or` chain is
+   * split into separate signals. Session filters become timing guards.
+   */
+  private analyzeAction(statement: IfStatement, trigger: Expression): { payload: UnitPayload; analysis: Analysis } | null {
+    if (statement.alternate) return null;
+    const calls = statement.consequent.body.map(child =>
+      child.kind === 'ExpressionStatement' && child.expression.kind === 'Call' && ORDER_FUNCTIONS.includes(calleeName(child.expression) || '')
+        ? child.expression
+        : null
+    );
+    if (calls.length === 0 || calls.some(call => !call)) return null;
+
+    const analysis = this.emptyAnalysis();
+    const closesAll = calls.every(call => calleeName(call!) === 'strategy.close_all');
+    const items: SignalSpec[] = [];
+    const guards: SignalSpec[] = [];
+    let direction: NodeConfig['direction'];
+
+    for (const item of this.splitChain(trigger, 'and')) {
+      const position = closesAll && !direction ? this.positionDirection(item) : undefined;
+      if (position) {
+        direction = position;
+        continue;
+      }
+
+      const timing = this.analyzeTiming(item);
+      const guard = item.kind === 'Identifier' ? this.declared.get(item.name) : undefined;
+      if (timing) {
+        guards.push({ kind: 'timing', config: timing });
+      } else if (guard && !guard.raw && guard.payload.kind === 'signal' && guard.payload.spec.kind === 'timing' && item.kind === 'Identifier') {
+        analysis.reads.add(item.name);
+        guards.push({ kind: 'named', name: item.name });
+      } else {
+        items.push(this.analyzeSignal(item, analysis));
+      }
+    }
+    if (items.length === 0) return null;
+
+    const orders = calls.map(call => this.analyzeOrder(call!, direction));
+    if (orders.some(order => !order)) return null;
+
+    // An exit fires on any connected signal, so a lone `or` chain is split into them
+    const single = items.length === 1 ? items[0] : undefined;
+    const anyOf = single?.kind === 'logic' && single.operator === 'or' ? single.operands : undefined;
+
+    return { payload: { kind: 'action', items, anyOf, guards, orders: orders as OrderSpec[] }, analysis };
+  }
+
+  // strategy.position_size > 0 / < 0, which limits close_all to one side
+  private positionDirection(expression: Expression): NodeConfig['direction'] | undefined {
+    const inner = unwrap(expression);
+    if (inner.kind !== 'Binary' || qualifiedName(inner.left) !== 'strategy.position_size' || literalNumber(inner.right) !== 0) return undefined;
+    return inner.operator === '>' ? 'long' : inner.operator === '<' ? 'short' : undefined;
+  }
+
+  private analyzeOrder(call: CallExpression, direction: NodeConfig['direction']): OrderSpec | null {
+    const name = calleeName(call)!;
+    const args = bindArguments(call);
+    if (!args) return null;
+    const id = args.get('id');
+
+    if (name === 'strategy.close_all') {
+      if (args.size > 0) return null;
+      return { label: 'Close All', config: direction ? { actionKind: 'exit', direction } : { actionKind: 'exit' } };
+    }
+    if (id?.kind !== 'String') return null;
+    if (name === 'strategy.close') {
+      if (args.size > 1) return null;
+      return { label: `Close ${id.value}`, config: { actionKind: 'exit', entryId: id.value } };
+    }
+
+    const side = qualifiedName(args.get('direction')!);
+    if (side !== 'strategy.long' && side !== 'strategy.short') return null;
+    if (Array.from(args.keys()).some(key => !['id', 'direction', 'qty', 'limit', 'stop'].includes(key))) return null;
+
+    const kind = name === 'strategy.entry' ? 'entry' : 'order';
+    const orderDirection = side === 'strategy.long' ? 'long' : 'short';
+    const config: NodeConfig = { actionKind: kind, direction: orderDirection };
+    const defaults = kind === 'entry' ? DEFAULT_ENTRY_IDS : DEFAULT_ORDER_IDS;
+    if (id.value !== defaults[orderDirection]) {
+      config.entryId = id.value;
+    }
+
+    const qty = args.get('qty');
+    if (qty) {
+      const quantity = this.analyzeQuantity(qty);
+      if (!quantity) return null;
+      Object.assign(config, quantity);
+    }
+
+    const limit = args.get('limit');
+    const stop = args.get('stop');
+    if (limit && stop) return null;
+    if (limit || stop) {
+      const orderType = limit ? 'limit' : 'stop';
+      const price = unwrap((limit || stop)!);
+      const factor = qualifiedName(price) === 'close' ? 1
+        : price.kind === 'Binary' && price.operator === '*' && qualifiedName(price.left) === 'close' ? literalNumber(price.right)
+        : null;
+      // Limit orders wait for a better price, stop orders for a breakout
+      const favorable = (orderDirection === 'long') === (orderType === 'limit') ? -1 : 1;
+      const offset = factor === null ? null : round((factor - 1) * 100 / favorable);
+      if (offset === null || offset < 0) return null;
+      config.orderType = orderType;
+      config.orderOffset = offset;
+    }
+
+    return { label: id.value, config };
+  }
+
+  // Fixed contracts, a share of equity, or equity at risk over the stop distance
+  private analyzeQuantity(expression: Expression): Pick<NodeConfig, 'quantityMode' | 'quantity'> | null {
+    const fixed = literalNumber(expression);
+    if (fixed !== null) return { quantityMode: 'fixed', quantity: fixed };
+
+    const inner = unwrap(expression);
+    if (inner.kind !== 'Binary' || inner.operator !== '/') return null;
+    const product = unwrap(inner.left);
+    if (product.kind !== 'Binary' || product.operator !== '*' || qualifiedName(product.left) !== 'strategy.equity') return null;
+    const share = literalNumber(product.right);
+    if (share === null) return null;
+
+    const divisor = inner.right;
+    if (qualifiedName(divisor) === 'close') {
+      return { quantityMode: 'percent_equity', quantity: round(share * 100) };
+    }
+    if (divisor.kind === 'Parenthesized' || calleeName(divisor) === 'math.min') {
+      return { quantityMode: 'risk', quantity: round(share * 100) };
+    }
+    return null;
+  }
+
+  private analyzeRiskDeclaration(init: Expression, analysis: Analysis): UnitPayload | null {
+    const level = this.analyzeLevel(init, analysis);
+    if (level) return { kind: 'level', level };
+    const trail = this.analyzeTrail(init, analysis);
+    return trail ? { kind: 'trail', level: trail } : null;
+  }
+
+  // strategy.position_avg_price -/+ distance
+  private analyzeLevel(expression: Expression, analysis: Analysis): RiskLevel | null {
+    const inner = unwrap(expression);
+    if (inner.kind !== 'Binary' || (inner.operator !== '+' && inner.operator !== '-') ||
+      qualifiedName(inner.left) !== 'strategy.position_avg_price') return null;
+    const distance = this.analyzeDistance(inner.right, analysis);
+    return distance ? { ...distance, sign: inner.operator === '+' ? 1 : -1 } : null;
+  }
+
+  // math.max(1, math.round(distance / syminfo.mintick)), a trailing offset in ticks
+  private analyzeTrail(expression: Expression, analysis: Analysis): RiskLevel | null {
+    const max = unwrap(expression);
+    if (max.kind !== 'Call' || calleeName(max) !== 'math.max' || max.args.length !== 2 || literalNumber(max.args[0].value) !== 1) return null;
+    const rounded = unwrap(max.args[1].value);
+    if (rounded.kind !== 'Call' || calleeName(rounded) !== 'math.round' || rounded.args.length !== 1) return null;
+    const ticks = unwrap(rounded.args[0].value);
+    if (ticks.kind !== 'Binary' || ticks.operator !== '/' || qualifiedName(ticks.right) !== 'syminfo.mintick') return null;
+    const distance = this.analyzeDistance(ticks.left, analysis);
+    return distance ? { ...distance, sign: 0 } : null;
+  }
+
+  // A share of the average entry price, or a multiple of the ATR captured at entry
+  private analyzeDistance(expression: Expression, analysis: Analysis): Omit<RiskLevel, 'sign'> | null {
+    const inner = unwrap(expression);
+    if (inner.kind !== 'Binary' || inner.operator !== '*') return null;
+    const amount = literalNumber(inner.right);
+    if (amount === null || amount <= 0) return null;
+
+    if (qualifiedName(inner.left) === 'strategy.position_avg_price') {
+      return { unit: 'percent', amount: round(amount * 100) };
+    }
+    if (inner.left.kind === 'Identifier') {
+      analysis.bakes.add(inner.left.name);
+      return { unit: 'atr', amount, atrVariable: inner.left.name };
+    }
+    return null;
+  }
+
+  // var float x = na, set from an ATR series when a position opens
+  private analyzeEntryAtr(statement: Statement, next?: Statement): { payload: UnitPayload; analysis: Analysis } | null {
+    if (statement.kind !== 'VariableDeclaration' || statement.mode !== 'var' || statement.type?.name !== 'float' ||
+      statement.init.kind !== 'Na' || next?.kind !== 'If' || next.alternate || next.consequent.body.length !== 1) return null;
+
+    const [assignment] = next.consequent.body;
+    if (assignment.kind !== 'Assignment' || assignment.operator !== ':=' || assignment.target.kind !== 'Identifier' ||
+      assignment.target.name !== statement.name.name || assignment.value.kind !== 'Identifier') return null;
+
+    const analysis = this.emptyAnalysis();
+    analysis.bakes.add(assignment.value.name);
+    return { payload: { kind: 'entry-atr', source: assignment.value.name }, analysis };
+  }
+
+  private analyzeExit(expression: Expression, analysis: Analysis): UnitPayload | null {
+    if (expression.kind !== 'Call' || calleeName(expression) !== 'strategy.exit') return null;
+    const args = bindArguments(expression);
+    if (!args || Array.from(args.keys()).some(key => !['id', 'from_entry', 'stop', 'limit', 'trail_points', 'trail_offset'].includes(key))) {
+      return null;
+    }
+
+    const id = args.get('id');
+    const fromEntry = args.get('from_entry');
+    if (id?.kind !== 'String' || fromEntry?.kind !== 'String') return null;
+
+    const resolve = (key: string, kind: 'level' | 'trail'): RiskLevel | null | undefined => {
+      const value = args.get(key);
+      if (!value) return undefined;
+      if (value.kind === 'Identifier') {
+        const unit = this.declared.get(value.name);
+        if (!unit || unit.raw || unit.payload.kind !== kind) return null;
+        analysis.bakes.add(value.name);
+        return unit.payload.level;
+      }
+      return kind === 'level' ? this.analyzeLevel(value, analysis) : this.analyzeTrail(value, analysis);
+    };
+
+    const stop = resolve('stop', 'level');
+    const limit = resolve('limit', 'level');
+    const trail = resolve('trail_offset', 'trail');
+    const trailPoints = args.get('trail_points');
+    if (stop === null || limit === null || trail === null || (!stop && !limit && !trail)) return null;
+    if (!!trail !== !!trailPoints || (trailPoints && literalNumber(trailPoints) !== 0)) return null;
+
+    return { kind: 'exit', exitId: id.value, entryId: fromEntry.value, stop, limit, trail };
+  }
+
+  // ===========================================================================
+  // Settling what stays mapped
+  // ===========================================================================
+
+  /**
+   * Demotes units to raw Pine until every mapped unit can be emitted by the
+   * generator: raw Pine runs either before the strategy logic (and may feed
+   * it) or after it (and may read it), values folded into settings must not
+   * also be read as variables, and risk nodes must cover every entry.
+   */
+  private settle(): void {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const late = this.findLateRaw();
+      const groups = this.groupExits();
+
+      for (const unit of this.units) {
+        if (unit.raw || !this.isAlive(unit) || !this.mustBeRaw(unit, late, groups)) continue;
+        unit.raw = true;
+        unit.payload = { kind: 'raw' };
+        unit.reads = new Set(unit.references);
+        unit.bakes = new Set();
+        changed = true;
+      }
+    }
+  }
+
+  private isAlive(unit: Unit): boolean {
+    return !unit.owner || (!unit.owner.raw && this.isAlive(unit.owner));
+  }
+
+  private aliveUnits(): Unit[] {
+    return this.units.filter(unit => this.isAlive(unit));
+  }
+
+  private mustBeRaw(unit: Unit, late: Set<Unit>, groups: Map<string, RiskGroup> | null): boolean {
+    const readsLate = Array.from(unit.reads).some(name => {
+      const producer = this.declared.get(name);
+      return !!producer && late.has(producer);
+    });
+    const mapped = this.aliveUnits().filter(other => !other.raw && other !== unit);
+
+    switch (unit.payload.kind) {
+      case 'value':
+      case 'level':
+      case 'trail':
+      case 'entry-atr':
+        // Folded into settings, or kept as written when anything reads the variable itself
+        return unit.declares.some(name => this.aliveUnits().some(other => other !== unit && other.reads.has(name))) ||
+          !unit.declares.some(name => mapped.some(other => other.bakes.has(name)));
+
+      case 'signal': {
+        if (readsLate) return true;
+        if (unit.payload.spec.kind !== 'timing') return false;
+        // Timing nodes can only guard actions
+        const readers = mapped.filter(other => unit.declares.some(name => other.reads.has(name)));
+        return readers.length === 0 || readers.some(other => other.payload.kind !== 'action' ||
+          !other.payload.guards.some(guard => guard.kind === 'named' && unit.declares.includes(guard.name)));
+      }
+
+      case 'action': {
+        if (readsLate) return true;
+        const sizesByRisk = unit.payload.orders.some(order => order.config.quantityMode === 'risk');
+        return sizesByRisk && !Array.from(groups?.values() || []).some(group => group.config.stopLoss !== undefined);
+      }
+
+      case 'exit':
+        return !groups || !unit.group || !groups.has(unit.group);
+
+      case 'plot':
+        // Only plots the builder draws itself are left out: indicators, their level inputs and action markers
+        return Array.from(unit.references).some(name => {
+          const producer = this.declared.get(name);
+          if (!producer) return false;
+          if (producer.payload.kind === 'value') {
+            return producer.raw || !mapped.some(other => other.payload.kind === 'indicator' && other.bakes.has(name));
+          }
+          return producer.raw || !['indicator', 'action'].includes(producer.payload.kind);
+        });
+
+      default:
+        return false;
+    }
+  }
+
+  // Raw Pine that reads signals or actions, directly or through other raw Pine
+  private findLateRaw(): Set<Unit> {
+    const late = new Set<Unit>();
+    let changed = true;
+    while (changed) {
+      changed = false;
+      this.aliveUnits()
+        .filter(unit => unit.raw && !late.has(unit))
+        .forEach(unit => {
+          const isLate = Array.from(unit.reads).some(name => {
+            const producer = this.declared.get(name);
+            return !!producer && this.isAlive(producer) && (late.has(producer) ||
+              (!producer.raw && (producer.payload.kind === 'signal' || producer.payload.kind === 'action')));
+          });
+          if (isLate) {
+            late.add(unit);
+            changed = true;
+          }
+        });
+    }
+    return late;
+  }
+
+  /**
+   * Risk node settings for every mapped exit. Exits with the same distances
+   * form one node; a node applies to all entries, so its exits must cover
+   * each entry ID on the side the levels are placed for. Exits that do not
+   * fit lose their group and are kept as raw Pine.
+   */
+  private groupExits(): Map<string, RiskGroup> | null {
+    const entries = new Map<string, string>();
+    this.aliveUnits().forEach(unit => {
+      if (unit.raw || unit.payload.kind !== 'action') return;
+      unit.payload.orders.forEach(({ config }) => {
+        if (config.actionKind === 'entry') {
+          entries.set(config.entryId || DEFAULT_ENTRY_IDS[config.direction || 'long'], config.direction || 'long');
+        }
+      });
+    });
+
+    const groups = new Map<string, RiskGroup>();
+    const exits = this.aliveUnits().filter(unit => !unit.raw && unit.payload.kind === 'exit');
+    exits.forEach(unit => {
+      unit.group = undefined;
+      if (unit.payload.kind !== 'exit') return;
+      const { exitId, entryId, stop, limit, trail } = unit.payload;
+      const levels = [stop, limit, trail].filter((level): level is RiskLevel => !!level);
+
+      // Long stops sit below the entry and targets above it
+      const sides = [stop && -stop.sign, limit?.sign].filter((sign): sign is number => sign !== undefined);
+      const direction = sides.length === 0 ? entries.get(entryId) : sides[0] > 0 ? 'long' : 'short';
+      if (!entries.has(entryId) || entries.get(entryId) !== direction || sides.some(side => side !== sides[0])) return;
+
+      const atrVariables = Array.from(new Set(levels.map(level => level.atrVariable)));
+      if (atrVariables.length !== 1 || levels.some(level => level.unit !== levels[0].unit)) return;
+
+      const config: NodeConfig = {};
+      if (levels[0].unit === 'atr') {
+        const period = this.entryAtrPeriod(atrVariables[0]!);
+        if (period === null) return;
+        config.riskUnit = 'atr';
+        config.atrPeriod = period;
+      }
+      if (stop) config.stopLoss = stop.amount;
+      if (limit) config.takeProfit = limit.amount;
+      if (trail) config.trailingStop = trail.amount;
+
+      const key = JSON.stringify(config);
+      const group = groups.get(key) || { config, label: exitId.endsWith(` ${entryId}`) ? exitId.slice(0, -entryId.length - 1) : exitId, entries: new Set<string>() };
+      group.entries.add(entryId);
+      groups.set(key, group);
+      unit.group = key;
+    });
+
+    groups.forEach((group, key) => {
+      if (group.entries.size !== entries.size) groups.delete(key);
+    });
+    return groups.size > 0 ? groups : null;
+  }
+
+  // ATR length behind a `var float` captured at entry
+  private entryAtrPeriod(variable: string): number | null {
+    const unit = this.declared.get(variable);
+    if (!unit || unit.raw || unit.payload.kind !== 'entry-atr') return null;
+    const source = this.declared.get(unit.payload.source);
+    if (!source || source.payload.kind !== 'indicator' || source.payload.match.indicatorId !== 'atr') return null;
+    return Number(source.payload.match.parameters.period);
+  }
+
+  // ===========================================================================
+  // Graph
+  // ===========================================================================
+
+  private build(): void {
+    const header = this.units.find(unit => unit.payload.kind === 'header');
+    const pyramiding = header?.payload.kind === 'header' ? header.payload.pyramiding : undefined;
+    const late = this.findLateRaw();
+    const groups = this.groupExits();
+    const riskNodes = new Map<string, string>();
+    const entryNodes: string[] = [];
+
+    this.dataNodeId = this.addNode('data-source', 'Price Data', {}, 'Chart symbol and timeframe');
+
+    // Raw statements in a row share a node; lifted expressions get their own
+    const main = this.units.filter(unit => !unit.owner);
+    const runs = new Map<Unit, Unit[]>();
+    let run: Unit[] | null = null;
+    for (let index = 0; index < main.length; index++) {
+      const unit = main[index];
+      const previous = main[index - 1];
+      if (unit.raw && run && previous.raw && late.has(previous) === late.has(unit)) {
+        run.push(unit);
+      } else {
+        run = unit.raw ? [unit] : null;
+        if (run) runs.set(unit, run);
+      }
+    }
+
+    main.forEach(unit => {
+      if (unit.raw) {
+        const statements = runs.get(unit);
+        if (statements) this.buildRaw(statements);
+        return;
+      }
+      this.units.filter(lifted => lifted.owner === unit).forEach(lifted => this.buildRaw([lifted]));
+
+      switch (unit.payload.kind) {
+        case 'indicator':
+          if (this.isAbsorbed(unit)) return;
+          this.buildIndicator(unit.payload.match);
+          break;
+
+        case 'signal': {
+          const producer = this.buildSignal(unit.payload.spec, unit.payload.label);
+          unit.declares.forEach(name => this.producers.set(name, producer));
+          break;
+        }
+
+        case 'action': {
+          const { items, anyOf, guards, orders } = unit.payload;
+          const label = unit.declares[0];
+          const built = new Map<SignalSpec, Producer>();
+          const produce = (spec: SignalSpec) => {
+            if (!built.has(spec)) built.set(spec, this.buildSignal(spec));
+            return built.get(spec)!;
+          };
+          const exitSignals = anyOf || (items.length > 1 ? [{ kind: 'logic', operator: 'and', operands: items } as SignalSpec] : items);
+
+          orders.forEach((order, index) => {
+            const config = { ...order.config };
+            if (config.actionKind === 'entry' && pyramiding && pyramiding > 1) {
+              config.pyramiding = pyramiding;
+            }
+            const nodeId = this.addNode('action', label && orders.length === 1 ? label : order.label, config);
+            if (config.actionKind === 'entry') entryNodes.push(nodeId);
+            if (index === 0 && label) this.producers.set(label, { nodeId });
+
+            const signals = config.actionKind === 'exit' ? exitSignals : items;
+            [...signals, ...guards].forEach(spec => this.connect(produce(spec), nodeId));
+          });
+          break;
+        }
+
+        case 'exit': {
+          const group = unit.group ? groups?.get(unit.group) : undefined;
+          if (group && !riskNodes.has(unit.group!)) {
+            riskNodes.set(unit.group!, this.addNode('risk', group.label, group.config));
+          }
+          break;
+        }
+      }
+    });
+
+    // Protective exits apply to every entry
+    riskNodes.forEach(riskNode => entryNodes.forEach(entryNode => this.connect({ nodeId: entryNode }, riskNode)));
+
+    this.connectRawInputs();
+
+    const rawCount = this.nodes.filter(node => node.type === 'raw-pine').length;
+    if (rawCount > 0) {
+      this.warnings.push(`${rawCount} raw Pine node${rawCount === 1 ? '' : 's'} kept code the builder cannot express; the backtest engine skips them`);
+    }
+  }
+
+  // An ATR series read only to capture stop distances at entry belongs to its risk node
+  private isAbsorbed(unit: Unit): boolean {
+    const readers = this.aliveUnits().filter(other => other !== unit && unit.declares.some(name =>
+      other.reads.has(name) || other.bakes.has(name) || (other.raw && other.references.has(name))
+    ));
+    return readers.length > 0 && readers.every(reader => !reader.raw && reader.payload.kind === 'entry-atr');
+  }
+
+  private buildIndicator(match: IndicatorMatch): Producer {
+    const definition = getIndicatorById(match.indicatorId)!;
+    const nodeId = this.addNode('indicator', match.label, { indicatorId: match.indicatorId, parameters: match.parameters }, definition.fullName);
+    this.connect({ nodeId: this.dataNodeId }, nodeId);
+
+    definition.outputs.forEach(output => {
+      const variable = match.outputs[output];
+      if (variable) {
+        this.producers.set(variable, { nodeId, handle: definition.outputs.length > 1 ? output : undefined });
+      }
+    });
+    return { nodeId };
+  }
+
+  private buildSignal(spec: SignalSpec, label?: string): Producer {
+    switch (spec.kind) {
+      case 'named':
+        return this.producers.get(spec.name) || { nodeId: this.dataNodeId };
+
+      case 'raw':
+        return this.producers.get(spec.unit.declares[0])!;
+
+      case 'timing':
+        return { nodeId: this.addNode('timing', label || 'Time Filter', spec.config) };
+
+      case 'condition': {
+        let series = this.resolveOperand(spec.series);
+        let other = this.resolveOperand(spec.other);
+        let operator = spec.operator;
+        if (typeof series === 'number') {
+          [series, other] = [other, series];
+          operator = FLIPPED_OPERATORS[operator];
+        }
+
+        const config: NodeConfig = { operator };
+        const operands = [series as Producer, ...(typeof other === 'number' ? [] : [other])];
+        if (typeof other === 'number') {
+          config.threshold = other;
+        } else {
+          config.compareTo = 'series';
+        }
+
+        const nodeId = this.addNode('condition', label || CONDITION_LABELS[operator], config);
+        operands.forEach((producer, index) => {
+          this.connect(producer, nodeId, operands.length > 1 ? (index === 0 ? 'left' : 'right') : undefined);
+        });
+        return { nodeId };
+      }
+
+      case 'logic': {
+        const config: NodeConfig = { logicOperator: spec.operator };
+        if (spec.requiredCount !== undefined) config.requiredCount = spec.requiredCount;
+        if (spec.bars !== undefined) config.bars = spec.bars;
+
+        const operands = spec.operands.map(operand => this.buildSignal(operand));
+        const nodeId = this.addNode('logic', label || LOGIC_LABELS[spec.operator], config);
+        operands.forEach(producer => this.connect(producer, nodeId));
+        return { nodeId };
+      }
+    }
+  }
+
+  // Folded value, or the node that provides the series
+  private resolveOperand(operand: SeriesOperand | number): Producer | number {
+    if (typeof operand === 'number') return operand;
+    switch (operand.kind) {
+      case 'value': {
+        const unit = this.declared.get(operand.name)!;
+        if (unit.raw || unit.payload.kind !== 'value') return this.producers.get(operand.name)!;
+        const { value } = unit.payload;
+        return typeof value === 'number' ? value : { nodeId: this.dataNodeId, handle: String(value) };
+      }
+      case 'price':
+        return { nodeId: this.dataNodeId, handle: operand.field };
+      case 'named':
+        return this.producers.get(operand.name) || { nodeId: this.dataNodeId };
+      case 'inline':
+        return this.buildIndicator(operand.indicator);
+    }
+  }
+
+  private buildRaw(run: Unit[]): void {
+    const [first] = run;
+    const last = run[run.length - 1].statements;
+    const end = last.length > 0 ? last[last.length - 1].range.end.offset : first.start;
+    const code = first.payload.kind === 'raw' && first.payload.code ? first.payload.code : this.source.slice(first.start, end);
+    const [startLine, endLine] = [this.lineOf(first.start), this.lineOf(end)];
+
+    const nodeId = this.addNode(
+      'raw-pine',
+      startLine === endLine ? `Raw Pine (line ${startLine})` : `Raw Pine (lines ${startLine}-${endLine})`,
+      { pineCode: code, pineInputs: [], pineOutputs: [] },
+      'Imported Pine Script the builder cannot express, emitted as written'
+    );
+    run.forEach(unit => {
+      this.rawNodes.set(unit, nodeId);
+      unit.declares.forEach(name => this.producers.set(name, { nodeId, handle: name }));
+    });
+  }
+
+  // Edges into raw Pine for every variable it reads from another node
+  private connectRawInputs(): void {
+    this.aliveUnits()
+      .filter(unit => unit.raw)
+      .forEach(unit => {
+        const nodeId = this.rawNodes.get(unit)!;
+        const node = this.nodes.find(candidate => candidate.id === nodeId)!;
+        unit.reads.forEach(name => {
+          const producer = this.producers.get(name);
+          if (!producer || producer.nodeId === nodeId || node.data.config!.pineInputs!.includes(name)) return;
+          node.data.config!.pineInputs!.push(name);
+          this.connect(producer, nodeId, name);
+        });
+      });
+  }
+
+  private connect(producer: Producer, target: string, targetHandle?: string): void {
+    const source = this.nodes.find(node => node.id === producer.nodeId);
+    if (source?.type === 'raw-pine' && producer.handle && !source.data.config!.pineOutputs!.includes(producer.handle)) {
+      source.data.config!.pineOutputs!.push(producer.handle);
+    }
+
+    const baseId = `edge_${producer.nodeId}_${target}`;
+    const duplicates = this.edges.filter(edge => edge.id === baseId || edge.id.startsWith(`${baseId}_`)).length;
+    const edge: CustomEdge = {
+      id: duplicates > 0 ? `${baseId}_${duplicates + 1}` : baseId,
+      source: producer.nodeId,
+      target,
+      animated: true,
+      style: defaultEdgeOptions.style,
+      type: defaultEdgeOptions.type
+    };
+    if (producer.handle) edge.sourceHandle = producer.handle;
+    if (targetHandle) edge.targetHandle = targetHandle;
+    this.edges.push(edge);
+  }
+
+  private addNode(type: NodeType, label: string, config: NodeConfig, description?: string): string {
+    const count = (this.nodeCounts.get(type) || 0) + 1;
+    this.nodeCounts.set(type, count);
+    const id = `pine_${type.replace(/-/g, '_')}_${count}`;
+
+    this.nodes.push({
+      id,
+      type,
+      position: { x: 0, y: 0 },
+      data: { id, label, type, description, config, category: 'Imported' }
+    });
+    return id;
+  }
+
+  // Top-to-bottom layers from the data source down to actions and risk
+  private layout(): CustomNode[] {
+    const result = new LayoutOptimizer().optimizeHierarchical(this.nodes.map(node => ({
+      id: node.id,
+      position: node.position,
+      dimensions: DEFAULT_NODE_DIMENSIONS,
+      type: node.type,
+      connections: this.edges.filter(edge => edge.source === node.id).map(edge => edge.target),
+      priority: 1
+    })));
+
+    return this.nodes.map(node => ({ ...node, position: result.nodes.get(node.id) || node.position }));
+  }
+
+  private text(node: PineNode): string {
+    return this.source.slice(node.range.start.offset, node.range.end.offset);
+  }
+
+  private lineOf(offset: number): number {
+    return this.source.slice(0, offset).split('\n').length;
+  }
+}
+
+/**
+ * Builder nodes and edges for a Pine Script strategy. Scripts with syntax
+ * errors are rejected; everything else imports, with code no node can
+ * express kept in raw Pine nodes.
+ */
+export function importPineScript(source: string): PineImportResult {
+  return new PineImporter(source).import();
+}
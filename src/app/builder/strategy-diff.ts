@@ -0,0 +1,351 @@
+/**
+ * Strategy Diff - What changed between two versions of a strategy
+ *
+ * Compares two saved graphs by meaning rather than by layout: nodes are
+ * matched by id, their labels and config are flattened into parameters and
+ * compared value by value, and edges are matched by the handles they join,
+ * so moving a node on the canvas is not a change. An input that is now fed
+ * from a different output counts as rewired rather than one removed and one
+ * added edge. The generated Pine Script is compared line by line.
+ */
+
+// The parts of a node a diff reads; builder nodes keep label and config under
+// data, nodes saved from the canvas keep them at the top level
+export interface DiffableNode {
+  id: string;
+  type: string;
+  label?: string;
+  config?: Record<string, unknown>;
+  data?: {
+    label?: string;
+    config?: Record<string, unknown>;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export interface DiffableEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+export interface DiffNodeSummary {
+  id: string;
+  type: string;
+  label: string;
+}
+
+export interface ParameterChange {
+  key: string; // Dotted path into the config, or 'label' / 'type'
+  from: unknown; // undefined when the parameter was added
+  to: unknown; // undefined when the parameter was removed
+}
+
+export interface NodeChange extends DiffNodeSummary {
+  changes: ParameterChange[];
+}
+
+export interface EdgeEndpoints {
+  source: string;
+  sourceHandle: string | null;
+  target: string;
+  targetHandle: string | null;
+}
+
+export interface EdgeRewire {
+  target: string;
+  targetHandle: string | null;
+  from: EdgeEndpoints;
+  to: EdgeEndpoints;
+}
+
+export interface StrategyGraphDiff {
+  nodes: {
+    added: DiffNodeSummary[];
+    removed: DiffNodeSummary[];
+    changed: NodeChange[];
+  };
+  edges: {
+    added: EdgeEndpoints[];
+    removed: EdgeEndpoints[];
+    rewired: EdgeRewire[];
+  };
+}
+
+export type LineDiffKind = 'context' | 'added' | 'removed';
+
+export interface LineDiffEntry {
+  kind: LineDiffKind;
+  text: string;
+  oldLine: number | null; // 1-based; null for added lines
+  newLine: number | null; // 1-based; null for removed lines
+}
+
+export interface LineDiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: LineDiffEntry[];
+}
+
+export interface LineDiff {
+  added: number;
+  removed: number;
+  hunks: LineDiffHunk[];
+}
+
+export type NodeDiffStatus = 'added' | 'removed' | 'changed' | 'rewired';
+
+const DEFAULT_CONTEXT_LINES = 3;
+// Past this many table cells (16 MB of Uint32) the changed block is shown as replaced whole
+const MAX_LINE_DIFF_CELLS = 4_000_000;
+
+function summarize(node: DiffableNode): DiffNodeSummary {
+  return { id: node.id, type: node.type, label: node.data?.label ?? node.label ?? node.id };
+}
+
+// Config values keyed by dotted path; arrays are compared whole
+function flattenConfig(value: Record<string, unknown>, prefix = '', into: Record<string, unknown> = {}): Record<string, unknown> {
+  Object.entries(value).forEach(([key, entry]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (entry !== null && typeof entry === 'object' && !Array.isArray(entry)) {
+      flattenConfig(entry as Record<string, unknown>, path, into);
+    } else if (entry !== undefined) {
+      into[path] = entry;
+    }
+  });
+  return into;
+}
+
+function nodeParameters(node: DiffableNode): Record<string, unknown> {
+  return flattenConfig({ ...node.data?.parameters, ...(node.data?.config ?? node.config) });
+}
+
+function compareNodes(before: DiffableNode, after: DiffableNode): ParameterChange[] {
+  const changes: ParameterChange[] = [];
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+  if (before.type !== after.type) changes.push({ key: 'type', from: before.type, to: after.type });
+  const [beforeLabel, afterLabel] = [summarize(before).label, summarize(after).label];
+  if (beforeLabel !== afterLabel) changes.push({ key: 'label', from: beforeLabel, to: afterLabel });
+
+  const [from, to] = [nodeParameters(before), nodeParameters(after)];
+  Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort().forEach(key => {
+    if (!same(from[key], to[key])) changes.push({ key, from: from[key], to: to[key] });
+  });
+  return changes;
+}
+
+function endpoints(edge: DiffableEdge): EdgeEndpoints {
+  return {
+    source: edge.source,
+    sourceHandle: edge.sourceHandle ?? null,
+    target: edge.target,
+    targetHandle: edge.targetHandle ?? null
+  };
+}
+
+const edgeKey = (edge: EdgeEndpoints) => `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}:${edge.targetHandle ?? ''}`;
+const inputKey = (edge: EdgeEndpoints) => `${edge.target}:${edge.targetHandle ?? ''}`;
+
+/**
+ * Structural diff of two strategy graphs: nodes added, removed and changed
+ * (with every parameter that differs) and edges added, removed and rewired.
+ */
+export function diffStrategyGraphs(
+  before: { nodes: DiffableNode[]; edges: DiffableEdge[] },
+  after: { nodes: DiffableNode[]; edges: DiffableEdge[] }
+): StrategyGraphDiff {
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map(node => [node.id, node]));
+
+  const changed = after.nodes
+    .filter(node => beforeNodes.has(node.id))
+    .map(node => ({ ...summarize(node), changes: compareNodes(beforeNodes.get(node.id)!, node) }))
+    .filter(node => node.changes.length > 0);
+
+  const beforeEdges = new Map(before.edges.map(edge => endpoints(edge)).map(edge => [edgeKey(edge), edge]));
+  const afterEdges = new Map(after.edges.map(edge => endpoints(edge)).map(edge => [edgeKey(edge), edge]));
+  let removedEdges = Array.from(beforeEdges.values()).filter(edge => !afterEdges.has(edgeKey(edge)));
+  let addedEdges = Array.from(afterEdges.values()).filter(edge => !beforeEdges.has(edgeKey(edge)));
+
+  // An input fed by one edge before and another after was rewired
+  const rewired: EdgeRewire[] = [];
+  removedEdges.forEach(removed => {
+    const replacement = addedEdges.find(added => inputKey(added) === inputKey(removed) &&
+      !rewired.some(rewire => rewire.to === added));
+    if (replacement) {
+      rewired.push({ target: removed.target, targetHandle: removed.targetHandle, from: removed, to: replacement });
+    }
+  });
+  removedEdges = removedEdges.filter(edge => !rewired.some(rewire => rewire.from === edge));
+  addedEdges = addedEdges.filter(edge => !rewired.some(rewire => rewire.to === edge));
+
+  return {
+    nodes: {
+      added: after.nodes.filter(node => !beforeNodes.has(node.id)).map(summarize),
+      removed: before.nodes.filter(node => !afterNodes.has(node.id)).map(summarize),
+      changed
+    },
+    edges: { added: addedEdges, removed: removedEdges, rewired }
+  };
+}
+
+/**
+ * Number of distinct edits in a diff: each node added or removed, each
+ * parameter changed and each connection added, removed or rewired.
+ */
+export function countGraphChanges(diff: StrategyGraphDiff): number {
+  return diff.nodes.added.length + diff.nodes.removed.length +
+    diff.nodes.changed.reduce((count, node) => count + node.changes.length, 0) +
+    diff.edges.added.length + diff.edges.removed.length + diff.edges.rewired.length;
+}
+
+const MAX_CHANGELOG_ENTRIES = 6;
+
+const describeValue = (value: unknown) => typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+  ? String(value)
+  : JSON.stringify(value);
+
+/**
+ * Human-readable changelog for a diff, e.g. "RSI length 14→21; added ATR
+ * Trailing Stop". Nodes are named by label, looked up in the nodes of both
+ * versions for connection changes. Empty when nothing changed.
+ */
+export function describeGraphDiff(diff: StrategyGraphDiff, nodes: DiffableNode[] = []): string {
+  const labels = new Map(nodes.map(node => [node.id, summarize(node).label]));
+  const name = (id: string) => labels.get(id) ?? id;
+  const entries: string[] = [];
+
+  diff.nodes.changed.forEach(node => {
+    node.changes.forEach(change => {
+      const key = change.key.split('.').pop();
+      if (change.key === 'label') entries.push(`renamed ${change.from} to ${change.to}`);
+      else if (change.from === undefined) entries.push(`${node.label} ${key} set to ${describeValue(change.to)}`);
+      else if (change.to === undefined) entries.push(`${node.label} ${key} removed`);
+      else entries.push(`${node.label} ${key} ${describeValue(change.from)}→${describeValue(change.to)}`);
+    });
+  });
+  diff.nodes.added.forEach(node => entries.push(`added ${node.label}`));
+  diff.nodes.removed.forEach(node => entries.push(`removed ${node.label}`));
+  diff.edges.rewired.forEach(rewire => entries.push(`${name(rewire.target)} now fed by ${name(rewire.to.source)} instead of ${name(rewire.from.source)}`));
+  // Connections to added or removed nodes are implied by the node entry
+  const added = new Set(diff.nodes.added.map(node => node.id));
+  const removed = new Set(diff.nodes.removed.map(node => node.id));
+  diff.edges.added
+    .filter(edge => !added.has(edge.source) && !added.has(edge.target))
+    .forEach(edge => entries.push(`connected ${name(edge.source)} to ${name(edge.target)}`));
+  diff.edges.removed
+    .filter(edge => !removed.has(edge.source) && !removed.has(edge.target))
+    .forEach(edge => entries.push(`disconnected ${name(edge.source)} from ${name(edge.target)}`));
+
+  if (entries.length > MAX_CHANGELOG_ENTRIES) {
+    const more = entries.length - MAX_CHANGELOG_ENTRIES + 1;
+    return [...entries.slice(0, MAX_CHANGELOG_ENTRIES - 1), `${more} more changes`].join('; ');
+  }
+  return entries.join('; ');
+}
+
+/**
+ * How each node figures in a diff, for highlighting on the canvas. Nodes
+ * whose parameters changed win over nodes that only had an input rewired.
+ */
+export function getNodeDiffStatuses(diff: StrategyGraphDiff): Record<string, NodeDiffStatus> {
+  const statuses: Record<string, NodeDiffStatus> = {};
+  diff.edges.rewired.forEach(rewire => {
+    statuses[rewire.target] = 'rewired';
+  });
+  diff.nodes.changed.forEach(node => {
+    statuses[node.id] = 'changed';
+  });
+  diff.nodes.added.forEach(node => {
+    statuses[node.id] = 'added';
+  });
+  diff.nodes.removed.forEach(node => {
+    statuses[node.id] = 'removed';
+  });
+  return statuses;
+}
+
+/**
+ * Line diff from the longest common subsequence of the two texts, grouped
+ * into hunks with a few unchanged lines of context around each change.
+ * When the changed block between the shared ends is too large to match line
+ * by line, it is reported as removed and re-added in one piece.
+ */
+export function diffLines(before: string, after: string, contextLines = DEFAULT_CONTEXT_LINES): LineDiff {
+  const a = before === '' ? [] : before.replace(/\r\n?/g, '\n').split('\n');
+  const b = after === '' ? [] : after.replace(/\r\n?/g, '\n').split('\n');
+
+  // Lines shared at both ends never need the quadratic table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const entries: LineDiffEntry[] = [];
+  const context = (i: number, j: number) => entries.push({ kind: 'context', text: a[i], oldLine: i + 1, newLine: j + 1 });
+  for (let k = 0; k < prefix; k++) context(k, k);
+
+  if ((n + 1) * (m + 1) > MAX_LINE_DIFF_CELLS) {
+    for (let i = 0; i < n; i++) entries.push({ kind: 'removed', text: a[prefix + i], oldLine: prefix + i + 1, newLine: null });
+    for (let j = 0; j < m; j++) entries.push({ kind: 'added', text: b[prefix + j], oldLine: null, newLine: prefix + j + 1 });
+  } else {
+    // lengths[i * (m + 1) + j]: LCS of a[prefix + i..] and b[prefix + j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = a[prefix + i] === b[prefix + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[prefix + i] === b[prefix + j]) {
+        context(prefix + i++, prefix + j++);
+      } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+        entries.push({ kind: 'removed', text: a[prefix + i], oldLine: prefix + ++i, newLine: null });
+      } else {
+        entries.push({ kind: 'added', text: b[prefix + j], oldLine: null, newLine: prefix + ++j });
+      }
+    }
+  }
+  for (let k = 0; k < suffix; k++) context(prefix + n + k, prefix + m + k);
+
+  // Keep changed lines and the context around them; nearby changes share a hunk
+  const keep = entries.map(() => false);
+  entries.forEach((entry, index) => {
+    if (entry.kind === 'context') return;
+    for (let k = Math.max(0, index - contextLines); k <= Math.min(entries.length - 1, index + contextLines); k++) keep[k] = true;
+  });
+
+  const hunks: LineDiffHunk[] = [];
+  let current: LineDiffHunk | null = null;
+  entries.forEach((entry, index) => {
+    if (!keep[index]) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      // A hunk that opens with an insertion starts where the line is inserted
+      const oldStart = entry.oldLine ?? entries.slice(0, index).reduce((count, previous) => count + (previous.oldLine ? 1 : 0), 0) + 1;
+      const newStart = entry.newLine ?? entries.slice(0, index).reduce((count, previous) => count + (previous.newLine ? 1 : 0), 0) + 1;
+      current = { oldStart, newStart, lines: [] };
+      hunks.push(current);
+    }
+    current.lines.push(entry);
+  });
+
+  return {
+    added: entries.filter(entry => entry.kind === 'added').length,
+    removed: entries.filter(entry => entry.kind === 'removed').length,
+    hunks
+  };
+}
@@ -15,6 +15,7 @@ import { useTheme } from './ThemeProvider';
 import { useSubscription } from '@/hooks/useSubscription';
 import { FeatureAccessGate } from '@/components/subscription';
 import { N8nNodeData } from './N8nNode';
+import { CHAT_STREAM_CONTENT_TYPE, readChatStream } from '@/lib/llm/chat-events';
 
 interface AIModel {
   id: string;
@@ -47,6 +48,19 @@ interface ChatMessage {
   suggestions?: string[];
 }
 
+// The "message" field of the JSON answer so far, to show while the rest streams
+const PARTIAL_MESSAGE_PATTERN = /"message"\s*:\s*"((?:[^"\\]|\\.)*)/;
+
+function readPartialMessage(json: string): string | null {
+  const match = json.match(PARTIAL_MESSAGE_PATTERN);
+  if (!match) return null;
+  try {
+    return JSON.parse(`"${match[1].replace(/\\$/, '')}"`);
+  } catch {
+    return null;
+  }
+}
+
 const AIAssistant: React.FC<AIAssistantProps> = ({
   isOpen,
   onClose,
@@ -69,6 +83,7 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
   const [selectedModel, setSelectedModel] = useState('gpt-4');
   const [showModelSelector, setShowModelSelector] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -92,6 +107,14 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
     }
   }, [showModelSelector]);
 
+  // Closing the assistant cancels the answer being streamed, and the model request behind it
+  useEffect(() => {
+    if (!isOpen) {
+      requestRef.current?.abort();
+    }
+    return () => requestRef.current?.abort();
+  }, [isOpen]);
+
   // Load available AI models
   useEffect(() => {
     const loadModels = async () => {
@@ -176,12 +199,17 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
         content: userMessage.content
       });
 
-      // Call the enhanced AI API
+      const controller = new AbortController();
+      requestRef.current = controller;
+
+      // Call the enhanced AI API, streaming the answer as it is generated
       const response = await fetch('/api/builder/ai-assistant', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: CHAT_STREAM_CONTENT_TYPE
         },
+        signal: controller.signal,
         body: JSON.stringify({
           messages: conversationHistory,
           modelId: selectedModel,
@@ -193,7 +221,11 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
         })
       });
 
-      const data = await response.json();
+      const isStream = response.ok && response.body &&
+        response.headers.get('content-type')?.includes(CHAT_STREAM_CONTENT_TYPE);
+      const data = isStream
+        ? await readAssistantStream(response.body!, thinkingMessage.id)
+        : await response.json();
 
       // Remove thinking message
       setMessages(prev => prev.filter(msg => msg.id !== thinkingMessage.id));
@@ -213,6 +245,21 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
         return;
       }
 
+      // Handle an exhausted token balance
+      if (response.status === 402) {
+        const topUpMessage: ChatMessage = {
+          id: (Date.now() + 5).toString(),
+          type: 'ai',
+          content: `You're out of AI tokens (${data.remaining} left). Buy extra credits at ${data.topUpUrl} to keep building with AI.`,
+          timestamp: new Date(),
+          model: selectedModel,
+          suggestions: ['Buy extra credits', 'Upgrade your plan for a larger monthly allowance']
+        };
+
+        setMessages(prev => [...prev, topUpMessage]);
+        return;
+      }
+
       if (data.success && data.response) {
         const aiResponse = data.response;
         
@@ -257,6 +304,7 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
       // Remove thinking message and add error message
       setMessages(prev => prev.filter(msg => msg.id !== thinkingMessage.id));
 
+      if (requestRef.current?.signal.aborted) return;
       console.error('AI Assistant Error:', error);
 
       const errorMessage: ChatMessage = {
@@ -269,10 +317,36 @@ const AIAssistant: React.FC<AIAssistantProps> = ({
 
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      requestRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  // Show the reply in the thinking message as it streams, and return the parsed answer
+  const readAssistantStream = async (body: ReadableStream<Uint8Array>, thinkingMessageId: string) => {
+    let content = '';
+    let model = selectedModel;
+    let result: { response?: unknown } | null = null;
+
+    for await (const event of readChatStream(body)) {
+      if (event.type === 'delta') {
+        content += event.text;
+        const partial = readPartialMessage(content);
+        if (partial) {
+          setMessages(prev => prev.map(msg => msg.id === thinkingMessageId ? { ...msg, content: partial } : msg));
+        }
+      } else if (event.type === 'usage') {
+        model = event.model;
+      } else if (event.type === 'result') {
+        result = event.data as { response?: unknown };
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      }
+    }
+
+    return { success: Boolean(result?.response), response: result?.response, model };
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -2,7 +2,7 @@
 import { ThemeProvider, useTheme } from './ThemeProvider';
 import Sidebar from './Sidebar';
 import Toolbar from './Toolbar';
-import N8nNode, { N8nNodeData } from './N8nNode';
+import N8nNode, { N8nNodeData, getNodeHandles } from './N8nNode';
 import ConnectionLine from './ConnectionLine';
 import ValidationStatus from './ValidationStatus';
 import UserManual from './UserManual';
@@ -11,6 +11,7 @@ import SaveStrategyModal from './SaveStrategyModal';
 
 import ConnectionInstructions from './ConnectionInstructions';
 import AIAssistant from './AIAssistant';
+import VersionCompareOverlay from './VersionCompareOverlay';
 import { getHandleScreenPosition, screenToCanvas, DEFAULT_NODE_DIMENSIONS } from '../utils/coordinate-system';
 import {
   ConnectionNode,
@@ -28,6 +29,9 @@ import {
   getMouseEventManager,
   resetMouseEventManager
 } from '../utils/mouse-event-manager';
+import { getIndicatorById } from '../data/indicator-defs';
+import { inferLegacyActionConfig } from '../canvas-config';
+import type { NodeDiffStatus } from '../strategy-diff';
 
 const initialNodes: N8nNodeData[] = [];
 
@@ -52,6 +56,10 @@ const Canvas: React.FC = () => {
   const [scriptWarnings, setScriptWarnings] = useState<string[]>([]);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
   const [currentStrategyId, setCurrentStrategyId] = useState<string | null>(null);
+  // Saved strategy opened with ?strategy=<id>, whose versions can be compared
+  const [versionedStrategyId, setVersionedStrategyId] = useState<string | null>(null);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [diffStatuses, setDiffStatuses] = useState<Record<string, NodeDiffStatus> | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
 
   // Enhanced connection management
@@ -141,6 +149,11 @@ const Canvas: React.FC = () => {
     return unsubscribe;
   }, [simpleConnectionHandler]);
 
+  // Pick up the saved strategy the builder was opened for, if any
+  useEffect(() => {
+    setVersionedStrategyId(new URLSearchParams(window.location.search).get('strategy'));
+  }, []);
+
   // Also keep the original connection manager for compatibility
   useEffect(() => {
     const unsubscribe = connectionManager.subscribe((state) => {
@@ -171,7 +184,7 @@ const Canvas: React.FC = () => {
   }, [nodes, connectionManager]);
 
   // Node operations
-  const onNodeAdd = (nodeTemplate: { type: string; label: string; description: string }) => {
+  const onNodeAdd = (nodeTemplate: { type: string; label: string; description: string; indicatorId?: string }) => {
     // Create proper configuration based on node type
     let nodeConfig = {};
 
@@ -193,7 +206,11 @@ const Canvas: React.FC = () => {
           'Bollinger Bands': { indicatorId: 'bb', parameters: { length: 20, stddev: 2, source: 'close' } },
           'Stochastic': { indicatorId: 'stoch', parameters: { length: 14, source: 'close' } }
         };
-        nodeConfig = indicatorMap[nodeTemplate.label] || { indicatorId: 'sma', parameters: { length: 20, source: 'close' } };
+        // Sidebar indicators carry their definition id; start from its defaults
+        const definition = nodeTemplate.indicatorId ? getIndicatorById(nodeTemplate.indicatorId) : undefined;
+        nodeConfig = definition
+          ? { indicatorId: definition.id, parameters: { ...definition.defaultParams } }
+          : indicatorMap[nodeTemplate.label] || { indicatorId: 'sma', parameters: { length: 20, source: 'close' } };
         break;
       case 'condition':
         nodeConfig = {
@@ -201,19 +218,49 @@ const Canvas: React.FC = () => {
           threshold: 50
         };
         break;
+      case 'logic':
+        // Sidebar logic entries are told apart by label
+        const logicMap: Record<string, Record<string, string | number>> = {
+          'AND': { logicOperator: 'and' },
+          'OR': { logicOperator: 'or' },
+          'NOT': { logicOperator: 'not' },
+          'N of M': { logicOperator: 'n_of_m', requiredCount: 2 },
+          'Consecutive Bars': { logicOperator: 'consecutive', bars: 3 },
+          'Within Bars': { logicOperator: 'within', bars: 5 }
+        };
+        nodeConfig = logicMap[nodeTemplate.label] || { logicOperator: 'and' };
+        break;
       case 'action':
-        nodeConfig = {
-          orderType: 'market',
-          quantity: '25%'
+        // Sidebar actions are told apart by label; the kind is stored so renames keep it
+        const actionMap: Record<string, Record<string, string>> = {
+          'Buy Order': { actionKind: 'entry', direction: 'long', orderType: 'market', quantity: '25%' },
+          'Sell Short': { actionKind: 'entry', direction: 'short', orderType: 'market', quantity: '25%' },
+          'Sell Order': { actionKind: 'exit', direction: 'long', orderType: 'market' },
+          'Close Position': { actionKind: 'exit', orderType: 'market' }
         };
+        nodeConfig = actionMap[nodeTemplate.label] || { orderType: 'market', quantity: '25%' };
         break;
       case 'risk':
-        nodeConfig = {
+        // Sidebar risk entries are told apart by label
+        const riskMap: Record<string, Record<string, string | number>> = {
+          'Stop Loss': { stopLoss: 2, maxRisk: 1 },
+          'Take Profit': { takeProfit: 5, maxRisk: 1 },
+          'ATR Stop': { riskUnit: 'atr', atrPeriod: 14, stopLoss: 2, takeProfit: 4 },
+          'Trailing Stop': { trailingStop: 1.5 }
+        };
+        nodeConfig = riskMap[nodeTemplate.label] || {
           stopLoss: 2,
           takeProfit: 5,
           maxRisk: 1
         };
         break;
+      case 'timing':
+        const timingMap: Record<string, Record<string, string | string[]>> = {
+          'Weekdays': { daysOfWeek: ['mon', 'tue', 'wed', 'thu', 'fri'], timezone: 'UTC' },
+          'Date Range': { startDate: '2024-01-01', endDate: '2024-12-31', timezone: 'UTC' }
+        };
+        nodeConfig = timingMap[nodeTemplate.label] || { startTime: '09:00', endTime: '16:00', timezone: 'UTC' };
+        break;
       default:
         nodeConfig = {};
     }
@@ -293,20 +340,25 @@ const Canvas: React.FC = () => {
   const onNodeSelect = (nodeId: string) => setSelectedNode(nodeId);
 
   // Simplified connection operations using simple connection handler
-  const onConnectionStart = (nodeId: string, type: 'input' | 'output', position: { x: number; y: number }) => {
+  const onConnectionStart = (
+    nodeId: string,
+    type: 'input' | 'output',
+    position: { x: number; y: number },
+    handleId?: string
+  ) => {
     try {
-      simpleConnectionHandler.startConnection(nodeId, type, position);
+      simpleConnectionHandler.startConnection(nodeId, type, position, handleId);
     } catch (error) {
       console.error('Error starting connection:', error);
     }
   };
 
-  const onConnectionEnd = (nodeId: string, type: 'input' | 'output') => {
+  const onConnectionEnd = (nodeId: string, type: 'input' | 'output', handleId?: string) => {
     try {
       const connectionState = simpleConnectionHandler.getState();
 
       if (connectionState.isConnecting) {
-        simpleConnectionHandler.completeConnection(nodeId, type);
+        simpleConnectionHandler.completeConnection(nodeId, type, handleId);
       }
     } catch (error) {
       console.error('Error ending connection:', error);
@@ -391,7 +443,7 @@ const Canvas: React.FC = () => {
             nodeConfig = { operator: 'greater_than', threshold: 50 };
             break;
           case 'action':
-            nodeConfig = { orderType: 'market', quantity: '25%' };
+            nodeConfig = { orderType: 'market', quantity: '25%', ...inferLegacyActionConfig(template.label) };
             break;
           case 'risk':
             nodeConfig = { stopLoss: 2, takeProfit: 5, maxRisk: 1 };
@@ -426,7 +478,7 @@ const Canvas: React.FC = () => {
             nodeConfig = { operator: 'greater_than', threshold: 50 };
             break;
           case 'action':
-            nodeConfig = { orderType: 'market', quantity: '25%' };
+            nodeConfig = { orderType: 'market', quantity: '25%', ...inferLegacyActionConfig(template.label) };
             break;
           case 'risk':
             nodeConfig = { stopLoss: 2, takeProfit: 5, maxRisk: 1 };
@@ -470,11 +522,11 @@ const Canvas: React.FC = () => {
 
         return {
           id: node.id,
-          type: nodeType as 'data-source' | 'indicator' | 'condition' | 'action' | 'risk',
+          type: nodeType as 'data-source' | 'indicator' | 'condition' | 'logic' | 'action' | 'risk',
           data: {
             id: node.id,
             label: node.label,
-            type: nodeType as 'data-source' | 'indicator' | 'condition' | 'action' | 'risk',
+            type: nodeType as 'data-source' | 'indicator' | 'condition' | 'logic' | 'action' | 'risk',
             description: node.description,
             config: node.config || node.props || {},
             category: 'Generated'
@@ -487,6 +539,8 @@ const Canvas: React.FC = () => {
         id: conn.id,
         source: conn.source,
         target: conn.target,
+        sourceHandle: conn.sourceHandle,
+        targetHandle: conn.targetHandle,
         animated: true,
         style: { stroke: '#60a5fa', strokeWidth: 2 },
         type: 'smoothstep' as const
@@ -632,6 +686,7 @@ const Canvas: React.FC = () => {
           backgroundType={backgroundType}
           setBackgroundType={setBackgroundType}
           openUserManual={() => setIsManualOpen(true)}
+          compareVersions={versionedStrategyId ? () => setIsCompareOpen(true) : undefined}
           openAIAssistant={() => {
             console.log('🤖 PineGenie AI button clicked!');
             console.log('🤖 Current isAIAssistantOpen:', isAIAssistantOpen);
@@ -712,17 +767,27 @@ const Canvas: React.FC = () => {
 
                 // Use coordinate system utilities for accurate handle positions
                 const canvasState = { zoom, offset: canvasOffset };
+                const sourceHandles = getNodeHandles(sourceNode, 'output');
+                const targetHandles = getNodeHandles(targetNode, 'input');
                 const start = getHandleScreenPosition(
                   sourceNode.position,
                   'output',
                   canvasState,
-                  DEFAULT_NODE_DIMENSIONS
+                  DEFAULT_NODE_DIMENSIONS,
+                  {
+                    index: Math.max(0, sourceHandles.findIndex(handle => handle.id === conn.sourceHandle)),
+                    count: sourceHandles.length
+                  }
                 );
                 const end = getHandleScreenPosition(
                   targetNode.position,
                   'input',
                   canvasState,
-                  DEFAULT_NODE_DIMENSIONS
+                  DEFAULT_NODE_DIMENSIONS,
+                  {
+                    index: Math.max(0, targetHandles.findIndex(handle => handle.id === conn.targetHandle)),
+                    count: targetHandles.length
+                  }
                 );
 
                 return (
@@ -770,6 +835,7 @@ const Canvas: React.FC = () => {
                 onConnectionStart={onConnectionStart}
                 onConnectionEnd={onConnectionEnd}
                 isSelected={selectedNode === node.id}
+                diffStatus={diffStatuses?.[node.id]}
                 zoom={zoom}
                 canvasOffset={canvasOffset}
                 mouseEventManager={mouseEventManager}
@@ -931,6 +997,16 @@ const Canvas: React.FC = () => {
         }}
       />
 
+      {/* Version comparison, highlighting changed nodes on the canvas */}
+      {versionedStrategyId && (
+        <VersionCompareOverlay
+          isOpen={isCompareOpen}
+          onClose={() => setIsCompareOpen(false)}
+          strategyId={versionedStrategyId}
+          onStatusesChange={setDiffStatuses}
+        />
+      )}
+
       {/* User Manual Modal */}
       <UserManual
         isOpen={isManualOpen}
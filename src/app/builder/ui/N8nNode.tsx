@@ -1,7 +1,9 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Settings, X } from 'lucide-react';
 import { useTheme } from './ThemeProvider';
-import { getHandleScreenPosition, DEFAULT_NODE_DIMENSIONS } from '../utils/coordinate-system';
+import { getHandleScreenPosition, getHandleSlotFraction, DEFAULT_NODE_DIMENSIONS } from '../utils/coordinate-system';
+import { getIndicatorOutputHandles } from '../data/indicator-registry';
+import type { NodeDiffStatus } from '../strategy-diff';
 
 export interface N8nNodeData {
   id: string;
@@ -19,16 +21,25 @@ interface N8nNodeProps {
   onNodeMove: (nodeId: string, newPosition: { x: number; y: number }) => void;
   onNodeDelete: (nodeId: string) => void;
   onNodeSelect: (nodeId: string) => void;
-  onConnectionStart: (nodeId: string, type: 'input' | 'output', position: { x: number; y: number }) => void;
-  onConnectionEnd: (nodeId: string, type: 'input' | 'output') => void;
+  onConnectionStart: (nodeId: string, type: 'input' | 'output', position: { x: number; y: number }, handleId?: string) => void;
+  onConnectionEnd: (nodeId: string, type: 'input' | 'output', handleId?: string) => void;
   onNodeUpdate: (nodeId: string, updatedNode: N8nNodeData) => void;
   zoom: number;
   canvasOffset: { x: number; y: number };
   isValidConnectionTarget?: boolean;
   isConnectionActive?: boolean;
+  diffStatus?: NodeDiffStatus; // Set while a version comparison is shown
   mouseEventManager?: any; // Will be passed from Canvas
 }
 
+// Ring and badge colors for nodes highlighted by a version comparison
+export const DIFF_STATUS_STYLES: Record<NodeDiffStatus, { ring: string; badge: string; label: string }> = {
+  added: { ring: 'ring-4 ring-emerald-400', badge: 'bg-emerald-500', label: 'Added' },
+  removed: { ring: 'ring-4 ring-red-400', badge: 'bg-red-500', label: 'Removed' },
+  changed: { ring: 'ring-4 ring-amber-400', badge: 'bg-amber-500', label: 'Changed' },
+  rewired: { ring: 'ring-4 ring-sky-400', badge: 'bg-sky-500', label: 'Rewired' }
+};
+
 const NODE_TYPES = {
   data: {
     color: 'purple',
@@ -57,9 +68,52 @@ const NODE_TYPES = {
   timing: {
     color: 'indigo',
     defaultProps: { startTime: '09:00', endTime: '16:00' }
+  },
+  logic: {
+    color: 'indigo',
+    defaultProps: { logicOperator: 'and' }
+  },
+  'raw-pine': {
+    color: 'indigo',
+    defaultProps: {}
   }
 };
 
+interface NodeHandle {
+  id?: string; // Undefined for the node's single generic handle on that side
+  label?: string;
+}
+
+// Condition inputs pin the left and right side of the comparison
+const CONDITION_INPUT_HANDLES: NodeHandle[] = [
+  { id: 'left', label: 'A' },
+  { id: 'right', label: 'B' }
+];
+
+/**
+ * Handles on one side of a node. Tuple indicators expose one output per
+ * component, conditions two inputs and raw Pine one handle per variable it
+ * reads or declares; everything else has a single handle.
+ */
+export function getNodeHandles(node: Pick<N8nNodeData, 'type' | 'config'>, type: 'input' | 'output'): NodeHandle[] {
+  if (node.type === 'raw-pine') {
+    const names: string[] = (type === 'input' ? node.config?.pineInputs : node.config?.pineOutputs) || [];
+    if (names.length > 0) {
+      return names.map(name => ({ id: name, label: name }));
+    }
+  }
+  if (type === 'input' && node.type === 'condition') {
+    return CONDITION_INPUT_HANDLES;
+  }
+  if (type === 'output' && node.type === 'indicator') {
+    const outputs = getIndicatorOutputHandles(node.config?.indicatorId);
+    if (outputs.length > 0) {
+      return outputs.map(output => ({ id: output, label: output }));
+    }
+  }
+  return [{}];
+}
+
 const N8nNode: React.FC<N8nNodeProps> = ({
   node,
   isSelected,
@@ -73,13 +127,13 @@ const N8nNode: React.FC<N8nNodeProps> = ({
   canvasOffset,
   isValidConnectionTarget = false,
   isConnectionActive = false,
+  diffStatus,
   mouseEventManager
 }) => {
   const { colors } = useTheme();
   const [isExpanded, setIsExpanded] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
-  const [inputHandleHovered, setInputHandleHovered] = useState(false);
-  const [outputHandleHovered, setOutputHandleHovered] = useState(false);
+  const [hoveredHandle, setHoveredHandle] = useState<string | null>(null);
   const nodeRef = useRef<HTMLDivElement>(null);
 
   // Get interaction state from mouse event manager
@@ -113,50 +167,46 @@ const N8nNode: React.FC<N8nNodeProps> = ({
   };
 
   // Simplified connection handle event handlers
-  const handleConnectionStart = (e: React.MouseEvent, type: 'input' | 'output') => {
+  const inputHandles = getNodeHandles(node, 'input');
+  const outputHandles = getNodeHandles(node, 'output');
+
+  const handleConnectionStart = (e: React.MouseEvent, type: 'input' | 'output', index: number) => {
     e.stopPropagation();
     e.preventDefault();
     
     // Calculate handle position in screen coordinates
+    const handles = type === 'input' ? inputHandles : outputHandles;
     const canvasState = { zoom, offset: canvasOffset };
     const handlePosition = getHandleScreenPosition(
       node.position,
       type,
       canvasState,
-      DEFAULT_NODE_DIMENSIONS
+      DEFAULT_NODE_DIMENSIONS,
+      { index, count: handles.length }
     );
     
     // Start connection directly
-    onConnectionStart(node.id, type, handlePosition);
+    onConnectionStart(node.id, type, handlePosition, handles[index].id);
   };
 
-  const handleConnectionEnd = (e: React.MouseEvent, type: 'input' | 'output') => {
+  const handleConnectionEnd = (e: React.MouseEvent, type: 'input' | 'output', index: number) => {
     e.stopPropagation();
     e.preventDefault();
     
     // End connection directly
-    onConnectionEnd(node.id, type);
+    const handles = type === 'input' ? inputHandles : outputHandles;
+    onConnectionEnd(node.id, type, handles[index].id);
   };
 
   // Handle mouse enter/leave for connection handles
-  const handleInputHandleMouseEnter = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    setInputHandleHovered(true);
-  };
-
-  const handleInputHandleMouseLeave = (e: React.MouseEvent) => {
+  const handleHandleMouseEnter = (e: React.MouseEvent, key: string) => {
     e.stopPropagation();
-    setInputHandleHovered(false);
+    setHoveredHandle(key);
   };
 
-  const handleOutputHandleMouseEnter = (e: React.MouseEvent) => {
+  const handleHandleMouseLeave = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setOutputHandleHovered(true);
-  };
-
-  const handleOutputHandleMouseLeave = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    setOutputHandleHovered(false);
+    setHoveredHandle(null);
   };
 
   const handleParameterChange = (paramName: string, value: string | number | boolean) => {
@@ -193,6 +243,12 @@ const N8nNode: React.FC<N8nNodeProps> = ({
       {isSelected && (
         <div className={`absolute inset-0 bg-gradient-to-r ${accentColor} rounded-2xl blur-lg opacity-30 scale-110 animate-pulse`} />
       )}
+      {/* Version comparison badge */}
+      {diffStatus && (
+        <div className={`absolute -top-3 left-4 z-10 px-2 py-0.5 rounded-full text-[10px] font-semibold text-white shadow ${DIFF_STATUS_STYLES[diffStatus].badge}`}>
+          {DIFF_STATUS_STYLES[diffStatus].label}
+        </div>
+      )}
       {/* Main node container with connection feedback */}
       <div className={`relative ${colors.bg.glass} ${colors.border.primary} border shadow-2xl rounded-2xl min-w-[240px] overflow-hidden ${
         isSelected ? `ring-2 ${colors.border.accent} shadow-blue-500/20` : ''
@@ -200,6 +256,8 @@ const N8nNode: React.FC<N8nNodeProps> = ({
         isValidConnectionTarget ? 'ring-2 ring-green-400 shadow-green-400/30 animate-pulse' : ''
       } ${
         isConnectionActive ? 'ring-2 ring-blue-400 shadow-blue-400/30' : ''
+      } ${
+        diffStatus ? DIFF_STATUS_STYLES[diffStatus].ring : ''
       }`}>
         {/* Header */}
         <div className={`bg-gradient-to-r ${accentColor} p-4`}>
@@ -238,6 +296,11 @@ const N8nNode: React.FC<N8nNodeProps> = ({
             </div>
           )}
           {/* Parameters */}
+          {isExpanded && node.config?.pineCode && (
+            <pre className={`${colors.bg.tertiary} ${colors.text.primary} rounded-xl p-3 mb-3 text-[10px] font-mono overflow-x-auto whitespace-pre`}>
+              {node.config.pineCode}
+            </pre>
+          )}
           {isExpanded && (
             <div className={`${colors.bg.tertiary} rounded-xl p-3 text-xs backdrop-blur-sm`}>
               <div className="space-y-2">
@@ -261,47 +324,73 @@ const N8nNode: React.FC<N8nNodeProps> = ({
       </div>
       {/* N8N-style Connection Handles - Simple and Clean */}
       
-      {/* Input Handle - Left side (blue) */}
-      <div
-        className="connection-handle absolute w-8 h-8 cursor-crosshair z-50 flex items-center justify-center"
-        style={{
-          left: -16,
-          top: '50%',
-          transform: 'translateY(-50%)',
-        }}
-        onMouseDown={(e) => handleConnectionStart(e, 'input')}
-        onMouseUp={(e) => handleConnectionEnd(e, 'input')}
-        onMouseEnter={handleInputHandleMouseEnter}
-        onMouseLeave={handleInputHandleMouseLeave}
-        title="🔵 INPUT - Click to start connection FROM another node"
-      >
-        <div className={`w-5 h-5 rounded-full border-3 border-white transition-all duration-200 shadow-lg ${
-          inputHandleHovered || isValidConnectionTarget
-            ? 'bg-green-400 scale-150 shadow-green-400/70 animate-pulse' 
-            : 'bg-blue-500 hover:bg-blue-400 hover:scale-125'
-        }`} />
-      </div>
+      {/* Input Handles - Left side (blue) */}
+      {inputHandles.map((handle, index) => {
+        const key = `input:${handle.id || ''}`;
+        return (
+          <div
+            key={key}
+            className="connection-handle absolute w-8 h-8 cursor-crosshair z-50 flex items-center justify-center"
+            style={{
+              left: -16,
+              top: `${getHandleSlotFraction({ index, count: inputHandles.length }) * 100}%`,
+              transform: 'translateY(-50%)',
+            }}
+            onMouseDown={(e) => handleConnectionStart(e, 'input', index)}
+            onMouseUp={(e) => handleConnectionEnd(e, 'input', index)}
+            onMouseEnter={(e) => handleHandleMouseEnter(e, key)}
+            onMouseLeave={handleHandleMouseLeave}
+            title={handle.label
+              ? `🔵 INPUT ${handle.label} - Click to start connection FROM another node`
+              : '🔵 INPUT - Click to start connection FROM another node'}
+          >
+            <div className={`w-5 h-5 rounded-full border-3 border-white transition-all duration-200 shadow-lg ${
+              hoveredHandle === key || isValidConnectionTarget
+                ? 'bg-green-400 scale-150 shadow-green-400/70 animate-pulse' 
+                : 'bg-blue-500 hover:bg-blue-400 hover:scale-125'
+            }`} />
+            {handle.label && (
+              <span className={`absolute left-8 text-[10px] font-medium ${colors.text.secondary} pointer-events-none`}>
+                {handle.label}
+              </span>
+            )}
+          </div>
+        );
+      })}
 
-      {/* Output Handle - Right side (purple) */}
-      <div
-        className="connection-handle absolute w-8 h-8 cursor-crosshair z-50 flex items-center justify-center"
-        style={{
-          right: -16,
-          top: '50%',
-          transform: 'translateY(-50%)',
-        }}
-        onMouseDown={(e) => handleConnectionStart(e, 'output')}
-        onMouseUp={(e) => handleConnectionEnd(e, 'output')}
-        onMouseEnter={handleOutputHandleMouseEnter}
-        onMouseLeave={handleOutputHandleMouseLeave}
-        title="🟣 OUTPUT - Click to start connection TO another node"
-      >
-        <div className={`w-5 h-5 rounded-full border-3 border-white transition-all duration-200 shadow-lg ${
-          outputHandleHovered || isConnectionActive
-            ? 'bg-orange-400 scale-150 shadow-orange-400/70 animate-pulse' 
-            : 'bg-purple-500 hover:bg-purple-400 hover:scale-125'
-        }`} />
-      </div>
+      {/* Output Handles - Right side (purple), one per tuple component */}
+      {outputHandles.map((handle, index) => {
+        const key = `output:${handle.id || ''}`;
+        return (
+          <div
+            key={key}
+            className="connection-handle absolute w-8 h-8 cursor-crosshair z-50 flex items-center justify-center"
+            style={{
+              right: -16,
+              top: `${getHandleSlotFraction({ index, count: outputHandles.length }) * 100}%`,
+              transform: 'translateY(-50%)',
+            }}
+            onMouseDown={(e) => handleConnectionStart(e, 'output', index)}
+            onMouseUp={(e) => handleConnectionEnd(e, 'output', index)}
+            onMouseEnter={(e) => handleHandleMouseEnter(e, key)}
+            onMouseLeave={handleHandleMouseLeave}
+            title={handle.label
+              ? `🟣 OUTPUT ${handle.label} - Click to start connection TO another node`
+              : '🟣 OUTPUT - Click to start connection TO another node'}
+          >
+            <div className={`w-5 h-5 rounded-full border-3 border-white transition-all duration-200 shadow-lg ${
+              hoveredHandle === key || isConnectionActive
+                ? 'bg-orange-400 scale-150 shadow-orange-400/70 animate-pulse' 
+                : 'bg-purple-500 hover:bg-purple-400 hover:scale-125'
+            }`} />
+            {handle.label && (
+              <span className={`absolute right-8 text-[10px] font-medium ${colors.text.secondary} pointer-events-none`}>
+                {handle.label}
+              </span>
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 };
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { X, Copy, Download, Eye, Code, CheckCircle, AlertCircle, Info } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Copy, Download, Eye, Code, CheckCircle, AlertCircle, Info, AlignLeft } from 'lucide-react';
+import { pineScriptValidator, type ValidationError } from '@/agents/pinegenie-agent/core/pine-generator/code-validator';
 
 interface ScriptEditorProps {
   isOpen: boolean;
@@ -14,6 +15,64 @@ interface ScriptEditorProps {
   darkMode?: boolean;
 }
 
+interface CodeSegment {
+  text: string;
+  issue?: ValidationError;
+}
+
+// Splits a line into runs covered by the same issue; errors win over warnings where they overlap
+function segmentLine(line: string, lineNumber: number, issues: ValidationError[]): CodeSegment[] {
+  const marks: (ValidationError | undefined)[] = new Array(line.length + 1).fill(undefined);
+  issues.forEach(issue => {
+    if (lineNumber < issue.line || lineNumber > issue.endLine) return;
+    const start = lineNumber === issue.line ? issue.column - 1 : 0;
+    const end = lineNumber === issue.endLine ? issue.endColumn - 1 : line.length;
+    // A zero-width range (a missing token) still underlines one character
+    for (let i = start; i < Math.max(end, start + 1) && i < marks.length; i++) {
+      if (!marks[i] || (marks[i]!.severity !== 'error' && issue.severity === 'error')) marks[i] = issue;
+    }
+  });
+
+  // The extra slot past the end of the line is only shown when an issue points there
+  const text = marks[line.length] ? `${line} ` : line;
+  const segments: CodeSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.issue === marks[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], issue: marks[i] });
+    }
+  }
+  return segments;
+}
+
+function UnderlinedCode({ code, issues }: { code: string; issues: ValidationError[] }) {
+  const lines = code.split('\n');
+  return (
+    <>
+      {lines.map((line, index) => (
+        <React.Fragment key={index}>
+          {segmentLine(line, index + 1, issues).map((segment, segmentIndex) => segment.issue ? (
+            <span
+              key={segmentIndex}
+              title={segment.issue.message}
+              className={`underline decoration-wavy underline-offset-4 ${
+                segment.issue.severity === 'error' ? 'decoration-red-500' : 'decoration-yellow-500'
+              }`}
+            >
+              {segment.text}
+            </span>
+          ) : (
+            <React.Fragment key={segmentIndex}>{segment.text}</React.Fragment>
+          ))}
+          {index < lines.length - 1 && '\n'}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
 export default function ScriptEditor({ 
   isOpen, 
   onClose, 
@@ -24,6 +83,18 @@ export default function ScriptEditor({
 }: ScriptEditorProps) {
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState<'code' | 'info' | 'warnings'>('code');
+  // Formatting replaces the shown code until the next generation
+  const [code, setCode] = useState(generatedCode);
+  const [formatting, setFormatting] = useState(false);
+  const [formatError, setFormatError] = useState<string | null>(null);
+
+  const validation = useMemo(() => pineScriptValidator.validate(code), [code]);
+  const issues = useMemo(() => [...validation.errors, ...validation.warnings], [validation]);
+
+  useEffect(() => {
+    setCode(generatedCode);
+    setFormatError(null);
+  }, [generatedCode]);
 
   useEffect(() => {
     if (copied) {
@@ -34,15 +105,38 @@ export default function ScriptEditor({
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(generatedCode);
+      await navigator.clipboard.writeText(code);
       setCopied(true);
     } catch (error) {
       console.error('Failed to copy code:', error);
     }
   };
 
+  const handleFormat = async () => {
+    setFormatting(true);
+    setFormatError(null);
+    try {
+      const response = await fetch('/api/scripts/format', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setFormatError(result.details?.[0] || result.error || 'Failed to format code');
+        return;
+      }
+      setCode(result.data.code);
+    } catch (error) {
+      console.error('Failed to format code:', error);
+      setFormatError('Failed to format code');
+    } finally {
+      setFormatting(false);
+    }
+  };
+
   const handleDownload = () => {
-    const blob = new Blob([generatedCode], { type: 'text/plain' });
+    const blob = new Blob([code], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -55,7 +149,7 @@ export default function ScriptEditor({
 
   const openInTradingView = () => {
     // Copy code to clipboard first
-    navigator.clipboard.writeText(generatedCode);
+    navigator.clipboard.writeText(code);
     // Open TradingView Pine Editor
     window.open('https://www.tradingview.com/pine-editor/', '_blank');
   };
@@ -158,14 +252,37 @@ export default function ScriptEditor({
                 darkMode ? 'border-slate-700 bg-slate-800/50' : 'border-gray-200 bg-gray-50'
               }`}>
                 <div className="flex items-center space-x-2">
-                  <CheckCircle className="h-5 w-5 text-green-500" />
+                  {validation.errors.length > 0 ? (
+                    <AlertCircle className="h-5 w-5 text-red-500" />
+                  ) : (
+                    <CheckCircle className="h-5 w-5 text-green-500" />
+                  )}
                   <span className={`text-sm font-medium transition-colors ${
                     darkMode ? 'text-white' : 'text-gray-900'
                   }`}>
-                    Ready for TradingView
+                    {validation.errors.length > 0
+                      ? `${validation.errors.length} issue${validation.errors.length === 1 ? '' : 's'} to fix before TradingView`
+                      : 'Ready for TradingView'}
                   </span>
+                  {formatError && (
+                    <span className="text-sm text-red-500" title={formatError}>
+                      Format failed: {formatError}
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center space-x-3">
+                  <button
+                    onClick={handleFormat}
+                    disabled={formatting}
+                    className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+                      darkMode
+                        ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    <AlignLeft className="h-4 w-4" />
+                    <span>{formatting ? 'Formatting...' : 'Format'}</span>
+                  </button>
                   <button
                     onClick={handleCopy}
                     className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-all ${
@@ -207,7 +324,7 @@ export default function ScriptEditor({
                     ? 'bg-slate-900 text-slate-300'
                     : 'bg-gray-50 text-gray-800'
                 }`}>
-                  <code>{generatedCode}</code>
+                  <code><UnderlinedCode code={code} issues={issues} /></code>
                 </pre>
               </div>
             </div>
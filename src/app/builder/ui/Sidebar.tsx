@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { useTheme } from './ThemeProvider';
 import {
-  BarChart3, TrendingUp, GitBranch, Zap, Shield, Calculator, Timer, Menu, Sparkles
+  BarChart3, TrendingUp, GitBranch, GitMerge, Zap, Shield, Calculator, Timer, Menu, Sparkles
 } from 'lucide-react';
 import { indicatorDefinitions, getIndicatorsByCategory, type IndicatorDefinition } from '../data/indicator-defs';
 
@@ -105,6 +105,12 @@ const NODE_TYPES = {
     category: 'Timing',
     color: 'indigo',
     defaultProps: { startTime: '09:00', endTime: '16:00' }
+  },
+  logic: {
+    icon: GitMerge,
+    category: 'Math & Logic',
+    color: 'indigo',
+    defaultProps: { logicOperator: 'and' }
   }
 };
 
@@ -166,19 +172,30 @@ const nodeTemplates = {
   ],
   'Actions': [
     { type: 'action', label: 'Buy Order', description: 'Long position entry' },
-    { type: 'action', label: 'Sell Order', description: 'Short position entry' },
+    { type: 'action', label: 'Sell Short', description: 'Short position entry' },
+    { type: 'action', label: 'Sell Order', description: 'Exit long positions' },
     { type: 'action', label: 'Close Position', description: 'Exit current position' },
     { type: 'action', label: 'Alert', description: 'Send notification' },
   ],
   'Risk Management': [
     { type: 'risk', label: 'Stop Loss', description: 'Risk management' },
     { type: 'risk', label: 'Take Profit', description: 'Profit target' },
+    { type: 'risk', label: 'ATR Stop', description: 'Stop and target at ATR multiples' },
+    { type: 'risk', label: 'Trailing Stop', description: 'Stop that follows the price' },
     { type: 'risk', label: 'Position Size', description: 'Calculate position size' },
   ],
   'Math & Logic': [
     { type: 'math', label: 'Calculator', description: 'Mathematical operations' },
     { type: 'math', label: 'Comparison', description: 'Compare values' },
+    { type: 'logic', label: 'AND', description: 'All connected signals true' },
+    { type: 'logic', label: 'OR', description: 'Any connected signal true' },
+    { type: 'logic', label: 'NOT', description: 'Invert a signal' },
+    { type: 'logic', label: 'N of M', description: 'At least N signals true' },
+    { type: 'logic', label: 'Consecutive Bars', description: 'Signal true N bars in a row' },
+    { type: 'logic', label: 'Within Bars', description: 'Signal true in the last N bars' },
     { type: 'timing', label: 'Time Filter', description: 'Trading hours filter' },
+    { type: 'timing', label: 'Weekdays', description: 'Trade Monday to Friday only' },
+    { type: 'timing', label: 'Date Range', description: 'Trade between two dates' },
   ]
 };
 
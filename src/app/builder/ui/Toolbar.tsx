@@ -12,7 +12,7 @@
 
 import React from 'react';
 import Link from 'next/link';
-import { Layers, Sun, Moon, Trash2, Code, Save, ZoomIn, ZoomOut, RotateCcw, ArrowLeft, Book, Bot, Sparkles } from 'lucide-react';
+import { Layers, Sun, Moon, Trash2, Code, Save, ZoomIn, ZoomOut, RotateCcw, ArrowLeft, Book, Bot, Sparkles, GitCompare } from 'lucide-react';
 import { useTheme } from './ThemeProvider';
 
 export interface ToolbarProps {
@@ -27,6 +27,7 @@ export interface ToolbarProps {
   setBackgroundType: (type: 'grid' | 'dots' | 'lines' | 'clean') => void;
   openUserManual: () => void;
   openAIAssistant: () => void;
+  compareVersions?: () => void; // Only offered when a saved strategy is open
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -40,7 +41,8 @@ const Toolbar: React.FC<ToolbarProps> = ({
   backgroundType,
   setBackgroundType,
   openUserManual,
-  openAIAssistant
+  openAIAssistant,
+  compareVersions
 }) => {
   const { colors } = useTheme();
 
@@ -185,6 +187,17 @@ const Toolbar: React.FC<ToolbarProps> = ({
             <Moon className={`w-5 h-5 ${colors.text.secondary}`} />
           )}
         </button>
+        {/* Version comparison */}
+        {compareVersions && (
+          <button
+            onClick={compareVersions}
+            className={`flex items-center gap-2 px-4 py-2 text-sm ${colors.bg.secondary} hover:${colors.bg.tertiary} ${colors.border.primary} border ${colors.text.secondary} rounded-xl transition-all duration-200`}
+            title="Compare saved versions of this strategy"
+          >
+            <GitCompare className="w-4 h-4" />
+            Compare
+          </button>
+        )}
         {/* Action buttons */}
         <button
           onClick={clearCanvas}
@@ -273,7 +273,8 @@ const UserManual: React.FC<UserManualProps> = ({ isOpen, onClose }) => {
           title: '🔴 Actions:',
           content: [
             'Buy Order - Enter long positions (market/limit orders)',
-            'Sell Order - Enter short positions or close longs',
+            'Sell Short - Enter short positions',
+            'Sell Order - Close long positions',
             'Close Position - Exit current trades',
             'Alert - Send notifications (TradingView alerts)',
             'Position sizing and order management'
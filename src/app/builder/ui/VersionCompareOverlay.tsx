@@ -0,0 +1,258 @@
+/**
+* Version Compare Overlay - What changed between two strategy versions
+*
+* Side panel that compares two saved versions of a strategy (or a version
+* against the current one), lists node, parameter and wiring changes, shows
+* the Pine Script line diff and reports each node's status to the canvas so
+* changed nodes can be highlighted in place.
+*/
+
+import React, { useEffect, useState } from 'react';
+import { X, GitCompare, Plus, Minus, PenLine, Shuffle } from 'lucide-react';
+import { useTheme } from './ThemeProvider';
+import { DIFF_STATUS_STYLES } from './N8nNode';
+import {
+  getNodeDiffStatuses,
+  LineDiff,
+  NodeDiffStatus,
+  StrategyGraphDiff
+} from '../strategy-diff';
+
+interface VersionSummary {
+  id: string;
+  version: number;
+  name: string;
+  changeLog?: string | null;
+  createdAt: string;
+}
+
+interface VersionCompareOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+  strategyId: string;
+  onStatusesChange: (statuses: Record<string, NodeDiffStatus> | null) => void;
+}
+
+const CURRENT = 'current';
+
+const formatValue = (value: unknown) => value === undefined ? '—' : JSON.stringify(value);
+
+const VersionCompareOverlay: React.FC<VersionCompareOverlayProps> = ({
+  isOpen,
+  onClose,
+  strategyId,
+  onStatusesChange
+}) => {
+  const { colors } = useTheme();
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState(CURRENT);
+  const [diff, setDiff] = useState<{ graph: StrategyGraphDiff; pine: LineDiff } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Load the version list when the panel opens, comparing the latest version to the current state
+  useEffect(() => {
+    if (!isOpen) return;
+    setError('');
+    fetch(`/api/strategies/${strategyId}/versions`, { credentials: 'include' })
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load versions');
+        const loaded: VersionSummary[] = result.data;
+        setVersions(loaded);
+        setFrom(current => current || loaded[0]?.id || '');
+      })
+      .catch(loadError => {
+        console.error('Load versions error:', loadError);
+        setError(loadError.message);
+      });
+  }, [isOpen, strategyId]);
+
+  useEffect(() => {
+    if (!isOpen || !from || from === to) {
+      setDiff(null);
+      onStatusesChange(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    fetch(`/api/strategies/${strategyId}/versions/compare?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`, {
+      credentials: 'include'
+    })
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to compare versions');
+        if (cancelled) return;
+        setDiff({ graph: result.data.graph, pine: result.data.pine });
+        onStatusesChange(getNodeDiffStatuses(result.data.graph));
+      })
+      .catch(compareError => {
+        if (cancelled) return;
+        console.error('Compare versions error:', compareError);
+        setError(compareError.message);
+        setDiff(null);
+        onStatusesChange(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, strategyId, from, to, onStatusesChange]);
+
+  const handleClose = () => {
+    onStatusesChange(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const selectClass = `w-full ${colors.bg.secondary} ${colors.text.primary} ${colors.border.secondary} border rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-400`;
+  const versionLabel = (version: VersionSummary) => `v${version.version} · ${version.name}`;
+  const unchanged = diff && diff.pine.hunks.length === 0 &&
+    Object.values(diff.graph.nodes).every(list => list.length === 0) &&
+    Object.values(diff.graph.edges).every(list => list.length === 0);
+
+  return (
+    <div className={`fixed top-0 right-0 h-full w-[420px] z-50 ${colors.bg.glass} ${colors.border.primary} border-l shadow-2xl flex flex-col`}>
+      {/* Header */}
+      <div className={`flex items-center justify-between p-4 ${colors.border.primary} border-b`}>
+        <div className={`flex items-center gap-2 font-semibold ${colors.text.primary}`}>
+          <GitCompare className="w-5 h-5" />
+          Compare Versions
+        </div>
+        <button onClick={handleClose} className={`p-1 rounded-lg ${colors.text.secondary}`} title="Close comparison">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Version pickers */}
+      <div className={`grid grid-cols-2 gap-3 p-4 ${colors.border.primary} border-b`}>
+        <label className={`text-xs ${colors.text.tertiary}`}>
+          From
+          <select value={from} onChange={e => setFrom(e.target.value)} className={selectClass}>
+            {versions.map(version => (
+              <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+            ))}
+          </select>
+        </label>
+        <label className={`text-xs ${colors.text.tertiary}`}>
+          To
+          <select value={to} onChange={e => setTo(e.target.value)} className={selectClass}>
+            <option value={CURRENT}>Current</option>
+            {versions.map(version => (
+              <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+        {error && <div className="text-red-400">{error}</div>}
+        {!error && versions.length === 0 && (
+          <div className={colors.text.tertiary}>This strategy has no saved versions yet.</div>
+        )}
+        {loading && <div className={colors.text.tertiary}>Comparing…</div>}
+        {unchanged && <div className={colors.text.tertiary}>No differences between these versions.</div>}
+
+        {diff && !loading && (
+          <>
+            {/* Nodes */}
+            {diff.graph.nodes.added.length + diff.graph.nodes.removed.length + diff.graph.nodes.changed.length > 0 && (
+              <section className="space-y-2">
+                <h4 className={`font-medium ${colors.text.primary}`}>Nodes</h4>
+                {diff.graph.nodes.added.map(node => (
+                  <div key={`added-${node.id}`} className="flex items-center gap-2 text-emerald-400">
+                    <Plus className="w-4 h-4" /> {node.label} <span className={colors.text.muted}>({node.type})</span>
+                  </div>
+                ))}
+                {diff.graph.nodes.removed.map(node => (
+                  <div key={`removed-${node.id}`} className="flex items-center gap-2 text-red-400">
+                    <Minus className="w-4 h-4" /> {node.label} <span className={colors.text.muted}>({node.type})</span>
+                  </div>
+                ))}
+                {diff.graph.nodes.changed.map(node => (
+                  <div key={`changed-${node.id}`} className="space-y-1">
+                    <div className="flex items-center gap-2 text-amber-400">
+                      <PenLine className="w-4 h-4" /> {node.label}
+                    </div>
+                    {node.changes.map(change => (
+                      <div key={change.key} className={`pl-6 font-mono text-xs ${colors.text.secondary}`}>
+                        {change.key}: <span className="text-red-400">{formatValue(change.from)}</span>
+                        {' → '}
+                        <span className="text-emerald-400">{formatValue(change.to)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {/* Connections */}
+            {diff.graph.edges.added.length + diff.graph.edges.removed.length + diff.graph.edges.rewired.length > 0 && (
+              <section className="space-y-2">
+                <h4 className={`font-medium ${colors.text.primary}`}>Connections</h4>
+                {diff.graph.edges.added.map(edge => (
+                  <div key={`added-${edge.source}-${edge.target}-${edge.targetHandle}`} className="flex items-center gap-2 text-emerald-400 font-mono text-xs">
+                    <Plus className="w-4 h-4" /> {edge.source} → {edge.target}{edge.targetHandle ? `.${edge.targetHandle}` : ''}
+                  </div>
+                ))}
+                {diff.graph.edges.removed.map(edge => (
+                  <div key={`removed-${edge.source}-${edge.target}-${edge.targetHandle}`} className="flex items-center gap-2 text-red-400 font-mono text-xs">
+                    <Minus className="w-4 h-4" /> {edge.source} → {edge.target}{edge.targetHandle ? `.${edge.targetHandle}` : ''}
+                  </div>
+                ))}
+                {diff.graph.edges.rewired.map(rewire => (
+                  <div key={`rewired-${rewire.target}-${rewire.targetHandle}`} className="flex items-center gap-2 text-sky-400 font-mono text-xs">
+                    <Shuffle className="w-4 h-4" />
+                    {rewire.target}{rewire.targetHandle ? `.${rewire.targetHandle}` : ''}: {rewire.from.source} → {rewire.to.source}
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {/* Pine Script */}
+            {diff.pine.hunks.length > 0 && (
+              <section className="space-y-2">
+                <h4 className={`font-medium ${colors.text.primary}`}>
+                  Pine Script <span className="text-emerald-400">+{diff.pine.added}</span>{' '}
+                  <span className="text-red-400">-{diff.pine.removed}</span>
+                </h4>
+                {diff.pine.hunks.map(hunk => (
+                  <pre key={`${hunk.oldStart}-${hunk.newStart}`} className={`${colors.bg.tertiary} rounded-lg p-2 text-[11px] font-mono overflow-x-auto`}>
+                    <div className={colors.text.muted}>@@ -{hunk.oldStart} +{hunk.newStart} @@</div>
+                    {hunk.lines.map((line, index) => (
+                      <div
+                        key={index}
+                        className={line.kind === 'added' ? 'text-emerald-400' : line.kind === 'removed' ? 'text-red-400' : colors.text.secondary}
+                      >
+                        {line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '} {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                ))}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className={`flex flex-wrap gap-3 p-4 ${colors.border.primary} border-t text-xs ${colors.text.tertiary}`}>
+        {Object.entries(DIFF_STATUS_STYLES).map(([status, style]) => (
+          <div key={status} className="flex items-center gap-1">
+            <span className={`w-2 h-2 rounded-full ${style.badge}`} />
+            {style.label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VersionCompareOverlay;
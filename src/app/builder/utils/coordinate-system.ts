@@ -22,6 +22,11 @@ export interface NodeDimensions {
   height: number;
 }
 
+export interface HandleSlot {
+  index: number; // Position among the node's handles on that side, top first
+  count: number;
+}
+
 export interface HandlePosition {
   nodeId: string;
   handleType: 'input' | 'output';
@@ -36,6 +41,11 @@ export const DEFAULT_NODE_DIMENSIONS: NodeDimensions = {
   height: 120
 };
 
+/**
+ * Slot of a node's only handle on one side
+ */
+export const SINGLE_HANDLE_SLOT: HandleSlot = { index: 0, count: 1 };
+
 /**
  * Handle offset from node edges (in canvas coordinates)
  */
@@ -95,13 +105,15 @@ export function canvasToScreen(canvasPoint: Point, canvasState: CanvasState): Po
  * @param handleType - Type of handle ('input' or 'output')
  * @param canvasState - Current canvas zoom and offset state
  * @param nodeDimensions - Node dimensions (optional, uses defaults)
+ * @param slot - Which of several handles on the same side (optional, single centred handle)
  * @returns Handle position in screen coordinates
  */
 export function getHandleScreenPosition(
   nodePosition: Point,
   handleType: 'input' | 'output',
   canvasState: CanvasState,
-  nodeDimensions: NodeDimensions = DEFAULT_NODE_DIMENSIONS
+  nodeDimensions: NodeDimensions = DEFAULT_NODE_DIMENSIONS,
+  slot: HandleSlot = SINGLE_HANDLE_SLOT
 ): Point {
   // Validate inputs
   if (!isValidPoint(nodePosition) || !isValidCanvasState(canvasState)) {
@@ -109,7 +121,7 @@ export function getHandleScreenPosition(
   }
   
   // Calculate handle position in canvas coordinates
-  const handleCanvasPosition = getHandleCanvasPosition(nodePosition, handleType, nodeDimensions);
+  const handleCanvasPosition = getHandleCanvasPosition(nodePosition, handleType, nodeDimensions, slot);
   
   // Convert to screen coordinates
   return canvasToScreen(handleCanvasPosition, canvasState);
@@ -121,29 +133,43 @@ export function getHandleScreenPosition(
  * @param nodePosition - Node position in canvas coordinates
  * @param handleType - Type of handle ('input' or 'output')
  * @param nodeDimensions - Node dimensions
+ * @param slot - Which of several handles on the same side
  * @returns Handle position in canvas coordinates
  */
 export function getHandleCanvasPosition(
   nodePosition: Point,
   handleType: 'input' | 'output',
-  nodeDimensions: NodeDimensions = DEFAULT_NODE_DIMENSIONS
+  nodeDimensions: NodeDimensions = DEFAULT_NODE_DIMENSIONS,
+  slot: HandleSlot = SINGLE_HANDLE_SLOT
 ): Point {
   const { width, height } = nodeDimensions;
-  const centerY = nodePosition.y + height / 2;
+  const handleY = nodePosition.y + height * getHandleSlotFraction(slot);
   
   if (handleType === 'input') {
     return {
       x: nodePosition.x - HANDLE_OFFSET,
-      y: centerY
+      y: handleY
     };
   } else {
     return {
       x: nodePosition.x + width + HANDLE_OFFSET,
-      y: centerY
+      y: handleY
     };
   }
 }
 
+/**
+ * Vertical position of a handle as a fraction of the node height.
+ * Handles on one side are spread evenly; a single handle sits in the centre.
+ * 
+ * @param slot - Handle index and number of handles on that side
+ * @returns Fraction between 0 and 1
+ */
+export function getHandleSlotFraction(slot: HandleSlot): number {
+  const count = Math.max(1, slot.count);
+  return (Math.min(Math.max(slot.index, 0), count - 1) + 1) / (count + 1);
+}
+
 /**
  * Calculate connection line path between two points
  * 
@@ -9,6 +9,8 @@ export interface SimpleConnection {
   id: string;
   source: string;
   target: string;
+  sourceHandle?: string; // Named output, e.g. one component of a tuple indicator
+  targetHandle?: string; // Named input, e.g. one side of a condition
   created: Date;
 }
 
@@ -16,6 +18,7 @@ export interface ConnectionState {
   isConnecting: boolean;
   sourceNodeId: string | null;
   sourceHandleType: 'input' | 'output' | null;
+  sourceHandleId: string | null;
   tempConnection: {
     start: { x: number; y: number };
     end: { x: number; y: number };
@@ -27,6 +30,7 @@ export class SimpleConnectionHandler {
     isConnecting: false,
     sourceNodeId: null,
     sourceHandleType: null,
+    sourceHandleId: null,
     tempConnection: null
   };
 
@@ -51,7 +55,12 @@ export class SimpleConnectionHandler {
   /**
    * Start a connection from a handle
    */
-  startConnection(nodeId: string, handleType: 'input' | 'output', position: { x: number; y: number }): void {
+  startConnection(
+    nodeId: string,
+    handleType: 'input' | 'output',
+    position: { x: number; y: number },
+    handleId?: string
+  ): void {
     try {
       // Cancel any existing connection first
       if (this.state.isConnecting) {
@@ -62,6 +71,7 @@ export class SimpleConnectionHandler {
         isConnecting: true,
         sourceNodeId: nodeId,
         sourceHandleType: handleType,
+        sourceHandleId: handleId || null,
         tempConnection: {
           start: position,
           end: position
@@ -87,7 +97,7 @@ export class SimpleConnectionHandler {
   /**
    * Complete a connection to a target handle
    */
-  completeConnection(targetNodeId: string, targetHandleType: 'input' | 'output'): boolean {
+  completeConnection(targetNodeId: string, targetHandleType: 'input' | 'output', targetHandleId?: string): boolean {
     if (!this.state.isConnecting || !this.state.sourceNodeId) {
       return false;
     }
@@ -98,25 +108,31 @@ export class SimpleConnectionHandler {
       return false;
     }
 
-    // Check if connection already exists
-    const existingConnection = this.connections.find(conn =>
-      (conn.source === this.state.sourceNodeId && conn.target === targetNodeId) ||
-      (conn.source === targetNodeId && conn.target === this.state.sourceNodeId)
-    );
-
-    if (existingConnection) {
-      this.cancelConnection();
-      return false;
-    }
-
     // Ensure proper connection direction (output -> input)
     let sourceId = this.state.sourceNodeId;
     let targetId = targetNodeId;
+    let sourceHandle = this.state.sourceHandleId || undefined;
+    let targetHandle = targetHandleId;
 
     // If we started from input, swap the direction
     if (this.state.sourceHandleType === 'input') {
       sourceId = targetNodeId;
       targetId = this.state.sourceNodeId;
+      sourceHandle = targetHandleId;
+      targetHandle = this.state.sourceHandleId || undefined;
+    }
+
+    // Check if connection already exists. Different named handles of the same
+    // pair are distinct connections, e.g. MACD line and signal into one condition.
+    const existingConnection = this.connections.find(conn =>
+      (conn.source === sourceId && conn.target === targetId &&
+        conn.sourceHandle === sourceHandle && conn.targetHandle === targetHandle) ||
+      (conn.source === targetId && conn.target === sourceId)
+    );
+
+    if (existingConnection) {
+      this.cancelConnection();
+      return false;
     }
 
     // Create the connection
@@ -124,6 +140,8 @@ export class SimpleConnectionHandler {
       id: `conn_${sourceId}_${targetId}_${Date.now()}`,
       source: sourceId,
       target: targetId,
+      ...(sourceHandle ? { sourceHandle } : {}),
+      ...(targetHandle ? { targetHandle } : {}),
       created: new Date()
     };
 
@@ -134,6 +152,7 @@ export class SimpleConnectionHandler {
       isConnecting: false,
       sourceNodeId: null,
       sourceHandleType: null,
+      sourceHandleId: null,
       tempConnection: null
     };
 
@@ -149,6 +168,7 @@ export class SimpleConnectionHandler {
       isConnecting: false,
       sourceNodeId: null,
       sourceHandleType: null,
+      sourceHandleId: null,
       tempConnection: null
     };
 
@@ -5,10 +5,17 @@ export const metadata = {
   description: 'Advanced parameter optimization for Pine Script strategies using genetic algorithms, simulated annealing, and more.',
 };
 
-export default function StrategyOptimizerPage() {
+export default function StrategyOptimizerPage({
+  searchParams
+}: {
+  searchParams: { strategyId?: string; datasetId?: string };
+}) {
   return (
     <div className="min-h-screen">
-      <ProfessionalStrategyOptimizer />
+      <ProfessionalStrategyOptimizer
+        strategyId={searchParams.strategyId}
+        datasetId={searchParams.datasetId}
+      />
     </div>
   );
 }
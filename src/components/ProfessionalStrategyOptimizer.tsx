@@ -24,6 +24,74 @@ interface OptimizationResults {
   consistency: number;
 }
 
+interface WalkForwardMetrics {
+  totalReturn: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+  totalTrades: number;
+}
+
+interface WalkForwardWindow {
+  index: number;
+  trainStart: number;
+  trainEnd: number;
+  testStart: number;
+  testEnd: number;
+  inSample: WalkForwardMetrics;
+  outOfSample: WalkForwardMetrics;
+  efficiency: number;
+}
+
+interface WalkForwardResults {
+  mode: 'anchored' | 'rolling';
+  windows: WalkForwardWindow[];
+  efficiency: number;
+  inSampleReturn: number;
+  outOfSampleReturn: number;
+  profitableWindows: number;
+}
+
+interface ConfidenceRange {
+  lower: number;
+  median: number;
+  upper: number;
+}
+
+interface SensitivityRow {
+  nodeId: string;
+  parameter: string;
+  baseValue: number;
+  cells: Array<{ jitterPercent: number; value: number; valid: boolean; scoreChange: number }>;
+  scoreDrop: number;
+  fragile: boolean;
+}
+
+interface RobustnessResults {
+  robustnessScore: number;
+  monteCarlo: {
+    method: string;
+    iterations: number;
+    confidence: number;
+    totalReturn: ConfidenceRange;
+    maxDrawdown: ConfidenceRange;
+    original: { totalReturn: number; maxDrawdown: number };
+    probabilityOfLoss: number;
+  } | null;
+  sensitivity: {
+    jitterLevels: number[];
+    rows: SensitivityRow[];
+    fragileParameters: string[];
+  };
+  suggestions: Array<{ id: string; title: string; description: string }>;
+}
+
+interface WalkForwardSettings {
+  enabled: boolean;
+  mode: 'anchored' | 'rolling';
+  trainBars: number;
+  testBars: number;
+}
+
 interface ParameterConfig {
   min: number;
   max: number;
@@ -53,9 +121,34 @@ interface AlgorithmCardProps {
   onSelect: () => void;
 }
 
-const ProfessionalStrategyOptimizer: React.FC = () => {
+interface ProfessionalStrategyOptimizerProps {
+  strategyId?: string;
+  datasetId?: string;
+}
+
+// Server-side optimizer algorithm for each card; the rest fall back to the genetic algorithm
+const SERVER_ALGORITHMS: Record<string, string> = {
+  genetic: 'genetic-algorithm',
+  particle_swarm: 'particle-swarm',
+  bayesian: 'bayesian-optimization'
+};
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
+
+const ProfessionalStrategyOptimizer: React.FC<ProfessionalStrategyOptimizerProps> = ({ strategyId, datasetId }) => {
   const [optimizationStatus, setOptimizationStatus] = useState<'idle' | 'running' | 'completed'>('idle');
   const [results, setResults] = useState<OptimizationResults | null>(null);
+  const [walkForward, setWalkForward] = useState<WalkForwardSettings>({
+    enabled: false,
+    mode: 'rolling',
+    trainBars: 500,
+    testBars: 100
+  });
+  const [walkForwardResults, setWalkForwardResults] = useState<WalkForwardResults | null>(null);
+  const [walkForwardError, setWalkForwardError] = useState<string | null>(null);
+  const [robustnessResults, setRobustnessResults] = useState<RobustnessResults | null>(null);
+  const [robustnessError, setRobustnessError] = useState<string | null>(null);
+  const hasStrategyData = Boolean(strategyId && datasetId);
   const [progress, setProgress] = useState<number>(0);
   const [selectedAlgorithm, setSelectedAlgorithm] = useState<string>('genetic');
   const [parameters, setParameters] = useState<Record<string, ParameterConfig>>({
@@ -372,11 +465,70 @@ const ProfessionalStrategyOptimizer: React.FC = () => {
     return Math.max(0, 1 - Math.sqrt(variance));
   };
 
+  // Walk-forward runs on the server against the strategy graph and stored dataset
+  const runWalkForward = async (): Promise<WalkForwardResults> => {
+    const response = await fetch(`/api/strategies/${strategyId}/optimize`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        datasetId,
+        algorithm: SERVER_ALGORITHMS[selectedAlgorithm] || SERVER_ALGORITHMS.genetic,
+        maxIterations: 50,
+        walkForward: {
+          mode: walkForward.mode,
+          trainBars: walkForward.trainBars,
+          testBars: walkForward.testBars
+        }
+      })
+    });
+
+    const payload = await response.json();
+    if (!response.ok) {
+      throw new Error(payload.error || 'Walk-forward validation failed');
+    }
+    return payload.data;
+  };
+
+  // Monte Carlo and parameter jitter of the saved strategy on its dataset
+  const runRobustnessAnalysis = async (): Promise<RobustnessResults> => {
+    const response = await fetch(`/api/strategies/${strategyId}/robustness`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ datasetId, jitterPercent: 20, monteCarlo: { method: 'reshuffle', iterations: 1000 } })
+    });
+
+    const payload = await response.json();
+    if (!response.ok) {
+      throw new Error(payload.error || 'Robustness analysis failed');
+    }
+    return payload.data;
+  };
+
   const runOptimization = async () => {
     setOptimizationStatus('running');
     setProgress(0);
+    setWalkForwardResults(null);
+    setWalkForwardError(null);
+    setRobustnessResults(null);
+    setRobustnessError(null);
     
     try {
+      if (hasStrategyData) {
+        try {
+          setRobustnessResults(await runRobustnessAnalysis());
+        } catch (error) {
+          setRobustnessError(error instanceof Error ? error.message : 'Robustness analysis failed');
+        }
+      }
+
+      if (walkForward.enabled && hasStrategyData) {
+        try {
+          setWalkForwardResults(await runWalkForward());
+        } catch (error) {
+          setWalkForwardError(error instanceof Error ? error.message : 'Walk-forward validation failed');
+        }
+      }
+
       let results: OptimizationResults;
       
       switch (selectedAlgorithm) {
@@ -534,6 +686,63 @@ const ProfessionalStrategyOptimizer: React.FC = () => {
                 ))}
               </div>
             </div>
+
+            {/* Walk-Forward Configuration */}
+            <div className="bg-white rounded-lg p-6 shadow-sm border">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                🔁 Walk-Forward Validation
+              </h2>
+              <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+                <input
+                  type="checkbox"
+                  checked={walkForward.enabled}
+                  disabled={!hasStrategyData}
+                  onChange={(e) => setWalkForward(prev => ({ ...prev, enabled: e.target.checked }))}
+                />
+                Optimize on training windows, report on unseen test windows
+              </label>
+              {hasStrategyData ? (
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Window Mode</label>
+                    <select
+                      value={walkForward.mode}
+                      onChange={(e) => setWalkForward(prev => ({ ...prev, mode: e.target.value as WalkForwardSettings['mode'] }))}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    >
+                      <option value="rolling">Rolling (fixed-length training window)</option>
+                      <option value="anchored">Anchored (training window grows)</option>
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Train Bars</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={walkForward.trainBars}
+                        onChange={(e) => setWalkForward(prev => ({ ...prev, trainBars: Number(e.target.value) }))}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Test Bars</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={walkForward.testBars}
+                        onChange={(e) => setWalkForward(prev => ({ ...prev, testBars: Number(e.target.value) }))}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                      />
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Open the optimizer from a saved strategy with a market dataset to validate out of sample.
+                </p>
+              )}
+            </div>
           </div>
 
           {/* Right Panel - Optimization & Results */}
@@ -610,6 +819,168 @@ const ProfessionalStrategyOptimizer: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Robustness & Out-of-Sample */}
+                <div className="bg-white rounded-lg p-6 shadow-sm border">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">🛡️ Robustness</h3>
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div className="text-center p-4 bg-gray-50 rounded-lg">
+                      <div className="text-2xl font-bold text-gray-800">{results.robustness.toFixed(2)}</div>
+                      <div className="text-sm text-gray-600">Robustness</div>
+                    </div>
+                    <div className="text-center p-4 bg-gray-50 rounded-lg">
+                      <div className="text-2xl font-bold text-gray-800">{(results.consistency * 100).toFixed(0)}%</div>
+                      <div className="text-sm text-gray-600">Consistency</div>
+                    </div>
+                    {walkForwardResults && (
+                      <>
+                        <div className="text-center p-4 bg-indigo-50 rounded-lg">
+                          <div className={`text-2xl font-bold ${walkForwardResults.efficiency >= 0.5 ? 'text-indigo-600' : 'text-red-600'}`}>
+                            {(walkForwardResults.efficiency * 100).toFixed(0)}%
+                          </div>
+                          <div className="text-sm text-gray-600">Walk-Forward Efficiency</div>
+                        </div>
+                        <div className="text-center p-4 bg-indigo-50 rounded-lg">
+                          <div className="text-2xl font-bold text-indigo-600">
+                            {(walkForwardResults.outOfSampleReturn * 100).toFixed(1)}%
+                          </div>
+                          <div className="text-sm text-gray-600">
+                            Out-of-Sample Return ({(walkForwardResults.profitableWindows * 100).toFixed(0)}% windows profitable)
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  {walkForwardError && (
+                    <p className="mt-4 text-sm text-red-600">{walkForwardError}</p>
+                  )}
+
+                  {robustnessError && (
+                    <p className="mt-4 text-sm text-red-600">{robustnessError}</p>
+                  )}
+
+                  {robustnessResults?.monteCarlo && (
+                    <div className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-4">
+                      <div className="p-4 bg-amber-50 rounded-lg">
+                        <div className="text-sm text-gray-600 mb-1">
+                          Max Drawdown ({Math.round(robustnessResults.monteCarlo.confidence * 100)}% CI)
+                        </div>
+                        <div className="text-lg font-semibold text-amber-700">
+                          {(robustnessResults.monteCarlo.maxDrawdown.lower * 100).toFixed(1)}% – {(robustnessResults.monteCarlo.maxDrawdown.upper * 100).toFixed(1)}%
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          Backtest: {(robustnessResults.monteCarlo.original.maxDrawdown * 100).toFixed(1)}%
+                        </div>
+                      </div>
+                      <div className="p-4 bg-amber-50 rounded-lg">
+                        <div className="text-sm text-gray-600 mb-1">
+                          Total Return ({Math.round(robustnessResults.monteCarlo.confidence * 100)}% CI)
+                        </div>
+                        <div className="text-lg font-semibold text-amber-700">
+                          {(robustnessResults.monteCarlo.totalReturn.lower * 100).toFixed(1)}% – {(robustnessResults.monteCarlo.totalReturn.upper * 100).toFixed(1)}%
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {robustnessResults.monteCarlo.iterations} {robustnessResults.monteCarlo.method}d trade sequences
+                        </div>
+                      </div>
+                      <div className="p-4 bg-amber-50 rounded-lg">
+                        <div className="text-sm text-gray-600 mb-1">Parameter Stability</div>
+                        <div className="text-lg font-semibold text-amber-700">
+                          {(robustnessResults.robustnessScore * 100).toFixed(0)}%
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {robustnessResults.sensitivity.fragileParameters.length} fragile parameter(s)
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {robustnessResults && robustnessResults.sensitivity.rows.length > 0 && (
+                    <div className="mt-6 overflow-x-auto">
+                      <h4 className="text-sm font-semibold text-gray-700 mb-2">Parameter sensitivity (score change)</h4>
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-gray-500">
+                            <th className="py-1 pr-4 text-left">Parameter</th>
+                            {robustnessResults.sensitivity.jitterLevels.map(level => (
+                              <th key={level} className="py-1 px-1 text-center">{level > 0 ? '+' : ''}{level}%</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {robustnessResults.sensitivity.rows.map(row => (
+                            <tr key={`${row.nodeId}.${row.parameter}`}>
+                              <td className={`py-1 pr-4 ${row.fragile ? 'text-red-600 font-semibold' : 'text-gray-700'}`}>
+                                {row.nodeId}.{row.parameter}
+                              </td>
+                              {row.cells.map(cell => (
+                                <td
+                                  key={cell.jitterPercent}
+                                  title={`${row.parameter} = ${cell.value}`}
+                                  className={`py-1 px-1 text-center rounded ${
+                                    !cell.valid || cell.scoreChange < -0.25
+                                      ? 'bg-red-100 text-red-700'
+                                      : cell.scoreChange < 0
+                                        ? 'bg-yellow-50 text-yellow-700'
+                                        : 'bg-green-50 text-green-700'
+                                  }`}
+                                >
+                                  {cell.valid ? `${(cell.scoreChange * 100).toFixed(0)}%` : 'n/a'}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {robustnessResults.suggestions
+                        .filter(suggestion => suggestion.id.startsWith('stabilize-') || suggestion.id === 'size-for-monte-carlo-drawdown')
+                        .map(suggestion => (
+                          <p key={suggestion.id} className="mt-2 text-sm text-gray-700">
+                            <span className="font-medium">{suggestion.title}:</span> {suggestion.description}
+                          </p>
+                        ))}
+                    </div>
+                  )}
+
+                  {walkForwardResults && (
+                    <div className="mt-6 overflow-x-auto">
+                      <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                        {walkForwardResults.mode === 'anchored' ? 'Anchored' : 'Rolling'} windows: in-sample vs out-of-sample
+                      </h4>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2 pr-4">#</th>
+                            <th className="py-2 pr-4">Train</th>
+                            <th className="py-2 pr-4">Test</th>
+                            <th className="py-2 pr-4 text-right">IS Return</th>
+                            <th className="py-2 pr-4 text-right">OOS Return</th>
+                            <th className="py-2 pr-4 text-right">IS Sharpe</th>
+                            <th className="py-2 pr-4 text-right">OOS Sharpe</th>
+                            <th className="py-2 text-right">Efficiency</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {walkForwardResults.windows.map(window => (
+                            <tr key={window.index} className="border-b last:border-0">
+                              <td className="py-2 pr-4 text-gray-500">{window.index + 1}</td>
+                              <td className="py-2 pr-4">{formatDate(window.trainStart)} – {formatDate(window.trainEnd)}</td>
+                              <td className="py-2 pr-4">{formatDate(window.testStart)} – {formatDate(window.testEnd)}</td>
+                              <td className="py-2 pr-4 text-right">{(window.inSample.totalReturn * 100).toFixed(1)}%</td>
+                              <td className={`py-2 pr-4 text-right ${window.outOfSample.totalReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {(window.outOfSample.totalReturn * 100).toFixed(1)}%
+                              </td>
+                              <td className="py-2 pr-4 text-right">{window.inSample.sharpeRatio.toFixed(2)}</td>
+                              <td className="py-2 pr-4 text-right">{window.outOfSample.sharpeRatio.toFixed(2)}</td>
+                              <td className="py-2 text-right">{(window.efficiency * 100).toFixed(0)}%</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+
                 {/* Charts */}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                   {/* Equity Curve */}
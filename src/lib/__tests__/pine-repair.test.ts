@@ -0,0 +1,95 @@
+/**
+ * Pine Script Repair Loop Tests
+ * Code extraction, validation and bounded repair rounds
+ */
+
+import { extractPineCode, validateAndRepair } from '../pine-repair';
+import type { LLMMessage, LLMUsage } from '../llm';
+
+const VALID = '//@version=6\nstrategy("RSI")\nplot(close)';
+const UNVERSIONED = 'strategy("RSI")\nplot(close)';
+const USAGE: LLMUsage = { promptTokens: 100, completionTokens: 50, totalTokens: 150, cost: 0.3 };
+const CONVERSATION: LLMMessage[] = [{ role: 'user', content: 'RSI strategy' }];
+
+function answer(code: string): string {
+  return `Here is your strategy:\n\`\`\`pinescript\n${code}\n\`\`\`\nEnjoy.`;
+}
+
+function reply(content: string) {
+  return { content, usage: USAGE };
+}
+
+describe('extractPineCode', () => {
+  test('finds the Pine Script block in an answer', () => {
+    expect(extractPineCode(`\`\`\`js\nlet a\n\`\`\`\n${answer(VALID)}`)).toBe(VALID);
+  });
+
+  test('takes a bare script as a whole', () => {
+    expect(extractPineCode(`  ${VALID}\n`)).toBe(VALID);
+  });
+
+  test('returns null for answers without a script', () => {
+    expect(extractPineCode('RSI measures momentum.')).toBeNull();
+  });
+});
+
+describe('validateAndRepair', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('leaves answers without a script alone', async () => {
+    const repair = jest.fn();
+
+    const result = await validateAndRepair('No code here.', CONVERSATION, { repair });
+
+    expect(result).toMatchObject({ content: 'No code here.', code: null, report: null });
+    expect(repair).not.toHaveBeenCalled();
+  });
+
+  test('reports a valid script without asking for repairs', async () => {
+    const repair = jest.fn();
+
+    const result = await validateAndRepair(answer(VALID), CONVERSATION, { repair });
+
+    expect(result.report).toMatchObject({ isValid: true, repairRounds: 0, initialErrorCount: 0, errors: [] });
+    expect(result.usage.totalTokens).toBe(0);
+    expect(repair).not.toHaveBeenCalled();
+  });
+
+  test('sends the validation errors back and swaps in the repaired script', async () => {
+    const repair = jest.fn(async () => reply(answer(VALID)));
+
+    const result = await validateAndRepair(answer(UNVERSIONED), CONVERSATION, { repair });
+
+    const history: LLMMessage[] = (repair.mock.calls[0] as unknown as [LLMMessage[]])[0];
+    expect(history.slice(0, 2)).toEqual([CONVERSATION[0], { role: 'assistant', content: answer(UNVERSIONED) }]);
+    expect(history[2].content).toContain('"code": "version_required"');
+    expect(result.content).toBe(answer(VALID));
+    expect(result.code).toBe(VALID);
+    expect(result.report).toMatchObject({ isValid: true, repairRounds: 1, initialErrorCount: 1 });
+    expect(result.usage).toEqual(USAGE);
+  });
+
+  test('gives up after the last round and reports what is left', async () => {
+    const repair = jest.fn(async () => reply(answer(UNVERSIONED)));
+
+    const result = await validateAndRepair(answer(UNVERSIONED), CONVERSATION, { repair, maxRounds: 3 });
+
+    expect(repair).toHaveBeenCalledTimes(3);
+    expect(result.report).toMatchObject({ isValid: false, repairRounds: 3, initialErrorCount: 1 });
+    expect(result.report?.errors.map(error => error.code)).toEqual(['version_required']);
+    expect(result.usage.totalTokens).toBe(450);
+  });
+
+  test('keeps the best script when a repair call fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const repair = jest.fn().mockRejectedValue(new Error('Out of AI tokens'));
+
+    const result = await validateAndRepair(answer(UNVERSIONED), CONVERSATION, { repair });
+
+    expect(repair).toHaveBeenCalledTimes(1);
+    expect(result.content).toBe(answer(UNVERSIONED));
+    expect(result.report).toMatchObject({ isValid: false, repairRounds: 1 });
+  });
+});
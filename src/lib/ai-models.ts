@@ -19,6 +19,14 @@ export const availableModels: AIModel[] = [
     description: 'Specialized Pine Script AI assistant - Always available',
     maxTokens: 4096
   },
+  {
+    id: 'local-llm',
+    name: 'Local Model',
+    provider: 'Local',
+    tier: 'free',
+    description: 'Self-hosted model - prompts and strategies never leave your network',
+    maxTokens: 8192
+  },
   {
     id: 'gpt-4',
     name: 'ChatGPT-4',
@@ -40,19 +40,53 @@ import { color } from 'framer-motion';
 import { color } from 'framer-motion';
 import { title } from 'process';
 import { color } from 'framer-motion';
-import OpenAI from 'openai';
+import { InsufficientTokensError, llmGateway } from './llm';
+import type { LLMAccount, LLMMessage, LLMProvider, LLMStreamChunk } from './llm';
+import { migratePine } from './pinescript';
+import { validateAndRepair } from './pine-repair';
+import type { PineRepairResult, PineValidationReport } from './pine-repair';
 import { title } from 'process';
 import { title } from 'process';
 import { title } from 'process';
 import { title } from 'process';
 import { title } from 'process';
 
+// A fenced code block, or a whole message that is a script
+const PINE_CODE_PATTERN = /```(?:pine|pinescript)?[ \t]*\n([\s\S]*?)```|^\s*(\/\/\s*@version\s*=[\s\S]*)$/gi;
+
+// Forces Pine Script v6 code generation whichever model answers
+const PINE_SCRIPT_SYSTEM_PROMPT = `You are a Pine Script v6 code generator. ALWAYS respond with complete, working Pine Script v6 code.
+
+CRITICAL REQUIREMENTS:
+- ALWAYS use //@version=6 at the top of every script
+- NEVER use Pine Script v4 or v5 syntax
+- Code the user pasted from v4 or v5 has already been migrated to v6; fix whatever is listed as needing a manual fix
+- NEVER ask clarifying questions
+- ALWAYS generate complete, runnable Pine Script v6 strategies
+- Use Pine Script v6 syntax: ta.rsi(), ta.sma(), ta.ema(), ta.macd(), etc.
+- Use strategy.entry(), strategy.exit(), strategy.close() for trades
+- Include proper input parameters with input.int(), input.float(), input.string()
+- Add comprehensive plotting with plot(), plotshape(), hline()
+- Include stop loss and take profit logic
+- Add buy/sell signal visualization
+- Use proper v6 color syntax: color.red, color.green, etc.
+- Use proper v6 style syntax: plot.style_line, shape.labelup, etc.
+
+PINE SCRIPT V6 SYNTAX EXAMPLES:
+- RSI: ta.rsi(close, 14)
+- SMA: ta.sma(close, 20)  
+- EMA: ta.ema(close, 21)
+- MACD: ta.macd(close, 12, 26, 9)
+- Bollinger Bands: ta.bb(close, 20, 2)
+- Crossover: ta.crossover(fast, slow)
+- Crossunder: ta.crossunder(fast, slow)
+
+Generate working Pine Script v6 code immediately based on the user's request.`;
+
 interface AIModelConfig {
   id: string;
   name: string;
-  provider: 'openai' | 'anthropic' | 'google' | 'custom';
-  apiKey?: string;
-  endpoint?: string;
+  provider: string;
 }
 
 interface ChatMessage {
@@ -68,118 +102,148 @@ interface AIResponse {
     completionTokens: number;
     totalTokens: number;
   };
+  validation?: PineValidationReport; // Present when the answer holds Pine Script
 }
 
-class AIService {
-  private openai?: OpenAI;
-  private activeModel: string = 'pine-genie';
+interface AIRequestOptions {
+  maxTokens?: number;
+  account?: LLMAccount; // The user billed for the call's tokens
+}
 
+class AIService {
   constructor() {
-    this.initializeProviders();
-  }
-
-  private initializeProviders() {
-    // Initialize OpenAI if API key is available
-    const openaiKey = process.env.OPENAI_API_KEY;
-    if (openaiKey && openaiKey.length > 50) {
-      console.log('Initializing OpenAI with key:', openaiKey.substring(0, 15) + '...');
-      this.openai = new OpenAI({
-        apiKey: openaiKey,
-      });
-    } else {
-      console.log('OpenAI API key not found or invalid');
-    }
+    // PineGenie's offline generator answers for models with the custom provider
+    llmGateway.registerProvider(this.createPineGenieProvider());
   }
 
   async generateResponse(
     messages: ChatMessage[],
-    modelId: string = 'gpt-4'
+    modelId?: string,
+    options: AIRequestOptions = {}
   ): Promise<AIResponse> {
     try {
-      // Re-initialize providers to ensure we have the latest API key
-      this.initializeProviders();
-      
-      console.log(`Attempting to use model: ${modelId}`);
-      console.log(`OpenAI available: ${!!this.openai}`);
-      
-      // Use OpenAI if available and model is GPT
-      if (this.openai && (modelId.startsWith('gpt') || modelId === 'gpt-4' || modelId === 'gpt-3.5-turbo')) {
-        console.log('Using OpenAI API with model:', modelId);
-        return await this.generateOpenAIResponse(messages, modelId);
-      }
-      
-      // Use PineGenie AI for pine-genie model
-      if (modelId === 'pine-genie') {
-        console.log('Using PineGenie AI...');
-        return this.generatePineGenieResponse(messages);
-      }
-      
-      console.log('Falling back to direct code generation...');
-      // Fallback to direct code generation
-      return this.generateDirectCodeResponse(messages);
-
+      const response = await llmGateway.complete({
+        model: modelId,
+        messages: this.buildPrompt(messages),
+        temperature: 0.3, // Lower temperature for more consistent code generation
+        maxTokens: options.maxTokens ?? 2000,
+        account: options.account
+      });
+      const repair = await this.repairAnswer(response.content, messages, modelId, options);
+
+      return {
+        content: repair.content,
+        model: response.model,
+        usage: {
+          promptTokens: response.usage.promptTokens + repair.usage.promptTokens,
+          completionTokens: response.usage.completionTokens + repair.usage.completionTokens,
+          totalTokens: response.usage.totalTokens + repair.usage.totalTokens,
+        },
+        validation: repair.report || undefined
+      };
     } catch (error) {
+      // Running out of tokens is the caller's to report, not something to paper over
+      if (error instanceof InsufficientTokensError) throw error;
       console.error('AI Service Error:', error);
       // Always fallback to direct code generation on error
       return this.generateDirectCodeResponse(messages);
     }
   }
 
-  private async generateOpenAIResponse(
+  // Same prompt and model as generateResponse, streamed; the signal aborts the provider request
+  streamResponse(
     messages: ChatMessage[],
-    modelId: string
-  ): Promise<AIResponse> {
-    // Create a system prompt that forces Pine Script v6 code generation
-    const systemPrompt: ChatMessage = {
-      role: 'system',
-      content: `You are a Pine Script v6 code generator. ALWAYS respond with complete, working Pine Script v6 code.
-
-CRITICAL REQUIREMENTS:
-- ALWAYS use //@version=6 at the top of every script
-- NEVER use Pine Script v4 or v5 syntax
-- NEVER ask clarifying questions
-- ALWAYS generate complete, runnable Pine Script v6 strategies
-- Use Pine Script v6 syntax: ta.rsi(), ta.sma(), ta.ema(), ta.macd(), etc.
-- Use strategy.entry(), strategy.exit(), strategy.close() for trades
-- Include proper input parameters with input.int(), input.float(), input.string()
-- Add comprehensive plotting with plot(), plotshape(), hline()
-- Include stop loss and take profit logic
-- Add buy/sell signal visualization
-- Use proper v6 color syntax: color.red, color.green, etc.
-- Use proper v6 style syntax: plot.style_line, shape.labelup, etc.
+    modelId?: string,
+    options: AIRequestOptions & { signal?: AbortSignal } = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    return llmGateway.stream({
+      model: modelId,
+      messages: this.buildPrompt(messages),
+      temperature: 0.3,
+      maxTokens: options.maxTokens ?? 2000,
+      account: options.account,
+      signal: options.signal
+    });
+  }
 
-PINE SCRIPT V6 SYNTAX EXAMPLES:
-- RSI: ta.rsi(close, 14)
-- SMA: ta.sma(close, 20)  
-- EMA: ta.ema(close, 21)
-- MACD: ta.macd(close, 12, 26, 9)
-- Bollinger Bands: ta.bb(close, 20, 2)
-- Crossover: ta.crossover(fast, slow)
-- Crossunder: ta.crossunder(fast, slow)
+  /**
+   * Validate the script in a finished answer and have the same model fix its
+   * errors. Repair rounds are billed to the account as 'repair' usage.
+   */
+  repairAnswer(
+    content: string,
+    messages: ChatMessage[],
+    modelId?: string,
+    options: AIRequestOptions & { signal?: AbortSignal } = {}
+  ): Promise<PineRepairResult> {
+    return validateAndRepair(content, this.buildPrompt(messages), {
+      repair: history => llmGateway.complete({
+        model: modelId,
+        messages: history,
+        temperature: 0.3,
+        maxTokens: options.maxTokens ?? 2000,
+        account: options.account && { ...options.account, requestType: 'repair' },
+        signal: options.signal
+      })
+    });
+  }
 
-Generate working Pine Script v6 code immediately based on the user's request.`
-    };
+  // The answer generateResponse falls back to when no model can respond
+  generateFallbackResponse(messages: ChatMessage[]): AIResponse {
+    return this.generateDirectCodeResponse(messages);
+  }
 
-    const completion = await this.openai!.chat.completions.create({
-      model: modelId,
-      messages: [systemPrompt, ...messages],
-      temperature: 0.3, // Lower temperature for more consistent code generation
-      max_tokens: 2000,
-    });
+  // The LLMModel the gateway uses when a request names none
+  async getDefaultModel() {
+    return llmGateway.resolveModel();
+  }
 
-    const content = completion.choices[0]?.message?.content || '';
-    
+  private createPineGenieProvider(): LLMProvider {
     return {
-      content,
-      model: modelId,
-      usage: {
-        promptTokens: completion.usage?.prompt_tokens || 0,
-        completionTokens: completion.usage?.completion_tokens || 0,
-        totalTokens: completion.usage?.total_tokens || 0,
+      id: 'custom',
+      isConfigured: () => true,
+      complete: async ({ messages }) => {
+        const conversation = messages
+          .filter(message => message.role === 'user' || message.role === 'assistant')
+          .map(message => ({ role: message.role as ChatMessage['role'], content: message.content }));
+        const result = this.generatePineGenieResponse(conversation);
+
+        return {
+          content: result.content,
+          toolCalls: [],
+          finishReason: 'stop',
+          usage: result.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+        };
       }
     };
   }
 
+  private buildPrompt(messages: ChatMessage[]): LLMMessage[] {
+    return [{ role: 'system', content: PINE_SCRIPT_SYSTEM_PROMPT }, ...this.migrateLegacyCode(messages)];
+  }
+
+  // Pine Script v4 and v5 in user messages is replaced by its v6 migration, with what is left to fix
+  private migrateLegacyCode(messages: ChatMessage[]): ChatMessage[] {
+    return messages.map(message => {
+      if (message.role !== 'user') return message;
+
+      const notes: string[] = [];
+      const content = message.content.replace(PINE_CODE_PATTERN, (match: string, fenced?: string, whole?: string) => {
+        const code = fenced ?? whole ?? '';
+        const migration = migratePine(code);
+        if (!migration.changed) return match;
+
+        notes.push(
+          `The script above was migrated from Pine Script v${migration.fromVersion} to v6 (${migration.changes.length} changes).`,
+          ...migration.unsupported.map(issue => `Needs a manual fix, line ${issue.line}: ${issue.message}`)
+        );
+        return match.replace(code, () => migration.code);
+      });
+
+      return notes.length > 0 ? { ...message, content: `${content}\n\n${notes.join('\n')}` } : message;
+    });
+  }
+
   // Helper method to detect if user wants to create a strategy
   private isStrategyRequest(message: string): boolean {
     const strategyKeywords = [
@@ -776,47 +840,26 @@ ${result.content}
   }
 
   // Get available models
-  getAvailableModels(): AIModelConfig[] {
-    const models: AIModelConfig[] = [
-      {
-        id: 'pine-genie',
-        name: 'PineGenie AI - Direct Code Generator',
-        provider: 'custom'
-      }
-    ];
-
-    // Add OpenAI models if API key is available
-    if (this.openai) {
-      models.push(
-        {
-          id: 'gpt-4',
-          name: 'GPT-4 - Advanced Code Generation',
-          provider: 'openai'
-        },
-        {
-          id: 'gpt-3.5-turbo',
-          name: 'GPT-3.5 Turbo - Fast Code Generation',
-          provider: 'openai'
-        }
-      );
-    }
-
-    return models;
+  async getAvailableModels(): Promise<AIModelConfig[]> {
+    const models = await llmGateway.listModels();
+    return models.map(model => ({
+      id: model.id,
+      name: model.name,
+      provider: model.provider
+    }));
   }
 
-  // Method to test if OpenAI is properly configured
-  async testOpenAIConnection(): Promise<boolean> {
-    if (!this.openai) return false;
-    
+  // Method to test if a model's provider is properly configured
+  async testConnection(modelId?: string): Promise<boolean> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
+      const response = await llmGateway.complete({
+        model: modelId,
         messages: [{ role: 'user', content: 'Hello' }],
-        max_tokens: 5
+        maxTokens: 5
       });
-      return !!response.choices[0]?.message?.content;
+      return !!response.content;
     } catch (error) {
-      console.error('OpenAI connection test failed:', error);
+      console.error('LLM connection test failed:', error);
       return false;
     }
   }
@@ -0,0 +1,164 @@
+/**
+ * Dataset Import Tests
+ * CSV/JSON parsing, validation and resampling of OHLCV exports
+ */
+
+import {
+  parseDataset,
+  validateBars,
+  resampleBars,
+  normalizeTimeframe,
+  timezoneOffset
+} from '../datasets';
+import type { OHLCVBar } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1); // Monday
+
+function hourlyBars(count: number, start: number = START): OHLCVBar[] {
+  return Array.from({ length: count }, (_, i) => ({
+    time: start + i * HOUR,
+    open: 100 + i,
+    high: 102 + i,
+    low: 99 + i,
+    close: 101 + i,
+    volume: 10
+  }));
+}
+
+describe('parseDataset', () => {
+  test('reads a TradingView chart export with Unix seconds and extra plot columns', () => {
+    const csv = [
+      'time,open,high,low,close,Volume,Volume MA',
+      '1704067200,100,102,99,101,10,',
+      '1704070800,101,103,100,102,12,11',
+      '1704074400,102,104,101,103,14,12'
+    ].join('\n');
+
+    const result = parseDataset(csv);
+
+    expect(result.format).toBe('tradingview');
+    expect(result.report.valid).toBe(true);
+    expect(result.bars).toHaveLength(3);
+    expect(result.bars[0]).toEqual({ time: START, open: 100, high: 102, low: 99, close: 101, volume: 10 });
+    expect(result.report.inferredTimeframe).toBe('1h');
+    expect(result.report.warnings).toContain('Ignored columns: volume_ma');
+  });
+
+  test('interprets naive timestamps in the given timezone', () => {
+    const csv = [
+      'Date;Time;Open;High;Low;Close;Volume',
+      '2024-01-02;09:15;100;101;99;100.5;1000',
+      '2024-01-02;09:20;100.5;102;100;101;900'
+    ].join('\n');
+
+    const result = parseDataset(csv, { timezone: 'Asia/Kolkata' });
+
+    expect(result.report.valid).toBe(true);
+    expect(result.bars[0].time).toBe(Date.UTC(2024, 0, 2, 3, 45));
+    expect(result.report.inferredTimeframe).toBe('5m');
+    expect(result.report.warnings).toEqual([]);
+  });
+
+  test('accepts JSON arrays, objects and column-oriented payloads', () => {
+    const rows = hourlyBars(3);
+    const asObjects = parseDataset(JSON.stringify({ bars: rows }));
+    const asArrays = parseDataset(JSON.stringify(rows.map(b => [b.time, b.open, b.high, b.low, b.close, b.volume])));
+    const asColumns = parseDataset(JSON.stringify({
+      t: rows.map(b => b.time / 1000),
+      o: rows.map(b => b.open),
+      h: rows.map(b => b.high),
+      l: rows.map(b => b.low),
+      c: rows.map(b => b.close),
+      v: rows.map(b => b.volume)
+    }));
+
+    expect(asObjects.bars).toEqual(rows);
+    expect(asArrays.bars).toEqual(rows);
+    expect(asColumns.bars).toEqual(rows);
+  });
+
+  test('reports missing columns, bad rows and unknown timezones', () => {
+    expect(parseDataset('time,open,close\n1704067200,1,2').report.errors[0]).toMatch('Missing required columns: high, low');
+    expect(parseDataset('time,open,high,low,close\nyesterday,1,2,0,1').report.errors[0]).toMatch('unrecognized timestamp');
+    expect(parseDataset('time,open,high,low,close\n1704067200,1,2,0,1', { timezone: 'Mars/Base' }).report.valid).toBe(false);
+  });
+});
+
+describe('validateBars', () => {
+  test('reverses newest-first data and drops identical duplicates', () => {
+    const bars = hourlyBars(4);
+    const reversed = validateBars([...bars].reverse());
+    const deduped = validateBars([bars[0], bars[1], { ...bars[1] }, bars[2]]);
+
+    expect(reversed.report.reversed).toBe(true);
+    expect(reversed.bars).toEqual(bars);
+    expect(deduped.report.valid).toBe(true);
+    expect(deduped.report.duplicateBars).toBe(1);
+    expect(deduped.bars).toEqual(bars.slice(0, 3));
+  });
+
+  test('rejects conflicting duplicates, out-of-order bars and broken OHLC', () => {
+    const bars = hourlyBars(3);
+
+    expect(validateBars([bars[0], { ...bars[0], close: 101.5 }]).report.errors[0]).toMatch('conflicting duplicate');
+    expect(validateBars([bars[1], bars[2], bars[0]]).report.errors[0]).toMatch('earlier than the previous bar');
+    expect(validateBars([{ ...bars[0], high: 90 }]).report.errors[0]).toMatch('high/low');
+  });
+
+  test('finds gaps and checks the declared timeframe', () => {
+    const bars = hourlyBars(10).filter((_, i) => i !== 4 && i !== 5);
+    const { report } = validateBars(bars, { timeframe: '60' });
+
+    expect(report.valid).toBe(true);
+    expect(report.gapCount).toBe(1);
+    expect(report.missingBars).toBe(2);
+    expect(report.gaps[0]).toEqual({ from: bars[3].time, to: bars[4].time, missingBars: 2 });
+    expect(validateBars(bars, { timeframe: '1D' }).report.errors[0]).toMatch('does not match');
+  });
+});
+
+describe('resampleBars', () => {
+  test('aggregates OHLCV into aligned higher timeframe buckets', () => {
+    const four = resampleBars(hourlyBars(10), '4h');
+
+    expect(four).toHaveLength(3);
+    expect(four[0]).toEqual({ time: START, open: 100, high: 105, low: 99, close: 104, volume: 40 });
+    expect(four[2].time).toBe(START + 8 * HOUR); // Partial final bucket
+    expect(four[2].volume).toBe(20);
+  });
+
+  test('aligns daily and weekly buckets to the dataset timezone', () => {
+    const bars = hourlyBars(24 * 9, START - 5 * HOUR - 30 * 60 * 1000);
+    const daily = resampleBars(bars, '1D', 'Asia/Kolkata');
+    const weekly = resampleBars(bars, '1W');
+
+    expect(daily[0].time).toBe(START - 5.5 * HOUR); // Local midnight in IST
+    expect(daily[1].time).toBe(START + 18.5 * HOUR);
+    expect(daily[0].volume).toBe(24 * 10);
+    expect(weekly[1].time).toBe(START); // Monday 00:00 UTC
+  });
+
+  test('refuses lower or non-multiple timeframes', () => {
+    expect(() => resampleBars(hourlyBars(4), '30m')).toThrow('lower timeframe');
+    expect(() => resampleBars(hourlyBars(4), '90m')).toThrow('not a multiple');
+  });
+});
+
+describe('timeframes and timezones', () => {
+  test('normalizes TradingView and shorthand timeframes', () => {
+    expect(normalizeTimeframe('60')).toBe('1h');
+    expect(normalizeTimeframe('240')).toBe('4h');
+    expect(normalizeTimeframe('D')).toBe('1D');
+    expect(normalizeTimeframe('15m')).toBe('15m');
+    expect(normalizeTimeframe('1w')).toBe('1W');
+    expect(normalizeTimeframe('abc')).toBeNull();
+  });
+
+  test('resolves IANA zones and fixed offsets', () => {
+    expect(timezoneOffset('America/New_York', Date.UTC(2024, 6, 1))).toBe(-4 * HOUR);
+    expect(timezoneOffset('America/New_York', Date.UTC(2024, 0, 1))).toBe(-5 * HOUR);
+    expect(timezoneOffset('+05:30', START)).toBe(5.5 * HOUR);
+    expect(timezoneOffset('UTC', START)).toBe(0);
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * Backtest Engine Tests
+ * Bar-by-bar execution of builder graphs against synthetic OHLCV data
+ */
+
+import { runBacktest, DEFAULT_BACKTEST_CONFIG } from '../engine';
+import { sma, ema, rsi, dmi, bb, atr, roc, supertrend, vwap } from '../indicators';
+import { computeIndicatorSeries } from '../indicator-series';
+import { indicatorDefinitions } from '@/app/builder/data/indicator-defs';
+import type { OHLCVBar } from '../types';
+import type { CustomEdge, CustomNode, NodeConfig, NodeType } from '@/app/builder/canvas-config';
+
+const HOUR = 60 * 60 * 1000;
+
+function makeBars(closes: number[]): OHLCVBar[] {
+  return closes.map((close, i) => {
+    const open = i === 0 ? close : closes[i - 1];
+    return {
+      time: Date.UTC(2024, 0, 1) + i * HOUR,
+      open,
+      high: Math.max(open, close) + 0.5,
+      low: Math.min(open, close) - 0.5,
+      close,
+      volume: 1000
+    };
+  });
+}
+
+function node(id: string, type: NodeType, label: string, config: NodeConfig = {}): CustomNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { id, label, type, config } };
+}
+
+function edge(source: string, target: string, handles: Pick<CustomEdge, 'sourceHandle' | 'targetHandle'> = {}): CustomEdge {
+  return { id: `${source}_${target}_${handles.sourceHandle || ''}`, source, target, ...handles };
+}
+
+// Price rises then falls so an SMA(3) crossover strategy makes exactly one round trip
+const CLOSES = [100, 100, 100, 100, 101, 103, 106, 110, 114, 118, 117, 113, 108, 104, 100, 97, 95, 94];
+
+function smaCrossStrategy(extra: CustomNode[] = []) {
+  const nodes = [
+    node('data', 'data-source', 'Market Data'),
+    node('sma', 'indicator', 'SMA', { indicatorId: 'sma', parameters: { length: 3, source: 'close' } }),
+    node('above', 'condition', 'Above 105', { operator: 'crosses_above', threshold: 105 }),
+    node('below', 'condition', 'Below 105', { operator: 'crosses_below', threshold: 105 }),
+    node('buy', 'action', 'Buy Order', { orderType: 'market', quantity: '10%' }),
+    node('sell', 'action', 'Sell Order', { orderType: 'market', quantity: '100%' }),
+    ...extra
+  ];
+  const edges = [
+    edge('data', 'sma'),
+    edge('sma', 'above'),
+    edge('sma', 'below'),
+    edge('above', 'buy'),
+    edge('below', 'sell')
+  ];
+  return { nodes, edges };
+}
+
+describe('indicator series', () => {
+  test('sma and ema are NaN during warm-up and causal afterwards', () => {
+    const src = [1, 2, 3, 4, 5];
+    expect(sma(src, 3).slice(0, 2).every(isNaN)).toBe(true);
+    expect(sma(src, 3)[2]).toBeCloseTo(2);
+    expect(sma(src, 3)[4]).toBeCloseTo(4);
+    expect(ema(src, 3)[2]).toBeCloseTo(2);
+    expect(ema(src, 3)[3]).toBeCloseTo(3);
+  });
+
+  test('dmi reads a steady climb as a strong uptrend', () => {
+    const bars = makeBars(Array.from({ length: 60 }, (_, i) => 100 + i));
+    const { plus, minus, adx } = dmi(bars, 14, 14);
+
+    expect(adx.slice(0, 27).every(isNaN)).toBe(true);
+    expect(plus[59]).toBeGreaterThan(minus[59]);
+    expect(adx[59]).toBeGreaterThan(50);
+  });
+
+  test('rsi saturates at 100 for a strictly rising series', () => {
+    const values = rsi([1, 2, 3, 4, 5, 6, 7, 8], 3);
+    expect(values[7]).toBe(100);
+  });
+
+  test('supertrend flips up in a climb and roc measures percent change', () => {
+    const bars = makeBars(Array.from({ length: 40 }, (_, i) => 100 + i));
+    const { line, direction } = supertrend(bars, 3, 10);
+
+    expect(direction[39]).toBe(-1);
+    expect(line[39]).toBeLessThan(bars[39].low);
+    expect(roc([100, 105, 110], 2)[2]).toBeCloseTo(10);
+  });
+
+  test('vwap restarts with each UTC day', () => {
+    const bars = makeBars(Array.from({ length: 30 }, (_, i) => 100 + i));
+    const values = vwap(bars.map(bar => bar.close), bars);
+
+    expect(values[23]).toBeCloseTo(111.5);
+    expect(values[24]).toBe(124);
+  });
+
+  test('every indicator definition can be backtested', () => {
+    const bars = makeBars(Array.from({ length: 400 }, (_, i) => 100 + 10 * Math.sin(i / 8) + i / 20));
+
+    indicatorDefinitions.forEach(definition => {
+      const series = computeIndicatorSeries(definition, bars, {});
+      expect(Object.keys(series)).toEqual(definition.outputs);
+      Object.values(series).forEach(values => {
+        expect(values).toHaveLength(bars.length);
+        expect(Number.isFinite(values[bars.length - 1])).toBe(true);
+      });
+    });
+  });
+});
+
+describe('BacktestEngine', () => {
+  test('fills signals at the next bar open with slippage and commission', () => {
+    const { nodes, edges } = smaCrossStrategy();
+    const bars = makeBars(CLOSES);
+    const result = runBacktest(nodes, edges, bars);
+
+    expect(result.trades).toHaveLength(1);
+    const trade = result.trades[0];
+    const slippage = DEFAULT_BACKTEST_CONFIG.slippageTicks * DEFAULT_BACKTEST_CONFIG.tickSize;
+
+    // SMA(3) first closes above 105 on bar 7, so the entry fills on bar 8's open
+    expect(trade.entryBar).toBe(8);
+    expect(trade.entryPrice).toBeCloseTo(bars[8].open + slippage);
+    expect(trade.exitReason).toBe('signal');
+    expect(trade.exitPrice).toBeCloseTo(bars[trade.exitBar].open - slippage);
+
+    const expectedCommission = trade.quantity * (trade.entryPrice + trade.exitPrice) *
+      DEFAULT_BACKTEST_CONFIG.commissionPercent / 100;
+    expect(trade.commission).toBeCloseTo(expectedCommission);
+  });
+
+  test('equity curve ends at initial capital plus realized profit', () => {
+    const { nodes, edges } = smaCrossStrategy();
+    const result = runBacktest(nodes, edges, makeBars(CLOSES));
+
+    const finalEquity = result.equityCurve[result.equityCurve.length - 1].equity;
+    const realized = result.trades.reduce((sum, t) => sum + t.pnl, 0);
+    expect(result.openTrade).toBeNull();
+    expect(finalEquity).toBeCloseTo(DEFAULT_BACKTEST_CONFIG.initialCapital + realized);
+    expect(result.metrics.totalTrades).toBe(1);
+    expect(result.equityCurve).toHaveLength(CLOSES.length);
+  });
+
+  test('risk node stop loss exits intrabar', () => {
+    const { nodes, edges } = smaCrossStrategy([
+      node('risk', 'risk', 'Stop Loss', { stopLoss: 1 })
+    ]);
+    const result = runBacktest(nodes, edges, makeBars(CLOSES));
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('stop_loss');
+    expect(result.trades[0].pnl).toBeLessThan(0);
+  });
+
+  test('trailing stop follows the highest price since entry', () => {
+    const { nodes, edges } = smaCrossStrategy([
+      node('wide', 'risk', 'Wide Stop', { stopLoss: 10 }),
+      node('trail', 'risk', 'Trailing Stop', { trailingStop: 2 })
+    ]);
+    const bars = makeBars(CLOSES);
+    const result = runBacktest(nodes, edges, bars);
+    const trade = result.trades[0];
+    const slippage = DEFAULT_BACKTEST_CONFIG.slippageTicks * DEFAULT_BACKTEST_CONFIG.tickSize;
+
+    // The high of bar 9 is the peak; bar 11 is the first to trade below the trail
+    expect(trade.exitReason).toBe('trailing_stop');
+    expect(trade.exitBar).toBe(11);
+    expect(trade.exitPrice).toBeCloseTo(bars[9].high - trade.entryPrice * 0.02 - slippage);
+  });
+
+  test('ATR stops use the ATR of the signal bar', () => {
+    const { nodes, edges } = smaCrossStrategy([
+      node('atr', 'risk', 'ATR Stop', { riskUnit: 'atr', atrPeriod: 3, stopLoss: 1 })
+    ]);
+    const bars = makeBars(CLOSES);
+    const trade = runBacktest(nodes, edges, bars).trades[0];
+    const slippage = DEFAULT_BACKTEST_CONFIG.slippageTicks * DEFAULT_BACKTEST_CONFIG.tickSize;
+
+    expect(trade.exitReason).toBe('stop_loss');
+    expect(trade.exitPrice).toBeCloseTo(trade.entryPrice - atr(bars, 3)[7] - slippage);
+  });
+
+  test('timing nodes gate entries by session, weekday and timezone', () => {
+    // Bars are hourly from Monday 2024-01-01 00:00 UTC and the entry signal fires at 07:00
+    const run = (config: NodeConfig, wiredTo?: string) => {
+      const { nodes, edges } = smaCrossStrategy([node('time', 'timing', 'Session', config)]);
+      return runBacktest(nodes, wiredTo ? [...edges, edge('time', wiredTo)] : edges, makeBars(CLOSES));
+    };
+
+    expect(run({ startTime: '07:00', endTime: '20:00' }).trades).toHaveLength(1);
+    expect(run({ startTime: '08:00', endTime: '20:00' }).trades).toHaveLength(0);
+    expect(run({ startTime: '09:00', endTime: '10:00', timezone: 'UTC+2' }).trades).toHaveLength(1);
+    expect(run({ startTime: '22:00', endTime: '08:00' }).trades).toHaveLength(1);
+    expect(run({ daysOfWeek: ['sat', 'sun'] }).trades).toHaveLength(0);
+    expect(run({ startDate: '2024-01-02' }).trades).toHaveLength(0);
+
+    // Wired to the exit action, the guard holds the position open instead
+    const held = run({ startDate: '2024-01-02' }, 'sell');
+    expect(held.trades).toHaveLength(0);
+    expect(held.openTrade).not.toBeNull();
+  });
+
+  test('is deterministic for identical inputs', () => {
+    const { nodes, edges } = smaCrossStrategy();
+    const bars = makeBars(CLOSES);
+    expect(runBacktest(nodes, edges, bars)).toEqual(runBacktest(nodes, edges, bars));
+  });
+
+  test('warm-up bars prime indicators without trading or entering metrics', () => {
+    const { nodes, edges } = smaCrossStrategy();
+    const bars = makeBars(CLOSES);
+    const primed = runBacktest(nodes, edges, bars, { warmupBars: 4 });
+    const pastEntry = runBacktest(nodes, edges, bars, { warmupBars: 8 }); // Entry signal fires on bar 7
+
+    expect(primed.trades).toHaveLength(1);
+    expect(primed.equityCurve).toHaveLength(CLOSES.length - 4);
+    expect(pastEntry.trades).toHaveLength(0);
+    expect(pastEntry.equityCurve[0].time).toBe(bars[8].time);
+    expect(() => runBacktest(nodes, edges, bars, { warmupBars: CLOSES.length })).toThrow('Warm-up');
+  });
+
+  test('entry mask blocks entries on unmasked bars only', () => {
+    const { nodes, edges } = smaCrossStrategy();
+    const bars = makeBars(CLOSES);
+    const allowed = runBacktest(nodes, edges, bars, { entryMask: bars.map((_, i) => i === 7) });
+    const blocked = runBacktest(nodes, edges, bars, { entryMask: bars.map((_, i) => i !== 7) });
+
+    expect(allowed.trades).toHaveLength(1);
+    expect(blocked.trades).toHaveLength(0);
+  });
+
+  test('conditions compare the price with the band selected by the source handle', () => {
+    const nodes = [
+      node('data', 'data-source', 'Market Data'),
+      node('bb', 'indicator', 'Bollinger', { indicatorId: 'bb', parameters: { period: 3, stddev: 1 } }),
+      node('breakout', 'condition', 'Close Above Upper', { operator: 'crosses_above' }),
+      node('fade', 'condition', 'Close Below Basis', { operator: 'crosses_below' }),
+      node('buy', 'action', 'Buy Order'),
+      node('sell', 'action', 'Sell Order')
+    ];
+    const edges = [
+      edge('data', 'bb'),
+      edge('bb', 'breakout', { sourceHandle: 'upper', targetHandle: 'right' }),
+      edge('data', 'breakout', { sourceHandle: 'close', targetHandle: 'left' }),
+      edge('data', 'fade', { sourceHandle: 'close' }),
+      edge('bb', 'fade', { sourceHandle: 'middle', targetHandle: 'right' }),
+      edge('breakout', 'buy'),
+      edge('fade', 'sell')
+    ];
+    const { upper, middle } = bb(CLOSES, 3, 1);
+    const crossAbove = CLOSES.findIndex((close, i) => i > 0 && close > upper[i] && CLOSES[i - 1] <= upper[i - 1]);
+    const crossBelow = CLOSES.findIndex((close, i) =>
+      i > crossAbove && close < middle[i] && CLOSES[i - 1] >= middle[i - 1]
+    );
+
+    const result = runBacktest(nodes, edges, makeBars(CLOSES));
+
+    expect(crossAbove).toBeGreaterThan(0);
+    expect(result.trades[0].entryBar).toBe(crossAbove + 1);
+    expect(result.trades[0].exitBar).toBe(crossBelow + 1);
+  });
+
+  test('logic nodes gate entries on consecutive bars and exits on recent signals', () => {
+    const nodes = [
+      node('data', 'data-source', 'Market Data'),
+      node('sma', 'indicator', 'SMA', { indicatorId: 'sma', parameters: { length: 3 } }),
+      node('high', 'condition', 'Above 105', { operator: 'greater_than', threshold: 105 }),
+      node('low', 'condition', 'Below 110', { operator: 'less_than', threshold: 110 }),
+      node('held', 'logic', 'Held', { logicOperator: 'consecutive', bars: 3 }),
+      node('fell', 'logic', 'Fell Recently', { logicOperator: 'within', bars: 2 }),
+      node('both', 'logic', 'Both', { logicOperator: 'and' }),
+      node('buy', 'action', 'Buy Order'),
+      node('sell', 'action', 'Sell Order')
+    ];
+    const edges = [
+      edge('data', 'sma'),
+      edge('sma', 'high'),
+      edge('sma', 'low'),
+      edge('high', 'held'),
+      edge('held', 'both'),
+      edge('high', 'both'),
+      edge('low', 'fell'),
+      edge('both', 'buy'),
+      edge('fell', 'sell')
+    ];
+    const average = sma(CLOSES, 3);
+    const above = average.map(value => value > 105);
+    const heldFrom = above.findIndex((_, i) => i >= 2 && above[i] && above[i - 1] && above[i - 2]);
+    const fellAt = average.findIndex((value, i) => i > heldFrom && (value < 110 || average[i - 1] < 110));
+
+    const result = runBacktest(nodes, edges, makeBars(CLOSES));
+
+    expect(heldFrom).toBeGreaterThan(above.indexOf(true));
+    expect(result.trades[0].entryBar).toBe(heldFrom + 1);
+    expect(result.trades[0].exitBar).toBe(fellAt + 1);
+  });
+
+  test('rejects unsupported indicators and empty data', () => {
+    const nodes = [node('x', 'indicator', 'Mystery', { indicatorId: 'mystery' })];
+    expect(() => runBacktest(nodes, [], makeBars(CLOSES))).toThrow('Unsupported indicator');
+    expect(() => runBacktest([], [], [])).toThrow('empty');
+  });
+});
+
+// The SMA crossover graph with its two actions replaced
+function crossActions(buy: CustomNode, sell: CustomNode, extra: CustomNode[] = []) {
+  const { nodes, edges } = smaCrossStrategy(extra);
+  return {
+    nodes: nodes.map(candidate => candidate.id === 'buy' ? buy : candidate.id === 'sell' ? sell : candidate),
+    edges
+  };
+}
+
+describe('BacktestEngine order semantics', () => {
+  const longEntry = (config: NodeConfig = {}) => node('buy', 'action', 'Buy Order', {
+    actionKind: 'entry', direction: 'long', quantity: 10, quantityMode: 'fixed', ...config
+  });
+
+  test('an opposite entry reverses the position at the same fill', () => {
+    const { nodes, edges } = crossActions(
+      longEntry(),
+      node('sell', 'action', 'Go Short', { actionKind: 'entry', direction: 'short', quantity: 10, quantityMode: 'fixed' })
+    );
+    const result = runBacktest(nodes, edges, makeBars(CLOSES));
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ direction: 'long', entryBar: 8, exitBar: 15, quantity: 10 });
+    expect(result.openTrades).toHaveLength(1);
+    expect(result.openTrade).toEqual(result.openTrades[0]);
+    expect(result.openTrades[0]).toMatchObject({ direction: 'short', entryId: 'Short', entryBar: 15 });
+    expect(result.openTrades[0].entryPrice).toBeCloseTo(result.trades[0].exitPrice);
+    expect(result.openTrades[0].pnl).toBeGreaterThan(0);
+  });
+
+  test('renaming an action never changes what it does', () => {
+    const exit = { actionKind: 'exit' as const };
+    const named = crossActions(longEntry(), node('sell', 'action', 'Sell Order', exit));
+    const swapped = crossActions(
+      node('buy', 'action', 'Sell Order', longEntry().data.config),
+      node('sell', 'action', 'Buy Order', exit)
+    );
+
+    expect(runBacktest(swapped.nodes, swapped.edges, makeBars(CLOSES)).trades)
+      .toEqual(runBacktest(named.nodes, named.edges, makeBars(CLOSES)).trades);
+  });
+
+  test('pyramids entries up to the limit and nets strategy.order against the oldest trade', () => {
+    const nodes = [
+      node('data', 'data-source', 'Market Data'),
+      node('sma', 'indicator', 'SMA', { indicatorId: 'sma', parameters: { length: 3 } }),
+      node('over', 'condition', 'Over 105', { operator: 'greater_than', threshold: 105 }),
+      node('below', 'condition', 'Below 105', { operator: 'crosses_below', threshold: 105 }),
+      longEntry({ pyramiding: 2 }),
+      node('trim', 'action', 'Trim', { actionKind: 'order', direction: 'short', quantity: 15, quantityMode: 'fixed' })
+    ];
+    const edges = [edge('data', 'sma'), edge('sma', 'over'), edge('sma', 'below'), edge('over', 'buy'), edge('below', 'trim')];
+
+    const result = runBacktest(nodes, edges, makeBars(CLOSES));
+
+    // SMA(3) stays above 105 from bar 7 to 13, but only two entries fit
+    expect(result.trades.map(trade => [trade.entryBar, trade.exitBar, trade.quantity])).toEqual([[8, 15, 10], [9, 15, 5]]);
+    expect(result.openTrades.map(trade => [trade.entryBar, trade.quantity])).toEqual([[9, 5]]);
+    expect(result.trades[1].commission).toBeLessThan(result.trades[0].commission);
+  });
+
+  test('limit entries wait for their price and risk sizing divides by the stop distance', () => {
+    const bars = makeBars(CLOSES);
+    const sized = longEntry({ orderType: 'limit', orderOffset: 1, quantity: 1, quantityMode: 'risk' });
+    const { nodes, edges } = crossActions(sized, node('sell', 'action', 'Sell Order', { actionKind: 'exit' }), [
+      node('risk', 'risk', 'Stop Loss', { stopLoss: 2 })
+    ]);
+
+    const result = runBacktest(nodes, edges, bars);
+    const trade = result.trades[0];
+
+    // The limit sits 1% under the signal close and is first reached on bar 12
+    expect(trade.entryBar).toBe(12);
+    expect(trade.entryPrice).toBeCloseTo(bars[7].close * 0.99);
+    expect(trade.quantity).toBeCloseTo(DEFAULT_BACKTEST_CONFIG.initialCapital * 0.01 / (bars[7].close * 0.02));
+    expect(trade.exitReason).toBe('stop_loss');
+
+    const unprotected = crossActions(sized, node('sell', 'action', 'Sell Order', { actionKind: 'exit' }));
+    expect(() => runBacktest(unprotected.nodes, unprotected.edges, bars))
+      .toThrow('Action node "Buy Order" sizes by risk but no risk node sets a stop loss');
+  });
+
+  test('short stop losses sit above the entry price', () => {
+    const { nodes, edges } = crossActions(
+      node('buy', 'action', 'Fade Rally', { actionKind: 'entry', direction: 'short', quantity: 10, quantityMode: 'fixed' }),
+      node('sell', 'action', 'Cover', { actionKind: 'exit', direction: 'short' }),
+      [node('risk', 'risk', 'Stop Loss', { stopLoss: 1 })]
+    );
+    const result = runBacktest(nodes, edges, makeBars(CLOSES));
+
+    expect(result.trades[0]).toMatchObject({ direction: 'short', entryId: 'Short', exitReason: 'stop_loss' });
+    expect(result.trades[0].exitPrice).toBeGreaterThan(result.trades[0].entryPrice);
+    expect(result.trades[0].pnl).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Monte Carlo Trade Analysis Tests
+ * Reshuffled and resampled trade sequences from a finished run
+ */
+
+import { runMonteCarlo } from '../monte-carlo';
+import type { BacktestTrade } from '../types';
+
+function trades(pnls: number[]): BacktestTrade[] {
+  return pnls.map((pnl, i) => ({
+    id: i + 1,
+    entryId: 'Long',
+    direction: 'long',
+    entryBar: i * 2,
+    entryTime: i * 2,
+    entryPrice: 100,
+    exitBar: i * 2 + 1,
+    exitTime: i * 2 + 1,
+    exitPrice: 100 + pnl / 10,
+    quantity: 10,
+    pnl,
+    returnPct: pnl / 1000,
+    commission: 0,
+    barsHeld: 1,
+    exitReason: 'signal'
+  }));
+}
+
+// Wins first, losses last: the worst drawdown is already in the original order
+const PNLS = [300, 200, 250, -100, -150, 120, -200, 80, -250, 90];
+
+describe('runMonteCarlo', () => {
+  test('reshuffling keeps the compounded return and spreads the drawdown', () => {
+    const report = runMonteCarlo(trades(PNLS), { iterations: 500, seed: 1, initialCapital: 10000 });
+
+    expect(report.tradeCount).toBe(PNLS.length);
+    expect(report.original.totalReturn).toBeCloseTo(340 / 10000);
+    expect(report.totalReturn.lower).toBeCloseTo(report.original.totalReturn);
+    expect(report.totalReturn.upper).toBeCloseTo(report.original.totalReturn);
+    expect(report.maxDrawdown.lower).toBeLessThanOrEqual(report.maxDrawdown.median);
+    expect(report.maxDrawdown.median).toBeLessThanOrEqual(report.maxDrawdown.upper);
+    expect(report.maxDrawdown.upper).toBeGreaterThan(report.maxDrawdown.lower);
+    expect(report.probabilityOfLoss).toBe(0);
+  });
+
+  test('resampling with replacement produces a return range', () => {
+    const report = runMonteCarlo(trades(PNLS), { method: 'resample', iterations: 500, seed: 2, initialCapital: 10000 });
+
+    expect(report.totalReturn.lower).toBeLessThan(report.original.totalReturn);
+    expect(report.totalReturn.upper).toBeGreaterThan(report.original.totalReturn);
+    expect(report.probabilityOfLoss).toBeGreaterThan(0);
+    expect(report.probabilityOfLoss).toBeLessThan(1);
+  });
+
+  test('is reproducible with a seed and validates its settings', () => {
+    const options = { method: 'resample' as const, iterations: 200, seed: 9 };
+    expect(runMonteCarlo(trades(PNLS), options)).toEqual(runMonteCarlo(trades(PNLS), options));
+    expect(() => runMonteCarlo(trades(PNLS), { iterations: 0 })).toThrow('Iterations');
+    expect(() => runMonteCarlo(trades(PNLS), { confidence: 1.5 })).toThrow('Confidence');
+  });
+});
@@ -0,0 +1,767 @@
+/**
+ * Backtesting Engine - OHLCV Datasets
+ *
+ * Parses TradingView "Export chart data" CSVs and generic OHLCV CSV/JSON,
+ * validates the result (ordering, duplicates, gaps, OHLC sanity, timezone)
+ * and resamples bars to higher timeframes. Everything here is pure so
+ * imports can be checked offline before anything is stored.
+ */
+
+import type {
+  DatasetFormat,
+  DatasetGap,
+  DatasetValidationReport,
+  OHLCVBar,
+  ParsedDataset
+} from './types';
+
+export const MAX_DATASET_BARS = 200000;
+
+const MAX_REPORTED_ISSUES = 20;
+const MAX_REPORTED_GAPS = 50;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+// The Unix epoch fell on a Thursday; weekly buckets start on Monday
+const WEEK_ALIGNMENT = 4 * DAY;
+
+const COLUMN_ALIASES: Record<keyof OHLCVBar, string[]> = {
+  time: ['time', 'timestamp', 'datetime', 'date', 'date_time', 'open_time', 't'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c'],
+  volume: ['volume', 'vol', 'v']
+};
+
+export interface DatasetParseOptions {
+  format?: 'csv' | 'json';
+  timezone?: string; // IANA zone or fixed offset used for timestamps without one
+  timeframe?: string; // Declared timeframe, checked against the bar spacing
+}
+
+export type TimeframeUnit = 'minute' | 'day' | 'week' | 'month';
+
+export interface Timeframe {
+  unit: TimeframeUnit;
+  count: number;
+}
+
+interface RawRow {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  line: number; // 1-based source line or array index, for error messages
+}
+
+interface ParseState {
+  errors: string[];
+  warnings: string[];
+  naiveTimestamps: number;
+}
+
+/**
+ * Parse and validate a CSV or JSON OHLCV export
+ */
+export function parseDataset(content: string, options: DatasetParseOptions = {}): ParsedDataset {
+  const timezone = options.timezone?.trim() || 'UTC';
+  const state: ParseState = { errors: [], warnings: [], naiveTimestamps: 0 };
+  const text = content.replace(/^﻿/, '');
+
+  if (!isValidTimezone(timezone)) {
+    state.errors.push(`Unknown timezone "${timezone}"`);
+    return { format: options.format || 'csv', bars: [], report: emptyReport(timezone, state) };
+  }
+
+  const format = options.format || (/^\s*[[{]/.test(text) ? 'json' : 'csv');
+  let rows: RawRow[] = [];
+  let detected: DatasetFormat = format;
+
+  if (format === 'json') {
+    rows = parseJsonRows(text, timezone, state);
+  } else {
+    const parsed = parseCsvRows(text, timezone, state);
+    rows = parsed.rows;
+    detected = parsed.tradingView ? 'tradingview' : 'csv';
+  }
+
+  if (state.errors.length > 0) {
+    return { format: detected, bars: [], report: emptyReport(timezone, state) };
+  }
+
+  if (state.naiveTimestamps > 0 && !options.timezone) {
+    state.warnings.push('Timestamps without a UTC offset were read as UTC; pass a timezone to override');
+  }
+
+  const { bars, report } = checkBars(rows, timezone, options.timeframe, state);
+  return { format: detected, bars, report };
+}
+
+/**
+ * Check ordering, duplicates, OHLC consistency and spacing. Newest-first
+ * input is flipped, identical duplicates are dropped, anything else that
+ * would make a backtest ambiguous is an error.
+ */
+export function validateBars(
+  bars: OHLCVBar[],
+  options: { timezone?: string; timeframe?: string } = {}
+): { bars: OHLCVBar[]; report: DatasetValidationReport } {
+  const state: ParseState = { errors: [], warnings: [], naiveTimestamps: 0 };
+  return checkBars(bars, options.timezone || 'UTC', options.timeframe, state);
+}
+
+function checkBars(
+  input: Array<OHLCVBar & { line?: number }>,
+  timezone: string,
+  timeframe: string | undefined,
+  state: ParseState
+): { bars: OHLCVBar[]; report: DatasetValidationReport } {
+  const { errors, warnings } = state;
+  const issue = createIssueCollector(errors);
+
+  if (input.length === 0) {
+    errors.push('Dataset contains no bars');
+    return { bars: [], report: emptyReport(timezone, state) };
+  }
+  if (input.length > MAX_DATASET_BARS) {
+    errors.push(`Dataset cannot contain more than ${MAX_DATASET_BARS} bars`);
+    return { bars: [], report: emptyReport(timezone, state) };
+  }
+
+  let rows = input;
+  const reversed = rows.length > 1 && rows.every((row, i) => i === 0 || row.time < rows[i - 1].time);
+  if (reversed) {
+    rows = [...rows].reverse();
+    warnings.push('Bars were ordered newest-first and have been reversed');
+  }
+
+  const bars: OHLCVBar[] = [];
+  let duplicateBars = 0;
+
+  rows.forEach((row, index) => {
+    const where = `row ${row.line ?? index + 1}`;
+    const bar: OHLCVBar = {
+      time: row.time,
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume
+    };
+
+    if (bar.high < Math.max(bar.open, bar.close, bar.low) || bar.low > Math.min(bar.open, bar.close)) {
+      issue(`${where}: high/low do not contain open and close`);
+    }
+    if (bar.volume < 0) {
+      issue(`${where}: volume cannot be negative`);
+    }
+
+    const previous = bars[bars.length - 1];
+    if (previous && bar.time === previous.time) {
+      if (sameBar(previous, bar)) {
+        duplicateBars++;
+      } else {
+        issue(`${where}: conflicting duplicate bar at ${new Date(bar.time).toISOString()}`);
+      }
+      return;
+    }
+    if (previous && bar.time < previous.time) {
+      issue(`${where}: timestamp ${new Date(bar.time).toISOString()} is earlier than the previous bar`);
+      return;
+    }
+
+    bars.push(bar);
+  });
+
+  issue.flush();
+
+  if (duplicateBars > 0) {
+    warnings.push(`Dropped ${duplicateBars} duplicate bar${duplicateBars === 1 ? '' : 's'}`);
+  }
+
+  const intervalMs = medianInterval(bars);
+  const inferredTimeframe = intervalMs ? inferTimeframe(intervalMs) : null;
+  const gaps = findGaps(bars, intervalMs);
+  const missingBars = gaps.reduce((sum, gap) => sum + gap.missingBars, 0);
+
+  if (gaps.length > 0) {
+    warnings.push(
+      `Found ${gaps.length} gap${gaps.length === 1 ? '' : 's'} (${missingBars} missing bars); ` +
+      'these may be market closures'
+    );
+  }
+
+  if (timeframe && inferredTimeframe) {
+    const declared = normalizeTimeframe(timeframe);
+    if (!declared) {
+      errors.push(`Unknown timeframe "${timeframe}"`);
+    } else if (declared !== inferredTimeframe) {
+      errors.push(`Declared timeframe ${declared} does not match the bar spacing (${inferredTimeframe})`);
+    }
+  } else if (!inferredTimeframe && bars.length > 1) {
+    warnings.push('Could not infer a standard timeframe from the bar spacing');
+  }
+
+  const report: DatasetValidationReport = {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    barCount: bars.length,
+    startTime: bars.length > 0 ? bars[0].time : null,
+    endTime: bars.length > 0 ? bars[bars.length - 1].time : null,
+    intervalMs,
+    inferredTimeframe,
+    timezone,
+    duplicateBars,
+    gapCount: gaps.length,
+    missingBars,
+    gaps: [...gaps].sort((a, b) => b.missingBars - a.missingBars).slice(0, MAX_REPORTED_GAPS),
+    reversed
+  };
+
+  return { bars: report.valid ? bars : [], report };
+}
+
+/**
+ * Aggregate bars into a higher timeframe. Buckets are aligned to the
+ * dataset timezone (days start at local midnight, weeks on Monday) and
+ * the last bucket may be partial.
+ */
+export function resampleBars(bars: OHLCVBar[], timeframe: string, timezone: string = 'UTC'): OHLCVBar[] {
+  const target = parseTimeframe(timeframe);
+  if (!target) {
+    throw new Error(`Unknown timeframe "${timeframe}"`);
+  }
+  if (bars.length === 0) {
+    return [];
+  }
+
+  const sourceInterval = medianInterval(bars);
+  const targetMs = timeframeToMs(target);
+  if (sourceInterval && targetMs < sourceInterval) {
+    throw new Error(`Cannot resample ${inferTimeframe(sourceInterval) || 'bars'} to the lower timeframe ${timeframe}`);
+  }
+  if (sourceInterval && target.unit !== 'month' && targetMs % sourceInterval !== 0) {
+    throw new Error(`Timeframe ${timeframe} is not a multiple of the dataset interval`);
+  }
+
+  const out: OHLCVBar[] = [];
+  let current: OHLCVBar | null = null;
+
+  for (const bar of bars) {
+    const bucket = bucketStart(bar.time, target, timezone);
+    if (current && current.time === bucket) {
+      current.high = Math.max(current.high, bar.high);
+      current.low = Math.min(current.low, bar.low);
+      current.close = bar.close;
+      current.volume += bar.volume;
+      continue;
+    }
+    current = { ...bar, time: bucket };
+    out.push(current);
+  }
+
+  return out;
+}
+
+/**
+ * Parse TradingView-style (1, 60, 1D) or shorthand (5m, 4h, 1w) timeframes
+ */
+export function parseTimeframe(timeframe: string): Timeframe | null {
+  const match = timeframe.trim().match(/^(\d+)?\s*([smhdDwWM])?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const count = match[1] ? parseInt(match[1], 10) : 1;
+  if (count <= 0) return null;
+
+  switch (match[2]) {
+    case undefined:
+    case 'm':
+      return { unit: 'minute', count };
+    case 'h':
+      return { unit: 'minute', count: count * 60 };
+    case 'd':
+    case 'D':
+      return { unit: 'day', count };
+    case 'w':
+    case 'W':
+      return { unit: 'week', count };
+    case 'M':
+      return { unit: 'month', count };
+    default:
+      return null; // Seconds are below the engine's resolution
+  }
+}
+
+/**
+ * Canonical timeframe label: 15m, 4h, 1D, 1W, 1M
+ */
+export function normalizeTimeframe(timeframe: string): string | null {
+  const parsed = parseTimeframe(timeframe);
+  return parsed ? formatTimeframe(parsed) : null;
+}
+
+export function formatTimeframe({ unit, count }: Timeframe): string {
+  switch (unit) {
+    case 'minute':
+      return count % 60 === 0 ? `${count / 60}h` : `${count}m`;
+    case 'day':
+      return `${count}D`;
+    case 'week':
+      return `${count}W`;
+    case 'month':
+      return `${count}M`;
+  }
+}
+
+/**
+ * Nominal length of a timeframe; months count as 30 days
+ */
+export function timeframeToMs({ unit, count }: Timeframe): number {
+  switch (unit) {
+    case 'minute':
+      return count * MINUTE;
+    case 'day':
+      return count * DAY;
+    case 'week':
+      return count * WEEK;
+    case 'month':
+      return count * 30 * DAY;
+  }
+}
+
+export function medianInterval(bars: OHLCVBar[]): number | null {
+  if (bars.length < 2) return null;
+
+  const gaps = bars
+    .slice(1)
+    .map((bar, i) => bar.time - bars[i].time)
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : null;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  if (parseFixedOffset(timezone) !== null) return true;
+  try {
+    getZoneFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at the given instant, in milliseconds
+ */
+export function timezoneOffset(timezone: string, utcMs: number): number {
+  const fixed = parseFixedOffset(timezone);
+  if (fixed !== null) return fixed;
+
+  const parts = getZoneFormatter(timezone).formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+// ---------------------------------------------------------------------------
+// CSV / JSON readers
+// ---------------------------------------------------------------------------
+
+function parseCsvRows(
+  text: string,
+  timezone: string,
+  state: ParseState
+): { rows: RawRow[]; tradingView: boolean } {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    state.errors.push('Dataset contains no bars');
+    return { rows: [], tradingView: false };
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const firstRow = splitCsvLine(lines[0], delimiter);
+  const hasHeader = firstRow.some(cell => cell !== '' && !isFinite(Number(cell)) && isNaN(Date.parse(cell)));
+  const header = hasHeader ? firstRow.map(normalizeHeader) : ['time', 'open', 'high', 'low', 'close', 'volume'];
+  const columns = resolveColumns(header, state);
+  const dateColumn = header.indexOf('date');
+  const clockColumn = header.indexOf('time');
+  // Some exports split the timestamp into separate date and time columns
+  const splitTimestamp = hasHeader && dateColumn >= 0 && clockColumn >= 0 && dateColumn !== clockColumn;
+
+  if (!columns) {
+    return { rows: [], tradingView: false };
+  }
+
+  const used = splitTimestamp ? [...Object.values(columns), dateColumn, clockColumn] : Object.values(columns);
+  const ignored = header.filter((name, i) => name && !used.includes(i));
+  if (hasHeader && ignored.length > 0) {
+    state.warnings.push(`Ignored columns: ${ignored.join(', ')}`);
+  }
+
+  const rows: RawRow[] = [];
+  const issue = createIssueCollector(state.errors);
+  const start = hasHeader ? 1 : 0;
+
+  for (let i = start; i < lines.length; i++) {
+    const cells = splitCsvLine(lines[i], delimiter);
+    const rawTime = splitTimestamp
+      ? `${cells[dateColumn]} ${cells[clockColumn]}`
+      : cells[columns.time];
+    const row = toRawRow(
+      {
+        time: rawTime,
+        open: cells[columns.open],
+        high: cells[columns.high],
+        low: cells[columns.low],
+        close: cells[columns.close],
+        volume: columns.volume >= 0 ? cells[columns.volume] : undefined
+      },
+      i + 1,
+      timezone,
+      state,
+      issue
+    );
+    if (row) rows.push(row);
+  }
+
+  issue.flush();
+
+  // TradingView exports start with time,open,high,low,close and use Unix seconds
+  const tradingView = hasHeader &&
+    header.slice(0, 5).join(',') === 'time,open,high,low,close' &&
+    /^\d{9,10}$/.test(splitCsvLine(lines[start] || '', delimiter)[0] || '');
+
+  return { rows, tradingView };
+}
+
+function parseJsonRows(text: string, timezone: string, state: ParseState): RawRow[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    state.errors.push(`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+    return [];
+  }
+
+  // Unwrap { bars: [...] } / { data: [...] } envelopes
+  if (data && !Array.isArray(data)) {
+    data = data.bars || data.data || data.candles || data;
+  }
+
+  // Column-oriented UDF payloads: { t: [], o: [], h: [], l: [], c: [], v: [] }
+  if (data && !Array.isArray(data) && Array.isArray(data.t)) {
+    data = data.t.map((time: unknown, i: number) => ({
+      time,
+      open: data.o?.[i],
+      high: data.h?.[i],
+      low: data.l?.[i],
+      close: data.c?.[i],
+      volume: data.v?.[i]
+    }));
+  }
+
+  if (!Array.isArray(data)) {
+    state.errors.push('JSON must be an array of bars, a { bars: [...] } object or { t, o, h, l, c, v } arrays');
+    return [];
+  }
+
+  const rows: RawRow[] = [];
+  const issue = createIssueCollector(state.errors);
+
+  data.forEach((entry: any, index: number) => {
+    const values = Array.isArray(entry)
+      ? { time: entry[0], open: entry[1], high: entry[2], low: entry[3], close: entry[4], volume: entry[5] }
+      : pickAliased(entry || {});
+    const row = toRawRow(values, index + 1, timezone, state, issue);
+    if (row) rows.push(row);
+  });
+
+  issue.flush();
+  return rows;
+}
+
+function toRawRow(
+  values: Record<keyof OHLCVBar, unknown>,
+  line: number,
+  timezone: string,
+  state: ParseState,
+  issue: IssueCollector
+): RawRow | null {
+  const time = parseTimestamp(values.time, timezone);
+  if (time === null) {
+    issue(`row ${line}: unrecognized timestamp "${String(values.time ?? '')}"`);
+    return null;
+  }
+  if (time.naive) state.naiveTimestamps++;
+
+  const row: RawRow = {
+    time: time.value,
+    open: toNumber(values.open),
+    high: toNumber(values.high),
+    low: toNumber(values.low),
+    close: toNumber(values.close),
+    volume: values.volume === undefined || values.volume === '' || values.volume === null ? 0 : toNumber(values.volume),
+    line
+  };
+
+  if ([row.open, row.high, row.low, row.close, row.volume].some(value => !isFinite(value))) {
+    issue(`row ${line}: open, high, low, close and volume must be numbers`);
+    return null;
+  }
+
+  return row;
+}
+
+function parseTimestamp(raw: unknown, timezone: string): { value: number; naive: boolean } | null {
+  if (typeof raw === 'number' || (typeof raw === 'string' && /^\d+(\.\d+)?$/.test(raw.trim()))) {
+    const numeric = Number(raw);
+    if (!isFinite(numeric)) return null;
+    // Anything below 1e11 is Unix seconds (1e11 ms would be 1973)
+    return { value: Math.round(numeric < 1e11 ? numeric * 1000 : numeric), naive: false };
+  }
+  if (typeof raw !== 'string') return null;
+
+  const match = raw
+    .trim()
+    .match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = '0', offset] = match;
+  const local = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+    Number(fraction.padEnd(3, '0'))
+  );
+
+  if (offset) {
+    const offsetMs = offset.toUpperCase() === 'Z' ? 0 : parseFixedOffset(offset);
+    return offsetMs === null ? null : { value: local - offsetMs, naive: false };
+  }
+
+  return { value: localToUtc(local, timezone), naive: true };
+}
+
+function localToUtc(localMs: number, timezone: string): number {
+  // Two passes settle the offset around DST transitions
+  const guess = localMs - timezoneOffset(timezone, localMs);
+  return localMs - timezoneOffset(timezone, guess);
+}
+
+function bucketStart(time: number, timeframe: Timeframe, timezone: string): number {
+  const offset = timezoneOffset(timezone, time);
+  const local = time + offset;
+
+  switch (timeframe.unit) {
+    case 'minute':
+    case 'day': {
+      const size = timeframeToMs(timeframe);
+      return Math.floor(local / size) * size - offset;
+    }
+    case 'week': {
+      const size = timeframeToMs(timeframe);
+      return Math.floor((local - WEEK_ALIGNMENT) / size) * size + WEEK_ALIGNMENT - offset;
+    }
+    case 'month': {
+      const date = new Date(local);
+      const monthIndex = date.getUTCFullYear() * 12 + date.getUTCMonth();
+      const bucket = monthIndex - (monthIndex % timeframe.count);
+      return Date.UTC(Math.floor(bucket / 12), bucket % 12, 1) - offset;
+    }
+  }
+}
+
+function findGaps(bars: OHLCVBar[], intervalMs: number | null): DatasetGap[] {
+  if (!intervalMs) return [];
+
+  const gaps: DatasetGap[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const spacing = bars[i].time - bars[i - 1].time;
+    // 1.5x tolerance absorbs uneven calendar months
+    if (spacing > intervalMs * 1.5) {
+      gaps.push({
+        from: bars[i - 1].time,
+        to: bars[i].time,
+        missingBars: Math.round(spacing / intervalMs) - 1
+      });
+    }
+  }
+  return gaps;
+}
+
+function inferTimeframe(intervalMs: number): string | null {
+  if (intervalMs % WEEK === 0) return formatTimeframe({ unit: 'week', count: intervalMs / WEEK });
+  if (intervalMs % DAY === 0) return formatTimeframe({ unit: 'day', count: intervalMs / DAY });
+  if (intervalMs % MINUTE === 0) return formatTimeframe({ unit: 'minute', count: intervalMs / MINUTE });
+  // Calendar months are 28-31 days apart
+  if (intervalMs >= 28 * DAY && intervalMs <= 31 * DAY) return '1M';
+  return null;
+}
+
+function resolveColumns(header: string[], state: ParseState): Record<keyof OHLCVBar, number> | null {
+  const find = (key: keyof OHLCVBar) => header.findIndex(name => COLUMN_ALIASES[key].includes(name));
+  const columns = {
+    time: find('time'),
+    open: find('open'),
+    high: find('high'),
+    low: find('low'),
+    close: find('close'),
+    volume: find('volume')
+  };
+
+  const missing = (['time', 'open', 'high', 'low', 'close'] as const).filter(key => columns[key] < 0);
+  if (missing.length > 0) {
+    state.errors.push(`Missing required column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`);
+    return null;
+  }
+  return columns;
+}
+
+function pickAliased(entry: Record<string, unknown>): Record<keyof OHLCVBar, unknown> {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(entry)) {
+    normalized[normalizeHeader(key)] = value;
+  }
+  const pick = (key: keyof OHLCVBar) => {
+    const alias = COLUMN_ALIASES[key].find(name => normalized[name] !== undefined);
+    return alias ? normalized[alias] : undefined;
+  };
+  return {
+    time: pick('time'),
+    open: pick('open'),
+    high: pick('high'),
+    low: pick('low'),
+    close: pick('close'),
+    volume: pick('volume')
+  };
+}
+
+function normalizeHeader(name: string): string {
+  return name.trim().replace(/^"|"$/g, '').toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function detectDelimiter(line: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    line.split(candidate).length > line.split(best).length ? candidate : best
+  );
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  return Number(value.replace(/,/g, ''));
+}
+
+function sameBar(a: OHLCVBar, b: OHLCVBar): boolean {
+  return a.open === b.open && a.high === b.high && a.low === b.low && a.close === b.close && a.volume === b.volume;
+}
+
+function parseFixedOffset(timezone: string): number | null {
+  const value = timezone.trim().toUpperCase();
+  if (value === 'UTC' || value === 'GMT' || value === 'Z') return 0;
+
+  const match = value.match(/^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/);
+  if (!match) return null;
+
+  const sign = match[1] === '-' ? -1 : 1;
+  return sign * (Number(match[2]) * HOUR + Number(match[3] || 0) * MINUTE);
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    zoneFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+type IssueCollector = ((message: string) => void) & { flush: () => void };
+
+// Keeps error lists readable when every row of a bad file fails the same way
+function createIssueCollector(errors: string[]): IssueCollector {
+  let count = 0;
+  const collect = ((message: string) => {
+    if (count < MAX_REPORTED_ISSUES) errors.push(message);
+    count++;
+  }) as IssueCollector;
+  collect.flush = () => {
+    if (count > MAX_REPORTED_ISSUES) {
+      errors.push(`...and ${count - MAX_REPORTED_ISSUES} more`);
+    }
+    count = 0;
+  };
+  return collect;
+}
+
+function emptyReport(timezone: string, state: ParseState): DatasetValidationReport {
+  return {
+    valid: false,
+    errors: state.errors,
+    warnings: state.warnings,
+    barCount: 0,
+    startTime: null,
+    endTime: null,
+    intervalMs: null,
+    inferredTimeframe: null,
+    timezone,
+    duplicateBars: 0,
+    gapCount: 0,
+    missingBars: 0,
+    gaps: [],
+    reversed: false
+  };
+}
@@ -0,0 +1,897 @@
+/**
+ * Backtesting Engine - Bar-by-Bar Strategy Execution
+ *
+ * Executes a visual builder graph (CustomNode[] / CustomEdge[]) over an
+ * OHLCV series using the same semantics as the code emitted by
+ * EnhancedPineScriptGenerator:
+ * - Indicator, math, condition and logic nodes are evaluated in dependency
+ *   order on every bar close
+ * - Conditions read the indicator output or price field named by each
+ *   edge's sourceHandle and compare it with a threshold or a second series
+ * - Each action node reads its typed config: entries fire when all of their
+ *   connected signals are true, exits when any of them is, and long and
+ *   short positions net against each other like strategy.entry/order/close
+ * - Market orders placed on a bar close fill at the next bar's open,
+ *   like TradingView's broker emulator with process_orders_on_close=false;
+ *   limit and stop orders stay working until their price trades
+ * - Percent, ATR-multiple and trailing exits from risk nodes are checked
+ *   intrabar against levels fixed when the position opens
+ * - Timing nodes gate entries, and the exits they are wired to, by session
+ *   hours, weekday and date range in their own timezone
+ * - Commission, slippage and position sizing default to the values the
+ *   generator writes into the strategy() declaration
+ */
+
+import type { CustomEdge, CustomNode } from '@/app/builder/canvas-config';
+import { resolveActionSettings } from '@/app/builder/canvas-config';
+import type { ActionSettings } from '@/app/builder/canvas-config';
+import {
+  STRATEGY_DEFAULTS,
+  DEFAULT_LOGIC_BARS,
+  DEFAULT_ATR_PERIOD,
+  SESSION_DAYS,
+  parseSessionTime
+} from '@/app/builder/enhanced-pinescript-generator';
+import { getIndicatorById } from '@/app/builder/data/indicator-defs';
+import { resolveIndicatorOutput } from '@/app/builder/data/indicator-registry';
+import * as ta from './indicators';
+import { computeIndicatorSeries, isBacktestableIndicator } from './indicator-series';
+import type { Series } from './indicators';
+import { calculateMetrics } from './metrics';
+import { isValidTimezone, timezoneOffset } from './datasets';
+import type {
+  BacktestConfig,
+  BacktestRunResult,
+  BacktestTrade,
+  EquityPoint,
+  ExitReason,
+  OHLCVBar,
+  TradeDirection
+} from './types';
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialCapital: STRATEGY_DEFAULTS.initialCapital,
+  qtyPercentOfEquity: STRATEGY_DEFAULTS.defaultQtyPercent,
+  commissionPercent: STRATEGY_DEFAULTS.commissionPercent,
+  slippageTicks: STRATEGY_DEFAULTS.slippageTicks,
+  tickSize: 0.01,
+  riskFreeRate: 0.02
+};
+
+const VALUE_NODE_TYPES = ['indicator', 'math', 'data-source', 'input'];
+const SIGNAL_NODE_TYPES = ['condition', 'logic'];
+
+const PRICE_HANDLES = ['open', 'high', 'low', 'close', 'volume', 'hl2', 'hlc3', 'ohlc4'];
+
+// Quantities below this are treated as fully closed
+const QUANTITY_EPSILON = 1e-12;
+
+interface OpenTrade {
+  entryId: string;
+  direction: TradeDirection;
+  quantity: number;
+  entryPrice: number;
+  entryBar: number;
+  entryTime: number;
+  entryCommission: number;
+  protected: boolean; // Opened by an entry action, so risk node exits apply
+}
+
+// Risk state of the open position. Levels follow its average price, like
+// strategy.position_avg_price, with ATR distances captured when it opened.
+interface PositionRisk {
+  entryAtr: number[]; // Per risk rule, NaN for percent rules
+  watermark: number; // Best price since the position opened, excluding the current bar
+}
+
+// A strategy.entry or strategy.order waiting for its fill
+interface WorkingOrder {
+  id: string;
+  kind: 'entry' | 'order';
+  direction: TradeDirection;
+  quantity: number;
+  orderType: ActionSettings['orderType'];
+  price: number; // Limit or stop level; market orders ignore it
+  signalBar: number;
+}
+
+// strategy.close for one entry ID, strategy.close_all for one side or everything
+interface CloseRequest {
+  entryId?: string;
+  direction?: TradeDirection;
+}
+
+interface ActionPlan {
+  node: CustomNode;
+  settings: ActionSettings;
+  signalIds: string[];
+  guards: boolean[][];
+}
+
+// One risk node's distances, in percent of the entry price or ATR multiples
+interface RiskRule {
+  stopLoss?: number;
+  takeProfit?: number;
+  trailingStop?: number;
+  atr?: Series;
+}
+
+export class BacktestEngine {
+  private nodes: CustomNode[];
+  private edges: CustomEdge[];
+  private bars: OHLCVBar[];
+  private config: BacktestConfig;
+
+  private nodeMap: Map<string, CustomNode>;
+  private indicatorOutputs: Map<string, Record<string, Series>> = new Map();
+  private valueSeries: Map<string, Series> = new Map();
+  private signalSeries: Map<string, boolean[]> = new Map();
+  private priceSeries: Map<string, Series> = new Map();
+  private warnings: string[] = [];
+
+  constructor(
+    nodes: CustomNode[],
+    edges: CustomEdge[],
+    bars: OHLCVBar[],
+    config: Partial<BacktestConfig> = {}
+  ) {
+    this.nodes = nodes;
+    this.edges = edges;
+    this.bars = bars;
+    this.config = { ...DEFAULT_BACKTEST_CONFIG, ...config };
+    this.nodeMap = new Map(nodes.map(node => [node.id, node]));
+  }
+
+  public run(): BacktestRunResult {
+    if (this.bars.length === 0) {
+      throw new Error('Cannot backtest an empty OHLCV series');
+    }
+
+    this.warnings = [];
+    this.indicatorOutputs.clear();
+    this.valueSeries.clear();
+    this.signalSeries.clear();
+    this.priceSeries.clear();
+
+    const order = this.topologicalOrder();
+    this.precomputeIndicators();
+
+    const riskRules = this.resolveRiskRules();
+    const actions = this.resolveActions(riskRules);
+    const pyramiding = Math.max(1, ...actions.map(action => action.settings.kind === 'entry' ? action.settings.pyramiding : 1));
+    const slippage = this.config.slippageTicks * this.config.tickSize;
+    const warmupBars = Math.max(0, Math.floor(this.config.warmupBars || 0));
+
+    if (warmupBars >= this.bars.length) {
+      throw new Error('Warm-up period must be shorter than the OHLCV series');
+    }
+
+    if (!this.nodes.some(node => node.type === 'action')) {
+      this.warnings.push('Strategy has no trading actions defined');
+    }
+
+    // Imported Pine the builder cannot express is only emitted, never evaluated
+    const rawNodes = this.nodes.filter(node => node.type === 'raw-pine');
+    if (rawNodes.length > 0) {
+      this.warnings.push(`Raw Pine nodes are not simulated: ${rawNodes.map(node => node.data.label).join(', ')}`);
+    }
+
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+    const working = new Map<string, WorkingOrder>();
+    let closeRequests: CloseRequest[] = [];
+    let cash = this.config.initialCapital;
+    let position: OpenTrade[] = []; // Open trades, all in the same direction
+    let risk: PositionRisk | null = null;
+    let peakEquity = cash;
+    let barsInMarket = 0;
+
+    // Closes part or all of a trade; a partial close takes its share of the entry commission
+    const closeTrade = (trade: OpenTrade, quantity: number, exitPrice: number, barIndex: number, reason: ExitReason) => {
+      const share = Math.min(1, quantity / trade.quantity);
+      const exitCommission = this.commission(quantity, exitPrice);
+      const closed = { ...trade, quantity, entryCommission: trade.entryCommission * share };
+      cash += this.direction(trade) * quantity * (exitPrice - trade.entryPrice) - exitCommission;
+      trades.push(this.buildTrade(trades.length + 1, closed, exitPrice, barIndex, exitCommission, reason));
+      trade.quantity -= quantity;
+      trade.entryCommission -= closed.entryCommission;
+    };
+
+    const closeWhere = (matches: (trade: OpenTrade) => boolean, exitPrice: number, barIndex: number, reason: ExitReason) => {
+      position.filter(matches).forEach(trade => closeTrade(trade, trade.quantity, exitPrice, barIndex, reason));
+      position = position.filter(trade => trade.quantity > QUANTITY_EPSILON);
+      if (position.length === 0) risk = null;
+    };
+
+    const openTrade = (order: WorkingOrder, quantity: number, fillPrice: number, barIndex: number) => {
+      if (position.length === 0) {
+        risk = {
+          entryAtr: riskRules.map(rule => rule.atr ? rule.atr[order.signalBar] : NaN),
+          watermark: fillPrice
+        };
+      }
+      const entryCommission = this.commission(quantity, fillPrice);
+      cash -= entryCommission;
+      position.push({
+        entryId: order.id,
+        direction: order.direction,
+        quantity,
+        entryPrice: fillPrice,
+        entryBar: barIndex,
+        entryTime: this.bars[barIndex].time,
+        entryCommission,
+        protected: order.kind === 'entry'
+      });
+    };
+
+    // strategy.entry reverses an opposite position and respects pyramiding;
+    // strategy.order nets against the oldest opposite trades first
+    const fillOrder = (order: WorkingOrder, fillPrice: number, barIndex: number) => {
+      const side = position[0]?.direction;
+      if (order.kind === 'entry') {
+        if (side && side !== order.direction) {
+          closeWhere(() => true, fillPrice, barIndex, 'signal');
+        } else if (side === order.direction && position.length >= pyramiding) {
+          return;
+        }
+        openTrade(order, order.quantity, fillPrice, barIndex);
+        return;
+      }
+
+      let remaining = order.quantity;
+      while (remaining > QUANTITY_EPSILON && position.length > 0 && position[0].direction !== order.direction) {
+        const trade = position[0];
+        const quantity = Math.min(remaining, trade.quantity);
+        closeTrade(trade, quantity, fillPrice, barIndex, 'signal');
+        remaining -= quantity;
+        if (trade.quantity <= QUANTITY_EPSILON) position.shift();
+      }
+      if (position.length === 0) risk = null;
+      if (remaining > QUANTITY_EPSILON) {
+        openTrade(order, remaining, fillPrice, barIndex);
+      }
+    };
+
+    for (let i = 0; i < this.bars.length; i++) {
+      const bar = this.bars[i];
+
+      // 1. Fill closes and orders placed on earlier bars
+      for (const request of closeRequests) {
+        const side = position[0]?.direction;
+        if (!side || (request.direction && request.direction !== side)) continue;
+        // Closing a long sells into the open, closing a short buys
+        const exitPrice = bar.open + (side === 'long' ? -slippage : slippage);
+        closeWhere(trade => !request.entryId || trade.entryId === request.entryId, exitPrice, i, 'signal');
+      }
+      closeRequests = [];
+
+      for (const pending of Array.from(working.values())) {
+        const fillPrice = this.fillPrice(pending, bar, slippage);
+        if (fillPrice === null) continue;
+        working.delete(pending.id);
+        fillOrder(pending, fillPrice, i);
+      }
+
+      // 2. Intrabar protective exits for trades opened by entry actions
+      const positionRisk = risk as PositionRisk | null;
+      if (positionRisk && position.some(trade => trade.protected)) {
+        const exit = this.checkProtectiveExit(position, positionRisk, riskRules, bar, slippage);
+        if (exit) {
+          closeWhere(trade => trade.protected, exit.price, i, exit.reason);
+        } else {
+          positionRisk.watermark = position[0].direction === 'long'
+            ? Math.max(positionRisk.watermark, bar.high)
+            : Math.min(positionRisk.watermark, bar.low);
+        }
+      }
+
+      // 3. Evaluate the graph on this bar's close
+      for (const node of order) {
+        this.evaluateNode(node, i);
+      }
+
+      // Warm-up bars only feed indicator and condition history
+      if (i < warmupBars) {
+        continue;
+      }
+
+      const equity = cash + position.reduce(
+        (sum, trade) => sum + this.direction(trade) * trade.quantity * (bar.close - trade.entryPrice),
+        0
+      );
+
+      // 4. Queue orders for the next bar, in node order like the emitted script
+      for (const action of actions) {
+        if (!this.actionFires(action, i)) continue;
+        const { settings } = action;
+
+        if (settings.kind === 'exit') {
+          closeRequests.push({ entryId: settings.orderId, direction: settings.direction });
+          continue;
+        }
+        if (this.config.entryMask && this.config.entryMask[i] !== true) continue;
+
+        const direction = settings.direction || 'long';
+        if (settings.kind === 'entry' && position[0]?.direction === direction && position.length >= pyramiding) continue;
+
+        const quantity = this.orderQuantity(settings, riskRules, equity, i);
+        if (!(quantity > 0) || !isFinite(quantity)) continue;
+
+        // Re-issuing an order ID replaces its working order, as in Pine
+        working.delete(settings.orderId!);
+        working.set(settings.orderId!, {
+          id: settings.orderId!,
+          kind: settings.kind,
+          direction,
+          quantity,
+          orderType: settings.orderType,
+          price: this.orderPrice(settings, bar.close),
+          signalBar: i
+        });
+      }
+
+      // 5. Mark to market
+      if (position.length > 0) barsInMarket++;
+      peakEquity = Math.max(peakEquity, equity);
+      equityCurve.push({
+        time: bar.time,
+        equity,
+        drawdown: peakEquity > 0 ? (peakEquity - equity) / peakEquity : 0
+      });
+    }
+
+    const lastIndex = this.bars.length - 1;
+    const lastClose = this.bars[lastIndex].close;
+    const openTrades = position.map((trade, index) => this.buildTrade(
+      trades.length + index + 1,
+      trade,
+      lastClose,
+      lastIndex,
+      this.commission(trade.quantity, lastClose),
+      'end_of_data'
+    ));
+
+    return {
+      config: this.config,
+      trades,
+      openTrade: openTrades[0] || null,
+      openTrades,
+      equityCurve,
+      metrics: calculateMetrics(
+        trades,
+        equityCurve,
+        this.bars.slice(warmupBars),
+        this.config.initialCapital,
+        this.config.riskFreeRate,
+        barsInMarket
+      ),
+      barsProcessed: this.bars.length,
+      warnings: this.warnings
+    };
+  }
+
+  // ===========================================================================
+  // Graph evaluation
+  // ===========================================================================
+
+  private evaluateNode(node: CustomNode, i: number): void {
+    switch (node.type) {
+      case 'data-source':
+      case 'input':
+        this.writeValue(node.id, i, this.bars[i].close);
+        break;
+
+      case 'indicator': {
+        const outputs = this.indicatorOutputs.get(node.id);
+        const primary = outputs ? Object.values(outputs)[0] : undefined;
+        this.writeValue(node.id, i, primary ? primary[i] : NaN);
+        break;
+      }
+
+      case 'math':
+        this.writeValue(node.id, i, this.evaluateMath(node, i));
+        break;
+
+      case 'condition':
+        this.writeSignal(node.id, i, this.evaluateCondition(node, i));
+        break;
+
+      case 'logic':
+        this.writeSignal(node.id, i, this.evaluateLogic(node, i));
+        break;
+    }
+  }
+
+  private evaluateMath(node: CustomNode, i: number): number {
+    const config = node.data.config || {};
+    const input = this.readInput(node, i);
+    const operand = Number(config.value ?? 0);
+
+    switch (config.operation) {
+      case 'add': return input + operand;
+      case 'subtract': return input - operand;
+      case 'multiply': return input * operand;
+      case 'divide': return operand === 0 ? NaN : input / operand;
+      case 'abs': return Math.abs(input);
+      case 'max': return Math.max(input, operand);
+      case 'min': return Math.min(input, operand);
+      default: return input;
+    }
+  }
+
+  private evaluateCondition(node: CustomNode, i: number): boolean {
+    const config = node.data.config || {};
+    const operands = this.findConditionOperands(node);
+
+    // Mirrors the generator, which emits `true` for an unconnected condition
+    if (operands.length === 0) return true;
+
+    // Same rule as the generator: a second series replaces an unset threshold
+    const comparesSeries = operands.length > 1 && config.compareTo !== 'threshold' &&
+      (config.compareTo === 'series' || config.threshold === undefined || config.threshold === null);
+
+    const series = operands[0];
+    const threshold = Number(config.threshold ?? 0);
+    const levelAt = (index: number) => comparesSeries ? operands[1][index] : threshold;
+    const value = series[i];
+    const level = levelAt(i);
+    if (isNaN(value) || isNaN(level)) return false;
+
+    switch (config.operator || 'greater_than') {
+      case 'greater_than': return value > level;
+      case 'less_than': return value < level;
+      case 'equal_to': return value === level;
+      case 'not_equal_to': return value !== level;
+      case 'crosses_above': return i > 0 && value > level && series[i - 1] <= levelAt(i - 1);
+      case 'crosses_below': return i > 0 && value < level && series[i - 1] >= levelAt(i - 1);
+      default: return true;
+    }
+  }
+
+  // Mirrors generateLogicExpression; lookbacks are false until N bars exist, like math.sum
+  private evaluateLogic(node: CustomNode, i: number): boolean {
+    const config = node.data.config || {};
+    const inputs = this.edges
+      .filter(edge => edge.target === node.id)
+      .map(edge => this.nodeMap.get(edge.source))
+      .filter((input): input is CustomNode => !!input && SIGNAL_NODE_TYPES.includes(input.type))
+      .map(input => this.signalSeries.get(input.id) || []);
+
+    if (inputs.length === 0) return false;
+
+    const bars = Math.floor(Number(config.bars ?? DEFAULT_LOGIC_BARS));
+    const lookback = () => i >= bars - 1 ? inputs[0].slice(i - bars + 1, i + 1) : [];
+
+    switch (config.logicOperator || 'and') {
+      case 'or': return inputs.some(series => series[i] === true);
+      case 'not': return inputs[0][i] !== true;
+      case 'n_of_m': {
+        const votes = inputs.filter(series => series[i] === true).length;
+        return votes >= Number(config.requiredCount ?? inputs.length);
+      }
+      case 'consecutive': {
+        const window = lookback();
+        return window.length > 0 && window.every(value => value === true);
+      }
+      case 'within': return lookback().some(value => value === true);
+      default: return inputs.every(series => series[i] === true);
+    }
+  }
+
+  // Operand series in generator order: pinned 'left'/'right' handles first and
+  // last, indicators before other inputs, each read through its source handle
+  private findConditionOperands(node: CustomNode): Series[] {
+    const rank = (edge: CustomEdge, source: CustomNode) => {
+      if (edge.targetHandle === 'left') return 0;
+      if (edge.targetHandle === 'right') return 3;
+      return source.type === 'indicator' ? 1 : 2;
+    };
+
+    return this.edges
+      .filter(edge => edge.target === node.id)
+      .map(edge => ({ edge, source: this.nodeMap.get(edge.source) }))
+      .filter((operand): operand is { edge: CustomEdge; source: CustomNode } =>
+        !!operand.source && VALUE_NODE_TYPES.includes(operand.source.type)
+      )
+      .sort((a, b) => rank(a.edge, a.source) - rank(b.edge, b.source))
+      .map(({ edge, source }) => this.readConnection(source, edge.sourceHandle));
+  }
+
+  private readConnection(source: CustomNode, handle?: string): Series {
+    if (source.type === 'indicator') {
+      const outputs = this.indicatorOutputs.get(source.id) || {};
+      const definition = getIndicatorById(source.data.config?.indicatorId || '');
+      const output = definition ? resolveIndicatorOutput(definition, handle) : undefined;
+      return (output && outputs[output]) || Object.values(outputs)[0] || [];
+    }
+
+    if (source.type === 'data-source') {
+      const configured = source.data.config?.source;
+      const field = handle && PRICE_HANDLES.includes(handle)
+        ? handle
+        : (configured && PRICE_HANDLES.includes(configured) ? configured : 'close');
+      let series = this.priceSeries.get(field);
+      if (!series) {
+        series = ta.priceSeries(this.bars, field);
+        this.priceSeries.set(field, series);
+      }
+      return series;
+    }
+
+    return this.valueSeries.get(source.id) || [];
+  }
+
+  // Indicators are preferred over other inputs, as for condition operands
+  private findInputNode(node: CustomNode): CustomNode | undefined {
+    const inputs = this.edges
+      .filter(edge => edge.target === node.id)
+      .map(edge => this.nodeMap.get(edge.source))
+      .filter((input): input is CustomNode => !!input && VALUE_NODE_TYPES.includes(input.type));
+
+    return inputs.find(input => input.type === 'indicator') || inputs[0];
+  }
+
+  private readInput(node: CustomNode, i: number): number {
+    const source = this.findInputNode(node);
+    if (!source) return this.bars[i].close;
+    return this.valueSeries.get(source.id)?.[i] ?? NaN;
+  }
+
+  private writeValue(nodeId: string, i: number, value: number): void {
+    let series = this.valueSeries.get(nodeId);
+    if (!series) {
+      series = new Array(this.bars.length).fill(NaN);
+      this.valueSeries.set(nodeId, series);
+    }
+    series[i] = value;
+  }
+
+  private writeSignal(nodeId: string, i: number, value: boolean): void {
+    let series = this.signalSeries.get(nodeId);
+    if (!series) {
+      series = new Array(this.bars.length).fill(false);
+      this.signalSeries.set(nodeId, series);
+    }
+    series[i] = value;
+  }
+
+  private topologicalOrder(): CustomNode[] {
+    const visited = new Set<string>();
+    const visiting = new Set<string>();
+    const result: CustomNode[] = [];
+
+    const visit = (nodeId: string) => {
+      if (visited.has(nodeId)) return;
+      if (visiting.has(nodeId)) {
+        throw new Error('Circular dependency detected in strategy');
+      }
+      visiting.add(nodeId);
+
+      this.edges
+        .filter(edge => edge.target === nodeId)
+        .forEach(edge => visit(edge.source));
+
+      visiting.delete(nodeId);
+      visited.add(nodeId);
+      const node = this.nodeMap.get(nodeId);
+      if (node) result.push(node);
+    };
+
+    this.nodes.forEach(node => visit(node.id));
+    return result;
+  }
+
+  // ===========================================================================
+  // Indicators
+  // ===========================================================================
+
+  private precomputeIndicators(): void {
+    for (const node of this.nodes) {
+      if (node.type !== 'indicator') continue;
+
+      const indicatorId = node.data.config?.indicatorId;
+      if (!indicatorId) {
+        throw new Error(`Indicator node "${node.data.label}" missing indicator ID`);
+      }
+
+      this.indicatorOutputs.set(node.id, this.computeIndicator(node, indicatorId));
+    }
+  }
+
+  private computeIndicator(node: CustomNode, indicatorId: string): Record<string, Series> {
+    const definition = getIndicatorById(indicatorId);
+    if (!definition || !isBacktestableIndicator(indicatorId)) {
+      throw new Error(`Unsupported indicator "${indicatorId}" in node "${node.data.label}"`);
+    }
+    return computeIndicatorSeries(definition, this.bars, node.data.config?.parameters || {});
+  }
+
+  // ===========================================================================
+  // Actions, risk and order handling
+  // ===========================================================================
+
+  // Typed action settings with their signals and timing guards, in node order like the emitted script
+  private resolveActions(riskRules: RiskRule[]): ActionPlan[] {
+    return this.nodes
+      .filter(node => node.type === 'action')
+      .map(node => ({ node, settings: resolveActionSettings(node) }))
+      .filter((action): action is { node: CustomNode; settings: ActionSettings } => !!action.settings)
+      .map(({ node, settings }) => {
+        if (settings.quantityMode === 'risk' && !riskRules.some(rule => rule.stopLoss !== undefined)) {
+          throw new Error(`Action node "${node.data.label}" sizes by risk but no risk node sets a stop loss`);
+        }
+        const sourceIds = new Set(this.edges.filter(edge => edge.target === node.id).map(edge => edge.source));
+        return {
+          node,
+          settings,
+          signalIds: this.nodes
+            .filter(candidate => SIGNAL_NODE_TYPES.includes(candidate.type) && sourceIds.has(candidate.id))
+            .map(candidate => candidate.id),
+          guards: this.findTimingGuards(node, settings).map(guard => this.computeTimingMask(guard))
+        };
+      });
+  }
+
+  // Mirrors findTimingGuards in the generator: timing nodes wired to no action gate entries and orders
+  private findTimingGuards(action: CustomNode, settings: ActionSettings): CustomNode[] {
+    return this.nodes.filter(node => {
+      if (node.type !== 'timing') return false;
+      const targets = this.edges
+        .filter(edge => edge.source === node.id)
+        .map(edge => this.nodeMap.get(edge.target))
+        .filter((target): target is CustomNode => target?.type === 'action');
+      return targets.some(target => target.id === action.id) || (targets.length === 0 && settings.kind !== 'exit');
+    });
+  }
+
+  // Entries and orders need every signal, exits any one of them
+  private actionFires(action: ActionPlan, i: number): boolean {
+    if (action.signalIds.length === 0 || !action.guards.every(mask => mask[i])) return false;
+    const fired = (id: string) => this.signalSeries.get(id)?.[i] === true;
+    return action.settings.kind === 'exit' ? action.signalIds.some(fired) : action.signalIds.every(fired);
+  }
+
+  // Order size on the signal bar, matching the qty= expression in the emitted script
+  private orderQuantity(settings: ActionSettings, rules: RiskRule[], equity: number, i: number): number {
+    const close = this.bars[i].close;
+    const amount = settings.quantity;
+    if (amount === undefined || !settings.quantityMode) {
+      return equity * this.config.qtyPercentOfEquity / 100 / close;
+    }
+
+    switch (settings.quantityMode) {
+      case 'fixed':
+        return amount;
+      case 'percent_equity':
+        return equity * amount / 100 / close;
+      case 'risk': {
+        // Equity at risk divided by the tightest stop distance from the signal close
+        const distances = rules
+          .filter(rule => rule.stopLoss !== undefined)
+          .map(rule => rule.atr ? rule.atr[i] * rule.stopLoss! : close * rule.stopLoss! / 100);
+        return equity * amount / 100 / Math.min(...distances);
+      }
+      default:
+        return NaN;
+    }
+  }
+
+  // Limit orders wait for a better price, stop orders for a breakout
+  private orderPrice(settings: ActionSettings, close: number): number {
+    if (settings.orderType === 'market') return close;
+    const favorable = (settings.direction !== 'short') === (settings.orderType === 'limit') ? -1 : 1;
+    return close * (1 + favorable * settings.orderOffset / 100);
+  }
+
+  // Fill price of a working order on this bar, or null if its level is not reached.
+  // Gaps through a level fill at the open; limit fills take no slippage.
+  private fillPrice(order: WorkingOrder, bar: OHLCVBar, slippage: number): number | null {
+    const buy = order.direction === 'long';
+    const slipped = (price: number) => buy ? price + slippage : price - slippage;
+
+    switch (order.orderType) {
+      case 'limit':
+        if (buy) return bar.low <= order.price ? Math.min(bar.open, order.price) : null;
+        return bar.high >= order.price ? Math.max(bar.open, order.price) : null;
+      case 'stop':
+        if (buy) return bar.high >= order.price ? slipped(Math.max(bar.open, order.price)) : null;
+        return bar.low <= order.price ? slipped(Math.min(bar.open, order.price)) : null;
+      default:
+        return slipped(bar.open);
+    }
+  }
+
+  // Bars whose open time falls inside the node's session, weekdays and date range
+  private computeTimingMask(node: CustomNode): boolean[] {
+    const config = node.data.config || {};
+    const timezone = config.timezone || 'UTC';
+    if (!isValidTimezone(timezone)) {
+      throw new Error(`Unknown timezone "${timezone}" in timing node "${node.data.label}"`);
+    }
+
+    const start = config.startTime ? parseSessionTime(config.startTime) : null;
+    const end = config.endTime ? parseSessionTime(config.endTime) : null;
+    const days = config.daysOfWeek;
+
+    return this.bars.map(bar => {
+      const local = new Date(bar.time + timezoneOffset(timezone, bar.time));
+
+      if (days && !days.includes(SESSION_DAYS[local.getUTCDay()])) return false;
+
+      // Equal start and end is a 24-hour session; an end before the start wraps midnight
+      if (start !== null && end !== null && start !== end) {
+        const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+        const inside = start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+        if (!inside) return false;
+      }
+
+      const date = local.toISOString().slice(0, 10);
+      if (config.startDate && date < config.startDate) return false;
+      if (config.endDate && date > config.endDate) return false;
+      return true;
+    });
+  }
+
+  private resolveRiskRules(): RiskRule[] {
+    const distance = (value: unknown) => value !== undefined && value !== null && Number(value) > 0 ? Number(value) : undefined;
+
+    return this.nodes
+      .filter(node => node.type === 'risk')
+      .map(node => {
+        const config = node.data.config || {};
+        return {
+          stopLoss: distance(config.stopLoss),
+          takeProfit: distance(config.takeProfit),
+          trailingStop: distance(config.trailingStop),
+          atr: config.riskUnit === 'atr'
+            ? ta.atr(this.bars, Math.floor(Number(config.atrPeriod ?? DEFAULT_ATR_PERIOD)))
+            : undefined
+        };
+      });
+  }
+
+  // Every risk node places its own exit, so the tightest stop, target and trail win.
+  // Levels follow the average entry price; ATR distances use the ATR captured when
+  // the position opened, and a NaN ATR leaves that level unset.
+  private resolveExitLevels(
+    position: OpenTrade[],
+    risk: PositionRisk,
+    rules: RiskRule[]
+  ): { stopPrice?: number; limitPrice?: number; trailOffset?: number } {
+    const sign = position[0].direction === 'long' ? 1 : -1;
+    const entries = position.filter(trade => trade.protected);
+    const quantity = entries.reduce((sum, trade) => sum + trade.quantity, 0);
+    const averagePrice = entries.reduce((sum, trade) => sum + trade.quantity * trade.entryPrice, 0) / quantity;
+    const levels: { stopPrice?: number; limitPrice?: number; trailOffset?: number } = {};
+
+    rules.forEach((rule, index) => {
+      const offset = (amount?: number) => {
+        if (amount === undefined) return undefined;
+        const value = rule.atr ? risk.entryAtr[index] * amount : averagePrice * amount / 100;
+        return isNaN(value) ? undefined : value;
+      };
+
+      // Compared by sign, so the highest long stop and the lowest short stop win
+      const stop = offset(rule.stopLoss);
+      if (stop !== undefined) {
+        const price = averagePrice - sign * stop;
+        levels.stopPrice = levels.stopPrice === undefined || sign * price > sign * levels.stopPrice ? price : levels.stopPrice;
+      }
+      const target = offset(rule.takeProfit);
+      if (target !== undefined) {
+        const price = averagePrice + sign * target;
+        levels.limitPrice = levels.limitPrice === undefined || sign * price < sign * levels.limitPrice ? price : levels.limitPrice;
+      }
+      const trail = offset(rule.trailingStop);
+      if (trail !== undefined) {
+        levels.trailOffset = Math.min(levels.trailOffset ?? Infinity, trail);
+      }
+    });
+
+    return levels;
+  }
+
+  private checkProtectiveExit(
+    position: OpenTrade[],
+    risk: PositionRisk,
+    rules: RiskRule[],
+    bar: OHLCVBar,
+    slippage: number
+  ): { price: number; reason: ExitReason } | null {
+    const sign = position[0].direction === 'long' ? 1 : -1;
+    const levels = this.resolveExitLevels(position, risk, rules);
+
+    // The trail follows the watermark of earlier bars and takes over once past the fixed stop
+    const trailPrice = levels.trailOffset !== undefined
+      ? risk.watermark - sign * levels.trailOffset
+      : undefined;
+    const trailing = trailPrice !== undefined &&
+      (levels.stopPrice === undefined || sign * trailPrice > sign * levels.stopPrice);
+    const stopPrice = trailing ? trailPrice : levels.stopPrice;
+    const stopReason: ExitReason = trailing ? 'trailing_stop' : 'stop_loss';
+    const limitPrice = levels.limitPrice;
+
+    // Closing a long sells, closing a short buys; only stop fills slip
+    const adverse = sign * bar.open;
+    const worst = sign > 0 ? bar.low : bar.high;
+    const best = sign > 0 ? bar.high : bar.low;
+    const slipped = (price: number) => price - sign * slippage;
+
+    // Gaps through a level fill at the open
+    if (stopPrice !== undefined && adverse <= sign * stopPrice) {
+      return { price: slipped(bar.open), reason: stopReason };
+    }
+    if (limitPrice !== undefined && adverse >= sign * limitPrice) {
+      return { price: bar.open, reason: 'take_profit' };
+    }
+
+    const stopHit = stopPrice !== undefined && sign * worst <= sign * stopPrice;
+    const limitHit = limitPrice !== undefined && sign * best >= sign * limitPrice;
+
+    if (stopHit && limitHit) {
+      // Broker emulator assumption: the extreme nearer the open is reached first
+      const bestFirst = Math.abs(best - bar.open) < Math.abs(bar.open - worst);
+      return bestFirst
+        ? { price: limitPrice!, reason: 'take_profit' }
+        : { price: slipped(stopPrice!), reason: stopReason };
+    }
+    if (stopHit) {
+      return { price: slipped(stopPrice!), reason: stopReason };
+    }
+    if (limitHit) {
+      return { price: limitPrice!, reason: 'take_profit' };
+    }
+
+    return null;
+  }
+
+  private direction(trade: OpenTrade): number {
+    return trade.direction === 'long' ? 1 : -1;
+  }
+
+  private commission(quantity: number, price: number): number {
+    return quantity * price * this.config.commissionPercent / 100;
+  }
+
+  private buildTrade(
+    id: number,
+    position: OpenTrade,
+    exitPrice: number,
+    exitBar: number,
+    exitCommission: number,
+    exitReason: ExitReason
+  ): BacktestTrade {
+    const commission = position.entryCommission + exitCommission;
+    const pnl = this.direction(position) * position.quantity * (exitPrice - position.entryPrice) - commission;
+    const entryValue = position.quantity * position.entryPrice;
+
+    return {
+      id,
+      entryId: position.entryId,
+      direction: position.direction,
+      entryBar: position.entryBar,
+      entryTime: position.entryTime,
+      entryPrice: position.entryPrice,
+      exitBar,
+      exitTime: this.bars[exitBar].time,
+      exitPrice,
+      quantity: position.quantity,
+      pnl,
+      returnPct: entryValue > 0 ? pnl / entryValue : 0,
+      commission,
+      barsHeld: exitBar - position.entryBar,
+      exitReason
+    };
+  }
+}
+
+// Export the backtest function
+export const runBacktest = (
+  nodes: CustomNode[],
+  edges: CustomEdge[],
+  bars: OHLCVBar[],
+  config: Partial<BacktestConfig> = {}
+): BacktestRunResult => {
+  const engine = new BacktestEngine(nodes, edges, bars, config);
+  return engine.run();
+};
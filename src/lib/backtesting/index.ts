@@ -0,0 +1,27 @@
+/**
+ * Backtesting Engine - Main Export
+ *
+ * Bar-by-bar execution of visual builder strategies on OHLCV data
+ */
+
+export * from './types';
+export { BacktestEngine, runBacktest, DEFAULT_BACKTEST_CONFIG } from './engine';
+export { calculateMetrics, estimatePeriodsPerYear } from './metrics';
+export { runMonteCarlo, createSeededRandom, MAX_MONTE_CARLO_ITERATIONS } from './monte-carlo';
+export type { MonteCarloOptions } from './monte-carlo';
+export * as indicators from './indicators';
+export { computeIndicatorSeries, isBacktestableIndicator } from './indicator-series';
+export {
+  parseDataset,
+  validateBars,
+  resampleBars,
+  parseTimeframe,
+  normalizeTimeframe,
+  formatTimeframe,
+  timeframeToMs,
+  medianInterval,
+  isValidTimezone,
+  timezoneOffset,
+  MAX_DATASET_BARS
+} from './datasets';
+export type { DatasetParseOptions, Timeframe, TimeframeUnit } from './datasets';
@@ -0,0 +1,150 @@
+/**
+ * Backtesting Engine - Indicator Series per Definition
+ *
+ * One series calculation per indicator definition, mirroring what the
+ * registry's Pine emitter writes for it. Parameters are resolved through
+ * the registry, so legacy names and defaults match the generated script,
+ * and outputs are keyed by the definition's output names.
+ */
+
+import type { IndicatorDefinition } from '@/app/builder/data/indicator-defs';
+import { resolveIndicatorParameters } from '@/app/builder/data/indicator-registry';
+import type { IndicatorParameterValue } from '@/app/builder/data/indicator-registry';
+import * as ta from './indicators';
+import type { AnchorPeriod, PivotType, Series } from './indicators';
+import type { OHLCVBar } from './types';
+
+export interface IndicatorSeriesContext {
+  bars: OHLCVBar[];
+  number: (parameter: string) => number;
+  text: (parameter: string) => string;
+  source: () => Series; // The node's price source
+}
+
+type IndicatorSeries = (ctx: IndicatorSeriesContext) => Record<string, Series>;
+
+const VWAP_ANCHORS: Record<string, AnchorPeriod> = { session: 'day', week: 'week', month: 'month' };
+const PIVOT_PERIODS: Record<string, AnchorPeriod> = { daily: 'day', weekly: 'week', monthly: 'month' };
+
+const movingAverage = (fn: (src: Series, length: number) => Series): IndicatorSeries =>
+  ({ number, source }) => ({ value: fn(source(), number('period')) });
+
+const channel = (withBasis: boolean): IndicatorSeries => ({ bars, number }) => {
+  const upper = ta.highest(ta.priceSeries(bars, 'high'), number('period'));
+  const lower = ta.lowest(ta.priceSeries(bars, 'low'), number('period'));
+  const bands: Record<string, Series> = { upper, lower };
+  if (withBasis) bands.basis = upper.map((value, i) => (value + lower[i]) / 2);
+  return bands;
+};
+
+const INDICATOR_SERIES: Record<string, IndicatorSeries> = {
+  sma: movingAverage(ta.sma),
+  ema: movingAverage(ta.ema),
+  wma: movingAverage(ta.wma),
+  hma: movingAverage(ta.hma),
+  vwma: ({ bars, number, source }) => ({ vwma: ta.vwma(source(), ta.priceSeries(bars, 'volume'), number('period')) }),
+
+  rsi: ({ number, source }) => ({ rsi: ta.rsi(source(), number('period')) }),
+
+  macd: ({ number, source }) => {
+    const result = ta.macd(source(), number('fastPeriod'), number('slowPeriod'), number('signalPeriod'));
+    return { macd: result.line, signal: result.signal, histogram: result.histogram };
+  },
+
+  stoch: ({ bars, number }) => {
+    const raw = ta.stoch(ta.priceSeries(bars, 'close'), ta.priceSeries(bars, 'high'), ta.priceSeries(bars, 'low'), number('kPeriod'));
+    const k = ta.sma(raw, number('smooth'));
+    return { k, d: ta.sma(k, number('dPeriod')) };
+  },
+
+  bb: ({ number, source }) => {
+    const result = ta.bb(source(), number('period'), number('stddev'));
+    return { basis: result.middle, upper: result.upper, lower: result.lower };
+  },
+
+  atr: ({ bars, number }) => ({ atr: ta.atr(bars, number('period')) }),
+  obv: ({ bars }) => ({ obv: ta.obv(bars) }),
+  mfi: ({ bars, number }) => ({ mfi: ta.mfi(ta.priceSeries(bars, 'hlc3'), ta.priceSeries(bars, 'volume'), number('period')) }),
+
+  adx: ({ bars, number }) => {
+    const result = ta.dmi(bars, number('period'), number('adxPeriod'));
+    return { adx: result.adx, di_plus: result.plus, di_minus: result.minus };
+  },
+
+  cci: ({ number, source }) => ({ cci: ta.cci(source(), number('period')) }),
+  williams_r: ({ bars, number }) => ({ williams_r: ta.wpr(bars, number('period')) }),
+
+  keltner: ({ bars, number }) => {
+    const basis = ta.ema(ta.priceSeries(bars, 'close'), number('period'));
+    const range = ta.atr(bars, number('atrPeriod'));
+    const multiplier = number('multiplier');
+    return {
+      basis,
+      upper: basis.map((value, i) => value + multiplier * range[i]),
+      lower: basis.map((value, i) => value - multiplier * range[i])
+    };
+  },
+
+  donchian: channel(true),
+  dch: channel(false),
+
+  roc: ({ number, source }) => ({ roc: ta.roc(source(), number('period')) }),
+
+  tsi: ({ bars, number }) => {
+    const tsi = ta.tsi(ta.priceSeries(bars, 'close'), number('shortPeriod'), number('longPeriod')).map(value => 100 * value);
+    return { tsi, signal: ta.ema(tsi, number('signalPeriod')) };
+  },
+
+  awesome: ({ bars, number }) => {
+    const median = ta.priceSeries(bars, 'hl2');
+    const fast = ta.sma(median, number('fastPeriod'));
+    const slow = ta.sma(median, number('slowPeriod'));
+    return { ao: fast.map((value, i) => value - slow[i]) };
+  },
+
+  ad: ({ bars }) => ({ ad: ta.accdist(bars) }),
+  cmf: ({ bars, number }) => ({ cmf: ta.cmf(bars, number('period')) }),
+  vwap: ({ bars, text, source }) => ({ vwap: ta.vwap(source(), bars, VWAP_ANCHORS[text('anchor')] || 'day') }),
+  stddev: ({ number, source }) => ({ stddev: ta.stdev(source(), number('period')) }),
+
+  pivot: ({ bars, text }) => ta.pivotLevels(bars, text('type') as PivotType, PIVOT_PERIODS[text('timeframe')] || 'day'),
+
+  sar: ({ bars, number }) => ({ sar: ta.sar(bars, number('start'), number('increment'), number('maximum')) }),
+  zigzag: ({ bars, number }) => ({ zigzag: ta.zigzag(bars, number('deviation'), number('depth')) }),
+
+  supertrend: ({ bars, number }) => {
+    const result = ta.supertrend(bars, number('multiplier'), number('period'));
+    return { supertrend: result.line, direction: result.direction };
+  }
+};
+
+export const isBacktestableIndicator = (indicatorId: string): boolean => {
+  return Object.prototype.hasOwnProperty.call(INDICATOR_SERIES, indicatorId);
+};
+
+/**
+ * Every output series of an indicator node, in the definition's output order.
+ * Numbers that do not parse fall back to the definition default.
+ */
+export const computeIndicatorSeries = (
+  definition: IndicatorDefinition,
+  bars: OHLCVBar[],
+  parameters: Record<string, unknown> = {}
+): Record<string, Series> => {
+  if (!isBacktestableIndicator(definition.id)) {
+    throw new Error(`Indicator "${definition.id}" cannot be backtested`);
+  }
+
+  const values: Record<string, IndicatorParameterValue> = resolveIndicatorParameters(definition, parameters);
+  const defaults = Object.fromEntries(definition.parameters.map(param => [param.name, param.default]));
+  const number = (name: string) => {
+    const value = Number(values[name]);
+    return typeof values[name] === 'boolean' || isNaN(value) ? Number(defaults[name]) : value;
+  };
+  const text = (name: string) => String(values[name] ?? defaults[name] ?? '');
+
+  const series = INDICATOR_SERIES[definition.id]({ bars, number, text, source: () => ta.priceSeries(bars, text('source') || 'close') });
+  // Single-output calculations may name their series generically
+  const list = Object.values(series);
+  return Object.fromEntries(definition.outputs.map((output, i) => [output, series[output] ?? list[i]]));
+};
@@ -0,0 +1,555 @@
+/**
+ * Backtesting Engine - Indicator Series Calculations
+ *
+ * Causal implementations of the Pine Script ta.* functions used by the
+ * builder. Every function returns a series aligned with its input where
+ * value i only depends on inputs 0..i, so reading index i while walking
+ * bars can never look ahead. Warm-up bars are NaN, mirroring Pine's na.
+ */
+
+import type { OHLCVBar, PriceSource } from './types';
+
+export type Series = number[];
+
+export function priceSeries(bars: OHLCVBar[], source: PriceSource | string = 'close'): Series {
+  return bars.map(bar => {
+    switch (source) {
+      case 'open': return bar.open;
+      case 'high': return bar.high;
+      case 'low': return bar.low;
+      case 'volume': return bar.volume;
+      case 'hl2': return (bar.high + bar.low) / 2;
+      case 'hlc3': return (bar.high + bar.low + bar.close) / 3;
+      case 'ohlc4': return (bar.open + bar.high + bar.low + bar.close) / 4;
+      default: return bar.close;
+    }
+  });
+}
+
+export function sma(src: Series, length: number): Series {
+  const out: Series = new Array(src.length).fill(NaN);
+  let sum = 0;
+  let valid = 0;
+
+  for (let i = 0; i < src.length; i++) {
+    if (isNaN(src[i])) {
+      sum = 0;
+      valid = 0;
+      continue;
+    }
+    sum += src[i];
+    valid++;
+    if (valid > length) {
+      sum -= src[i - length];
+      valid = length;
+    }
+    if (valid === length) {
+      out[i] = sum / length;
+    }
+  }
+
+  return out;
+}
+
+// Shared recursion for ema/rma: seeded with the SMA of the first `length` valid values
+function smoothed(src: Series, length: number, alpha: number): Series {
+  const out: Series = new Array(src.length).fill(NaN);
+  let prev = NaN;
+  let seedSum = 0;
+  let seedCount = 0;
+
+  for (let i = 0; i < src.length; i++) {
+    const value = src[i];
+    if (isNaN(value)) {
+      continue;
+    }
+    if (isNaN(prev)) {
+      seedSum += value;
+      seedCount++;
+      if (seedCount === length) {
+        prev = seedSum / length;
+        out[i] = prev;
+      }
+      continue;
+    }
+    prev = alpha * value + (1 - alpha) * prev;
+    out[i] = prev;
+  }
+
+  return out;
+}
+
+export function ema(src: Series, length: number): Series {
+  return smoothed(src, length, 2 / (length + 1));
+}
+
+export function rma(src: Series, length: number): Series {
+  return smoothed(src, length, 1 / length);
+}
+
+export function wma(src: Series, length: number): Series {
+  const out: Series = new Array(src.length).fill(NaN);
+  const denominator = (length * (length + 1)) / 2;
+
+  for (let i = length - 1; i < src.length; i++) {
+    let sum = 0;
+    let hasNa = false;
+    for (let j = 0; j < length; j++) {
+      const value = src[i - j];
+      if (isNaN(value)) {
+        hasNa = true;
+        break;
+      }
+      sum += value * (length - j);
+    }
+    if (!hasNa) {
+      out[i] = sum / denominator;
+    }
+  }
+
+  return out;
+}
+
+// Population standard deviation, matching ta.stdev(source, length, biased=true)
+export function stdev(src: Series, length: number): Series {
+  const mean = sma(src, length);
+  const out: Series = new Array(src.length).fill(NaN);
+
+  for (let i = length - 1; i < src.length; i++) {
+    if (isNaN(mean[i])) continue;
+    let sumSq = 0;
+    for (let j = 0; j < length; j++) {
+      const diff = src[i - j] - mean[i];
+      sumSq += diff * diff;
+    }
+    out[i] = Math.sqrt(sumSq / length);
+  }
+
+  return out;
+}
+
+export function highest(src: Series, length: number): Series {
+  return rolling(src, length, window => Math.max(...window));
+}
+
+export function lowest(src: Series, length: number): Series {
+  return rolling(src, length, window => Math.min(...window));
+}
+
+function rolling(src: Series, length: number, reducer: (window: number[]) => number): Series {
+  const out: Series = new Array(src.length).fill(NaN);
+
+  for (let i = length - 1; i < src.length; i++) {
+    const window = src.slice(i - length + 1, i + 1);
+    if (window.some(value => isNaN(value))) continue;
+    out[i] = reducer(window);
+  }
+
+  return out;
+}
+
+export function change(src: Series, length: number = 1): Series {
+  return src.map((value, i) => (i >= length ? value - src[i - length] : NaN));
+}
+
+export function rsi(src: Series, length: number): Series {
+  const delta = change(src);
+  const gains = delta.map(d => (isNaN(d) ? NaN : Math.max(d, 0)));
+  const losses = delta.map(d => (isNaN(d) ? NaN : Math.max(-d, 0)));
+  const avgGain = rma(gains, length);
+  const avgLoss = rma(losses, length);
+
+  return avgGain.map((gain, i) => {
+    const loss = avgLoss[i];
+    if (isNaN(gain) || isNaN(loss)) return NaN;
+    if (loss === 0) return 100;
+    if (gain === 0) return 0;
+    return 100 - 100 / (1 + gain / loss);
+  });
+}
+
+export function macd(
+  src: Series,
+  fastLength: number,
+  slowLength: number,
+  signalLength: number
+): { line: Series; signal: Series; histogram: Series } {
+  const fast = ema(src, fastLength);
+  const slow = ema(src, slowLength);
+  const line = fast.map((value, i) => value - slow[i]);
+  const signal = ema(line, signalLength);
+  const histogram = line.map((value, i) => value - signal[i]);
+
+  return { line, signal, histogram };
+}
+
+export function bb(
+  src: Series,
+  length: number,
+  mult: number
+): { middle: Series; upper: Series; lower: Series } {
+  const middle = sma(src, length);
+  const deviation = stdev(src, length);
+
+  return {
+    middle,
+    upper: middle.map((value, i) => value + mult * deviation[i]),
+    lower: middle.map((value, i) => value - mult * deviation[i])
+  };
+}
+
+export function stoch(close: Series, high: Series, low: Series, length: number): Series {
+  const hh = highest(high, length);
+  const ll = lowest(low, length);
+
+  return close.map((value, i) => {
+    const range = hh[i] - ll[i];
+    if (isNaN(range)) return NaN;
+    return range === 0 ? 0 : (100 * (value - ll[i])) / range;
+  });
+}
+
+export function trueRange(bars: OHLCVBar[]): Series {
+  return bars.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low;
+    const prevClose = bars[i - 1].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+  });
+}
+
+export function atr(bars: OHLCVBar[], length: number): Series {
+  return rma(trueRange(bars), length);
+}
+
+// Directional movement, matching ta.dmi(diLength, adxSmoothing)
+export function dmi(
+  bars: OHLCVBar[],
+  diLength: number,
+  adxSmoothing: number
+): { plus: Series; minus: Series; adx: Series } {
+  const plusDM: Series = bars.map((bar, i) => {
+    if (i === 0) return NaN;
+    const up = bar.high - bars[i - 1].high;
+    const down = bars[i - 1].low - bar.low;
+    return up > down && up > 0 ? up : 0;
+  });
+  const minusDM: Series = bars.map((bar, i) => {
+    if (i === 0) return NaN;
+    const up = bar.high - bars[i - 1].high;
+    const down = bars[i - 1].low - bar.low;
+    return down > up && down > 0 ? down : 0;
+  });
+
+  // ta.dmi smooths ta.tr, which is na on the first bar
+  const range = rma(trueRange(bars).map((value, i) => (i === 0 ? NaN : value)), diLength);
+  const plusSmoothed = rma(plusDM, diLength);
+  const minusSmoothed = rma(minusDM, diLength);
+  const plus = plusSmoothed.map((value, i) => (range[i] > 0 ? (100 * value) / range[i] : NaN));
+  const minus = minusSmoothed.map((value, i) => (range[i] > 0 ? (100 * value) / range[i] : NaN));
+  const dx = plus.map((value, i) => {
+    const sum = value + minus[i];
+    if (isNaN(sum)) return NaN;
+    return sum === 0 ? 0 : (100 * Math.abs(value - minus[i])) / sum;
+  });
+
+  return { plus, minus, adx: rma(dx, adxSmoothing) };
+}
+
+// Rolling sum, matching math.sum(source, length)
+export function sum(src: Series, length: number): Series {
+  return sma(src, length).map(value => value * length);
+}
+
+// Running total from the first bar, matching ta.cum; na inputs add nothing
+export function cum(src: Series): Series {
+  let total = 0;
+  return src.map(value => (total += isNaN(value) ? 0 : value));
+}
+
+export function vwma(src: Series, volume: Series, length: number): Series {
+  const weighted = sma(src.map((value, i) => value * volume[i]), length);
+  const averageVolume = sma(volume, length);
+  return weighted.map((value, i) => value / averageVolume[i]);
+}
+
+export function hma(src: Series, length: number): Series {
+  const half = wma(src, Math.floor(length / 2));
+  const full = wma(src, length);
+  return wma(half.map((value, i) => 2 * value - full[i]), Math.floor(Math.sqrt(length)));
+}
+
+export function roc(src: Series, length: number): Series {
+  return src.map((value, i) => (i >= length ? (100 * (value - src[i - length])) / src[i - length] : NaN));
+}
+
+// Mean absolute deviation based, matching ta.cci
+export function cci(src: Series, length: number): Series {
+  const mean = sma(src, length);
+
+  return src.map((value, i) => {
+    if (isNaN(mean[i])) return NaN;
+    let deviation = 0;
+    for (let j = 0; j < length; j++) {
+      deviation += Math.abs(src[i - j] - mean[i]);
+    }
+    deviation /= length;
+    return deviation === 0 ? 0 : (value - mean[i]) / (0.015 * deviation);
+  });
+}
+
+// Williams %R, matching ta.wpr: -100 at the period low, 0 at its high
+export function wpr(bars: OHLCVBar[], length: number): Series {
+  const hh = highest(priceSeries(bars, 'high'), length);
+  const ll = lowest(priceSeries(bars, 'low'), length);
+
+  return bars.map((bar, i) => {
+    const range = hh[i] - ll[i];
+    if (isNaN(range) || range === 0) return NaN;
+    return (100 * (bar.close - hh[i])) / range;
+  });
+}
+
+// True strength index on a -1..1 scale, matching ta.tsi
+export function tsi(src: Series, shortLength: number, longLength: number): Series {
+  const momentum = change(src);
+  const smoothedMomentum = ema(ema(momentum, longLength), shortLength);
+  const smoothedAbsolute = ema(ema(momentum.map(Math.abs), longLength), shortLength);
+  return smoothedMomentum.map((value, i) => (smoothedAbsolute[i] === 0 ? 0 : value / smoothedAbsolute[i]));
+}
+
+export function mfi(src: Series, volume: Series, length: number): Series {
+  const delta = change(src);
+  const upper = sum(src.map((value, i) => (isNaN(delta[i]) ? NaN : delta[i] <= 0 ? 0 : value * volume[i])), length);
+  const lower = sum(src.map((value, i) => (isNaN(delta[i]) ? NaN : delta[i] >= 0 ? 0 : value * volume[i])), length);
+
+  return upper.map((value, i) => {
+    if (isNaN(value) || isNaN(lower[i])) return NaN;
+    return lower[i] === 0 ? 100 : 100 - 100 / (1 + value / lower[i]);
+  });
+}
+
+export function obv(bars: OHLCVBar[]): Series {
+  return cum(bars.map((bar, i) => (i === 0 ? 0 : Math.sign(bar.close - bars[i - 1].close) * bar.volume)));
+}
+
+// Close location value times volume, positive when bars close near their high
+function moneyFlowVolume(bars: OHLCVBar[]): Series {
+  return bars.map(bar => (
+    bar.high === bar.low ? 0 : (((bar.close - bar.low) - (bar.high - bar.close)) / (bar.high - bar.low)) * bar.volume
+  ));
+}
+
+export function accdist(bars: OHLCVBar[]): Series {
+  return cum(moneyFlowVolume(bars));
+}
+
+export function cmf(bars: OHLCVBar[], length: number): Series {
+  const flow = sum(moneyFlowVolume(bars), length);
+  const volume = sum(priceSeries(bars, 'volume'), length);
+  return flow.map((value, i) => (volume[i] === 0 ? 0 : value / volume[i]));
+}
+
+export type AnchorPeriod = 'day' | 'week' | 'month';
+
+// Start of the UTC day, Monday-based week or month a bar opens in
+function periodStart(time: number, period: AnchorPeriod): number {
+  const date = new Date(time);
+  if (period === 'month') return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return period === 'week' ? day - ((date.getUTCDay() + 6) % 7) * 86400000 : day;
+}
+
+// Volume weighted average price, restarting with each UTC day, week or month
+export function vwap(src: Series, bars: OHLCVBar[], anchor: AnchorPeriod = 'day'): Series {
+  let start = NaN;
+  let weighted = 0;
+  let volume = 0;
+
+  return bars.map((bar, i) => {
+    const period = periodStart(bar.time, anchor);
+    if (period !== start) {
+      start = period;
+      weighted = 0;
+      volume = 0;
+    }
+    weighted += src[i] * bar.volume;
+    volume += bar.volume;
+    return volume === 0 ? NaN : weighted / volume;
+  });
+}
+
+export type PivotType = 'traditional' | 'fibonacci' | 'woodie' | 'camarilla';
+
+/**
+ * Pivot levels from the previous completed day, week or month, like
+ * request.security on high[1], low[1] and close[1]. NaN until the first
+ * period completes.
+ */
+export function pivotLevels(
+  bars: OHLCVBar[],
+  type: PivotType,
+  period: AnchorPeriod
+): Record<'pp' | 'r1' | 'r2' | 'r3' | 's1' | 's2' | 's3', Series> {
+  const levels = { pp: [] as Series, r1: [] as Series, r2: [] as Series, r3: [] as Series, s1: [] as Series, s2: [] as Series, s3: [] as Series };
+  let start = NaN;
+  let current = { high: NaN, low: NaN, close: NaN };
+  let previous = current;
+
+  bars.forEach(bar => {
+    const barPeriod = periodStart(bar.time, period);
+    if (barPeriod !== start) {
+      start = barPeriod;
+      previous = current;
+      current = { high: bar.high, low: bar.low, close: bar.close };
+    } else {
+      current = { high: Math.max(current.high, bar.high), low: Math.min(current.low, bar.low), close: bar.close };
+    }
+
+    const { high: h, low: l, close: c } = previous;
+    const range = h - l;
+    let values: number[];
+    switch (type) {
+      case 'fibonacci': {
+        const pp = (h + l + c) / 3;
+        values = [pp, pp + 0.382 * range, pp + 0.618 * range, pp + range, pp - 0.382 * range, pp - 0.618 * range, pp - range];
+        break;
+      }
+      case 'camarilla':
+        values = [(h + l + c) / 3, c + range * 1.1 / 12, c + range * 1.1 / 6, c + range * 1.1 / 4, c - range * 1.1 / 12, c - range * 1.1 / 6, c - range * 1.1 / 4];
+        break;
+      default: {
+        const pp = type === 'woodie' ? (h + l + 2 * c) / 4 : (h + l + c) / 3;
+        values = [pp, 2 * pp - l, pp + range, h + 2 * (pp - l), 2 * pp - h, pp - range, l - 2 * (h - pp)];
+      }
+    }
+    (['pp', 'r1', 'r2', 'r3', 's1', 's2', 's3'] as const).forEach((key, k) => levels[key].push(values[k]));
+  });
+
+  return levels;
+}
+
+// Parabolic SAR, following the reference implementation of ta.sar
+export function sar(bars: OHLCVBar[], start: number, increment: number, maximum: number): Series {
+  const out: Series = new Array(bars.length).fill(NaN);
+  let result = NaN;
+  let extreme = NaN;
+  let acceleration = NaN;
+  let isBelow = false;
+
+  for (let i = 1; i < bars.length; i++) {
+    const bar = bars[i];
+    let isFirstTrendBar = false;
+
+    if (i === 1) {
+      isBelow = bar.close > bars[0].close;
+      extreme = isBelow ? bar.high : bar.low;
+      result = isBelow ? bars[0].low : bars[0].high;
+      isFirstTrendBar = true;
+      acceleration = start;
+    }
+
+    result += acceleration * (extreme - result);
+
+    if (isBelow ? result > bar.low : result < bar.high) {
+      isFirstTrendBar = true;
+      isBelow = !isBelow;
+      result = isBelow ? Math.min(bar.low, extreme) : Math.max(bar.high, extreme);
+      extreme = isBelow ? bar.high : bar.low;
+      acceleration = start;
+    }
+
+    if (!isFirstTrendBar && (isBelow ? bar.high > extreme : bar.low < extreme)) {
+      extreme = isBelow ? bar.high : bar.low;
+      acceleration = Math.min(acceleration + increment, maximum);
+    }
+
+    if (isBelow) {
+      result = Math.min(result, bars[i - 1].low, i > 1 ? bars[i - 2].low : Infinity);
+    } else {
+      result = Math.max(result, bars[i - 1].high, i > 1 ? bars[i - 2].high : -Infinity);
+    }
+    out[i] = result;
+  }
+
+  return out;
+}
+
+// Supertrend line and direction (-1 up, 1 down), following the reference implementation of ta.supertrend
+export function supertrend(bars: OHLCVBar[], factor: number, atrLength: number): { line: Series; direction: Series } {
+  const range = atr(bars, atrLength);
+  const line: Series = new Array(bars.length).fill(NaN);
+  const direction: Series = new Array(bars.length).fill(NaN);
+  let upper = NaN;
+  let lower = NaN;
+
+  bars.forEach((bar, i) => {
+    const middle = (bar.high + bar.low) / 2;
+    const prevUpper = isNaN(upper) ? 0 : upper;
+    const prevLower = isNaN(lower) ? 0 : lower;
+    const prevClose = i > 0 ? bars[i - 1].close : NaN;
+    const basicUpper = middle + factor * range[i];
+    const basicLower = middle - factor * range[i];
+
+    lower = basicLower > prevLower || prevClose < prevLower ? basicLower : prevLower;
+    upper = basicUpper < prevUpper || prevClose > prevUpper ? basicUpper : prevUpper;
+
+    if (i === 0 || isNaN(range[i - 1])) {
+      direction[i] = 1;
+    } else if (line[i - 1] === prevUpper) {
+      direction[i] = bar.close > upper ? -1 : 1;
+    } else {
+      direction[i] = bar.close < lower ? 1 : -1;
+    }
+    line[i] = direction[i] === -1 ? lower : upper;
+  });
+
+  return { line, direction };
+}
+
+// Value of a bar that beats the `left` bars before it and is not beaten by the `right` bars
+// after it, reported `right` bars later; of equal extremes the first one is the pivot
+function pivot(src: Series, left: number, right: number, beats: (candidate: number, other: number) => boolean): Series {
+  return src.map((_, i) => {
+    const center = i - right;
+    if (center - left < 0) return NaN;
+    const candidate = src[center];
+    for (let j = center - left; j <= i; j++) {
+      if (j < center && !beats(candidate, src[j])) return NaN;
+      if (j > center && beats(src[j], candidate)) return NaN;
+    }
+    return candidate;
+  });
+}
+
+export function pivothigh(src: Series, left: number, right: number): Series {
+  return pivot(src, left, right, (a, b) => a > b);
+}
+
+export function pivotlow(src: Series, left: number, right: number): Series {
+  return pivot(src, left, right, (a, b) => a < b);
+}
+
+// Last confirmed pivot that moved at least `deviation` percent from the one before it
+export function zigzag(bars: OHLCVBar[], deviation: number, depth: number): Series {
+  const highs = pivothigh(priceSeries(bars, 'high'), depth, depth);
+  const lows = pivotlow(priceSeries(bars, 'low'), depth, depth);
+  let level = NaN;
+
+  return highs.map((high, i) => {
+    const candidate = isNaN(high) ? lows[i] : high;
+    if (!isNaN(candidate) && (isNaN(level) || (Math.abs(candidate - level) / level) * 100 >= deviation)) {
+      level = candidate;
+    }
+    return level;
+  });
+}
+
+export function crossover(a: Series, b: Series, i: number): boolean {
+  if (i < 1) return false;
+  return a[i] > b[i] && a[i - 1] <= b[i - 1];
+}
+
+export function crossunder(a: Series, b: Series, i: number): boolean {
+  if (i < 1) return false;
+  return a[i] < b[i] && a[i - 1] >= b[i - 1];
+}
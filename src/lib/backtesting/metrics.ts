@@ -0,0 +1,122 @@
+/**
+ * Backtesting Engine - Performance Metrics
+ *
+ * Derives summary statistics from a finished run's trade list and
+ * equity curve. Ratios are expressed as fractions (0.12 = 12%).
+ */
+
+import type { BacktestMetrics, BacktestTrade, EquityPoint, OHLCVBar } from './types';
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+export function calculateMetrics(
+  trades: BacktestTrade[],
+  equityCurve: EquityPoint[],
+  bars: OHLCVBar[],
+  initialCapital: number,
+  riskFreeRate: number,
+  barsInMarket: number
+): BacktestMetrics {
+  const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCapital;
+  const netProfit = finalEquity - initialCapital;
+  const totalReturn = initialCapital > 0 ? netProfit / initialCapital : 0;
+  const maxDrawdown = equityCurve.reduce((max, point) => Math.max(max, point.drawdown), 0);
+
+  const wins = trades.filter(t => t.pnl > 0);
+  const losses = trades.filter(t => t.pnl <= 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnl, 0));
+
+  const { sharpeRatio, sortinoRatio } = calculateRiskAdjustedReturns(equityCurve, bars, riskFreeRate);
+  const { consecutiveWins, consecutiveLosses } = calculateStreaks(trades);
+
+  return {
+    netProfit,
+    totalReturn,
+    sharpeRatio,
+    sortinoRatio,
+    calmarRatio: maxDrawdown > 0 ? totalReturn / maxDrawdown : 0,
+    maxDrawdown,
+    winRate: trades.length > 0 ? wins.length / trades.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    averageWin: wins.length > 0 ? wins.reduce((sum, t) => sum + t.returnPct, 0) / wins.length : 0,
+    averageLoss: losses.length > 0 ? losses.reduce((sum, t) => sum + t.returnPct, 0) / losses.length : 0,
+    largestWin: wins.reduce((max, t) => Math.max(max, t.returnPct), 0),
+    largestLoss: losses.reduce((min, t) => Math.min(min, t.returnPct), 0),
+    consecutiveWins,
+    consecutiveLosses,
+    averageBarsHeld: trades.length > 0 ? trades.reduce((sum, t) => sum + t.barsHeld, 0) / trades.length : 0,
+    totalCommission: trades.reduce((sum, t) => sum + t.commission, 0),
+    exposure: bars.length > 0 ? barsInMarket / bars.length : 0
+  };
+}
+
+/**
+ * Estimate how many bars make up a year from the median bar spacing,
+ * so per-bar returns can be annualized for any timeframe.
+ */
+export function estimatePeriodsPerYear(bars: OHLCVBar[]): number {
+  if (bars.length < 2) return 252;
+
+  const gaps = bars
+    .slice(1)
+    .map((bar, i) => bar.time - bars[i].time)
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+
+  if (gaps.length === 0) return 252;
+  const median = gaps[Math.floor(gaps.length / 2)];
+  return MS_PER_YEAR / median;
+}
+
+function calculateRiskAdjustedReturns(
+  equityCurve: EquityPoint[],
+  bars: OHLCVBar[],
+  riskFreeRate: number
+): { sharpeRatio: number; sortinoRatio: number } {
+  if (equityCurve.length < 3) {
+    return { sharpeRatio: 0, sortinoRatio: 0 };
+  }
+
+  const periodsPerYear = estimatePeriodsPerYear(bars);
+  const periodRiskFree = riskFreeRate / periodsPerYear;
+  const returns = equityCurve
+    .slice(1)
+    .map((point, i) => (equityCurve[i].equity > 0 ? point.equity / equityCurve[i].equity - 1 : 0));
+
+  const excess = returns.map(r => r - periodRiskFree);
+  const mean = excess.reduce((sum, r) => sum + r, 0) / excess.length;
+  const variance = excess.reduce((sum, r) => sum + (r - mean) ** 2, 0) / excess.length;
+  const downside = excess.filter(r => r < 0);
+  const downsideVariance = downside.reduce((sum, r) => sum + r * r, 0) / excess.length;
+
+  const annualize = Math.sqrt(periodsPerYear);
+  return {
+    sharpeRatio: variance > 0 ? (mean / Math.sqrt(variance)) * annualize : 0,
+    sortinoRatio: downsideVariance > 0 ? (mean / Math.sqrt(downsideVariance)) * annualize : 0
+  };
+}
+
+function calculateStreaks(trades: BacktestTrade[]): { consecutiveWins: number; consecutiveLosses: number } {
+  let consecutiveWins = 0;
+  let consecutiveLosses = 0;
+  let currentWins = 0;
+  let currentLosses = 0;
+
+  for (const trade of trades) {
+    if (trade.pnl > 0) {
+      currentWins++;
+      currentLosses = 0;
+    } else {
+      currentLosses++;
+      currentWins = 0;
+    }
+    consecutiveWins = Math.max(consecutiveWins, currentWins);
+    consecutiveLosses = Math.max(consecutiveLosses, currentLosses);
+  }
+
+  return { consecutiveWins, consecutiveLosses };
+}
@@ -0,0 +1,139 @@
+/**
+ * Backtesting Engine - Monte Carlo Trade Analysis
+ *
+ * Re-orders (reshuffle) or bootstraps (resample) a run's closed trades to
+ * show how much of its return and drawdown came from the particular order
+ * the trades happened in. Trade P&L is applied as a fraction of the equity
+ * it was taken with, so position sizing compounds the same way it did in
+ * the original run.
+ */
+
+import type { BacktestTrade, ConfidenceInterval, MonteCarloMethod, MonteCarloReport } from './types';
+
+export interface MonteCarloOptions {
+  method?: MonteCarloMethod;
+  iterations?: number;
+  confidence?: number;
+  initialCapital?: number;
+  seed?: number;
+}
+
+export const MAX_MONTE_CARLO_ITERATIONS = 20000;
+
+const DEFAULT_OPTIONS = {
+  method: 'reshuffle' as MonteCarloMethod,
+  iterations: 1000,
+  confidence: 0.95,
+  initialCapital: 10000
+};
+
+export function runMonteCarlo(trades: BacktestTrade[], options: MonteCarloOptions = {}): MonteCarloReport {
+  const { method, iterations, confidence, initialCapital } = { ...DEFAULT_OPTIONS, ...options };
+  const random = options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_MONTE_CARLO_ITERATIONS) {
+    throw new Error(`Iterations must be an integer between 1 and ${MAX_MONTE_CARLO_ITERATIONS}`);
+  }
+  if (!(confidence > 0 && confidence < 1)) {
+    throw new Error('Confidence must be between 0 and 1');
+  }
+
+  const returns = tradeReturns(trades, initialCapital);
+  const original = simulatePath(returns);
+
+  const totalReturns: number[] = [];
+  const drawdowns: number[] = [];
+  const sample = new Array<number>(returns.length);
+
+  for (let i = 0; i < iterations; i++) {
+    if (method === 'resample') {
+      for (let j = 0; j < returns.length; j++) {
+        sample[j] = returns[Math.floor(random() * returns.length)];
+      }
+    } else {
+      // Fisher-Yates shuffle of a copy
+      for (let j = 0; j < returns.length; j++) sample[j] = returns[j];
+      for (let j = sample.length - 1; j > 0; j--) {
+        const k = Math.floor(random() * (j + 1));
+        [sample[j], sample[k]] = [sample[k], sample[j]];
+      }
+    }
+
+    const path = simulatePath(sample);
+    totalReturns.push(path.totalReturn);
+    drawdowns.push(path.maxDrawdown);
+  }
+
+  // Float noise would otherwise count reshuffles with identical drawdowns as worse
+  const epsilon = 1e-12;
+
+  return {
+    method,
+    iterations,
+    tradeCount: trades.length,
+    confidence,
+    totalReturn: confidenceInterval(totalReturns, confidence),
+    maxDrawdown: confidenceInterval(drawdowns, confidence),
+    original,
+    probabilityOfLoss: totalReturns.filter(r => r < -epsilon).length / iterations,
+    probabilityOfWorseDrawdown: drawdowns.filter(d => d > original.maxDrawdown + epsilon).length / iterations
+  };
+}
+
+/**
+ * Mulberry32 PRNG so simulations can be reproduced from a seed
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Each trade's P&L as a fraction of the equity before it closed
+function tradeReturns(trades: BacktestTrade[], initialCapital: number): number[] {
+  let equity = initialCapital;
+  return trades.map(trade => {
+    const r = equity > 0 ? trade.pnl / equity : 0;
+    equity += trade.pnl;
+    return r;
+  });
+}
+
+function simulatePath(returns: number[]): { totalReturn: number; maxDrawdown: number } {
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+
+  for (const r of returns) {
+    equity = Math.max(0, equity * (1 + r));
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+  }
+
+  return { totalReturn: equity - 1, maxDrawdown };
+}
+
+function confidenceInterval(values: number[], confidence: number): ConfidenceInterval {
+  const sorted = [...values].sort((a, b) => a - b);
+  const tail = (1 - confidence) / 2;
+  return {
+    lower: percentile(sorted, tail),
+    median: percentile(sorted, 0.5),
+    upper: percentile(sorted, 1 - tail),
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length
+  };
+}
+
+// Linear interpolation between closest ranks
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const rank = p * (sorted.length - 1);
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
@@ -0,0 +1,142 @@
+/**
+ * Backtesting Engine - Core Types
+ *
+ * Shared types for the bar-by-bar strategy backtester that executes
+ * visual builder graphs against OHLCV data.
+ */
+
+export interface OHLCVBar {
+  time: number; // Bar open time, epoch milliseconds (UTC)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type PriceSource = 'open' | 'high' | 'low' | 'close' | 'volume' | 'hl2' | 'hlc3' | 'ohlc4';
+
+export interface BacktestConfig {
+  initialCapital: number;
+  qtyPercentOfEquity: number; // Size of entries whose action sets no quantity
+  commissionPercent: number;
+  slippageTicks: number;
+  tickSize: number;
+  riskFreeRate: number; // Annual, as a fraction
+  warmupBars?: number; // Leading bars that only prime indicators; no orders, excluded from metrics
+  entryMask?: boolean[]; // When set, entries are only signalled on bars where the mask is true
+}
+
+export type TradeDirection = 'long' | 'short';
+
+export type ExitReason = 'signal' | 'stop_loss' | 'trailing_stop' | 'take_profit' | 'end_of_data';
+
+export interface BacktestTrade {
+  id: number;
+  entryId: string;
+  direction: TradeDirection;
+  entryBar: number;
+  entryTime: number;
+  entryPrice: number;
+  exitBar: number;
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  pnl: number;
+  returnPct: number; // Fraction of the entry value, net of commission
+  commission: number;
+  barsHeld: number;
+  exitReason: ExitReason;
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+  drawdown: number; // Fraction below the running equity peak
+}
+
+export interface BacktestMetrics {
+  netProfit: number;
+  totalReturn: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  maxDrawdown: number;
+  winRate: number;
+  profitFactor: number;
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  averageWin: number;
+  averageLoss: number;
+  largestWin: number;
+  largestLoss: number;
+  consecutiveWins: number;
+  consecutiveLosses: number;
+  averageBarsHeld: number;
+  totalCommission: number;
+  exposure: number; // Fraction of bars with an open position
+}
+
+export interface BacktestRunResult {
+  config: BacktestConfig;
+  trades: BacktestTrade[];
+  openTrade: BacktestTrade | null; // First of openTrades, or null when flat
+  openTrades: BacktestTrade[]; // Every trade still open at the last bar, marked to its close
+  equityCurve: EquityPoint[];
+  metrics: BacktestMetrics;
+  barsProcessed: number;
+  warnings: string[];
+}
+
+export type DatasetFormat = 'tradingview' | 'csv' | 'json';
+
+export interface DatasetGap {
+  from: number; // Time of the last bar before the gap
+  to: number; // Time of the first bar after the gap
+  missingBars: number;
+}
+
+export interface DatasetValidationReport {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  barCount: number;
+  startTime: number | null;
+  endTime: number | null;
+  intervalMs: number | null; // Median spacing between bars
+  inferredTimeframe: string | null;
+  timezone: string;
+  duplicateBars: number; // Identical repeated bars that were dropped
+  gapCount: number;
+  missingBars: number;
+  gaps: DatasetGap[]; // Largest gaps first, capped for display
+  reversed: boolean; // Input was newest-first and has been flipped
+}
+
+export interface ParsedDataset {
+  format: DatasetFormat;
+  bars: OHLCVBar[];
+  report: DatasetValidationReport;
+}
+
+export type MonteCarloMethod = 'reshuffle' | 'resample';
+
+export interface ConfidenceInterval {
+  lower: number;
+  median: number;
+  upper: number;
+  mean: number;
+}
+
+export interface MonteCarloReport {
+  method: MonteCarloMethod;
+  iterations: number;
+  tradeCount: number;
+  confidence: number; // Two-sided, e.g. 0.95
+  totalReturn: ConfidenceInterval;
+  maxDrawdown: ConfidenceInterval;
+  original: { totalReturn: number; maxDrawdown: number };
+  probabilityOfLoss: number; // Share of simulations ending below initial capital
+  probabilityOfWorseDrawdown: number; // Share of simulations with a deeper drawdown than the original
+}
@@ -0,0 +1,146 @@
+/**
+ * Streaming Chat Response Tests
+ * Code block detection, event framing, fallbacks and cancellation
+ */
+
+import { CodeBlockTracker, isPineCodeBlock, readChatStream } from '../chat-events';
+import type { ChatStreamEvent } from '../chat-events';
+import { createChatStreamResponse, wantsChatStream } from '../chat-stream';
+import { InsufficientTokensError } from '../errors';
+import type { LLMResponse, LLMStreamChunk } from '../types';
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+function response(content: string, finishReason: LLMResponse['finishReason'] = 'stop'): LLMResponse {
+  return {
+    content,
+    toolCalls: [],
+    model: 'fake-model',
+    provider: 'fake',
+    finishReason,
+    usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30, cost: 0.06 },
+    responseTime: 5
+  };
+}
+
+async function collect(res: Response): Promise<ChatStreamEvent[]> {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatStream(res.body!)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('CodeBlockTracker', () => {
+  test('reports a block once its closing fence arrives, even split across deltas', () => {
+    const tracker = new CodeBlockTracker();
+    const deltas = ['Here it is:\n``', '`pine', 'script\n//@version=6\nstrategy("X")\n`', '``\nDone.'];
+
+    const reported = deltas.map(delta => tracker.push(delta));
+
+    expect(reported.slice(0, 3)).toEqual([[], [], []]);
+    expect(reported[3]).toEqual([{ index: 0, language: 'pinescript', code: '//@version=6\nstrategy("X")' }]);
+  });
+
+  test('numbers consecutive blocks and recognises untagged Pine Script', () => {
+    const tracker = new CodeBlockTracker();
+
+    const blocks = tracker.push('```js\nlet a = 1\n```\ntext\n```\n//@version=6\nplot(close)\n```');
+
+    expect(blocks.map(block => [block.index, block.language])).toEqual([[0, 'js'], [1, '']]);
+    expect(blocks.map(isPineCodeBlock)).toEqual([false, true]);
+  });
+});
+
+describe('createChatStreamResponse', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('streams deltas, code events, usage, the result and done', async () => {
+    async function* chunks(): AsyncGenerator<LLMStreamChunk> {
+      yield { type: 'text', text: '```pine\nplot(close)\n' };
+      yield { type: 'text', text: '```\nok' };
+      yield { type: 'done', response: response('...') };
+    }
+    const onComplete = jest.fn();
+
+    const events = await collect(await createChatStreamResponse(() => chunks(), {
+      buildResult: content => ({ content }),
+      onComplete
+    }));
+
+    expect(events.map(event => event.type)).toEqual(['delta', 'delta', 'code', 'usage', 'result', 'done']);
+    expect(events[2]).toEqual({ type: 'code', index: 0, language: 'pine', code: 'plot(close)' });
+    expect(events[3]).toMatchObject({ model: 'fake-model', usage: { totalTokens: 30 } });
+    expect(events[4]).toEqual({ type: 'result', data: { content: '```pine\nplot(close)\n```\nok' } });
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  test('sends the fallback answer when the model fails before any text', async () => {
+    async function* failing(): AsyncGenerator<LLMStreamChunk> {
+      throw new Error('no models');
+    }
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const events = await collect(await createChatStreamResponse(() => failing(), { fallback: () => 'offline answer' }));
+
+    expect(events).toEqual([{ type: 'delta', text: 'offline answer' }, { type: 'done' }]);
+  });
+
+  test('reports an error when the model fails mid-answer', async () => {
+    async function* failing(): AsyncGenerator<LLMStreamChunk> {
+      yield { type: 'text', text: 'partial' };
+      throw new Error('connection reset');
+    }
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const events = await collect(await createChatStreamResponse(() => failing(), { fallback: () => 'unused' }));
+
+    expect(events).toEqual([{ type: 'delta', text: 'partial' }, { type: 'error', error: 'Failed to generate response' }]);
+  });
+
+  test('aborts the upstream request when the client cancels', async () => {
+    let upstream: AbortSignal | undefined;
+    async function* slow(signal: AbortSignal): AsyncGenerator<LLMStreamChunk> {
+      upstream = signal;
+      yield { type: 'text', text: 'first' };
+      await new Promise(resolve => signal.addEventListener('abort', resolve));
+      yield { type: 'done', response: response('first', 'cancelled') };
+    }
+    const onComplete = jest.fn();
+
+    const res = await createChatStreamResponse(slow, { onComplete });
+    const reader = res.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(upstream?.aborted).toBe(true);
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ finishReason: 'cancelled' }));
+  });
+
+  test('answers with a 402 instead of a stream when the account is out of tokens', async () => {
+    async function* refused(): AsyncGenerator<LLMStreamChunk> {
+      throw new InsufficientTokensError(40, 300);
+    }
+
+    const res = await createChatStreamResponse(() => refused(), { fallback: () => 'unused' });
+
+    expect(res.status).toBe(402);
+    expect(await res.json()).toMatchObject({
+      code: 'insufficient_tokens',
+      remaining: 40,
+      required: 300,
+      topUpUrl: '/api/user/extra-credits'
+    });
+  });
+
+  test('streams only for clients that accept event streams', () => {
+    const streaming = new Request('http://localhost/api/ai-chat', { headers: { Accept: 'text/event-stream' } });
+    const json = new Request('http://localhost/api/ai-chat', { headers: { Accept: 'application/json' } });
+
+    expect(wantsChatStream(streaming)).toBe(true);
+    expect(wantsChatStream(json)).toBe(false);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * LLM Gateway Tests
+ * Model selection, retries, timeouts, cancellation, usage, metering and streaming
+ */
+
+import { LLMGateway } from '../gateway';
+import type { GatewayModel } from '../gateway';
+import { InsufficientTokensError, LLMGatewayError } from '../errors';
+import { readServerSentEvents } from '../sse';
+import type { LLMProvider, LLMStreamChunk, ProviderCall, ProviderResult, ProviderStreamChunk, UsageMeter } from '../types';
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+jest.mock('../credentials', () => ({
+  getProviderCredential: jest.fn(() => ''),
+  recordCredentialUsage: jest.fn()
+}));
+
+const MODELS: GatewayModel[] = [
+  { id: 'm1', name: 'fake-small', provider: 'fake', modelId: 'small-1', maxTokens: 100, costPer1kTokens: 0.5, isDefault: false },
+  { id: 'm2', name: 'fake-large', provider: 'fake', modelId: 'large-1', maxTokens: null, costPer1kTokens: 2, isDefault: true },
+  { id: 'm3', name: 'other', provider: 'missing', modelId: 'other-1', maxTokens: null, costPer1kTokens: null, isDefault: false }
+];
+
+function result(content: string, totalTokens = 1000): ProviderResult {
+  return {
+    content,
+    toolCalls: [],
+    finishReason: 'stop',
+    usage: { promptTokens: totalTokens / 2, completionTokens: totalTokens / 2, totalTokens }
+  };
+}
+
+function fakeProvider(overrides: Partial<LLMProvider> = {}): LLMProvider {
+  return {
+    id: 'fake',
+    isConfigured: () => true,
+    complete: jest.fn(async () => result('hello')),
+    ...overrides
+  };
+}
+
+function createGateway(provider: LLMProvider, options = {}): LLMGateway {
+  const gateway = new LLMGateway({ loadModels: async () => MODELS, retryDelayMs: 1, ...options });
+  gateway.registerProvider(provider);
+  return gateway;
+}
+
+async function collect(stream: AsyncIterable<LLMStreamChunk>): Promise<LLMStreamChunk[]> {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+function fakeMeter(maxTokens = 50): jest.Mocked<UsageMeter> {
+  return {
+    reserve: jest.fn(async () => ({ id: 'r1', maxTokens })),
+    settle: jest.fn(async () => undefined),
+    release: jest.fn(async () => undefined)
+  };
+}
+
+const ACCOUNT = { userId: 'u1', requestType: 'chat' };
+
+// Never settles until the call's signal aborts
+function hangUntilAborted(call: ProviderCall): Promise<never> {
+  return new Promise((_, reject) => {
+    call.signal.addEventListener('abort', () => {
+      const error = new Error('aborted');
+      error.name = 'AbortError';
+      reject(error);
+    });
+  });
+}
+
+describe('LLMGateway', () => {
+  describe('model selection', () => {
+    test('resolves models by id, name or provider model id', async () => {
+      const gateway = createGateway(fakeProvider());
+
+      expect((await gateway.resolveModel('m1')).name).toBe('fake-small');
+      expect((await gateway.resolveModel('fake-small')).id).toBe('m1');
+      expect((await gateway.resolveModel('small-1')).id).toBe('m1');
+    });
+
+    test('falls back to the default model for unknown or missing names', async () => {
+      const gateway = createGateway(fakeProvider());
+
+      expect((await gateway.resolveModel()).id).toBe('m2');
+      expect((await gateway.resolveModel('gpt-unknown')).id).toBe('m2');
+    });
+
+    test('fails when no models are active', async () => {
+      const gateway = new LLMGateway({ loadModels: async () => [] });
+
+      await expect(gateway.resolveModel()).rejects.toMatchObject({ code: 'model_unavailable' });
+    });
+
+    test('lists only models with a configured provider', async () => {
+      const gateway = createGateway(fakeProvider());
+
+      expect((await gateway.listModels()).map(model => model.id)).toEqual(['m1', 'm2']);
+    });
+
+    test('rejects models whose provider is not registered', async () => {
+      const gateway = createGateway(fakeProvider());
+
+      await expect(gateway.complete({ model: 'other', messages: [] })).rejects.toMatchObject({ code: 'not_configured' });
+    });
+  });
+
+  describe('complete', () => {
+    test('reports cost from the model and caps max tokens', async () => {
+      const provider = fakeProvider();
+      const gateway = createGateway(provider);
+      const listener = jest.fn();
+      gateway.onUsage(listener);
+
+      const response = await gateway.complete({ model: 'fake-small', messages: [{ role: 'user', content: 'hi' }], maxTokens: 500 });
+
+      expect(response).toMatchObject({ content: 'hello', model: 'fake-small', provider: 'fake' });
+      expect(response.usage.cost).toBeCloseTo(0.5);
+      expect((provider.complete as jest.Mock).mock.calls[0][0].maxTokens).toBe(100);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ response }));
+    });
+
+    test('retries retryable errors with backoff', async () => {
+      const complete = jest.fn()
+        .mockRejectedValueOnce(new LLMGatewayError('rate_limited', 'slow down', 'fake', 429))
+        .mockRejectedValueOnce(new LLMGatewayError('server_error', 'oops', 'fake', 500))
+        .mockResolvedValueOnce(result('third time'));
+      const gateway = createGateway(fakeProvider({ complete }));
+
+      const response = await gateway.complete({ messages: [] });
+
+      expect(response.content).toBe('third time');
+      expect(complete).toHaveBeenCalledTimes(3);
+    });
+
+    test('does not retry request errors', async () => {
+      const complete = jest.fn().mockRejectedValue(new LLMGatewayError('invalid_request', 'bad', 'fake', 400));
+      const gateway = createGateway(fakeProvider({ complete }));
+
+      await expect(gateway.complete({ messages: [] })).rejects.toMatchObject({ code: 'invalid_request' });
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+
+    test('times out slow attempts and gives up after the last retry', async () => {
+      const complete = jest.fn(hangUntilAborted);
+      const gateway = createGateway(fakeProvider({ complete }), { maxRetries: 1 });
+
+      await expect(gateway.complete({ messages: [], timeoutMs: 10 })).rejects.toMatchObject({ code: 'timeout' });
+      expect(complete).toHaveBeenCalledTimes(2);
+    });
+
+    test('stops without retrying when the caller cancels', async () => {
+      const controller = new AbortController();
+      const complete = jest.fn(hangUntilAborted);
+      const gateway = createGateway(fakeProvider({ complete }));
+
+      const pending = gateway.complete({ messages: [], signal: controller.signal });
+      setTimeout(() => controller.abort(), 5);
+
+      await expect(pending).rejects.toMatchObject({ code: 'cancelled' });
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('stream', () => {
+    test('forwards provider chunks and finishes with the full response', async () => {
+      const provider = fakeProvider({
+        async *stream(): AsyncGenerator<ProviderStreamChunk> {
+          yield { type: 'text', text: 'Hel' };
+          yield { type: 'text', text: 'lo' };
+          yield { type: 'done', result: result('Hello', 2000) };
+        }
+      });
+      const gateway = createGateway(provider);
+
+      const chunks = await collect(gateway.stream({ messages: [] }));
+
+      expect(chunks.slice(0, 2)).toEqual([{ type: 'text', text: 'Hel' }, { type: 'text', text: 'lo' }]);
+      expect(chunks[2]).toMatchObject({ type: 'done', response: { content: 'Hello', usage: { cost: 4 } } });
+    });
+
+    test('streams providers without native streaming as a single chunk', async () => {
+      const gateway = createGateway(fakeProvider());
+
+      const chunks = await collect(gateway.stream({ messages: [] }));
+
+      expect(chunks.map(chunk => chunk.type)).toEqual(['text', 'done']);
+    });
+
+    test('retries failures that happen before the first chunk', async () => {
+      let attempts = 0;
+      const provider = fakeProvider({
+        async *stream(): AsyncGenerator<ProviderStreamChunk> {
+          attempts++;
+          if (attempts === 1) {
+            throw new LLMGatewayError('network_error', 'reset', 'fake');
+          }
+          yield { type: 'text', text: 'ok' };
+          yield { type: 'done', result: result('ok') };
+        }
+      });
+      const gateway = createGateway(provider);
+
+      const chunks = await collect(gateway.stream({ messages: [] }));
+
+      expect(attempts).toBe(2);
+      expect(chunks[chunks.length - 1]).toMatchObject({ type: 'done', response: { content: 'ok' } });
+    });
+
+    test('ends a cancelled stream with the partial answer', async () => {
+      const controller = new AbortController();
+      const provider = fakeProvider({
+        async *stream(call: ProviderCall): AsyncGenerator<ProviderStreamChunk> {
+          yield { type: 'text', text: 'partial answer' };
+          await hangUntilAborted(call);
+        }
+      });
+      const gateway = createGateway(provider);
+      const chunks: LLMStreamChunk[] = [];
+
+      for await (const chunk of gateway.stream({ messages: [], signal: controller.signal })) {
+        chunks.push(chunk);
+        if (chunk.type === 'text') controller.abort();
+      }
+
+      expect(chunks[1]).toMatchObject({
+        type: 'done',
+        response: { content: 'partial answer', finishReason: 'cancelled' }
+      });
+    });
+  });
+
+  describe('metering', () => {
+    test('leaves requests without an account unmetered', async () => {
+      const meter = fakeMeter();
+      const gateway = createGateway(fakeProvider(), { meter });
+
+      await gateway.complete({ messages: [] });
+
+      expect(meter.reserve).not.toHaveBeenCalled();
+    });
+
+    test('reserves before the call, limits the answer and settles the actual usage', async () => {
+      const provider = fakeProvider();
+      const meter = fakeMeter(40);
+      const gateway = createGateway(provider, { meter });
+
+      const response = await gateway.complete({ model: 'fake-small', messages: [], maxTokens: 500, account: ACCOUNT });
+
+      expect(meter.reserve).toHaveBeenCalledWith(ACCOUNT, expect.objectContaining({ id: 'm1' }), [], 100);
+      expect((provider.complete as jest.Mock).mock.calls[0][0].maxTokens).toBe(40);
+      expect(meter.settle).toHaveBeenCalledWith({ id: 'r1', maxTokens: 40 }, response.usage);
+      expect(meter.release).not.toHaveBeenCalled();
+    });
+
+    test('refuses the call when the balance cannot cover it', async () => {
+      const provider = fakeProvider();
+      const meter = fakeMeter();
+      meter.reserve.mockRejectedValue(new InsufficientTokensError(10, 300));
+      const gateway = createGateway(provider, { meter });
+
+      await expect(gateway.complete({ messages: [], account: ACCOUNT })).rejects.toMatchObject({
+        code: 'insufficient_tokens',
+        remaining: 10
+      });
+      expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    test('releases the reservation when the call fails', async () => {
+      const complete = jest.fn().mockRejectedValue(new LLMGatewayError('invalid_request', 'bad', 'fake', 400));
+      const meter = fakeMeter();
+      const gateway = createGateway(fakeProvider({ complete }), { meter });
+
+      await expect(gateway.complete({ messages: [], account: ACCOUNT })).rejects.toMatchObject({ code: 'invalid_request' });
+      expect(meter.release).toHaveBeenCalledWith({ id: 'r1', maxTokens: 50 });
+      expect(meter.settle).not.toHaveBeenCalled();
+    });
+
+    test('estimates the charge when the provider reports no usage', async () => {
+      const provider = fakeProvider({ complete: jest.fn(async () => result('twelve chars', 0)) });
+      const meter = fakeMeter();
+      const gateway = createGateway(provider, { meter });
+
+      const response = await gateway.complete({ model: 'fake-small', messages: [{ role: 'user', content: 'abcdefgh' }], account: ACCOUNT });
+
+      expect(response.usage).toMatchObject({ promptTokens: 2, completionTokens: 3, totalTokens: 5 });
+      expect(meter.settle).toHaveBeenCalledWith({ id: 'r1', maxTokens: 50 }, response.usage);
+    });
+
+    test('charges an abandoned stream for what it sent', async () => {
+      const provider = fakeProvider({
+        async *stream(): AsyncGenerator<ProviderStreamChunk> {
+          yield { type: 'text', text: 'twelve chars' };
+          yield { type: 'text', text: 'never read' };
+        }
+      });
+      const meter = fakeMeter();
+      const gateway = createGateway(provider, { meter });
+
+      for await (const chunk of gateway.stream({ messages: [{ role: 'user', content: 'abcdefgh' }], account: ACCOUNT })) {
+        if (chunk.type === 'text') break;
+      }
+
+      expect(meter.settle).toHaveBeenCalledWith(
+        { id: 'r1', maxTokens: 50 },
+        expect.objectContaining({ promptTokens: 2, completionTokens: 3, totalTokens: 5 })
+      );
+    });
+  });
+});
+
+describe('readServerSentEvents', () => {
+  test('splits events across chunk boundaries', async () => {
+    const encoder = new TextEncoder();
+    const parts = ['event: delta\ndata: {"a"', ':1}\n\n: keep-alive\n\ndata: line one\r\ndata: line two\r\n\r\n', 'data: [DONE]'];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        parts.forEach(part => controller.enqueue(encoder.encode(part)));
+        controller.close();
+      }
+    });
+
+    const events = [];
+    for await (const event of readServerSentEvents(body)) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { event: 'delta', data: '{"a":1}' },
+      { event: null, data: 'line one\nline two' },
+      { event: null, data: '[DONE]' }
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Local Provider Tests
+ * Self-hosted OpenAI- and Ollama-compatible servers, against a stubbed endpoint
+ */
+
+import { localBaseUrl, localProvider } from '../providers/openai-compatible';
+import type { ProviderCall } from '../types';
+
+jest.mock('../credentials', () => ({
+  getProviderCredential: jest.fn((provider: string) => (provider === 'local' ? 'http://gpu-box:8080/' : ''))
+}));
+
+const CALL: ProviderCall = {
+  model: { id: 'm-local', name: 'local-llm', provider: 'local', modelId: 'llama3.1', maxTokens: 8192, costPer1kTokens: 0 },
+  messages: [
+    { role: 'system', content: 'Always write Pine Script v6.' },
+    { role: 'user', content: 'RSI strategy please' }
+  ],
+  maxTokens: 500,
+  temperature: 0.3,
+  signal: new AbortController().signal
+};
+
+function stubServer(body: unknown): jest.SpyInstance {
+  return jest.spyOn(global, 'fetch').mockResolvedValue(
+    new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  );
+}
+
+describe('localBaseUrl', () => {
+  test('adds the /v1 path to a bare server address', () => {
+    expect(localBaseUrl('http://localhost:11434')).toBe('http://localhost:11434/v1');
+    expect(localBaseUrl('http://gpu-box:8080/')).toBe('http://gpu-box:8080/v1');
+  });
+
+  test('keeps an address that already names the API path', () => {
+    expect(localBaseUrl('https://llm.internal/openai/v1/')).toBe('https://llm.internal/openai/v1');
+  });
+});
+
+describe('localProvider', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.LOCAL_LLM_API_KEY;
+  });
+
+  test('is available without an API key', () => {
+    expect(localProvider.isConfigured()).toBe(true);
+  });
+
+  test('sends the prompt, system message included, to the configured server', async () => {
+    const fetchSpy = stubServer({
+      choices: [{ message: { content: '//@version=6\nstrategy("RSI")' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 30, completion_tokens: 12 }
+    });
+
+    const result = await localProvider.complete(CALL);
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('http://gpu-box:8080/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'llama3.1',
+      messages: [
+        { role: 'system', content: 'Always write Pine Script v6.' },
+        { role: 'user', content: 'RSI strategy please' }
+      ],
+      max_tokens: 500
+    });
+    expect(result).toMatchObject({
+      content: '//@version=6\nstrategy("RSI")',
+      usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 }
+    });
+  });
+
+  test('sends a bearer token when the server requires one', async () => {
+    process.env.LOCAL_LLM_API_KEY = 'local-secret';
+    const fetchSpy = stubServer({ choices: [{ message: { content: 'ok' } }] });
+
+    await localProvider.complete(CALL);
+
+    expect(fetchSpy.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer local-secret' });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Token Metering Tests
+ * Reservation sizing and splitting usage between plan tokens and extra credits
+ */
+
+import { availableTokens, planReservation, splitUsage } from '../metering';
+import { InsufficientTokensError } from '../errors';
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+describe('planReservation', () => {
+  test('holds the prompt and the full completion budget when the balance allows', () => {
+    expect(planReservation(10000, 300, 2000)).toEqual({ tokens: 2300, maxTokens: 2000 });
+  });
+
+  test('shrinks the completion budget to what is left', () => {
+    expect(planReservation(1000, 300, 2000)).toEqual({ tokens: 1000, maxTokens: 700 });
+  });
+
+  test('refuses when not even a short answer fits', () => {
+    let error: unknown;
+    try {
+      planReservation(400, 300, 2000);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(InsufficientTokensError);
+    expect(error).toMatchObject({ remaining: 400, required: 556 });
+  });
+
+  test('reports no tokens left for an overdrawn balance', () => {
+    expect(() => planReservation(availableTokens({ regular: -50, extra: 0 }), 10, 100)).toThrow(
+      expect.objectContaining({ remaining: 0 })
+    );
+  });
+});
+
+describe('splitUsage', () => {
+  test('charges the plan allocation first', () => {
+    expect(splitUsage({ regular: 5000, extra: 1000 }, 1200, 'chat')).toEqual([{ requestType: 'chat', tokens: 1200 }]);
+  });
+
+  test('charges extra credits for what the plan allocation cannot cover', () => {
+    expect(splitUsage({ regular: 200, extra: 1000 }, 1200, 'chat')).toEqual([
+      { requestType: 'chat', tokens: 200 },
+      { requestType: 'extra_credits', tokens: 1000 }
+    ]);
+  });
+
+  test('keeps usage beyond both balances on the plan allocation', () => {
+    expect(splitUsage({ regular: 0, extra: 100 }, 300, 'generation')).toEqual([
+      { requestType: 'generation', tokens: 200 },
+      { requestType: 'extra_credits', tokens: 100 }
+    ]);
+  });
+});
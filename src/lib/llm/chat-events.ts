@@ -0,0 +1,92 @@
+/**
+ * LLM Gateway - Chat Stream Events
+ *
+ * The server-sent events the streaming chat routes emit, and the readers the
+ * chat UIs use to consume them. Safe to import from client components.
+ */
+
+import { readServerSentEvents } from './sse';
+import type { LLMFinishReason, LLMUsage } from './types';
+
+export const CHAT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'code'; index: number; language: string; code: string } // A fenced code block just closed
+  | { type: 'usage'; model: string; provider: string; finishReason: LLMFinishReason; usage: LLMUsage }
+  | { type: 'result'; data: unknown } // Route-specific payload built from the full answer
+  | { type: 'error'; error: string }
+  | { type: 'done' };
+
+export interface CompletedCodeBlock {
+  index: number;
+  language: string;
+  code: string;
+}
+
+const FENCE = '```';
+
+/**
+ * Watches streamed text and reports each fenced code block the moment its
+ * closing fence arrives, so the UI can render and validate it before the
+ * rest of the answer has streamed.
+ */
+export class CodeBlockTracker {
+  private text = '';
+  private scanned = 0; // Everything before this offset has been classified
+  private openBlock: { language: string; start: number } | null = null;
+  private completed = 0;
+
+  push(delta: string): CompletedCodeBlock[] {
+    this.text += delta;
+    const blocks: CompletedCodeBlock[] = [];
+
+    while (true) {
+      const fence = this.text.indexOf(FENCE, this.scanned);
+      if (fence === -1) {
+        // A fence can be split across deltas, so the tail is scanned again
+        this.scanned = Math.max(this.scanned, this.text.length - (FENCE.length - 1));
+        break;
+      }
+
+      if (!this.openBlock) {
+        // The opening fence counts once its info string line is complete
+        const lineEnd = this.text.indexOf('\n', fence);
+        if (lineEnd === -1) {
+          this.scanned = fence;
+          break;
+        }
+        this.openBlock = { language: this.text.slice(fence + FENCE.length, lineEnd).trim(), start: lineEnd + 1 };
+        this.scanned = lineEnd + 1;
+      } else {
+        const code = this.text.slice(this.openBlock.start, fence).replace(/\n$/, '');
+        blocks.push({ index: this.completed++, language: this.openBlock.language, code });
+        this.openBlock = null;
+        this.scanned = fence + FENCE.length;
+      }
+    }
+
+    return blocks;
+  }
+}
+
+// Whether a completed block holds Pine Script rather than some other language
+export function isPineCodeBlock(block: CompletedCodeBlock): boolean {
+  const language = block.language.toLowerCase();
+  return language === 'pine' || language === 'pinescript' || (language === '' && /\/\/\s*@version\s*=/.test(block.code));
+}
+
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read a streaming chat response body back into events.
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  for await (const event of readServerSentEvents(body)) {
+    if (!event.event) continue;
+    yield { type: event.event, ...JSON.parse(event.data) } as ChatStreamEvent;
+  }
+}
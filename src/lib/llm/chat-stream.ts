@@ -0,0 +1,121 @@
+/**
+ * LLM Gateway - Streaming Chat Responses
+ *
+ * Turns a gateway stream into a server-sent event response: token deltas,
+ * a code event per finished code block, a final usage frame and done.
+ * Closing the connection aborts the upstream provider request. A request
+ * refused for lack of tokens gets a plain 402 instead of a stream.
+ */
+
+import { CHAT_STREAM_CONTENT_TYPE, CodeBlockTracker, encodeChatEvent } from './chat-events';
+import type { ChatStreamEvent } from './chat-events';
+import { InsufficientTokensError } from './errors';
+import { outOfTokensResponse } from './metering';
+import type { LLMResponse, LLMStreamChunk } from './types';
+
+export interface ChatStreamOptions {
+  signal?: AbortSignal; // The incoming request's signal, aborted when the client goes away
+  fallback?: () => string; // Answer to send when the model fails before streaming anything
+  // Sent as a result event once the answer is complete; may call the model again with the signal
+  buildResult?: (content: string, signal: AbortSignal) => unknown;
+  onComplete?: (response: LLMResponse) => void | Promise<void>;
+}
+
+// Whether the client asked for a streamed answer instead of one JSON body
+export function wantsChatStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes(CHAT_STREAM_CONTENT_TYPE) ?? false;
+}
+
+export async function createChatStreamResponse(
+  start: (signal: AbortSignal) => AsyncIterable<LLMStreamChunk>,
+  options: ChatStreamOptions = {}
+): Promise<Response> {
+  const upstream = new AbortController();
+  const abort = () => upstream.abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+  if (options.signal?.aborted) upstream.abort();
+
+  const chunks = start(upstream.signal)[Symbol.asyncIterator]();
+  // Wait for the first chunk so a refused request can still get a status code
+  const first = chunks.next();
+  const refusal = await first.then(
+    () => null,
+    error => (error instanceof InsufficientTokensError ? error : null)
+  );
+  if (refusal) {
+    options.signal?.removeEventListener('abort', abort);
+    return outOfTokensResponse(refusal);
+  }
+
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (upstream.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(encodeChatEvent(event)));
+        } catch {
+          // The client disconnected between chunks
+        }
+      };
+
+      const tracker = new CodeBlockTracker();
+      let content = '';
+      const sendText = (text: string) => {
+        content += text;
+        send({ type: 'delta', text });
+        tracker.push(text).forEach(block => send({ type: 'code', ...block }));
+      };
+
+      try {
+        try {
+          for (let next = await first; !next.done; next = await chunks.next()) {
+            const chunk = next.value;
+            if (chunk.type === 'text') {
+              sendText(chunk.text);
+            } else if (chunk.type === 'done') {
+              const { model, provider, finishReason, usage } = chunk.response;
+              send({ type: 'usage', model, provider, finishReason, usage });
+              await options.onComplete?.(chunk.response);
+            }
+          }
+        } catch (error) {
+          if (content || !options.fallback || upstream.signal.aborted) throw error;
+          console.error('Chat stream failed, sending fallback answer:', error);
+          sendText(options.fallback());
+        }
+
+        if (options.buildResult) {
+          send({ type: 'result', data: await options.buildResult(content, upstream.signal) });
+        }
+        send({ type: 'done' });
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error('Chat stream error:', error);
+          send({ type: 'error', error: 'Failed to generate response' });
+        }
+      } finally {
+        options.signal?.removeEventListener('abort', abort);
+        // Lets the gateway settle usage for a stream that stopped early
+        await chunks.return?.().catch(() => undefined);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancel
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * LLM Gateway - Credentials
+ *
+ * API keys and endpoints for each provider: keys saved from the admin panel
+ * win over environment variables. Server only.
+ */
+
+import { simpleApiKeys } from '@/lib/simple-api-keys';
+
+const ENVIRONMENT_KEYS: Record<string, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  google: 'GOOGLE_AI_KEY',
+  mistral: 'MISTRAL_API_KEY',
+  ollama: 'OLLAMA_URL',
+  local: 'LOCAL_LLM_URL'
+};
+
+export function getProviderCredential(provider: string): string {
+  let stored: string | null = null;
+  try {
+    stored = simpleApiKeys.getApiKey(provider);
+  } catch (error) {
+    console.error(`Failed to load stored ${provider} key:`, error);
+  }
+  const variable = ENVIRONMENT_KEYS[provider];
+  return stored || (variable && process.env[variable]) || '';
+}
+
+// Counts a request against the stored key, for the admin usage figures
+export function recordCredentialUsage(provider: string): void {
+  try {
+    simpleApiKeys.recordUsage(provider);
+  } catch (error) {
+    console.error(`Failed to record ${provider} key usage:`, error);
+  }
+}
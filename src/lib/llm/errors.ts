@@ -0,0 +1,92 @@
+/**
+ * LLM Gateway - Errors
+ *
+ * One error type for every provider, classified so the gateway knows which
+ * failures are worth retrying and routes can map them to status codes.
+ */
+
+export type LLMErrorCode =
+  | 'not_configured'
+  | 'model_unavailable'
+  | 'auth_error'
+  | 'rate_limited'
+  | 'timeout'
+  | 'cancelled'
+  | 'invalid_request'
+  | 'server_error'
+  | 'network_error'
+  | 'insufficient_tokens';
+
+const RETRYABLE_CODES: LLMErrorCode[] = ['rate_limited', 'timeout', 'server_error', 'network_error'];
+
+export class LLMGatewayError extends Error {
+  readonly code: LLMErrorCode;
+  readonly provider: string;
+  readonly status?: number;
+
+  constructor(code: LLMErrorCode, message: string, provider: string, status?: number) {
+    super(message);
+    this.name = 'LLMGatewayError';
+    this.code = code;
+    this.provider = provider;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+/**
+ * The user's token balance cannot cover the request. Carries what is left
+ * and what the request needed, for the out of tokens response.
+ */
+export class InsufficientTokensError extends LLMGatewayError {
+  readonly remaining: number;
+  readonly required: number;
+
+  constructor(remaining: number, required: number) {
+    super('insufficient_tokens', `Out of AI tokens: ${remaining} left, ${required} needed`, 'gateway', 402);
+    this.name = 'InsufficientTokensError';
+    this.remaining = remaining;
+    this.required = required;
+  }
+}
+
+/**
+ * Turn a failed provider HTTP response into a gateway error, using the
+ * provider's own error message when the body has one.
+ */
+export async function errorFromResponse(response: Response, provider: string): Promise<LLMGatewayError> {
+  const body = await response.json().catch(() => ({}));
+  const detail = body?.error?.message || body?.error || body?.message || response.statusText;
+  const message = `${provider} API error: ${response.status}${detail ? ` - ${detail}` : ''}`;
+
+  if (response.status === 401 || response.status === 403) {
+    return new LLMGatewayError('auth_error', message, provider, response.status);
+  }
+  if (response.status === 429) {
+    return new LLMGatewayError('rate_limited', message, provider, response.status);
+  }
+  if (response.status >= 500) {
+    return new LLMGatewayError('server_error', message, provider, response.status);
+  }
+  return new LLMGatewayError('invalid_request', message, provider, response.status);
+}
+
+/**
+ * Classify anything a provider call threw: aborts become timeouts or
+ * cancellations, fetch failures network errors.
+ */
+export function toGatewayError(error: unknown, provider: string, cancelled: boolean): LLMGatewayError {
+  if (error instanceof LLMGatewayError) {
+    return error;
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return cancelled
+      ? new LLMGatewayError('cancelled', 'Request was cancelled', provider)
+      : new LLMGatewayError('timeout', 'Request timed out', provider);
+  }
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new LLMGatewayError('network_error', `${provider} request failed: ${message}`, provider);
+}
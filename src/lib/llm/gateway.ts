@@ -0,0 +1,474 @@
+/**
+ * LLM Gateway - Core
+ *
+ * Picks the model from the LLMModel table, hands the request to the matching
+ * provider plugin and applies the same timeouts, retries, rate limits,
+ * cancellation and usage accounting whichever provider answers.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { recordCredentialUsage } from './credentials';
+import { LLMGatewayError, toGatewayError } from './errors';
+import { estimatePromptTokens, estimateTokens } from './tokens';
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamChunk,
+  ProviderCall,
+  ProviderResult,
+  ProviderStreamChunk,
+  ResolvedModel,
+  UsageMeter,
+  UsageReservation
+} from './types';
+
+export interface GatewayModel extends ResolvedModel {
+  isDefault: boolean;
+}
+
+export interface LLMUsageEvent {
+  model: ResolvedModel;
+  response: LLMResponse;
+}
+
+export type LLMUsageListener = (event: LLMUsageEvent) => void;
+
+export interface LLMGatewayOptions {
+  timeoutMs?: number; // Per attempt; for streams, the longest wait between chunks
+  maxRetries?: number;
+  retryDelayMs?: number; // Doubles after each failed attempt
+  defaultMaxTokens?: number;
+  defaultTemperature?: number;
+  modelCacheMs?: number;
+  loadModels?: () => Promise<GatewayModel[]>;
+  meter?: UsageMeter; // Bills requests that carry an account
+}
+
+const DEFAULT_OPTIONS = {
+  timeoutMs: 60000,
+  maxRetries: 2,
+  retryDelayMs: 1000,
+  defaultMaxTokens: 2000,
+  defaultTemperature: 0.7,
+  modelCacheMs: 60000
+};
+
+const RATE_LIMIT_WINDOW_MS = 60000;
+
+async function loadActiveModels(): Promise<GatewayModel[]> {
+  const models = await prisma.lLMModel.findMany({
+    where: { isActive: true },
+    orderBy: { createdAt: 'asc' }
+  });
+  return models.map((model: GatewayModel) => ({
+    id: model.id,
+    name: model.name,
+    provider: model.provider,
+    modelId: model.modelId,
+    maxTokens: model.maxTokens,
+    costPer1kTokens: model.costPer1kTokens,
+    isDefault: model.isDefault
+  }));
+}
+
+// Usage estimated from the prompt and what the model sent, for providers that report none
+function estimateUsage(request: LLMRequest, result: Pick<ProviderResult, 'content' | 'toolCalls'>): ProviderResult['usage'] {
+  const promptTokens = estimatePromptTokens(request.messages);
+  const output = result.toolCalls.length > 0 ? result.content + JSON.stringify(result.toolCalls) : result.content;
+  const completionTokens = estimateTokens(output);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// What a stream cut short had sent, with estimated usage since the provider never reported it
+function partialResult(request: LLMRequest, content: string): ProviderResult {
+  return {
+    content,
+    toolCalls: [],
+    finishReason: 'cancelled',
+    usage: estimateUsage(request, { content, toolCalls: [] })
+  };
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Settle with the promise, or reject as soon as the signal aborts
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(abortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface Attempt {
+  signal: AbortSignal;
+  touch(): void; // Restart the timeout, e.g. after a stream chunk arrives
+  dispose(): void;
+}
+
+export class LLMGateway {
+  private providers = new Map<string, LLMProvider>();
+  private usageListeners = new Set<LLMUsageListener>();
+  private requestTimes = new Map<string, number[]>();
+  private modelCache: { models: GatewayModel[]; loadedAt: number } | null = null;
+  private options: typeof DEFAULT_OPTIONS;
+  private loadModels: () => Promise<GatewayModel[]>;
+  private meter: UsageMeter | null;
+
+  constructor(options: LLMGatewayOptions = {}) {
+    const { loadModels, meter, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.loadModels = loadModels || loadActiveModels;
+    this.meter = meter || null;
+  }
+
+  registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  getProvider(id: string): LLMProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Subscribe to the usage of every finished request. Returns the function
+   * that unsubscribes.
+   */
+  onUsage(listener: LLMUsageListener): () => void {
+    this.usageListeners.add(listener);
+    return () => {
+      this.usageListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Active models whose provider is registered and has credentials.
+   */
+  async listModels(): Promise<GatewayModel[]> {
+    const models = await this.getModels();
+    return models.filter(model => this.providers.get(model.provider)?.isConfigured());
+  }
+
+  /**
+   * Find a model by id, name or provider model id. Unknown or missing
+   * models fall back to the default model, then to the first active one.
+   */
+  async resolveModel(idOrName?: string): Promise<GatewayModel> {
+    const models = await this.getModels();
+    const requested = idOrName
+      ? models.find(model => model.id === idOrName || model.name === idOrName) ||
+        models.find(model => model.modelId === idOrName)
+      : undefined;
+    const model = requested || models.find(model => model.isDefault) || models[0];
+
+    if (!model) {
+      throw new LLMGatewayError('model_unavailable', 'No active LLM models are configured', 'gateway');
+    }
+    return model;
+  }
+
+  // Drop the cached model list, e.g. after an admin edits the LLMModel table
+  invalidateModels(): void {
+    this.modelCache = null;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = await this.resolveModel(request.model);
+    const provider = this.requireProvider(model);
+    const reservation = await this.reserve(request, model);
+    const startTime = Date.now();
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const current = this.startAttempt(request);
+        try {
+          await this.acquireSlot(provider, current.signal);
+          const call = this.buildCall(request, model, current.signal, reservation);
+          const result = await untilAborted(provider.complete(call), current.signal);
+          return await this.finish(request, model, result, startTime, reservation);
+        } catch (error) {
+          const gatewayError = toGatewayError(error, provider.id, Boolean(request.signal?.aborted));
+          if (!gatewayError.retryable || attempt >= this.options.maxRetries) {
+            throw gatewayError;
+          }
+        } finally {
+          current.dispose();
+        }
+
+        await this.backoff(attempt, request.signal, provider.id);
+      }
+    } catch (error) {
+      await this.release(reservation);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream the answer as text and tool call chunks, ending with a done chunk
+   * that carries the full response. Failures are retried only until the
+   * first chunk has been sent; a cancelled stream ends with what arrived.
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const model = await this.resolveModel(request.model);
+    const provider = this.requireProvider(model);
+    const reservation = await this.reserve(request, model);
+    const startTime = Date.now();
+    let content = '';
+    let started = false;
+    let finished = false;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const current = this.startAttempt(request);
+        let iterator: AsyncIterator<ProviderStreamChunk> | undefined;
+
+        try {
+          await this.acquireSlot(provider, current.signal);
+          const call = this.buildCall(request, model, current.signal, reservation);
+          const source = provider.stream ? provider.stream(call) : this.completeAsStream(provider, call);
+          iterator = source[Symbol.asyncIterator]();
+
+          while (true) {
+            const { done, value } = await untilAborted(iterator.next(), current.signal);
+            if (done) {
+              throw new LLMGatewayError('server_error', `${provider.id} stream ended without a result`, provider.id);
+            }
+            current.touch();
+            started = true;
+
+            if (value.type === 'done') {
+              finished = true;
+              yield { type: 'done', response: await this.finish(request, model, value.result, startTime, reservation) };
+              return;
+            }
+            if (value.type === 'text') {
+              content += value.text;
+            }
+            yield value;
+          }
+        } catch (error) {
+          const gatewayError = toGatewayError(error, provider.id, Boolean(request.signal?.aborted));
+
+          if (gatewayError.code === 'cancelled' && started) {
+            finished = true;
+            yield { type: 'done', response: await this.finish(request, model, partialResult(request, content), startTime, reservation) };
+            return;
+          }
+          if (started || !gatewayError.retryable || attempt >= this.options.maxRetries) {
+            throw gatewayError;
+          }
+        } finally {
+          current.dispose();
+          iterator?.return?.().catch(() => undefined);
+        }
+
+        await this.backoff(attempt, request.signal, provider.id);
+      }
+    } finally {
+      // A stream that failed or was abandoned still pays for what it sent
+      if (!finished) {
+        if (started) {
+          await this.finish(request, model, partialResult(request, content), startTime, reservation);
+        } else {
+          await this.release(reservation);
+        }
+      }
+    }
+  }
+
+  private async getModels(): Promise<GatewayModel[]> {
+    const now = Date.now();
+    if (this.modelCache && now - this.modelCache.loadedAt < this.options.modelCacheMs) {
+      return this.modelCache.models;
+    }
+    const models = await this.loadModels();
+    this.modelCache = { models, loadedAt: now };
+    return models;
+  }
+
+  private requireProvider(model: ResolvedModel): LLMProvider {
+    const provider = this.providers.get(model.provider);
+    if (!provider) {
+      throw new LLMGatewayError('not_configured', `No provider registered for ${model.provider}`, model.provider);
+    }
+    if (!provider.isConfigured()) {
+      throw new LLMGatewayError('not_configured', `${model.provider} is missing its API key`, model.provider);
+    }
+    return provider;
+  }
+
+  private buildCall(
+    request: LLMRequest,
+    model: ResolvedModel,
+    signal: AbortSignal,
+    reservation: UsageReservation | null = null
+  ): ProviderCall {
+    return {
+      model,
+      messages: request.messages,
+      maxTokens: reservation ? reservation.maxTokens : this.maxTokensFor(request, model),
+      temperature: request.temperature ?? this.options.defaultTemperature,
+      tools: request.tools,
+      signal
+    };
+  }
+
+  private maxTokensFor(request: LLMRequest, model: ResolvedModel): number {
+    const requested = request.maxTokens ?? this.options.defaultMaxTokens;
+    return model.maxTokens ? Math.min(requested, model.maxTokens) : requested;
+  }
+
+  // Hold tokens for requests billed to an account; throws when the balance cannot cover them
+  private async reserve(request: LLMRequest, model: ResolvedModel): Promise<UsageReservation | null> {
+    if (!request.account || !this.meter) return null;
+    return this.meter.reserve(request.account, model, request.messages, this.maxTokensFor(request, model));
+  }
+
+  private async release(reservation: UsageReservation | null): Promise<void> {
+    if (!reservation || !this.meter) return;
+    try {
+      await this.meter.release(reservation);
+    } catch (error) {
+      console.error('Failed to release LLM token reservation:', error);
+    }
+  }
+
+  private startAttempt(request: LLMRequest): Attempt {
+    const controller = new AbortController();
+    const timeoutMs = request.timeoutMs ?? this.options.timeoutMs;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const touch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), timeoutMs);
+    };
+    const onCancel = () => controller.abort();
+
+    request.signal?.addEventListener('abort', onCancel, { once: true });
+    if (request.signal?.aborted) controller.abort();
+    touch();
+
+    return {
+      signal: controller.signal,
+      touch,
+      dispose: () => {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', onCancel);
+      }
+    };
+  }
+
+  // Sliding one-minute window per provider; waits for a free slot
+  private async acquireSlot(provider: LLMProvider, signal: AbortSignal): Promise<void> {
+    const limit = provider.requestsPerMinute;
+    if (!limit) return;
+
+    while (true) {
+      const now = Date.now();
+      const recent = (this.requestTimes.get(provider.id) || []).filter(time => now - time < RATE_LIMIT_WINDOW_MS);
+      if (recent.length < limit) {
+        recent.push(now);
+        this.requestTimes.set(provider.id, recent);
+        return;
+      }
+      this.requestTimes.set(provider.id, recent);
+      await sleep(recent[0] + RATE_LIMIT_WINDOW_MS - now, signal);
+    }
+  }
+
+  private async backoff(attempt: number, signal: AbortSignal | undefined, provider: string): Promise<void> {
+    try {
+      await sleep(this.options.retryDelayMs * Math.pow(2, attempt), signal);
+    } catch {
+      throw new LLMGatewayError('cancelled', 'Request was cancelled', provider);
+    }
+  }
+
+  private async *completeAsStream(provider: LLMProvider, call: ProviderCall): AsyncGenerator<ProviderStreamChunk> {
+    const result = await provider.complete(call);
+    if (result.content) {
+      yield { type: 'text', text: result.content };
+    }
+    for (const toolCall of result.toolCalls) {
+      yield { type: 'tool_call', toolCall };
+    }
+    yield { type: 'done', result };
+  }
+
+  private async finish(
+    request: LLMRequest,
+    model: ResolvedModel,
+    result: ProviderResult,
+    startTime: number,
+    reservation: UsageReservation | null
+  ): Promise<LLMResponse> {
+    // OpenAI-compatible servers other than OpenAI do not report usage on streams; an answer is never free
+    const answered = result.content.length > 0 || result.toolCalls.length > 0;
+    const usage = result.usage.totalTokens === 0 && answered ? estimateUsage(request, result) : result.usage;
+    const response: LLMResponse = {
+      content: result.content,
+      toolCalls: result.toolCalls,
+      model: model.name,
+      provider: model.provider,
+      finishReason: result.finishReason,
+      usage: {
+        ...usage,
+        cost: (usage.totalTokens / 1000) * (model.costPer1kTokens || 0)
+      },
+      responseTime: Date.now() - startTime
+    };
+
+    recordCredentialUsage(model.provider);
+    if (reservation && this.meter) {
+      try {
+        await this.meter.settle(reservation, response.usage);
+      } catch (error) {
+        // The answer is delivered either way; the reservation stays as the charge
+        console.error('Failed to settle LLM token usage:', error);
+      }
+    }
+    this.usageListeners.forEach(listener => {
+      try {
+        listener({ model, response });
+      } catch (error) {
+        console.error('LLM usage listener failed:', error);
+      }
+    });
+    return response;
+  }
+}
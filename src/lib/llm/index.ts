@@ -0,0 +1,56 @@
+/**
+ * LLM Gateway - Main Export
+ *
+ * The one server-side entry point for talking to language models. Every chat
+ * route goes through llmGateway, which routes each request to the provider
+ * plugin named by its LLMModel row and bills requests that name an account.
+ */
+
+import { LLMGateway } from './gateway';
+import { tokenMeter } from './metering';
+import { anthropicProvider } from './providers/anthropic';
+import { googleProvider } from './providers/google';
+import { localProvider, mistralProvider, ollamaProvider, openaiProvider } from './providers/openai-compatible';
+
+export { LLMGateway } from './gateway';
+export type { GatewayModel, LLMGatewayOptions, LLMUsageEvent, LLMUsageListener } from './gateway';
+export { InsufficientTokensError, LLMGatewayError } from './errors';
+export type { LLMErrorCode } from './errors';
+export { localBaseUrl, OpenAICompatibleProvider } from './providers/openai-compatible';
+export type { OpenAICompatibleOptions } from './providers/openai-compatible';
+export { TokenMeter, tokenMeter, outOfTokensResponse, planReservation, splitUsage, TOP_UP_URL } from './metering';
+export type { ReservationPlan, TokenBalance, UsageShare } from './metering';
+export { createChatStreamResponse, wantsChatStream } from './chat-stream';
+export type { ChatStreamOptions } from './chat-stream';
+export { CodeBlockTracker, encodeChatEvent, isPineCodeBlock, readChatStream, CHAT_STREAM_CONTENT_TYPE } from './chat-events';
+export type { ChatStreamEvent, CompletedCodeBlock } from './chat-events';
+export { readServerSentEvents } from './sse';
+export type { ServerSentEvent } from './sse';
+export type {
+  LLMRole,
+  LLMToolCall,
+  LLMMessage,
+  LLMToolDefinition,
+  LLMRequest,
+  LLMAccount,
+  LLMUsage,
+  LLMFinishReason,
+  LLMResponse,
+  LLMStreamChunk,
+  ResolvedModel,
+  ProviderResult,
+  ProviderStreamChunk,
+  ProviderCall,
+  LLMProvider,
+  UsageMeter,
+  UsageReservation
+} from './types';
+
+export const llmGateway = new LLMGateway({ meter: tokenMeter });
+
+llmGateway.registerProvider(openaiProvider);
+llmGateway.registerProvider(anthropicProvider);
+llmGateway.registerProvider(googleProvider);
+llmGateway.registerProvider(mistralProvider);
+llmGateway.registerProvider(ollamaProvider);
+llmGateway.registerProvider(localProvider);
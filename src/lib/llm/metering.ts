@@ -0,0 +1,203 @@
+/**
+ * LLM Gateway - Token Metering
+ *
+ * Bills every model call made on behalf of a user against their token
+ * allocations. A reservation row is written before the call, sized from the
+ * prompt and the completion budget, and rewritten with the provider's actual
+ * usage afterwards. Reservations and settlements take a per-user advisory
+ * lock so concurrent requests cannot spend the same tokens twice.
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@/lib/prisma';
+import { InsufficientTokensError } from './errors';
+import { estimatePromptTokens } from './tokens';
+import type { LLMAccount, LLMMessage, LLMUsage, ResolvedModel, UsageMeter, UsageReservation } from './types';
+
+export const TOP_UP_URL = '/api/user/extra-credits';
+
+// Smallest completion budget worth calling a model with
+export const MIN_COMPLETION_TOKENS = 256;
+
+// Purchased credits are tracked apart from the plan allocation, see /api/user/extra-credits
+const EXTRA_CREDITS_REASON = 'extra_credits_purchase';
+const EXTRA_CREDITS_REQUEST_TYPE = 'extra_credits';
+
+export interface TokenBalance {
+  regular: number;
+  extra: number;
+}
+
+export interface ReservationPlan {
+  tokens: number; // Held against the balance until the call settles
+  maxTokens: number; // Completion budget the call may use
+}
+
+export interface UsageShare {
+  requestType: string;
+  tokens: number;
+}
+
+export function availableTokens(balance: TokenBalance): number {
+  return Math.max(0, balance.regular) + Math.max(0, balance.extra);
+}
+
+/**
+ * Size a reservation: the prompt plus as much of the requested completion
+ * as the balance covers. Throws when not even a minimal answer fits.
+ */
+export function planReservation(available: number, promptTokens: number, maxTokens: number): ReservationPlan {
+  const minimum = Math.min(maxTokens, MIN_COMPLETION_TOKENS);
+  const completion = Math.min(maxTokens, available - promptTokens);
+
+  if (completion < minimum) {
+    throw new InsufficientTokensError(Math.max(0, available), promptTokens + minimum);
+  }
+  return { tokens: promptTokens + completion, maxTokens: completion };
+}
+
+/**
+ * Charge the plan allocation first and purchased extra credits for the rest.
+ */
+export function splitUsage(balance: TokenBalance, tokens: number, requestType: string): UsageShare[] {
+  const regular = Math.min(tokens, Math.max(0, balance.regular));
+  const extra = Math.min(tokens - regular, Math.max(0, balance.extra));
+  // Anything beyond both balances (an answer longer than estimated) stays on the plan allocation
+  const shares: UsageShare[] = [{ requestType, tokens: tokens - extra }];
+
+  if (extra > 0) {
+    shares.push({ requestType: EXTRA_CREDITS_REQUEST_TYPE, tokens: extra });
+  }
+  return shares;
+}
+
+// Models without a price, such as local or built-in ones, are free to use
+function isMetered(model: ResolvedModel): boolean {
+  return (model.costPer1kTokens || 0) > 0;
+}
+
+async function lockAccount(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}))`;
+}
+
+async function readBalance(tx: Prisma.TransactionClient, userId: string, excludeLogId?: string): Promise<TokenBalance> {
+  const allocations = await tx.tokenAllocation.findMany({
+    where: {
+      userId,
+      isActive: true,
+      OR: [
+        { expiresAt: null },
+        { expiresAt: { gt: new Date() } }
+      ]
+    },
+    select: { tokenAmount: true, reason: true }
+  });
+
+  const usage = await tx.tokenUsageLog.groupBy({
+    by: ['requestType'],
+    where: excludeLogId ? { userId, id: { not: excludeLogId } } : { userId },
+    _sum: { tokensUsed: true }
+  });
+
+  const balance: TokenBalance = { regular: 0, extra: 0 };
+  allocations.forEach(allocation => {
+    const key = allocation.reason === EXTRA_CREDITS_REASON ? 'extra' : 'regular';
+    balance[key] += allocation.tokenAmount;
+  });
+  usage.forEach(row => {
+    const key = row.requestType === EXTRA_CREDITS_REQUEST_TYPE ? 'extra' : 'regular';
+    balance[key] -= row._sum.tokensUsed || 0;
+  });
+  return balance;
+}
+
+export class TokenMeter implements UsageMeter {
+  async reserve(
+    account: LLMAccount,
+    model: ResolvedModel,
+    messages: LLMMessage[],
+    maxTokens: number
+  ): Promise<UsageReservation | null> {
+    if (!isMetered(model)) return null;
+
+    const promptTokens = estimatePromptTokens(messages);
+    const requestType = account.requestType || 'chat';
+
+    return prisma.$transaction(async tx => {
+      await lockAccount(tx, account.userId);
+      const plan = planReservation(availableTokens(await readBalance(tx, account.userId)), promptTokens, maxTokens);
+
+      const log = await tx.tokenUsageLog.create({
+        data: {
+          userId: account.userId,
+          modelId: model.id,
+          tokensUsed: plan.tokens,
+          cost: (plan.tokens / 1000) * (model.costPer1kTokens || 0),
+          requestType,
+          metadata: { status: 'reserved', model: model.name, provider: model.provider }
+        }
+      });
+
+      return { id: log.id, maxTokens: plan.maxTokens };
+    });
+  }
+
+  async settle(reservation: UsageReservation, usage: LLMUsage): Promise<void> {
+    await prisma.$transaction(async tx => {
+      const log = await tx.tokenUsageLog.findUnique({ where: { id: reservation.id } });
+      if (!log) return;
+
+      await lockAccount(tx, log.userId);
+      const balance = await readBalance(tx, log.userId, log.id);
+      const [own, extra] = splitUsage(balance, usage.totalTokens, log.requestType);
+      const costOf = (tokens: number) => (usage.totalTokens > 0 ? (usage.cost * tokens) / usage.totalTokens : 0);
+      const metadata = {
+        ...(log.metadata as Prisma.JsonObject | null),
+        status: 'settled',
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        reservedTokens: log.tokensUsed
+      };
+
+      await tx.tokenUsageLog.update({
+        where: { id: log.id },
+        data: { tokensUsed: own.tokens, cost: costOf(own.tokens), metadata }
+      });
+
+      if (extra) {
+        await tx.tokenUsageLog.create({
+          data: {
+            userId: log.userId,
+            modelId: log.modelId,
+            tokensUsed: extra.tokens,
+            cost: costOf(extra.tokens),
+            requestType: extra.requestType,
+            metadata: { ...metadata, reservationId: log.id }
+          }
+        });
+      }
+    });
+  }
+
+  async release(reservation: UsageReservation): Promise<void> {
+    await prisma.tokenUsageLog.deleteMany({ where: { id: reservation.id } });
+  }
+}
+
+export const tokenMeter = new TokenMeter();
+
+// The 402 the chat routes send when a call was refused for lack of tokens
+export function outOfTokensResponse(error: InsufficientTokensError): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Out of AI tokens',
+      code: error.code,
+      remaining: error.remaining,
+      required: error.required,
+      topUpUrl: TOP_UP_URL
+    },
+    { status: 402 }
+  );
+}
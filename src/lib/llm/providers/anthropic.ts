@@ -0,0 +1,199 @@
+/**
+ * LLM Gateway - Anthropic Provider
+ *
+ * Messages API client. System prompts move to the top-level system field and
+ * tool traffic becomes tool_use / tool_result content blocks.
+ */
+
+import { getProviderCredential } from '../credentials';
+import { LLMGatewayError } from '../errors';
+import { readServerSentEvents } from '../sse';
+import type {
+  LLMFinishReason,
+  LLMMessage,
+  LLMProvider,
+  LLMToolCall,
+  ProviderCall,
+  ProviderResult,
+  ProviderStreamChunk
+} from '../types';
+import { parseToolArguments, postJson } from './http';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+
+const STOP_REASONS: Record<string, LLMFinishReason> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls'
+};
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: any[];
+}
+
+function toAnthropicMessages(messages: LLMMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      system.push(message.content);
+      continue;
+    }
+
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const blocks: any[] = [];
+    if (message.role === 'tool') {
+      blocks.push({ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content });
+    } else {
+      if (message.content) {
+        blocks.push({ type: 'text', text: message.content });
+      }
+      for (const call of message.toolCalls || []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      }
+    }
+
+    // The API wants user and assistant turns to alternate
+    const previous = converted[converted.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  }
+
+  return { system: system.join('\n\n'), messages: converted };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic';
+  readonly requestsPerMinute = 50;
+
+  isConfigured(): boolean {
+    return Boolean(getProviderCredential(this.id));
+  }
+
+  async complete(call: ProviderCall): Promise<ProviderResult> {
+    const response = await this.post(call, false);
+    const data = await response.json();
+
+    let content = '';
+    const toolCalls: LLMToolCall[] = [];
+    for (const block of data.content || []) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, arguments: parseToolArguments(block.input) });
+      }
+    }
+
+    const promptTokens = data.usage?.input_tokens || 0;
+    const completionTokens = data.usage?.output_tokens || 0;
+    return {
+      content,
+      toolCalls,
+      finishReason: STOP_REASONS[data.stop_reason] || 'stop',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+
+  async *stream(call: ProviderCall): AsyncGenerator<ProviderStreamChunk> {
+    const response = await this.post(call, true);
+    let content = '';
+    let finishReason: LLMFinishReason = 'stop';
+    let promptTokens = 0;
+    let completionTokens = 0;
+    const toolCalls: LLMToolCall[] = [];
+    // Tool input JSON streams in pieces per content block
+    const pendingTools = new Map<number, { id: string; name: string; input: string }>();
+
+    for await (const event of readServerSentEvents(response.body!)) {
+      const data = JSON.parse(event.data);
+
+      switch (data.type) {
+        case 'message_start':
+          promptTokens = data.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_start':
+          if (data.content_block?.type === 'tool_use') {
+            pendingTools.set(data.index, { id: data.content_block.id, name: data.content_block.name, input: '' });
+          }
+          break;
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta') {
+            content += data.delta.text;
+            yield { type: 'text', text: data.delta.text };
+          } else if (data.delta?.type === 'input_json_delta') {
+            const pending = pendingTools.get(data.index);
+            if (pending) pending.input += data.delta.partial_json;
+          }
+          break;
+        case 'content_block_stop': {
+          const pending = pendingTools.get(data.index);
+          if (pending) {
+            const toolCall = { id: pending.id, name: pending.name, arguments: parseToolArguments(pending.input) };
+            toolCalls.push(toolCall);
+            pendingTools.delete(data.index);
+            yield { type: 'tool_call', toolCall };
+          }
+          break;
+        }
+        case 'message_delta':
+          finishReason = STOP_REASONS[data.delta?.stop_reason] || finishReason;
+          completionTokens = data.usage?.output_tokens || completionTokens;
+          break;
+        case 'error':
+          throw new LLMGatewayError(
+            data.error?.type === 'overloaded_error' ? 'server_error' : 'invalid_request',
+            `anthropic API error: ${data.error?.message || 'stream error'}`,
+            this.id
+          );
+      }
+    }
+
+    yield {
+      type: 'done',
+      result: {
+        content,
+        toolCalls,
+        finishReason,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+      }
+    };
+  }
+
+  private post(call: ProviderCall, stream: boolean): Promise<Response> {
+    const { system, messages } = toAnthropicMessages(call.messages);
+    const body: Record<string, unknown> = {
+      model: call.model.modelId,
+      messages,
+      max_tokens: call.maxTokens,
+      temperature: call.temperature,
+      stream
+    };
+    if (system) {
+      body.system = system;
+    }
+    if (call.tools?.length) {
+      body.tools = call.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+      }));
+    }
+
+    return postJson(
+      this.id,
+      API_URL,
+      { 'x-api-key': getProviderCredential(this.id), 'anthropic-version': API_VERSION },
+      body,
+      call.signal
+    );
+  }
+}
+
+export const anthropicProvider = new AnthropicProvider();
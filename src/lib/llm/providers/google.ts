@@ -0,0 +1,180 @@
+/**
+ * LLM Gateway - Google Gemini Provider
+ *
+ * generateContent client. Gemini names the assistant "model", keeps the
+ * system prompt apart and answers tool calls by function name, not id.
+ */
+
+import { getProviderCredential } from '../credentials';
+import { readServerSentEvents } from '../sse';
+import type {
+  LLMFinishReason,
+  LLMMessage,
+  LLMProvider,
+  LLMToolCall,
+  ProviderCall,
+  ProviderResult,
+  ProviderStreamChunk
+} from '../types';
+import { generateToolCallId, parseToolArguments, postJson } from './http';
+
+const API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+const FINISH_REASONS: Record<string, LLMFinishReason> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length'
+};
+
+function toGeminiContents(messages: LLMMessage[]) {
+  const system: string[] = [];
+  const contents: { role: 'user' | 'model'; parts: any[] }[] = [];
+  const toolNames = new Map<string, string>();
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      system.push(message.content);
+      continue;
+    }
+
+    const role = message.role === 'assistant' ? 'model' : 'user';
+    const parts: any[] = [];
+    if (message.role === 'tool') {
+      parts.push({
+        functionResponse: {
+          name: toolNames.get(message.toolCallId || '') || message.toolCallId,
+          response: { content: message.content }
+        }
+      });
+    } else {
+      if (message.content) {
+        parts.push({ text: message.content });
+      }
+      for (const call of message.toolCalls || []) {
+        toolNames.set(call.id, call.name);
+        parts.push({ functionCall: { name: call.name, args: call.arguments } });
+      }
+    }
+
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+
+  return { system: system.join('\n\n'), contents };
+}
+
+// Pull text, function calls and usage out of one response (or stream event)
+function readCandidate(data: any) {
+  const candidate = data.candidates?.[0];
+  let text = '';
+  const toolCalls: LLMToolCall[] = [];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.text) {
+      text += part.text;
+    } else if (part.functionCall) {
+      toolCalls.push({
+        id: generateToolCallId(),
+        name: part.functionCall.name,
+        arguments: parseToolArguments(part.functionCall.args)
+      });
+    }
+  }
+
+  const promptTokens = data.usageMetadata?.promptTokenCount || 0;
+  const completionTokens = data.usageMetadata?.candidatesTokenCount || 0;
+  return {
+    text,
+    toolCalls,
+    finishReason: candidate?.finishReason as string | undefined,
+    usage: {
+      promptTokens,
+      completionTokens,
+      totalTokens: data.usageMetadata?.totalTokenCount || promptTokens + completionTokens
+    }
+  };
+}
+
+function finishReasonFor(reason: string | undefined, toolCalls: LLMToolCall[]): LLMFinishReason {
+  if (toolCalls.length > 0) return 'tool_calls';
+  return (reason && FINISH_REASONS[reason]) || 'stop';
+}
+
+export class GoogleProvider implements LLMProvider {
+  readonly id = 'google';
+  readonly requestsPerMinute = 60;
+
+  isConfigured(): boolean {
+    return Boolean(getProviderCredential(this.id));
+  }
+
+  async complete(call: ProviderCall): Promise<ProviderResult> {
+    const response = await this.post(call, 'generateContent');
+    const result = readCandidate(await response.json());
+
+    return {
+      content: result.text,
+      toolCalls: result.toolCalls,
+      finishReason: finishReasonFor(result.finishReason, result.toolCalls),
+      usage: result.usage
+    };
+  }
+
+  async *stream(call: ProviderCall): AsyncGenerator<ProviderStreamChunk> {
+    const response = await this.post(call, 'streamGenerateContent', '&alt=sse');
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: ProviderResult['usage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const event of readServerSentEvents(response.body!)) {
+      const result = readCandidate(JSON.parse(event.data));
+      if (result.text) {
+        content += result.text;
+        yield { type: 'text', text: result.text };
+      }
+      for (const toolCall of result.toolCalls) {
+        toolCalls.push(toolCall);
+        yield { type: 'tool_call', toolCall };
+      }
+      finishReason = result.finishReason || finishReason;
+      // Each event carries the running totals
+      if (result.usage.totalTokens > 0) {
+        usage = result.usage;
+      }
+    }
+
+    yield {
+      type: 'done',
+      result: { content, toolCalls, finishReason: finishReasonFor(finishReason, toolCalls), usage }
+    };
+  }
+
+  private post(call: ProviderCall, method: string, query = ''): Promise<Response> {
+    const { system, contents } = toGeminiContents(call.messages);
+    const body: Record<string, unknown> = {
+      contents,
+      generationConfig: { maxOutputTokens: call.maxTokens, temperature: call.temperature }
+    };
+    if (system) {
+      body.systemInstruction = { parts: [{ text: system }] };
+    }
+    if (call.tools?.length) {
+      body.tools = [{
+        functionDeclarations: call.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }))
+      }];
+    }
+
+    const key = encodeURIComponent(getProviderCredential(this.id));
+    const url = `${API_URL}/${encodeURIComponent(call.model.modelId)}:${method}?key=${key}${query}`;
+    return postJson(this.id, url, {}, body, call.signal);
+  }
+}
+
+export const googleProvider = new GoogleProvider();
@@ -0,0 +1,51 @@
+/**
+ * LLM Gateway - Provider HTTP Helpers
+ *
+ * The request plumbing the provider plugins share.
+ */
+
+import { errorFromResponse } from '../errors';
+
+/**
+ * POST a JSON body and return the response, turning non-2xx statuses into
+ * classified gateway errors.
+ */
+export async function postJson(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw await errorFromResponse(response, provider);
+  }
+  return response;
+}
+
+// Tool arguments arrive as JSON text; a malformed payload becomes an empty object
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === 'object') {
+    return raw as Record<string, unknown>;
+  }
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function generateToolCallId(): string {
+  return `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
@@ -0,0 +1,221 @@
+/**
+ * LLM Gateway - OpenAI-Compatible Provider
+ *
+ * Chat Completions API client. OpenAI, Mistral, Ollama and most self-hosted
+ * servers (llama.cpp, vLLM, LM Studio) speak this dialect, so one class
+ * serves each with its own base URL and key.
+ */
+
+import { getProviderCredential } from '../credentials';
+import { readServerSentEvents } from '../sse';
+import type {
+  LLMFinishReason,
+  LLMMessage,
+  LLMProvider,
+  LLMToolCall,
+  ProviderCall,
+  ProviderResult,
+  ProviderStreamChunk
+} from '../types';
+import { generateToolCallId, parseToolArguments, postJson } from './http';
+
+export interface OpenAICompatibleOptions {
+  id: string;
+  baseUrl: () => string;
+  apiKey?: () => string; // Defaults to the provider's stored or environment key
+  requiresApiKey?: boolean; // Local servers such as Ollama take no key
+  includeStreamUsage?: boolean; // Only OpenAI understands stream_options
+  requestsPerMinute?: number;
+}
+
+const FINISH_REASONS: Record<string, LLMFinishReason> = {
+  stop: 'stop',
+  length: 'length',
+  tool_calls: 'tool_calls',
+  function_call: 'tool_calls'
+};
+
+function toOpenAIMessage(message: LLMMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function toUsage(usage: any): ProviderResult['usage'] {
+  const promptTokens = usage?.prompt_tokens || 0;
+  const completionTokens = usage?.completion_tokens || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.total_tokens || promptTokens + completionTokens
+  };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  readonly requestsPerMinute?: number;
+  private options: OpenAICompatibleOptions;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.id = options.id;
+    this.requestsPerMinute = options.requestsPerMinute;
+    this.options = options;
+  }
+
+  isConfigured(): boolean {
+    return this.options.requiresApiKey === false || Boolean(this.apiKey());
+  }
+
+  async complete(call: ProviderCall): Promise<ProviderResult> {
+    const response = await this.post(call, false);
+    const data = await response.json();
+    const choice = data.choices?.[0];
+
+    const toolCalls: LLMToolCall[] = (choice?.message?.tool_calls || []).map((toolCall: any) => ({
+      id: toolCall.id || generateToolCallId(),
+      name: toolCall.function?.name || '',
+      arguments: parseToolArguments(toolCall.function?.arguments)
+    }));
+
+    return {
+      content: choice?.message?.content || '',
+      toolCalls,
+      finishReason: FINISH_REASONS[choice?.finish_reason] || 'stop',
+      usage: toUsage(data.usage)
+    };
+  }
+
+  async *stream(call: ProviderCall): AsyncGenerator<ProviderStreamChunk> {
+    const response = await this.post(call, true);
+    let content = '';
+    let finishReason: LLMFinishReason = 'stop';
+    let usage = toUsage(null);
+    // Tool call fragments arrive spread over many deltas, keyed by index
+    const pending = new Map<number, { id: string; name: string; arguments: string }>();
+
+    for await (const event of readServerSentEvents(response.body!)) {
+      if (event.data === '[DONE]') break;
+
+      const data = JSON.parse(event.data);
+      if (data.usage) {
+        usage = toUsage(data.usage);
+      }
+
+      const choice = data.choices?.[0];
+      if (!choice) continue;
+
+      const text = choice.delta?.content;
+      if (text) {
+        content += text;
+        yield { type: 'text', text };
+      }
+
+      for (const fragment of choice.delta?.tool_calls || []) {
+        const index = fragment.index ?? 0;
+        const entry = pending.get(index) || { id: '', name: '', arguments: '' };
+        entry.id = fragment.id || entry.id;
+        entry.name += fragment.function?.name || '';
+        entry.arguments += fragment.function?.arguments || '';
+        pending.set(index, entry);
+      }
+
+      if (choice.finish_reason) {
+        finishReason = FINISH_REASONS[choice.finish_reason] || 'stop';
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = [];
+    for (const entry of Array.from(pending.values())) {
+      const toolCall = {
+        id: entry.id || generateToolCallId(),
+        name: entry.name,
+        arguments: parseToolArguments(entry.arguments)
+      };
+      toolCalls.push(toolCall);
+      yield { type: 'tool_call', toolCall };
+    }
+
+    yield { type: 'done', result: { content, toolCalls, finishReason, usage } };
+  }
+
+  private apiKey(): string {
+    return this.options.apiKey ? this.options.apiKey() : getProviderCredential(this.id);
+  }
+
+  private post(call: ProviderCall, stream: boolean): Promise<Response> {
+    const apiKey = this.apiKey();
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const body: Record<string, unknown> = {
+      model: call.model.modelId,
+      messages: call.messages.map(toOpenAIMessage),
+      max_tokens: call.maxTokens,
+      temperature: call.temperature,
+      stream
+    };
+    if (call.tools?.length) {
+      body.tools = call.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      }));
+    }
+    if (stream && this.options.includeStreamUsage) {
+      body.stream_options = { include_usage: true };
+    }
+
+    return postJson(this.id, `${this.options.baseUrl()}/chat/completions`, headers, body, call.signal);
+  }
+}
+
+export const openaiProvider = new OpenAICompatibleProvider({
+  id: 'openai',
+  baseUrl: () => 'https://api.openai.com/v1',
+  includeStreamUsage: true,
+  requestsPerMinute: 60
+});
+
+export const mistralProvider = new OpenAICompatibleProvider({
+  id: 'mistral',
+  baseUrl: () => 'https://api.mistral.ai/v1',
+  requestsPerMinute: 60
+});
+
+/**
+ * Base URL for a self-hosted server. A bare address such as Ollama's
+ * http://localhost:11434 gets the /v1 path every compatible server exposes.
+ */
+export function localBaseUrl(address: string): string {
+  const url = address.trim().replace(/\/+$/, '');
+  return /^https?:\/\/[^/]+$/.test(url) ? `${url}/v1` : url;
+}
+
+// The OLLAMA_URL credential is the server address rather than a key
+export const ollamaProvider = new OpenAICompatibleProvider({
+  id: 'ollama',
+  baseUrl: () => localBaseUrl(getProviderCredential('ollama') || 'http://localhost:11434'),
+  apiKey: () => '',
+  requiresApiKey: false
+});
+
+// Any OpenAI- or Ollama-compatible server inside the network, for prompts that must not leave it
+export const localProvider = new OpenAICompatibleProvider({
+  id: 'local',
+  baseUrl: () => localBaseUrl(getProviderCredential('local') || 'http://localhost:11434'),
+  apiKey: () => process.env.LOCAL_LLM_API_KEY || '',
+  requiresApiKey: false
+});
@@ -0,0 +1,62 @@
+/**
+ * LLM Gateway - Server-Sent Events
+ *
+ * Reads the event streams OpenAI, Anthropic and Gemini send when streaming,
+ * one parsed event at a time.
+ */
+
+export interface ServerSentEvent {
+  event: string | null;
+  data: string;
+}
+
+/**
+ * Yield each event of an SSE body. Multi-line data fields are joined with
+ * newlines, and comments and keep-alives are skipped.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | null = null;
+  let data: string[] = [];
+
+  const flush = (): ServerSentEvent | null => {
+    const complete = data.length > 0 ? { event, data: data.join('\n') } : null;
+    event = null;
+    data = [];
+    return complete;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline = buffer.search(/\r?\n/);
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === '\r' ? newline + 2 : newline + 1);
+        newline = buffer.search(/\r?\n/);
+
+        if (line === '') {
+          const complete = flush();
+          if (complete) yield complete;
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        if (buffer.startsWith('data:')) data.push(buffer.slice(5).replace(/^ /, ''));
+        const complete = flush();
+        if (complete) yield complete;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
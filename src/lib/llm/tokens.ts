@@ -0,0 +1,17 @@
+/**
+ * LLM Gateway - Token Estimates
+ *
+ * Rough token counts for when a provider has not reported usage yet: before
+ * a call, for reservations, and for answers cut short by a cancel.
+ */
+
+import type { LLMMessage } from './types';
+
+// About four characters per token for English text and code
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimatePromptTokens(messages: LLMMessage[]): number {
+  return estimateTokens(messages.map(message => message.content).join('\n'));
+}
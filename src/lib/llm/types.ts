@@ -0,0 +1,129 @@
+/**
+ * LLM Gateway - Shared Types
+ *
+ * The request, response and streaming shapes every provider plugin speaks,
+ * so routes can switch models without knowing which API sits behind them.
+ */
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  toolCalls?: LLMToolCall[]; // Calls an assistant message made
+  toolCallId?: string; // The call a tool message answers
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments
+}
+
+// Who a request is billed to; requests without one are not metered
+export interface LLMAccount {
+  userId: string;
+  requestType?: string; // TokenUsageLog.requestType, 'chat' by default
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  model?: string; // LLMModel id or name; the default model when omitted
+  maxTokens?: number;
+  temperature?: number;
+  tools?: LLMToolDefinition[];
+  timeoutMs?: number;
+  signal?: AbortSignal; // Cancels the request, e.g. when the client disconnects
+  account?: LLMAccount;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // From the model's costPer1kTokens
+}
+
+export type LLMFinishReason = 'stop' | 'length' | 'tool_calls' | 'cancelled' | 'error';
+
+export interface LLMResponse {
+  content: string;
+  toolCalls: LLMToolCall[];
+  model: string; // Name of the LLMModel that answered
+  provider: string;
+  finishReason: LLMFinishReason;
+  usage: LLMUsage;
+  responseTime: number;
+}
+
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; toolCall: LLMToolCall }
+  | { type: 'done'; response: LLMResponse };
+
+// A model from the LLMModel table, as the gateway hands it to a provider
+export interface ResolvedModel {
+  id: string;
+  name: string;
+  provider: string;
+  modelId: string; // The provider's own name for the model
+  maxTokens: number | null;
+  costPer1kTokens: number | null;
+}
+
+// What a provider reports back; the gateway adds timing, cost and the model name
+export interface ProviderResult {
+  content: string;
+  toolCalls: LLMToolCall[];
+  finishReason: LLMFinishReason;
+  usage: Omit<LLMUsage, 'cost'>;
+}
+
+export type ProviderStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; toolCall: LLMToolCall }
+  | { type: 'done'; result: ProviderResult };
+
+export interface ProviderCall {
+  model: ResolvedModel;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  tools?: LLMToolDefinition[];
+  signal: AbortSignal;
+}
+
+/**
+ * A provider plugin. complete is required; providers without native
+ * streaming leave stream out and the gateway streams the full answer as one
+ * chunk.
+ */
+export interface LLMProvider {
+  id: string; // Matches LLMModel.provider
+  requestsPerMinute?: number;
+  isConfigured(): boolean;
+  complete(call: ProviderCall): Promise<ProviderResult>;
+  stream?(call: ProviderCall): AsyncIterable<ProviderStreamChunk>;
+}
+
+// Tokens held against a balance while a request runs
+export interface UsageReservation {
+  id: string;
+  maxTokens: number; // Completion budget the balance allows
+}
+
+/**
+ * Token metering. The gateway reserves before calling a provider, settles
+ * with the provider's usage afterwards and releases when nothing was used.
+ */
+export interface UsageMeter {
+  reserve(account: LLMAccount, model: ResolvedModel, messages: LLMMessage[], maxTokens: number): Promise<UsageReservation | null>;
+  settle(reservation: UsageReservation, usage: LLMUsage): Promise<void>;
+  release(reservation: UsageReservation): Promise<void>;
+}
@@ -0,0 +1,131 @@
+/**
+ * Pine Script Repair Loop
+ *
+ * Checks the script in a model's answer with the Pine validator and, while
+ * it still has errors, sends them back to the model as structured
+ * ValidationErrors for a bounded number of repair rounds.
+ */
+
+import { pineScriptValidator } from '@/agents/pinegenie-agent/core/pine-generator/code-validator';
+import type { ValidationError } from '@/agents/pinegenie-agent/core/pine-generator/code-validator';
+import { CodeBlockTracker, isPineCodeBlock } from './llm/chat-events';
+import type { LLMMessage, LLMUsage } from './llm';
+
+export const DEFAULT_REPAIR_ROUNDS = 2;
+
+export interface PineValidationReport {
+  isValid: boolean;
+  repairRounds: number; // Rounds the model was asked to fix the script
+  initialErrorCount: number;
+  errors: ValidationError[]; // Left in the returned script
+  warnings: ValidationError[];
+}
+
+export interface PineRepairResult {
+  content: string; // The answer with its script replaced by the repaired one
+  code: string | null; // Null when the answer holds no Pine Script
+  report: PineValidationReport | null;
+  usage: LLMUsage; // Spent on repair rounds only
+}
+
+export interface PineRepairOptions {
+  maxRounds?: number;
+  repair: (messages: LLMMessage[]) => Promise<{ content: string; usage: LLMUsage }>;
+}
+
+const NO_USAGE: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+
+// The first Pine Script block in an answer, or the whole answer when it is a bare script
+export function extractPineCode(content: string): string | null {
+  const block = new CodeBlockTracker().push(content).find(isPineCodeBlock);
+  if (block) return block.code;
+  return /^\s*\/\/\s*@version\s*=/.test(content) ? content.trim() : null;
+}
+
+export function buildRepairPrompt(errors: ValidationError[]): string {
+  const issues = errors.map(({ line, column, endLine, endColumn, code, message, suggestion }) => ({
+    line,
+    column,
+    endLine,
+    endColumn,
+    code,
+    message,
+    ...(suggestion ? { suggestion } : {})
+  }));
+
+  return `The Pine Script above fails validation with these errors:
+
+${JSON.stringify(issues, null, 2)}
+
+Fix every error and reply with the complete corrected Pine Script v6 script in a single \`\`\`pinescript code block.`;
+}
+
+function addUsage(total: LLMUsage, usage: LLMUsage): LLMUsage {
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    cost: total.cost + usage.cost
+  };
+}
+
+/**
+ * Validate the script in an answer and let the model repair it. A round
+ * whose script has more errors than the last one is discarded, and a failed
+ * repair call ends the loop with the best script so far.
+ */
+export async function validateAndRepair(
+  content: string,
+  conversation: LLMMessage[],
+  options: PineRepairOptions
+): Promise<PineRepairResult> {
+  const original = extractPineCode(content);
+  if (original === null) {
+    return { content, code: null, report: null, usage: NO_USAGE };
+  }
+
+  const maxRounds = options.maxRounds ?? DEFAULT_REPAIR_ROUNDS;
+  const history: LLMMessage[] = [...conversation, { role: 'assistant', content }];
+  let code = original;
+  let result = pineScriptValidator.validate(code);
+  const initialErrorCount = result.errors.length;
+  let usage = NO_USAGE;
+  let rounds = 0;
+
+  while (!result.isValid && rounds < maxRounds) {
+    rounds++;
+    history.push({ role: 'user', content: buildRepairPrompt(result.errors) });
+
+    let reply: { content: string; usage: LLMUsage };
+    try {
+      reply = await options.repair(history);
+    } catch (error) {
+      console.error('Pine Script repair round failed:', error);
+      break;
+    }
+    usage = addUsage(usage, reply.usage);
+    history.push({ role: 'assistant', content: reply.content });
+
+    const repaired = extractPineCode(reply.content);
+    if (repaired === null) continue;
+
+    const check = pineScriptValidator.validate(repaired);
+    if (check.errors.length <= result.errors.length) {
+      code = repaired;
+      result = check;
+    }
+  }
+
+  return {
+    content: code === original ? content : content.replace(original, () => code),
+    code,
+    report: {
+      isValid: result.isValid,
+      repairRounds: rounds,
+      initialErrorCount,
+      errors: result.errors,
+      warnings: result.warnings
+    },
+    usage
+  };
+}
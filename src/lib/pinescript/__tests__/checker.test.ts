@@ -0,0 +1,168 @@
+/**
+ * Pine Script Semantic Checker Tests
+ * Scopes, types, qualifiers, built-in signatures and lookahead detection
+ */
+
+import { checkPine, parsePine } from '..';
+import type { SemanticDiagnostic } from '..';
+import { generateEnhancedPineScript } from '@/app/builder/enhanced-pinescript-generator';
+import { INDICATOR_PINE_SPECS } from '@/app/builder/data/indicator-registry';
+import type { CustomEdge, CustomNode, NodeConfig, NodeType } from '@/app/builder/canvas-config';
+
+function check(lines: string[]): SemanticDiagnostic[] {
+  const source = ['//@version=6', 'strategy("Test", overlay=true)', ...lines].join('\n');
+  const { program, errors } = parsePine(source);
+  expect(errors).toEqual([]);
+  return checkPine(program, source);
+}
+
+function summarize(diagnostics: SemanticDiagnostic[]): Array<[number, string, string]> {
+  return diagnostics.map(diagnostic => [diagnostic.range.start.line, diagnostic.code, diagnostic.message]);
+}
+
+function node(id: string, type: NodeType, label: string, config: NodeConfig = {}): CustomNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { id, label, type, config } };
+}
+
+function edge(source: string, target: string): CustomEdge {
+  return { id: `${source}_${target}`, source, target };
+}
+
+describe('checkPine', () => {
+  test('accepts a typical strategy with inputs, functions, loops and tuples', () => {
+    expect(check([
+      'length = input.int(14, "Length", minval=1)',
+      'src = input.source(close, "Source")',
+      'var float peak = na',
+      'bandwidth(float basis, float upper) => (upper - basis) / basis',
+      '[middle, upper, lower] = ta.bb(src, length, 2.0)',
+      'width = bandwidth(middle, upper)',
+      'total = 0.0',
+      'for i = 0 to 4',
+      '    total += nz(close[i])',
+      'peak := math.max(nz(peak), high)',
+      'if ta.crossover(ta.ema(src, length), middle) and width > 0.02',
+      '    strategy.entry("Long", strategy.long, qty=10)',
+      'strategy.exit("Exit", from_entry="Long", stop=lower, limit=upper)',
+      'plot(total / 5, color=color.new(color.blue, 20))'
+    ])).toEqual([]);
+  });
+
+  test('resolves identifiers through block scopes and suggests close names', () => {
+    const diagnostics = check([
+      'fast = ta.sma(close, 9)',
+      'if close > open',
+      '    inner = fast * 2',
+      'plot(inner)',
+      'plot(fastt)',
+      'counter := 1'
+    ]);
+
+    expect(summarize(diagnostics)).toEqual([
+      [6, 'undeclared_identifier', 'Undeclared identifier "inner"'],
+      [7, 'undeclared_identifier', 'Undeclared identifier "fastt"'],
+      [8, 'undeclared_identifier', 'Cannot reassign undeclared variable "counter"']
+    ]);
+    expect(diagnostics[1].fix).toMatchObject({ replacement: 'fast', range: { start: { line: 7, column: 6 }, end: { line: 7, column: 11 } } });
+    expect(diagnostics[2].fix).toMatchObject({ replacement: ' = ' });
+  });
+
+  test('reports redeclarations with a := quick fix', () => {
+    const source = '//@version=6\nindicator("x")\nlevel = 1\nlevel = level + 1';
+    const [diagnostic] = checkPine(parsePine(source).program, source);
+
+    expect(diagnostic).toMatchObject({ code: 'redeclared_variable', range: { start: { line: 4, column: 1 } } });
+    const { start, end } = diagnostic.fix!.range;
+    expect(source.slice(0, start.offset) + diagnostic.fix!.replacement + source.slice(end.offset)).toContain('level := level + 1');
+  });
+
+  test('infers types and qualifiers and checks them against built-in signatures', () => {
+    expect(summarize(check([
+      'len = ta.sma(close, 10) > 5 ? 14 : 20',
+      'fast = ta.ema(close, len)',
+      'slow = ta.sma(close, "20")',
+      'mid = ta.rsi(close)',
+      'x = ta.atr(14, len=3)',
+      'y = ta.smaa(close, 14)',
+      'int count = close',
+      'if close',
+      '    strategy.close_all()',
+      'z = "a" * 2'
+    ]))).toEqual([
+      [4, 'argument_qualifier', 'Argument "length" of "ta.ema" must be simple int, but a series int value was given'],
+      [5, 'argument_type', 'Argument "length" of "ta.sma" expects int, but a const string value was given'],
+      [6, 'argument_count', 'Missing required argument "length" for "ta.rsi"'],
+      [7, 'unknown_argument', '"ta.atr" has no parameter named "len"'],
+      [8, 'unknown_function', 'Unknown function "ta.smaa"'],
+      [9, 'assignment_type', 'Cannot assign a series float value to "count", which is declared as int'],
+      [10, 'condition_type', 'Condition must be bool, but a series float value was given'],
+      [12, 'operator_type', 'Operator "*" cannot be applied to const string and const int']
+    ]);
+  });
+
+  test('picks the overload that fits and types tuple results', () => {
+    expect(summarize(check([
+      'hh = ta.highest(20)',
+      'hs = ta.highest(close, 20)',
+      'rounded = math.round(close, 2)',
+      '[macdLine, signalLine] = ta.macd(close, 12, 26, 9)',
+      'bad = math.round(close, 2, 3)'
+    ]))).toEqual([
+      [6, 'tuple_size', 'The expression returns 3 values but 2 names were declared'],
+      [7, 'argument_count', 'Too many arguments for "math.round", which takes at most 2']
+    ]);
+  });
+
+  test('treats reassigned and var variables as series', () => {
+    expect(summarize(check([
+      'length = 10',
+      'if close > open',
+      '    length := 20',
+      'ema = ta.ema(close, length)',
+      'fixed = 14',
+      'ok = ta.ema(close, fixed)'
+    ]))).toEqual([
+      [6, 'argument_qualifier', 'Argument "length" of "ta.ema" must be simple int, but a series int value was given']
+    ]);
+  });
+
+  test('warns about request.security lookahead without an offset', () => {
+    const diagnostics = check([
+      'daily = request.security(syminfo.tickerid, "D", close, lookahead=barmerge.lookahead_on)',
+      'safe = request.security(syminfo.tickerid, "D", close[1], lookahead=barmerge.lookahead_on)',
+      '[h, l] = request.security(syminfo.tickerid, "W", [high, low[1]], barmerge.gaps_off, barmerge.lookahead_on)',
+      'live = request.security(syminfo.tickerid, "D", close)'
+    ]);
+
+    expect(diagnostics.map(diagnostic => [diagnostic.range.start.line, diagnostic.severity, diagnostic.code, diagnostic.fix?.replacement])).toEqual([
+      [3, 'warning', 'lookahead_bias', 'close[1]'],
+      [5, 'warning', 'lookahead_bias', '[high[1], low[1]]']
+    ]);
+  });
+
+  test('relaxes bool conditions for v5 scripts and flags break outside loops', () => {
+    const source = '//@version=5\nindicator("x")\nif bar_index\n    label.new(bar_index, high, "x")\nbreak';
+    const diagnostics = checkPine(parsePine(source).program, source);
+
+    expect(summarize(diagnostics)).toEqual([[5, 'loop_control', '"break" can only be used inside a loop']]);
+  });
+
+  test('accepts the code generated for every builder indicator', () => {
+    Object.keys(INDICATOR_PINE_SPECS).forEach(indicatorId => {
+      const { code } = generateEnhancedPineScript(
+        [
+          node('data', 'data-source', 'Price Data'),
+          node('indicator', 'indicator', indicatorId, { indicatorId }),
+          node('condition', 'condition', 'Above', { operator: 'greater_than', threshold: 0 }),
+          node('buy', 'action', 'Buy', { actionKind: 'entry', direction: 'long' }),
+          node('stop', 'risk', 'Stop', { stopLoss: 2, takeProfit: 4 }),
+          node('session', 'timing', 'Session', { startTime: '09:30', endTime: '16:00' })
+        ],
+        [edge('data', 'indicator'), edge('indicator', 'condition'), edge('condition', 'buy')]
+      );
+      const { program, errors } = parsePine(code);
+
+      expect({ indicatorId, errors, diagnostics: summarize(checkPine(program, code)) }).toEqual({ indicatorId, errors: [], diagnostics: [] });
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Pine Script Formatter Tests
+ * Canonical layout, preserved comments, wrapping, input grouping and round trips through the parser
+ */
+
+import { formatPine, parsePine } from '..';
+import type { Program } from '..';
+import { generateEnhancedPineScript } from '@/app/builder/enhanced-pinescript-generator';
+import type { CustomEdge, CustomNode, NodeConfig, NodeType } from '@/app/builder/canvas-config';
+
+function format(lines: string[], options = {}): string[] {
+  const { code, errors } = formatPine(lines.join('\n'), options);
+  expect(errors).toEqual([]);
+  return code.split('\n');
+}
+
+// The program without source positions, for comparing what two scripts mean
+function shape(program: Program): unknown {
+  return JSON.parse(JSON.stringify({ body: program.body, comments: program.comments.map(comment => comment.text) },
+    (key, value) => key === 'range' ? undefined : value));
+}
+
+function node(id: string, type: NodeType, label: string, config: NodeConfig = {}): CustomNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { id, label, type, config } };
+}
+
+function edge(source: string, target: string): CustomEdge {
+  return { id: `${source}_${target}`, source, target };
+}
+
+describe('formatPine', () => {
+  test('normalizes spacing, indentation and blank lines', () => {
+    expect(format([
+      '//@version=6',
+      'indicator("Spacing")',
+      '',
+      '',
+      '',
+      'len=input.int(14,"Length",minval=1)',
+      'f(float a,b=2)=>',
+      '\ta*b',
+      'v = switch',
+      '    close>open => 1',
+      '    => -1',
+      'label =  close>open ? "up":"down"',
+      'if close>open and  not na(volume)',
+      '    v:=v+f(close[1],len)',
+      'else',
+      '\tv := na',
+      'for i=0 to 10 by 2',
+      '    v+=i',
+      'values = array.new<float>(3,na)',
+      'plot(v,color=#FF0000)'
+    ])).toEqual([
+      '//@version=6',
+      'indicator("Spacing")',
+      '',
+      'len = input.int(14, "Length", minval=1)',
+      'f(float a, b = 2) =>',
+      '    a * b',
+      'v = switch',
+      '    close > open => 1',
+      '    => -1',
+      'label = close > open ? "up" : "down"',
+      'if close > open and not na(volume)',
+      '    v := v + f(close[1], len)',
+      'else',
+      '    v := na',
+      'for i = 0 to 10 by 2',
+      '    v += i',
+      'values = array.new<float>(3, na)',
+      'plot(v, color=#FF0000)',
+      ''
+    ]);
+  });
+
+  test('keeps own-line and trailing comments in place', () => {
+    expect(format([
+      '//@version=6',
+      '// Header',
+      'strategy("Comments")',
+      'rsi = ta.rsi(close,14)   // momentum',
+      'if rsi<30 // oversold',
+      '    // buy the dip',
+      '    strategy.entry("Long",strategy.long)',
+      '    // still in the if',
+      '// before the else',
+      'else if rsi>70',
+      '    strategy.close("Long")',
+      'plot(rsi,',
+      '  // wrapped argument',
+      '  title="RSI") // plotted',
+      '// The end'
+    ])).toEqual([
+      '//@version=6',
+      '// Header',
+      'strategy("Comments")',
+      'rsi = ta.rsi(close, 14) // momentum',
+      'if rsi < 30 // oversold',
+      '    // buy the dip',
+      '    strategy.entry("Long", strategy.long)',
+      '    // still in the if',
+      '// before the else',
+      'else if rsi > 70',
+      '    strategy.close("Long")',
+      '// wrapped argument',
+      'plot(rsi, title="RSI") // plotted',
+      '// The end',
+      ''
+    ]);
+  });
+
+  test('wraps long calls one argument per line with the configured style', () => {
+    const source = [
+      '//@version=6',
+      'strategy("Wrapped", overlay=true, initial_capital=10000, default_qty_type=strategy.percent_of_equity)',
+      'if close > open',
+      '    strategy.entry("Long", strategy.long, qty=10, comment="A long comment for the entry order")'
+    ];
+
+    expect(format(source)).toEqual([
+      '//@version=6',
+      'strategy(',
+      '  "Wrapped",',
+      '  overlay=true,',
+      '  initial_capital=10000,',
+      '  default_qty_type=strategy.percent_of_equity)',
+      'if close > open',
+      '    strategy.entry("Long", strategy.long, qty=10, comment="A long comment for the entry order")',
+      ''
+    ]);
+    expect(format(source, { maxLineLength: 80, continuationIndent: 4, indentWithTabs: true }).slice(6, 12)).toEqual([
+      'if close > open',
+      '\tstrategy.entry(',
+      '\t     "Long",',
+      '\t     strategy.long,',
+      '\t     qty=10,',
+      '\t     comment="A long comment for the entry order")'
+    ]);
+  });
+
+  test('groups related inputs and leaves grouped ones alone', () => {
+    expect(format([
+      '//@version=6',
+      'strategy("Inputs")',
+      'rsi_14_period = input.int(14, "RSI (14) Period")',
+      'rsi_14_overbought = input.int(70, "RSI (14) Overbought")',
+      'rsi_14_oversold = input.int(30, title="RSI (14) Oversold")',
+      'session_start = input.int(9, "Session start", group="Hours")',
+      'session_end = input.int(16, "Session end", group="Hours")',
+      'fastLength = input.int(9, "Fast")'
+    ], { maxLineLength: 200 })).toEqual([
+      '//@version=6',
+      'strategy("Inputs")',
+      'rsi_14_period = input.int(14, "RSI (14) Period", group="RSI (14)")',
+      'rsi_14_overbought = input.int(70, "RSI (14) Overbought", group="RSI (14)", inline="rsi_14_overbought")',
+      'rsi_14_oversold = input.int(30, title="RSI (14) Oversold", group="RSI (14)", inline="rsi_14_overbought")',
+      'session_start = input.int(9, "Session start", group="Hours")',
+      'session_end = input.int(16, "Session end", group="Hours")',
+      'fastLength = input.int(9, "Fast")',
+      ''
+    ]);
+  });
+
+  test('formats generated strategies to the same program, idempotently', () => {
+    const { code } = generateEnhancedPineScript(
+      [
+        node('data', 'data-source', 'Price Data'),
+        node('rsi', 'indicator', 'RSI', { indicatorId: 'rsi' }),
+        node('oversold', 'condition', 'Oversold', { operator: 'less_than', threshold: 30 }),
+        node('buy', 'action', 'Buy', { actionKind: 'entry', direction: 'long' }),
+        node('stop', 'risk', 'Stop', { stopLoss: 2, takeProfit: 4 }),
+        node('session', 'timing', 'Session', { startTime: '09:30', endTime: '16:00' })
+      ],
+      [edge('data', 'rsi'), edge('rsi', 'oversold'), edge('oversold', 'buy')]
+    );
+
+    const formatted = formatPine(code, { groupInputs: false });
+    expect(formatted).toMatchObject({ changed: true, errors: [] });
+    expect(shape(parsePine(formatted.code).program)).toEqual(shape(parsePine(code).program));
+    expect(formatPine(formatted.code, { groupInputs: false })).toEqual({ code: formatted.code, changed: false, errors: [] });
+
+    const grouped = formatPine(code).code;
+    expect(parsePine(grouped).errors).toEqual([]);
+    expect(formatPine(grouped).code).toBe(grouped);
+  });
+
+  test('returns scripts with syntax errors unchanged', () => {
+    const source = '//@version=6\nstrategy("Broken"\nplot(close)';
+    expect(formatPine(source)).toMatchObject({ code: source, changed: false, errors: [expect.objectContaining({ message: expect.any(String) })] });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Pine Script Migrator Tests
+ * v4 and v5 constructs rewritten to v6, the change report and flagged leftovers
+ */
+
+import { checkPine, migratePine, parsePine } from '..';
+import type { PineMigrationChange } from '..';
+
+function migrate(lines: string[]): { code: string[]; changes: Array<[number, string]>; unsupported: PineMigrationChange[] } {
+  const result = migratePine(lines.join('\n'));
+  expect(result.errors).toEqual([]);
+  return {
+    code: result.code.split('\n'),
+    changes: result.changes.map(change => [change.line, change.code]),
+    unsupported: result.unsupported
+  };
+}
+
+function expectValidV6(code: string[]): void {
+  const source = code.join('\n');
+  const { program, errors } = parsePine(source);
+  expect(errors).toEqual([]);
+  expect(program.version).toBe(6);
+  expect(checkPine(program, source).filter(diagnostic => diagnostic.severity === 'error')).toEqual([]);
+}
+
+describe('migratePine', () => {
+  test('rewrites a v4 indicator to v6', () => {
+    const { code, changes, unsupported } = migrate([
+      '//@version=4',
+      'study("Legacy", overlay=true, resolution="")',
+      'length = input(14, "Length", type=input.integer, minval=1)',
+      'tf = input("D", title="Timeframe", type=input.resolution)',
+      'fast = sma(close, length) // fast line',
+      'slow = ema(close, length * 2)',
+      'daily = security(syminfo.tickerid, tf, close)',
+      'trend = iff(fast > slow, 1, -1)',
+      'prev = offset(fast + slow, 1)',
+      'range_ = tr * 2',
+      'plot(fast, "Fast", color.red, transp=50)',
+      'bgcolor(trend > 0 ? color.green : color.red, transp=90)',
+      'label = tostring(rsi(close, 14))'
+    ]);
+
+    expect(code).toEqual([
+      '//@version=6',
+      'indicator("Legacy", overlay=true, timeframe="")',
+      'length = input.int(14, "Length", minval=1)',
+      'tf = input.timeframe("D", title="Timeframe")',
+      'fast = ta.sma(close, length) // fast line',
+      'slow = ta.ema(close, length * 2)',
+      'daily = request.security(syminfo.tickerid, tf, close)',
+      'trend = fast > slow ? 1 : -1',
+      'prev = (fast + slow)[1]',
+      'range_ = ta.tr * 2',
+      'plot(fast, "Fast", color.new(color.red, 50))',
+      'bgcolor(color.new(trend > 0 ? color.green : color.red, 90))',
+      'label = str.tostring(ta.rsi(close, 14))'
+    ]);
+    expect(changes).toEqual([
+      [1, 'version'],
+      [2, 'parameter'],
+      [2, 'declaration'],
+      [3, 'input_type'],
+      [4, 'input_type'],
+      [5, 'namespace'],
+      [6, 'namespace'],
+      [7, 'namespace'],
+      [8, 'iff'],
+      [9, 'offset'],
+      [10, 'namespace'],
+      [11, 'transp'],
+      [12, 'transp'],
+      [13, 'namespace'],
+      [13, 'namespace']
+    ]);
+    expect(unsupported).toEqual([]);
+    expectValidV6(code);
+  });
+
+  test('leaves names the script declares itself alone', () => {
+    const { code } = migrate([
+      '//@version=4',
+      'study("Shadowed")',
+      'sma(src, len) => sum(src, len) / len',
+      'tr = high - low',
+      'plot(sma(tr, 10))'
+    ]);
+
+    expect(code).toEqual([
+      '//@version=6',
+      'indicator("Shadowed")',
+      'sma(src, len) => math.sum(src, len) / len',
+      'tr = high - low',
+      'plot(sma(tr, 10))'
+    ]);
+  });
+
+  test('moves when= into an if block and converts v4 order directions', () => {
+    const { code, changes } = migrate([
+      '//@version=4',
+      'strategy("Orders")',
+      'longCondition = crossover(sma(close, 10), sma(close, 20))',
+      'strategy.entry("Long", true, when=longCondition)',
+      'if close < open',
+      '    strategy.entry("Short", long=false, when=rsi(close, 14) > 70)',
+      'strategy.close("Long", when=true)'
+    ]);
+
+    expect(code).toEqual([
+      '//@version=6',
+      'strategy("Orders")',
+      'longCondition = ta.crossover(ta.sma(close, 10), ta.sma(close, 20))',
+      'if longCondition',
+      '    strategy.entry("Long", strategy.long)',
+      'if close < open',
+      '    if ta.rsi(close, 14) > 70',
+      '        strategy.entry("Short", direction=strategy.short)',
+      'strategy.close("Long")'
+    ]);
+    expect(changes.filter(([, rule]) => rule !== 'namespace')).toEqual([
+      [1, 'version'],
+      [4, 'order_condition'],
+      [4, 'direction'],
+      [6, 'order_condition'],
+      [6, 'direction'],
+      [7, 'order_condition']
+    ]);
+    expectValidV6(code);
+  });
+
+  test('applies the v6 bool, na and division rules to v5 scripts', () => {
+    const { code, changes, unsupported } = migrate([
+      '//@version=5',
+      'indicator("Types")',
+      'length = input.int(20, "Length")',
+      'var bool armed = na',
+      'bars = ta.barssince(close > open)',
+      'if bars',
+      '    armed := na',
+      'signal = volume and close > open ? 1 : 0',
+      'half = ta.sma(close, length / 2)',
+      'daily = timeframe.period == "D"',
+      'plot(half)'
+    ]);
+
+    expect(code).toEqual([
+      '//@version=6',
+      'indicator("Types")',
+      'length = input.int(20, "Length")',
+      'var bool armed = false',
+      'bars = ta.barssince(close > open)',
+      'if bool(bars)',
+      '    armed := false',
+      'signal = bool(volume) and close > open ? 1 : 0',
+      'half = ta.sma(close, int(length / 2))',
+      'daily = timeframe.period == "1D"',
+      'plot(half)'
+    ]);
+    expect(changes).toEqual([
+      [1, 'version'],
+      [4, 'bool_na'],
+      [6, 'bool_condition'],
+      [7, 'bool_na'],
+      [8, 'bool_condition'],
+      [9, 'int_division'],
+      [10, 'timeframe_period']
+    ]);
+    expect(unsupported).toEqual([]);
+    expectValidV6(code);
+  });
+
+  test('flags what it cannot migrate with the original line', () => {
+    const { code, unsupported } = migrate([
+      '//@version=4',
+      'strategy("Leftovers")',
+      'strategy.entry("Long", true, when=close > open)',
+      'f() => strategy.close("Long", when=close < open)',
+      'data = quandl("FRED/GDP", barmerge.gaps_off, 0)',
+      'var flag = false',
+      'missing = na(flag)',
+      'f()'
+    ]);
+
+    expect(code[3]).toBe('    strategy.entry("Long", strategy.long)');
+    expect(unsupported.map(issue => [issue.line, issue.code])).toEqual([
+      [4, 'order_condition'],
+      [5, 'removed_function'],
+      [7, 'bool_na']
+    ]);
+  });
+
+  test('returns scripts it cannot migrate unchanged', () => {
+    const current = '//@version=6\nindicator("Current")\nplot(close)';
+    expect(migratePine(current)).toEqual({ code: current, fromVersion: 6, changed: false, changes: [], unsupported: [], errors: [] });
+
+    const unversioned = 'study("Old")\nplot(close)';
+    expect(migratePine(unversioned)).toMatchObject({
+      code: unversioned,
+      fromVersion: null,
+      changed: false,
+      unsupported: [expect.objectContaining({ code: 'version_unsupported', line: 1 })]
+    });
+
+    const broken = '//@version=4\nstudy("Broken"\nplot(close)';
+    expect(migratePine(broken)).toMatchObject({ code: broken, changed: false, errors: [expect.objectContaining({ message: expect.any(String) })] });
+  });
+});
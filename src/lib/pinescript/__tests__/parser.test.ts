@@ -0,0 +1,253 @@
+/**
+ * Pine Script Parser Tests
+ * Tokens, statements, expressions and error recovery for Pine v6 sources
+ */
+
+import { tokenize, parsePine, walk } from '..';
+import type {
+  BinaryExpression,
+  CallExpression,
+  ConditionalExpression,
+  ExpressionStatement,
+  ForInStatement,
+  ForStatement,
+  FunctionDeclaration,
+  IfStatement,
+  PineNode,
+  Statement,
+  SwitchStatement,
+  TupleDeclaration,
+  TypeDeclaration,
+  VariableDeclaration
+} from '..';
+import { generateEnhancedPineScript } from '@/app/builder/enhanced-pinescript-generator';
+import type { CustomEdge, CustomNode, NodeConfig, NodeType } from '@/app/builder/canvas-config';
+
+function parseClean(source: string): Statement[] {
+  const { program, errors } = parsePine(source);
+  expect(errors).toEqual([]);
+  return program.body;
+}
+
+function node(id: string, type: NodeType, label: string, config: NodeConfig = {}): CustomNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { id, label, type, config } };
+}
+
+function edge(source: string, target: string): CustomEdge {
+  return { id: `${source}_${target}`, source, target };
+}
+
+describe('tokenize', () => {
+  test('emits indent and dedent tokens for blocks and joins wrapped lines', () => {
+    const { tokens, comments, errors } = tokenize([
+      '//@version=6',
+      'if close > open',
+      '    x = ta.sma(close,',
+      '      14)',
+      '    y = x +',
+      '      1 // wrapped',
+      'plot(x)'
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(tokens.map(token => token.type === 'identifier' || token.type === 'keyword' ? token.value : token.type)).toEqual([
+      'if', 'close', 'operator', 'open', 'newline',
+      'indent',
+      'x', 'operator', 'ta', 'punctuation', 'sma', 'punctuation', 'close', 'punctuation', 'number', 'punctuation', 'newline',
+      'y', 'operator', 'x', 'operator', 'number', 'newline',
+      'dedent',
+      'plot', 'punctuation', 'x', 'punctuation', 'newline',
+      'eof'
+    ]);
+    expect(comments.map(comment => [comment.annotation?.name, comment.trailing])).toEqual([['version', false], [undefined, true]]);
+  });
+
+  test('decodes strings and reports malformed literals with their position', () => {
+    const { tokens, errors } = tokenize('a = "say \\"hi\\""\nb = #12345\nc = \'open');
+
+    expect(tokens.find(token => token.type === 'string')!.value).toBe('say "hi"');
+    expect(errors.map(error => [error.message, error.range.start.line, error.range.start.column])).toEqual([
+      ['Color literals must be #RRGGBB or #RRGGBBAA', 2, 5],
+      ['Unterminated string literal', 3, 5]
+    ]);
+  });
+});
+
+describe('parsePine', () => {
+  test('parses typed, var and tuple declarations with source ranges', () => {
+    const [price, counter, levels, tuple, reassignment] = parseClean([
+      'float price = close',
+      'var int count = 0',
+      'varip array<float> levels = array.new<float>(10, 0.0)',
+      '[macdLine, signalLine, hist] = ta.macd(close, 12, 26, 9)',
+      'count += 1'
+    ].join('\n')) as [VariableDeclaration, VariableDeclaration, VariableDeclaration, TupleDeclaration, Statement];
+
+    expect(price).toMatchObject({ kind: 'VariableDeclaration', type: { name: 'float' }, name: { name: 'price' } });
+    expect(counter).toMatchObject({ mode: 'var', type: { name: 'int' }, init: { kind: 'Number', value: 0, isInteger: true } });
+    expect(levels).toMatchObject({ mode: 'varip', type: { name: 'array', args: [{ name: 'float' }] } });
+    expect((levels.init as CallExpression).typeArguments.map(type => type.name)).toEqual(['float']);
+    expect(tuple.names.map(name => name.name)).toEqual(['macdLine', 'signalLine', 'hist']);
+    expect(reassignment).toMatchObject({ kind: 'Assignment', operator: '+=', target: { name: 'count' } });
+
+    expect(levels.range.start).toEqual({ line: 3, column: 1, offset: 38 });
+    expect(levels.name.range.start).toMatchObject({ line: 3, column: 20 });
+    expect(levels.range.end).toMatchObject({ line: 3, column: 54 });
+  });
+
+  test('follows Pine operator precedence', () => {
+    const [statement] = parseClean('signal = a or b and not c > d + e * f[1] ? 1 : -1') as VariableDeclaration[];
+    const conditional = statement.init as ConditionalExpression;
+    const or = conditional.test as BinaryExpression;
+    const and = or.right as BinaryExpression;
+
+    expect(or.operator).toBe('or');
+    expect(and.operator).toBe('and');
+    expect(and.right).toMatchObject({
+      kind: 'Binary',
+      operator: '>',
+      left: { kind: 'Unary', operator: 'not', operand: { name: 'c' } },
+      right: { operator: '+', right: { operator: '*', right: { kind: 'History', offset: { value: 1 } } } }
+    });
+    expect(conditional.alternate).toMatchObject({ kind: 'Unary', operator: '-' });
+  });
+
+  test('parses control structures, including ones used as values', () => {
+    const [ifStatement, sign, total, pairs, loop, mode] = parseClean([
+      'if close > open',
+      '    strategy.entry("Long", strategy.long)',
+      'else if close < open',
+      '    strategy.entry("Short", strategy.short)',
+      'else',
+      '    strategy.close_all()',
+      'sign = if close > open',
+      '    1',
+      'else',
+      '    -1',
+      'total = 0.0',
+      'for [i, value] in values',
+      '    total += value * i',
+      'for i = 0 to 10 by 2',
+      '    if i > 4',
+      '        break',
+      'label = switch mode',
+      '    "fast" => 1',
+      '    "slow" =>',
+      '        x = 2',
+      '        x',
+      '    => 0'
+    ].join('\n')) as Statement[];
+
+    expect((ifStatement as IfStatement).alternate).toMatchObject({ kind: 'If', alternate: { kind: 'Block' } });
+    expect((sign as VariableDeclaration).init).toMatchObject({ kind: 'If', consequent: { body: [{ kind: 'ExpressionStatement' }] } });
+    expect(total.kind).toBe('VariableDeclaration');
+    expect(pairs as ForInStatement).toMatchObject({ kind: 'ForIn', index: { name: 'i' }, item: { name: 'value' } });
+    expect(loop as ForStatement).toMatchObject({ kind: 'For', counter: { name: 'i' }, step: { value: 2 } });
+    expect((loop as ForStatement).body.body[0]).toMatchObject({ kind: 'If', consequent: { body: [{ kind: 'Break' }] } });
+
+    const switchValue = (mode as VariableDeclaration).init as SwitchStatement;
+    expect(switchValue.discriminant).toMatchObject({ name: 'mode' });
+    expect(switchValue.cases.map(branch => [branch.test?.kind, branch.body.kind])).toEqual([
+      ['String', 'Number'],
+      ['String', 'Block'],
+      [undefined, 'Number']
+    ]);
+  });
+
+  test('parses functions, methods, user types, enums and imports', () => {
+    const body = parseClean([
+      '//@version=6',
+      '//@description Helpers',
+      'library("Helpers")',
+      'import TradingView/ta/7 as tvta',
+      'export type Zone',
+      '    float top = na',
+      '    varip int touches',
+      'export enum Side',
+      '    long = "Long"',
+      '    short',
+      'export method width(Zone this) => this.top - this.bottom',
+      'average(series float src, simple int length = 14) =>',
+      '    sum = math.sum(src, length)',
+      '    sum / length',
+      'z = Zone.new(top=high)',
+      'w = z.width()',
+      'type = input.string("EMA", title="Type")'
+    ].join('\n'));
+
+    const [library, importStatement, zone, side, width, average, , call] = body;
+    expect(library.kind).toBe('ExpressionStatement');
+    expect(importStatement).toMatchObject({ kind: 'Import', path: 'TradingView/ta/7', alias: { name: 'tvta' } });
+    expect(zone as TypeDeclaration).toMatchObject({
+      kind: 'TypeDeclaration',
+      isExport: true,
+      fields: [{ name: { name: 'top' }, defaultValue: { kind: 'Na' } }, { isVarip: true, type: { name: 'int' } }]
+    });
+    expect(side).toMatchObject({ kind: 'EnumDeclaration', fields: [{ title: { value: 'Long' } }, { name: { name: 'short' } }] });
+    expect(width as FunctionDeclaration).toMatchObject({ isMethod: true, isExport: true, body: { kind: 'Binary' } });
+    expect(average as FunctionDeclaration).toMatchObject({
+      isMethod: false,
+      params: [
+        { qualifier: 'series', type: { name: 'float' }, name: { name: 'src' } },
+        { qualifier: 'simple', type: { name: 'int' }, defaultValue: { value: 14 } }
+      ],
+      body: { kind: 'Block' }
+    });
+    expect((call as VariableDeclaration).init).toMatchObject({ kind: 'Call', callee: { kind: 'Member', property: { name: 'width' } } });
+    expect(body[body.length - 1]).toMatchObject({ kind: 'VariableDeclaration', name: { name: 'type' } });
+    expect(parsePine('//@version=6\nx = 1').program.version).toBe(6);
+  });
+
+  test('reads named arguments and tells generic calls from comparisons', () => {
+    const [generic, comparison] = parseClean('a = array.new<int>(3)\nb = close < open and high > low') as VariableDeclaration[];
+    const [call] = parseClean('plot(close, title="Close", color=#FF0000)') as ExpressionStatement[];
+
+    expect((generic.init as CallExpression).typeArguments).toHaveLength(1);
+    expect(comparison.init).toMatchObject({ operator: 'and', left: { operator: '<' }, right: { operator: '>' } });
+    expect((call.expression as CallExpression).args.map(arg => arg.name?.name)).toEqual([undefined, 'title', 'color']);
+  });
+
+  test('reports every syntax error and keeps parsing the statements around them', () => {
+    const { program, errors } = parsePine([
+      'a = (close + 1',
+      'b = 2',
+      'if a >',
+      '    c = 3',
+      'x = 1 2',
+      'plot(close, title="x", 5)',
+      'y = 4'
+    ].join('\n'));
+
+    expect(errors.map(error => [error.range.start.line, error.message])).toEqual([
+      [1, 'Expected ")"'],
+      [3, 'Unexpected end of line'],
+      [5, 'Expected end of line but found "2"'],
+      [6, 'Positional arguments cannot follow named arguments']
+    ]);
+    expect(program.body.map(statement => statement.kind === 'VariableDeclaration' ? statement.name.name : statement.kind))
+      .toEqual(['b', 'y']);
+  });
+
+  test('walks every node of builder-generated strategies without errors', () => {
+    const { code } = generateEnhancedPineScript(
+      [
+        node('data', 'data-source', 'Price Data'),
+        node('macd', 'indicator', 'MACD', { indicatorId: 'macd' }),
+        node('cross', 'condition', 'Cross', { operator: 'crosses_above', threshold: 0 }),
+        node('buy', 'action', 'Buy', { actionKind: 'entry', direction: 'long', quantity: '10%' }),
+        node('atr', 'risk', 'ATR Stop', { riskUnit: 'atr', stopLoss: 2 }),
+        node('session', 'timing', 'Session', { startTime: '09:30', endTime: '16:00' })
+      ],
+      [edge('data', 'macd'), edge('macd', 'cross'), edge('cross', 'buy')]
+    );
+    const { program, errors } = parsePine(code);
+    const kinds = new Set<string>();
+    walk(program, (current: PineNode) => {
+      kinds.add(current.kind);
+    });
+
+    expect(errors).toEqual([]);
+    expect(program.version).toBe(6);
+    expect(Array.from(kinds)).toEqual(expect.arrayContaining(['TupleDeclaration', 'If', 'Member', 'Call', 'Argument']));
+  });
+});
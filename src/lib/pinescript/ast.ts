@@ -0,0 +1,432 @@
+/**
+ * Pine Script Parser - AST
+ *
+ * Typed syntax tree for Pine Script v6. Every node carries the source range
+ * it was parsed from so validators, formatters and importers can point back
+ * at the exact characters of the original script.
+ */
+
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based, in UTF-16 code units
+  offset: number; // 0-based index into the source
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition; // Exclusive
+}
+
+export interface PineDiagnostic {
+  message: string;
+  range: SourceRange;
+}
+
+export type TokenType =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'color'
+  | 'operator'
+  | 'punctuation'
+  | 'newline'
+  | 'indent'
+  | 'dedent'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string; // Source text; decoded contents for strings
+  range: SourceRange;
+}
+
+export interface Comment {
+  text: string; // Without the leading //
+  annotation?: { name: string; value: string }; // //@version=6, //@description ...
+  trailing: boolean; // Follows code on the same line
+  range: SourceRange;
+}
+
+interface BaseNode {
+  range: SourceRange;
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TypeQualifier = 'const' | 'input' | 'simple' | 'series';
+
+// int, float, array<float>, map<string, int>, float[] (v5 array shorthand), user types
+export interface TypeNode extends BaseNode {
+  kind: 'Type';
+  name: string;
+  args: TypeNode[];
+  isArrayShorthand?: boolean;
+}
+
+// =============================================================================
+// Expressions
+// =============================================================================
+
+export interface NumberLiteral extends BaseNode {
+  kind: 'Number';
+  value: number;
+  raw: string;
+  isInteger: boolean;
+}
+
+export interface StringLiteral extends BaseNode {
+  kind: 'String';
+  value: string;
+  raw: string;
+}
+
+export interface BoolLiteral extends BaseNode {
+  kind: 'Bool';
+  value: boolean;
+}
+
+export interface ColorLiteral extends BaseNode {
+  kind: 'Color';
+  value: string; // #RRGGBB or #RRGGBBAA
+}
+
+export interface NaLiteral extends BaseNode {
+  kind: 'Na';
+}
+
+export interface Identifier extends BaseNode {
+  kind: 'Identifier';
+  name: string;
+}
+
+export interface MemberExpression extends BaseNode {
+  kind: 'Member';
+  object: Expression;
+  property: Identifier;
+}
+
+export interface Argument extends BaseNode {
+  kind: 'Argument';
+  name?: Identifier; // Set for named arguments such as title="RSI"
+  value: Expression;
+}
+
+export interface CallExpression extends BaseNode {
+  kind: 'Call';
+  callee: Expression;
+  typeArguments: TypeNode[]; // array.new<float>(...)
+  args: Argument[];
+}
+
+// series[offset]
+export interface HistoryExpression extends BaseNode {
+  kind: 'History';
+  target: Expression;
+  offset: Expression;
+}
+
+export type UnaryOperator = '-' | '+' | 'not';
+
+export interface UnaryExpression extends BaseNode {
+  kind: 'Unary';
+  operator: UnaryOperator;
+  operand: Expression;
+}
+
+export type BinaryOperator =
+  | 'or' | 'and'
+  | '==' | '!='
+  | '<' | '>' | '<=' | '>='
+  | '+' | '-'
+  | '*' | '/' | '%';
+
+export interface BinaryExpression extends BaseNode {
+  kind: 'Binary';
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface ConditionalExpression extends BaseNode {
+  kind: 'Conditional';
+  test: Expression;
+  consequent: Expression;
+  alternate: Expression;
+}
+
+// [a, b] as a tuple return value or array literal
+export interface TupleExpression extends BaseNode {
+  kind: 'Tuple';
+  elements: Expression[];
+}
+
+export interface ParenthesizedExpression extends BaseNode {
+  kind: 'Parenthesized';
+  expression: Expression;
+}
+
+export type Expression =
+  | NumberLiteral
+  | StringLiteral
+  | BoolLiteral
+  | ColorLiteral
+  | NaLiteral
+  | Identifier
+  | MemberExpression
+  | CallExpression
+  | HistoryExpression
+  | UnaryExpression
+  | BinaryExpression
+  | ConditionalExpression
+  | TupleExpression
+  | ParenthesizedExpression
+  // Structures are expressions too: their value is the last expression of the branch taken
+  | IfStatement
+  | SwitchStatement
+  | ForStatement
+  | ForInStatement
+  | WhileStatement;
+
+// =============================================================================
+// Statements
+// =============================================================================
+
+export interface Block extends BaseNode {
+  kind: 'Block';
+  body: Statement[];
+}
+
+export interface VariableDeclaration extends BaseNode {
+  kind: 'VariableDeclaration';
+  mode?: 'var' | 'varip';
+  qualifier?: TypeQualifier;
+  type?: TypeNode;
+  name: Identifier;
+  init: Expression;
+}
+
+// [macdLine, signalLine, hist] = ta.macd(close, 12, 26, 9)
+export interface TupleDeclaration extends BaseNode {
+  kind: 'TupleDeclaration';
+  names: Identifier[];
+  init: Expression;
+}
+
+export type AssignmentOperator = ':=' | '+=' | '-=' | '*=' | '/=' | '%=';
+
+export interface Assignment extends BaseNode {
+  kind: 'Assignment';
+  operator: AssignmentOperator;
+  target: Identifier | MemberExpression;
+  value: Expression;
+}
+
+export interface Parameter extends BaseNode {
+  kind: 'Parameter';
+  qualifier?: TypeQualifier;
+  type?: TypeNode;
+  name: Identifier;
+  defaultValue?: Expression;
+}
+
+export interface FunctionDeclaration extends BaseNode {
+  kind: 'FunctionDeclaration';
+  name: Identifier;
+  params: Parameter[];
+  body: Block | Expression;
+  isMethod: boolean;
+  isExport: boolean;
+}
+
+export interface FieldDeclaration extends BaseNode {
+  kind: 'FieldDeclaration';
+  isVarip: boolean;
+  type: TypeNode;
+  name: Identifier;
+  defaultValue?: Expression;
+}
+
+export interface TypeDeclaration extends BaseNode {
+  kind: 'TypeDeclaration';
+  name: Identifier;
+  fields: FieldDeclaration[];
+  isExport: boolean;
+}
+
+export interface EnumField extends BaseNode {
+  kind: 'EnumField';
+  name: Identifier;
+  title?: StringLiteral;
+}
+
+export interface EnumDeclaration extends BaseNode {
+  kind: 'EnumDeclaration';
+  name: Identifier;
+  fields: EnumField[];
+  isExport: boolean;
+}
+
+// import TradingView/ta/7 as tvta
+export interface ImportStatement extends BaseNode {
+  kind: 'Import';
+  path: string;
+  alias?: Identifier;
+}
+
+export interface IfStatement extends BaseNode {
+  kind: 'If';
+  test: Expression;
+  consequent: Block;
+  alternate?: IfStatement | Block; // else if / else
+}
+
+export interface SwitchCase extends BaseNode {
+  kind: 'SwitchCase';
+  test?: Expression; // Missing for the default => branch
+  body: Block | Expression;
+}
+
+export interface SwitchStatement extends BaseNode {
+  kind: 'Switch';
+  discriminant?: Expression; // switch without an expression matches boolean cases
+  cases: SwitchCase[];
+}
+
+// for i = 0 to 10 by 2
+export interface ForStatement extends BaseNode {
+  kind: 'For';
+  counter: Identifier;
+  from: Expression;
+  to: Expression;
+  step?: Expression;
+  body: Block;
+}
+
+// for value in values / for [index, value] in values
+export interface ForInStatement extends BaseNode {
+  kind: 'ForIn';
+  index?: Identifier;
+  item: Identifier;
+  iterable: Expression;
+  body: Block;
+}
+
+export interface WhileStatement extends BaseNode {
+  kind: 'While';
+  test: Expression;
+  body: Block;
+}
+
+export interface ExpressionStatement extends BaseNode {
+  kind: 'ExpressionStatement';
+  expression: Expression;
+}
+
+export interface BreakStatement extends BaseNode {
+  kind: 'Break';
+}
+
+export interface ContinueStatement extends BaseNode {
+  kind: 'Continue';
+}
+
+export type Statement =
+  | VariableDeclaration
+  | TupleDeclaration
+  | Assignment
+  | FunctionDeclaration
+  | TypeDeclaration
+  | EnumDeclaration
+  | ImportStatement
+  | IfStatement
+  | SwitchStatement
+  | ForStatement
+  | ForInStatement
+  | WhileStatement
+  | ExpressionStatement
+  | BreakStatement
+  | ContinueStatement;
+
+export interface Program extends BaseNode {
+  kind: 'Program';
+  version: number | null; // From //@version=N
+  body: Statement[];
+  comments: Comment[];
+}
+
+export type PineNode =
+  | Program
+  | Block
+  | Statement
+  | Expression
+  | TypeNode
+  | Argument
+  | Parameter
+  | FieldDeclaration
+  | EnumField
+  | SwitchCase;
+
+export type PineNodeKind = PineNode['kind'];
+
+function isNode(value: unknown): value is PineNode {
+  return typeof value === 'object' && value !== null && typeof (value as PineNode).kind === 'string' &&
+    'range' in value;
+}
+
+/**
+ * Direct children of a node in source order. Reads every node-valued
+ * property, so new node kinds are walked without changes here.
+ */
+export function getChildren(node: PineNode): PineNode[] {
+  const children: PineNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'range') continue;
+    if (Array.isArray(value)) {
+      value.filter(isNode).forEach(child => children.push(child));
+    } else if (isNode(value)) {
+      children.push(value);
+    }
+  }
+  return children.sort((a, b) => a.range.start.offset - b.range.start.offset);
+}
+
+/**
+ * Depth-first pre-order walk. Returning false from the visitor skips the
+ * node's children.
+ */
+export function walk(node: PineNode, visitor: (node: PineNode, parent: PineNode | null) => boolean | void): void {
+  const visit = (current: PineNode, parent: PineNode | null) => {
+    if (visitor(current, parent) === false) return;
+    getChildren(current).forEach(child => visit(child, current));
+  };
+  visit(node, null);
+}
+
+/**
+ * Identifiers a node reads, in source order. Declared names, parameters,
+ * loop counters, member properties and argument names are not reads.
+ */
+export function findReferences(node: PineNode): Identifier[] {
+  const references: Identifier[] = [];
+  walk(node, (current, parent) => {
+    if (current.kind !== 'Identifier') return;
+    const declares = !!parent && (
+      (parent.kind === 'Member' && parent.property === current) ||
+      (parent.kind === 'Argument' && parent.name === current) ||
+      (parent.kind === 'VariableDeclaration' && parent.name === current) ||
+      (parent.kind === 'TupleDeclaration' && parent.names.includes(current)) ||
+      (parent.kind === 'FunctionDeclaration' && parent.name === current) ||
+      (parent.kind === 'Parameter' && parent.name === current) ||
+      (parent.kind === 'For' && parent.counter === current) ||
+      (parent.kind === 'ForIn' && (parent.item === current || parent.index === current)) ||
+      ((parent.kind === 'TypeDeclaration' || parent.kind === 'EnumDeclaration' || parent.kind === 'FieldDeclaration' ||
+        parent.kind === 'EnumField') && parent.name === current) ||
+      (parent.kind === 'Import' && parent.alias === current)
+    );
+    if (!declares) references.push(current);
+  });
+  return references;
+}
@@ -0,0 +1,461 @@
+/**
+ * Pine Script Parser - Built-in Signatures
+ *
+ * Types of built-in variables and signatures of built-in functions used by
+ * the semantic checker. Signatures are written in a compact form:
+ *
+ *   'source: series float, length?: simple int => series float'
+ *
+ * A `?` marks an optional parameter, `...` a variadic one, a missing
+ * qualifier means series, and a return type without a qualifier takes the
+ * strongest qualifier of the arguments (math.abs(14) is const, math.abs(close)
+ * series). `number` accepts int or float and returns int only when every
+ * numeric argument is an int. Tuple results are written as [type, type].
+ */
+
+import type { TypeQualifier } from './ast';
+
+export type PineBaseType = 'int' | 'float' | 'number' | 'bool' | 'color' | 'string' | 'na' | 'void' | 'any';
+
+export interface PineValueType {
+  type: PineBaseType;
+  qualifier: TypeQualifier;
+  elements?: PineValueType[]; // Tuple results such as ta.macd()
+}
+
+export interface ParameterSpec {
+  name: string;
+  type: PineBaseType;
+  qualifier: TypeQualifier; // Strongest qualifier the argument may have
+  optional: boolean;
+  rest: boolean;
+}
+
+export interface ReturnSpec {
+  type: PineBaseType;
+  qualifier?: TypeQualifier; // Missing when inherited from the arguments
+}
+
+export interface FunctionSignature {
+  params: ParameterSpec[];
+  returns: ReturnSpec[]; // More than one entry for tuples
+}
+
+export const QUALIFIER_RANK: Record<TypeQualifier, number> = { const: 0, input: 1, simple: 2, series: 3 };
+
+// Namespaces whose functions are all listed below; calling anything else in them is an error
+export const CHECKED_NAMESPACES = ['ta', 'math', 'str', 'array', 'strategy', 'request'];
+
+// Namespaces of built-in constants and functions that may be used as the object of a member access
+export const BUILTIN_NAMESPACES = [
+  ...CHECKED_NAMESPACES,
+  'input', 'color', 'syminfo', 'timeframe', 'barstate', 'session', 'chart', 'label', 'line', 'box',
+  'table', 'linefill', 'polyline', 'plot', 'hline', 'shape', 'location', 'size', 'position',
+  'display', 'extend', 'xloc', 'yloc', 'format', 'scale', 'currency', 'barmerge', 'order', 'alert',
+  'text', 'font', 'dividends', 'earnings', 'splits', 'adjustment', 'backadjustment', 'settlement_as_close',
+  'runtime', 'log', 'ticker', 'matrix', 'map', 'dayofweek'
+];
+
+const SOURCE_VARIABLES = ['open', 'high', 'low', 'close', 'volume', 'hl2', 'hlc3', 'ohlc4', 'hlcc4'];
+const TIME_VARIABLES = [
+  'time', 'time_close', 'time_tradingday', 'timenow', 'last_bar_time', 'bar_index', 'last_bar_index',
+  'year', 'month', 'weekofyear', 'dayofmonth', 'dayofweek', 'hour', 'minute', 'second'
+];
+const COLOR_CONSTANTS = [
+  'aqua', 'black', 'blue', 'fuchsia', 'gray', 'green', 'lime', 'maroon', 'navy', 'olive', 'orange',
+  'purple', 'red', 'silver', 'teal', 'white', 'yellow'
+];
+
+const VARIABLE_SPECS: Record<string, string> = {
+  ...Object.fromEntries(SOURCE_VARIABLES.map(name => [name, 'series float'])),
+  ...Object.fromEntries(TIME_VARIABLES.map(name => [name, 'series int'])),
+  ...Object.fromEntries(COLOR_CONSTANTS.map(name => [`color.${name}`, 'const color'])),
+  ...Object.fromEntries(['tr', 'obv', 'vwap', 'accdist', 'iii', 'nvi', 'pvi', 'pvt', 'wad', 'wvad'].map(name => [`ta.${name}`, 'series float'])),
+  ...Object.fromEntries(['pi', 'e', 'phi', 'rphi'].map(name => [`math.${name}`, 'const float'])),
+  ...Object.fromEntries(['isfirst', 'islast', 'ishistory', 'isrealtime', 'isnew', 'isconfirmed', 'islastconfirmedhistory']
+    .map(name => [`barstate.${name}`, 'series bool'])),
+  ...Object.fromEntries(['position_size', 'position_avg_price', 'equity', 'netprofit', 'openprofit', 'grossprofit',
+    'grossloss', 'max_drawdown', 'max_runup', 'initial_capital', 'margin_liquidation_price']
+    .map(name => [`strategy.${name}`, 'series float'])),
+  ...Object.fromEntries(['opentrades', 'closedtrades', 'wintrades', 'losstrades', 'eventrades']
+    .map(name => [`strategy.${name}`, 'series int'])),
+  ...Object.fromEntries(['fixed', 'cash', 'percent_of_equity'].map(name => [`strategy.${name}`, 'const string'])),
+  'strategy.long': 'const any',
+  'strategy.short': 'const any',
+  'syminfo.tickerid': 'simple string',
+  'syminfo.ticker': 'simple string',
+  'syminfo.mintick': 'simple float',
+  'syminfo.pointvalue': 'simple float',
+  'timeframe.period': 'simple string',
+  'timeframe.multiplier': 'simple int',
+  'timeframe.isintraday': 'simple bool',
+  'timeframe.isdaily': 'simple bool',
+  'barmerge.lookahead_on': 'const any',
+  'barmerge.lookahead_off': 'const any',
+  'barmerge.gaps_on': 'const any',
+  'barmerge.gaps_off': 'const any'
+};
+
+const INPUT_OPTIONS = 'tooltip?: const string, inline?: const string, group?: const string, confirm?: const bool, display?: const any, active?: input bool';
+const PLOT_OPTIONS = 'editable?: const bool, show_last?: input int, display?: input any, format?: input string, precision?: input int, force_overlay?: const bool';
+const MARKER_OPTIONS = 'location?: input any, color?: series color, offset?: simple int, text?: const string, textcolor?: series color, size?: const any';
+const ORDER_OPTIONS = 'oca_name?: series string, oca_type?: input string, comment?: series string, alert_message?: series string, disable_alert?: series bool';
+const SCRIPT_OPTIONS = 'shorttitle?: const string, overlay?: const bool, format?: const string, precision?: const int, scale?: const any, ' +
+  'max_bars_back?: const int, explicit_plot_zorder?: const bool, max_lines_count?: const int, max_labels_count?: const int, ' +
+  'max_boxes_count?: const int, calc_bars_count?: const int, max_polylines_count?: const int, dynamic_requests?: const bool, behind_chart?: const bool';
+
+function inputSignature(type: string, extra = ''): string {
+  return `defval: const ${type}, title?: const string, ${extra}${INPUT_OPTIONS} => input ${type}`;
+}
+
+const FUNCTION_SPECS: Record<string, string[]> = {
+  // Declarations and plotting
+  indicator: [`title: const string, ${SCRIPT_OPTIONS}, timeframe?: const string, timeframe_gaps?: const bool => void`],
+  strategy: [
+    `title: const string, ${SCRIPT_OPTIONS}, pyramiding?: const int, calc_on_order_fills?: const bool, ` +
+    'calc_on_every_tick?: const bool, backtest_fill_limits_assumption?: const int, default_qty_type?: const string, ' +
+    'default_qty_value?: const float, initial_capital?: const float, currency?: const string, slippage?: const int, ' +
+    'commission_type?: const string, commission_value?: const float, process_orders_on_close?: const bool, ' +
+    'close_entries_rule?: const string, margin_long?: const float, margin_short?: const float, risk_free_rate?: const float, ' +
+    'use_bar_magnifier?: const bool, fill_orders_on_standard_ohlc?: const bool => void'
+  ],
+  library: ['title: const string, overlay?: const bool, dynamic_requests?: const bool => void'],
+  plot: [
+    'series: series float, title?: const string, color?: series color, linewidth?: input int, style?: input any, ' +
+    `trackprice?: input bool, histbase?: input float, offset?: simple int, join?: input bool, linestyle?: input any, ${PLOT_OPTIONS} => series any`
+  ],
+  plotshape: [`series: series any, title?: const string, style?: input any, ${MARKER_OPTIONS}, ${PLOT_OPTIONS} => void`],
+  plotchar: [`series: series any, title?: const string, char?: input string, ${MARKER_OPTIONS}, ${PLOT_OPTIONS} => void`],
+  plotarrow: [
+    'series: series float, title?: const string, colorup?: series color, colordown?: series color, offset?: simple int, ' +
+    `minheight?: input int, maxheight?: input int, ${PLOT_OPTIONS} => void`
+  ],
+  plotcandle: [
+    'open: series float, high: series float, low: series float, close: series float, title?: const string, color?: series color, ' +
+    `wickcolor?: series color, bordercolor?: series color, ${PLOT_OPTIONS} => void`
+  ],
+  plotbar: [
+    'open: series float, high: series float, low: series float, close: series float, title?: const string, ' +
+    `color?: series color, ${PLOT_OPTIONS} => void`
+  ],
+  hline: [
+    'price: input float, title?: const string, color?: input color, linestyle?: input any, linewidth?: input int, ' +
+    'editable?: const bool, display?: input any => series any'
+  ],
+  fill: [
+    'hline1: series any, hline2: series any, color?: series color, title?: const string, editable?: const bool, ' +
+    'show_last?: input int, fillgaps?: const bool, display?: input any => void',
+    'plot1: series any, plot2: series any, top_value: series float, bottom_value: series float, top_color: series color, ' +
+    'bottom_color: series color, title?: const string, display?: input any, fillgaps?: const bool, editable?: const bool => void'
+  ],
+  bgcolor: [
+    'color: series color, offset?: simple int, editable?: const bool, show_last?: input int, title?: const string, ' +
+    'display?: input any, force_overlay?: const bool => void'
+  ],
+  barcolor: [
+    'color: series color, offset?: simple int, editable?: const bool, show_last?: input int, title?: const string, ' +
+    'display?: input any => void'
+  ],
+  alert: ['message: series string, freq?: input string => void'],
+  alertcondition: ['condition: series bool, title?: const string, message?: const string => void'],
+
+  // Values and time
+  na: ['x: series any => bool'],
+  nz: ['source: series any, replacement?: series any => any'],
+  fixnan: ['source: series any => series any'],
+  int: ['x: series any => int'],
+  float: ['x: series any => float'],
+  bool: ['x: series any => bool'],
+  max_bars_back: ['var: series any, num: const int => void'],
+  time: ['timeframe: series string, session?: series string, timezone?: series string, bars_back?: series int => series int'],
+  time_close: ['timeframe: series string, session?: series string, timezone?: series string, bars_back?: series int => series int'],
+  timestamp: [
+    'dateString: const string => const int',
+    'year: int, month: int, day: int, hour?: int, minute?: int, second?: int => int',
+    'timezone: string, year: int, month: int, day: int, hour?: int, minute?: int, second?: int => int'
+  ],
+  ...Object.fromEntries(['year', 'month', 'weekofyear', 'dayofmonth', 'dayofweek', 'hour', 'minute', 'second']
+    .map(name => [name, ['time: series int, timezone?: series string => series int']])),
+  'color.new': ['color: color, transp: float => color'],
+  'color.rgb': ['red: float, green: float, blue: float, transp?: float => color'],
+  'color.from_gradient': [
+    'value: series float, bottom_value: series float, top_value: series float, bottom_color: series color, top_color: series color => series color'
+  ],
+  'timeframe.change': ['timeframe: series string => series bool'],
+  'timeframe.in_seconds': ['timeframe?: simple string => simple int'],
+  'runtime.error': ['message: series string => void'],
+
+  // Inputs
+  input: [`defval: const any, title?: const string, ${INPUT_OPTIONS} => input any`],
+  'input.int': [inputSignature('int', 'minval?: const int, maxval?: const int, step?: const int, options?: const any, ')],
+  'input.float': [inputSignature('float', 'minval?: const float, maxval?: const float, step?: const float, options?: const any, ')],
+  'input.bool': [inputSignature('bool')],
+  'input.string': [inputSignature('string', 'options?: const any, ')],
+  'input.color': [inputSignature('color')],
+  'input.timeframe': [inputSignature('string', 'options?: const any, ')],
+  'input.session': [inputSignature('string', 'options?: const any, ')],
+  'input.symbol': [inputSignature('string')],
+  'input.text_area': [inputSignature('string')],
+  'input.price': [inputSignature('float')],
+  'input.time': [inputSignature('int')],
+  'input.enum': [`defval: const any, title?: const string, options?: const any, ${INPUT_OPTIONS} => input any`],
+  'input.source': [
+    'defval: series float, title?: const string, tooltip?: const string, inline?: const string, group?: const string, ' +
+    'display?: const any, active?: input bool => series float'
+  ],
+
+  // Technical analysis
+  'ta.sma': ['source: series float, length: series int => series float'],
+  'ta.ema': ['source: series float, length: simple int => series float'],
+  'ta.rma': ['source: series float, length: simple int => series float'],
+  'ta.wma': ['source: series float, length: series int => series float'],
+  'ta.vwma': ['source: series float, length: series int => series float'],
+  'ta.hma': ['source: series float, length: simple int => series float'],
+  'ta.swma': ['source: series float => series float'],
+  'ta.alma': ['series: series float, length: series int, offset: simple float, sigma: simple float, floor?: simple bool => series float'],
+  'ta.linreg': ['source: series float, length: series int, offset: simple int => series float'],
+  'ta.rsi': ['source: series float, length: simple int => series float'],
+  'ta.macd': ['source: series float, fastlen: simple int, slowlen: simple int, siglen: simple int => [series float, series float, series float]'],
+  'ta.bb': ['series: series float, length: series int, mult: simple float => [series float, series float, series float]'],
+  'ta.bbw': ['series: series float, length: series int, mult: simple float => series float'],
+  'ta.kc': ['series: series float, length: simple int, mult: simple float, useTrueRange?: simple bool => [series float, series float, series float]'],
+  'ta.kcw': ['series: series float, length: simple int, mult: simple float, useTrueRange?: simple bool => series float'],
+  'ta.stoch': ['source: series float, high: series float, low: series float, length: series int => series float'],
+  'ta.cci': ['source: series float, length: series int => series float'],
+  'ta.cmo': ['series: series float, length: series int => series float'],
+  'ta.mfi': ['series: series float, length: series int => series float'],
+  'ta.atr': ['length: simple int => series float'],
+  'ta.tr': ['handle_na?: simple bool => series float'],
+  'ta.dmi': ['diLength: simple int, adxSmoothing: simple int => [series float, series float, series float]'],
+  'ta.supertrend': ['factor: series float, atrPeriod: simple int => [series float, series int]'],
+  'ta.sar': ['start: simple float, inc: simple float, max: simple float => series float'],
+  'ta.vwap': [
+    'source: series float, anchor?: series bool => series float',
+    'source: series float, anchor: series bool, stdev_mult: series float => [series float, series float, series float]'
+  ],
+  'ta.tsi': ['source: series float, short_length: simple int, long_length: simple int => series float'],
+  'ta.wpr': ['length: series int => series float'],
+  'ta.roc': ['source: series float, length: series int => series float'],
+  'ta.mom': ['source: series float, length: series int => series float'],
+  'ta.change': [
+    'source: series bool, length?: series int => series bool',
+    'source: series float, length?: series int => series float'
+  ],
+  'ta.cum': ['source: series float => series float'],
+  'ta.stdev': ['source: series float, length: series int, biased?: series bool => series float'],
+  'ta.variance': ['source: series float, length: series int, biased?: series bool => series float'],
+  'ta.dev': ['source: series float, length: series int => series float'],
+  'ta.median': ['source: series float, length: series int => series float'],
+  'ta.mode': ['source: series float, length: series int => series float'],
+  'ta.range': ['source: series float, length: series int => series float'],
+  'ta.percentrank': ['source: series float, length: series int => series float'],
+  'ta.percentile_linear_interpolation': ['source: series float, length: series int, percentage: simple float => series float'],
+  'ta.percentile_nearest_rank': ['source: series float, length: series int, percentage: simple float => series float'],
+  'ta.correlation': ['source1: series float, source2: series float, length: series int => series float'],
+  'ta.cog': ['source: series float, length: series int => series float'],
+  'ta.highest': ['source: series float, length: series int => series float', 'length: series int => series float'],
+  'ta.lowest': ['source: series float, length: series int => series float', 'length: series int => series float'],
+  'ta.highestbars': ['source: series float, length: series int => series int', 'length: series int => series int'],
+  'ta.lowestbars': ['source: series float, length: series int => series int', 'length: series int => series int'],
+  'ta.pivothigh': [
+    'source: series float, leftbars: series int, rightbars: series int => series float',
+    'leftbars: series int, rightbars: series int => series float'
+  ],
+  'ta.pivotlow': [
+    'source: series float, leftbars: series int, rightbars: series int => series float',
+    'leftbars: series int, rightbars: series int => series float'
+  ],
+  'ta.crossover': ['source1: series float, source2: series float => series bool'],
+  'ta.crossunder': ['source1: series float, source2: series float => series bool'],
+  'ta.cross': ['source1: series float, source2: series float => series bool'],
+  'ta.rising': ['source: series float, length: series int => series bool'],
+  'ta.falling': ['source: series float, length: series int => series bool'],
+  'ta.barssince': ['condition: series bool => series int'],
+  'ta.valuewhen': ['condition: series bool, source: series any, occurrence: simple int => series any'],
+
+  // Math
+  'math.abs': ['number: number => number'],
+  'math.sign': ['number: float => float'],
+  'math.max': ['...number: number => number'],
+  'math.min': ['...number: number => number'],
+  'math.avg': ['...number: float => float'],
+  'math.sum': ['source: series float, length: series int => series float'],
+  'math.round': ['number: float => int', 'number: float, precision: int => float'],
+  'math.round_to_mintick': ['number: float => float'],
+  'math.floor': ['number: float => int'],
+  'math.ceil': ['number: float => int'],
+  'math.pow': ['base: float, exponent: float => float'],
+  'math.random': ['min?: float, max?: float, seed?: simple int => series float'],
+  ...Object.fromEntries(['sqrt', 'exp', 'log', 'log10', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'todegrees', 'toradians']
+    .map(name => [`math.${name}`, ['number: float => float']])),
+
+  // Strings
+  'str.tostring': ['value: any, format?: string => string'],
+  'str.tonumber': ['string: string => float'],
+  'str.length': ['string: string => int'],
+  'str.contains': ['source: string, str: string => bool'],
+  'str.startswith': ['source: string, str: string => bool'],
+  'str.endswith': ['source: string, str: string => bool'],
+  'str.pos': ['source: string, str: string => int'],
+  'str.substring': ['source: string, begin_pos: int, end_pos?: int => string'],
+  'str.replace': ['source: string, target: string, replacement: string, occurrence?: int => string'],
+  'str.replace_all': ['source: string, target: string, replacement: string => string'],
+  'str.lower': ['source: string => string'],
+  'str.upper': ['source: string => string'],
+  'str.trim': ['source: string => string'],
+  'str.repeat': ['source: string, repeat: int, separator?: string => string'],
+  'str.match': ['source: string, regex: string => string'],
+  'str.split': ['string: string, separator: string => series any'],
+  'str.format': ['formatString: string, ...arg: any => string'],
+  'str.format_time': ['time: int, format?: string, timezone?: string => string'],
+
+  // Arrays
+  'array.new': ['size?: int, initial_value?: any => series any'],
+  ...Object.fromEntries(['float', 'int', 'bool', 'string', 'color', 'line', 'label', 'box', 'table', 'linefill']
+    .map(type => [`array.new_${type}`, ['size?: int, initial_value?: any => series any']])),
+  'array.from': ['...value: any => series any'],
+  'array.copy': ['id: any => series any'],
+  'array.size': ['id: any => series int'],
+  'array.get': ['id: any, index: int => series any'],
+  'array.set': ['id: any, index: int, value: any => void'],
+  'array.push': ['id: any, value: any => void'],
+  'array.unshift': ['id: any, value: any => void'],
+  'array.insert': ['id: any, index: int, value: any => void'],
+  'array.pop': ['id: any => series any'],
+  'array.shift': ['id: any => series any'],
+  'array.remove': ['id: any, index: int => series any'],
+  'array.first': ['id: any => series any'],
+  'array.last': ['id: any => series any'],
+  'array.clear': ['id: any => void'],
+  'array.fill': ['id: any, value: any, index_from?: int, index_to?: int => void'],
+  'array.slice': ['id: any, index_from: int, index_to: int => series any'],
+  'array.concat': ['id1: any, id2: any => series any'],
+  'array.reverse': ['id: any => void'],
+  'array.sort': ['id: any, order?: any => void'],
+  'array.sort_indices': ['id: any, order?: any => series any'],
+  'array.join': ['id: any, separator?: string => series string'],
+  'array.includes': ['id: any, value: any => series bool'],
+  'array.indexof': ['id: any, value: any => series int'],
+  'array.lastindexof': ['id: any, value: any => series int'],
+  'array.binary_search': ['id: any, val: float => series int'],
+  'array.abs': ['id: any => series any'],
+  'array.min': ['id: any, nth?: int => series float'],
+  'array.max': ['id: any, nth?: int => series float'],
+  'array.stdev': ['id: any, biased?: bool => series float'],
+  'array.variance': ['id: any, biased?: bool => series float'],
+  'array.percentrank': ['id: any, index: int => series float'],
+  'array.covariance': ['id1: any, id2: any, biased?: bool => series float'],
+  'array.every': ['id: any => series bool'],
+  'array.some': ['id: any => series bool'],
+  ...Object.fromEntries(['sum', 'avg', 'median', 'mode', 'range', 'standardize']
+    .map(name => [`array.${name}`, ['id: any => series float']])),
+
+  // Strategy orders and trades
+  'strategy.entry': [
+    'id: series string, direction: series any, qty?: series float, limit?: series float, stop?: series float, ' +
+    `${ORDER_OPTIONS} => void`
+  ],
+  'strategy.order': [
+    'id: series string, direction: series any, qty?: series float, limit?: series float, stop?: series float, ' +
+    `${ORDER_OPTIONS} => void`
+  ],
+  'strategy.exit': [
+    'id: series string, from_entry?: series string, qty?: series float, qty_percent?: series float, profit?: series float, ' +
+    'limit?: series float, loss?: series float, stop?: series float, trail_price?: series float, trail_points?: series float, ' +
+    'trail_offset?: series float, oca_name?: series string, comment?: series string, comment_profit?: series string, ' +
+    'comment_loss?: series string, comment_trailing?: series string, alert_message?: series string, alert_profit?: series string, ' +
+    'alert_loss?: series string, alert_trailing?: series string, disable_alert?: series bool => void'
+  ],
+  'strategy.close': [
+    'id: series string, comment?: series string, qty?: series float, qty_percent?: series float, ' +
+    'alert_message?: series string, immediately?: series bool, disable_alert?: series bool => void'
+  ],
+  'strategy.close_all': ['comment?: series string, alert_message?: series string, immediately?: series bool, disable_alert?: series bool => void'],
+  'strategy.cancel': ['id: series string => void'],
+  'strategy.cancel_all': ['=> void'],
+  'strategy.convert_to_account': ['value: series float => series float'],
+  'strategy.convert_to_symbol': ['value: series float => series float'],
+  'strategy.default_entry_qty': ['fill_price: series float => series float'],
+  'strategy.risk.allow_entry_in': ['value: simple any => void'],
+  'strategy.risk.max_drawdown': ['value: simple float, type: simple string, alert_message?: simple string => void'],
+  'strategy.risk.max_intraday_loss': ['value: simple float, type: simple string, alert_message?: simple string => void'],
+  'strategy.risk.max_cons_loss_days': ['count: simple int, alert_message?: simple string => void'],
+  'strategy.risk.max_intraday_filled_orders': ['count: simple int, alert_message?: simple string => void'],
+  'strategy.risk.max_position_size': ['contracts: simple float => void'],
+  ...Object.fromEntries(['opentrades', 'closedtrades'].flatMap(pool => [
+    ...['entry_price', 'profit', 'profit_percent', 'size', 'commission', 'max_drawdown', 'max_runup']
+      .map(field => [`strategy.${pool}.${field}`, ['trade_num: series int => series float']]),
+    ...['entry_bar_index', 'entry_time'].map(field => [`strategy.${pool}.${field}`, ['trade_num: series int => series int']]),
+    ...['entry_id', 'entry_comment'].map(field => [`strategy.${pool}.${field}`, ['trade_num: series int => series string']])
+  ])),
+
+  // Other symbols and timeframes
+  'request.security': [
+    'symbol: series string, timeframe: series string, expression: series any, gaps?: simple any, lookahead?: simple any, ' +
+    'ignore_invalid_symbol?: series bool, currency?: series string, calc_bars_count?: simple int => series any'
+  ],
+  'request.security_lower_tf': [
+    'symbol: series string, timeframe: series string, expression: series any, ignore_invalid_symbol?: series bool, ' +
+    'currency?: series string, ignore_invalid_timeframe?: series bool, calc_bars_count?: simple int => series any'
+  ],
+  'request.financial': [
+    'symbol: series string, financial_id: series string, period: series string, gaps?: simple any, ' +
+    'ignore_invalid_symbol?: input bool, currency?: series string => series float'
+  ],
+  'request.economic': ['country_code: series string, field: series string, gaps?: simple any, ignore_invalid_symbol?: input bool => series float'],
+  'request.currency_rate': ['from: series string, to: series string, ignore_invalid_currency?: series bool => series float'],
+  'request.dividends': ['ticker: series string, field?: input any, gaps?: simple any, lookahead?: simple any, ignore_invalid_symbol?: input bool, currency?: series string => series float'],
+  'request.earnings': ['ticker: series string, field?: input any, gaps?: simple any, lookahead?: simple any, ignore_invalid_symbol?: input bool, currency?: series string => series float'],
+  'request.splits': ['ticker: series string, field: input any, gaps?: simple any, lookahead?: simple any, ignore_invalid_symbol?: input bool => series float'],
+  'request.seed': ['source: series string, symbol: series string, expression: series any, ignore_invalid_symbol?: input bool, calc_bars_count?: simple int => series any']
+};
+
+function parseValueType(spec: string): ReturnSpec {
+  const parts = spec.trim().split(/\s+/);
+  return parts.length === 2
+    ? { qualifier: parts[0] as TypeQualifier, type: parts[1] as PineBaseType }
+    : { type: parts[0] as PineBaseType };
+}
+
+function parseParameter(spec: string): ParameterSpec {
+  const match = spec.trim().match(/^(\.\.\.)?(\w+)(\?)?:\s*(.+)$/);
+  if (!match) {
+    throw new Error(`Malformed parameter spec "${spec}"`);
+  }
+  const { type, qualifier } = parseValueType(match[4]);
+  return { name: match[2], type, qualifier: qualifier ?? 'series', optional: !!match[3] || !!match[1], rest: !!match[1] };
+}
+
+function parseSignature(spec: string): FunctionSignature {
+  const [paramList, returnSpec] = spec.split('=>').map(part => part.trim());
+  const returns = returnSpec.replace(/^\[|\]$/g, '').split(',').map(parseValueType);
+  return { params: paramList ? paramList.split(',').map(parseParameter) : [], returns };
+}
+
+const FUNCTIONS = new Map(Object.entries(FUNCTION_SPECS).map(([name, specs]) => [name, specs.map(parseSignature)]));
+
+const VARIABLES = new Map(Object.entries(VARIABLE_SPECS).map(([name, spec]) => {
+  const { type, qualifier } = parseValueType(spec);
+  return [name, { type, qualifier: qualifier ?? 'series' } as PineValueType];
+}));
+
+/**
+ * Overloads of a built-in function by its dotted name (ta.sma, strategy.entry)
+ */
+export function getBuiltinFunction(name: string): FunctionSignature[] | undefined {
+  return FUNCTIONS.get(name);
+}
+
+/**
+ * Type of a built-in variable or constant by its dotted name (close, strategy.long)
+ */
+export function getBuiltinVariable(name: string): PineValueType | undefined {
+  return VARIABLES.get(name);
+}
+
+/**
+ * Dotted names of every built-in function and variable, for spelling suggestions
+ */
+export function listBuiltinNames(): string[] {
+  return [...Array.from(FUNCTIONS.keys()), ...Array.from(VARIABLES.keys())];
+}
@@ -0,0 +1,799 @@
+/**
+ * Pine Script Parser - Semantic Checker
+ *
+ * Walks a parsed program the way the Pine compiler does: resolves
+ * identifiers through nested scopes, infers the type (int, float, bool,
+ * color, string) and qualifier (const, input, simple, series) of every
+ * expression, and checks calls against the built-in signature table.
+ * Reports carry the exact source range and, where the intent is clear, a
+ * replacement that fixes them.
+ */
+
+import { walk } from './ast';
+import type {
+  CallExpression,
+  Expression,
+  FunctionDeclaration,
+  Identifier,
+  IfStatement,
+  Parameter,
+  PineDiagnostic,
+  Program,
+  SourceRange,
+  Statement,
+  SwitchStatement,
+  TypeNode,
+  TypeQualifier,
+  VariableDeclaration
+} from './ast';
+import {
+  BUILTIN_NAMESPACES,
+  CHECKED_NAMESPACES,
+  QUALIFIER_RANK,
+  getBuiltinFunction,
+  getBuiltinVariable,
+  listBuiltinNames
+} from './builtins';
+import type { FunctionSignature, ParameterSpec, PineBaseType, PineValueType } from './builtins';
+
+export interface SemanticFix {
+  title: string;
+  replacement: string;
+  range: SourceRange;
+}
+
+export interface SemanticDiagnostic extends PineDiagnostic {
+  severity: 'error' | 'warning';
+  code: string;
+  fix?: SemanticFix;
+}
+
+interface VariableSymbol {
+  kind: 'variable';
+  value: PineValueType;
+}
+
+interface FunctionSymbol {
+  kind: 'function';
+  params: Parameter[];
+  returns: PineValueType;
+}
+
+// Imported libraries, user-defined types and enums: only valid before a dot
+interface NamespaceSymbol {
+  kind: 'namespace';
+}
+
+type PineSymbol = VariableSymbol | FunctionSymbol | NamespaceSymbol;
+
+interface CheckedArgument {
+  name?: Identifier;
+  expression: Expression;
+  value: PineValueType;
+  range: SourceRange;
+}
+
+const ANY: PineValueType = { type: 'any', qualifier: 'series' };
+const VOID: PineValueType = { type: 'void', qualifier: 'const' };
+// Result of an expression that was already reported, so one mistake does not cascade
+const UNKNOWN: PineValueType = { type: 'any', qualifier: 'const' };
+const PRIMITIVE_TYPES: PineBaseType[] = ['int', 'float', 'bool', 'color', 'string'];
+
+function describeType(value: PineValueType): string {
+  return value.type === 'na' ? 'na' : `${value.qualifier} ${value.type}`;
+}
+
+function strongest(qualifiers: TypeQualifier[]): TypeQualifier {
+  return qualifiers.reduce<TypeQualifier>((max, qualifier) => QUALIFIER_RANK[qualifier] > QUALIFIER_RANK[max] ? qualifier : max, 'const');
+}
+
+function isNumeric(value: PineValueType): boolean {
+  return ['int', 'float', 'any', 'na'].includes(value.type);
+}
+
+function isBoolLike(value: PineValueType): boolean {
+  return ['bool', 'any', 'na'].includes(value.type);
+}
+
+function isAssignable(value: PineValueType, expected: PineBaseType): boolean {
+  if (expected === 'any' || value.type === 'any' || value.type === 'na') return !value.elements || expected === 'any';
+  if (expected === 'float' || expected === 'number') return value.type === 'int' || value.type === 'float';
+  return value.type === expected;
+}
+
+function toBaseType(type: TypeNode): PineBaseType {
+  return type.args.length === 0 && !type.isArrayShorthand && PRIMITIVE_TYPES.includes(type.name as PineBaseType)
+    ? type.name as PineBaseType
+    : 'any';
+}
+
+// Branches of an if or switch: int and float widen to float, anything else mixed is untyped
+function unify(values: PineValueType[]): PineValueType {
+  const typed = values.filter(value => value.type !== 'na' && value.type !== 'void');
+  const qualifier = strongest(values.map(value => value.qualifier));
+  if (typed.length === 0) return values.length > 0 ? { type: values[0].type, qualifier } : VOID;
+  const types = new Set(typed.map(value => value.type));
+  if (types.size === 1) return { type: typed[0].type, qualifier };
+  if (types.size === 2 && types.has('int') && types.has('float')) return { type: 'float', qualifier };
+  return { type: 'any', qualifier };
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function closestName(name: string, candidates: string[]): string | undefined {
+  const limit = name.length <= 4 ? 1 : 2;
+  let best: string | undefined;
+  let bestDistance = limit + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+class Checker {
+  private diagnostics: SemanticDiagnostic[] = [];
+  private scopes: Map<string, PineSymbol>[] = [new Map()];
+  private reassigned = new Set<string>();
+  private loopDepth = 0;
+  private strictBool: boolean;
+
+  constructor(private program: Program, private source: string) {
+    // v6 dropped the implicit int/float to bool conversion
+    this.strictBool = program.version === null || program.version >= 6;
+  }
+
+  public check(): SemanticDiagnostic[] {
+    // Variables reassigned anywhere with := can change on every bar, so they are series
+    walk(this.program, node => {
+      if (node.kind === 'Assignment' && node.target.kind === 'Identifier') {
+        this.reassigned.add(node.target.name);
+      }
+    });
+
+    this.program.body.forEach(statement => this.checkStatement(statement));
+    return this.diagnostics.sort((a, b) => a.range.start.offset - b.range.start.offset);
+  }
+
+  // ===========================================================================
+  // Scopes
+  // ===========================================================================
+
+  private lookup(name: string): PineSymbol | undefined {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const symbol = this.scopes[i].get(name);
+      if (symbol) return symbol;
+    }
+    return undefined;
+  }
+
+  private declare(name: Identifier, symbol: PineSymbol, fix?: SemanticFix): void {
+    const scope = this.scopes[this.scopes.length - 1];
+    if (scope.get(name.name)?.kind === 'variable' && symbol.kind === 'variable') {
+      this.report('error', 'redeclared_variable', `"${name.name}" is already declared in this scope; use := to reassign it`, name.range, fix);
+      return;
+    }
+    scope.set(name.name, symbol);
+  }
+
+  private inScope<T>(setup: (scope: Map<string, PineSymbol>) => void, body: () => T): T {
+    const scope = new Map<string, PineSymbol>();
+    setup(scope);
+    this.scopes.push(scope);
+    try {
+      return body();
+    } finally {
+      this.scopes.pop();
+    }
+  }
+
+  private visibleNames(): string[] {
+    const names = this.scopes.flatMap(scope => Array.from(scope.keys()));
+    return [...names, ...listBuiltinNames().filter(name => !name.includes('.'))];
+  }
+
+  // ===========================================================================
+  // Statements
+  // ===========================================================================
+
+  private checkStatement(statement: Statement): PineValueType {
+    switch (statement.kind) {
+      case 'VariableDeclaration':
+        return this.checkVariableDeclaration(statement);
+      case 'TupleDeclaration': {
+        const value = this.infer(statement.init);
+        if (value.elements && value.elements.length !== statement.names.length) {
+          this.report('error', 'tuple_size', `The expression returns ${value.elements.length} values but ${statement.names.length} names were declared`, statement.range);
+        }
+        statement.names.forEach((name, index) => {
+          const element = value.elements?.[index] ?? ANY;
+          this.declare(name, { kind: 'variable', value: this.reassigned.has(name.name) ? { ...element, qualifier: 'series' } : element });
+        });
+        return value;
+      }
+      case 'Assignment':
+        return this.checkAssignment(statement);
+      case 'FunctionDeclaration':
+        this.checkFunction(statement);
+        return VOID;
+      case 'TypeDeclaration':
+        statement.fields.forEach(field => field.defaultValue && this.infer(field.defaultValue));
+        this.declare(statement.name, { kind: 'namespace' });
+        return VOID;
+      case 'EnumDeclaration':
+        this.declare(statement.name, { kind: 'namespace' });
+        return VOID;
+      case 'Import': {
+        // Without an alias the library is referenced by its name: TradingView/ta/7 -> ta
+        const name = statement.alias ?? { kind: 'Identifier', name: statement.path.split('/')[1] ?? statement.path, range: statement.range };
+        this.declare(name as Identifier, { kind: 'namespace' });
+        return VOID;
+      }
+      case 'Break':
+      case 'Continue':
+        if (this.loopDepth === 0) {
+          this.report('error', 'loop_control', `"${statement.kind.toLowerCase()}" can only be used inside a loop`, statement.range);
+        }
+        return VOID;
+      case 'ExpressionStatement':
+        return this.infer(statement.expression);
+      default:
+        return this.infer(statement);
+    }
+  }
+
+  private checkBlock(body: Statement[], setup: (scope: Map<string, PineSymbol>) => void = () => undefined): PineValueType {
+    return this.inScope(setup, () => {
+      let value = VOID;
+      body.forEach(statement => {
+        value = this.checkStatement(statement);
+      });
+      return value;
+    });
+  }
+
+  private checkVariableDeclaration(declaration: VariableDeclaration): PineValueType {
+    const { name, init } = declaration;
+    const value = this.infer(init);
+    const declaredType = declaration.type ? toBaseType(declaration.type) : undefined;
+
+    if (!declaredType && value.type === 'na') {
+      this.report('error', 'untyped_na', `Cannot infer the type of "${name.name}" from na; declare it with a type, e.g. float ${name.name} = na`, init.range);
+    } else if (declaredType && !isAssignable(value, declaredType)) {
+      this.report('error', 'assignment_type', `Cannot assign a ${describeType(value)} value to "${name.name}", which is declared as ${declaredType}`, init.range);
+    }
+    if (declaration.qualifier && QUALIFIER_RANK[value.qualifier] > QUALIFIER_RANK[declaration.qualifier]) {
+      this.report(
+        'error',
+        'assignment_qualifier',
+        `"${name.name}" is declared ${declaration.qualifier} but is assigned a ${value.qualifier} value`,
+        init.range
+      );
+    }
+
+    const qualifier = declaration.qualifier ?? (declaration.mode || this.reassigned.has(name.name) ? 'series' : value.qualifier);
+    const type = declaredType ?? (value.type === 'na' ? 'any' : value.type);
+    const isPlainDeclaration = !declaration.mode && !declaration.type && !declaration.qualifier;
+    this.declare(name, { kind: 'variable', value: { type, qualifier } }, isPlainDeclaration ? {
+      title: 'Reassign with :=',
+      replacement: ' := ',
+      range: { start: name.range.end, end: init.range.start }
+    } : undefined);
+    return { type, qualifier };
+  }
+
+  private checkAssignment(statement: Statement & { kind: 'Assignment' }): PineValueType {
+    const { target, operator } = statement;
+    const value = this.infer(statement.value);
+    if (target.kind === 'Member') {
+      this.infer(target.object);
+      return value;
+    }
+
+    const symbol = this.lookup(target.name);
+    if (!symbol) {
+      if (getBuiltinVariable(target.name)) {
+        this.report('error', 'builtin_reassignment', `Cannot reassign the built-in variable "${target.name}"`, target.range);
+      } else {
+        this.report('error', 'undeclared_identifier', `Cannot reassign undeclared variable "${target.name}"`, target.range, operator === ':=' ? {
+          title: 'Declare with =',
+          replacement: ' = ',
+          range: { start: target.range.end, end: statement.value.range.start }
+        } : undefined);
+      }
+      return value;
+    }
+    if (symbol.kind !== 'variable') {
+      this.report('error', 'assignment_type', `"${target.name}" is not a variable`, target.range);
+      return value;
+    }
+
+    const current = symbol.value;
+    if (operator === ':=') {
+      if (!isAssignable(value, current.type === 'number' ? 'float' : current.type)) {
+        this.report('error', 'assignment_type', `Cannot assign a ${describeType(value)} value to "${target.name}", which holds ${current.type}`, statement.value.range);
+      }
+    } else {
+      const isConcatenation = operator === '+=' && current.type === 'string' && isAssignable(value, 'string');
+      if (!isConcatenation && (!isNumeric(current) || !isNumeric(value))) {
+        this.report('error', 'operator_type', `Operator "${operator}" cannot be applied to ${describeType(current)} and ${describeType(value)}`, statement.range);
+      } else if (current.type === 'int' && (value.type === 'float' || operator === '/=')) {
+        this.report('error', 'assignment_type', `"${target.name}" holds int and cannot store the float result of "${operator}"`, statement.range);
+      }
+    }
+    return current;
+  }
+
+  private checkFunction(declaration: FunctionDeclaration): void {
+    declaration.params.forEach(param => param.defaultValue && this.infer(param.defaultValue));
+
+    const outerLoopDepth = this.loopDepth;
+    this.loopDepth = 0;
+    const returns = this.inScope(scope => {
+      declaration.params.forEach(param => scope.set(param.name.name, {
+        kind: 'variable',
+        value: { type: param.type ? toBaseType(param.type) : 'any', qualifier: param.qualifier ?? 'series' }
+      }));
+    }, () => declaration.body.kind === 'Block' ? this.checkBlock(declaration.body.body) : this.infer(declaration.body));
+    this.loopDepth = outerLoopDepth;
+
+    // Methods are called on a value, so they never shadow anything in scope
+    if (!declaration.isMethod) {
+      this.declare(declaration.name, { kind: 'function', params: declaration.params, returns });
+    }
+  }
+
+  // ===========================================================================
+  // Expressions
+  // ===========================================================================
+
+  private infer(expression: Expression): PineValueType {
+    switch (expression.kind) {
+      case 'Number':
+        return { type: expression.isInteger ? 'int' : 'float', qualifier: 'const' };
+      case 'String':
+        return { type: 'string', qualifier: 'const' };
+      case 'Bool':
+        return { type: 'bool', qualifier: 'const' };
+      case 'Color':
+        return { type: 'color', qualifier: 'const' };
+      case 'Na':
+        return { type: 'na', qualifier: 'const' };
+      case 'Identifier':
+        return this.inferIdentifier(expression);
+      case 'Member':
+        return this.inferMember(expression);
+      case 'Call':
+        return this.checkCall(expression);
+      case 'History': {
+        const target = this.infer(expression.target);
+        const offset = this.infer(expression.offset);
+        if (!isNumeric(offset)) {
+          this.report('error', 'operator_type', `The history offset must be an int, not ${describeType(offset)}`, expression.offset.range);
+        }
+        return { type: target.type, qualifier: 'series' };
+      }
+      case 'Unary': {
+        const operand = this.infer(expression.operand);
+        if (expression.operator === 'not') {
+          this.checkBoolOperand(expression.operator, operand, expression.operand.range);
+          return { type: 'bool', qualifier: operand.qualifier };
+        }
+        if (!isNumeric(operand)) {
+          this.report('error', 'operator_type', `Operator "${expression.operator}" cannot be applied to ${describeType(operand)}`, expression.range);
+        }
+        return operand;
+      }
+      case 'Binary':
+        return this.inferBinary(expression);
+      case 'Conditional': {
+        const test = this.checkCondition(expression.test);
+        const value = unify([this.infer(expression.consequent), this.infer(expression.alternate)]);
+        // A value chosen by a series condition is series too
+        return { ...value, qualifier: strongest([value.qualifier, test.qualifier]) };
+      }
+      case 'Tuple': {
+        const elements = expression.elements.map(element => this.infer(element));
+        return { type: 'any', qualifier: strongest(elements.map(element => element.qualifier)), elements };
+      }
+      case 'Parenthesized':
+        return this.infer(expression.expression);
+      case 'If':
+        return this.checkIf(expression);
+      case 'Switch':
+        return this.checkSwitch(expression);
+      case 'For':
+        this.infer(expression.from);
+        this.infer(expression.to);
+        if (expression.step) this.infer(expression.step);
+        this.checkLoopBody(expression.body.body, scope => {
+          scope.set(expression.counter.name, { kind: 'variable', value: { type: 'int', qualifier: 'series' } });
+        });
+        return ANY;
+      case 'ForIn':
+        this.infer(expression.iterable);
+        this.checkLoopBody(expression.body.body, scope => {
+          if (expression.index) scope.set(expression.index.name, { kind: 'variable', value: { type: 'int', qualifier: 'series' } });
+          scope.set(expression.item.name, { kind: 'variable', value: ANY });
+        });
+        return ANY;
+      case 'While':
+        this.checkCondition(expression.test);
+        this.checkLoopBody(expression.body.body);
+        return ANY;
+    }
+  }
+
+  private inferIdentifier(identifier: Identifier): PineValueType {
+    const symbol = this.lookup(identifier.name);
+    if (symbol) {
+      return symbol.kind === 'variable' ? symbol.value : ANY;
+    }
+    const builtin = getBuiltinVariable(identifier.name);
+    if (builtin) return builtin;
+    if (BUILTIN_NAMESPACES.includes(identifier.name) || getBuiltinFunction(identifier.name)) return ANY;
+
+    const suggestion = closestName(identifier.name, this.visibleNames());
+    this.report('error', 'undeclared_identifier', `Undeclared identifier "${identifier.name}"`, identifier.range, suggestion ? {
+      title: `Change to "${suggestion}"`,
+      replacement: suggestion,
+      range: identifier.range
+    } : undefined);
+    return UNKNOWN;
+  }
+
+  private inferMember(member: Expression & { kind: 'Member' }): PineValueType {
+    const path = this.memberPath(member);
+    const root = path?.split('.')[0];
+    if (!path || !root || this.lookup(root)) {
+      // Fields of user values, enum members and library exports are not typed here
+      this.infer(member.object);
+      return ANY;
+    }
+
+    const builtin = getBuiltinVariable(path);
+    if (builtin) return builtin;
+    if (getBuiltinFunction(path)) {
+      this.report('error', 'missing_parentheses', `"${path}" is a function and must be called with parentheses`, member.range);
+      return UNKNOWN;
+    }
+    if (!BUILTIN_NAMESPACES.includes(root)) {
+      this.infer(member.object);
+      return ANY;
+    }
+    // Constants not in the table, such as shape.triangleup or strategy.commission.percent
+    return { type: 'any', qualifier: 'const' };
+  }
+
+  private inferBinary(expression: Expression & { kind: 'Binary' }): PineValueType {
+    const { operator } = expression;
+    const left = this.infer(expression.left);
+    const right = this.infer(expression.right);
+    const qualifier = strongest([left.qualifier, right.qualifier]);
+    const mismatch = () => this.report(
+      'error',
+      'operator_type',
+      `Operator "${operator}" cannot be applied to ${describeType(left)} and ${describeType(right)}`,
+      expression.range
+    );
+
+    switch (operator) {
+      case 'and':
+      case 'or':
+        this.checkBoolOperand(operator, left, expression.left.range);
+        this.checkBoolOperand(operator, right, expression.right.range);
+        return { type: 'bool', qualifier };
+      case '==':
+      case '!=':
+        if (!isAssignable(left, right.type) && !isAssignable(right, left.type)) mismatch();
+        return { type: 'bool', qualifier };
+      case '<':
+      case '>':
+      case '<=':
+      case '>=':
+        if (!isNumeric(left) || !isNumeric(right)) mismatch();
+        return { type: 'bool', qualifier };
+      default: {
+        if (operator === '+' && (left.type === 'string' || right.type === 'string')) {
+          if (!isAssignable(left, 'string') || !isAssignable(right, 'string')) mismatch();
+          return { type: 'string', qualifier };
+        }
+        if (!isNumeric(left) || !isNumeric(right)) {
+          mismatch();
+          return { type: 'any', qualifier };
+        }
+        if (left.type === 'any' || right.type === 'any') return { type: 'any', qualifier };
+        // Division always yields a float in v6, even for two ints
+        const type = operator !== '/' && left.type === 'int' && right.type === 'int' ? 'int' : 'float';
+        return { type, qualifier };
+      }
+    }
+  }
+
+  private checkIf(statement: IfStatement): PineValueType {
+    const test = this.checkCondition(statement.test);
+    const branches = [this.checkBlock(statement.consequent.body)];
+    if (statement.alternate) {
+      branches.push(statement.alternate.kind === 'If' ? this.checkIf(statement.alternate) : this.checkBlock(statement.alternate.body));
+    }
+    const value = unify(branches);
+    return { ...value, qualifier: strongest([value.qualifier, test.qualifier]) };
+  }
+
+  private checkSwitch(statement: SwitchStatement): PineValueType {
+    if (statement.discriminant) this.infer(statement.discriminant);
+    const branches = statement.cases.map(branch => {
+      if (branch.test) {
+        if (statement.discriminant) {
+          this.infer(branch.test);
+        } else {
+          this.checkCondition(branch.test);
+        }
+      }
+      return branch.body.kind === 'Block' ? this.checkBlock(branch.body.body) : this.infer(branch.body);
+    });
+    return unify(branches);
+  }
+
+  private checkLoopBody(body: Statement[], setup?: (scope: Map<string, PineSymbol>) => void): void {
+    this.loopDepth++;
+    this.checkBlock(body, setup);
+    this.loopDepth--;
+  }
+
+  private checkCondition(test: Expression): PineValueType {
+    const value = this.infer(test);
+    if (this.strictBool && !isBoolLike(value)) {
+      this.report('error', 'condition_type', `Condition must be bool, but a ${describeType(value)} value was given`, test.range);
+    }
+    return value;
+  }
+
+  private checkBoolOperand(operator: string, value: PineValueType, range: SourceRange): void {
+    if (this.strictBool && !isBoolLike(value)) {
+      this.report('error', 'operator_type', `Operator "${operator}" expects bool operands, but a ${describeType(value)} value was given`, range);
+    }
+  }
+
+  // ===========================================================================
+  // Calls
+  // ===========================================================================
+
+  private checkCall(call: CallExpression): PineValueType {
+    const args: CheckedArgument[] = call.args.map(arg => ({
+      name: arg.name,
+      expression: arg.value,
+      value: this.infer(arg.value),
+      range: arg.range
+    }));
+    const path = this.memberPath(call.callee);
+    const root = path?.split('.')[0];
+
+    if (!path || !root) {
+      this.infer(call.callee);
+      return ANY;
+    }
+
+    const symbol = this.lookup(root);
+    if (symbol) {
+      if (symbol.kind === 'function' && call.callee.kind === 'Identifier') {
+        return this.checkSignatures(path, [this.toSignature(symbol)], call, args);
+      }
+      if (symbol.kind === 'variable' && call.callee.kind === 'Identifier') {
+        this.report('error', 'not_a_function', `"${path}" is a variable, not a function`, call.callee.range);
+      }
+      // Method calls on user values and calls into imported libraries
+      return ANY;
+    }
+
+    const signatures = getBuiltinFunction(path);
+    if (signatures) {
+      const result = this.checkSignatures(path, signatures, call, args);
+      if (path === 'request.security') this.checkLookahead(args);
+      return result;
+    }
+
+    if (call.callee.kind === 'Identifier') {
+      const suggestion = closestName(path, [...this.visibleNames(), ...listBuiltinNames()]);
+      this.report('error', 'undeclared_identifier', `Undeclared function "${path}"`, call.callee.range, suggestion ? {
+        title: `Change to "${suggestion}"`,
+        replacement: suggestion,
+        range: call.callee.range
+      } : undefined);
+      return UNKNOWN;
+    }
+    if (CHECKED_NAMESPACES.includes(root)) {
+      const siblings = listBuiltinNames().filter(name => name.startsWith(`${root}.`)).map(name => name.slice(root.length + 1));
+      const suggestion = closestName(path.slice(root.length + 1), siblings);
+      this.report('error', 'unknown_function', `Unknown function "${path}"`, call.callee.range, suggestion ? {
+        title: `Change to "${root}.${suggestion}"`,
+        replacement: `${root}.${suggestion}`,
+        range: call.callee.range
+      } : undefined);
+      return UNKNOWN;
+    }
+    // Functions of the other built-in namespaces (label.new, table.cell) are not typed here
+    return BUILTIN_NAMESPACES.includes(root) ? ANY : this.infer(call.callee);
+  }
+
+  private toSignature(symbol: FunctionSymbol): FunctionSignature {
+    return {
+      params: symbol.params.map(param => ({
+        name: param.name.name,
+        type: param.type ? toBaseType(param.type) : 'any',
+        qualifier: param.qualifier ?? 'series',
+        optional: !!param.defaultValue,
+        rest: false
+      })),
+      returns: symbol.returns.elements
+        ? symbol.returns.elements.map(element => ({ type: element.type, qualifier: 'series' }))
+        : [{ type: symbol.returns.type, qualifier: symbol.returns.type === 'void' ? 'const' : 'series' }]
+    };
+  }
+
+  /**
+   * Resolves an overloaded call: the first overload the arguments fit wins,
+   * otherwise the problems of the closest one are reported.
+   */
+  private checkSignatures(name: string, signatures: FunctionSignature[], call: CallExpression, args: CheckedArgument[]): PineValueType {
+    let best: { issues: SemanticDiagnostic[]; result: PineValueType } | undefined;
+    for (const signature of signatures) {
+      const attempt = this.matchSignature(name, signature, call, args);
+      if (attempt.issues.length === 0) return attempt.result;
+      if (!best || attempt.issues.length < best.issues.length) best = attempt;
+    }
+    this.diagnostics.push(...best!.issues);
+    return best!.result;
+  }
+
+  private matchSignature(
+    name: string,
+    signature: FunctionSignature,
+    call: CallExpression,
+    args: CheckedArgument[]
+  ): { issues: SemanticDiagnostic[]; result: PineValueType } {
+    const issues: SemanticDiagnostic[] = [];
+    const issue = (code: string, message: string, range: SourceRange) => issues.push({ severity: 'error', code, message, range });
+    const bound = new Set<ParameterSpec>();
+    const { params } = signature;
+    let position = 0;
+
+    for (const arg of args) {
+      let param: ParameterSpec | undefined;
+      if (arg.name) {
+        param = params.find(candidate => candidate.name === arg.name!.name && !candidate.rest);
+        if (!param) {
+          issue('unknown_argument', `"${name}" has no parameter named "${arg.name.name}"`, arg.name.range);
+          continue;
+        }
+        if (bound.has(param)) {
+          issue('argument_count', `Argument "${param.name}" of "${name}" is given more than once`, arg.range);
+          continue;
+        }
+      } else {
+        param = params[position];
+        if (!param) {
+          issue('argument_count', `Too many arguments for "${name}", which takes at most ${params.length}`, arg.range);
+          continue;
+        }
+        if (!param.rest) position++;
+      }
+      bound.add(param);
+
+      if (!isAssignable(arg.value, param.type)) {
+        issue('argument_type', `Argument "${param.name}" of "${name}" expects ${param.type}, but a ${describeType(arg.value)} value was given`, arg.expression.range);
+      } else if (QUALIFIER_RANK[arg.value.qualifier] > QUALIFIER_RANK[param.qualifier]) {
+        issue(
+          'argument_qualifier',
+          `Argument "${param.name}" of "${name}" must be ${param.qualifier} ${param.type}, but a ${describeType(arg.value)} value was given`,
+          arg.expression.range
+        );
+      }
+    }
+
+    const missing = params.filter(param => !param.optional && !bound.has(param));
+    if (missing.length > 0) {
+      issue('argument_count', `Missing required argument${missing.length > 1 ? 's' : ''} ${missing.map(param => `"${param.name}"`).join(', ')} for "${name}"`, call.range);
+    }
+
+    const qualifier = strongest(args.map(arg => arg.value.qualifier));
+    const numbers = args.filter(arg => arg.value.type === 'int' || arg.value.type === 'float');
+    const elements = signature.returns.map(result => {
+      let type = result.type;
+      if (type === 'number') type = numbers.every(arg => arg.value.type === 'int') ? 'int' : 'float';
+      // An unqualified any result has the type of the first argument, as in nz(x)
+      if (type === 'any' && !result.qualifier && args[0]) type = args[0].value.type;
+      return { type, qualifier: result.qualifier ?? qualifier };
+    });
+    const result = elements.length > 1
+      ? { type: 'any' as const, qualifier: strongest(elements.map(element => element.qualifier)), elements }
+      : elements[0];
+    return { issues, result };
+  }
+
+  /**
+   * request.security with lookahead_on returns the higher timeframe's final
+   * value on every bar of that period, which is only safe for values that are
+   * already confirmed: the expression must be offset into the past.
+   */
+  private checkLookahead(args: CheckedArgument[]): void {
+    const positional = args.filter(arg => !arg.name);
+    const lookahead = args.find(arg => arg.name?.name === 'lookahead') ?? positional[4];
+    const expression = args.find(arg => arg.name?.name === 'expression') ?? positional[2];
+    if (!lookahead || !expression) return;
+
+    const isLookaheadOn = this.memberPath(lookahead.expression) === 'barmerge.lookahead_on' ||
+      (lookahead.expression.kind === 'Bool' && lookahead.expression.value);
+    if (!isLookaheadOn || this.isOffset(expression.expression)) return;
+
+    this.report(
+      'warning',
+      'lookahead_bias',
+      'request.security() with lookahead_on reads bars that have not closed yet; offset the expression by [1] to avoid repainting',
+      expression.expression.range,
+      { title: 'Offset the expression by one bar', replacement: this.offsetText(expression.expression), range: expression.expression.range }
+    );
+  }
+
+  private isOffset(expression: Expression): boolean {
+    if (expression.kind === 'Parenthesized') return this.isOffset(expression.expression);
+    if (expression.kind === 'Tuple') return expression.elements.every(element => this.isOffset(element));
+    return expression.kind === 'History' && !(expression.offset.kind === 'Number' && expression.offset.value === 0);
+  }
+
+  private offsetText(expression: Expression): string {
+    if (expression.kind === 'Tuple') {
+      return `[${expression.elements.map(element => this.isOffset(element) ? this.text(element.range) : this.offsetText(element)).join(', ')}]`;
+    }
+    if (expression.kind === 'History') return `${this.text(expression.target.range)}[1]`;
+    const isPostfix = ['Identifier', 'Member', 'Call', 'Parenthesized'].includes(expression.kind);
+    return isPostfix ? `${this.text(expression.range)}[1]` : `(${this.text(expression.range)})[1]`;
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  // Dotted name of a callee or member chain: ta.sma, strategy.risk.max_drawdown
+  private memberPath(expression: Expression): string | null {
+    if (expression.kind === 'Identifier') return expression.name;
+    if (expression.kind === 'Member') {
+      const object = this.memberPath(expression.object);
+      return object ? `${object}.${expression.property.name}` : null;
+    }
+    return null;
+  }
+
+  private text(range: SourceRange): string {
+    return this.source.slice(range.start.offset, range.end.offset);
+  }
+
+  private report(severity: SemanticDiagnostic['severity'], code: string, message: string, range: SourceRange, fix?: SemanticFix): void {
+    const diagnostic: SemanticDiagnostic = { severity, code, message, range };
+    if (fix) diagnostic.fix = fix;
+    this.diagnostics.push(diagnostic);
+  }
+}
+
+/**
+ * Semantic errors and warnings for a parsed program. Pass the same source
+ * the program was parsed from; fixes quote it.
+ */
+export function checkPine(program: Program, source: string): SemanticDiagnostic[] {
+  return new Checker(program, source.replace(/\r\n?/g, '\n')).check();
+}
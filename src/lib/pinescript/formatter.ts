@@ -0,0 +1,623 @@
+/**
+ * Pine Script Parser - Formatter
+ *
+ * Prints a parsed program back in one canonical layout: blocks indented by
+ * four spaces (or tabs), single spaces around operators and after commas,
+ * named arguments written as name=value, runs of blank lines collapsed, and
+ * calls that overflow the line limit wrapped one argument per line.
+ * Comments keep their place: own-line comments stay before the code that
+ * followed them and trailing comments stay at the end of their line.
+ * Related inputs get group= and inline= so the settings dialog shows them
+ * together. The output parses to the same program, and formatting it again
+ * changes nothing.
+ */
+
+import { parsePine } from './parser';
+import { INDENT_WIDTH } from './lexer';
+import type {
+  Argument,
+  CallExpression,
+  Comment,
+  EnumDeclaration,
+  Expression,
+  ForInStatement,
+  ForStatement,
+  FunctionDeclaration,
+  IfStatement,
+  Parameter,
+  PineDiagnostic,
+  Program,
+  Statement,
+  SwitchStatement,
+  TypeDeclaration,
+  TypeNode,
+  VariableDeclaration,
+  WhileStatement
+} from './ast';
+
+export interface PineFormatOptions {
+  maxLineLength: number; // Longer calls are wrapped one argument per line
+  continuationIndent: number; // Spaces before wrapped arguments, past the block indentation
+  indentWithTabs: boolean;
+  maxBlankLines: number; // Longer runs of blank lines are collapsed
+  groupInputs: boolean; // Add group= and inline= to related inputs that have none
+}
+
+export interface PineFormatResult {
+  code: string;
+  changed: boolean;
+  errors: PineDiagnostic[]; // Syntax errors; the code is returned unchanged when there are any
+}
+
+export const DEFAULT_FORMAT_OPTIONS: PineFormatOptions = {
+  maxLineLength: 100,
+  continuationIndent: 2,
+  indentWithTabs: false,
+  maxBlankLines: 1,
+  groupInputs: true
+};
+
+type Structure = IfStatement | SwitchStatement | ForStatement | ForInStatement | WhileStatement;
+
+const STRUCTURE_KINDS = ['If', 'Switch', 'For', 'ForIn', 'While'];
+
+// Input name suffixes shown side by side in the settings dialog
+const INLINE_PAIRS = [
+  ['start', 'end'],
+  ['from', 'to'],
+  ['min', 'max'],
+  ['upper', 'lower'],
+  ['fast', 'slow'],
+  ['long', 'short'],
+  ['overbought', 'oversold'],
+  ['overboughtlevel', 'oversoldlevel']
+];
+
+function isStructure(expression: Expression): expression is Structure {
+  return STRUCTURE_KINDS.includes(expression.kind);
+}
+
+function qualifiedName(expression: Expression): string | null {
+  if (expression.kind === 'Identifier') return expression.name;
+  if (expression.kind !== 'Member') return null;
+  const object = qualifiedName(expression.object);
+  return object === null ? null : `${object}.${expression.property.name}`;
+}
+
+function isInputCall(expression: Expression): expression is CallExpression {
+  if (expression.kind !== 'Call') return false;
+  const name = qualifiedName(expression.callee);
+  return name === 'input' || !!name?.startsWith('input.');
+}
+
+function stringLiteral(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+// rsi_14_period -> rsi_14, fastLength -> fast; null when the name has no prefix
+function namePrefix(name: string): string | null {
+  const underscore = name.lastIndexOf('_');
+  if (underscore > 0) return name.slice(0, underscore);
+  const camel = name.match(/^[a-z0-9]+(?=[A-Z])/);
+  return camel ? camel[0] : null;
+}
+
+// Leading words every title shares, without trailing separators
+function commonTitle(titles: string[]): string {
+  const words = titles.map(title => title.split(/\s+/));
+  const common: string[] = [];
+  for (let i = 0; words.every(list => i < list.length - 1 && list[i] === words[0][i]); i++) {
+    common.push(words[0][i]);
+  }
+  return common.join(' ').replace(/[\s:\-–]+$/, '');
+}
+
+class Formatter {
+  private source: string;
+  private program: Program;
+  private options: PineFormatOptions;
+  private lineStarts: number[] = [0];
+  private comments: Comment[];
+  private used: boolean[];
+  private lines: string[] = [];
+  private lastCodeLine = -1; // Output line that trailing comments attach to
+  private lastSourceLine = 0; // Source line of the last printed item, for blank lines
+  private atBlockStart = true;
+  private extraArguments = new Map<CallExpression, string[]>();
+
+  constructor(source: string, program: Program, options: PineFormatOptions) {
+    this.source = source;
+    this.program = program;
+    this.options = options;
+    this.comments = program.comments;
+    this.used = program.comments.map(() => false);
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') this.lineStarts.push(i + 1);
+    }
+    if (options.groupInputs) {
+      this.groupInputs();
+    }
+  }
+
+  public format(): string {
+    this.printStatements(this.program.body, 0, Infinity);
+    this.closeBlock(Infinity, 0, 0);
+    return this.lines.length > 0 ? `${this.lines.join('\n')}\n` : '';
+  }
+
+  // ===========================================================================
+  // Statements
+  // ===========================================================================
+
+  private printStatements(body: Statement[], depth: number, limit: number): void {
+    body.forEach((statement, index) => {
+      const next = index + 1 < body.length ? body[index + 1].range.start.offset : limit;
+      this.leadingComments(statement.range.start.offset, depth);
+      this.printStatement(statement, depth, next);
+    });
+  }
+
+  private printBlock(body: Statement[], depth: number, limit: number): void {
+    this.atBlockStart = true;
+    this.printStatements(body, depth, limit);
+    const first = body[0];
+    this.closeBlock(limit, depth, first ? this.sourceIndent(first.range.start.line) : 0);
+  }
+
+  private printStatement(statement: Statement, depth: number, next: number): void {
+    switch (statement.kind) {
+      case 'If':
+      case 'Switch':
+      case 'For':
+      case 'ForIn':
+      case 'While':
+        this.printStructure('', statement, depth, next);
+        return;
+      case 'VariableDeclaration':
+        if (isStructure(statement.init)) {
+          this.printStructure(`${this.declarationHead(statement)} = `, statement.init, depth, next);
+          return;
+        }
+        break;
+      case 'TupleDeclaration':
+        if (isStructure(statement.init)) {
+          this.printStructure(`[${statement.names.map(name => name.name).join(', ')}] = `, statement.init, depth, next);
+          return;
+        }
+        break;
+      case 'Assignment':
+        if (isStructure(statement.value)) {
+          this.printStructure(`${this.expression(statement.target)} ${statement.operator} `, statement.value, depth, next);
+          return;
+        }
+        break;
+      case 'FunctionDeclaration':
+        this.printFunction(statement, depth, next);
+        return;
+      case 'TypeDeclaration':
+      case 'EnumDeclaration':
+        this.printMembers(statement, depth, next);
+        return;
+    }
+
+    this.ownLineComments(statement.range.end.offset, depth, statement.range.start.line);
+    this.emit(this.simpleStatement(statement, depth), depth, statement.range.start.line);
+    this.trailingComments(Math.min(next, this.lineEnd(statement.range.end.line)));
+    this.lastSourceLine = statement.range.end.line;
+  }
+
+  // One logical line, wrapped when its value is a long call
+  private simpleStatement(statement: Statement, depth: number): string {
+    switch (statement.kind) {
+      case 'VariableDeclaration':
+        return this.wrap(`${this.declarationHead(statement)} = `, statement.init, depth);
+      case 'TupleDeclaration':
+        return this.wrap(`[${statement.names.map(name => name.name).join(', ')}] = `, statement.init, depth);
+      case 'Assignment':
+        return this.wrap(`${this.expression(statement.target)} ${statement.operator} `, statement.value, depth);
+      case 'ExpressionStatement':
+        return this.wrap('', statement.expression, depth);
+      case 'Import':
+        return `import ${statement.path}${statement.alias ? ` as ${statement.alias.name}` : ''}`;
+      case 'Break':
+        return 'break';
+      case 'Continue':
+        return 'continue';
+      default:
+        return this.source.slice(statement.range.start.offset, statement.range.end.offset);
+    }
+  }
+
+  // if/switch/for/while, as a statement or the value after a prefix such as "x = "
+  private printStructure(prefix: string, node: Structure, depth: number, next: number): void {
+    switch (node.kind) {
+      case 'If':
+        this.printIf(prefix, 'if', node, depth, next);
+        return;
+      case 'Switch':
+        this.printSwitch(prefix, node, depth, next);
+        return;
+      case 'For': {
+        const step = node.step ? ` by ${this.expression(node.step)}` : '';
+        this.printHeader(`${prefix}for ${node.counter.name} = ${this.expression(node.from)} to ${this.expression(node.to)}${step}`,
+          node.range.start.line, (node.step || node.to).range.end, depth, next);
+        break;
+      }
+      case 'ForIn': {
+        const names = node.index ? `[${node.index.name}, ${node.item.name}]` : node.item.name;
+        this.printHeader(`${prefix}for ${names} in ${this.expression(node.iterable)}`,
+          node.range.start.line, node.iterable.range.end, depth, next);
+        break;
+      }
+      case 'While':
+        this.printHeader(`${prefix}while ${this.expression(node.test)}`, node.range.start.line, node.test.range.end, depth, next);
+        break;
+    }
+    this.printBlock(node.body.body, depth + 1, next);
+  }
+
+  private printIf(prefix: string, keyword: string, node: IfStatement, depth: number, next: number): void {
+    const alternate = node.alternate;
+    const elseOffset = alternate ? this.findElse(node.consequent.range.end.line, alternate.range.start.line) : next;
+
+    this.printHeader(`${prefix}${keyword} ${this.expression(node.test)}`, node.range.start.line, node.test.range.end, depth, next);
+    this.printBlock(node.consequent.body, depth + 1, elseOffset);
+    if (!alternate) return;
+
+    this.leadingComments(elseOffset, depth);
+    if (alternate.kind === 'If') {
+      this.printIf('', 'else if', alternate, depth, next);
+      return;
+    }
+    const elseLine = this.lineOf(elseOffset);
+    this.emit('else', depth, elseLine);
+    this.trailingComments(Math.min(alternate.range.start.offset, this.lineEnd(elseLine)));
+    this.lastSourceLine = elseLine;
+    this.printBlock(alternate.body, depth + 1, next);
+  }
+
+  private printSwitch(prefix: string, node: SwitchStatement, depth: number, next: number): void {
+    const head = `${prefix}switch${node.discriminant ? ` ${this.expression(node.discriminant)}` : ''}`;
+    this.printHeader(head, node.range.start.line, node.discriminant ? node.discriminant.range.end : node.range.start, depth, next);
+
+    this.atBlockStart = true;
+    node.cases.forEach((branch, index) => {
+      const caseNext = index + 1 < node.cases.length ? node.cases[index + 1].range.start.offset : next;
+      const arrow = branch.test ? `${this.expression(branch.test)} =>` : '=>';
+      const body = branch.body;
+      this.leadingComments(branch.range.start.offset, depth + 1);
+
+      if (body.kind === 'Block' && body.range.start.line !== branch.range.start.line) {
+        this.printHeader(arrow, branch.range.start.line, branch.test ? branch.test.range.end : branch.range.start, depth + 1, caseNext);
+        this.printBlock(body.body, depth + 2, caseNext);
+      } else if (body.kind !== 'Block' && isStructure(body)) {
+        this.printStructure(`${arrow} `, body, depth + 1, caseNext);
+      } else {
+        // One-line branch: an expression, or an assignment the parser wrapped in a block
+        const line = body.kind === 'Block' ? this.simpleStatement(body.body[0], depth + 1) : this.wrap('', body, depth + 1);
+        this.ownLineComments(branch.range.end.offset, depth + 1, branch.range.start.line);
+        this.emit(`${arrow} ${line}`, depth + 1, branch.range.start.line);
+        this.trailingComments(Math.min(caseNext, this.lineEnd(branch.range.end.line)));
+        this.lastSourceLine = branch.range.end.line;
+      }
+    });
+    const first = node.cases[0];
+    this.closeBlock(next, depth + 1, first ? this.sourceIndent(first.range.start.line) : 0);
+  }
+
+  private printFunction(node: FunctionDeclaration, depth: number, next: number): void {
+    const modifiers = `${node.isExport ? 'export ' : ''}${node.isMethod ? 'method ' : ''}`;
+    const head = `${modifiers}${node.name.name}(${node.params.map(param => this.parameter(param)).join(', ')}) =>`;
+
+    if (node.body.kind === 'Block') {
+      const paramsEnd = node.params.length > 0 ? node.params[node.params.length - 1].range.end : node.name.range.end;
+      this.printHeader(head, node.range.start.line, paramsEnd, depth, next);
+      this.printBlock(node.body.body, depth + 1, next);
+    } else if (isStructure(node.body)) {
+      this.printStructure(`${head} `, node.body, depth, next);
+    } else {
+      this.ownLineComments(node.range.end.offset, depth, node.range.start.line);
+      this.emit(this.wrap(`${head} `, node.body, depth), depth, node.range.start.line);
+      this.trailingComments(Math.min(next, this.lineEnd(node.range.end.line)));
+      this.lastSourceLine = node.range.end.line;
+    }
+  }
+
+  // type and enum declarations: a header and one member per line
+  private printMembers(node: TypeDeclaration | EnumDeclaration, depth: number, next: number): void {
+    const keyword = node.kind === 'TypeDeclaration' ? 'type' : 'enum';
+    this.printHeader(`${node.isExport ? 'export ' : ''}${keyword} ${node.name.name}`, node.range.start.line, node.name.range.end, depth, next);
+
+    this.atBlockStart = true;
+    const fields: Array<TypeDeclaration['fields'][number] | EnumDeclaration['fields'][number]> = node.fields;
+    fields.forEach((field, index) => {
+      const fieldNext = index + 1 < fields.length ? fields[index + 1].range.start.offset : next;
+      const text = field.kind === 'FieldDeclaration'
+        ? `${field.isVarip ? 'varip ' : ''}${this.type(field.type)} ${field.name.name}${field.defaultValue ? ` = ${this.expression(field.defaultValue)}` : ''}`
+        : `${field.name.name}${field.title ? ` = ${field.title.raw}` : ''}`;
+      this.leadingComments(field.range.start.offset, depth + 1);
+      this.ownLineComments(field.range.end.offset, depth + 1, field.range.start.line);
+      this.emit(text, depth + 1, field.range.start.line);
+      this.trailingComments(Math.min(fieldNext, this.lineEnd(field.range.end.line)));
+      this.lastSourceLine = field.range.end.line;
+    });
+    const first = fields[0];
+    this.closeBlock(next, depth + 1, first ? this.sourceIndent(first.range.start.line) : 0);
+  }
+
+  // A line that opens a block; comments inside it go before it, trailing ones after
+  private printHeader(text: string, line: number, end: { offset: number; line: number }, depth: number, next: number): void {
+    this.ownLineComments(end.offset, depth, line);
+    this.emit(text, depth, line);
+    this.trailingComments(Math.min(next, this.lineEnd(end.line)));
+    this.lastSourceLine = end.line;
+  }
+
+  private declarationHead(node: VariableDeclaration): string {
+    const parts: string[] = [];
+    if (node.mode) parts.push(node.mode);
+    if (node.qualifier) parts.push(node.qualifier);
+    if (node.type) parts.push(this.type(node.type));
+    parts.push(node.name.name);
+    return parts.join(' ');
+  }
+
+  private parameter(node: Parameter): string {
+    const parts: string[] = [];
+    if (node.qualifier) parts.push(node.qualifier);
+    if (node.type) parts.push(this.type(node.type));
+    parts.push(node.name.name);
+    return `${parts.join(' ')}${node.defaultValue ? ` = ${this.expression(node.defaultValue)}` : ''}`;
+  }
+
+  private type(node: TypeNode): string {
+    const args = node.args.length > 0 ? `<${node.args.map(arg => this.type(arg)).join(', ')}>` : '';
+    return `${node.name}${args}${node.isArrayShorthand ? '[]' : ''}`;
+  }
+
+  // ===========================================================================
+  // Expressions
+  // ===========================================================================
+
+  private expression(node: Expression): string {
+    switch (node.kind) {
+      case 'Number':
+      case 'String':
+        return node.raw;
+      case 'Bool':
+        return node.value ? 'true' : 'false';
+      case 'Color':
+        return node.value;
+      case 'Na':
+        return 'na';
+      case 'Identifier':
+        return node.name;
+      case 'Member':
+        return `${this.expression(node.object)}.${node.property.name}`;
+      case 'Call':
+        return `${this.callee(node)}(${this.callArguments(node).join(', ')})`;
+      case 'History':
+        return `${this.expression(node.target)}[${this.expression(node.offset)}]`;
+      case 'Unary':
+        return node.operator === 'not' ? `not ${this.expression(node.operand)}` : `${node.operator}${this.expression(node.operand)}`;
+      case 'Binary':
+        return `${this.expression(node.left)} ${node.operator} ${this.expression(node.right)}`;
+      case 'Conditional':
+        return `${this.expression(node.test)} ? ${this.expression(node.consequent)} : ${this.expression(node.alternate)}`;
+      case 'Tuple':
+        return `[${node.elements.map(element => this.expression(element)).join(', ')}]`;
+      case 'Parenthesized':
+        return `(${this.expression(node.expression)})`;
+      default:
+        // Structures only appear where printStructure handles them
+        return this.source.slice(node.range.start.offset, node.range.end.offset);
+    }
+  }
+
+  private callee(node: CallExpression): string {
+    const typeArguments = node.typeArguments.length > 0 ? `<${node.typeArguments.map(arg => this.type(arg)).join(', ')}>` : '';
+    return `${this.expression(node.callee)}${typeArguments}`;
+  }
+
+  private callArguments(node: CallExpression): string[] {
+    return [...node.args.map(arg => this.argument(arg)), ...(this.extraArguments.get(node) || [])];
+  }
+
+  private argument(node: Argument): string {
+    return node.name ? `${node.name.name}=${this.expression(node.value)}` : this.expression(node.value);
+  }
+
+  // prefix + value on one line, or a long call with one argument per line
+  private wrap(prefix: string, value: Expression, depth: number): string {
+    const line = `${prefix}${this.expression(value)}`;
+    if (value.kind !== 'Call' || depth * INDENT_WIDTH + line.length <= this.options.maxLineLength) return line;
+
+    const args = this.callArguments(value);
+    if (args.length < 2) return line;
+    const continuation = `${this.indent(depth)}${' '.repeat(this.continuationWidth())}`;
+    return `${prefix}${this.callee(value)}(\n${args.map(arg => `${continuation}${arg}`).join(',\n')})`;
+  }
+
+  // A multiple of four would read as a new block outside brackets, so it is rounded up
+  private continuationWidth(): number {
+    const width = Math.max(1, Math.floor(this.options.continuationIndent));
+    return width % INDENT_WIDTH === 0 ? width + 1 : width;
+  }
+
+  // ===========================================================================
+  // Input grouping
+  // ===========================================================================
+
+  /**
+   * Top-level inputs whose names share a prefix (rsi_14_period,
+   * rsi_14_source) and whose titles share leading words get those words as
+   * their group. Consecutive pairs such as start/end share an inline row.
+   * Inputs that already set group or inline are left alone.
+   */
+  private groupInputs(): void {
+    const groups = new Map<string, Array<{ name: string; call: CallExpression; title: string }>>();
+    this.program.body.forEach(statement => {
+      if (statement.kind !== 'VariableDeclaration' || !isInputCall(statement.init)) return;
+      const call = statement.init;
+      if (call.args.some(arg => arg.name?.name === 'group' || arg.name?.name === 'inline')) return;
+
+      const prefix = namePrefix(statement.name.name);
+      const titleArgument = call.args.find(arg => arg.name?.name === 'title') || (call.args[1]?.name ? undefined : call.args[1]);
+      if (!prefix || titleArgument?.value.kind !== 'String') return;
+
+      const members = groups.get(prefix) || [];
+      members.push({ name: statement.name.name, call, title: titleArgument.value.value });
+      groups.set(prefix, members);
+    });
+
+    groups.forEach((members, prefix) => {
+      const title = commonTitle(members.map(member => member.title));
+      if (members.length < 2 || !title) return;
+      members.forEach(member => this.extraArguments.set(member.call, [`group=${stringLiteral(title)}`]));
+
+      const suffix = (name: string) => name.slice(prefix.length).replace(/^_/, '').toLowerCase();
+      for (let i = 0; i + 1 < members.length; i++) {
+        const pair = [suffix(members[i].name), suffix(members[i + 1].name)];
+        if (!INLINE_PAIRS.some(([first, second]) => pair[0] === first && pair[1] === second)) continue;
+        const inline = `inline=${stringLiteral(members[i].name)}`;
+        this.extraArguments.get(members[i].call)!.push(inline);
+        this.extraArguments.get(members[i + 1].call)!.push(inline);
+        i++;
+      }
+    });
+  }
+
+  // ===========================================================================
+  // Comments
+  // ===========================================================================
+
+  // Every comment before the offset: own-line ones on their own, trailing ones on the last code line
+  private leadingComments(limit: number, depth: number): void {
+    this.comments.forEach((comment, index) => {
+      if (this.used[index] || comment.range.start.offset >= limit) return;
+      this.used[index] = true;
+      if (comment.trailing && this.lastCodeLine >= 0) {
+        this.attach(comment);
+      } else {
+        this.emitComment(comment, depth);
+      }
+    });
+  }
+
+  // Own-line comments inside a statement's brackets, printed before it as if on its first line
+  private ownLineComments(limit: number, depth: number, line: number): void {
+    this.comments.forEach((comment, index) => {
+      if (this.used[index] || comment.trailing || comment.range.start.offset >= limit) return;
+      this.used[index] = true;
+      this.emitComment(comment, depth, line);
+    });
+  }
+
+  private trailingComments(limit: number): void {
+    this.comments.forEach((comment, index) => {
+      if (this.used[index] || !comment.trailing || comment.range.start.offset >= limit) return;
+      this.used[index] = true;
+      this.attach(comment);
+    });
+  }
+
+  // Comments after a block's last statement stay in it while indented at least as deep
+  private closeBlock(limit: number, depth: number, blockIndent: number): void {
+    for (let index = 0; index < this.comments.length; index++) {
+      const comment = this.comments[index];
+      if (this.used[index]) continue;
+      if (comment.range.start.offset >= limit) return;
+      if (!comment.trailing && depth > 0 && this.sourceIndent(comment.range.start.line) < blockIndent) return;
+      this.used[index] = true;
+      if (comment.trailing && this.lastCodeLine >= 0) {
+        this.attach(comment);
+      } else {
+        this.emitComment(comment, depth);
+      }
+    }
+  }
+
+  private attach(comment: Comment): void {
+    this.lines[this.lastCodeLine] += ` //${comment.text}`;
+  }
+
+  private emitComment(comment: Comment, depth: number, line = comment.range.start.line): void {
+    this.blankLines(line);
+    this.lines.push(`${this.indent(depth)}//${comment.text}`);
+    this.lastSourceLine = line;
+  }
+
+  // ===========================================================================
+  // Output
+  // ===========================================================================
+
+  private emit(text: string, depth: number, sourceLine: number): void {
+    this.blankLines(sourceLine);
+    text.split('\n').forEach((line, index) => this.lines.push(index === 0 ? `${this.indent(depth)}${line}` : line));
+    this.lastCodeLine = this.lines.length - 1;
+  }
+
+  private blankLines(sourceLine: number): void {
+    const blank = Math.min(this.options.maxBlankLines, sourceLine - this.lastSourceLine - 1);
+    if (!this.atBlockStart && this.lines.length > 0) {
+      for (let i = 0; i < blank; i++) this.lines.push('');
+    }
+    this.atBlockStart = false;
+  }
+
+  private indent(depth: number): string {
+    return this.options.indentWithTabs ? '\t'.repeat(depth) : ' '.repeat(depth * INDENT_WIDTH);
+  }
+
+  // ===========================================================================
+  // Source lines
+  // ===========================================================================
+
+  private lineOf(offset: number): number {
+    let line = 1;
+    while (line < this.lineStarts.length && this.lineStarts[line] <= offset) line++;
+    return line;
+  }
+
+  // Offset just past the end of a 1-based line
+  private lineEnd(line: number): number {
+    return line < this.lineStarts.length ? this.lineStarts[line] : this.source.length;
+  }
+
+  private sourceIndent(line: number): number {
+    let width = 0;
+    for (let i = this.lineStarts[line - 1]; i < this.source.length; i++) {
+      if (this.source[i] === ' ') width++;
+      else if (this.source[i] === '\t') width += INDENT_WIDTH;
+      else break;
+    }
+    return width;
+  }
+
+  // Offset of the else keyword between a consequent and its alternate
+  private findElse(fromLine: number, toLine: number): number {
+    for (let line = fromLine + 1; line <= toLine; line++) {
+      const start = this.lineStarts[line - 1];
+      const text = this.source.slice(start, this.lineEnd(line));
+      const match = text.match(/^[ \t]*else\b/);
+      if (match) return start + match[0].length - 'else'.length;
+    }
+    return this.lineStarts[toLine - 1];
+  }
+}
+
+/**
+ * Formats Pine Script source. Scripts with syntax errors come back
+ * unchanged, since a program the parser skipped parts of cannot be printed
+ * without losing them.
+ */
+export function formatPine(source: string, options: Partial<PineFormatOptions> = {}): PineFormatResult {
+  const normalized = source.replace(/\r\n?/g, '\n');
+  const { program, errors } = parsePine(normalized);
+  if (errors.length > 0) {
+    return { code: source, changed: false, errors };
+  }
+
+  const code = new Formatter(normalized, program, { ...DEFAULT_FORMAT_OPTIONS, ...options }).format();
+  return { code, changed: code !== source, errors: [] };
+}
@@ -0,0 +1,20 @@
+/**
+ * Pine Script Parser - Main Export
+ *
+ * Lexer, recursive descent parser and typed AST for Pine Script v6,
+ * shared by validation, formatting and import features
+ */
+
+export * from './ast';
+export { tokenize, PINE_KEYWORDS, INDENT_WIDTH } from './lexer';
+export type { LexResult } from './lexer';
+export { parsePine, TYPE_QUALIFIERS } from './parser';
+export type { ParseResult } from './parser';
+export { checkPine } from './checker';
+export type { SemanticDiagnostic, SemanticFix } from './checker';
+export { formatPine, DEFAULT_FORMAT_OPTIONS } from './formatter';
+export type { PineFormatOptions, PineFormatResult } from './formatter';
+export { getBuiltinFunction, getBuiltinVariable } from './builtins';
+export type { PineBaseType, PineValueType, FunctionSignature, ParameterSpec } from './builtins';
+export { migratePine, TARGET_PINE_VERSION } from './migrator';
+export type { PineMigrationChange, PineMigrationResult } from './migrator';
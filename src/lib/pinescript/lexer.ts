@@ -0,0 +1,312 @@
+/**
+ * Pine Script Parser - Lexer
+ *
+ * Turns Pine Script v6 source into tokens. Indentation is significant in
+ * Pine, so the lexer emits indent/dedent tokens for blocks (multiples of
+ * four spaces or a tab) and joins wrapped lines: a line indented by a
+ * non-multiple of four, or a line inside open brackets indented past the
+ * current block, continues the previous one. Comments are kept aside with
+ * their ranges for tools that need to preserve them.
+ */
+
+import type { Comment, PineDiagnostic, SourcePosition, Token } from './ast';
+
+// method, type and enum are only keywords at the start of a declaration (see the
+// parser); elsewhere they are names, as in input(defval, type=input.integer)
+export const PINE_KEYWORDS = [
+  'and', 'or', 'not',
+  'if', 'else', 'switch', 'for', 'to', 'by', 'in', 'while', 'break', 'continue',
+  'var', 'varip', 'import', 'export', 'as',
+  'true', 'false'
+];
+
+export const INDENT_WIDTH = 4;
+
+// Longest first, so := is not read as : followed by =
+const OPERATORS = [
+  ':=', '+=', '-=', '*=', '/=', '%=', '==', '!=', '<=', '>=', '=>',
+  '=', '<', '>', '+', '-', '*', '/', '%', '?', ':'
+];
+
+const PUNCTUATION = ['(', ')', '[', ']', ',', '.'];
+
+// Sticky, so matching starts at lastIndex without slicing the source
+const NUMBER_PATTERN = /(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/y;
+const COLOR_PATTERN = /#[0-9A-Fa-f]*/y;
+
+const STRING_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', "'": "'" };
+
+export interface LexResult {
+  tokens: Token[];
+  comments: Comment[];
+  errors: PineDiagnostic[];
+}
+
+class Lexer {
+  private source: string;
+  private offset = 0;
+  private line = 1;
+  private column = 1;
+  private tokens: Token[] = [];
+  private comments: Comment[] = [];
+  private errors: PineDiagnostic[] = [];
+  private indents: number[] = [0];
+  private bracketDepth = 0;
+
+  constructor(source: string) {
+    // Normalize line endings so offsets and columns agree across platforms
+    this.source = source.replace(/\r\n?/g, '\n');
+  }
+
+  public tokenize(): LexResult {
+    let atLineStart = true;
+
+    while (this.offset < this.source.length) {
+      if (atLineStart) {
+        // Blank and comment-only lines are consumed whole, so the next line starts fresh
+        atLineStart = this.readIndentation();
+        if (atLineStart) continue;
+      }
+
+      const char = this.peek();
+
+      if (char === '\n') {
+        const start = this.position();
+        this.advance();
+        // Newlines inside brackets and after a line continuation are whitespace
+        if (this.bracketDepth === 0) {
+          this.pushNewline(start);
+        }
+        atLineStart = true;
+      } else if (char === ' ' || char === '\t') {
+        this.advance();
+      } else if (char === '/' && this.peek(1) === '/') {
+        this.readComment();
+      } else if (/[A-Za-z_]/.test(char)) {
+        this.readIdentifier();
+      } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(this.peek(1)))) {
+        this.readNumber();
+      } else if (char === '"' || char === "'") {
+        this.readString(char);
+      } else if (char === '#') {
+        this.readColor();
+      } else {
+        this.readOperator();
+      }
+    }
+
+    const end = this.position();
+    this.pushNewline(end);
+    while (this.indents.length > 1) {
+      this.indents.pop();
+      this.tokens.push({ type: 'dedent', value: '', range: { start: end, end } });
+    }
+    this.tokens.push({ type: 'eof', value: '', range: { start: end, end } });
+
+    return { tokens: this.tokens, comments: this.comments, errors: this.errors };
+  }
+
+  /**
+   * Measures the indentation of a new line and emits indent/dedent tokens.
+   * Returns true when the whole line was consumed (blank or comment only).
+   */
+  private readIndentation(): boolean {
+    const start = this.position();
+    let width = 0;
+    while (this.peek() === ' ' || this.peek() === '\t') {
+      width += this.peek() === '\t' ? INDENT_WIDTH : 1;
+      this.advance();
+    }
+
+    // Blank and comment-only lines never change the block structure
+    if (this.offset >= this.source.length || this.peek() === '\n') {
+      if (this.peek() === '\n') this.advance();
+      return true;
+    }
+    if (this.peek() === '/' && this.peek(1) === '/') {
+      this.readComment();
+      if (this.peek() === '\n') this.advance();
+      return true;
+    }
+    const current = this.indents[this.indents.length - 1];
+
+    // Wrapped arguments sit past the block's indentation; a line back at it
+    // starts a new statement, so an unclosed bracket cannot swallow the script
+    if (this.bracketDepth > 0) {
+      if (width > current || width % INDENT_WIDTH !== 0 || this.peek() === ')' || this.peek() === ']') {
+        return false;
+      }
+      this.bracketDepth = 0;
+      this.pushNewline(this.tokens[this.tokens.length - 1]?.range.end ?? start);
+    }
+
+    const range = { start, end: this.position() };
+
+    // Wrapped lines are indented past the block by a non-multiple of four
+    if (width % INDENT_WIDTH !== 0) {
+      if (width > current) {
+        this.joinPreviousLine();
+        return false;
+      }
+      this.errors.push({ message: `Indentation must be a multiple of ${INDENT_WIDTH} spaces`, range });
+      width -= width % INDENT_WIDTH;
+    }
+
+    if (width > current) {
+      if (width > current + INDENT_WIDTH) {
+        this.errors.push({ message: 'Block is indented more than one level', range });
+      }
+      this.indents.push(width);
+      this.tokens.push({ type: 'indent', value: '', range });
+    } else {
+      while (width < this.indents[this.indents.length - 1]) {
+        this.indents.pop();
+        this.tokens.push({ type: 'dedent', value: '', range });
+      }
+      if (width !== this.indents[this.indents.length - 1]) {
+        this.errors.push({ message: 'Indentation does not match any enclosing block', range });
+      }
+    }
+    return false;
+  }
+
+  // A continuation line belongs to the previous line's statement
+  private joinPreviousLine(): void {
+    const last = this.tokens[this.tokens.length - 1];
+    if (last?.type === 'newline') {
+      this.tokens.pop();
+    }
+  }
+
+  private readComment(): void {
+    const start = this.position();
+    const previous = this.tokens[this.tokens.length - 1];
+    this.advance(2);
+    let text = '';
+    while (this.offset < this.source.length && this.peek() !== '\n') {
+      text += this.peek();
+      this.advance();
+    }
+
+    const comment: Comment = {
+      text,
+      trailing: !!previous && previous.type !== 'newline' && previous.range.end.line === start.line,
+      range: { start, end: this.position() }
+    };
+    const annotation = text.match(/^@(\w+)\s*(?:=\s*)?(.*)$/);
+    if (annotation) {
+      comment.annotation = { name: annotation[1], value: annotation[2].trim() };
+    }
+    this.comments.push(comment);
+  }
+
+  private readIdentifier(): void {
+    const start = this.position();
+    let value = '';
+    while (/[A-Za-z0-9_]/.test(this.peek())) {
+      value += this.peek();
+      this.advance();
+    }
+    this.push(PINE_KEYWORDS.includes(value) ? 'keyword' : 'identifier', value, start);
+  }
+
+  private readNumber(): void {
+    const start = this.position();
+    NUMBER_PATTERN.lastIndex = this.offset;
+    const raw = NUMBER_PATTERN.exec(this.source)![0];
+    this.advance(raw.length);
+    this.push('number', raw, start);
+  }
+
+  private readString(quote: string): void {
+    const start = this.position();
+    let value = '';
+    this.advance();
+
+    while (this.offset < this.source.length && this.peek() !== quote) {
+      if (this.peek() === '\n') break;
+      if (this.peek() === '\\' && this.offset + 1 < this.source.length) {
+        const escape = this.peek(1);
+        value += STRING_ESCAPES[escape] ?? escape;
+        this.advance(2);
+        continue;
+      }
+      value += this.peek();
+      this.advance();
+    }
+
+    if (this.peek() === quote) {
+      this.advance();
+    } else {
+      this.errors.push({ message: 'Unterminated string literal', range: { start, end: this.position() } });
+    }
+    this.push('string', value, start);
+  }
+
+  private readColor(): void {
+    const start = this.position();
+    COLOR_PATTERN.lastIndex = this.offset;
+    const length = COLOR_PATTERN.exec(this.source)![0].length;
+    this.advance(length);
+    if (length !== 7 && length !== 9) {
+      this.errors.push({ message: 'Color literals must be #RRGGBB or #RRGGBBAA', range: { start, end: this.position() } });
+    }
+    this.push('color', this.source.slice(start.offset, this.offset), start);
+  }
+
+  private readOperator(): void {
+    const start = this.position();
+    const operator = OPERATORS.find(candidate => this.source.startsWith(candidate, this.offset));
+    if (operator) {
+      this.advance(operator.length);
+      this.push('operator', operator, start);
+      return;
+    }
+
+    const char = this.peek();
+    this.advance();
+    if (PUNCTUATION.includes(char)) {
+      if (char === '(' || char === '[') this.bracketDepth++;
+      if ((char === ')' || char === ']') && this.bracketDepth > 0) this.bracketDepth--;
+      this.push('punctuation', char, start);
+      return;
+    }
+
+    this.errors.push({ message: `Unexpected character "${char}"`, range: { start, end: this.position() } });
+  }
+
+  private pushNewline(start: SourcePosition): void {
+    const last = this.tokens[this.tokens.length - 1];
+    // One newline ends a logical line; blank lines and leading newlines add none
+    if (!last || last.type === 'newline' || last.type === 'indent' || last.type === 'dedent') return;
+    this.tokens.push({ type: 'newline', value: '\n', range: { start, end: start } });
+  }
+
+  private push(type: Token['type'], value: string, start: SourcePosition): void {
+    this.tokens.push({ type, value, range: { start, end: this.position() } });
+  }
+
+  private peek(ahead = 0): string {
+    return this.source[this.offset + ahead] ?? '';
+  }
+
+  private advance(count = 1): void {
+    for (let i = 0; i < count && this.offset < this.source.length; i++) {
+      if (this.source[this.offset] === '\n') {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+      this.offset++;
+    }
+  }
+
+  private position(): SourcePosition {
+    return { line: this.line, column: this.column, offset: this.offset };
+  }
+}
+
+export function tokenize(source: string): LexResult {
+  return new Lexer(source).tokenize();
+}
@@ -0,0 +1,521 @@
+/**
+ * Pine Script Parser - Version Migrator
+ *
+ * Rewrites v4 and v5 scripts to v6. The rewrite works on the parsed program
+ * but copies everything it does not change straight from the source, so
+ * layout and comments survive. Syntax that changed names or shape is
+ * migrated first (study(), un-namespaced built-ins, input(type=...), transp,
+ * iff(), when=); the v6 type rules are then applied where the semantic
+ * checker reports them: numbers used as conditions get bool(), int
+ * divisions passed where an int is expected get int(), and bools lose na.
+ * Every rewrite is listed in the change report, and anything the checker
+ * still rejects afterwards is flagged for a manual fix.
+ */
+
+import { findReferences, getChildren, walk } from './ast';
+import type {
+  Argument,
+  CallExpression,
+  Expression,
+  ExpressionStatement,
+  PineDiagnostic,
+  PineNode,
+  Program
+} from './ast';
+import { checkPine } from './checker';
+import { parsePine } from './parser';
+
+export interface PineMigrationChange {
+  code: string; // Rule that applied, such as 'namespace' or 'bool_condition'
+  message: string;
+  line: number; // Line in the original script
+}
+
+export interface PineMigrationResult {
+  code: string;
+  fromVersion: number | null;
+  changed: boolean;
+  changes: PineMigrationChange[];
+  unsupported: PineMigrationChange[]; // Constructs that still need a manual fix
+  errors: PineDiagnostic[]; // Syntax errors; the code is returned unchanged when there are any
+}
+
+export const TARGET_PINE_VERSION = 6;
+
+const V4_NAMESPACES: Record<string, string[]> = {
+  ta: [
+    'sma', 'ema', 'rma', 'wma', 'vwma', 'swma', 'alma', 'hma', 'linreg', 'rsi', 'macd', 'bb', 'bbw', 'kc', 'kcw',
+    'stoch', 'cci', 'cmo', 'mfi', 'atr', 'tr', 'dmi', 'supertrend', 'sar', 'vwap', 'tsi', 'wpr', 'roc', 'mom',
+    'change', 'cum', 'stdev', 'variance', 'dev', 'median', 'mode', 'range', 'percentrank',
+    'percentile_linear_interpolation', 'percentile_nearest_rank', 'correlation', 'cog', 'highest', 'lowest',
+    'highestbars', 'lowestbars', 'pivothigh', 'pivotlow', 'crossover', 'crossunder', 'cross', 'rising', 'falling',
+    'barssince', 'valuewhen'
+  ],
+  math: [
+    'abs', 'sign', 'max', 'min', 'avg', 'sum', 'round', 'floor', 'ceil', 'pow', 'random', 'sqrt', 'exp', 'log',
+    'log10', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'todegrees', 'toradians'
+  ],
+  str: ['tostring', 'tonumber'],
+  request: ['security', 'financial', 'splits', 'dividends', 'earnings'],
+  ticker: ['heikinashi', 'renko', 'linebreak', 'kagi', 'pointfigure']
+};
+
+// v4 functions that moved into a namespace in v5: sma -> ta.sma
+const V4_FUNCTIONS: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(V4_NAMESPACES).flatMap(([namespace, names]) =>
+    names.map(name => [name, `${namespace}.${name}`]))),
+  tickerid: 'ticker.new'
+};
+
+// v4 variables that moved into a namespace in v5: tr -> ta.tr
+const V4_VARIABLES: Record<string, string> = {
+  ...Object.fromEntries(['tr', 'obv', 'vwap', 'accdist', 'iii', 'nvi', 'pvi', 'pvt', 'wad', 'wvad']
+    .map(name => [name, `ta.${name}`])),
+  ...Object.fromEntries(['isintraday', 'isdaily', 'isweekly', 'ismonthly', 'isdwm', 'isminutes', 'isseconds']
+    .map(name => [name, `timeframe.${name}`])),
+  period: 'timeframe.period',
+  interval: 'timeframe.multiplier'
+};
+
+// input(type=input.integer) -> input.int()
+const V4_INPUT_TYPES: Record<string, string> = {
+  integer: 'int', float: 'float', bool: 'bool', string: 'string', source: 'source', resolution: 'timeframe',
+  session: 'session', symbol: 'symbol', color: 'color', time: 'time', price: 'price'
+};
+
+// Parameters renamed in v5, per function
+const RENAMED_PARAMETERS: Record<string, Record<string, string>> = {
+  study: { resolution: 'timeframe', resolution_gaps: 'timeframe_gaps' },
+  security: { resolution: 'timeframe' }
+};
+
+// Color parameters transp= applied to, with their position
+const TRANSP_COLORS: Record<string, Array<[string, number]>> = {
+  plot: [['color', 2]],
+  plotshape: [['color', 4]],
+  plotchar: [['color', 4]],
+  plotarrow: [['colorup', 2], ['colordown', 3]],
+  bgcolor: [['color', 0]],
+  fill: [['color', 2]]
+};
+
+const ORDER_FUNCTIONS = [
+  'strategy.entry', 'strategy.order', 'strategy.exit', 'strategy.close', 'strategy.close_all', 'strategy.cancel',
+  'strategy.cancel_all'
+];
+
+// timeframe.period always includes the multiplier in v6: "D" is now "1D"
+const UNQUALIFIED_PERIODS = ['D', 'W', 'M'];
+
+function memberPath(expression: Expression): string | null {
+  if (expression.kind === 'Identifier') return expression.name;
+  if (expression.kind === 'Member') {
+    const object = memberPath(expression.object);
+    return object ? `${object}.${expression.property.name}` : null;
+  }
+  return null;
+}
+
+function findArgument(call: CallExpression, name: string, position?: number): Argument | undefined {
+  const named = call.args.find(arg => arg.name?.name === name);
+  if (named || position === undefined) return named;
+  return call.args.filter(arg => !arg.name)[position];
+}
+
+// Expressions that can take [] or a call without parentheses around them
+function isPrimary(expression: Expression): boolean {
+  return ['Identifier', 'Member', 'Call', 'History', 'Parenthesized', 'Number', 'String', 'Bool', 'Color', 'Na']
+    .includes(expression.kind);
+}
+
+class Migrator {
+  private changes: PineMigrationChange[] = [];
+  private unsupported: PineMigrationChange[] = [];
+  // Text for a node, or null for an argument that is dropped
+  private overrides = new Map<PineNode, string | null>();
+  private references: Set<PineNode>;
+  private declared = new Set<string>();
+  private boolNames = new Set<string>();
+  // Positions where a whole expression can stand without parentheses
+  private bare = new Set<PineNode>();
+  // Original lines that had an if line inserted before them
+  private insertedLines: number[] = [];
+
+  constructor(private program: Program, private source: string) {
+    this.references = new Set(findReferences(program));
+    walk(program, node => {
+      switch (node.kind) {
+        case 'VariableDeclaration':
+          this.declared.add(node.name.name);
+          if (node.type?.name === 'bool' || node.init.kind === 'Bool') this.boolNames.add(node.name.name);
+          this.bare.add(node.init);
+          break;
+        case 'TupleDeclaration':
+          node.names.forEach(name => this.declared.add(name.name));
+          break;
+        case 'FunctionDeclaration':
+          if (!node.isMethod) this.declared.add(node.name.name);
+          break;
+        case 'Parameter':
+          this.declared.add(node.name.name);
+          break;
+        case 'For':
+          this.declared.add(node.counter.name);
+          break;
+        case 'ForIn':
+          this.declared.add(node.item.name);
+          if (node.index) this.declared.add(node.index.name);
+          break;
+        case 'Assignment':
+          this.bare.add(node.value);
+          break;
+        case 'Argument':
+        case 'Parenthesized':
+          this.bare.add(node.kind === 'Argument' ? node.value : node.expression);
+          break;
+      }
+    });
+  }
+
+  public migrate(): { code: string; changes: PineMigrationChange[]; unsupported: PineMigrationChange[] } {
+    const version = this.program.version!;
+    const body = this.print(this.program) + this.source.slice(this.program.range.end.offset);
+    const code = body.replace(/\/\/\s*@version\s*=\s*\d+/, `//@version=${TARGET_PINE_VERSION}`);
+    this.changes.unshift({ code: 'version', message: `Updated //@version=${version} to //@version=${TARGET_PINE_VERSION}`, line: this.versionLine() });
+    return this.applyTypeRules(code);
+  }
+
+  private versionLine(): number {
+    return this.program.comments.find(comment => comment.annotation?.name === 'version')?.range.start.line ?? 1;
+  }
+
+  private note(code: string, message: string, node: PineNode): void {
+    this.changes.push({ code, message, line: node.range.start.line });
+  }
+
+  private flag(code: string, message: string, node: PineNode): void {
+    this.unsupported.push({ code, message, line: node.range.start.line });
+  }
+
+  // A built-in name the script does not shadow with its own declaration
+  private builtinName(expression: Expression): string | null {
+    const path = memberPath(expression);
+    return path && !this.declared.has(path.split('.')[0]) ? path : null;
+  }
+
+  // ===========================================================================
+  // Printing
+  // ===========================================================================
+
+  private print(node: PineNode): string {
+    const override = this.overrides.get(node);
+    if (typeof override === 'string') return override;
+    return this.rewrite(node) ?? this.splice(node);
+  }
+
+  // The node's source with each child printed in place; dropped arguments take their comma with them
+  private splice(node: PineNode): string {
+    let out = '';
+    let position = node.range.start.offset;
+    let previousKept = false;
+    let skipGap = false;
+
+    for (const child of getChildren(node)) {
+      const gap = this.source.slice(position, child.range.start.offset);
+      position = child.range.end.offset;
+      if (this.overrides.get(child) === null) {
+        if (!previousKept && !skipGap) {
+          out += gap;
+          skipGap = true;
+        }
+        continue;
+      }
+      out += (skipGap ? '' : gap) + this.print(child);
+      skipGap = false;
+      previousKept = child.kind === 'Argument';
+    }
+    return out + this.source.slice(position, node.range.end.offset);
+  }
+
+  private rewrite(node: PineNode): string | null {
+    const v4 = this.program.version === 4;
+    switch (node.kind) {
+      case 'Call':
+        return this.rewriteCall(node);
+      case 'Identifier': {
+        const renamed = v4 && this.references.has(node) && !this.declared.has(node.name) ? V4_VARIABLES[node.name] : undefined;
+        if (!renamed) return null;
+        this.note('namespace', `"${node.name}" is "${renamed}" since v5`, node);
+        return renamed;
+      }
+      case 'ExpressionStatement':
+        return this.rewriteOrderCondition(node);
+      case 'VariableDeclaration':
+      case 'Assignment': {
+        const name = node.kind === 'VariableDeclaration' ? node.name.name : memberPath(node.target);
+        const value = node.kind === 'VariableDeclaration' ? node.init : node.value;
+        if (value.kind === 'Na' && name && this.boolNames.has(name)) {
+          this.overrides.set(value, 'false');
+          this.note('bool_na', `bool values cannot be na in v6; "${name}" is set to false instead`, value);
+        }
+        return null;
+      }
+      case 'Binary': {
+        if (node.operator !== '==' && node.operator !== '!=') return null;
+        const period = v4 && !this.declared.has('period') ? ['timeframe.period', 'period'] : ['timeframe.period'];
+        [[node.left, node.right], [node.right, node.left]].forEach(([side, other]) => {
+          const path = memberPath(side);
+          if (path && period.includes(path) && other.kind === 'String' && UNQUALIFIED_PERIODS.includes(other.value)) {
+            const quote = other.raw[0];
+            this.overrides.set(other, `${quote}1${other.value}${quote}`);
+            this.note('timeframe_period', `timeframe.period includes the multiplier in v6; compared with "1${other.value}"`, other);
+          }
+        });
+        return null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private rewriteCall(call: CallExpression): string | null {
+    const name = this.builtinName(call.callee);
+    if (!name) return null;
+    const positional = call.args.filter(arg => !arg.name);
+
+    if (this.program.version === 4 && call.callee.kind === 'Identifier') {
+      if (name === 'iff' && call.args.length === 3 && positional.length === 3) {
+        const [test, consequent, alternate] = call.args.map(arg => this.print(arg.value));
+        this.note('iff', 'iff() was removed in v5; replaced with the ?: operator', call);
+        const conditional = `${test} ? ${consequent} : ${alternate}`;
+        return this.bare.has(call) ? conditional : `(${conditional})`;
+      }
+      if (name === 'offset' && positional.length === 2) {
+        const [series, offset] = call.args.map(arg => arg.value);
+        this.note('offset', 'offset() was removed in v5; replaced with the [] operator', call);
+        return `${isPrimary(series) ? this.print(series) : `(${this.print(series)})`}[${this.print(offset)}]`;
+      }
+      if (name === 'quandl') {
+        this.flag('removed_function', 'quandl() has no v6 equivalent; Quandl data is no longer available', call);
+        return null;
+      }
+
+      Object.entries(RENAMED_PARAMETERS[name] ?? {}).forEach(([from, to]) => {
+        const arg = findArgument(call, from);
+        if (arg?.name) {
+          this.overrides.set(arg.name, to);
+          this.note('parameter', `The "${from}" parameter of ${name}() is "${to}" since v5`, arg);
+        }
+      });
+
+      const renamed = name === 'study' ? 'indicator' : V4_FUNCTIONS[name];
+      if (renamed) {
+        this.overrides.set(call.callee, renamed);
+        this.note(name === 'study' ? 'declaration' : 'namespace', `${name}() is ${renamed}() since v5`, call);
+      }
+      if (name === 'input') this.migrateInputType(call);
+    }
+
+    this.migrateTransp(name, call);
+    if (name === 'strategy.entry' || name === 'strategy.order') this.migrateDirection(name, call);
+
+    const when = ORDER_FUNCTIONS.includes(name) ? findArgument(call, 'when') : undefined;
+    if (when && !this.overrides.has(when)) {
+      this.flag('order_condition', `The when parameter of ${name}() was removed in v6; move the call into an if block`, when);
+    }
+    return null;
+  }
+
+  private migrateInputType(call: CallExpression): void {
+    const type = findArgument(call, 'type', 2);
+    const path = type ? memberPath(type.value) : null;
+    const kind = path?.startsWith('input.') ? V4_INPUT_TYPES[path.slice('input.'.length)] : undefined;
+    if (!type || !kind) return;
+
+    // After type, v4 took minval, maxval, confirm, step and options by position, in a different order from v5
+    if (call.args.filter(arg => !arg.name).length > 3) {
+      this.flag('input_type', 'input() with more than three positional arguments must be rewritten by hand as input.*()', call);
+      return;
+    }
+    this.overrides.set(call.callee, `input.${kind}`);
+    this.overrides.set(type, null);
+    this.note('input_type', `input(type=${path}) is input.${kind}() since v5`, call);
+  }
+
+  private migrateTransp(name: string, call: CallExpression): void {
+    const transp = findArgument(call, 'transp');
+    if (!transp || !TRANSP_COLORS[name]) return;
+
+    const transparency = this.print(transp.value);
+    const colors = TRANSP_COLORS[name]
+      .map(([param, position]) => findArgument(call, param, position))
+      .filter((arg): arg is Argument => !!arg && arg.value.kind !== 'Na');
+    colors.forEach(arg => this.overrides.set(arg.value, `color.new(${this.print(arg.value)}, ${transparency})`));
+    this.overrides.set(transp, null);
+    this.note('transp', colors.length > 0
+      ? `transp was removed in v5; the transparency is applied with color.new()`
+      : 'transp was removed in v5; there is no color to apply it to, so it was dropped', transp);
+  }
+
+  // v4 took a bool for the direction: true for long, false for short
+  private migrateDirection(name: string, call: CallExpression): void {
+    const named = findArgument(call, 'long');
+    const arg = named ?? call.args.filter(candidate => !candidate.name)[1];
+    if (!arg || (!named && arg.value.kind !== 'Bool')) return;
+
+    const direction = arg.value.kind === 'Bool'
+      ? (arg.value.value ? 'strategy.long' : 'strategy.short')
+      : memberPath(arg.value)?.startsWith('strategy.') ? this.print(arg.value) : `${this.print(arg.value)} ? strategy.long : strategy.short`;
+    this.overrides.set(arg, named ? `direction=${direction}` : direction);
+    this.note('direction', `${name}() takes strategy.long or strategy.short as its direction since v5`, arg);
+  }
+
+  // strategy.entry(..., when=cond) -> if cond / strategy.entry(...)
+  private rewriteOrderCondition(statement: ExpressionStatement): string | null {
+    const call = statement.expression;
+    if (call.kind !== 'Call') return null;
+    const name = this.builtinName(call.callee);
+    const when = name && ORDER_FUNCTIONS.includes(name) ? findArgument(call, 'when') : undefined;
+    if (!when) return null;
+
+    const lineStart = this.source.lastIndexOf('\n', statement.range.start.offset - 1) + 1;
+    const indent = this.source.slice(lineStart, statement.range.start.offset);
+    if (indent.trim() !== '') return null;
+
+    this.overrides.set(when, null);
+    const condition = when.value;
+    if (condition.kind === 'Bool' && condition.value) {
+      this.note('order_condition', `The when parameter of ${name}() was removed in v6; when=true is dropped`, when);
+      return this.print(call);
+    }
+
+    this.insertedLines.push(statement.range.start.line);
+    this.note('order_condition', `The when parameter of ${name}() was removed in v6; the order is placed inside an if block`, when);
+    const unit = indent.includes('\t') ? '\t' : '    ';
+    return `if ${this.print(condition)}\n${indent}${unit}${this.print(call)}`;
+  }
+
+  // ===========================================================================
+  // v6 type rules
+  // ===========================================================================
+
+  private originalLine(line: number): number {
+    let offset = 0;
+    for (const inserted of [...this.insertedLines].sort((a, b) => a - b)) {
+      if (line > inserted + offset) offset++;
+    }
+    return line - offset;
+  }
+
+  private applyTypeRules(code: string): { code: string; changes: PineMigrationChange[]; unsupported: PineMigrationChange[] } {
+    const { program, errors } = parsePine(code);
+    if (errors.length > 0) {
+      // Should not happen, but a broken rewrite must not replace working code
+      this.unsupported.push(...errors.map(error => ({ code: 'migration_failed', message: error.message, line: this.originalLine(error.range.start.line) })));
+      return { code, changes: this.changes, unsupported: this.unsupported };
+    }
+
+    const diagnostics = checkPine(program, code).filter(diagnostic => diagnostic.severity === 'error');
+    const reported = (node: PineNode, codes: string[], pattern: RegExp) => diagnostics.some(diagnostic =>
+      codes.includes(diagnostic.code) && pattern.test(diagnostic.message) &&
+      diagnostic.range.start.offset === node.range.start.offset && diagnostic.range.end.offset === node.range.end.offset);
+
+    const casts: Array<{ node: PineNode; cast: 'bool' | 'int' }> = [];
+    const castBool = (node: Expression | undefined | null) => {
+      if (node && reported(node, ['condition_type', 'operator_type'], /^(Condition must be bool|Operator .* expects bool)/)) {
+        casts.push({ node, cast: 'bool' });
+      }
+    };
+    walk(program, node => {
+      switch (node.kind) {
+        case 'If':
+        case 'While':
+        case 'Conditional':
+          castBool(node.test);
+          break;
+        case 'Switch':
+          if (!node.discriminant) node.cases.forEach(branch => castBool(branch.test));
+          break;
+        case 'Unary':
+          if (node.operator === 'not') castBool(node.operand);
+          break;
+        case 'Binary':
+          if (node.operator === 'and' || node.operator === 'or') {
+            castBool(node.left);
+            castBool(node.right);
+          }
+          break;
+      }
+
+      const division = node.kind === 'Parenthesized' ? node.expression : node;
+      if (division.kind === 'Binary' && division.operator === '/' &&
+        reported(node, ['argument_type', 'assignment_type'], /(expects|as|holds) int\b/)) {
+        casts.push({ node, cast: 'int' });
+      }
+    });
+
+    // Insert from the end so earlier offsets stay valid
+    const edits = casts.flatMap(({ node, cast }) => node.kind === 'Parenthesized'
+      ? [{ offset: node.range.start.offset, text: cast }]
+      : [{ offset: node.range.start.offset, text: `${cast}(` }, { offset: node.range.end.offset, text: ')' }]);
+    const migrated = edits
+      .sort((a, b) => b.offset - a.offset)
+      .reduce((text, edit) => text.slice(0, edit.offset) + edit.text + text.slice(edit.offset), code);
+
+    casts.forEach(({ node, cast }) => this.changes.push({
+      code: cast === 'bool' ? 'bool_condition' : 'int_division',
+      message: cast === 'bool'
+        ? 'int and float values are no longer used as bool in v6; wrapped in bool()'
+        : 'Dividing ints returns a float in v6; wrapped in int() where an int is expected',
+      line: this.originalLine(node.range.start.line)
+    }));
+
+    this.program.body.forEach(statement => walk(statement, node => {
+      if (node.kind !== 'Call' || !['na', 'nz'].includes(this.builtinName(node.callee) ?? '')) return;
+      const arg = node.args[0]?.value;
+      if (arg?.kind === 'Identifier' && this.boolNames.has(arg.name)) {
+        this.flag('bool_na', `bool values cannot be na in v6, so ${memberPath(node.callee)}(${arg.name}) no longer detects a missing value`, node);
+      }
+    }));
+
+    // Whatever the checker still rejects has no automatic rewrite; lines flagged above are not repeated
+    const flagged = new Set(this.unsupported.map(issue => issue.line));
+    checkPine(parsePine(migrated).program, migrated)
+      .filter(diagnostic => diagnostic.severity === 'error')
+      .map(diagnostic => ({ code: diagnostic.code, message: diagnostic.message, line: this.originalLine(diagnostic.range.start.line) }))
+      .filter(issue => !flagged.has(issue.line))
+      .forEach(issue => this.unsupported.push(issue));
+
+    const byLine = (a: PineMigrationChange, b: PineMigrationChange) => a.line - b.line;
+    return { code: migrated, changes: this.changes.sort(byLine), unsupported: this.unsupported.sort(byLine) };
+  }
+}
+
+/**
+ * Migrates a v4 or v5 script to v6. Scripts already on v6 come back as they
+ * are; scripts without a //@version annotation or older than v4 are not
+ * touched and are reported as unsupported.
+ */
+export function migratePine(source: string): PineMigrationResult {
+  const normalized = source.replace(/\r\n?/g, '\n');
+  const { program, errors } = parsePine(normalized);
+  const fromVersion = program.version;
+  const unchanged = { code: source, fromVersion, changed: false, changes: [], unsupported: [], errors };
+
+  if (errors.length > 0 || (fromVersion !== null && fromVersion >= TARGET_PINE_VERSION)) return unchanged;
+  if (fromVersion === null || fromVersion < 4) {
+    return {
+      ...unchanged,
+      unsupported: [{
+        code: 'version_unsupported',
+        message: fromVersion === null
+          ? 'The script has no //@version annotation, so its Pine Script version is unknown'
+          : `Pine Script v${fromVersion} is too old to migrate automatically; convert it to v4 first`,
+        line: 1
+      }]
+    };
+  }
+
+  const { code, changes, unsupported } = new Migrator(program, normalized).migrate();
+  return { code, fromVersion, changed: code !== source, changes, unsupported, errors: [] };
+}
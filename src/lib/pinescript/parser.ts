@@ -0,0 +1,937 @@
+/**
+ * Pine Script Parser - Recursive descent parser
+ *
+ * Builds the typed AST in ./ast from lexer tokens. The parser recovers at
+ * statement boundaries, so one syntax error does not hide the rest of the
+ * script: every error is reported with its range and the statements around
+ * it are still parsed.
+ *
+ * Operator precedence follows the Pine v6 reference, lowest first:
+ * ?: , or, and, == !=, < > <= >=, + -, * / %, unary + - not, [] history
+ */
+
+import { tokenize } from './lexer';
+import type {
+  Argument,
+  Assignment,
+  AssignmentOperator,
+  BinaryOperator,
+  Block,
+  EnumDeclaration,
+  EnumField,
+  Expression,
+  ExpressionStatement,
+  FieldDeclaration,
+  ForInStatement,
+  ForStatement,
+  FunctionDeclaration,
+  Identifier,
+  IfStatement,
+  ImportStatement,
+  MemberExpression,
+  Parameter,
+  PineDiagnostic,
+  Program,
+  SourceRange,
+  Statement,
+  SwitchCase,
+  SwitchStatement,
+  Token,
+  TupleDeclaration,
+  TypeDeclaration,
+  TypeNode,
+  TypeQualifier,
+  VariableDeclaration,
+  WhileStatement
+} from './ast';
+
+export interface ParseResult {
+  program: Program;
+  errors: PineDiagnostic[]; // Lexer and parser errors in source order
+}
+
+export const TYPE_QUALIFIERS: TypeQualifier[] = ['const', 'input', 'simple', 'series'];
+
+const ASSIGNMENT_OPERATORS: AssignmentOperator[] = [':=', '+=', '-=', '*=', '/=', '%='];
+
+// Binary levels from loosest to tightest; ?: and unary operators are handled separately
+const BINARY_LEVELS: BinaryOperator[][] = [
+  ['or'],
+  ['and'],
+  ['==', '!='],
+  ['<', '>', '<=', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+const STRUCTURE_KEYWORDS = ['if', 'switch', 'for', 'while'];
+
+// Thrown to unwind to the enclosing statement, which records it and resynchronizes
+class ParseFailure extends Error {
+  constructor(readonly diagnostic: PineDiagnostic) {
+    super(diagnostic.message);
+  }
+}
+
+class Parser {
+  private source: string;
+  private tokens: Token[];
+  private index = 0;
+  private errors: PineDiagnostic[] = [];
+
+  constructor(source: string, tokens: Token[]) {
+    this.source = source;
+    this.tokens = tokens;
+  }
+
+  public parseProgram(): { body: Statement[]; errors: PineDiagnostic[] } {
+    const body: Statement[] = [];
+    while (!this.check('eof')) {
+      // Stray dedents only follow earlier indentation errors
+      if (this.match('newline') || this.match('dedent')) continue;
+      const statement = this.parseStatementSafely();
+      if (statement) body.push(statement);
+    }
+    return { body, errors: this.errors };
+  }
+
+  // ===========================================================================
+  // Statements
+  // ===========================================================================
+
+  private parseStatementSafely(): Statement | null {
+    const start = this.index;
+    try {
+      return this.parseStatement();
+    } catch (error) {
+      if (!(error instanceof ParseFailure)) throw error;
+      this.errors.push(error.diagnostic);
+      this.synchronize(start);
+      return null;
+    }
+  }
+
+  private parseStatement(): Statement {
+    const token = this.peek();
+
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'import':
+          return this.endStatement(this.parseImport());
+        case 'export':
+          return this.parseExport();
+        case 'if':
+        case 'switch':
+        case 'for':
+        case 'while':
+          return this.endStatement(this.parseStructure());
+        case 'break':
+        case 'continue':
+          this.advance();
+          return this.endStatement({
+            kind: token.value === 'break' ? 'Break' : 'Continue',
+            range: token.range
+          });
+      }
+    }
+
+    if (this.isDeclarationKeyword('method')) {
+      return this.endStatement(this.parseFunction(false));
+    }
+    if (this.isDeclarationKeyword('type')) {
+      return this.parseTypeDeclaration(false);
+    }
+    if (this.isDeclarationKeyword('enum')) {
+      return this.parseEnumDeclaration(false);
+    }
+    if (this.check('punctuation', '[') && this.isTupleDeclaration()) {
+      return this.endStatement(this.parseTupleDeclaration());
+    }
+    if (token.type === 'identifier' && this.isFunctionDeclaration()) {
+      return this.endStatement(this.parseFunction(false));
+    }
+
+    const declaration = this.tryParseVariableDeclaration();
+    if (declaration) {
+      return this.endStatement(declaration);
+    }
+
+    return this.endStatement(this.parseSimpleStatement());
+  }
+
+  // Assignments and expression statements, the only forms allowed in one-line switch branches
+  private parseSimpleStatement(): Assignment | ExpressionStatement {
+    const expression = this.parseExpression();
+    const operator = this.peek();
+    if (operator.type === 'operator' && ASSIGNMENT_OPERATORS.includes(operator.value as AssignmentOperator)) {
+      if (expression.kind !== 'Identifier' && expression.kind !== 'Member') {
+        this.fail('Only variables and fields can be reassigned', expression.range);
+      }
+      this.advance();
+      const value = this.parseExpressionOrStructure();
+      return {
+        kind: 'Assignment',
+        operator: operator.value as AssignmentOperator,
+        target: expression as Identifier | MemberExpression,
+        value,
+        range: this.span(expression.range, value.range)
+      };
+    }
+    if (operator.type === 'operator' && operator.value === '=') {
+      this.fail('Use := to reassign a variable declared earlier', operator.range);
+    }
+    return { kind: 'ExpressionStatement', expression, range: expression.range };
+  }
+
+  private endStatement<T extends Statement>(statement: T): T {
+    this.endLine();
+    return statement;
+  }
+
+  private endLine(): void {
+    if (this.match('newline')) return;
+    // Blocks end with a dedent, which already closed the line
+    if (this.previous()?.type === 'dedent' || this.check('dedent') || this.check('eof')) return;
+    const token = this.peek();
+    this.fail(`Expected end of line but found ${this.describe(token)}`, token.range);
+  }
+
+  private parseExport(): Statement {
+    const exportToken = this.advance();
+    if (this.isDeclarationKeyword('type')) return this.parseTypeDeclaration(true, exportToken);
+    if (this.isDeclarationKeyword('enum')) return this.parseEnumDeclaration(true, exportToken);
+    if (this.isDeclarationKeyword('method') || (this.check('identifier') && this.isFunctionDeclaration())) {
+      return this.endStatement(this.parseFunction(true, exportToken));
+    }
+    this.fail('Only functions, methods, types and enums can be exported', this.peek().range);
+  }
+
+  private parseImport(): ImportStatement {
+    const start = this.advance();
+    const pathTokens: Token[] = [];
+    while (!this.check('newline') && !this.check('eof') && !this.check('keyword', 'as')) {
+      pathTokens.push(this.advance());
+    }
+    if (pathTokens.length === 0) {
+      this.fail('Expected a library path such as user/library/1', start.range);
+    }
+
+    const first = pathTokens[0].range.start.offset;
+    const last = pathTokens[pathTokens.length - 1].range.end.offset;
+    const node: ImportStatement = {
+      kind: 'Import',
+      path: this.source.slice(first, last).replace(/\s+/g, ''),
+      range: start.range
+    };
+    if (this.match('keyword', 'as')) {
+      node.alias = this.parseIdentifier();
+    }
+    node.range = this.rangeFrom(start);
+    return node;
+  }
+
+  // name(params) => body, optionally preceded by export and/or method
+  private parseFunction(isExport: boolean, exportToken?: Token): FunctionDeclaration {
+    const start = exportToken || this.peek();
+    const isMethod = this.isDeclarationKeyword('method');
+    if (isMethod) this.advance();
+    const name = this.parseIdentifier();
+
+    this.expect('punctuation', '(', `Expected "(" after function name "${name.name}"`);
+    const params: Parameter[] = [];
+    if (!this.check('punctuation', ')')) {
+      do {
+        params.push(this.parseParameter());
+      } while (this.match('punctuation', ','));
+    }
+    this.expect('punctuation', ')', 'Expected ")" after function parameters');
+    this.expect('operator', '=>', `Expected "=>" after the parameters of "${name.name}"`);
+
+    const body = this.check('newline') ? this.parseBlock() : this.parseExpressionOrStructure();
+    return { kind: 'FunctionDeclaration', name, params, body, isMethod, isExport, range: this.rangeFrom(start) };
+  }
+
+  private parseParameter(): Parameter {
+    const start = this.peek();
+    const qualifier = this.parseQualifier();
+    const type = this.tryParseTypedName();
+    if (qualifier && !type && !(this.check('identifier') && this.isParameterEnd(1))) {
+      this.fail(`Expected a type after "${qualifier}"`, this.peek().range);
+    }
+
+    const name = this.parseIdentifier();
+    const parameter: Parameter = { kind: 'Parameter', name, range: name.range };
+    if (qualifier) parameter.qualifier = qualifier;
+    if (type) parameter.type = type;
+    if (this.match('operator', '=')) {
+      parameter.defaultValue = this.parseExpression();
+    }
+    parameter.range = this.rangeFrom(start);
+    return parameter;
+  }
+
+  private isParameterEnd(ahead: number): boolean {
+    const next = this.peek(ahead);
+    return (next.type === 'punctuation' && (next.value === ',' || next.value === ')')) ||
+      (next.type === 'operator' && next.value === '=');
+  }
+
+  private parseTypeDeclaration(isExport: boolean, exportToken?: Token): TypeDeclaration {
+    const start = exportToken || this.advance();
+    if (exportToken) this.advance();
+    const name = this.parseIdentifier();
+    const fields = this.parseMemberBlock(`type "${name.name}"`, () => {
+      const fieldStart = this.peek();
+      const isVarip = !!this.match('keyword', 'varip');
+      const type = this.parseType();
+      const fieldName = this.parseIdentifier();
+      const field: FieldDeclaration = { kind: 'FieldDeclaration', isVarip, type, name: fieldName, range: fieldName.range };
+      if (this.match('operator', '=')) {
+        field.defaultValue = this.parseExpression();
+      }
+      field.range = this.rangeFrom(fieldStart);
+      return field;
+    });
+    return { kind: 'TypeDeclaration', name, fields, isExport, range: this.rangeFrom(start) };
+  }
+
+  private parseEnumDeclaration(isExport: boolean, exportToken?: Token): EnumDeclaration {
+    const start = exportToken || this.advance();
+    if (exportToken) this.advance();
+    const name = this.parseIdentifier();
+    const fields = this.parseMemberBlock(`enum "${name.name}"`, () => {
+      const fieldName = this.parseIdentifier();
+      const field: EnumField = { kind: 'EnumField', name: fieldName, range: fieldName.range };
+      if (this.match('operator', '=')) {
+        const title = this.expect('string', undefined, `Enum field "${fieldName.name}" title must be a string`);
+        field.title = { kind: 'String', value: title.value, raw: this.text(title), range: title.range };
+        field.range = this.span(fieldName.range, title.range);
+      }
+      return field;
+    });
+    return { kind: 'EnumDeclaration', name, fields, isExport, range: this.rangeFrom(start) };
+  }
+
+  // The indented field list of a type or enum, one member per line
+  private parseMemberBlock<T>(owner: string, parseMember: () => T): T[] {
+    this.expect('newline', undefined, `Expected a new line after ${owner}`);
+    this.expect('indent', undefined, `Expected indented fields in ${owner}`);
+    const members: T[] = [];
+    while (!this.check('dedent') && !this.check('eof')) {
+      try {
+        members.push(parseMember());
+        this.endLine();
+      } catch (error) {
+        if (!(error instanceof ParseFailure)) throw error;
+        this.errors.push(error.diagnostic);
+        this.synchronize(this.index);
+      }
+    }
+    this.match('dedent');
+    return members;
+  }
+
+  private parseTupleDeclaration(): TupleDeclaration {
+    const start = this.advance();
+    const names: Identifier[] = [];
+    do {
+      names.push(this.parseIdentifier());
+    } while (this.match('punctuation', ','));
+    this.expect('punctuation', ']', 'Expected "]" after tuple names');
+    this.expect('operator', '=', 'Expected "=" after tuple names');
+    const init = this.parseExpressionOrStructure();
+    return { kind: 'TupleDeclaration', names, init, range: this.rangeFrom(start) };
+  }
+
+  /**
+   * [var|varip] [qualifier] [type] name = value. Returns null, without
+   * consuming anything, when the statement is not a declaration.
+   */
+  private tryParseVariableDeclaration(): VariableDeclaration | null {
+    const startIndex = this.index;
+    const start = this.peek();
+    const modeToken = this.match('keyword', 'var') || this.match('keyword', 'varip');
+    const qualifier = this.parseQualifier();
+
+    let type: TypeNode | undefined;
+    if (!(this.check('identifier') && this.check('operator', '=', 1))) {
+      type = this.tryParseTypedName();
+      if (!type) {
+        if (modeToken || qualifier) {
+          this.fail(`Expected a variable declaration after "${(modeToken?.value || qualifier)}"`, this.peek().range);
+        }
+        this.index = startIndex;
+        return null;
+      }
+    }
+
+    const name = this.parseIdentifier();
+    if (!this.check('operator', '=')) {
+      // "float x" on its own: a typed name that was never given a value
+      this.fail(`Variable "${name.name}" must be initialized`, name.range);
+    }
+    this.advance();
+    const init = this.parseExpressionOrStructure();
+
+    const declaration: VariableDeclaration = { kind: 'VariableDeclaration', name, init, range: this.rangeFrom(start) };
+    if (modeToken) declaration.mode = modeToken.value as 'var' | 'varip';
+    if (qualifier) declaration.qualifier = qualifier;
+    if (type) declaration.type = type;
+    return declaration;
+  }
+
+  private parseQualifier(): TypeQualifier | undefined {
+    const token = this.peek();
+    if (token.type === 'identifier' && TYPE_QUALIFIERS.includes(token.value as TypeQualifier) &&
+        this.peek(1).type === 'identifier') {
+      this.advance();
+      return token.value as TypeQualifier;
+    }
+    return undefined;
+  }
+
+  // A type followed by a name, as in "float x" or "array<int> values"; restores on failure
+  private tryParseTypedName(): TypeNode | undefined {
+    const startIndex = this.index;
+    const type = this.tryParseType();
+    if (type && this.check('identifier')) return type;
+    this.index = startIndex;
+    return undefined;
+  }
+
+  private parseType(): TypeNode {
+    const type = this.tryParseType();
+    if (!type) this.fail('Expected a type', this.peek().range);
+    return type;
+  }
+
+  // int, lib.Type, array<float>, map<string, int>, float[]; null without consuming when absent
+  private tryParseType(): TypeNode | null {
+    const startIndex = this.index;
+    const start = this.peek();
+    if (start.type !== 'identifier') return null;
+
+    let name = this.advance().value;
+    while (this.check('punctuation', '.') && this.peek(1).type === 'identifier') {
+      this.advance();
+      name += `.${this.advance().value}`;
+    }
+
+    const type: TypeNode = { kind: 'Type', name, args: [], range: start.range };
+    if (this.check('operator', '<')) {
+      const args = this.tryParseTypeArguments();
+      if (!args) {
+        this.index = startIndex;
+        return null;
+      }
+      type.args = args;
+    } else if (this.check('punctuation', '[') && this.check('punctuation', ']', 1)) {
+      this.advance();
+      this.advance();
+      type.isArrayShorthand = true;
+    }
+    type.range = this.rangeFrom(start);
+    return type;
+  }
+
+  private tryParseTypeArguments(): TypeNode[] | null {
+    const startIndex = this.index;
+    this.advance();
+    const args: TypeNode[] = [];
+    do {
+      const arg = this.tryParseType();
+      if (!arg) {
+        this.index = startIndex;
+        return null;
+      }
+      args.push(arg);
+    } while (this.match('punctuation', ','));
+    if (!this.match('operator', '>')) {
+      this.index = startIndex;
+      return null;
+    }
+    return args;
+  }
+
+  // ===========================================================================
+  // Structures: if, switch, for, while (statements that also yield a value)
+  // ===========================================================================
+
+  private parseExpressionOrStructure(): Expression {
+    return this.check('keyword') && STRUCTURE_KEYWORDS.includes(this.peek().value)
+      ? this.parseStructure()
+      : this.parseExpression();
+  }
+
+  private parseStructure(): IfStatement | SwitchStatement | ForStatement | ForInStatement | WhileStatement {
+    switch (this.peek().value) {
+      case 'if':
+        return this.parseIf();
+      case 'switch':
+        return this.parseSwitch();
+      case 'for':
+        return this.parseFor();
+      default:
+        return this.parseWhile();
+    }
+  }
+
+  private parseIf(): IfStatement {
+    const start = this.advance();
+    const test = this.parseExpression();
+    const consequent = this.parseBlock();
+    const node: IfStatement = { kind: 'If', test, consequent, range: this.rangeFrom(start) };
+
+    if (this.match('keyword', 'else')) {
+      node.alternate = this.check('keyword', 'if') ? this.parseIf() : this.parseBlock();
+      node.range = this.span(start.range, node.alternate.range);
+    }
+    return node;
+  }
+
+  private parseSwitch(): SwitchStatement {
+    const start = this.advance();
+    const node: SwitchStatement = { kind: 'Switch', cases: [], range: start.range };
+    if (!this.check('newline')) {
+      node.discriminant = this.parseExpression();
+    }
+    this.expect('newline', undefined, 'Expected a new line after switch');
+    this.expect('indent', undefined, 'Expected indented cases after switch');
+
+    while (!this.check('dedent') && !this.check('eof')) {
+      const caseStart = this.peek();
+      try {
+        const test = this.check('operator', '=>') ? undefined : this.parseExpression();
+        this.expect('operator', '=>', 'Expected "=>" after switch case');
+        const body = this.parseBranchBody();
+        const branch: SwitchCase = { kind: 'SwitchCase', body, range: this.rangeFrom(caseStart) };
+        if (test) branch.test = test;
+        node.cases.push(branch);
+        if (body.kind !== 'Block') {
+          this.endLine();
+        }
+      } catch (error) {
+        if (!(error instanceof ParseFailure)) throw error;
+        this.errors.push(error.diagnostic);
+        this.synchronize(this.index);
+      }
+    }
+    this.match('dedent');
+    node.range = this.rangeFrom(start);
+    return node;
+  }
+
+  // A case body: an indented block, or one expression or assignment on the same line
+  private parseBranchBody(): Block | Expression {
+    if (this.check('newline')) return this.parseBlock();
+    if (this.check('keyword') && STRUCTURE_KEYWORDS.includes(this.peek().value)) return this.parseStructure();
+
+    const statement = this.parseSimpleStatement();
+    if (statement.kind === 'ExpressionStatement') return statement.expression;
+    return { kind: 'Block', body: [statement], range: statement.range };
+  }
+
+  private parseFor(): ForStatement | ForInStatement {
+    const start = this.advance();
+
+    if (this.match('punctuation', '[')) {
+      const index = this.parseIdentifier();
+      this.expect('punctuation', ',', 'Expected "," between the index and item of a for...in loop');
+      const item = this.parseIdentifier();
+      this.expect('punctuation', ']', 'Expected "]" after the for...in names');
+      this.expect('keyword', 'in', 'Expected "in" after the for...in names');
+      const iterable = this.parseExpression();
+      const body = this.parseBlock();
+      return { kind: 'ForIn', index, item, iterable, body, range: this.rangeFrom(start) };
+    }
+
+    const counter = this.parseIdentifier();
+    if (this.match('keyword', 'in')) {
+      const iterable = this.parseExpression();
+      const body = this.parseBlock();
+      return { kind: 'ForIn', item: counter, iterable, body, range: this.rangeFrom(start) };
+    }
+
+    this.expect('operator', '=', `Expected "=" or "in" after loop variable "${counter.name}"`);
+    const from = this.parseExpression();
+    this.expect('keyword', 'to', 'Expected "to" in for loop');
+    const to = this.parseExpression();
+    const step = this.match('keyword', 'by') ? this.parseExpression() : undefined;
+    const body = this.parseBlock();
+    const node: ForStatement = { kind: 'For', counter, from, to, body, range: this.rangeFrom(start) };
+    if (step) node.step = step;
+    return node;
+  }
+
+  private parseWhile(): WhileStatement {
+    const start = this.advance();
+    const test = this.parseExpression();
+    const body = this.parseBlock();
+    return { kind: 'While', test, body, range: this.rangeFrom(start) };
+  }
+
+  private parseBlock(): Block {
+    this.expect('newline', undefined, `Expected a new line before the block but found ${this.describe(this.peek())}`);
+    const indent = this.expect('indent', undefined, 'Expected an indented block');
+
+    const body: Statement[] = [];
+    while (!this.check('dedent') && !this.check('eof')) {
+      if (this.match('newline')) continue;
+      const statement = this.parseStatementSafely();
+      if (statement) body.push(statement);
+    }
+    this.match('dedent');
+
+    const range = body.length > 0
+      ? this.span(body[0].range, body[body.length - 1].range)
+      : indent.range;
+    return { kind: 'Block', body, range };
+  }
+
+  // ===========================================================================
+  // Expressions
+  // ===========================================================================
+
+  private parseExpression(): Expression {
+    const test = this.parseBinary(0);
+    if (!this.match('operator', '?')) return test;
+
+    const consequent = this.parseExpression();
+    this.expect('operator', ':', 'Expected ":" in conditional expression');
+    const alternate = this.parseExpression();
+    return { kind: 'Conditional', test, consequent, alternate, range: this.span(test.range, alternate.range) };
+  }
+
+  private parseBinary(level: number): Expression {
+    if (level >= BINARY_LEVELS.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    while (true) {
+      const token = this.peek();
+      const isOperator = (token.type === 'operator' || token.type === 'keyword') &&
+        BINARY_LEVELS[level].includes(token.value as BinaryOperator);
+      if (!isOperator) return left;
+
+      this.advance();
+      const right = this.parseBinary(level + 1);
+      left = {
+        kind: 'Binary',
+        operator: token.value as BinaryOperator,
+        left,
+        right,
+        range: this.span(left.range, right.range)
+      };
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (this.check('operator', '-') || this.check('operator', '+') || this.check('keyword', 'not')) {
+      this.advance();
+      const operand = this.parseUnary();
+      return {
+        kind: 'Unary',
+        operator: token.value as '-' | '+' | 'not',
+        operand,
+        range: this.span(token.range, operand.range)
+      };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+
+    while (true) {
+      if (this.match('punctuation', '.')) {
+        const property = this.parseIdentifier();
+        expression = { kind: 'Member', object: expression, property, range: this.span(expression.range, property.range) };
+      } else if (this.check('punctuation', '(')) {
+        expression = this.parseCall(expression, []);
+      } else if (this.check('operator', '<') && (expression.kind === 'Identifier' || expression.kind === 'Member')) {
+        // array.new<float>(...) rather than a comparison when type arguments and a call follow
+        const startIndex = this.index;
+        const typeArguments = this.tryParseTypeArguments();
+        if (!typeArguments || !this.check('punctuation', '(')) {
+          this.index = startIndex;
+          return expression;
+        }
+        expression = this.parseCall(expression, typeArguments);
+      } else if (this.match('punctuation', '[')) {
+        const offset = this.parseExpression();
+        this.expect('punctuation', ']', 'Expected "]" after history offset');
+        expression = { kind: 'History', target: expression, offset, range: this.span(expression.range, this.previous()!.range) };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseCall(callee: Expression, typeArguments: TypeNode[]): Expression {
+    this.advance();
+    const args: Argument[] = [];
+    let named = false;
+
+    if (!this.check('punctuation', ')')) {
+      do {
+        const start = this.peek();
+        let name: Identifier | undefined;
+        if (this.check('identifier') && this.check('operator', '=', 1)) {
+          name = this.parseIdentifier();
+          this.advance();
+          named = true;
+        } else if (named) {
+          this.fail('Positional arguments cannot follow named arguments', start.range);
+        }
+        const argument: Argument = { kind: 'Argument', value: this.parseExpression(), range: start.range };
+        if (name) argument.name = name;
+        argument.range = this.rangeFrom(start);
+        args.push(argument);
+      } while (this.match('punctuation', ','));
+    }
+
+    this.expect('punctuation', ')', 'Expected ")" after arguments');
+    return { kind: 'Call', callee, typeArguments, args, range: this.span(callee.range, this.previous()!.range) };
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return {
+          kind: 'Number',
+          value: Number(token.value),
+          raw: token.value,
+          isInteger: /^[0-9]+$/.test(token.value),
+          range: token.range
+        };
+      case 'string':
+        this.advance();
+        return { kind: 'String', value: token.value, raw: this.text(token), range: token.range };
+      case 'color':
+        this.advance();
+        return { kind: 'Color', value: token.value, range: token.range };
+      case 'identifier':
+        this.advance();
+        // na is a value unless called as na(x)
+        if (token.value === 'na' && !this.check('punctuation', '(')) {
+          return { kind: 'Na', range: token.range };
+        }
+        return { kind: 'Identifier', name: token.value, range: token.range };
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          this.advance();
+          return { kind: 'Bool', value: token.value === 'true', range: token.range };
+        }
+        if (STRUCTURE_KEYWORDS.includes(token.value)) {
+          this.fail(`"${token.value}" can only start a statement or the value of a declaration`, token.range);
+        }
+        break;
+      case 'punctuation':
+        if (token.value === '(') {
+          this.advance();
+          const expression = this.parseExpression();
+          this.expect('punctuation', ')', 'Expected ")"');
+          return { kind: 'Parenthesized', expression, range: this.rangeFrom(token) };
+        }
+        if (token.value === '[') {
+          this.advance();
+          const elements: Expression[] = [];
+          if (!this.check('punctuation', ']')) {
+            do {
+              elements.push(this.parseExpression());
+            } while (this.match('punctuation', ','));
+          }
+          this.expect('punctuation', ']', 'Expected "]" after tuple elements');
+          return { kind: 'Tuple', elements, range: this.rangeFrom(token) };
+        }
+        break;
+    }
+
+    this.fail(`Unexpected ${this.describe(token)}`, token.range);
+  }
+
+  private parseIdentifier(): Identifier {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      this.fail(`Expected a name but found ${this.describe(token)}`, token.range);
+    }
+    this.advance();
+    return { kind: 'Identifier', name: token.value, range: token.range };
+  }
+
+  // ===========================================================================
+  // Lookahead
+  // ===========================================================================
+
+  // method, type and enum start a declaration only when a name follows
+  private isDeclarationKeyword(keyword: 'method' | 'type' | 'enum'): boolean {
+    if (!this.check('identifier', keyword) || this.peek(1).type !== 'identifier') return false;
+    return keyword !== 'method' || this.check('punctuation', '(', 2);
+  }
+
+  // name(...) =>, found by skipping to the matching parenthesis
+  private isFunctionDeclaration(): boolean {
+    if (!this.check('punctuation', '(', 1)) return false;
+    const close = this.findClosing(this.index + 1);
+    return close !== -1 && this.tokens[close + 1]?.type === 'operator' && this.tokens[close + 1].value === '=>';
+  }
+
+  // [a, b] = ..., as opposed to a tuple expression statement
+  private isTupleDeclaration(): boolean {
+    const close = this.findClosing(this.index);
+    const next = close === -1 ? undefined : this.tokens[close + 1];
+    return next?.type === 'operator' && next.value === '=';
+  }
+
+  private findClosing(openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === 'newline' || token.type === 'eof') return -1;
+      if (token.type !== 'punctuation') continue;
+      if (token.value === '(' || token.value === '[') depth++;
+      if (token.value === ')' || token.value === ']') depth--;
+      if (depth === 0) return i;
+    }
+    return -1;
+  }
+
+  // ===========================================================================
+  // Error recovery
+  // ===========================================================================
+
+  /**
+   * Skips the rest of a broken statement, including any block it opened,
+   * stopping before the dedent that closes the enclosing block.
+   */
+  private synchronize(startIndex: number): void {
+    // Always make progress; an unexpected indent is skipped with its block below
+    if (this.index === startIndex && !this.check('eof') && !this.check('dedent') && !this.check('indent')) {
+      this.advance();
+    }
+
+    let depth = 0;
+    while (!this.check('eof')) {
+      const token = this.peek();
+      if (token.type === 'dedent') {
+        if (depth === 0) return;
+        depth--;
+        this.advance();
+        // The broken statement's block is over unless an else branch follows
+        if (depth === 0 && !this.check('keyword', 'else')) return;
+        continue;
+      }
+      if (token.type === 'indent') {
+        depth++;
+      } else if (token.type === 'newline' && depth === 0) {
+        this.advance();
+        if (!this.check('indent')) return;
+        continue;
+      }
+      this.advance();
+    }
+  }
+
+  // ===========================================================================
+  // Token helpers
+  // ===========================================================================
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private previous(): Token | undefined {
+    return this.tokens[this.index - 1];
+  }
+
+  private check(type: Token['type'], value?: string, ahead = 0): boolean {
+    const token = this.peek(ahead);
+    return token.type === type && (value === undefined || token.value === value);
+  }
+
+  private match(type: Token['type'], value?: string): Token | null {
+    return this.check(type, value) ? this.advance() : null;
+  }
+
+  private expect(type: Token['type'], value: string | undefined, message: string): Token {
+    const token = this.match(type, value);
+    if (!token) this.fail(message, this.peek().range);
+    return token;
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private fail(message: string, range: SourceRange): never {
+    throw new ParseFailure({ message, range });
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'newline':
+        return 'end of line';
+      case 'indent':
+        return 'indentation';
+      case 'dedent':
+        return 'end of block';
+      case 'eof':
+        return 'end of script';
+      case 'string':
+        return this.text(token);
+      default:
+        return `"${token.value}"`;
+    }
+  }
+
+  // Original source text of a token, quotes included for strings
+  private text(token: Token): string {
+    return this.source.slice(token.range.start.offset, token.range.end.offset);
+  }
+
+  // From a start token to the last code token consumed, ignoring line and block markers
+  private rangeFrom(start: Token): SourceRange {
+    for (let i = this.index - 1; i >= 0; i--) {
+      const token = this.tokens[i];
+      if (token.range.end.offset < start.range.end.offset) break;
+      if (!['newline', 'indent', 'dedent', 'eof'].includes(token.type)) {
+        return { start: start.range.start, end: token.range.end };
+      }
+    }
+    return start.range;
+  }
+
+  private span(start: SourceRange, end: SourceRange): SourceRange {
+    return { start: start.start, end: end.end };
+  }
+}
+
+/**
+ * Parses Pine Script source into a Program. Never throws on bad input:
+ * syntax errors are returned alongside the statements that did parse.
+ */
+export function parsePine(source: string): ParseResult {
+  const normalized = source.replace(/\r\n?/g, '\n');
+  const lexed = tokenize(normalized);
+  const parsed = new Parser(normalized, lexed.tokens).parseProgram();
+
+  const versionComment = lexed.comments.find(comment => comment.annotation?.name === 'version');
+  const version = versionComment ? parseInt(versionComment.annotation!.value, 10) : NaN;
+  const end = lexed.tokens[lexed.tokens.length - 1].range.end;
+
+  return {
+    program: {
+      kind: 'Program',
+      version: isNaN(version) ? null : version,
+      body: parsed.body,
+      comments: lexed.comments,
+      range: { start: { line: 1, column: 1, offset: 0 }, end }
+    },
+    errors: [...lexed.errors, ...parsed.errors].sort((a, b) => a.range.start.offset - b.range.start.offset)
+  };
+}
@@ -166,7 +166,7 @@ class SimpleApiKeyManager {
   }
 
   getAvailableProviders(): string[] {
-    return ['openai', 'anthropic', 'google', 'deepseek', 'ollama'];
+    return ['openai', 'anthropic', 'google', 'deepseek', 'ollama', 'local'];
   }
 }
 
@@ -0,0 +1,292 @@
+import { after } from 'next/server';
+import { Worker } from 'worker_threads';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_BACKTEST_CONFIG } from '@/lib/backtesting';
+import type { BacktestRunResult, OHLCVBar } from '@/lib/backtesting';
+import type { CustomEdge, CustomNode } from '@/app/builder/canvas-config';
+import { MarketDataService } from '@/services/market-data-service';
+import type { BacktestWorkerInput } from '@/services/backtest-worker';
+import { settleWorker } from '@/services/worker-task';
+import {
+  BacktestConfig,
+  BacktestRunResults,
+  BacktestStatus,
+  PerformanceMetrics,
+} from '@/types/strategy';
+
+const MAX_BARS_PER_RUN = 200000;
+
+export interface BacktestRunRequest {
+  config: BacktestConfig;
+  bars: OHLCVBar[];
+}
+
+export interface StrategyGraph {
+  nodes: CustomNode[];
+  connections: CustomEdge[];
+}
+
+export class BacktestService {
+  /**
+   * Validate a run request body and normalize it into a config and bar list
+   */
+  static parseRunRequest(body: any): { request?: BacktestRunRequest; errors: string[] } {
+    const errors: string[] = [];
+    const bars = this.normalizeBars(body?.bars, errors);
+
+    if (errors.length === 0 && bars.length === 0) {
+      errors.push('bars must be a non-empty array of OHLCV bars');
+    }
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const input = body.config || {};
+    const numberOr = (value: unknown, fallback: number, name: string) => {
+      if (value === undefined || value === null) return fallback;
+      const parsed = Number(value);
+      if (!isFinite(parsed) || parsed < 0) {
+        errors.push(`config.${name} must be a non-negative number`);
+        return fallback;
+      }
+      return parsed;
+    };
+
+    const config: BacktestConfig = {
+      symbol: typeof input.symbol === 'string' && input.symbol ? input.symbol : 'CUSTOM',
+      timeframe: typeof input.timeframe === 'string' && input.timeframe ? input.timeframe : 'unknown',
+      startDate: new Date(bars[0].time),
+      endDate: new Date(bars[bars.length - 1].time),
+      initialCapital: numberOr(input.initialCapital, DEFAULT_BACKTEST_CONFIG.initialCapital, 'initialCapital'),
+      commission: numberOr(input.commission, DEFAULT_BACKTEST_CONFIG.commissionPercent, 'commission'),
+      slippageTicks: numberOr(input.slippageTicks, DEFAULT_BACKTEST_CONFIG.slippageTicks, 'slippageTicks'),
+      tickSize: numberOr(input.tickSize, DEFAULT_BACKTEST_CONFIG.tickSize, 'tickSize'),
+      qtyPercentOfEquity: numberOr(input.qtyPercentOfEquity, DEFAULT_BACKTEST_CONFIG.qtyPercentOfEquity, 'qtyPercentOfEquity'),
+      barCount: bars.length,
+    };
+
+    if (config.initialCapital <= 0) {
+      errors.push('config.initialCapital must be greater than zero');
+    }
+
+    return errors.length > 0 ? { errors } : { request: { config, bars }, errors };
+  }
+
+  /**
+   * Like parseRunRequest, but bars may come from a stored dataset, selected
+   * by datasetId or by config.symbol and config.timeframe
+   */
+  static async resolveRunRequest(
+    body: any,
+    userId: string
+  ): Promise<{ request?: BacktestRunRequest; errors: string[] }> {
+    if (Array.isArray(body?.bars)) {
+      return this.parseRunRequest(body);
+    }
+
+    const config = body?.config || {};
+    if (!body?.datasetId && !config.symbol) {
+      return { errors: ['Provide bars, a datasetId, or config.symbol and config.timeframe'] };
+    }
+
+    let dataset;
+    try {
+      dataset = await MarketDataService.loadBars(userId, {
+        datasetId: body.datasetId,
+        symbol: config.symbol,
+        timeframe: config.timeframe,
+      });
+    } catch (error) {
+      return { errors: [error instanceof Error ? error.message : 'Could not load dataset'] };
+    }
+
+    const parsed = this.parseRunRequest({
+      ...body,
+      bars: dataset.bars,
+      config: { ...config, symbol: dataset.symbol, timeframe: dataset.timeframe },
+    });
+
+    if (parsed.request) {
+      parsed.request.config.datasetId = dataset.datasetId;
+      parsed.request.config.resampledFrom = dataset.resampledFrom;
+    }
+    return parsed;
+  }
+
+  /**
+   * A strategy's nodes and connections, stored as JSON text or already
+   * parsed; null when either is malformed
+   */
+  static parseStrategyGraph(strategy: { nodes: unknown; connections: unknown }): StrategyGraph | null {
+    try {
+      const nodes = this.parseJson(strategy.nodes);
+      const connections = this.parseJson(strategy.connections);
+      return Array.isArray(nodes) && Array.isArray(connections) ? { nodes, connections } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create a pending BacktestResult row and execute it once the response is sent
+   */
+  static async queueRun(
+    strategy: { id: string },
+    graph: StrategyGraph,
+    request: BacktestRunRequest
+  ) {
+    const backtest = await prisma.backtestResult.create({
+      data: {
+        strategyId: strategy.id,
+        config: JSON.stringify(request.config),
+        results: JSON.stringify({}),
+        performanceMetrics: JSON.stringify({}),
+        status: 'pending',
+      },
+    });
+
+    // The platform keeps the function alive until the run settles; the caller polls the GET endpoints
+    after(() => this.executeRun(backtest.id, graph, request));
+
+    return this.parseBacktestResult(backtest);
+  }
+
+  /**
+   * Move a run through running -> completed | failed. Never throws: any
+   * error, including a failed status update, ends the run as failed.
+   */
+  static async executeRun(
+    backtestId: string,
+    graph: StrategyGraph,
+    request: BacktestRunRequest
+  ) {
+    try {
+      await this.updateStatus(backtestId, 'running');
+
+      const { config, bars } = request;
+      const result = await this.runInWorker({
+        nodes: graph.nodes,
+        connections: graph.connections,
+        bars,
+        config: {
+          initialCapital: config.initialCapital,
+          commissionPercent: config.commission,
+          slippageTicks: config.slippageTicks,
+          tickSize: config.tickSize,
+          qtyPercentOfEquity: config.qtyPercentOfEquity,
+        },
+      });
+
+      await prisma.backtestResult.update({
+        where: { id: backtestId },
+        data: {
+          status: 'completed',
+          results: JSON.stringify(this.toRunResults(result)),
+          performanceMetrics: JSON.stringify(this.toPerformanceMetrics(result)),
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      try {
+        await prisma.backtestResult.update({
+          where: { id: backtestId },
+          data: {
+            status: 'failed',
+            errorMessage: error instanceof Error ? error.message : 'Unknown backtest error',
+            completedAt: new Date(),
+          },
+        });
+      } catch (updateError) {
+        console.error(`Backtest ${backtestId} could not be marked as failed:`, updateError);
+      }
+    }
+  }
+
+  /**
+   * Parse JSON fields in backtest result data
+   */
+  static parseBacktestResult(backtest: any) {
+    return {
+      ...backtest,
+      config: this.parseJson(backtest.config),
+      results: this.parseJson(backtest.results),
+      performanceMetrics: this.parseJson(backtest.performanceMetrics),
+    };
+  }
+
+  private static async updateStatus(backtestId: string, status: BacktestStatus) {
+    await prisma.backtestResult.update({
+      where: { id: backtestId },
+      data: { status },
+    });
+  }
+
+  // The engine loop is synchronous, so it runs off the main thread
+  private static runInWorker(input: BacktestWorkerInput): Promise<BacktestRunResult> {
+    const worker = new Worker(new URL('./backtest-worker.ts', import.meta.url), { workerData: input });
+    return settleWorker<BacktestRunResult>(worker, 'backtest');
+  }
+
+  private static toRunResults(result: BacktestRunResult): BacktestRunResults {
+    return {
+      trades: result.trades,
+      openTrade: result.openTrade,
+      openTrades: result.openTrades,
+      equityCurve: result.equityCurve.map(point => ({ time: point.time, equity: point.equity })),
+      drawdownSeries: result.equityCurve.map(point => ({ time: point.time, drawdown: point.drawdown })),
+      barsProcessed: result.barsProcessed,
+      warnings: result.warnings,
+    };
+  }
+
+  private static toPerformanceMetrics(result: BacktestRunResult): PerformanceMetrics & Record<string, number> {
+    const { metrics } = result;
+    return {
+      ...metrics,
+      // JSON has no Infinity, so a run without losing trades reports 0
+      profitFactor: isFinite(metrics.profitFactor) ? metrics.profitFactor : 0,
+      averageTrade: metrics.totalTrades > 0 ? metrics.netProfit / metrics.totalTrades : 0,
+    };
+  }
+
+  private static normalizeBars(input: unknown, errors: string[]): OHLCVBar[] {
+    if (!Array.isArray(input)) {
+      return [];
+    }
+
+    if (input.length > MAX_BARS_PER_RUN) {
+      errors.push(`bars cannot contain more than ${MAX_BARS_PER_RUN} entries`);
+      return [];
+    }
+
+    const bars: OHLCVBar[] = [];
+    for (let index = 0; index < input.length; index++) {
+      const raw = input[index] || {};
+      const time = typeof raw.time === 'string' ? Date.parse(raw.time) : Number(raw.time);
+      const bar: OHLCVBar = {
+        time,
+        open: Number(raw.open),
+        high: Number(raw.high),
+        low: Number(raw.low),
+        close: Number(raw.close),
+        volume: Number(raw.volume ?? 0),
+      };
+
+      if (Object.values(bar).some(value => !isFinite(value))) {
+        errors.push(`Bar ${index}: time, open, high, low, close and volume must be numbers`);
+        break;
+      }
+      if (index > 0 && bar.time <= bars[index - 1].time) {
+        errors.push(`Bar ${index}: timestamps must be strictly increasing`);
+        break;
+      }
+      bars.push(bar);
+    }
+
+    return bars;
+  }
+
+  private static parseJson<T = any>(value: unknown): T {
+    return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+  }
+}
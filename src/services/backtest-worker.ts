@@ -0,0 +1,26 @@
+/**
+ * Backtest Worker
+ *
+ * Runs one backtest on a worker thread, so a long run over a large dataset
+ * does not hold up the other requests the server is handling.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { runBacktest } from '@/lib/backtesting';
+import type { BacktestConfig, OHLCVBar } from '@/lib/backtesting';
+import type { CustomEdge, CustomNode } from '@/app/builder/canvas-config';
+
+export interface BacktestWorkerInput {
+  nodes: CustomNode[];
+  connections: CustomEdge[];
+  bars: OHLCVBar[];
+  config: Partial<BacktestConfig>;
+}
+
+const { nodes, connections, bars, config } = workerData as BacktestWorkerInput;
+
+try {
+  parentPort!.postMessage({ result: runBacktest(nodes, connections, bars, config) });
+} catch (error) {
+  parentPort!.postMessage({ error: error instanceof Error ? error.message : 'Unknown backtest error' });
+}
@@ -0,0 +1,252 @@
+import { prisma } from '@/lib/prisma';
+import {
+  parseDataset,
+  resampleBars,
+  normalizeTimeframe,
+  parseTimeframe,
+  timeframeToMs,
+} from '@/lib/backtesting';
+import type { DatasetValidationReport, OHLCVBar } from '@/lib/backtesting';
+
+// Stored compactly as [time, open, high, low, close, volume] tuples
+type StoredBar = [number, number, number, number, number, number];
+
+interface CandidateDataset {
+  id: string;
+  timeframe: string;
+  exact: boolean;
+  ms: number;
+}
+
+export interface DatasetImportRequest {
+  name?: string;
+  symbol: string;
+  timeframe?: string;
+  timezone?: string;
+  format?: 'csv' | 'json';
+  content: string;
+}
+
+export interface DatasetSelector {
+  datasetId?: string;
+  symbol?: string;
+  timeframe?: string;
+}
+
+export interface LoadedDataset {
+  datasetId: string;
+  symbol: string;
+  timeframe: string;
+  timezone: string;
+  bars: OHLCVBar[];
+  resampledFrom?: string;
+}
+
+const DATASET_SUMMARY_SELECT = {
+  id: true,
+  userId: true,
+  name: true,
+  symbol: true,
+  timeframe: true,
+  timezone: true,
+  format: true,
+  barCount: true,
+  startTime: true,
+  endTime: true,
+  report: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+export class MarketDataService {
+  /**
+   * Parse, validate and store an uploaded dataset. Invalid uploads are not
+   * stored; the validation report is returned either way.
+   */
+  static async importDataset(userId: string, request: DatasetImportRequest) {
+    const symbol = request.symbol?.trim().toUpperCase();
+    if (!symbol) {
+      throw new Error('Symbol is required');
+    }
+
+    const declaredTimeframe = request.timeframe ? normalizeTimeframe(request.timeframe) : null;
+    if (request.timeframe && !declaredTimeframe) {
+      throw new Error(`Unknown timeframe "${request.timeframe}"`);
+    }
+
+    const parsed = parseDataset(request.content, {
+      format: request.format,
+      timezone: request.timezone,
+      timeframe: declaredTimeframe || undefined,
+    });
+
+    const timeframe = declaredTimeframe || parsed.report.inferredTimeframe;
+    if (parsed.report.valid && !timeframe) {
+      parsed.report.valid = false;
+      parsed.report.errors.push('Timeframe could not be inferred; please specify it');
+    }
+
+    if (!parsed.report.valid) {
+      return { dataset: null, report: parsed.report };
+    }
+
+    const { bars, report } = parsed;
+    const dataset = await prisma.marketDataset.create({
+      data: {
+        userId,
+        name: request.name?.trim() || `${symbol} ${timeframe}`,
+        symbol,
+        timeframe: timeframe as string,
+        timezone: report.timezone,
+        format: parsed.format,
+        barCount: bars.length,
+        startTime: new Date(bars[0].time),
+        endTime: new Date(bars[bars.length - 1].time),
+        bars: JSON.stringify(bars.map(this.toStoredBar)),
+        report: JSON.stringify(report),
+      },
+      select: DATASET_SUMMARY_SELECT,
+    });
+
+    return { dataset: this.parseDatasetSummary(dataset), report };
+  }
+
+  /**
+   * List a user's datasets without their bar data
+   */
+  static async listDatasets(userId: string, filters: { symbol?: string; timeframe?: string } = {}) {
+    const timeframe = filters.timeframe ? normalizeTimeframe(filters.timeframe) : null;
+
+    const datasets = await prisma.marketDataset.findMany({
+      where: {
+        userId,
+        ...(filters.symbol && { symbol: filters.symbol.toUpperCase() }),
+        ...(timeframe && { timeframe }),
+      },
+      select: DATASET_SUMMARY_SELECT,
+      orderBy: [{ symbol: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    return datasets.map((dataset: any) => this.parseDatasetSummary(dataset));
+  }
+
+  static async getDataset(datasetId: string, userId: string) {
+    const dataset = await prisma.marketDataset.findFirst({
+      where: { id: datasetId, userId },
+      select: DATASET_SUMMARY_SELECT,
+    });
+
+    return dataset ? this.parseDatasetSummary(dataset) : null;
+  }
+
+  static async deleteDataset(datasetId: string, userId: string) {
+    const result = await prisma.marketDataset.deleteMany({
+      where: { id: datasetId, userId },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Load bars by dataset id or by symbol and timeframe. When no dataset
+   * exists at the requested timeframe, the coarsest dataset for the symbol
+   * that divides it evenly is resampled.
+   */
+  static async loadBars(userId: string, selector: DatasetSelector): Promise<LoadedDataset> {
+    const requested = selector.timeframe ? normalizeTimeframe(selector.timeframe) : null;
+    if (selector.timeframe && !requested) {
+      throw new Error(`Unknown timeframe "${selector.timeframe}"`);
+    }
+
+    let dataset;
+    if (selector.datasetId) {
+      dataset = await prisma.marketDataset.findFirst({
+        where: { id: selector.datasetId, userId },
+      });
+      if (!dataset) {
+        throw new Error('Dataset not found');
+      }
+    } else if (selector.symbol) {
+      dataset = await this.findSourceDataset(userId, selector.symbol.toUpperCase(), requested);
+      if (!dataset) {
+        throw new Error(
+          `No dataset found for ${selector.symbol.toUpperCase()}${requested ? ` at ${requested} or a lower timeframe` : ''}`
+        );
+      }
+    } else {
+      throw new Error('A datasetId or symbol is required');
+    }
+
+    const stored = this.parseJson<StoredBar[]>(dataset.bars);
+    const bars = stored.map(this.fromStoredBar);
+
+    if (!requested || requested === dataset.timeframe) {
+      return {
+        datasetId: dataset.id,
+        symbol: dataset.symbol,
+        timeframe: dataset.timeframe,
+        timezone: dataset.timezone,
+        bars,
+      };
+    }
+
+    return {
+      datasetId: dataset.id,
+      symbol: dataset.symbol,
+      timeframe: requested,
+      timezone: dataset.timezone,
+      bars: resampleBars(bars, requested, dataset.timezone),
+      resampledFrom: dataset.timeframe,
+    };
+  }
+
+  private static async findSourceDataset(userId: string, symbol: string, timeframe: string | null) {
+    const candidates = await prisma.marketDataset.findMany({
+      where: { userId, symbol },
+      select: { id: true, timeframe: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!timeframe) {
+      return candidates.length > 0
+        ? prisma.marketDataset.findUnique({ where: { id: candidates[0].id } })
+        : null;
+    }
+
+    const targetMs = timeframeToMs(parseTimeframe(timeframe)!);
+    const usable = candidates
+      .map((candidate: { id: string; timeframe: string }) => ({
+        ...candidate,
+        exact: candidate.timeframe === timeframe,
+        ms: timeframeToMs(parseTimeframe(candidate.timeframe)!),
+      }))
+      .filter((candidate: CandidateDataset) =>
+        candidate.exact || (candidate.ms < targetMs && targetMs % candidate.ms === 0)
+      )
+      // Exact match first, then the coarsest source that still divides the target
+      .sort((a: CandidateDataset, b: CandidateDataset) => Number(b.exact) - Number(a.exact) || b.ms - a.ms);
+
+    return usable.length > 0
+      ? prisma.marketDataset.findUnique({ where: { id: usable[0].id } })
+      : null;
+  }
+
+  private static parseDatasetSummary(dataset: any) {
+    return {
+      ...dataset,
+      report: this.parseJson<DatasetValidationReport>(dataset.report),
+    };
+  }
+
+  private static toStoredBar(bar: OHLCVBar): StoredBar {
+    return [bar.time, bar.open, bar.high, bar.low, bar.close, bar.volume];
+  }
+
+  private static fromStoredBar([time, open, high, low, close, volume]: StoredBar): OHLCVBar {
+    return { time, open, high, low, close, volume };
+  }
+
+  private static parseJson<T = any>(value: unknown): T {
+    return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+  }
+}
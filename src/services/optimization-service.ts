@@ -0,0 +1,57 @@
+import { Worker } from 'worker_threads';
+import type {
+  OptimizationResult,
+  ParameterOptimizationConfig,
+  RobustnessOptions,
+  RobustnessReport,
+  WalkForwardResult,
+} from '@/agents/pinegenie-ai/optimization/parameter-optimizer';
+import type { BuilderEdge, BuilderNode } from '@/app/builder/builder-state';
+import type { OHLCVBar } from '@/lib/backtesting';
+import type { OptimizationWorkerInput } from '@/services/optimization-worker';
+import { settleWorker } from '@/services/worker-task';
+
+export class OptimizationService {
+  /**
+   * Search a strategy's parameters for the best backtest score
+   */
+  static optimize(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    bars: OHLCVBar[],
+    config: Partial<ParameterOptimizationConfig>
+  ): Promise<OptimizationResult> {
+    return this.runInWorker({ task: 'optimize', nodes, edges, bars, config });
+  }
+
+  /**
+   * Optimize on each training window and score the result on the window after it
+   */
+  static walkForward(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    bars: OHLCVBar[],
+    config: Partial<ParameterOptimizationConfig>
+  ): Promise<WalkForwardResult> {
+    return this.runInWorker({ task: 'walk-forward', nodes, edges, bars, config });
+  }
+
+  /**
+   * Parameter sensitivity and Monte Carlo analysis of a strategy
+   */
+  static analyzeRobustness(
+    nodes: BuilderNode[],
+    edges: BuilderEdge[],
+    bars: OHLCVBar[],
+    config: Partial<ParameterOptimizationConfig>,
+    robustness: RobustnessOptions
+  ): Promise<RobustnessReport> {
+    return this.runInWorker({ task: 'robustness', nodes, edges, bars, config, robustness });
+  }
+
+  // Every candidate is a synchronous backtest, so the search runs off the main thread
+  private static runInWorker<T>(input: OptimizationWorkerInput): Promise<T> {
+    const worker = new Worker(new URL('./optimization-worker.ts', import.meta.url), { workerData: input });
+    return settleWorker<T>(worker, 'optimization');
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Optimization Worker
+ *
+ * Runs a parameter search, walk-forward run or robustness analysis on a
+ * worker thread. Each evaluates hundreds to thousands of synchronous
+ * backtests, which would otherwise stall every request on the instance.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { ParameterOptimizer } from '@/agents/pinegenie-ai/optimization/parameter-optimizer';
+import type {
+  ParameterOptimizationConfig,
+  RobustnessOptions,
+} from '@/agents/pinegenie-ai/optimization/parameter-optimizer';
+import type { BuilderEdge, BuilderNode } from '@/app/builder/builder-state';
+import type { OHLCVBar } from '@/lib/backtesting';
+
+export type OptimizationTask = 'optimize' | 'walk-forward' | 'robustness';
+
+export interface OptimizationWorkerInput {
+  task: OptimizationTask;
+  nodes: BuilderNode[];
+  edges: BuilderEdge[];
+  bars: OHLCVBar[];
+  config: Partial<ParameterOptimizationConfig>;
+  robustness?: RobustnessOptions;
+}
+
+async function run({ task, nodes, edges, bars, config, robustness }: OptimizationWorkerInput) {
+  const optimizer = new ParameterOptimizer();
+
+  switch (task) {
+    case 'walk-forward':
+      return optimizer.walkForwardOptimize(nodes, edges, bars, config);
+    case 'robustness':
+      return optimizer.analyzeRobustness(nodes, edges, bars, config, robustness);
+    default:
+      return optimizer.optimizeParameters(nodes, edges, bars, config);
+  }
+}
+
+run(workerData as OptimizationWorkerInput)
+  .then(result => parentPort!.postMessage({ result }))
+  .catch(error => parentPort!.postMessage({ error: error instanceof Error ? error.message : 'Unknown optimization error' }));
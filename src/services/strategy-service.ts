@@ -1,5 +1,19 @@
 import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@/lib/prisma';
 import { TradingStrategy, StrategySearchFilters, StrategyImportData } from '@/types/strategy';
+import { subscriptionPlanManager } from '@/services/subscription';
+import { countGraphChanges, describeGraphDiff, diffLines, diffStrategyGraphs } from '@/app/builder/strategy-diff';
+
+// Saves snapshot a version once this many edits have piled up since the last
+// version, or once the last version is this old and anything changed at all
+const AUTO_SNAPSHOT_CHANGE_THRESHOLD = 3;
+const AUTO_SNAPSHOT_INTERVAL_MS = 30 * 60 * 1000;
+
+interface VersionContent {
+  nodes: unknown;
+  connections: unknown;
+  pineScriptCode?: string | null;
+}
 
 export class StrategyService {
   /**
@@ -75,48 +89,172 @@ export class StrategyService {
   }
 
   /**
-   * Create a new strategy version
+   * Create a new strategy version. Without a change log the version
+   * describes what changed since the previous one.
    */
   static async createVersion(
     strategyId: string,
     versionData: {
       name: string;
-      description?: string;
+      description?: string | null;
       nodes: any;
       connections: any;
-      pineScriptCode?: string;
+      pineScriptCode?: string | null;
       changeLog?: string;
     }
   ) {
-    // Get the latest version number
-    const latestVersion = await prisma.strategyVersion.findFirst({
-      where: { strategyId },
-      orderBy: { version: 'desc' },
+    return prisma.$transaction(async tx => {
+      await StrategyService.lockVersions(tx, strategyId);
+
+      // Get the latest version number
+      const latestVersion = await tx.strategyVersion.findFirst({
+        where: { strategyId },
+        orderBy: { version: 'desc' },
+      });
+
+      const newVersionNumber = (latestVersion?.version || 0) + 1;
+
+      // Create new version
+      const version = await tx.strategyVersion.create({
+        data: {
+          strategyId,
+          version: newVersionNumber,
+          name: versionData.name,
+          description: versionData.description,
+          nodes: typeof versionData.nodes === 'string' ? versionData.nodes : JSON.stringify(versionData.nodes),
+          connections: typeof versionData.connections === 'string' ? versionData.connections : JSON.stringify(versionData.connections),
+          pineScriptCode: versionData.pineScriptCode,
+          changeLog: versionData.changeLog ||
+            (latestVersion && StrategyService.summarizeChanges(latestVersion, versionData).changeLog) ||
+            `Version ${newVersionNumber}`,
+        },
+      });
+
+      // Update strategy version number
+      await tx.strategy.update({
+        where: { id: strategyId },
+        data: { version: newVersionNumber },
+      });
+
+      return { version, versionNumber: newVersionNumber };
     });
+  }
 
-    const newVersionNumber = (latestVersion?.version || 0) + 1;
+  /**
+   * Count and describe the changes between two saved states of a strategy
+   */
+  static summarizeChanges(before: VersionContent, after: VersionContent) {
+    const parse = (value: unknown) => typeof value === 'string' ? JSON.parse(value) : value;
+    const [beforeNodes, afterNodes] = [parse(before.nodes) || [], parse(after.nodes) || []];
+    const graph = diffStrategyGraphs(
+      { nodes: beforeNodes, edges: parse(before.connections) || [] },
+      { nodes: afterNodes, edges: parse(after.connections) || [] }
+    );
+    const pine = diffLines(before.pineScriptCode || '', after.pineScriptCode || '');
+    const pineChanged = pine.added + pine.removed > 0;
 
-    // Create new version
-    const version = await prisma.strategyVersion.create({
-      data: {
-        strategyId,
-        version: newVersionNumber,
-        name: versionData.name,
-        description: versionData.description,
-        nodes: JSON.stringify(versionData.nodes),
-        connections: JSON.stringify(versionData.connections),
-        pineScriptCode: versionData.pineScriptCode,
-        changeLog: versionData.changeLog || `Version ${newVersionNumber}`,
-      },
+    const changeLog = describeGraphDiff(graph, [...beforeNodes, ...afterNodes]) ||
+      (pineChanged ? `Pine Script updated (+${pine.added}/-${pine.removed} lines)` : '');
+
+    return { changeCount: countGraphChanges(graph) + (pineChanged ? 1 : 0), changeLog };
+  }
+
+  /**
+   * Snapshot a version after a save when enough has changed since the last
+   * version, or enough time has passed; an explicit change log always
+   * snapshots. Returns the new version, or null when none was taken.
+   */
+  static async snapshotOnSave(
+    strategy: VersionContent & { id: string; userId: string; name: string; description?: string | null },
+    changeLog?: string
+  ) {
+    // Concurrent saves queue on the strategy's lock, so each reads the version the previous one wrote
+    const version = await prisma.$transaction(async tx => {
+      await StrategyService.lockVersions(tx, strategy.id);
+
+      const latestVersion = await tx.strategyVersion.findFirst({
+        where: { strategyId: strategy.id },
+        orderBy: { version: 'desc' },
+      });
+
+      const summary = latestVersion
+        ? StrategyService.summarizeChanges(latestVersion, strategy)
+        : { changeCount: 1, changeLog: 'Initial version' };
+
+      if (summary.changeCount === 0) {
+        return null;
+      }
+
+      const elapsed = latestVersion ? Date.now() - latestVersion.createdAt.getTime() : Infinity;
+      if (!changeLog && summary.changeCount < AUTO_SNAPSHOT_CHANGE_THRESHOLD && elapsed < AUTO_SNAPSHOT_INTERVAL_MS) {
+        return null;
+      }
+
+      const newVersionNumber = (latestVersion?.version || 0) + 1;
+      const created = await tx.strategyVersion.create({
+        data: {
+          strategyId: strategy.id,
+          version: newVersionNumber,
+          name: strategy.name,
+          description: strategy.description,
+          nodes: typeof strategy.nodes === 'string' ? strategy.nodes : JSON.stringify(strategy.nodes),
+          connections: typeof strategy.connections === 'string' ? strategy.connections : JSON.stringify(strategy.connections),
+          pineScriptCode: strategy.pineScriptCode,
+          changeLog: changeLog || summary.changeLog,
+        },
+      });
+
+      await tx.strategy.update({
+        where: { id: strategy.id },
+        data: { version: newVersionNumber },
+      });
+
+      return created;
     });
 
-    // Update strategy version number
-    await prisma.strategy.update({
-      where: { id: strategyId },
-      data: { version: newVersionNumber },
+    if (!version) {
+      return null;
+    }
+
+    // The snapshot stands even when old versions could not be cleaned up
+    try {
+      await StrategyService.pruneVersions(strategy.id, strategy.userId);
+    } catch (error) {
+      console.error(`Error pruning versions of strategy ${strategy.id}:`, error);
+    }
+
+    return version;
+  }
+
+  // Serializes version numbering per strategy until the transaction ends
+  private static async lockVersions(tx: Prisma.TransactionClient, strategyId: string) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${strategyId}))`;
+  }
+
+  /**
+   * Delete the oldest versions beyond what the owner's plan keeps
+   */
+  static async pruneVersions(strategyId: string, ownerId: string) {
+    const limit = await subscriptionPlanManager.getVersionRetentionLimit(ownerId);
+    // Deleting is permanent, so an unknown limit keeps everything
+    if (limit === null || limit === 'unlimited') {
+      return 0;
+    }
+
+    const expired = await prisma.strategyVersion.findMany({
+      where: { strategyId },
+      orderBy: { version: 'desc' },
+      skip: limit,
+      select: { id: true },
     });
 
-    return { version, versionNumber: newVersionNumber };
+    if (expired.length > 0) {
+      await prisma.strategyVersion.deleteMany({
+        where: { id: { in: expired.map(version => version.id) } },
+      });
+    }
+
+    return expired.length;
   }
 
   /**
@@ -22,6 +22,7 @@ export interface PlanLimits {
   aiGenerations: number | 'unlimited';
   aiChatAccess: boolean;
   scriptStorage: number | 'unlimited';
+  strategyVersions?: number | 'unlimited'; // Saved versions kept per strategy; versions are never pruned without it
   exportFormats: string[];
   supportLevel: 'community' | 'priority' | 'dedicated';
   customSignatures: boolean;
@@ -321,6 +322,20 @@ export class SubscriptionPlanManager {
     }
   }
 
+  /**
+   * Get how many saved versions of each strategy the user's plan keeps, or
+   * null when the plan or its limit cannot be determined
+   */
+  async getVersionRetentionLimit(userId: string): Promise<number | 'unlimited' | null> {
+    try {
+      const subscription = await this.getUserSubscription(userId);
+      return subscription?.limits.strategyVersions ?? null;
+    } catch (error) {
+      console.error('Error checking version retention limit:', error);
+      return null;
+    }
+  }
+
   /**
    * Check if user has reached usage limit for a feature
    */
@@ -0,0 +1,29 @@
+/**
+ * Worker Task
+ *
+ * Settles a worker thread that posts a single { result } or { error }
+ * message, the protocol the backtest and optimization workers share.
+ */
+
+import type { Worker } from 'worker_threads';
+
+export interface WorkerTaskMessage<T> {
+  result?: T;
+  error?: string;
+}
+
+export function settleWorker<T>(worker: Worker, task: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    worker.once('message', (message: WorkerTaskMessage<T>) => {
+      if (message.result !== undefined) {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.error || `Unknown ${task} error`));
+      }
+    });
+    worker.once('error', reject);
+    worker.once('exit', code => {
+      if (code !== 0) reject(new Error(`${task[0].toUpperCase()}${task.slice(1)} worker stopped with exit code ${code}`));
+    });
+  });
+}
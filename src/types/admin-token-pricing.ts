@@ -137,6 +137,7 @@ export interface PlanLimits {
   aiGenerations: number;
   aiChatAccess: boolean;
   scriptStorage: number | 'unlimited';
+  strategyVersions?: number | 'unlimited';
   exportFormats: string[];
   supportLevel: SupportLevel;
   customSignatures: boolean;
@@ -347,6 +348,7 @@ export const planLimitsSchema = z.object({
   aiGenerations: z.number().min(0),
   aiChatAccess: z.boolean(),
   scriptStorage: z.union([z.number().min(0), z.literal('unlimited')]),
+  strategyVersions: z.union([z.number().min(1), z.literal('unlimited')]).optional(),
   exportFormats: z.array(z.string()),
   supportLevel: z.nativeEnum(SupportLevel),
   customSignatures: z.boolean(),
@@ -1,5 +1,7 @@
 // Strategy-related TypeScript types matching the Prisma schema
 
+import type { BacktestTrade } from '@/lib/backtesting';
+
 export interface StrategyNode {
   id: string;
   type: 'indicator' | 'condition' | 'action' | 'data';
@@ -84,15 +86,33 @@ export interface BacktestConfig {
   endDate: Date;
   initialCapital: number;
   commission: number;
+  slippageTicks?: number;
+  tickSize?: number;
+  qtyPercentOfEquity?: number;
+  barCount?: number;
+  datasetId?: string;
+  resampledFrom?: string;
+}
+
+export type BacktestStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface BacktestRunResults {
+  trades: BacktestTrade[];
+  openTrade: BacktestTrade | null;
+  openTrades?: BacktestTrade[]; // Missing on runs stored before positions could pyramid
+  equityCurve: { time: number; equity: number }[];
+  drawdownSeries: { time: number; drawdown: number }[];
+  barsProcessed: number;
+  warnings: string[];
 }
 
 export interface BacktestResult {
   id: string;
   strategyId: string;
   config: BacktestConfig;
-  results: Record<string, unknown>; // Raw backtest results
+  results: BacktestRunResults | Record<string, never>; // Empty until the run completes
   performanceMetrics: PerformanceMetrics;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: BacktestStatus;
   errorMessage?: string;
   startedAt: Date;
   completedAt?: Date;